@@ -197,20 +197,29 @@ export interface Shipment {
     id: string;
     assetId: string;
     carrier: string;
-    trackingNumber: string;
+    trackingRef: string;
+    status: string;
+}
+
+export interface ScanOverride {
+    supervisorId: string;
+    reason: string;
 }
 
 export const wmsService = {
     createPicking: (assetId: string, orderRef: string) =>
         request<PickingOrder>(SERVICES.wms, '/wms/picking', { method: 'POST', body: { assetId, orderRef } }),
 
-    completePicking: (pickingId: string) =>
-        request<PickingOrder>(SERVICES.wms, `/wms/picking/${pickingId}/complete`, { method: 'POST' }),
+    completePicking: (pickingId: string, override?: ScanOverride) =>
+        request<PickingOrder>(SERVICES.wms, `/wms/picking/${pickingId}/complete`, {
+            method: 'POST',
+            body: { override }
+        }),
 
-    createShipment: (assetId: string, carrier: string, trackingNumber: string) =>
+    createShipment: (assetId: string, carrier: string, trackingRef: string, override: ScanOverride) =>
         request<Shipment>(SERVICES.wms, '/wms/shipments', {
             method: 'POST',
-            body: { assetId, carrier, trackingNumber }
+            body: { assetId, carrier, trackingRef, override }
         })
 };
 
@@ -259,8 +268,11 @@ export const savService = {
             body: { diagnosis, resolution }
         }),
 
-    resolveRma: (rmaId: string) =>
-        request<Rma>(SERVICES.sav, `/sav/rma/${rmaId}/resolve`, { method: 'POST' })
+    resolveRma: (rmaId: string, options: { dataWipeCertificateRef?: string; scrapReasonCode?: string } = {}) =>
+        request<Rma>(SERVICES.sav, `/sav/rma/${rmaId}/resolve`, {
+            method: 'POST',
+            body: options
+        })
 };
 
 // ============================================
@@ -18,9 +18,16 @@ import {
     Asset,
     QualityCheck,
     CtoValidationResult,
-    Order
+    Order,
+    ScanOverride
 } from '../lib/api-client';
 
+// Façade WMS v0 sans scanner : clôture des tâches sur dérogation superviseur
+const E2E_SCAN_OVERRIDE: ScanOverride = {
+    supervisorId: process.env.E2E_SUPERVISOR_ID ?? 'e2e-supervisor',
+    reason: 'E2E: flux v0 sans scanner'
+};
+
 describe('E2E: Full Sales Flow', () => {
     /**
      * Ce test suit le cycle de vie complet d'un serveur :
@@ -170,7 +177,7 @@ describe('E2E: Full Sales Flow', () => {
             const picking = await wmsService.createPicking(asset.id, order.id);
             expect(picking.id).toBeDefined();
 
-            const completedPicking = await wmsService.completePicking(picking.id);
+            const completedPicking = await wmsService.completePicking(picking.id, E2E_SCAN_OVERRIDE);
             expect(completedPicking.status).toBe('COMPLETED');
             console.log('[E2E] ✓ Picking completed');
         } catch (error) {
@@ -186,15 +193,17 @@ describe('E2E: Full Sales Flow', () => {
             const shipment = await wmsService.createShipment(
                 asset.id,
                 'DHL',
-                `TRACK-${Date.now()}`
+                `TRACK-${Date.now()}`,
+                E2E_SCAN_OVERRIDE
             );
             expect(shipment.id).toBeDefined();
-            expect(shipment.trackingNumber).toBeDefined();
+            expect(shipment.trackingRef).toBeDefined();
+            expect(shipment.status).toBe('SHIPPED');
 
             // Vérifier que l'Asset est passé en SOLD
             const finalAsset = await assetService.get(asset.id);
             expect(finalAsset.status).toBe('SOLD');
-            console.log(`[E2E] ✓ Shipment created: ${shipment.trackingNumber}`);
+            console.log(`[E2E] ✓ Shipment created: ${shipment.trackingRef}`);
         } catch (error) {
             console.log('[E2E] ⚠ Shipment failed - check WMS Service');
         }
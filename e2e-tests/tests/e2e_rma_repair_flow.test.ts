@@ -146,7 +146,9 @@ describe('E2E: RMA Repair Flow', () => {
         console.log('[E2E] Step 5: Resolve RMA');
 
         try {
-            const resolvedRma = await savService.resolveRma(rma.id);
+            const resolvedRma = await savService.resolveRma(rma.id, {
+                dataWipeCertificateRef: `WIPE-E2E-${rma.id}`
+            });
             expect(resolvedRma.status).toBe('RESOLVED');
 
             // L'Asset doit être en QUALITY_PENDING (nouveau cycle qualité)
@@ -231,7 +233,7 @@ describe('E2E: RMA Repair Flow', () => {
             await savService.diagnoseRma(rma.id, 'Irreparable damage - scrapping required', 'SCRAP');
 
             // Résolution
-            await savService.resolveRma(rma.id);
+            await savService.resolveRma(rma.id, { scrapReasonCode: 'BEYOND_REPAIR' });
 
             // Vérifier que l'Asset est SCRAPPED
             const scrappedAsset = await assetService.get(asset.id);
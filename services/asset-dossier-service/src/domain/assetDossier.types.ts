@@ -62,6 +62,23 @@ export interface AssetIdentity {
     chassisRef: string | null;
     origin: AssetOrigin | null;
     entryDate: Date;
+    provenance: AssetProvenance | null;     // Pièce récupérée : donneur d'origine
+    harvestedParts: HarvestedPart[];        // Donneur : pièces récupérées
+}
+
+export interface AssetProvenance {
+    donorAssetId: string;
+    donorSerialNumber: string | null;
+    donorModel: string | null;
+}
+
+export interface HarvestedPart {
+    assetId: string;
+    serialNumber: string;
+    componentType: string | null;
+    reference: string;
+    grade: string | null;
+    status: string;
 }
 
 export interface AssetOrigin {
@@ -86,6 +103,7 @@ export interface CtoComponent {
     type: string;
     reference: string;
     quantity: number;
+    sourceAssetIds?: string[];  // Pièces récupérées consommées
 }
 
 export interface CtoDecisionInfo {
@@ -12,6 +12,8 @@ export interface AssetData {
     chassisRef: string | null;
     status: string;
     grade: string | null;
+    parentAssetId?: string | null;      // Donneur (pièce récupérée)
+    componentType?: string | null;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -39,6 +41,16 @@ export class AssetClient {
         }
     }
 
+    async getHarvestedParts(assetId: string): Promise<AssetData[]> {
+        try {
+            const response = await fetch(`${this.baseUrl}/assets/${assetId}/parts`);
+            if (!response.ok) return [];
+            return await response.json() as AssetData[];
+        } catch {
+            return [];
+        }
+    }
+
     async getStateHistory(assetId: string): Promise<AssetStateHistoryEntry[]> {
         try {
             const response = await fetch(`${this.baseUrl}/assets/${assetId}/history`);
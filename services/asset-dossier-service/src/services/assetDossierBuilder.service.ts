@@ -25,7 +25,7 @@ import {
     AssetNotFoundError,
     DossierBuildError
 } from '../domain/assetDossier.types';
-import { AssetClient } from '../integrations/asset.client';
+import { AssetClient, AssetData } from '../integrations/asset.client';
 import { QualityClient } from '../integrations/quality.client';
 import { WmsClient } from '../integrations/wms.client';
 import { SavClient } from '../integrations/sav.client';
@@ -87,7 +87,9 @@ export class AssetDossierBuilderService {
             ctoConfig,
             stockLocation,
             movements,
-            shipment
+            shipment,
+            donor,
+            harvestedParts
         ] = await Promise.all([
             this.assetClient.getStateHistory(assetId),
             this.qualityClient.getQualityResults(assetId),
@@ -99,7 +101,9 @@ export class AssetDossierBuilderService {
             this.ctoClient.getConfigurationForAsset(assetId),
             this.inventoryClient.getStockLocation(assetId),
             this.inventoryClient.getMovements(assetId),
-            this.wmsClient.getShipmentForAsset(assetId)
+            this.wmsClient.getShipmentForAsset(assetId),
+            asset.parentAssetId ? this.assetClient.getAsset(asset.parentAssetId) : Promise.resolve(null),
+            this.assetClient.getHarvestedParts(assetId)
         ]);
 
         // 3. Construire les 7 sections
@@ -113,7 +117,7 @@ export class AssetDossierBuilderService {
             version: DOSSIER_VERSION
         };
 
-        const identity = this.buildIdentity(asset);
+        const identity = this.buildIdentity(asset, donor, harvestedParts);
         const ctoSection = await this.buildCtoSection(ctoConfig);
         const refurbishment = await this.buildRefurbishmentSection(wmsTasks, qualityResults);
         const quality = this.buildQualitySection(qualityResults, qualityAlerts, batteryHealth);
@@ -162,7 +166,7 @@ export class AssetDossierBuilderService {
     // SECTION BUILDERS
     // ============================================
 
-    private buildIdentity(asset: any): AssetIdentity {
+    private buildIdentity(asset: any, donor: AssetData | null, harvestedParts: AssetData[]): AssetIdentity {
         return {
             serialNumber: asset.serialNumber,
             assetType: asset.assetType,
@@ -170,7 +174,23 @@ export class AssetDossierBuilderService {
             model: asset.model,
             chassisRef: asset.chassisRef,
             origin: null, // TODO: Enrichir depuis procurement-service
-            entryDate: new Date(asset.createdAt)
+            entryDate: new Date(asset.createdAt),
+            // Provenance conservée même si le donneur n'est plus joignable
+            provenance: asset.parentAssetId
+                ? {
+                    donorAssetId: asset.parentAssetId,
+                    donorSerialNumber: donor?.serialNumber ?? null,
+                    donorModel: donor ? `${donor.brand} ${donor.model}` : null
+                }
+                : null,
+            harvestedParts: harvestedParts.map(p => ({
+                assetId: p.id,
+                serialNumber: p.serialNumber,
+                componentType: p.componentType ?? null,
+                reference: p.model,
+                grade: p.grade,
+                status: p.status
+            }))
         };
     }
 
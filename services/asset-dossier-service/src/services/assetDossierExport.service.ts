@@ -54,8 +54,14 @@ export class AssetDossierExportService {
             `Type: ${dossier.identity.assetType}`,
             `Marque: ${dossier.identity.brand}`,
             `Modèle: ${dossier.identity.model}`,
-            `Date d'entrée: ${dossier.identity.entryDate.toISOString().split('T')[0]}`
-        ]);
+            `Date d'entrée: ${dossier.identity.entryDate.toISOString().split('T')[0]}`,
+            dossier.identity.provenance
+                ? `Pièce récupérée sur: ${dossier.identity.provenance.donorSerialNumber ?? dossier.identity.provenance.donorAssetId}`
+                : '',
+            ...dossier.identity.harvestedParts.map(p =>
+                `Pièce récupérée: ${p.componentType ?? ''} ${p.reference} (S/N ${p.serialNumber}, grade ${p.grade ?? 'N/A'})`
+            )
+        ].filter(Boolean));
 
         // Section 2: Configuration CTO
         if (dossier.ctoConfiguration) {
@@ -23,7 +23,8 @@ const createMockPrisma = () => ({
 
 const createMockAssetClient = () => ({
     getAsset: jest.fn(),
-    getStateHistory: jest.fn()
+    getStateHistory: jest.fn(),
+    getHarvestedParts: jest.fn()
 });
 
 const createMockQualityClient = () => ({
@@ -165,6 +166,7 @@ describe('Asset Dossier Service - Sprint 23', () => {
             // Arrange
             assetClient.getAsset.mockResolvedValue(mockAsset);
             assetClient.getStateHistory.mockResolvedValue([]);
+            assetClient.getHarvestedParts.mockResolvedValue([]);
             qualityClient.getQualityResults.mockResolvedValue([]);
             qualityClient.getBatteryHealth.mockResolvedValue(null);
             qualityClient.getAlertsForAsset.mockResolvedValue([]);
@@ -201,6 +203,7 @@ describe('Asset Dossier Service - Sprint 23', () => {
             // Arrange
             assetClient.getAsset.mockResolvedValue(mockAsset);
             assetClient.getStateHistory.mockResolvedValue([]);
+            assetClient.getHarvestedParts.mockResolvedValue([]);
             qualityClient.getQualityResults.mockResolvedValue([]);
             qualityClient.getBatteryHealth.mockResolvedValue(null);
             qualityClient.getAlertsForAsset.mockResolvedValue([]);
@@ -233,6 +236,7 @@ describe('Asset Dossier Service - Sprint 23', () => {
             // Arrange
             assetClient.getAsset.mockResolvedValue(mockAsset);
             assetClient.getStateHistory.mockResolvedValue([]);
+            assetClient.getHarvestedParts.mockResolvedValue([]);
             qualityClient.getQualityResults.mockResolvedValue(mockQualityResults);
             qualityClient.getBatteryHealth.mockResolvedValue({ stateOfHealth: 85, cycles: 120, measuredAt: new Date() });
             qualityClient.getAlertsForAsset.mockResolvedValue([]);
@@ -282,7 +286,9 @@ describe('Asset Dossier Service - Sprint 23', () => {
                     model: 'Latitude 5520',
                     chassisRef: null,
                     origin: null,
-                    entryDate: new Date()
+                    entryDate: new Date(),
+                    provenance: null,
+                    harvestedParts: []
                 },
                 ctoConfiguration: null,
                 refurbishmentHistory: { tasks: [], qaChecklists: [], replacedParts: [] },
@@ -320,6 +326,7 @@ describe('Asset Dossier Service - Sprint 23', () => {
             // Arrange
             assetClient.getAsset.mockResolvedValue(mockAsset);
             assetClient.getStateHistory.mockResolvedValue([]);
+            assetClient.getHarvestedParts.mockResolvedValue([]);
             qualityClient.getQualityResults.mockResolvedValue([]);
             qualityClient.getBatteryHealth.mockResolvedValue(null);
             qualityClient.getAlertsForAsset.mockResolvedValue([]);
@@ -344,4 +351,53 @@ describe('Asset Dossier Service - Sprint 23', () => {
             expect(prisma.assetDossierSnapshot).not.toHaveProperty('delete');
         });
     });
+
+    // ========== TEST 6 ==========
+    describe('should_keep_harvested_part_provenance', () => {
+        it('links a harvested part to its donor and a donor to its parts', async () => {
+            // Arrange — pièce récupérée sur le donneur asset-123
+            const part = {
+                ...mockAsset,
+                id: 'part-1',
+                serialNumber: 'SN-RAM-001',
+                assetType: 'COMPONENT',
+                brand: 'Samsung',
+                model: 'DDR4-16GB',
+                parentAssetId: 'asset-123',
+                componentType: 'RAM'
+            };
+            assetClient.getAsset.mockImplementation(async (id: string) => id === 'part-1' ? part : mockAsset);
+            assetClient.getStateHistory.mockResolvedValue([]);
+            assetClient.getHarvestedParts.mockImplementation(async (id: string) => id === 'asset-123' ? [part] : []);
+            qualityClient.getQualityResults.mockResolvedValue([]);
+            qualityClient.getBatteryHealth.mockResolvedValue(null);
+            qualityClient.getAlertsForAsset.mockResolvedValue([]);
+            wmsClient.getTasksForAsset.mockResolvedValue([]);
+            wmsClient.getShipmentForAsset.mockResolvedValue(null);
+            savClient.getTicketsForAsset.mockResolvedValue([]);
+            savClient.getRmasForAsset.mockResolvedValue([]);
+            ctoClient.getConfigurationForAsset.mockResolvedValue(null);
+            inventoryClient.getStockLocation.mockResolvedValue(null);
+            inventoryClient.getMovements.mockResolvedValue([]);
+            prisma.assetDossierSnapshot.create.mockResolvedValue({ id: 'snapshot-1' });
+
+            // Act
+            const partDossier = await builderService.buildDossier('part-1');
+            const donorDossier = await builderService.buildDossier('asset-123');
+
+            // Assert — Provenance de la pièce
+            expect(partDossier.identity.provenance).toEqual({
+                donorAssetId: 'asset-123',
+                donorSerialNumber: 'SN-2026-001',
+                donorModel: 'Dell Latitude 5520'
+            });
+            expect(partDossier.identity.harvestedParts).toEqual([]);
+
+            // Assert — Pièces récupérées sur le donneur
+            expect(donorDossier.identity.provenance).toBeNull();
+            expect(donorDossier.identity.harvestedParts).toEqual([
+                { assetId: 'part-1', serialNumber: 'SN-RAM-001', componentType: 'RAM', reference: 'DDR4-16GB', grade: 'A', status: 'SELLABLE' }
+            ]);
+        });
+    });
 });
@@ -6,12 +6,13 @@
 import express, { Application, Request, Response, NextFunction } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { createAssetRoutes } from './routes/asset.routes';
+import { createLabelRoutes } from './routes/label.routes';
 
 export function createApp(prisma: PrismaClient): Application {
     const app = express();
 
     // Middleware
-    app.use(express.json());
+    app.use(express.json({ limit: '5mb' })); // Imports bulk (jusqu'à MAX_BULK_ROWS lignes)
 
     // Health check
     app.get('/health', (_req: Request, res: Response) => {
@@ -20,6 +21,7 @@ export function createApp(prisma: PrismaClient): Application {
 
     // Routes
     app.use('/assets', createAssetRoutes(prisma));
+    app.use('/labels', createLabelRoutes(prisma));
 
     // 404 handler
     app.use((_req: Request, res: Response) => {
@@ -5,20 +5,45 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { AssetService } from '../services/asset.service';
-import { PrismaClient } from '@prisma/client';
+import { AssetBulkService } from '../services/assetBulk.service';
+import { HardwareSpecService } from '../services/hardwareSpec.service';
+import { AssetHarvestService } from '../services/assetHarvest.service';
+import { parseCsv } from '../utils/csv';
+import { PrismaClient, AssetGrade } from '@prisma/client';
 import {
     CreateAssetDto,
     ChangeStatusDto,
     DuplicateSerialNumberError,
     AssetNotFoundError,
-    InvalidTransitionError
+    InvalidTransitionError,
+    ReasonCodeRequiredError,
+    TransitionGuardFailedError,
+    GradeAssignmentNotAllowedError
 } from '../domain/asset.types';
+import {
+    BulkChangeStatusRow,
+    BulkCreateAssetRow,
+    InvalidBulkRequestError
+} from '../domain/assetBulk.types';
+import { parseAssetSearchQuery, InvalidSearchQueryError } from '../domain/assetSearch.types';
+import {
+    RecordHardwareSpecDto,
+    InvalidHardwareSpecError,
+    HardwareSpecNotFoundError
+} from '../domain/hardwareSpec.types';
+import { HarvestAssetDto, InvalidHarvestError } from '../domain/assetHarvest.types';
 
 export class AssetController {
     private readonly assetService: AssetService;
+    private readonly bulkService: AssetBulkService;
+    private readonly hardwareSpecService: HardwareSpecService;
+    private readonly harvestService: AssetHarvestService;
 
     constructor(prisma: PrismaClient) {
         this.assetService = new AssetService(prisma);
+        this.bulkService = new AssetBulkService(prisma);
+        this.hardwareSpecService = new HardwareSpecService(prisma);
+        this.harvestService = new AssetHarvestService(prisma);
     }
 
     /**
@@ -32,7 +57,8 @@ export class AssetController {
                 assetType: req.body.assetType,
                 brand: req.body.brand,
                 model: req.body.model,
-                chassisRef: req.body.chassisRef
+                chassisRef: req.body.chassisRef,
+                components: req.body.components
             };
 
             // Validation basique
@@ -52,6 +78,56 @@ export class AssetController {
         }
     };
 
+    /**
+     * POST /assets/bulk
+     * Import en masse (tableau JSON ou CSV text/csv avec en-tête)
+     */
+    bulkCreateAssets = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            let rows: BulkCreateAssetRow[];
+
+            if (typeof req.body === 'string') {
+                rows = parseCsv(req.body);
+            } else if (Array.isArray(req.body)) {
+                rows = req.body;
+            } else {
+                res.status(400).json({
+                    error: 'ValidationError',
+                    message: 'Body must be a JSON array or a text/csv document'
+                });
+                return;
+            }
+
+            const report = await this.bulkService.importAssets(rows);
+
+            res.status(200).json(report);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    /**
+     * POST /assets/bulk-status
+     * Changement de statut en masse (tableau JSON)
+     */
+    bulkChangeStatus = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            if (!Array.isArray(req.body)) {
+                res.status(400).json({
+                    error: 'ValidationError',
+                    message: 'Body must be a JSON array of { assetId, newStatus, reason?, reasonCode? }'
+                });
+                return;
+            }
+
+            const report = await this.bulkService.changeStatuses(req.body as BulkChangeStatusRow[]);
+
+            res.status(200).json(report);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
     /**
      * POST /assets/:id/status
      * Change le statut d'un asset
@@ -69,7 +145,9 @@ export class AssetController {
 
             const dto: ChangeStatusDto = {
                 newStatus: req.body.newStatus,
-                reason: req.body.reason
+                reason: req.body.reason,
+                reasonCode: req.body.reasonCode,
+                dataWipeCertificateRef: req.body.dataWipeCertificateRef
             };
 
             // Validation basique
@@ -135,18 +213,223 @@ export class AssetController {
         }
     };
 
+    /**
+     * POST /assets/:id/grade
+     * Attribue le grade (calculé par le quality-service)
+     */
+    assignGrade = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const assetId = req.params.id;
+            if (!assetId) {
+                res.status(400).json({
+                    error: 'ValidationError',
+                    message: 'Missing required parameter: id'
+                });
+                return;
+            }
+
+            const grade = req.body.grade as AssetGrade;
+            if (!grade || !Object.values(AssetGrade).includes(grade)) {
+                res.status(400).json({
+                    error: 'ValidationError',
+                    message: `Invalid grade. Must be one of: ${Object.values(AssetGrade).join(', ')}`
+                });
+                return;
+            }
+
+            const asset = await this.assetService.assignGrade(assetId, grade);
+
+            res.status(200).json(asset);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    /**
+     * POST /assets/:id/harvest
+     * Met l'asset au rebut en récupérant des pièces
+     */
+    harvestAsset = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const assetId = req.params.id;
+            if (!assetId) {
+                res.status(400).json({
+                    error: 'ValidationError',
+                    message: 'Missing required parameter: id'
+                });
+                return;
+            }
+
+            const dto: HarvestAssetDto = {
+                reasonCode: req.body.reasonCode,
+                reason: req.body.reason,
+                warehouseId: req.body.warehouseId,
+                locationId: req.body.locationId,
+                parts: req.body.parts
+            };
+
+            if (!dto.reasonCode || !dto.warehouseId || !dto.locationId || !dto.parts) {
+                res.status(400).json({
+                    error: 'ValidationError',
+                    message: 'Missing required fields: reasonCode, warehouseId, locationId, parts'
+                });
+                return;
+            }
+
+            const result = await this.harvestService.harvest(assetId, dto);
+
+            res.status(201).json(result);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    /**
+     * GET /assets/:id/parts
+     * Liste les pièces récupérées sur un asset donneur
+     */
+    getHarvestedParts = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const assetId = req.params.id;
+            if (!assetId) {
+                res.status(400).json({
+                    error: 'ValidationError',
+                    message: 'Missing required parameter: id'
+                });
+                return;
+            }
+
+            const parts = await this.harvestService.getHarvestedParts(assetId);
+
+            res.status(200).json(parts);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    /**
+     * GET /assets/:id/transitions
+     * Liste les transitions possibles avec l'état de leurs gardes
+     */
+    getAvailableTransitions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const assetId = req.params.id;
+            if (!assetId) {
+                res.status(400).json({
+                    error: 'ValidationError',
+                    message: 'Missing required parameter: id'
+                });
+                return;
+            }
+
+            const transitions = await this.assetService.getAvailableTransitions(assetId);
+
+            res.status(200).json(transitions);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    /**
+     * GET /assets/:id/hardware-spec
+     * Récupère la spec matérielle courante
+     */
+    getHardwareSpec = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const assetId = req.params.id;
+            if (!assetId) {
+                res.status(400).json({
+                    error: 'ValidationError',
+                    message: 'Missing required parameter: id'
+                });
+                return;
+            }
+
+            const spec = await this.hardwareSpecService.getCurrentSpec(assetId);
+
+            res.status(200).json(spec);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    /**
+     * GET /assets/:id/hardware-spec/history
+     * Récupère toutes les versions de la spec matérielle
+     */
+    getHardwareSpecHistory = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const assetId = req.params.id;
+            if (!assetId) {
+                res.status(400).json({
+                    error: 'ValidationError',
+                    message: 'Missing required parameter: id'
+                });
+                return;
+            }
+
+            const history = await this.hardwareSpecService.getSpecHistory(assetId);
+
+            res.status(200).json(history);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    /**
+     * POST /assets/:id/hardware-spec
+     * Enregistre une nouvelle version de la spec matérielle
+     */
+    recordHardwareSpec = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const assetId = req.params.id;
+            if (!assetId) {
+                res.status(400).json({
+                    error: 'ValidationError',
+                    message: 'Missing required parameter: id'
+                });
+                return;
+            }
+
+            const dto: RecordHardwareSpecDto = {
+                source: req.body.source,
+                components: req.body.components,
+                notes: req.body.notes
+            };
+
+            if (!dto.source || !dto.components) {
+                res.status(400).json({
+                    error: 'ValidationError',
+                    message: 'Missing required fields: source, components'
+                });
+                return;
+            }
+
+            const spec = await this.hardwareSpecService.recordSpec(assetId, dto);
+
+            res.status(201).json(spec);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
     /**
      * GET /assets
-     * Liste tous les assets
+     * Recherche les assets
+     *
+     * Filtres : status, assetType, grade (listes séparées par des virgules),
+     * brand, model, chassisRef, q (préfixe numéro de série),
+     * createdFrom/createdTo, updatedFrom/updatedTo (ISO 8601)
+     * Tri : sort (createdAt | updatedAt | serialNumber), order (asc | desc)
+     * Pagination : limit, cursor (nextCursor de la page précédente)
      */
     listAssets = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
         try {
-            const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
-            const offset = req.query.offset ? parseInt(req.query.offset as string, 10) : undefined;
+            const query = parseAssetSearchQuery(req.query);
 
-            const assets = await this.assetService.listAssets(limit, offset);
+            const page = await this.assetService.listAssets(query);
 
-            res.status(200).json(assets);
+            res.status(200).json(page);
         } catch (error) {
             this.handleError(error, res, next);
         }
@@ -184,6 +467,79 @@ export class AssetController {
             return;
         }
 
+        if (error instanceof InvalidSearchQueryError) {
+            res.status(400).json({
+                error: 'InvalidSearchQueryError',
+                message: error.message,
+                parameter: error.parameter
+            });
+            return;
+        }
+
+        if (error instanceof InvalidBulkRequestError) {
+            res.status(400).json({
+                error: 'InvalidBulkRequestError',
+                message: error.message
+            });
+            return;
+        }
+
+        if (error instanceof ReasonCodeRequiredError) {
+            res.status(422).json({
+                error: 'ReasonCodeRequiredError',
+                message: error.message,
+                currentStatus: error.currentStatus,
+                targetStatus: error.targetStatus,
+                allowedReasonCodes: error.allowedReasonCodes
+            });
+            return;
+        }
+
+        if (error instanceof TransitionGuardFailedError) {
+            res.status(422).json({
+                error: 'TransitionGuardFailedError',
+                message: error.message,
+                currentStatus: error.currentStatus,
+                targetStatus: error.targetStatus,
+                failedGuards: error.failedGuards
+            });
+            return;
+        }
+
+        if (error instanceof GradeAssignmentNotAllowedError) {
+            res.status(422).json({
+                error: 'GradeAssignmentNotAllowedError',
+                message: error.message,
+                currentStatus: error.currentStatus
+            });
+            return;
+        }
+
+        if (error instanceof InvalidHardwareSpecError) {
+            res.status(400).json({
+                error: 'InvalidHardwareSpecError',
+                message: error.message
+            });
+            return;
+        }
+
+        if (error instanceof InvalidHarvestError) {
+            res.status(400).json({
+                error: 'InvalidHarvestError',
+                message: error.message
+            });
+            return;
+        }
+
+        if (error instanceof HardwareSpecNotFoundError) {
+            res.status(404).json({
+                error: 'HardwareSpecNotFoundError',
+                message: error.message,
+                assetId: error.assetId
+            });
+            return;
+        }
+
         // Erreur inattendue
         console.error('[ERROR]', error);
         next(error);
@@ -0,0 +1,207 @@
+/**
+ * Label Controller
+ * Gère les requêtes HTTP d'impression d'étiquettes
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { PrismaClient, LabelTargetType } from '@prisma/client';
+import { LabelService } from '../services/label.service';
+import { AssetNotFoundError } from '../domain/asset.types';
+import {
+    PrintLabelsDto,
+    RenderedLabels,
+    InvalidLabelRequestError,
+    ReprintReasonRequiredError
+} from '../domain/label.types';
+import { ProcurementServiceError } from '../integrations/procurement.client';
+import { InventoryServiceError } from '../integrations/inventory.client';
+
+export class LabelController {
+    private readonly labelService: LabelService;
+
+    constructor(prisma: PrismaClient) {
+        this.labelService = new LabelService(prisma);
+    }
+
+    /**
+     * POST /labels/assets/:assetId
+     * Imprime l'étiquette d'un asset
+     */
+    printAssetLabel = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const assetId = req.params.assetId;
+            const dto = this.readPrintDto(req, res);
+            if (!assetId || !dto) {
+                return;
+            }
+
+            const rendered = await this.labelService.printAssetLabel(assetId, dto);
+
+            this.sendRendered(res, rendered);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    /**
+     * POST /labels/lots/:lotId
+     * Imprime les étiquettes de tous les assets d'un lot
+     */
+    printLotLabels = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const lotId = req.params.lotId;
+            const dto = this.readPrintDto(req, res);
+            if (!lotId || !dto) {
+                return;
+            }
+
+            const rendered = await this.labelService.printLotLabels(lotId, dto);
+
+            this.sendRendered(res, rendered);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    /**
+     * POST /labels/warehouses/:warehouseId/locations
+     * Imprime les étiquettes d'emplacements (tous, ou body.locationIds)
+     */
+    printLocationLabels = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const warehouseId = req.params.warehouseId;
+            const dto = this.readPrintDto(req, res);
+            if (!warehouseId || !dto) {
+                return;
+            }
+
+            const locationIds = req.body.locationIds;
+            if (locationIds !== undefined && (!Array.isArray(locationIds) || locationIds.some(id => typeof id !== 'string'))) {
+                res.status(400).json({
+                    error: 'ValidationError',
+                    message: 'locationIds must be an array of strings'
+                });
+                return;
+            }
+
+            const rendered = await this.labelService.printLocationLabels(warehouseId, locationIds, dto);
+
+            this.sendRendered(res, rendered);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    /**
+     * GET /labels/assets/:assetId/history
+     * Journal d'impression d'un asset
+     */
+    getAssetPrintHistory = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const assetId = req.params.assetId;
+            if (!assetId) {
+                res.status(400).json({ error: 'ValidationError', message: 'Missing required parameter: assetId' });
+                return;
+            }
+
+            const history = await this.labelService.getPrintHistory(LabelTargetType.ASSET, assetId);
+
+            res.status(200).json(history);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    /**
+     * GET /labels/locations/:locationId/history
+     * Journal d'impression d'un emplacement
+     */
+    getLocationPrintHistory = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const locationId = req.params.locationId;
+            if (!locationId) {
+                res.status(400).json({ error: 'ValidationError', message: 'Missing required parameter: locationId' });
+                return;
+            }
+
+            const history = await this.labelService.getPrintHistory(LabelTargetType.LOCATION, locationId);
+
+            res.status(200).json(history);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    /**
+     * Lit le DTO d'impression (répond 400 et renvoie null si invalide)
+     */
+    private readPrintDto(req: Request, res: Response): PrintLabelsDto | null {
+        if (!req.body.format) {
+            res.status(400).json({
+                error: 'ValidationError',
+                message: 'Missing required field: format (PDF, ZPL)'
+            });
+            return null;
+        }
+
+        return {
+            format: req.body.format,
+            reason: req.body.reason,
+            printedBy: req.body.printedBy
+        };
+    }
+
+    /**
+     * Renvoie le document rendu (PDF binaire ou ZPL texte)
+     */
+    private sendRendered(res: Response, rendered: RenderedLabels): void {
+        res.status(200)
+            .set('Content-Type', rendered.contentType)
+            .set('X-Label-Count', String(rendered.count))
+            .send(rendered.content);
+    }
+
+    /**
+     * Gère les erreurs métier
+     */
+    private handleError(error: unknown, res: Response, next: NextFunction): void {
+        if (error instanceof AssetNotFoundError) {
+            res.status(404).json({
+                error: 'AssetNotFoundError',
+                message: error.message,
+                assetId: error.assetId
+            });
+            return;
+        }
+
+        if (error instanceof InvalidLabelRequestError) {
+            res.status(400).json({
+                error: 'InvalidLabelRequestError',
+                message: error.message
+            });
+            return;
+        }
+
+        if (error instanceof ReprintReasonRequiredError) {
+            res.status(422).json({
+                error: 'ReprintReasonRequiredError',
+                message: error.message,
+                targetIds: error.targetIds
+            });
+            return;
+        }
+
+        if (error instanceof ProcurementServiceError || error instanceof InventoryServiceError) {
+            res.status(502).json({
+                error: error.name,
+                message: error.message,
+                upstreamStatusCode: error.statusCode
+            });
+            return;
+        }
+
+        // Erreur inattendue
+        console.error('[ERROR]', error);
+        next(error);
+    }
+}
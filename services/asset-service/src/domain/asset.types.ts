@@ -3,7 +3,9 @@
  * Types centraux pour le domaine Asset
  */
 
-import { AssetType, AssetStatus, AssetGrade } from '@prisma/client';
+import { AssetType, AssetStatus, AssetGrade, HardwareComponentType } from '@prisma/client';
+import { TransitionGuardName, TransitionReasonCode } from './assetTransitions';
+import { HardwareComponentDto } from './hardwareSpec.types';
 
 /**
  * DTO pour la création d'un Asset
@@ -14,6 +16,7 @@ export interface CreateAssetDto {
     brand: string;
     model: string;
     chassisRef?: string;
+    components?: HardwareComponentDto[];   // Spec matérielle saisie à l'arrivée (INTAKE)
 }
 
 /**
@@ -22,6 +25,8 @@ export interface CreateAssetDto {
 export interface ChangeStatusDto {
     newStatus: AssetStatus;
     reason?: string;
+    reasonCode?: TransitionReasonCode;
+    dataWipeCertificateRef?: string;
 }
 
 /**
@@ -36,6 +41,8 @@ export interface AssetEntity {
     chassisRef: string | null;
     status: AssetStatus;
     grade: AssetGrade | null;
+    parentAssetId: string | null;                   // Donneur (pièce récupérée)
+    componentType: HardwareComponentType | null;    // Type de pièce (COMPONENT)
     createdAt: Date;
     updatedAt: Date;
 }
@@ -49,9 +56,32 @@ export interface AssetStateHistoryEntry {
     previousStatus: AssetStatus | null;
     newStatus: AssetStatus;
     reason: string | null;
+    reasonCode: string | null;
     createdAt: Date;
 }
 
+/**
+ * Résultat d'évaluation d'une garde
+ */
+export interface GuardEvaluation {
+    guard: TransitionGuardName;
+    label: string;
+    passed: boolean;
+    detail?: string;
+}
+
+/**
+ * Transition proposée à l'opérateur depuis l'état courant
+ */
+export interface AvailableTransition {
+    targetStatus: AssetStatus;
+    label: string;
+    allowed: boolean;
+    guards: GuardEvaluation[];
+    reasonCodes: TransitionReasonCode[];
+    requiresDataWipeCertificate: boolean;
+}
+
 /**
  * Erreur métier pour les transitions invalides
  */
@@ -65,6 +95,53 @@ export class InvalidTransitionError extends Error {
     }
 }
 
+/**
+ * Erreur métier : une ou plusieurs gardes de la transition ont échoué
+ */
+export class TransitionGuardFailedError extends Error {
+    constructor(
+        public readonly currentStatus: AssetStatus,
+        public readonly targetStatus: AssetStatus,
+        public readonly failedGuards: GuardEvaluation[]
+    ) {
+        super(
+            `Transition from ${currentStatus} to ${targetStatus} blocked by guards: ` +
+            failedGuards.map(g => g.guard).join(', ')
+        );
+        this.name = 'TransitionGuardFailedError';
+    }
+}
+
+/**
+ * Erreur métier : code motif absent ou non autorisé pour la transition
+ */
+export class ReasonCodeRequiredError extends Error {
+    constructor(
+        public readonly currentStatus: AssetStatus,
+        public readonly targetStatus: AssetStatus,
+        public readonly allowedReasonCodes: TransitionReasonCode[]
+    ) {
+        super(
+            `Transition from ${currentStatus} to ${targetStatus} requires a reason code among: ` +
+            allowedReasonCodes.join(', ')
+        );
+        this.name = 'ReasonCodeRequiredError';
+    }
+}
+
+/**
+ * Erreur métier : grade attribuable uniquement en sortie de contrôle qualité
+ */
+export class GradeAssignmentNotAllowedError extends Error {
+    constructor(
+        public readonly assetId: string,
+        public readonly currentStatus: AssetStatus
+    ) {
+        super(`Grade can only be assigned to asset ${assetId} in ${AssetStatus.QUALITY_PENDING} (current: ${currentStatus})`);
+        this.name = 'GradeAssignmentNotAllowedError';
+    }
+}
+
 /**
  * Erreur métier pour les doublons de numéro de série
  */
@@ -0,0 +1,65 @@
+/**
+ * Asset Bulk Types
+ * Types pour l'import en masse et le changement de statut en masse
+ */
+
+import { ChangeStatusDto } from './asset.types';
+import { HardwareComponentDto } from './hardwareSpec.types';
+
+/**
+ * Nombre maximum de lignes par requête bulk
+ */
+export const MAX_BULK_ROWS = 1000;
+
+/**
+ * Ligne d'import brute (JSON ou CSV) : non validée
+ */
+export interface BulkCreateAssetRow {
+    serialNumber?: string;
+    assetType?: string;
+    brand?: string;
+    model?: string;
+    chassisRef?: string;
+    components?: HardwareComponentDto[];   // Spec matérielle INTAKE (JSON uniquement)
+}
+
+/**
+ * Ligne de changement de statut
+ */
+export interface BulkChangeStatusRow extends Partial<ChangeStatusDto> {
+    assetId?: string;
+}
+
+/**
+ * Résultat d'une ligne
+ */
+export type BulkRowStatus = 'CREATED' | 'UPDATED' | 'REJECTED';
+
+export interface BulkRowResult {
+    row: number;            // Index 1-based dans la requête (hors en-tête CSV)
+    status: BulkRowStatus;
+    assetId?: string;
+    serialNumber?: string;
+    error?: string;         // Nom de l'erreur métier
+    message?: string;
+}
+
+/**
+ * Rapport global d'une opération bulk
+ */
+export interface BulkReport {
+    total: number;
+    succeeded: number;
+    failed: number;
+    results: BulkRowResult[];
+}
+
+/**
+ * Erreur : requête bulk vide ou trop volumineuse
+ */
+export class InvalidBulkRequestError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidBulkRequestError';
+    }
+}
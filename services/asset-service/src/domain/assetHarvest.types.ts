@@ -0,0 +1,55 @@
+/**
+ * Asset Harvest Types
+ * Récupération de pièces (cannibalisation) sur un asset mis au rebut
+ *
+ * Chaque pièce récupérée devient un asset COMPONENT rattaché à son donneur
+ * (parentAssetId) : stockable, réservable et consommable par le CTO.
+ */
+
+import { AssetGrade, HardwareComponentType } from '@prisma/client';
+import { AssetEntity } from './asset.types';
+import { TransitionReasonCode } from './assetTransitions';
+
+/**
+ * Pièce récupérée (saisie au démontage)
+ */
+export interface HarvestedPartDto {
+    serialNumber: string;
+    componentType: HardwareComponentType;
+    reference: string;          // ex: DDR4-32G-2933 (devient le model de l'asset)
+    grade: AssetGrade;
+    brand?: string;             // Par défaut : marque du donneur
+    capacity?: number;
+    unit?: string;
+}
+
+/**
+ * DTO de mise au rebut avec récupération de pièces
+ */
+export interface HarvestAssetDto {
+    reasonCode: TransitionReasonCode;
+    reason?: string;
+    warehouseId: string;
+    locationId: string;         // Emplacement Inventory du démontage (RECEIVING ou STORAGE)
+    parts: HarvestedPartDto[];
+}
+
+/**
+ * Résultat d'une récupération
+ * unstockedPartIds : pièces créées dont l'entrée en stock a échoué (à reprendre par un INTAKE)
+ */
+export interface HarvestResult {
+    donor: AssetEntity;
+    parts: AssetEntity[];
+    unstockedPartIds: string[];
+}
+
+/**
+ * Erreur : récupération de pièces invalide
+ */
+export class InvalidHarvestError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidHarvestError';
+    }
+}
@@ -0,0 +1,156 @@
+/**
+ * Asset Search Types
+ * Filtres, tri et pagination par curseur pour GET /assets
+ */
+
+import { AssetStatus, AssetType, AssetGrade, HardwareComponentType } from '@prisma/client';
+import { AssetEntity } from './asset.types';
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 500;
+
+/**
+ * Champs de tri autorisés
+ */
+export type AssetSortField = 'createdAt' | 'updatedAt' | 'serialNumber';
+export type SortOrder = 'asc' | 'desc';
+
+const SORT_FIELDS: AssetSortField[] = ['createdAt', 'updatedAt', 'serialNumber'];
+const SORT_ORDERS: SortOrder[] = ['asc', 'desc'];
+
+/**
+ * Critères de recherche (validés)
+ */
+export interface AssetSearchQuery {
+    status?: AssetStatus[];
+    assetType?: AssetType[];
+    grade?: AssetGrade[];
+    componentType?: HardwareComponentType[];
+    parentAssetId?: string;
+    brand?: string;
+    model?: string;
+    chassisRef?: string;
+    serialPrefix?: string;
+    createdFrom?: Date;
+    createdTo?: Date;
+    updatedFrom?: Date;
+    updatedTo?: Date;
+    sort: AssetSortField;
+    order: SortOrder;
+    limit: number;
+    cursor?: string;        // ID du dernier asset de la page précédente
+}
+
+/**
+ * Page de résultats
+ */
+export interface AssetPage {
+    data: AssetEntity[];
+    nextCursor: string | null;
+}
+
+/**
+ * Erreur : paramètre de recherche invalide
+ */
+export class InvalidSearchQueryError extends Error {
+    constructor(
+        public readonly parameter: string,
+        public readonly value: string
+    ) {
+        super(`Invalid value for query parameter ${parameter}: ${value}`);
+        this.name = 'InvalidSearchQueryError';
+    }
+}
+
+type RawQuery = Record<string, unknown>;
+
+/**
+ * Lit un paramètre texte (premier élément si répété)
+ */
+function readString(query: RawQuery, key: string): string | undefined {
+    const raw = query[key];
+    const value = Array.isArray(raw) ? raw[0] : raw;
+    return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+/**
+ * Lit une liste de valeurs d'enum : ?status=SELLABLE,RESERVED ou ?status=A&status=B
+ */
+function readEnumList<T extends string>(query: RawQuery, key: string, allowed: readonly T[]): T[] | undefined {
+    const raw = query[key];
+    if (raw === undefined) {
+        return undefined;
+    }
+
+    const values = (Array.isArray(raw) ? raw : [raw])
+        .flatMap(v => String(v).split(','))
+        .map(v => v.trim())
+        .filter(v => v !== '');
+
+    for (const value of values) {
+        if (!allowed.includes(value as T)) {
+            throw new InvalidSearchQueryError(key, value);
+        }
+    }
+
+    return values.length > 0 ? values as T[] : undefined;
+}
+
+/**
+ * Lit une date ISO
+ */
+function readDate(query: RawQuery, key: string): Date | undefined {
+    const value = readString(query, key);
+    if (!value) {
+        return undefined;
+    }
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+        throw new InvalidSearchQueryError(key, value);
+    }
+    return date;
+}
+
+/**
+ * Valide et normalise les paramètres de GET /assets
+ *
+ * @throws InvalidSearchQueryError si un paramètre est invalide
+ */
+export function parseAssetSearchQuery(query: RawQuery): AssetSearchQuery {
+    const sort = readString(query, 'sort') ?? 'createdAt';
+    if (!SORT_FIELDS.includes(sort as AssetSortField)) {
+        throw new InvalidSearchQueryError('sort', sort);
+    }
+
+    const order = readString(query, 'order') ?? 'desc';
+    if (!SORT_ORDERS.includes(order as SortOrder)) {
+        throw new InvalidSearchQueryError('order', order);
+    }
+
+    const rawLimit = readString(query, 'limit');
+    const limit = rawLimit ? parseInt(rawLimit, 10) : DEFAULT_PAGE_SIZE;
+    if (isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+        throw new InvalidSearchQueryError('limit', rawLimit ?? '');
+    }
+
+    return {
+        status: readEnumList(query, 'status', Object.values(AssetStatus)),
+        assetType: readEnumList(query, 'assetType', Object.values(AssetType)),
+        grade: readEnumList(query, 'grade', Object.values(AssetGrade)),
+        componentType: readEnumList(query, 'componentType', Object.values(HardwareComponentType)),
+        parentAssetId: readString(query, 'parentAssetId'),
+        brand: readString(query, 'brand'),
+        model: readString(query, 'model'),
+        chassisRef: readString(query, 'chassisRef'),
+        serialPrefix: readString(query, 'q'),
+        createdFrom: readDate(query, 'createdFrom'),
+        createdTo: readDate(query, 'createdTo'),
+        updatedFrom: readDate(query, 'updatedFrom'),
+        updatedTo: readDate(query, 'updatedTo'),
+        sort: sort as AssetSortField,
+        order: order as SortOrder,
+        limit,
+        cursor: readString(query, 'cursor')
+    };
+}
@@ -25,7 +25,8 @@ export const ASSET_STATUS_LABELS: Record<string, string> = {
 export const ASSET_TYPE_LABELS: Record<string, string> = {
     SERVER: 'Serveur',
     WORKSTATION: 'Station de travail',
-    LAPTOP: 'Portable'
+    LAPTOP: 'Portable',
+    COMPONENT: 'Pièce détachée'
 };
 
 /**
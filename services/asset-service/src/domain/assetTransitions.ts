@@ -1,66 +1,174 @@
 /**
  * Asset State Machine Transitions
- * Définit les transitions autorisées entre statuts
+ * Cycle de vie déclaratif : transitions déclarées par AssetType,
+ * avec gardes nommées et codes motif obligatoires
  */
 
-import { AssetStatus } from '@prisma/client';
+import { AssetStatus, AssetType } from '@prisma/client';
 
 /**
- * Matrice des transitions autorisées
- * Clé = statut actuel, Valeur = statuts cibles autorisés
+ * Gardes nommées évaluées avant une transition
  */
-export const ALLOWED_TRANSITIONS: Record<AssetStatus, AssetStatus[]> = {
-    ACQUIRED: [AssetStatus.IN_REFURB],
-    IN_REFURB: [AssetStatus.QUALITY_PENDING],
-    QUALITY_PENDING: [AssetStatus.SELLABLE],
-    SELLABLE: [AssetStatus.RESERVED],
-    RESERVED: [AssetStatus.SOLD],
-    SOLD: [AssetStatus.RMA],
-    RMA: [AssetStatus.SELLABLE],
-    SCRAPPED: []
+export type TransitionGuardName =
+    | 'QUALITY_VALIDATED'       // Validation qualité globale OK (quality-service)
+    | 'NO_ACTIVE_RESERVATION'   // Aucune réservation active (inventory-service)
+    | 'DATA_WIPE_CERTIFIED';    // Certificat d'effacement des données fourni
+
+/**
+ * Codes motif normalisés pour les transitions qui exigent une justification
+ */
+export type TransitionReasonCode =
+    | 'QA_FAILED'
+    | 'ORDER_CANCELLED'
+    | 'RESERVATION_EXPIRED'
+    | 'RMA_REPAIR'
+    | 'CTO_RECONFIGURATION'
+    | 'BEYOND_REPAIR'
+    | 'DAMAGED'
+    | 'OBSOLETE';
+
+/**
+ * Définition d'une transition du cycle de vie
+ */
+export interface TransitionDefinition {
+    from: AssetStatus;
+    to: AssetStatus;
+    guards: TransitionGuardName[];
+    /** Si non vide : un de ces codes motif est obligatoire */
+    reasonCodes: TransitionReasonCode[];
+}
+
+/**
+ * Labels lisibles pour les gardes (affichage WMS / SAV)
+ */
+export const TRANSITION_GUARD_LABELS: Record<TransitionGuardName, string> = {
+    QUALITY_VALIDATED: 'Qualité validée',
+    NO_ACTIVE_RESERVATION: 'Aucune réservation active',
+    DATA_WIPE_CERTIFIED: 'Effacement des données certifié'
+};
+
+/**
+ * Labels lisibles pour les codes motif
+ */
+export const TRANSITION_REASON_CODE_LABELS: Record<TransitionReasonCode, string> = {
+    QA_FAILED: 'Échec contrôle qualité',
+    ORDER_CANCELLED: 'Commande annulée',
+    RESERVATION_EXPIRED: 'Réservation expirée',
+    RMA_REPAIR: 'Réparation suite retour SAV',
+    CTO_RECONFIGURATION: 'Reconfiguration CTO',
+    BEYOND_REPAIR: 'Irréparable',
+    DAMAGED: 'Endommagé',
+    OBSOLETE: 'Obsolète'
+};
+
+/**
+ * Codes motif acceptés pour une mise au rebut
+ */
+const SCRAP_REASON_CODES: TransitionReasonCode[] = ['QA_FAILED', 'BEYOND_REPAIR', 'DAMAGED', 'OBSOLETE'];
+
+/**
+ * Fabrique compacte d'une définition de transition
+ */
+function transition(
+    from: AssetStatus,
+    to: AssetStatus,
+    guards: TransitionGuardName[] = [],
+    reasonCodes: TransitionReasonCode[] = []
+): TransitionDefinition {
+    return { from, to, guards, reasonCodes };
+}
+
+/**
+ * Transitions communes à tous les types d'asset
+ */
+const COMMON_TRANSITIONS: TransitionDefinition[] = [
+    transition(AssetStatus.ACQUIRED, AssetStatus.IN_REFURB),
+    transition(AssetStatus.IN_REFURB, AssetStatus.QUALITY_PENDING, ['DATA_WIPE_CERTIFIED']),
+    transition(AssetStatus.QUALITY_PENDING, AssetStatus.SELLABLE, ['QUALITY_VALIDATED']),
+    transition(AssetStatus.QUALITY_PENDING, AssetStatus.IN_REFURB, [], ['QA_FAILED']),
+    transition(AssetStatus.SELLABLE, AssetStatus.RESERVED),
+    transition(AssetStatus.RESERVED, AssetStatus.SOLD),
+    transition(AssetStatus.RESERVED, AssetStatus.SELLABLE, ['NO_ACTIVE_RESERVATION'], ['ORDER_CANCELLED', 'RESERVATION_EXPIRED']),
+    transition(AssetStatus.SOLD, AssetStatus.RMA),
+    transition(AssetStatus.RMA, AssetStatus.SELLABLE, ['DATA_WIPE_CERTIFIED']),
+    transition(AssetStatus.RMA, AssetStatus.QUALITY_PENDING, ['DATA_WIPE_CERTIFIED'], ['RMA_REPAIR']),
+    transition(AssetStatus.RMA, AssetStatus.IN_REFURB, [], ['RMA_REPAIR']),
+
+    // Mise au rebut : possible depuis n'importe quel état, toujours justifiée
+    ...Object.values(AssetStatus)
+        .filter(status => status !== AssetStatus.SCRAPPED)
+        .map(status => transition(status, AssetStatus.SCRAPPED, ['NO_ACTIVE_RESERVATION'], SCRAP_REASON_CODES))
+];
+
+/**
+ * Cycle de vie par type d'asset
+ *
+ * SERVER / WORKSTATION : configurables (CTO) → un asset vendable peut
+ * repartir en atelier pour reconfiguration. Les LAPTOP ne le sont pas.
+ * COMPONENT : pièces récupérées, créées directement en SELLABLE au démontage.
+ */
+export const ASSET_LIFECYCLES: Record<AssetType, TransitionDefinition[]> = {
+    SERVER: [
+        ...COMMON_TRANSITIONS,
+        transition(AssetStatus.SELLABLE, AssetStatus.IN_REFURB, [], ['CTO_RECONFIGURATION'])
+    ],
+    WORKSTATION: [
+        ...COMMON_TRANSITIONS,
+        transition(AssetStatus.SELLABLE, AssetStatus.IN_REFURB, [], ['CTO_RECONFIGURATION'])
+    ],
+    LAPTOP: [...COMMON_TRANSITIONS],
+    COMPONENT: [...COMMON_TRANSITIONS]
 };
 
 /**
- * Vérifie si une transition est autorisée
- * 
- * Règle spéciale : vers SCRAPPED autorisé depuis n'importe quel état
- * 
+ * Retourne les transitions applicables à un type d'asset
+ * Sans type : transitions communes à tous les types
+ */
+function getLifecycle(assetType?: AssetType): TransitionDefinition[] {
+    return assetType ? ASSET_LIFECYCLES[assetType] : COMMON_TRANSITIONS;
+}
+
+/**
+ * Recherche la définition d'une transition
+ *
+ * @returns la définition, ou null si la transition n'est pas déclarée
+ */
+export function findTransition(
+    currentStatus: AssetStatus,
+    targetStatus: AssetStatus,
+    assetType?: AssetType
+): TransitionDefinition | null {
+    return getLifecycle(assetType).find(
+        t => t.from === currentStatus && t.to === targetStatus
+    ) ?? null;
+}
+
+/**
+ * Vérifie si une transition est déclarée (contrôle structurel, sans gardes)
+ *
  * @param currentStatus - Statut actuel de l'asset
  * @param targetStatus - Statut cible souhaité
- * @returns true si la transition est autorisée
+ * @param assetType - Type d'asset (optionnel : transitions communes sinon)
+ * @returns true si la transition est déclarée
  */
 export function isTransitionAllowed(
     currentStatus: AssetStatus,
-    targetStatus: AssetStatus
+    targetStatus: AssetStatus,
+    assetType?: AssetType
 ): boolean {
-    // Règle spéciale : SCRAPPED autorisé depuis n'importe quel état
-    if (targetStatus === AssetStatus.SCRAPPED) {
-        return true;
-    }
-
-    // Vérification dans la matrice de transitions
-    const allowedTargets = ALLOWED_TRANSITIONS[currentStatus];
-
-    if (!allowedTargets) {
-        return false;
-    }
-
-    return allowedTargets.includes(targetStatus);
+    return findTransition(currentStatus, targetStatus, assetType) !== null;
 }
 
 /**
- * Obtient les transitions possibles depuis un statut donné
- * 
+ * Obtient les transitions déclarées depuis un statut donné
+ *
  * @param currentStatus - Statut actuel
- * @returns Liste des statuts cibles possibles (inclut toujours SCRAPPED)
+ * @param assetType - Type d'asset (optionnel)
+ * @returns Définitions des transitions sortantes
  */
-export function getAvailableTransitions(currentStatus: AssetStatus): AssetStatus[] {
-    const transitions = [...(ALLOWED_TRANSITIONS[currentStatus] ?? [])];
-
-    // SCRAPPED est toujours disponible (sauf si déjà SCRAPPED)
-    if (currentStatus !== AssetStatus.SCRAPPED && !transitions.includes(AssetStatus.SCRAPPED)) {
-        transitions.push(AssetStatus.SCRAPPED);
-    }
-
-    return transitions;
+export function getAvailableTransitions(
+    currentStatus: AssetStatus,
+    assetType?: AssetType
+): TransitionDefinition[] {
+    return getLifecycle(assetType).filter(t => t.from === currentStatus);
 }
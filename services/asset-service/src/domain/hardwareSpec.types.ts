@@ -0,0 +1,112 @@
+/**
+ * Hardware Spec Types
+ * Configuration matérielle versionnée d'un asset (CPU, RAM, stockage, GPU, écran)
+ *
+ * RÈGLE : chaque modification crée une nouvelle version (append-only)
+ */
+
+import { HardwareComponentType, HardwareSpecSource } from '@prisma/client';
+
+/**
+ * Composant matériel (saisie)
+ */
+export interface HardwareComponentDto {
+    type: HardwareComponentType;
+    reference: string;
+    quantity: number;
+    capacity?: number;
+    unit?: string;
+}
+
+/**
+ * DTO pour enregistrer une nouvelle version de spec
+ */
+export interface RecordHardwareSpecDto {
+    source: HardwareSpecSource;
+    components: HardwareComponentDto[];
+    notes?: string;
+}
+
+/**
+ * Composant matériel (lecture)
+ */
+export interface HardwareComponentEntity {
+    id: string;
+    type: HardwareComponentType;
+    reference: string;
+    quantity: number;
+    capacity: number | null;
+    unit: string | null;
+}
+
+/**
+ * Version de spec matérielle
+ */
+export interface HardwareSpecEntity {
+    id: string;
+    assetId: string;
+    version: number;
+    source: HardwareSpecSource;
+    notes: string | null;
+    createdAt: Date;
+    components: HardwareComponentEntity[];
+}
+
+/**
+ * Labels lisibles pour les types de composant
+ */
+export const HARDWARE_COMPONENT_LABELS: Record<HardwareComponentType, string> = {
+    CPU: 'Processeur',
+    RAM: 'Mémoire',
+    STORAGE: 'Stockage',
+    GPU: 'Carte graphique',
+    SCREEN: 'Écran'
+};
+
+/**
+ * Erreur : spec matérielle invalide
+ */
+export class InvalidHardwareSpecError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidHardwareSpecError';
+    }
+}
+
+/**
+ * Erreur : aucune spec matérielle enregistrée
+ */
+export class HardwareSpecNotFoundError extends Error {
+    constructor(public readonly assetId: string) {
+        super(`No hardware spec recorded for asset ${assetId}`);
+        this.name = 'HardwareSpecNotFoundError';
+    }
+}
+
+/**
+ * Vérifie la cohérence d'une liste de composants
+ *
+ * @throws InvalidHardwareSpecError au premier composant invalide
+ */
+export function assertValidComponents(components: unknown): asserts components is HardwareComponentDto[] {
+    if (!Array.isArray(components) || components.length === 0) {
+        throw new InvalidHardwareSpecError('components must be a non-empty array');
+    }
+
+    components.forEach((component: Partial<HardwareComponentDto>, index) => {
+        const position = `components[${index}]`;
+
+        if (!component.type || !Object.values(HardwareComponentType).includes(component.type)) {
+            throw new InvalidHardwareSpecError(`${position}: invalid type ${component.type}`);
+        }
+        if (!component.reference || typeof component.reference !== 'string') {
+            throw new InvalidHardwareSpecError(`${position}: reference is required`);
+        }
+        if (!Number.isInteger(component.quantity) || (component.quantity as number) < 1) {
+            throw new InvalidHardwareSpecError(`${position}: quantity must be a positive integer`);
+        }
+        if (component.capacity !== undefined && (typeof component.capacity !== 'number' || component.capacity < 0)) {
+            throw new InvalidHardwareSpecError(`${position}: capacity must be a positive number`);
+        }
+    });
+}
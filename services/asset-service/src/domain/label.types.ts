@@ -0,0 +1,90 @@
+/**
+ * Label Types
+ * Étiquettes imprimables (assets, emplacements) : Code128 + QR, PDF ou ZPL
+ *
+ * Le Code128 porte le code attendu par le WMS au scan
+ * (assetId pour un asset, code emplacement pour une Location).
+ */
+
+import { LabelFormat, LabelTargetType } from '@prisma/client';
+
+/**
+ * Contenu d'une étiquette (indépendant du format de rendu)
+ */
+export interface LabelData {
+    targetType: LabelTargetType;
+    targetId: string;
+    title: string;
+    lines: string[];
+    barcode: string;        // Payload Code128
+    qr: string;             // Payload QR
+}
+
+/**
+ * DTO d'impression
+ */
+export interface PrintLabelsDto {
+    format: LabelFormat;
+    reason?: string;        // Obligatoire si une cible a déjà été imprimée
+    printedBy?: string;
+}
+
+/**
+ * Document rendu
+ */
+export interface RenderedLabels {
+    format: LabelFormat;
+    contentType: string;
+    content: Buffer;
+    count: number;
+}
+
+/**
+ * Ligne du journal d'impression
+ */
+export interface LabelPrintLogEntity {
+    id: string;
+    targetType: LabelTargetType;
+    targetId: string;
+    code: string;
+    format: LabelFormat;
+    batchRef: string | null;
+    reprint: boolean;
+    reason: string | null;
+    printedBy: string | null;
+    createdAt: Date;
+}
+
+/**
+ * Payload QR d'un asset
+ */
+export function assetQrPayload(assetId: string, serialNumber: string): string {
+    return `PIM:ASSET:${assetId}:${serialNumber}`;
+}
+
+/**
+ * Payload QR d'un emplacement
+ */
+export function locationQrPayload(warehouseId: string, locationId: string, code: string): string {
+    return `PIM:LOCATION:${warehouseId}:${locationId}:${code}`;
+}
+
+/**
+ * Erreur : requête d'impression invalide
+ */
+export class InvalidLabelRequestError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidLabelRequestError';
+    }
+}
+
+/**
+ * Erreur : réimpression sans motif
+ */
+export class ReprintReasonRequiredError extends Error {
+    constructor(public readonly targetIds: string[]) {
+        super(`Reprint reason required: labels already printed for ${targetIds.join(', ')}`);
+        this.name = 'ReprintReasonRequiredError';
+    }
+}
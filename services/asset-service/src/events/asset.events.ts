@@ -1,11 +1,20 @@
 /**
  * Asset Events
- * Émission d'événements domaine avec logger structuré
+ * Émission d'événements domaine (outbox transactionnelle + logger structuré)
+ *
+ * RÈGLE : chaque émetteur s'appelle dans la transaction du changement métier
  */
 
 import { AssetEntity } from '../domain/asset.types';
-import { AssetStatus } from '@prisma/client';
+import { HardwareSpecEntity } from '../domain/hardwareSpec.types';
+import { AssetGrade, AssetStatus, LabelFormat, LabelTargetType, Prisma } from '@prisma/client';
 import { logger } from '../utils/logger';
+import { createServiceOutbox } from '@proinfo/shared';
+
+/**
+ * Outbox du service : chaque émetteur y écrit dans la transaction métier (tx)
+ */
+export const outbox = createServiceOutbox('asset-service');
 
 /**
  * Payload de l'événement AssetCreated
@@ -35,15 +44,18 @@ export interface AssetStatusChangedEvent {
         previousStatus: AssetStatus;
         newStatus: AssetStatus;
         reason?: string;
+        reasonCode?: string;
     };
 }
 
 /**
  * Émet un événement AssetCreated
+ * Publié dans l'outbox : à appeler dans la transaction de création
  * 
+ * @param tx - Client de la transaction métier
  * @param asset - L'asset créé
  */
-export function emitAssetCreated(asset: AssetEntity): void {
+export async function emitAssetCreated(tx: Prisma.TransactionClient, asset: AssetEntity): Promise<void> {
     const event: AssetCreatedEvent = {
         eventType: 'AssetCreated',
         timestamp: new Date(),
@@ -57,21 +69,32 @@ export function emitAssetCreated(asset: AssetEntity): void {
         }
     };
 
+    await outbox.publish(tx, {
+        type: event.eventType,
+        aggregateType: 'Asset',
+        aggregateId: asset.id,
+        payload: event.payload
+    });
     logger.event('AssetCreated', event.payload as unknown as Record<string, unknown>);
 }
 
 /**
  * Émet un événement AssetStatusChanged
+ * Publié dans l'outbox : à appeler dans la transaction du changement de statut
  * 
+ * @param tx - Client de la transaction métier
  * @param asset - L'asset mis à jour
  * @param previousStatus - Le statut précédent
  * @param reason - Raison du changement (optionnel)
+ * @param reasonCode - Code motif normalisé (optionnel)
  */
-export function emitAssetStatusChanged(
+export async function emitAssetStatusChanged(
+    tx: Prisma.TransactionClient,
     asset: AssetEntity,
     previousStatus: AssetStatus,
-    reason?: string
-): void {
+    reason?: string,
+    reasonCode?: string
+): Promise<void> {
     const event: AssetStatusChangedEvent = {
         eventType: 'AssetStatusChanged',
         timestamp: new Date(),
@@ -80,9 +103,130 @@ export function emitAssetStatusChanged(
             serialNumber: asset.serialNumber,
             previousStatus,
             newStatus: asset.status,
-            reason
+            reason,
+            reasonCode
         }
     };
 
+    await outbox.publish(tx, {
+        type: event.eventType,
+        aggregateType: 'Asset',
+        aggregateId: asset.id,
+        payload: event.payload
+    });
     logger.event('AssetStatusChanged', event.payload as unknown as Record<string, unknown>);
 }
+
+/**
+ * Émet un événement AssetGradeAssigned
+ *
+ * @param tx - Client de la transaction métier
+ * @param asset - L'asset mis à jour
+ * @param previousGrade - Grade précédent (null si première attribution)
+ */
+export async function emitAssetGradeAssigned(
+    tx: Prisma.TransactionClient,
+    asset: AssetEntity,
+    previousGrade: AssetGrade | null
+): Promise<void> {
+    const payload = {
+        assetId: asset.id,
+        serialNumber: asset.serialNumber,
+        previousGrade,
+        grade: asset.grade
+    };
+
+    await outbox.publish(tx, { type: 'AssetGradeAssigned', aggregateType: 'Asset', aggregateId: asset.id, payload });
+    logger.event('AssetGradeAssigned', payload);
+}
+
+/**
+ * Émet un événement HardwareSpecRecorded
+ *
+ * @param tx - Client de la transaction métier
+ * @param spec - La nouvelle version de spec
+ * @param previousVersion - Version remplacée (null si première saisie)
+ */
+export async function emitHardwareSpecRecorded(
+    tx: Prisma.TransactionClient,
+    spec: HardwareSpecEntity,
+    previousVersion: number | null
+): Promise<void> {
+    const payload = {
+        assetId: spec.assetId,
+        specId: spec.id,
+        version: spec.version,
+        previousVersion,
+        source: spec.source,
+        components: spec.components.map(c => `${c.quantity}x ${c.type} ${c.reference}`)
+    };
+
+    await outbox.publish(tx, {
+        type: 'HardwareSpecRecorded',
+        aggregateType: 'Asset',
+        aggregateId: spec.assetId,
+        payload
+    });
+    logger.event('HardwareSpecRecorded', payload);
+}
+
+/**
+ * Émet un événement LabelsPrinted
+ *
+ * @param tx - Client de la transaction métier (journal d'impression)
+ * @param printId - Identifiant de l'impression (agrégat LabelPrint)
+ * @param targetType - Type de cible (ASSET, LOCATION)
+ * @param format - Format de rendu
+ * @param count - Nombre d'étiquettes imprimées
+ * @param reprints - Dont réimpressions
+ * @param batchRef - Référence de lot (null pour une impression unitaire)
+ */
+export async function emitLabelsPrinted(
+    tx: Prisma.TransactionClient,
+    printId: string,
+    targetType: LabelTargetType,
+    format: LabelFormat,
+    count: number,
+    reprints: number,
+    batchRef: string | null
+): Promise<void> {
+    const payload = {
+        printId,
+        targetType,
+        format,
+        count,
+        reprints,
+        batchRef
+    };
+
+    await outbox.publish(tx, { type: 'LabelsPrinted', aggregateType: 'LabelPrint', aggregateId: printId, payload });
+    logger.event('LabelsPrinted', payload);
+}
+
+/**
+ * Émet un événement AssetHarvested
+ *
+ * @param tx - Client de la transaction métier
+ * @param donor - L'asset donneur (mis au rebut)
+ * @param parts - Les pièces récupérées (assets COMPONENT)
+ */
+export async function emitAssetHarvested(
+    tx: Prisma.TransactionClient,
+    donor: AssetEntity,
+    parts: AssetEntity[]
+): Promise<void> {
+    const payload = {
+        donorAssetId: donor.id,
+        donorSerialNumber: donor.serialNumber,
+        parts: parts.map(p => ({
+            assetId: p.id,
+            serialNumber: p.serialNumber,
+            componentType: p.componentType,
+            reference: p.model,
+            grade: p.grade
+        }))
+    };
+
+    await outbox.publish(tx, { type: 'AssetHarvested', aggregateType: 'Asset', aggregateId: donor.id, payload });
+    logger.event('AssetHarvested', payload);
+}
@@ -0,0 +1,113 @@
+/**
+ * Inventory Service Client
+ * Client HTTP pour interroger l'Inventory Service
+ * (garde NO_ACTIVE_RESERVATION, emplacements pour les étiquettes,
+ * entrée en stock des pièces récupérées)
+ */
+
+/**
+ * Réservation renvoyée par l'Inventory Service
+ */
+export interface ReservationResponse {
+    id: string;
+    assetId: string;
+    orderRef: string;
+    createdAt: string;
+}
+
+/**
+ * Emplacement renvoyé par l'Inventory Service
+ */
+export interface LocationResponse {
+    id: string;
+    warehouseId: string;
+    code: string;
+    type: string;
+}
+
+/**
+ * Erreur lors de l'appel à l'Inventory Service
+ */
+export class InventoryServiceError extends Error {
+    constructor(
+        public readonly statusCode: number,
+        public readonly details: string
+    ) {
+        super(`Inventory Service error (${statusCode}): ${details}`);
+        this.name = 'InventoryServiceError';
+    }
+}
+
+/**
+ * Interface pour le client Inventory Service (injectable pour tests)
+ */
+export interface InventoryServiceClient {
+    getReservation(assetId: string): Promise<ReservationResponse | null>;
+    getLocations(warehouseId: string): Promise<LocationResponse[]>;
+    moveAsset(assetId: string, toLocation: string, reason: string): Promise<void>;
+}
+
+/**
+ * Client HTTP par défaut pour Inventory Service
+ */
+export class HttpInventoryServiceClient implements InventoryServiceClient {
+    private readonly baseUrl: string;
+
+    constructor(baseUrl?: string) {
+        this.baseUrl = baseUrl ?? process.env.INVENTORY_SERVICE_URL ?? 'http://localhost:3003';
+    }
+
+    /**
+     * Récupère la réservation active d'un asset (null si aucune)
+     */
+    async getReservation(assetId: string): Promise<ReservationResponse | null> {
+        const response = await fetch(`${this.baseUrl}/inventory/assets/${assetId}/reservation`, {
+            method: 'GET',
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+        if (response.status === 404) {
+            return null;
+        }
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            throw new InventoryServiceError(response.status, errorBody);
+        }
+
+        return response.json() as Promise<ReservationResponse>;
+    }
+
+    /**
+     * Liste les emplacements d'un entrepôt
+     */
+    async getLocations(warehouseId: string): Promise<LocationResponse[]> {
+        const response = await fetch(`${this.baseUrl}/inventory/warehouses/${warehouseId}/locations`, {
+            method: 'GET',
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            throw new InventoryServiceError(response.status, errorBody);
+        }
+
+        return response.json() as Promise<LocationResponse[]>;
+    }
+
+    /**
+     * Mouvement de stock (ex: INTAKE d'une pièce récupérée)
+     */
+    async moveAsset(assetId: string, toLocation: string, reason: string): Promise<void> {
+        const response = await fetch(`${this.baseUrl}/inventory/assets/${assetId}/move`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ toLocation, reason })
+        });
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            throw new InventoryServiceError(response.status, errorBody);
+        }
+    }
+}
@@ -0,0 +1,62 @@
+/**
+ * Procurement Service Client
+ * Client HTTP pour lire le contenu d'un lot (impression d'étiquettes par lot)
+ */
+
+/**
+ * Item de lot renvoyé par le Procurement Service
+ */
+export interface LotItemResponse {
+    id: string;
+    lotId: string;
+    assetId: string;
+    createdAt: string;
+}
+
+/**
+ * Erreur lors de l'appel au Procurement Service
+ */
+export class ProcurementServiceError extends Error {
+    constructor(
+        public readonly statusCode: number,
+        public readonly details: string
+    ) {
+        super(`Procurement Service error (${statusCode}): ${details}`);
+        this.name = 'ProcurementServiceError';
+    }
+}
+
+/**
+ * Interface pour le client Procurement Service (injectable pour tests)
+ */
+export interface ProcurementServiceClient {
+    getLotItems(lotId: string): Promise<LotItemResponse[]>;
+}
+
+/**
+ * Client HTTP par défaut pour Procurement Service
+ */
+export class HttpProcurementServiceClient implements ProcurementServiceClient {
+    private readonly baseUrl: string;
+
+    constructor(baseUrl?: string) {
+        this.baseUrl = baseUrl ?? process.env.PROCUREMENT_SERVICE_URL ?? 'http://localhost:3001';
+    }
+
+    /**
+     * Récupère les items d'un lot
+     */
+    async getLotItems(lotId: string): Promise<LotItemResponse[]> {
+        const response = await fetch(`${this.baseUrl}/procurement/lots/${lotId}/items`, {
+            method: 'GET',
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            throw new ProcurementServiceError(response.status, errorBody);
+        }
+
+        return response.json() as Promise<LotItemResponse[]>;
+    }
+}
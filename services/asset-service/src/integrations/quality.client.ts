@@ -0,0 +1,60 @@
+/**
+ * Quality Service Client
+ * Client HTTP pour interroger le Quality Service (garde QUALITY_VALIDATED)
+ */
+
+/**
+ * Réponse de validation du Quality Service (lecture seule)
+ */
+export interface QualityValidationResponse {
+    isValid: boolean;
+    reason?: string;
+}
+
+/**
+ * Erreur lors de l'appel au Quality Service
+ */
+export class QualityServiceError extends Error {
+    constructor(
+        public readonly statusCode: number,
+        public readonly details: string
+    ) {
+        super(`Quality Service error (${statusCode}): ${details}`);
+        this.name = 'QualityServiceError';
+    }
+}
+
+/**
+ * Interface pour le client Quality Service (injectable pour tests)
+ */
+export interface QualityServiceClient {
+    getValidationStatus(assetId: string): Promise<QualityValidationResponse>;
+}
+
+/**
+ * Client HTTP par défaut pour Quality Service
+ */
+export class HttpQualityServiceClient implements QualityServiceClient {
+    private readonly baseUrl: string;
+
+    constructor(baseUrl?: string) {
+        this.baseUrl = baseUrl ?? process.env.QUALITY_SERVICE_URL ?? 'http://localhost:3002';
+    }
+
+    /**
+     * Évalue la validation qualité d'un asset sans effet de bord
+     */
+    async getValidationStatus(assetId: string): Promise<QualityValidationResponse> {
+        const response = await fetch(`${this.baseUrl}/quality/assets/${assetId}/validation`, {
+            method: 'GET',
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            throw new QualityServiceError(response.status, errorBody);
+        }
+
+        return response.json() as Promise<QualityValidationResponse>;
+    }
+}
@@ -3,11 +3,14 @@
  * Couche d'accès aux données pour les Assets
  */
 
-import { PrismaClient, Asset, AssetStatus, AssetType, AssetGrade } from '@prisma/client';
+import { Prisma, Asset, AssetStatus, AssetType, AssetGrade } from '@prisma/client';
 import { CreateAssetDto, AssetEntity } from '../domain/asset.types';
+import { HarvestedPartDto } from '../domain/assetHarvest.types';
+import { AssetSearchQuery, AssetPage } from '../domain/assetSearch.types';
 
 export class AssetRepository {
-    constructor(private readonly prisma: PrismaClient) { }
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
 
     /**
      * Crée un nouvel asset avec le statut initial ACQUIRED
@@ -28,6 +31,40 @@ export class AssetRepository {
         return this.toEntity(asset);
     }
 
+    /**
+     * Crée une pièce récupérée sur un asset donneur
+     * Statut initial SELLABLE, grade attribué au démontage
+     */
+    async createHarvestedPart(donor: AssetEntity, part: HarvestedPartDto): Promise<AssetEntity> {
+        const asset = await this.prisma.asset.create({
+            data: {
+                serialNumber: part.serialNumber,
+                assetType: AssetType.COMPONENT,
+                brand: part.brand ?? donor.brand,
+                model: part.reference,
+                chassisRef: null,
+                status: AssetStatus.SELLABLE,
+                grade: part.grade,
+                parentAssetId: donor.id,
+                componentType: part.componentType
+            }
+        });
+
+        return this.toEntity(asset);
+    }
+
+    /**
+     * Recherche les pièces récupérées sur un asset donneur
+     */
+    async findByParentId(parentAssetId: string): Promise<AssetEntity[]> {
+        const assets = await this.prisma.asset.findMany({
+            where: { parentAssetId },
+            orderBy: { createdAt: 'asc' }
+        });
+
+        return assets.map(a => this.toEntity(a));
+    }
+
     /**
      * Recherche un asset par ID
      */
@@ -50,6 +87,28 @@ export class AssetRepository {
         return asset ? this.toEntity(asset) : null;
     }
 
+    /**
+     * Recherche les assets correspondant à une liste de numéros de série
+     */
+    async findBySerialNumbers(serialNumbers: string[]): Promise<AssetEntity[]> {
+        const assets = await this.prisma.asset.findMany({
+            where: { serialNumber: { in: serialNumbers } }
+        });
+
+        return assets.map(a => this.toEntity(a));
+    }
+
+    /**
+     * Recherche les assets correspondant à une liste d'IDs
+     */
+    async findByIds(ids: string[]): Promise<AssetEntity[]> {
+        const assets = await this.prisma.asset.findMany({
+            where: { id: { in: ids } }
+        });
+
+        return assets.map(a => this.toEntity(a));
+    }
+
     /**
      * Met à jour le statut d'un asset
      */
@@ -75,16 +134,44 @@ export class AssetRepository {
     }
 
     /**
-     * Liste tous les assets (pagination basique)
+     * Recherche paginée par curseur
+     *
+     * Tri stable : champ demandé puis id (départage des égalités).
+     * Une ligne supplémentaire est lue pour savoir s'il existe une page suivante.
      */
-    async findAll(limit = 100, offset = 0): Promise<AssetEntity[]> {
+    async search(query: AssetSearchQuery): Promise<AssetPage> {
+        const where: Prisma.AssetWhereInput = {
+            status: query.status ? { in: query.status } : undefined,
+            assetType: query.assetType ? { in: query.assetType } : undefined,
+            grade: query.grade ? { in: query.grade } : undefined,
+            componentType: query.componentType ? { in: query.componentType } : undefined,
+            parentAssetId: query.parentAssetId,
+            brand: query.brand ? { equals: query.brand, mode: 'insensitive' } : undefined,
+            model: query.model ? { equals: query.model, mode: 'insensitive' } : undefined,
+            chassisRef: query.chassisRef ? { equals: query.chassisRef, mode: 'insensitive' } : undefined,
+            serialNumber: query.serialPrefix ? { startsWith: query.serialPrefix } : undefined,
+            createdAt: query.createdFrom || query.createdTo
+                ? { gte: query.createdFrom, lte: query.createdTo }
+                : undefined,
+            updatedAt: query.updatedFrom || query.updatedTo
+                ? { gte: query.updatedFrom, lte: query.updatedTo }
+                : undefined
+        };
+
         const assets = await this.prisma.asset.findMany({
-            take: limit,
-            skip: offset,
-            orderBy: { createdAt: 'desc' }
+            where,
+            orderBy: [{ [query.sort]: query.order }, { id: query.order }],
+            take: query.limit + 1,
+            ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {})
         });
 
-        return assets.map(a => this.toEntity(a));
+        const hasMore = assets.length > query.limit;
+        const page = hasMore ? assets.slice(0, query.limit) : assets;
+
+        return {
+            data: page.map(a => this.toEntity(a)),
+            nextCursor: hasMore ? page[page.length - 1]?.id ?? null : null
+        };
     }
 
     /**
@@ -100,6 +187,8 @@ export class AssetRepository {
             chassisRef: asset.chassisRef,
             status: asset.status,
             grade: asset.grade,
+            parentAssetId: asset.parentAssetId,
+            componentType: asset.componentType,
             createdAt: asset.createdAt,
             updatedAt: asset.updatedAt
         };
@@ -5,11 +5,12 @@
  * IMPORTANT : L'historique est IMMUABLE - pas de update ni delete
  */
 
-import { PrismaClient, AssetStateHistory, AssetStatus } from '@prisma/client';
+import { Prisma, AssetStateHistory, AssetStatus } from '@prisma/client';
 import { AssetStateHistoryEntry } from '../domain/asset.types';
 
 export class AssetHistoryRepository {
-    constructor(private readonly prisma: PrismaClient) { }
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
 
     /**
      * Crée une entrée d'historique
@@ -19,14 +20,16 @@ export class AssetHistoryRepository {
         assetId: string,
         previousStatus: AssetStatus | null,
         newStatus: AssetStatus,
-        reason?: string
+        reason?: string,
+        reasonCode?: string
     ): Promise<AssetStateHistoryEntry> {
         const entry = await this.prisma.assetStateHistory.create({
             data: {
                 assetId,
                 previousStatus,
                 newStatus,
-                reason: reason ?? null
+                reason: reason ?? null,
+                reasonCode: reasonCode ?? null
             }
         });
 
@@ -77,6 +80,7 @@ export class AssetHistoryRepository {
             previousStatus: record.previousStatus,
             newStatus: record.newStatus,
             reason: record.reason,
+            reasonCode: record.reasonCode,
             createdAt: record.createdAt
         };
     }
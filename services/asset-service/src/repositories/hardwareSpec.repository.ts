@@ -0,0 +1,94 @@
+/**
+ * Hardware Spec Repository
+ * Couche d'accès aux données pour les specs matérielles
+ *
+ * IMPORTANT : Les versions sont IMMUABLES - pas de update ni delete
+ */
+
+import { Prisma, AssetHardwareSpec, AssetHardwareComponent } from '@prisma/client';
+import { HardwareSpecEntity, RecordHardwareSpecDto } from '../domain/hardwareSpec.types';
+
+type SpecWithComponents = AssetHardwareSpec & { components: AssetHardwareComponent[] };
+
+export class HardwareSpecRepository {
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
+
+    /**
+     * Crée une nouvelle version avec ses composants
+     * Seule opération d'écriture autorisée
+     */
+    async create(assetId: string, version: number, dto: RecordHardwareSpecDto): Promise<HardwareSpecEntity> {
+        const spec = await this.prisma.assetHardwareSpec.create({
+            data: {
+                assetId,
+                version,
+                source: dto.source,
+                notes: dto.notes ?? null,
+                components: {
+                    create: dto.components.map(c => ({
+                        type: c.type,
+                        reference: c.reference,
+                        quantity: c.quantity,
+                        capacity: c.capacity ?? null,
+                        unit: c.unit ?? null
+                    }))
+                }
+            },
+            include: { components: true }
+        });
+
+        return this.toEntity(spec);
+    }
+
+    /**
+     * Récupère la version courante (la plus récente)
+     */
+    async findLatestByAssetId(assetId: string): Promise<HardwareSpecEntity | null> {
+        const spec = await this.prisma.assetHardwareSpec.findFirst({
+            where: { assetId },
+            orderBy: { version: 'desc' },
+            include: { components: true }
+        });
+
+        return spec ? this.toEntity(spec) : null;
+    }
+
+    /**
+     * Récupère toutes les versions, de la plus ancienne à la plus récente
+     */
+    async findAllByAssetId(assetId: string): Promise<HardwareSpecEntity[]> {
+        const specs = await this.prisma.assetHardwareSpec.findMany({
+            where: { assetId },
+            orderBy: { version: 'asc' },
+            include: { components: true }
+        });
+
+        return specs.map(s => this.toEntity(s));
+    }
+
+    /**
+     * Convertit un record Prisma en entité domaine
+     */
+    private toEntity(spec: SpecWithComponents): HardwareSpecEntity {
+        return {
+            id: spec.id,
+            assetId: spec.assetId,
+            version: spec.version,
+            source: spec.source,
+            notes: spec.notes,
+            createdAt: spec.createdAt,
+            components: spec.components.map(c => ({
+                id: c.id,
+                type: c.type,
+                reference: c.reference,
+                quantity: c.quantity,
+                capacity: c.capacity,
+                unit: c.unit
+            }))
+        };
+    }
+
+    // ❌ PAS DE MÉTHODE UPDATE
+    // ❌ PAS DE MÉTHODE DELETE
+}
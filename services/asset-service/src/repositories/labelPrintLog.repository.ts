@@ -0,0 +1,73 @@
+/**
+ * Label Print Log Repository
+ * Journal des impressions d'étiquettes
+ *
+ * IMPORTANT : Journal d'audit IMMUABLE - pas de update ni delete
+ */
+
+import { Prisma, LabelPrintLog, LabelTargetType } from '@prisma/client';
+import { LabelPrintLogEntity } from '../domain/label.types';
+
+/**
+ * Ligne à journaliser
+ */
+export type LabelPrintLogInput = Omit<LabelPrintLogEntity, 'id' | 'createdAt'>;
+
+export class LabelPrintLogRepository {
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
+
+    /**
+     * Journalise un lot d'impressions
+     * Seule opération d'écriture autorisée
+     */
+    async createMany(entries: LabelPrintLogInput[]): Promise<void> {
+        await this.prisma.labelPrintLog.createMany({ data: entries });
+    }
+
+    /**
+     * Cibles déjà imprimées parmi une liste
+     */
+    async findPrintedTargetIds(targetType: LabelTargetType, targetIds: string[]): Promise<string[]> {
+        const logs = await this.prisma.labelPrintLog.findMany({
+            where: { targetType, targetId: { in: targetIds } },
+            select: { targetId: true },
+            distinct: ['targetId']
+        });
+
+        return logs.map(l => l.targetId);
+    }
+
+    /**
+     * Historique d'impression d'une cible (du plus ancien au plus récent)
+     */
+    async findByTarget(targetType: LabelTargetType, targetId: string): Promise<LabelPrintLogEntity[]> {
+        const logs = await this.prisma.labelPrintLog.findMany({
+            where: { targetType, targetId },
+            orderBy: { createdAt: 'asc' }
+        });
+
+        return logs.map(l => this.toEntity(l));
+    }
+
+    /**
+     * Convertit un record Prisma en entité domaine
+     */
+    private toEntity(log: LabelPrintLog): LabelPrintLogEntity {
+        return {
+            id: log.id,
+            targetType: log.targetType,
+            targetId: log.targetId,
+            code: log.code,
+            format: log.format,
+            batchRef: log.batchRef,
+            reprint: log.reprint,
+            reason: log.reason,
+            printedBy: log.printedBy,
+            createdAt: log.createdAt
+        };
+    }
+
+    // ❌ PAS DE MÉTHODE UPDATE
+    // ❌ PAS DE MÉTHODE DELETE
+}
@@ -3,7 +3,7 @@
  * Configuration des routes REST pour les Assets
  */
 
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { AssetController } from '../controllers/asset.controller';
 import { PrismaClient } from '@prisma/client';
 
@@ -14,6 +14,16 @@ export function createAssetRoutes(prisma: PrismaClient): Router {
     // POST /assets - Créer un asset
     router.post('/', controller.createAsset);
 
+    // POST /assets/bulk - Import en masse (JSON ou CSV)
+    router.post(
+        '/bulk',
+        express.text({ type: ['text/csv', 'application/csv'], limit: '5mb' }),
+        controller.bulkCreateAssets
+    );
+
+    // POST /assets/bulk-status - Changement de statut en masse
+    router.post('/bulk-status', controller.bulkChangeStatus);
+
     // GET /assets - Lister tous les assets
     router.get('/', controller.listAssets);
 
@@ -23,6 +33,27 @@ export function createAssetRoutes(prisma: PrismaClient): Router {
     // GET /assets/:id/history - Récupérer l'historique
     router.get('/:id/history', controller.getAssetHistory);
 
+    // GET /assets/:id/transitions - Transitions possibles (gardes évaluées)
+    router.get('/:id/transitions', controller.getAvailableTransitions);
+
+    // POST /assets/:id/grade - Attribuer le grade (quality-service)
+    router.post('/:id/grade', controller.assignGrade);
+
+    // GET /assets/:id/hardware-spec - Spec matérielle courante
+    router.get('/:id/hardware-spec', controller.getHardwareSpec);
+
+    // GET /assets/:id/hardware-spec/history - Versions de la spec matérielle
+    router.get('/:id/hardware-spec/history', controller.getHardwareSpecHistory);
+
+    // POST /assets/:id/hardware-spec - Nouvelle version (REFURB / CORRECTION)
+    router.post('/:id/hardware-spec', controller.recordHardwareSpec);
+
+    // POST /assets/:id/harvest - Mise au rebut avec récupération de pièces
+    router.post('/:id/harvest', controller.harvestAsset);
+
+    // GET /assets/:id/parts - Pièces récupérées sur un donneur
+    router.get('/:id/parts', controller.getHarvestedParts);
+
     // POST /assets/:id/status - Changer le statut
     router.post('/:id/status', controller.changeStatus);
 
@@ -0,0 +1,30 @@
+/**
+ * Label Routes
+ * Configuration des routes REST pour l'impression d'étiquettes
+ */
+
+import { Router } from 'express';
+import { LabelController } from '../controllers/label.controller';
+import { PrismaClient } from '@prisma/client';
+
+export function createLabelRoutes(prisma: PrismaClient): Router {
+    const router = Router();
+    const controller = new LabelController(prisma);
+
+    // POST /labels/assets/:assetId - Étiquette d'un asset
+    router.post('/assets/:assetId', controller.printAssetLabel);
+
+    // GET /labels/assets/:assetId/history - Journal d'impression d'un asset
+    router.get('/assets/:assetId/history', controller.getAssetPrintHistory);
+
+    // POST /labels/lots/:lotId - Étiquettes de tous les assets d'un lot
+    router.post('/lots/:lotId', controller.printLotLabels);
+
+    // POST /labels/warehouses/:warehouseId/locations - Étiquettes d'emplacements
+    router.post('/warehouses/:warehouseId/locations', controller.printLocationLabels);
+
+    // GET /labels/locations/:locationId/history - Journal d'impression d'un emplacement
+    router.get('/locations/:locationId/history', controller.getLocationPrintHistory);
+
+    return router;
+}
@@ -6,6 +6,7 @@
 import { PrismaClient } from '@prisma/client';
 import { createApp } from './app';
 import { logger } from './utils/logger';
+import { outbox } from './events/asset.events';
 
 const PORT = process.env.PORT ?? 3000;
 
@@ -23,6 +24,10 @@ async function main(): Promise<void> {
         // Créer et démarrer l'application
         const app = createApp(prisma);
 
+        // Livraison des événements de l'outbox
+        const { dispatcher } = outbox.createDispatcher(prisma);
+        dispatcher.start();
+
         app.listen(PORT, () => {
             logger.serverStart(Number(PORT));
         });
@@ -30,12 +35,14 @@ async function main(): Promise<void> {
         // Graceful shutdown
         process.on('SIGINT', async () => {
             logger.serverShutdown();
+            dispatcher.stop();
             await prisma.$disconnect();
             process.exit(0);
         });
 
         process.on('SIGTERM', async () => {
             logger.serverShutdown();
+            dispatcher.stop();
             await prisma.$disconnect();
             process.exit(0);
         });
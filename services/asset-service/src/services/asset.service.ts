@@ -3,28 +3,45 @@
  * Logique métier pour la gestion des Assets
  */
 
-import { PrismaClient, AssetStatus } from '@prisma/client';
+import { PrismaClient, AssetGrade, AssetStatus, HardwareSpecSource } from '@prisma/client';
 import { AssetRepository } from '../repositories/asset.repository';
 import { AssetHistoryRepository } from '../repositories/assetHistory.repository';
-import { isTransitionAllowed } from '../domain/assetTransitions';
-import { emitAssetCreated, emitAssetStatusChanged } from '../events/asset.events';
+import { HardwareSpecRepository } from '../repositories/hardwareSpec.repository';
+import { AssetTransitionService } from './assetTransition.service';
+import { QualityServiceClient } from '../integrations/quality.client';
+import { InventoryServiceClient } from '../integrations/inventory.client';
+import {
+    emitAssetCreated,
+    emitAssetStatusChanged,
+    emitAssetGradeAssigned,
+    emitHardwareSpecRecorded
+} from '../events/asset.events';
 import {
     CreateAssetDto,
     ChangeStatusDto,
     AssetEntity,
     AssetStateHistoryEntry,
-    InvalidTransitionError,
+    AvailableTransition,
     DuplicateSerialNumberError,
-    AssetNotFoundError
+    AssetNotFoundError,
+    GradeAssignmentNotAllowedError
 } from '../domain/asset.types';
+import { AssetSearchQuery, AssetPage } from '../domain/assetSearch.types';
+import { assertValidComponents } from '../domain/hardwareSpec.types';
 
 export class AssetService {
     private readonly assetRepository: AssetRepository;
     private readonly historyRepository: AssetHistoryRepository;
+    private readonly transitionService: AssetTransitionService;
 
-    constructor(prisma: PrismaClient) {
+    constructor(
+        private readonly prisma: PrismaClient,
+        qualityClient?: QualityServiceClient,
+        inventoryClient?: InventoryServiceClient
+    ) {
         this.assetRepository = new AssetRepository(prisma);
         this.historyRepository = new AssetHistoryRepository(prisma);
+        this.transitionService = new AssetTransitionService(qualityClient, inventoryClient);
     }
 
     /**
@@ -32,44 +49,63 @@ export class AssetService {
      * 
      * - Statut forcé à ACQUIRED
      * - Création automatique de l'historique
-     * - Émission événement AssetCreated
+     * - Spec matérielle INTAKE (version 1) si des composants sont fournis
+     * - Émission événement AssetCreated (même transaction que la création)
      * 
      * @throws DuplicateSerialNumberError si le numéro de série existe déjà
+     * @throws InvalidHardwareSpecError si les composants sont invalides
      */
     async createAsset(dto: CreateAssetDto): Promise<AssetEntity> {
+        if (dto.components !== undefined) {
+            assertValidComponents(dto.components);
+        }
+
         // Vérifier l'unicité du numéro de série
         const existing = await this.assetRepository.findBySerialNumber(dto.serialNumber);
         if (existing) {
             throw new DuplicateSerialNumberError(dto.serialNumber);
         }
 
-        // Créer l'asset avec statut initial ACQUIRED
-        const asset = await this.assetRepository.create(dto);
-
-        // Créer l'entrée d'historique initiale
-        await this.historyRepository.create(
-            asset.id,
-            null, // Pas de statut précédent
-            AssetStatus.ACQUIRED,
-            'Initial acquisition'
-        );
-
-        // Émettre l'événement de création
-        emitAssetCreated(asset);
-
-        return asset;
+        return this.prisma.$transaction(async (tx) => {
+            // Créer l'asset avec statut initial ACQUIRED
+            const asset = await new AssetRepository(tx).create(dto);
+
+            // Créer l'entrée d'historique initiale
+            await new AssetHistoryRepository(tx).create(
+                asset.id,
+                null, // Pas de statut précédent
+                AssetStatus.ACQUIRED,
+                'Initial acquisition'
+            );
+
+            // Émettre l'événement de création
+            await emitAssetCreated(tx, asset);
+
+            // Spec matérielle saisie à l'arrivée
+            if (dto.components) {
+                const spec = await new HardwareSpecRepository(tx).create(asset.id, 1, {
+                    source: HardwareSpecSource.INTAKE,
+                    components: dto.components
+                });
+                await emitHardwareSpecRecorded(tx, spec, null);
+            }
+
+            return asset;
+        });
     }
 
     /**
      * Change le statut d'un asset
      * 
-     * - Vérifie que la transition est autorisée
-     * - Enregistre l'historique
-     * - Met à jour l'asset
-     * - Émet AssetStatusChanged
+     * - Vérifie que la transition est déclarée pour l'AssetType
+     * - Vérifie le code motif et évalue les gardes
+     * - Met à jour l'asset, enregistre l'historique et publie AssetStatusChanged
+     *   dans une même transaction
      * 
      * @throws AssetNotFoundError si l'asset n'existe pas
      * @throws InvalidTransitionError si la transition n'est pas autorisée
+     * @throws ReasonCodeRequiredError si le code motif est absent ou non autorisé
+     * @throws TransitionGuardFailedError si une garde échoue
      */
     async changeStatus(assetId: string, dto: ChangeStatusDto): Promise<AssetEntity> {
         // Récupérer l'asset
@@ -79,28 +115,29 @@ export class AssetService {
         }
 
         const currentStatus = asset.status;
-        const { newStatus, reason } = dto;
+        const { newStatus, reason, reasonCode } = dto;
 
-        // Vérifier que la transition est autorisée
-        if (!isTransitionAllowed(currentStatus, newStatus)) {
-            throw new InvalidTransitionError(currentStatus, newStatus);
-        }
+        // Vérifier transition, code motif et gardes
+        await this.transitionService.assertTransition(asset, dto);
 
-        // Mettre à jour le statut
-        const updatedAsset = await this.assetRepository.updateStatus(assetId, newStatus);
+        return this.prisma.$transaction(async (tx) => {
+            // Mettre à jour le statut
+            const updatedAsset = await new AssetRepository(tx).updateStatus(assetId, newStatus);
 
-        // Enregistrer dans l'historique
-        await this.historyRepository.create(
-            assetId,
-            currentStatus,
-            newStatus,
-            reason
-        );
+            // Enregistrer dans l'historique
+            await new AssetHistoryRepository(tx).create(
+                assetId,
+                currentStatus,
+                newStatus,
+                reason,
+                reasonCode
+            );
 
-        // Émettre l'événement
-        emitAssetStatusChanged(updatedAsset, currentStatus, reason);
+            // Émettre l'événement (outbox, même transaction)
+            await emitAssetStatusChanged(tx, updatedAsset, currentStatus, reason, reasonCode);
 
-        return updatedAsset;
+            return updatedAsset;
+        });
     }
 
     /**
@@ -116,6 +153,45 @@ export class AssetService {
         return asset;
     }
 
+    /**
+     * Liste les transitions possibles depuis l'état courant d'un asset
+     *
+     * @throws AssetNotFoundError si l'asset n'existe pas
+     */
+    async getAvailableTransitions(assetId: string): Promise<AvailableTransition[]> {
+        const asset = await this.assetRepository.findById(assetId);
+        if (!asset) {
+            throw new AssetNotFoundError(assetId);
+        }
+
+        return this.transitionService.listTransitions(asset);
+    }
+
+    /**
+     * Attribue le grade calculé par le quality-service
+     *
+     * Le grade est posé pendant QUALITY_PENDING, avant le passage en SELLABLE.
+     *
+     * @throws AssetNotFoundError si l'asset n'existe pas
+     * @throws GradeAssignmentNotAllowedError si l'asset n'est pas en QUALITY_PENDING
+     */
+    async assignGrade(assetId: string, grade: AssetGrade): Promise<AssetEntity> {
+        const asset = await this.assetRepository.findById(assetId);
+        if (!asset) {
+            throw new AssetNotFoundError(assetId);
+        }
+
+        if (asset.status !== AssetStatus.QUALITY_PENDING) {
+            throw new GradeAssignmentNotAllowedError(assetId, asset.status);
+        }
+
+        return this.prisma.$transaction(async (tx) => {
+            const updatedAsset = await new AssetRepository(tx).updateGrade(assetId, grade);
+            await emitAssetGradeAssigned(tx, updatedAsset, asset.grade);
+            return updatedAsset;
+        });
+    }
+
     /**
      * Récupère l'historique d'un asset
      */
@@ -130,9 +206,9 @@ export class AssetService {
     }
 
     /**
-     * Liste tous les assets
+     * Recherche les assets (filtres, tri, pagination par curseur)
      */
-    async listAssets(limit?: number, offset?: number): Promise<AssetEntity[]> {
-        return this.assetRepository.findAll(limit, offset);
+    async listAssets(query: AssetSearchQuery): Promise<AssetPage> {
+        return this.assetRepository.search(query);
     }
 }
@@ -0,0 +1,361 @@
+/**
+ * Asset Bulk Service
+ * Import en masse et changement de statut en masse
+ *
+ * Principe :
+ * 1. Chaque ligne est validée individuellement (mêmes règles que l'unitaire)
+ * 2. Les lignes valides sont écrites dans UNE transaction (asset + historique + spec INTAKE + événements) ;
+ *    un doublon créé en concurrence rejette sa ligne et la transaction est rejouée sans elle
+ * 3. Un rapport ligne par ligne est renvoyé
+ */
+
+import { Prisma, PrismaClient, AssetStatus, AssetType, HardwareSpecSource } from '@prisma/client';
+import { AssetRepository } from '../repositories/asset.repository';
+import { AssetHistoryRepository } from '../repositories/assetHistory.repository';
+import { HardwareSpecRepository } from '../repositories/hardwareSpec.repository';
+import { AssetTransitionService } from './assetTransition.service';
+import { QualityServiceClient } from '../integrations/quality.client';
+import { InventoryServiceClient } from '../integrations/inventory.client';
+import { emitAssetCreated, emitAssetStatusChanged, emitHardwareSpecRecorded } from '../events/asset.events';
+import {
+    AssetEntity,
+    AssetNotFoundError,
+    ChangeStatusDto,
+    CreateAssetDto,
+    DuplicateSerialNumberError
+} from '../domain/asset.types';
+import { InvalidHardwareSpecError, assertValidComponents } from '../domain/hardwareSpec.types';
+import {
+    BulkChangeStatusRow,
+    BulkCreateAssetRow,
+    BulkReport,
+    BulkRowResult,
+    InvalidBulkRequestError,
+    MAX_BULK_ROWS
+} from '../domain/assetBulk.types';
+
+export class AssetBulkService {
+    private readonly assetRepository: AssetRepository;
+    private readonly transitionService: AssetTransitionService;
+
+    constructor(
+        private readonly prisma: PrismaClient,
+        qualityClient?: QualityServiceClient,
+        inventoryClient?: InventoryServiceClient
+    ) {
+        this.assetRepository = new AssetRepository(prisma);
+        this.transitionService = new AssetTransitionService(qualityClient, inventoryClient);
+    }
+
+    /**
+     * Importe un lot d'assets (statut initial ACQUIRED)
+     *
+     * @throws InvalidBulkRequestError si la requête est vide ou dépasse MAX_BULK_ROWS
+     */
+    async importAssets(rows: BulkCreateAssetRow[]): Promise<BulkReport> {
+        this.assertBulkSize(rows);
+
+        const results: BulkRowResult[] = [];
+        const candidates: { row: number; dto: CreateAssetDto }[] = [];
+        const seenSerials = new Set<string>();
+
+        // 1. Validation structurelle ligne par ligne
+        rows.forEach((value: unknown, index) => {
+            const row = index + 1;
+            const invalid = invalidRow(value, ['serialNumber', 'assetType', 'brand', 'model', 'chassisRef']);
+            if (invalid) {
+                results.push(this.rejected(row, 'ValidationError', invalid));
+                return;
+            }
+
+            const raw = value as BulkCreateAssetRow;
+            const serialNumber = raw.serialNumber?.trim();
+
+            if (!serialNumber || !raw.assetType || !raw.brand || !raw.model) {
+                results.push(this.rejected(row, 'ValidationError',
+                    'Missing required fields: serialNumber, assetType, brand, model', serialNumber));
+                return;
+            }
+
+            if (!Object.values(AssetType).includes(raw.assetType as AssetType)) {
+                results.push(this.rejected(row, 'ValidationError',
+                    `Invalid assetType: ${raw.assetType}`, serialNumber));
+                return;
+            }
+
+            if (seenSerials.has(serialNumber)) {
+                results.push(this.rejected(row, 'DuplicateSerialNumberError',
+                    `Serial number ${serialNumber} appears more than once in the request`, serialNumber));
+                return;
+            }
+            if (raw.components !== undefined) {
+                try {
+                    assertValidComponents(raw.components);
+                } catch (error) {
+                    if (!(error instanceof InvalidHardwareSpecError)) {
+                        throw error;
+                    }
+                    results.push(this.rejected(row, error.name, error.message, serialNumber));
+                    return;
+                }
+            }
+
+            seenSerials.add(serialNumber);
+
+            candidates.push({
+                row,
+                dto: {
+                    serialNumber,
+                    assetType: raw.assetType as AssetType,
+                    brand: raw.brand,
+                    model: raw.model,
+                    chassisRef: raw.chassisRef || undefined,
+                    components: raw.components
+                }
+            });
+        });
+
+        // 2. Unicité des numéros de série en base
+        const existing = candidates.length > 0
+            ? await this.assetRepository.findBySerialNumbers(candidates.map(c => c.dto.serialNumber))
+            : [];
+        const existingSerials = new Set(existing.map(a => a.serialNumber));
+
+        const toCreate = candidates.filter(candidate => {
+            if (existingSerials.has(candidate.dto.serialNumber)) {
+                const error = new DuplicateSerialNumberError(candidate.dto.serialNumber);
+                results.push(this.rejected(candidate.row, error.name, error.message, candidate.dto.serialNumber));
+                return false;
+            }
+            return true;
+        });
+
+        // 3. Écriture atomique des lignes valides
+        let pending = toCreate;
+        let created: { row: number; asset: AssetEntity }[] = [];
+
+        while (pending.length > 0) {
+            try {
+                created = await this.createAssets(pending);
+                break;
+            } catch (error) {
+                if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+                    throw error;
+                }
+
+                // Import concurrent : numéros de série créés entre-temps → doublons, le reste est rejoué
+                const taken = await this.assetRepository.findBySerialNumbers(pending.map(c => c.dto.serialNumber));
+                const takenSerials = new Set(taken.map(a => a.serialNumber));
+                if (takenSerials.size === 0) {
+                    throw error;
+                }
+
+                pending = pending.filter(candidate => {
+                    if (takenSerials.has(candidate.dto.serialNumber)) {
+                        const duplicate = new DuplicateSerialNumberError(candidate.dto.serialNumber);
+                        results.push(this.rejected(candidate.row, duplicate.name, duplicate.message, candidate.dto.serialNumber));
+                        return false;
+                    }
+                    return true;
+                });
+            }
+        }
+
+        for (const { row, asset } of created) {
+            results.push({ row, status: 'CREATED', assetId: asset.id, serialNumber: asset.serialNumber });
+        }
+
+        return this.toReport(rows.length, results);
+    }
+
+    /**
+     * Change le statut d'un ensemble d'assets
+     *
+     * Chaque ligne passe par les mêmes contrôles que changeStatus :
+     * transition déclarée pour l'AssetType, code motif, gardes.
+     *
+     * @throws InvalidBulkRequestError si la requête est vide ou dépasse MAX_BULK_ROWS
+     */
+    async changeStatuses(rows: BulkChangeStatusRow[]): Promise<BulkReport> {
+        this.assertBulkSize(rows);
+
+        const results: BulkRowResult[] = [];
+        const candidates: { row: number; assetId: string; dto: ChangeStatusDto }[] = [];
+        const seenAssetIds = new Set<string>();
+
+        // 1. Validation structurelle
+        rows.forEach((value: unknown, index) => {
+            const row = index + 1;
+            const invalid = invalidRow(value, ['assetId', 'newStatus', 'reason', 'reasonCode', 'dataWipeCertificateRef']);
+            if (invalid) {
+                results.push(this.rejected(row, 'ValidationError', invalid));
+                return;
+            }
+
+            const raw = value as BulkChangeStatusRow;
+            if (!raw.assetId || !raw.newStatus) {
+                results.push(this.rejected(row, 'ValidationError', 'Missing required fields: assetId, newStatus'));
+                return;
+            }
+
+            if (!Object.values(AssetStatus).includes(raw.newStatus)) {
+                results.push(this.rejected(row, 'ValidationError', `Invalid newStatus: ${raw.newStatus}`));
+                return;
+            }
+
+            if (seenAssetIds.has(raw.assetId)) {
+                results.push(this.rejected(row, 'ValidationError',
+                    `Asset ${raw.assetId} appears more than once in the request`));
+                return;
+            }
+            seenAssetIds.add(raw.assetId);
+
+            candidates.push({
+                row,
+                assetId: raw.assetId,
+                dto: {
+                    newStatus: raw.newStatus,
+                    reason: raw.reason,
+                    reasonCode: raw.reasonCode,
+                    dataWipeCertificateRef: raw.dataWipeCertificateRef
+                }
+            });
+        });
+
+        // 2. Existence + règles du cycle de vie
+        const assets = candidates.length > 0
+            ? await this.assetRepository.findByIds(candidates.map(c => c.assetId))
+            : [];
+        const assetsById = new Map(assets.map(a => [a.id, a]));
+        const toUpdate: { row: number; asset: AssetEntity; dto: ChangeStatusDto }[] = [];
+
+        for (const candidate of candidates) {
+            const asset = assetsById.get(candidate.assetId);
+            if (!asset) {
+                const error = new AssetNotFoundError(candidate.assetId);
+                results.push(this.rejected(candidate.row, error.name, error.message));
+                continue;
+            }
+
+            try {
+                await this.transitionService.assertTransition(asset, candidate.dto);
+                toUpdate.push({ row: candidate.row, asset, dto: candidate.dto });
+            } catch (error) {
+                if (!(error instanceof Error)) {
+                    throw error;
+                }
+                results.push({
+                    ...this.rejected(candidate.row, error.name, error.message, asset.serialNumber),
+                    assetId: asset.id
+                });
+            }
+        }
+
+        // 3. Écriture atomique (statut + historique + outbox)
+        const updated = toUpdate.length > 0
+            ? await this.prisma.$transaction(async (tx) => {
+                const assetRepository = new AssetRepository(tx);
+                const historyRepository = new AssetHistoryRepository(tx);
+                const changes: { row: number; asset: AssetEntity }[] = [];
+
+                for (const { row, asset, dto } of toUpdate) {
+                    const updatedAsset = await assetRepository.updateStatus(asset.id, dto.newStatus);
+                    await historyRepository.create(asset.id, asset.status, dto.newStatus, dto.reason, dto.reasonCode);
+                    await emitAssetStatusChanged(tx, updatedAsset, asset.status, dto.reason, dto.reasonCode);
+                    changes.push({ row, asset: updatedAsset });
+                }
+
+                return changes;
+            })
+            : [];
+
+        for (const { row, asset } of updated) {
+            results.push({ row, status: 'UPDATED', assetId: asset.id, serialNumber: asset.serialNumber });
+        }
+
+        return this.toReport(rows.length, results);
+    }
+
+    /**
+     * Crée les assets, leur historique et leur spec INTAKE dans une transaction
+     */
+    private async createAssets(
+        candidates: { row: number; dto: CreateAssetDto }[]
+    ): Promise<{ row: number; asset: AssetEntity }[]> {
+        return this.prisma.$transaction(async (tx) => {
+            const assetRepository = new AssetRepository(tx);
+            const historyRepository = new AssetHistoryRepository(tx);
+            const specRepository = new HardwareSpecRepository(tx);
+            const assets: { row: number; asset: AssetEntity }[] = [];
+
+            for (const candidate of candidates) {
+                const asset = await assetRepository.create(candidate.dto);
+                await historyRepository.create(asset.id, null, AssetStatus.ACQUIRED, 'Initial acquisition (bulk import)');
+                await emitAssetCreated(tx, asset);
+
+                if (candidate.dto.components) {
+                    const spec = await specRepository.create(asset.id, 1, {
+                        source: HardwareSpecSource.INTAKE,
+                        components: candidate.dto.components
+                    });
+                    await emitHardwareSpecRecorded(tx, spec, null);
+                }
+
+                assets.push({ row: candidate.row, asset });
+            }
+
+            return assets;
+        });
+    }
+
+    /**
+     * Vérifie la taille de la requête
+     */
+    private assertBulkSize(rows: unknown[]): void {
+        if (!Array.isArray(rows) || rows.length === 0) {
+            throw new InvalidBulkRequestError('Bulk request must contain at least one row');
+        }
+        if (rows.length > MAX_BULK_ROWS) {
+            throw new InvalidBulkRequestError(`Bulk request exceeds ${MAX_BULK_ROWS} rows (${rows.length})`);
+        }
+    }
+
+    /**
+     * Construit une ligne rejetée
+     */
+    private rejected(row: number, error: string, message: string, serialNumber?: string): BulkRowResult {
+        return { row, status: 'REJECTED', serialNumber, error, message };
+    }
+
+    /**
+     * Construit le rapport final (trié par numéro de ligne)
+     */
+    private toReport(total: number, results: BulkRowResult[]): BulkReport {
+        const sorted = [...results].sort((a, b) => a.row - b.row);
+        const succeeded = sorted.filter(r => r.status !== 'REJECTED').length;
+
+        return {
+            total,
+            succeeded,
+            failed: total - succeeded,
+            results: sorted
+        };
+    }
+}
+
+/**
+ * Contrôle de forme d'une ligne brute (JSON ou CSV) : objet, champs texte
+ * Retourne le motif de rejet, null si la ligne est exploitable
+ */
+function invalidRow(value: unknown, fields: string[]): string | null {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return 'Row must be an object';
+    }
+    for (const field of fields) {
+        const fieldValue = (value as Record<string, unknown>)[field];
+        if (fieldValue !== undefined && fieldValue !== null && typeof fieldValue !== 'string') {
+            return `Field ${field} must be a string`;
+        }
+    }
+    return null;
+}
@@ -0,0 +1,259 @@
+/**
+ * Asset Harvest Service
+ * Mise au rebut avec récupération de pièces (cannibalisation)
+ *
+ * Règles :
+ * 1. Le donneur passe en SCRAPPED avec les contrôles habituels
+ *    (transition déclarée, code motif, gardes)
+ * 2. Chaque pièce devient un asset COMPONENT (SELLABLE, gradé au démontage)
+ *    rattaché au donneur, avec sa spec matérielle INTAKE
+ * 3. Si le donneur a une spec matérielle, on ne récupère pas plus de pièces
+ *    qu'elle n'en déclare (par type + référence)
+ * 4. Donneur et pièces sont écrits dans UNE transaction
+ * 5. Les pièces entrent en stock à l'emplacement du démontage (mouvement INTAKE),
+ *    emplacement vérifié auprès de l'Inventory avant toute écriture
+ */
+
+import { PrismaClient, AssetGrade, AssetStatus, AssetType, HardwareComponentType, HardwareSpecSource } from '@prisma/client';
+import { AssetRepository } from '../repositories/asset.repository';
+import { AssetHistoryRepository } from '../repositories/assetHistory.repository';
+import { HardwareSpecRepository } from '../repositories/hardwareSpec.repository';
+import { AssetTransitionService } from './assetTransition.service';
+import { QualityServiceClient } from '../integrations/quality.client';
+import { InventoryServiceClient, HttpInventoryServiceClient } from '../integrations/inventory.client';
+import {
+    emitAssetCreated,
+    emitAssetHarvested,
+    emitAssetStatusChanged,
+    emitHardwareSpecRecorded
+} from '../events/asset.events';
+import {
+    AssetEntity,
+    AssetNotFoundError,
+    ChangeStatusDto,
+    DuplicateSerialNumberError
+} from '../domain/asset.types';
+import { HardwareSpecEntity } from '../domain/hardwareSpec.types';
+import {
+    HarvestAssetDto,
+    HarvestedPartDto,
+    HarvestResult,
+    InvalidHarvestError
+} from '../domain/assetHarvest.types';
+
+/**
+ * Composants non démontables (intégrés au châssis)
+ */
+const NON_HARVESTABLE_TYPES: HardwareComponentType[] = [HardwareComponentType.SCREEN];
+
+/**
+ * Types d'emplacement acceptant une entrée en stock (INTAKE)
+ */
+const HARVEST_LOCATION_TYPES = ['RECEIVING', 'STORAGE'];
+
+export class AssetHarvestService {
+    private readonly assetRepository: AssetRepository;
+    private readonly specRepository: HardwareSpecRepository;
+    private readonly transitionService: AssetTransitionService;
+    private readonly inventoryClient: InventoryServiceClient;
+
+    constructor(
+        private readonly prisma: PrismaClient,
+        qualityClient?: QualityServiceClient,
+        inventoryClient?: InventoryServiceClient
+    ) {
+        this.assetRepository = new AssetRepository(prisma);
+        this.specRepository = new HardwareSpecRepository(prisma);
+        this.inventoryClient = inventoryClient ?? new HttpInventoryServiceClient();
+        this.transitionService = new AssetTransitionService(qualityClient, this.inventoryClient);
+    }
+
+    /**
+     * Met un asset au rebut en récupérant des pièces
+     *
+     * @throws AssetNotFoundError si le donneur n'existe pas
+     * @throws InvalidHarvestError si les pièces sont invalides ou absentes de la spec,
+     *         ou si l'emplacement du démontage n'accepte pas d'entrée en stock
+     * @throws DuplicateSerialNumberError si un numéro de série de pièce existe déjà
+     * @throws InvalidTransitionError / ReasonCodeRequiredError / TransitionGuardFailedError
+     */
+    async harvest(donorId: string, dto: HarvestAssetDto): Promise<HarvestResult> {
+        const donor = await this.assetRepository.findById(donorId);
+        if (!donor) {
+            throw new AssetNotFoundError(donorId);
+        }
+
+        if (donor.assetType === AssetType.COMPONENT) {
+            throw new InvalidHarvestError(`Asset ${donorId} is a component and cannot be harvested`);
+        }
+
+        this.assertValidParts(dto.parts);
+
+        const existing = await this.assetRepository.findBySerialNumbers(dto.parts.map(p => p.serialNumber));
+        const [duplicate] = existing;
+        if (duplicate) {
+            throw new DuplicateSerialNumberError(duplicate.serialNumber);
+        }
+
+        const donorSpec = await this.specRepository.findLatestByAssetId(donorId);
+        if (donorSpec) {
+            this.assertPartsInSpec(donorSpec, dto.parts);
+        }
+
+        const scrap: ChangeStatusDto = {
+            newStatus: AssetStatus.SCRAPPED,
+            reasonCode: dto.reasonCode,
+            reason: dto.reason ?? `Scrapped with ${dto.parts.length} part(s) harvested`
+        };
+        await this.transitionService.assertTransition(donor, scrap);
+
+        await this.assertHarvestLocation(dto.warehouseId, dto.locationId);
+
+        const { scrapped, parts } = await this.prisma.$transaction(async (tx) => {
+            const assetRepository = new AssetRepository(tx);
+            const historyRepository = new AssetHistoryRepository(tx);
+            const specRepository = new HardwareSpecRepository(tx);
+
+            const scrappedDonor = await assetRepository.updateStatus(donor.id, AssetStatus.SCRAPPED);
+            await historyRepository.create(donor.id, donor.status, AssetStatus.SCRAPPED, scrap.reason, scrap.reasonCode);
+            await emitAssetStatusChanged(tx, scrappedDonor, donor.status, scrap.reason, scrap.reasonCode);
+
+            const created: { asset: AssetEntity; spec: HardwareSpecEntity }[] = [];
+            for (const part of dto.parts) {
+                const asset = await assetRepository.createHarvestedPart(donor, part);
+                await historyRepository.create(
+                    asset.id,
+                    null,
+                    AssetStatus.SELLABLE,
+                    `Harvested from ${donor.serialNumber}`
+                );
+                const spec = await specRepository.create(asset.id, 1, {
+                    source: HardwareSpecSource.INTAKE,
+                    components: [{
+                        type: part.componentType,
+                        reference: part.reference,
+                        quantity: 1,
+                        capacity: part.capacity,
+                        unit: part.unit
+                    }]
+                });
+                await emitAssetCreated(tx, asset);
+                await emitHardwareSpecRecorded(tx, spec, null);
+                created.push({ asset, spec });
+            }
+            await emitAssetHarvested(tx, scrappedDonor, created.map(p => p.asset));
+
+            return { scrapped: scrappedDonor, parts: created };
+        });
+
+        // Entrée en stock (après commit : un échec n'annule pas la récupération)
+        const unstockedPartIds: string[] = [];
+        for (const { asset } of parts) {
+            try {
+                await this.inventoryClient.moveAsset(asset.id, dto.locationId, 'INTAKE');
+            } catch (error) {
+                console.error(`[Harvest] Stock intake failed for part ${asset.id}`, error);
+                unstockedPartIds.push(asset.id);
+            }
+        }
+
+        return { donor: scrapped, parts: parts.map(p => p.asset), unstockedPartIds };
+    }
+
+    /**
+     * Liste les pièces récupérées sur un donneur
+     *
+     * @throws AssetNotFoundError si l'asset n'existe pas
+     */
+    async getHarvestedParts(donorId: string): Promise<AssetEntity[]> {
+        const donor = await this.assetRepository.findById(donorId);
+        if (!donor) {
+            throw new AssetNotFoundError(donorId);
+        }
+
+        return this.assetRepository.findByParentId(donorId);
+    }
+
+    /**
+     * Vérifie la saisie des pièces
+     */
+    private assertValidParts(parts: HarvestedPartDto[]): void {
+        if (!Array.isArray(parts) || parts.length === 0) {
+            throw new InvalidHarvestError('parts must be a non-empty array');
+        }
+
+        const serials = new Set<string>();
+        parts.forEach((part, index) => {
+            const position = `parts[${index}]`;
+
+            if (!part.serialNumber || typeof part.serialNumber !== 'string') {
+                throw new InvalidHarvestError(`${position}: serialNumber is required`);
+            }
+            if (serials.has(part.serialNumber)) {
+                throw new InvalidHarvestError(`${position}: serial number ${part.serialNumber} appears more than once`);
+            }
+            serials.add(part.serialNumber);
+
+            if (!Object.values(HardwareComponentType).includes(part.componentType)) {
+                throw new InvalidHarvestError(`${position}: invalid componentType ${part.componentType}`);
+            }
+            if (NON_HARVESTABLE_TYPES.includes(part.componentType)) {
+                throw new InvalidHarvestError(`${position}: ${part.componentType} components cannot be harvested`);
+            }
+            if (!part.reference || typeof part.reference !== 'string') {
+                throw new InvalidHarvestError(`${position}: reference is required`);
+            }
+            if (!Object.values(AssetGrade).includes(part.grade)) {
+                throw new InvalidHarvestError(`${position}: invalid grade ${part.grade}`);
+            }
+            if (part.capacity !== undefined && (typeof part.capacity !== 'number' || part.capacity < 0)) {
+                throw new InvalidHarvestError(`${position}: capacity must be a positive number`);
+            }
+        });
+    }
+
+    /**
+     * Vérifie que l'emplacement du démontage existe et accepte une entrée en stock
+     */
+    private async assertHarvestLocation(warehouseId: string, locationId: string): Promise<void> {
+        if (!warehouseId || !locationId) {
+            throw new InvalidHarvestError('warehouseId and locationId are required');
+        }
+
+        const locations = await this.inventoryClient.getLocations(warehouseId);
+        const location = locations.find(l => l.id === locationId);
+        if (!location) {
+            throw new InvalidHarvestError(`Location ${locationId} not found in warehouse ${warehouseId}`);
+        }
+        if (!HARVEST_LOCATION_TYPES.includes(location.type)) {
+            throw new InvalidHarvestError(`Location ${locationId} (${location.type}) does not accept stock intake`);
+        }
+    }
+
+    /**
+     * Vérifie que les pièces récupérées figurent dans la spec du donneur
+     */
+    private assertPartsInSpec(spec: HardwareSpecEntity, parts: HarvestedPartDto[]): void {
+        const available = new Map<string, number>();
+        for (const component of spec.components) {
+            const key = `${component.type}|${component.reference}`;
+            available.set(key, (available.get(key) ?? 0) + component.quantity);
+        }
+
+        const requested = new Map<string, number>();
+        for (const part of parts) {
+            const key = `${part.componentType}|${part.reference}`;
+            requested.set(key, (requested.get(key) ?? 0) + 1);
+        }
+
+        for (const [key, quantity] of requested) {
+            const inSpec = available.get(key) ?? 0;
+            if (quantity > inSpec) {
+                const [type, reference] = key.split('|');
+                throw new InvalidHarvestError(
+                    `Cannot harvest ${quantity}x ${type} ${reference}: donor spec v${spec.version} declares ${inSpec}`
+                );
+            }
+        }
+    }
+}
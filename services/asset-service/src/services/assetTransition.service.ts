@@ -0,0 +1,138 @@
+/**
+ * Asset Transition Service
+ * Évaluation des gardes du cycle de vie
+ *
+ * RÈGLE : une garde dont la source est injoignable est considérée en échec
+ */
+
+import { QualityServiceClient, HttpQualityServiceClient } from '../integrations/quality.client';
+import { InventoryServiceClient, HttpInventoryServiceClient } from '../integrations/inventory.client';
+import { ASSET_STATUS_LABELS } from '../domain/assetStatus';
+import {
+    TransitionDefinition,
+    TransitionGuardName,
+    TRANSITION_GUARD_LABELS,
+    findTransition,
+    getAvailableTransitions
+} from '../domain/assetTransitions';
+import {
+    AssetEntity,
+    AvailableTransition,
+    ChangeStatusDto,
+    GuardEvaluation,
+    InvalidTransitionError,
+    ReasonCodeRequiredError,
+    TransitionGuardFailedError
+} from '../domain/asset.types';
+
+export class AssetTransitionService {
+    private readonly qualityClient: QualityServiceClient;
+    private readonly inventoryClient: InventoryServiceClient;
+
+    constructor(qualityClient?: QualityServiceClient, inventoryClient?: InventoryServiceClient) {
+        this.qualityClient = qualityClient ?? new HttpQualityServiceClient();
+        this.inventoryClient = inventoryClient ?? new HttpInventoryServiceClient();
+    }
+
+    /**
+     * Vérifie qu'une transition peut être appliquée
+     *
+     * Ordre : transition déclarée → code motif → gardes
+     *
+     * @throws InvalidTransitionError si la transition n'est pas déclarée pour ce type
+     * @throws ReasonCodeRequiredError si le code motif est absent ou non autorisé
+     * @throws TransitionGuardFailedError si une garde échoue
+     */
+    async assertTransition(asset: AssetEntity, dto: ChangeStatusDto): Promise<TransitionDefinition> {
+        const definition = findTransition(asset.status, dto.newStatus, asset.assetType);
+        if (!definition) {
+            throw new InvalidTransitionError(asset.status, dto.newStatus);
+        }
+
+        if (
+            definition.reasonCodes.length > 0 &&
+            (!dto.reasonCode || !definition.reasonCodes.includes(dto.reasonCode))
+        ) {
+            throw new ReasonCodeRequiredError(asset.status, dto.newStatus, definition.reasonCodes);
+        }
+
+        const evaluations = await Promise.all(
+            definition.guards.map(guard => this.evaluateGuard(guard, asset, dto))
+        );
+        const failedGuards = evaluations.filter(e => !e.passed);
+        if (failedGuards.length > 0) {
+            throw new TransitionGuardFailedError(asset.status, dto.newStatus, failedGuards);
+        }
+
+        return definition;
+    }
+
+    /**
+     * Liste les transitions sortantes avec l'état de leurs gardes
+     *
+     * Le certificat d'effacement est une saisie opérateur : il n'est pas
+     * évalué ici mais signalé via requiresDataWipeCertificate.
+     */
+    async listTransitions(asset: AssetEntity): Promise<AvailableTransition[]> {
+        const definitions = getAvailableTransitions(asset.status, asset.assetType);
+
+        return Promise.all(definitions.map(async definition => {
+            const guards = await Promise.all(
+                definition.guards
+                    .filter(guard => guard !== 'DATA_WIPE_CERTIFIED')
+                    .map(guard => this.evaluateGuard(guard, asset))
+            );
+
+            return {
+                targetStatus: definition.to,
+                label: ASSET_STATUS_LABELS[definition.to] ?? definition.to,
+                allowed: guards.every(g => g.passed),
+                guards,
+                reasonCodes: definition.reasonCodes,
+                requiresDataWipeCertificate: definition.guards.includes('DATA_WIPE_CERTIFIED')
+            };
+        }));
+    }
+
+    /**
+     * Évalue une garde nommée
+     */
+    private async evaluateGuard(
+        guard: TransitionGuardName,
+        asset: AssetEntity,
+        dto?: ChangeStatusDto
+    ): Promise<GuardEvaluation> {
+        const label = TRANSITION_GUARD_LABELS[guard];
+
+        try {
+            switch (guard) {
+                case 'QUALITY_VALIDATED': {
+                    const validation = await this.qualityClient.getValidationStatus(asset.id);
+                    return { guard, label, passed: validation.isValid, detail: validation.reason };
+                }
+
+                case 'NO_ACTIVE_RESERVATION': {
+                    const reservation = await this.inventoryClient.getReservation(asset.id);
+                    return reservation
+                        ? { guard, label, passed: false, detail: `Reserved for order ${reservation.orderRef}` }
+                        : { guard, label, passed: true };
+                }
+
+                case 'DATA_WIPE_CERTIFIED': {
+                    const certificateRef = dto?.dataWipeCertificateRef?.trim();
+                    return certificateRef
+                        ? { guard, label, passed: true, detail: certificateRef }
+                        : { guard, label, passed: false, detail: 'dataWipeCertificateRef is required' };
+                }
+            }
+        } catch (error) {
+            return {
+                guard,
+                label,
+                passed: false,
+                detail: error instanceof Error ? error.message : 'Guard evaluation failed'
+            };
+        }
+    }
+}
+
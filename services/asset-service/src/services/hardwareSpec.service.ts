@@ -0,0 +1,106 @@
+/**
+ * Hardware Spec Service
+ * Gestion de la configuration matérielle versionnée des assets
+ *
+ * Règles :
+ * - INTAKE : uniquement pour la première version (saisie à l'arrivée)
+ * - REFURB : uniquement pendant / en sortie d'atelier (IN_REFURB, QUALITY_PENDING)
+ * - CORRECTION : toujours possible (erreur de saisie)
+ */
+
+import { PrismaClient, AssetStatus, HardwareSpecSource } from '@prisma/client';
+import { AssetRepository } from '../repositories/asset.repository';
+import { HardwareSpecRepository } from '../repositories/hardwareSpec.repository';
+import { emitHardwareSpecRecorded } from '../events/asset.events';
+import { AssetNotFoundError } from '../domain/asset.types';
+import {
+    RecordHardwareSpecDto,
+    HardwareSpecEntity,
+    HardwareSpecNotFoundError,
+    InvalidHardwareSpecError,
+    assertValidComponents
+} from '../domain/hardwareSpec.types';
+
+/**
+ * Statuts dans lesquels une spec REFURB peut être enregistrée
+ */
+const REFURB_STATUSES: AssetStatus[] = [AssetStatus.IN_REFURB, AssetStatus.QUALITY_PENDING];
+
+export class HardwareSpecService {
+    private readonly assetRepository: AssetRepository;
+    private readonly specRepository: HardwareSpecRepository;
+
+    constructor(private readonly prisma: PrismaClient) {
+        this.assetRepository = new AssetRepository(prisma);
+        this.specRepository = new HardwareSpecRepository(prisma);
+    }
+
+    /**
+     * Enregistre une nouvelle version de la spec matérielle
+     *
+     * @throws AssetNotFoundError si l'asset n'existe pas
+     * @throws InvalidHardwareSpecError si les composants ou la source sont invalides
+     */
+    async recordSpec(assetId: string, dto: RecordHardwareSpecDto): Promise<HardwareSpecEntity> {
+        const asset = await this.assetRepository.findById(assetId);
+        if (!asset) {
+            throw new AssetNotFoundError(assetId);
+        }
+
+        if (!Object.values(HardwareSpecSource).includes(dto.source)) {
+            throw new InvalidHardwareSpecError(`Invalid source: ${dto.source}`);
+        }
+        assertValidComponents(dto.components);
+
+        const current = await this.specRepository.findLatestByAssetId(assetId);
+
+        if (dto.source === HardwareSpecSource.INTAKE && current) {
+            throw new InvalidHardwareSpecError(`Asset ${assetId} already has an intake spec (version ${current.version})`);
+        }
+
+        if (dto.source === HardwareSpecSource.REFURB && !REFURB_STATUSES.includes(asset.status)) {
+            throw new InvalidHardwareSpecError(`REFURB spec requires status ${REFURB_STATUSES.join(' or ')}, asset is ${asset.status}`);
+        }
+
+        // Nouvelle version et événement dans la même transaction
+        return this.prisma.$transaction(async (tx) => {
+            const spec = await new HardwareSpecRepository(tx).create(assetId, (current?.version ?? 0) + 1, dto);
+            await emitHardwareSpecRecorded(tx, spec, current?.version ?? null);
+            return spec;
+        });
+    }
+
+    /**
+     * Récupère la spec courante
+     *
+     * @throws AssetNotFoundError si l'asset n'existe pas
+     * @throws HardwareSpecNotFoundError si aucune spec n'est enregistrée
+     */
+    async getCurrentSpec(assetId: string): Promise<HardwareSpecEntity> {
+        const asset = await this.assetRepository.findById(assetId);
+        if (!asset) {
+            throw new AssetNotFoundError(assetId);
+        }
+
+        const spec = await this.specRepository.findLatestByAssetId(assetId);
+        if (!spec) {
+            throw new HardwareSpecNotFoundError(assetId);
+        }
+
+        return spec;
+    }
+
+    /**
+     * Récupère l'historique complet des versions
+     *
+     * @throws AssetNotFoundError si l'asset n'existe pas
+     */
+    async getSpecHistory(assetId: string): Promise<HardwareSpecEntity[]> {
+        const asset = await this.assetRepository.findById(assetId);
+        if (!asset) {
+            throw new AssetNotFoundError(assetId);
+        }
+
+        return this.specRepository.findAllByAssetId(assetId);
+    }
+}
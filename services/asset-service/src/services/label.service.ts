@@ -0,0 +1,220 @@
+/**
+ * Label Service
+ * Génération des étiquettes imprimables (assets, emplacements)
+ *
+ * Règles :
+ * - Code128 = code attendu au scan WMS (assetId, code emplacement)
+ * - QR = identifiants complets (assetId + numéro de série, entrepôt + emplacement)
+ * - Toute impression est journalisée ; une réimpression exige un motif
+ */
+
+import { randomUUID } from 'crypto';
+import { PrismaClient, LabelFormat, LabelTargetType } from '@prisma/client';
+import { AssetRepository } from '../repositories/asset.repository';
+import { LabelPrintLogRepository } from '../repositories/labelPrintLog.repository';
+import { ProcurementServiceClient, HttpProcurementServiceClient } from '../integrations/procurement.client';
+import { InventoryServiceClient, HttpInventoryServiceClient, LocationResponse } from '../integrations/inventory.client';
+import { renderPdf, renderZpl } from '../utils/labelRenderer';
+import { emitLabelsPrinted } from '../events/asset.events';
+import { AssetEntity, AssetNotFoundError } from '../domain/asset.types';
+import {
+    LabelData,
+    LabelPrintLogEntity,
+    PrintLabelsDto,
+    RenderedLabels,
+    InvalidLabelRequestError,
+    ReprintReasonRequiredError,
+    assetQrPayload,
+    locationQrPayload
+} from '../domain/label.types';
+
+export class LabelService {
+    private readonly assetRepository: AssetRepository;
+    private readonly printLogRepository: LabelPrintLogRepository;
+    private readonly procurementClient: ProcurementServiceClient;
+    private readonly inventoryClient: InventoryServiceClient;
+
+    constructor(
+        private readonly prisma: PrismaClient,
+        procurementClient?: ProcurementServiceClient,
+        inventoryClient?: InventoryServiceClient
+    ) {
+        this.assetRepository = new AssetRepository(prisma);
+        this.printLogRepository = new LabelPrintLogRepository(prisma);
+        this.procurementClient = procurementClient ?? new HttpProcurementServiceClient();
+        this.inventoryClient = inventoryClient ?? new HttpInventoryServiceClient();
+    }
+
+    /**
+     * Imprime l'étiquette d'un asset
+     *
+     * @throws AssetNotFoundError si l'asset n'existe pas
+     * @throws ReprintReasonRequiredError si déjà imprimée sans motif
+     */
+    async printAssetLabel(assetId: string, dto: PrintLabelsDto): Promise<RenderedLabels> {
+        const asset = await this.assetRepository.findById(assetId);
+        if (!asset) {
+            throw new AssetNotFoundError(assetId);
+        }
+
+        return this.print(LabelTargetType.ASSET, [this.assetLabel(asset)], dto, null);
+    }
+
+    /**
+     * Imprime les étiquettes de tous les assets d'un lot fournisseur
+     *
+     * @throws InvalidLabelRequestError si le lot est vide
+     * @throws AssetNotFoundError si un asset du lot est introuvable
+     */
+    async printLotLabels(lotId: string, dto: PrintLabelsDto): Promise<RenderedLabels> {
+        const items = await this.procurementClient.getLotItems(lotId);
+        if (items.length === 0) {
+            throw new InvalidLabelRequestError(`Lot ${lotId} has no items`);
+        }
+
+        const assetIds = items.map(i => i.assetId);
+        const assets = new Map(
+            (await this.assetRepository.findByIds(assetIds)).map(a => [a.id, a])
+        );
+
+        // Ordre du lot conservé (ordre d'intake)
+        const labels = assetIds.map(id => {
+            const asset = assets.get(id);
+            if (!asset) {
+                throw new AssetNotFoundError(id);
+            }
+            return this.assetLabel(asset);
+        });
+
+        return this.print(LabelTargetType.ASSET, labels, dto, `LOT:${lotId}`);
+    }
+
+    /**
+     * Imprime les étiquettes d'emplacements d'un entrepôt
+     * Sans liste d'IDs, tous les emplacements de l'entrepôt sont imprimés.
+     *
+     * @throws InvalidLabelRequestError si un emplacement est inconnu ou si aucun n'est trouvé
+     */
+    async printLocationLabels(
+        warehouseId: string,
+        locationIds: string[] | undefined,
+        dto: PrintLabelsDto
+    ): Promise<RenderedLabels> {
+        const locations = await this.inventoryClient.getLocations(warehouseId);
+
+        let selected: LocationResponse[] = locations;
+        if (locationIds && locationIds.length > 0) {
+            const byId = new Map(locations.map(l => [l.id, l]));
+            selected = locationIds.map(id => {
+                const location = byId.get(id);
+                if (!location) {
+                    throw new InvalidLabelRequestError(`Location ${id} not found in warehouse ${warehouseId}`);
+                }
+                return location;
+            });
+        }
+
+        if (selected.length === 0) {
+            throw new InvalidLabelRequestError(`Warehouse ${warehouseId} has no locations`);
+        }
+
+        return this.print(
+            LabelTargetType.LOCATION,
+            selected.map(l => this.locationLabel(l)),
+            dto,
+            `WAREHOUSE:${warehouseId}`
+        );
+    }
+
+    /**
+     * Historique d'impression d'une cible
+     */
+    async getPrintHistory(targetType: LabelTargetType, targetId: string): Promise<LabelPrintLogEntity[]> {
+        return this.printLogRepository.findByTarget(targetType, targetId);
+    }
+
+    /**
+     * Contrôle, rend et journalise un lot d'étiquettes
+     */
+    private async print(
+        targetType: LabelTargetType,
+        labels: LabelData[],
+        dto: PrintLabelsDto,
+        batchRef: string | null
+    ): Promise<RenderedLabels> {
+        if (!Object.values(LabelFormat).includes(dto.format)) {
+            throw new InvalidLabelRequestError(`Invalid format: ${dto.format}`);
+        }
+
+        const reason = dto.reason?.trim() || null;
+        const alreadyPrinted = new Set(
+            await this.printLogRepository.findPrintedTargetIds(targetType, labels.map(l => l.targetId))
+        );
+        if (alreadyPrinted.size > 0 && !reason) {
+            throw new ReprintReasonRequiredError([...alreadyPrinted]);
+        }
+
+        const content = dto.format === LabelFormat.PDF
+            ? await renderPdf(labels)
+            : renderZpl(labels);
+
+        // Journal et événement dans la même transaction
+        await this.prisma.$transaction(async (tx) => {
+            await new LabelPrintLogRepository(tx).createMany(labels.map(label => ({
+                targetType,
+                targetId: label.targetId,
+                code: label.barcode,
+                format: dto.format,
+                batchRef,
+                reprint: alreadyPrinted.has(label.targetId),
+                reason,
+                printedBy: dto.printedBy ?? null
+            })));
+
+            await emitLabelsPrinted(tx, randomUUID(), targetType, dto.format, labels.length, alreadyPrinted.size, batchRef);
+        });
+
+        return {
+            format: dto.format,
+            contentType: dto.format === LabelFormat.PDF ? 'application/pdf' : 'text/plain; charset=utf-8',
+            content,
+            count: labels.length
+        };
+    }
+
+    /**
+     * Contenu de l'étiquette d'un asset
+     */
+    private assetLabel(asset: AssetEntity): LabelData {
+        const lines = [`N° série : ${asset.serialNumber}`, `Type : ${asset.assetType}`];
+        if (asset.chassisRef) {
+            lines.push(`Châssis : ${asset.chassisRef}`);
+        }
+        if (asset.grade) {
+            lines.push(`Grade : ${asset.grade}`);
+        }
+
+        return {
+            targetType: LabelTargetType.ASSET,
+            targetId: asset.id,
+            title: `${asset.brand} ${asset.model}`,
+            lines,
+            barcode: asset.id,
+            qr: assetQrPayload(asset.id, asset.serialNumber)
+        };
+    }
+
+    /**
+     * Contenu de l'étiquette d'un emplacement
+     */
+    private locationLabel(location: LocationResponse): LabelData {
+        return {
+            targetType: LabelTargetType.LOCATION,
+            targetId: location.id,
+            title: `Emplacement ${location.code}`,
+            lines: [`Type : ${location.type}`, `Entrepôt : ${location.warehouseId}`],
+            barcode: location.code,
+            qr: locationQrPayload(location.warehouseId, location.id, location.code)
+        };
+    }
+}
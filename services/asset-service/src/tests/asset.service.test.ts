@@ -7,16 +7,22 @@ import { AssetService } from '../services/asset.service';
 import { AssetRepository } from '../repositories/asset.repository';
 import { AssetHistoryRepository } from '../repositories/assetHistory.repository';
 import { isTransitionAllowed } from '../domain/assetTransitions';
+import { parseAssetSearchQuery, InvalidSearchQueryError } from '../domain/assetSearch.types';
+import { QualityServiceClient } from '../integrations/quality.client';
+import { InventoryServiceClient } from '../integrations/inventory.client';
 import {
     CreateAssetDto,
     AssetEntity,
     DuplicateSerialNumberError,
     InvalidTransitionError,
-    AssetNotFoundError
+    AssetNotFoundError,
+    ReasonCodeRequiredError,
+    TransitionGuardFailedError,
+    GradeAssignmentNotAllowedError
 } from '../domain/asset.types';
-import { AssetStatus, AssetType, PrismaClient } from '@prisma/client';
+import { AssetGrade, AssetStatus, AssetType, PrismaClient } from '@prisma/client';
 
-// Mock du PrismaClient
+// Mock du PrismaClient ($transaction exécute le callback avec le même mock)
 const mockPrisma = {
     asset: {
         create: jest.fn(),
@@ -29,9 +35,22 @@ const mockPrisma = {
         findMany: jest.fn(),
         findFirst: jest.fn(),
         count: jest.fn()
-    }
+    },
+    $executeRawUnsafe: jest.fn(),
+    $transaction: jest.fn()
 } as unknown as PrismaClient;
 
+// Mock des clients utilisés par les gardes
+const mockQualityClient: QualityServiceClient = {
+    getValidationStatus: jest.fn()
+};
+
+const mockInventoryClient: InventoryServiceClient = {
+    getReservation: jest.fn(),
+    getLocations: jest.fn(),
+    moveAsset: jest.fn()
+};
+
 // Mock des événements (console.log)
 jest.spyOn(console, 'log').mockImplementation(() => { });
 
@@ -40,6 +59,9 @@ describe('AssetService', () => {
 
     beforeEach(() => {
         jest.clearAllMocks();
+        (mockPrisma.$transaction as jest.Mock).mockImplementation(
+            async (callback: (tx: PrismaClient) => Promise<unknown>) => callback(mockPrisma)
+        );
         service = new AssetService(mockPrisma);
     });
 
@@ -61,6 +83,8 @@ describe('AssetService', () => {
             chassisRef: 'R740',
             status: AssetStatus.ACQUIRED,
             grade: null,
+            parentAssetId: null,
+            componentType: null,
             createdAt: new Date(),
             updatedAt: new Date()
         };
@@ -139,6 +163,8 @@ describe('AssetService', () => {
             chassisRef: 'R740',
             status: AssetStatus.ACQUIRED,
             grade: null,
+            parentAssetId: null,
+            componentType: null,
             createdAt: new Date(),
             updatedAt: new Date()
         };
@@ -175,6 +201,35 @@ describe('AssetService', () => {
             });
         });
 
+        test('should_publish_status_change_to_outbox_in_transaction', async () => {
+            // Arrange
+            (mockPrisma.asset.findUnique as jest.Mock).mockResolvedValue(mockAssetAcquired);
+            (mockPrisma.asset.update as jest.Mock).mockResolvedValue(mockAssetInRefurb);
+            (mockPrisma.assetStateHistory.create as jest.Mock).mockResolvedValue({});
+
+            // Act
+            await service.changeStatus('uuid-1', {
+                newStatus: AssetStatus.IN_REFURB,
+                reason: 'Starting refurbishment'
+            });
+
+            // Assert
+            expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+            expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
+                expect.stringContaining('INSERT INTO "outbox_events"'),
+                expect.any(String),
+                'AssetStatusChanged',
+                1,
+                'asset-service',
+                'Asset',
+                'uuid-1',
+                expect.any(String),
+                expect.any(String),
+                null,
+                expect.stringContaining('"newStatus":"IN_REFURB"')
+            );
+        });
+
         test('should_reject_invalid_status_transition', async () => {
             // Arrange - ACQUIRED ne peut pas aller directement à SOLD
             (mockPrisma.asset.findUnique as jest.Mock).mockResolvedValue(mockAssetAcquired);
@@ -219,6 +274,176 @@ describe('AssetService', () => {
         });
     });
 
+    describe('guarded transitions', () => {
+        const baseAsset: AssetEntity = {
+            id: 'uuid-1',
+            serialNumber: 'SN123',
+            assetType: AssetType.LAPTOP,
+            brand: 'Lenovo',
+            model: 'T480',
+            chassisRef: null,
+            status: AssetStatus.QUALITY_PENDING,
+            grade: null,
+            parentAssetId: null,
+            componentType: null,
+            createdAt: new Date(),
+            updatedAt: new Date()
+        };
+
+        beforeEach(() => {
+            service = new AssetService(mockPrisma, mockQualityClient, mockInventoryClient);
+            (mockPrisma.assetStateHistory.create as jest.Mock).mockResolvedValue({
+                id: 'history-3',
+                assetId: 'uuid-1',
+                previousStatus: null,
+                newStatus: AssetStatus.IN_REFURB,
+                reason: null,
+                reasonCode: null,
+                createdAt: new Date()
+            });
+        });
+
+        test('should_require_reason_code_to_send_failed_qa_back_to_refurb', async () => {
+            (mockPrisma.asset.findUnique as jest.Mock).mockResolvedValue(baseAsset);
+
+            await expect(
+                service.changeStatus('uuid-1', { newStatus: AssetStatus.IN_REFURB })
+            ).rejects.toThrow(ReasonCodeRequiredError);
+
+            (mockPrisma.asset.update as jest.Mock).mockResolvedValue({ ...baseAsset, status: AssetStatus.IN_REFURB });
+            const result = await service.changeStatus('uuid-1', {
+                newStatus: AssetStatus.IN_REFURB,
+                reasonCode: 'QA_FAILED'
+            });
+
+            expect(result.status).toBe(AssetStatus.IN_REFURB);
+            expect(mockPrisma.assetStateHistory.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ reasonCode: 'QA_FAILED' })
+            });
+        });
+
+        test('should_block_sellable_when_quality_not_validated', async () => {
+            (mockPrisma.asset.findUnique as jest.Mock).mockResolvedValue(baseAsset);
+            (mockQualityClient.getValidationStatus as jest.Mock).mockResolvedValue({
+                isValid: false,
+                reason: 'Blocking items failed: SCREEN'
+            });
+
+            await expect(
+                service.changeStatus('uuid-1', { newStatus: AssetStatus.SELLABLE })
+            ).rejects.toThrow(TransitionGuardFailedError);
+            expect(mockPrisma.asset.update).not.toHaveBeenCalled();
+        });
+
+        test('should_release_cancelled_reservation_only_without_active_reservation', async () => {
+            const reserved = { ...baseAsset, status: AssetStatus.RESERVED };
+            (mockPrisma.asset.findUnique as jest.Mock).mockResolvedValue(reserved);
+            (mockInventoryClient.getReservation as jest.Mock).mockResolvedValue({
+                id: 'res-1',
+                assetId: 'uuid-1',
+                orderRef: 'ORD-1',
+                createdAt: new Date().toISOString()
+            });
+
+            await expect(
+                service.changeStatus('uuid-1', { newStatus: AssetStatus.SELLABLE, reasonCode: 'ORDER_CANCELLED' })
+            ).rejects.toThrow(TransitionGuardFailedError);
+
+            (mockInventoryClient.getReservation as jest.Mock).mockResolvedValue(null);
+            (mockPrisma.asset.update as jest.Mock).mockResolvedValue({ ...reserved, status: AssetStatus.SELLABLE });
+
+            const result = await service.changeStatus('uuid-1', {
+                newStatus: AssetStatus.SELLABLE,
+                reasonCode: 'ORDER_CANCELLED'
+            });
+            expect(result.status).toBe(AssetStatus.SELLABLE);
+        });
+
+        test('should_declare_transitions_per_asset_type', () => {
+            // Reconfiguration CTO : serveurs et stations uniquement
+            expect(isTransitionAllowed(AssetStatus.SELLABLE, AssetStatus.IN_REFURB, AssetType.SERVER)).toBe(true);
+            expect(isTransitionAllowed(AssetStatus.SELLABLE, AssetStatus.IN_REFURB, AssetType.LAPTOP)).toBe(false);
+        });
+
+        test('should_list_transitions_with_guard_status', async () => {
+            (mockPrisma.asset.findUnique as jest.Mock).mockResolvedValue(baseAsset);
+            (mockQualityClient.getValidationStatus as jest.Mock).mockResolvedValue({ isValid: true });
+            (mockInventoryClient.getReservation as jest.Mock).mockResolvedValue(null);
+
+            const transitions = await service.getAvailableTransitions('uuid-1');
+
+            expect(transitions.map(t => t.targetStatus)).toEqual([
+                AssetStatus.SELLABLE,
+                AssetStatus.IN_REFURB,
+                AssetStatus.SCRAPPED
+            ]);
+            expect(transitions.every(t => t.allowed)).toBe(true);
+            expect(transitions.find(t => t.targetStatus === AssetStatus.IN_REFURB)?.reasonCodes).toEqual(['QA_FAILED']);
+        });
+    });
+
+    describe('listAssets', () => {
+        const record = (id: string): AssetEntity => ({
+            id,
+            serialNumber: `SN-${id}`,
+            assetType: AssetType.LAPTOP,
+            brand: 'HP',
+            model: '840',
+            chassisRef: null,
+            status: AssetStatus.SELLABLE,
+            grade: null,
+            parentAssetId: null,
+            componentType: null,
+            createdAt: new Date(),
+            updatedAt: new Date()
+        });
+
+        test('should_translate_filters_and_return_next_cursor', async () => {
+            (mockPrisma.asset.findMany as jest.Mock).mockResolvedValue([record('a'), record('b'), record('c')]);
+
+            const page = await service.listAssets(parseAssetSearchQuery({
+                status: 'SELLABLE,RESERVED',
+                brand: 'hp',
+                q: 'CZC',
+                createdFrom: '2026-01-01',
+                sort: 'serialNumber',
+                order: 'asc',
+                limit: '2',
+                cursor: 'prev-id'
+            }));
+
+            expect(page.data.map(a => a.id)).toEqual(['a', 'b']);
+            expect(page.nextCursor).toBe('b');
+            expect(mockPrisma.asset.findMany).toHaveBeenCalledWith(expect.objectContaining({
+                where: expect.objectContaining({
+                    status: { in: [AssetStatus.SELLABLE, AssetStatus.RESERVED] },
+                    brand: { equals: 'hp', mode: 'insensitive' },
+                    serialNumber: { startsWith: 'CZC' },
+                    createdAt: { gte: new Date('2026-01-01'), lte: undefined }
+                }),
+                orderBy: [{ serialNumber: 'asc' }, { id: 'asc' }],
+                take: 3,
+                cursor: { id: 'prev-id' },
+                skip: 1
+            }));
+        });
+
+        test('should_return_null_cursor_on_last_page', async () => {
+            (mockPrisma.asset.findMany as jest.Mock).mockResolvedValue([record('a')]);
+
+            const page = await service.listAssets(parseAssetSearchQuery({}));
+
+            expect(page.nextCursor).toBeNull();
+        });
+
+        test('should_reject_invalid_search_parameters', () => {
+            expect(() => parseAssetSearchQuery({ status: 'BROKEN' })).toThrow(InvalidSearchQueryError);
+            expect(() => parseAssetSearchQuery({ sort: 'brand' })).toThrow(InvalidSearchQueryError);
+            expect(() => parseAssetSearchQuery({ limit: '10000' })).toThrow(InvalidSearchQueryError);
+            expect(() => parseAssetSearchQuery({ updatedTo: 'yesterday' })).toThrow(InvalidSearchQueryError);
+        });
+    });
+
     describe('history immutability', () => {
         test('should_not_allow_history_update_or_delete', () => {
             // Vérifier que AssetHistoryRepository n'a PAS de méthodes update/delete
@@ -237,6 +462,44 @@ describe('AssetService', () => {
         });
     });
 
+    describe('assignGrade', () => {
+        const pendingAsset: AssetEntity = {
+            id: 'uuid-1',
+            serialNumber: 'SN123',
+            assetType: AssetType.LAPTOP,
+            brand: 'Dell',
+            model: 'Latitude 7490',
+            chassisRef: null,
+            status: AssetStatus.QUALITY_PENDING,
+            grade: null,
+            parentAssetId: null,
+            componentType: null,
+            createdAt: new Date(),
+            updatedAt: new Date()
+        };
+
+        test('should_assign_grade_while_quality_pending', async () => {
+            (mockPrisma.asset.findUnique as jest.Mock).mockResolvedValue(pendingAsset);
+            (mockPrisma.asset.update as jest.Mock).mockResolvedValue({ ...pendingAsset, grade: AssetGrade.A });
+
+            const asset = await service.assignGrade('uuid-1', AssetGrade.A);
+
+            expect(asset.grade).toBe(AssetGrade.A);
+            expect(mockPrisma.asset.update).toHaveBeenCalledWith({
+                where: { id: 'uuid-1' },
+                data: { grade: AssetGrade.A }
+            });
+            expect(console.log).toHaveBeenCalledWith(expect.stringContaining('"message":"AssetGradeAssigned"'));
+        });
+
+        test('should_reject_grade_outside_quality_pending', async () => {
+            (mockPrisma.asset.findUnique as jest.Mock).mockResolvedValue({ ...pendingAsset, status: AssetStatus.SELLABLE });
+
+            await expect(service.assignGrade('uuid-1', AssetGrade.B)).rejects.toThrow(GradeAssignmentNotAllowedError);
+            expect(mockPrisma.asset.update).not.toHaveBeenCalled();
+        });
+    });
+
     describe('edge cases', () => {
         test('should_throw_AssetNotFoundError_for_unknown_asset', async () => {
             // Arrange
@@ -259,6 +522,8 @@ describe('AssetService', () => {
                 chassisRef: 'R740',
                 status: AssetStatus.ACQUIRED,
                 grade: null,
+                parentAssetId: null,
+                componentType: null,
                 createdAt: new Date(),
                 updatedAt: new Date()
             };
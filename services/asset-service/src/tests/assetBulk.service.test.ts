@@ -0,0 +1,263 @@
+/**
+ * Asset Bulk Service Tests
+ * Tests unitaires pour l'import et le changement de statut en masse
+ */
+
+import { AssetBulkService } from '../services/assetBulk.service';
+import { QualityServiceClient } from '../integrations/quality.client';
+import { InventoryServiceClient } from '../integrations/inventory.client';
+import { BulkCreateAssetRow, InvalidBulkRequestError, MAX_BULK_ROWS } from '../domain/assetBulk.types';
+import { parseCsv } from '../utils/csv';
+import { AssetStatus, AssetType, Prisma, PrismaClient } from '@prisma/client';
+
+// Mock du PrismaClient ($transaction exécute le callback avec le même mock)
+const mockPrisma = {
+    asset: {
+        create: jest.fn(),
+        findUnique: jest.fn(),
+        findMany: jest.fn(),
+        update: jest.fn()
+    },
+    assetStateHistory: {
+        create: jest.fn()
+    },
+    assetHardwareSpec: {
+        create: jest.fn()
+    },
+    $executeRawUnsafe: jest.fn(),
+    $transaction: jest.fn()
+} as unknown as PrismaClient;
+
+const mockQualityClient: QualityServiceClient = {
+    getValidationStatus: jest.fn()
+};
+
+const mockInventoryClient: InventoryServiceClient = {
+    getReservation: jest.fn(),
+    getLocations: jest.fn(),
+    moveAsset: jest.fn()
+};
+
+jest.spyOn(console, 'log').mockImplementation(() => { });
+
+function assetRecord(overrides: Record<string, unknown> = {}) {
+    return {
+        id: 'uuid-1',
+        serialNumber: 'SN1',
+        assetType: AssetType.SERVER,
+        brand: 'Dell',
+        model: 'R740',
+        chassisRef: null,
+        status: AssetStatus.ACQUIRED,
+        grade: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...overrides
+    };
+}
+
+describe('AssetBulkService', () => {
+    let service: AssetBulkService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (mockPrisma.$transaction as jest.Mock).mockImplementation(
+            async (callback: (tx: PrismaClient) => Promise<unknown>) => callback(mockPrisma)
+        );
+        (mockPrisma.assetStateHistory.create as jest.Mock).mockImplementation(async ({ data }) => ({
+            id: 'history-1',
+            reason: null,
+            reasonCode: null,
+            createdAt: new Date(),
+            ...data
+        }));
+        service = new AssetBulkService(mockPrisma, mockQualityClient, mockInventoryClient);
+    });
+
+    describe('importAssets', () => {
+        test('should_create_valid_rows_and_report_rejected_ones', async () => {
+            (mockPrisma.asset.findMany as jest.Mock).mockResolvedValue([assetRecord({ serialNumber: 'SN-EXISTING' })]);
+            (mockPrisma.asset.create as jest.Mock).mockImplementation(async ({ data }) =>
+                assetRecord({ ...data, id: `id-${data.serialNumber}` })
+            );
+
+            const report = await service.importAssets([
+                { serialNumber: 'SN1', assetType: 'SERVER', brand: 'Dell', model: 'R740' },
+                { serialNumber: 'SN2', assetType: 'TABLET', brand: 'Apple', model: 'iPad' },
+                { serialNumber: 'SN1', assetType: 'SERVER', brand: 'Dell', model: 'R740' },
+                { serialNumber: 'SN-EXISTING', assetType: 'LAPTOP', brand: 'HP', model: '840' },
+                { serialNumber: 'SN3', assetType: 'LAPTOP', brand: 'HP', model: '840' }
+            ]);
+
+            expect(report.total).toBe(5);
+            expect(report.succeeded).toBe(2);
+            expect(report.failed).toBe(3);
+            expect(report.results.map(r => r.status)).toEqual([
+                'CREATED', 'REJECTED', 'REJECTED', 'REJECTED', 'CREATED'
+            ]);
+            expect(report.results[3]?.error).toBe('DuplicateSerialNumberError');
+
+            // Une seule transaction, un historique par asset créé
+            expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+            expect(mockPrisma.assetStateHistory.create).toHaveBeenCalledTimes(2);
+            expect(console.log).toHaveBeenCalledWith(expect.stringContaining('"message":"AssetCreated"'));
+        });
+
+        test('should_reject_malformed_rows_without_failing_the_request', async () => {
+            (mockPrisma.asset.findMany as jest.Mock).mockResolvedValue([]);
+            (mockPrisma.asset.create as jest.Mock).mockImplementation(async ({ data }) =>
+                assetRecord({ ...data, id: `id-${data.serialNumber}` })
+            );
+
+            const report = await service.importAssets([
+                null,
+                { serialNumber: 12345, assetType: 'SERVER', brand: 'Dell', model: 'R740' },
+                'SN9',
+                { serialNumber: 'SN1', assetType: 'SERVER', brand: 'Dell', model: 'R740', chassisRef: null }
+            ] as unknown as BulkCreateAssetRow[]);
+
+            expect(report.results.map(r => [r.status, r.message])).toEqual([
+                ['REJECTED', 'Row must be an object'],
+                ['REJECTED', 'Field serialNumber must be a string'],
+                ['REJECTED', 'Row must be an object'],
+                ['CREATED', undefined]
+            ]);
+        });
+
+        test('should_reject_rows_created_concurrently_and_commit_the_others', async () => {
+            // SN2 importé par une autre requête entre la vérification et l'écriture
+            (mockPrisma.asset.findMany as jest.Mock)
+                .mockResolvedValueOnce([])
+                .mockResolvedValueOnce([assetRecord({ id: 'other', serialNumber: 'SN2' })]);
+            (mockPrisma.asset.create as jest.Mock).mockImplementation(async ({ data }) => {
+                if (data.serialNumber === 'SN2' && (mockPrisma.$transaction as jest.Mock).mock.calls.length === 1) {
+                    throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+                        code: 'P2002',
+                        clientVersion: 'test'
+                    });
+                }
+                return assetRecord({ ...data, id: `id-${data.serialNumber}` });
+            });
+
+            const report = await service.importAssets([
+                { serialNumber: 'SN1', assetType: 'SERVER', brand: 'Dell', model: 'R740' },
+                { serialNumber: 'SN2', assetType: 'SERVER', brand: 'Dell', model: 'R740' },
+                { serialNumber: 'SN3', assetType: 'SERVER', brand: 'Dell', model: 'R740' }
+            ]);
+
+            expect(report.results.map(r => [r.status, r.error])).toEqual([
+                ['CREATED', undefined],
+                ['REJECTED', 'DuplicateSerialNumberError'],
+                ['CREATED', undefined]
+            ]);
+            expect(mockPrisma.$transaction).toHaveBeenCalledTimes(2);
+        });
+
+        test('should_record_intake_spec_in_the_import_transaction', async () => {
+            (mockPrisma.asset.findMany as jest.Mock).mockResolvedValue([]);
+            (mockPrisma.asset.create as jest.Mock).mockImplementation(async ({ data }) =>
+                assetRecord({ ...data, id: `id-${data.serialNumber}` })
+            );
+            (mockPrisma.assetHardwareSpec.create as jest.Mock).mockImplementation(async ({ data }) => ({
+                id: 'spec-1',
+                assetId: data.assetId,
+                version: data.version,
+                source: data.source,
+                notes: null,
+                createdAt: new Date(),
+                components: data.components.create.map((c: object, i: number) => ({ id: `component-${i}`, ...c }))
+            }));
+
+            const report = await service.importAssets([
+                {
+                    serialNumber: 'SN1', assetType: 'SERVER', brand: 'Dell', model: 'R740',
+                    components: [{ type: 'CPU', reference: 'Xeon Gold 6130', quantity: 2 }]
+                },
+                {
+                    serialNumber: 'SN2', assetType: 'SERVER', brand: 'Dell', model: 'R740',
+                    components: [{ type: 'CPU', reference: 'Xeon Gold 6130', quantity: 0 }]
+                },
+                { serialNumber: 'SN3', assetType: 'SERVER', brand: 'Dell', model: 'R740' }
+            ] as BulkCreateAssetRow[]);
+
+            expect(report.results.map(r => [r.status, r.error])).toEqual([
+                ['CREATED', undefined],
+                ['REJECTED', 'InvalidHardwareSpecError'],
+                ['CREATED', undefined]
+            ]);
+
+            // Spec INTAKE v1 uniquement pour la ligne qui en fournit une, dans la transaction d'import
+            expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+            expect(mockPrisma.assetHardwareSpec.create).toHaveBeenCalledTimes(1);
+            expect(mockPrisma.assetHardwareSpec.create).toHaveBeenCalledWith(expect.objectContaining({
+                data: expect.objectContaining({ assetId: 'id-SN1', version: 1, source: 'INTAKE' })
+            }));
+            expect(console.log).toHaveBeenCalledWith(expect.stringContaining('"message":"HardwareSpecRecorded"'));
+        });
+
+        test('should_reject_empty_or_oversized_requests', async () => {
+            await expect(service.importAssets([])).rejects.toThrow(InvalidBulkRequestError);
+
+            const rows = Array.from({ length: MAX_BULK_ROWS + 1 }, (_, i) => ({ serialNumber: `SN${i}` }));
+            await expect(service.importAssets(rows)).rejects.toThrow(InvalidBulkRequestError);
+        });
+    });
+
+    describe('changeStatuses', () => {
+        test('should_apply_lifecycle_rules_to_each_row', async () => {
+            (mockPrisma.asset.findMany as jest.Mock).mockResolvedValue([
+                assetRecord({ id: 'a1', serialNumber: 'SN1', status: AssetStatus.ACQUIRED }),
+                assetRecord({ id: 'a2', serialNumber: 'SN2', status: AssetStatus.QUALITY_PENDING })
+            ]);
+            (mockPrisma.asset.update as jest.Mock).mockImplementation(async ({ where, data }) =>
+                assetRecord({ id: where.id, status: data.status })
+            );
+
+            const report = await service.changeStatuses([
+                { assetId: 'a1', newStatus: AssetStatus.IN_REFURB },
+                { assetId: 'a2', newStatus: AssetStatus.IN_REFURB }, // code motif manquant
+                { assetId: 'missing', newStatus: AssetStatus.IN_REFURB }
+            ]);
+
+            expect(report.succeeded).toBe(1);
+            expect(report.results.map(r => r.error)).toEqual([
+                undefined,
+                'ReasonCodeRequiredError',
+                'AssetNotFoundError'
+            ]);
+            expect(mockPrisma.asset.update).toHaveBeenCalledTimes(1);
+            expect(mockPrisma.assetStateHistory.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    assetId: 'a1',
+                    previousStatus: AssetStatus.ACQUIRED,
+                    newStatus: AssetStatus.IN_REFURB
+                })
+            });
+        });
+
+        test('should_not_open_transaction_when_every_row_is_rejected', async () => {
+            (mockPrisma.asset.findMany as jest.Mock).mockResolvedValue([]);
+
+            const report = await service.changeStatuses([{ assetId: 'missing', newStatus: AssetStatus.SOLD }]);
+
+            expect(report.failed).toBe(1);
+            expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('parseCsv', () => {
+        test('should_parse_header_quotes_and_semicolon_delimiter', () => {
+            const rows = parseCsv(
+                'serialNumber;assetType;brand;model;chassisRef\r\n' +
+                'SN1;SERVER;Dell;"PowerEdge; R740";\r\n' +
+                '\r\n' +
+                'SN2;LAPTOP;"HP ""Elite""";840;\r\n'
+            );
+
+            expect(rows).toEqual([
+                { serialNumber: 'SN1', assetType: 'SERVER', brand: 'Dell', model: 'PowerEdge; R740' },
+                { serialNumber: 'SN2', assetType: 'LAPTOP', brand: 'HP "Elite"', model: '840' }
+            ]);
+        });
+    });
+});
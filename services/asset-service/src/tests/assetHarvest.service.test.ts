@@ -0,0 +1,292 @@
+/**
+ * Asset Harvest Service Tests
+ * Tests unitaires pour la mise au rebut avec récupération de pièces
+ */
+
+import { AssetHarvestService } from '../services/assetHarvest.service';
+import { QualityServiceClient } from '../integrations/quality.client';
+import { InventoryServiceClient } from '../integrations/inventory.client';
+import { DuplicateSerialNumberError, ReasonCodeRequiredError, TransitionGuardFailedError } from '../domain/asset.types';
+import { HarvestedPartDto, InvalidHarvestError } from '../domain/assetHarvest.types';
+import {
+    AssetGrade,
+    AssetStatus,
+    AssetType,
+    HardwareComponentType,
+    HardwareSpecSource,
+    PrismaClient
+} from '@prisma/client';
+
+// Mock du PrismaClient ($transaction exécute le callback avec le même mock)
+const mockPrisma = {
+    asset: {
+        create: jest.fn(),
+        findUnique: jest.fn(),
+        findMany: jest.fn(),
+        update: jest.fn()
+    },
+    assetStateHistory: {
+        create: jest.fn()
+    },
+    assetHardwareSpec: {
+        create: jest.fn(),
+        findFirst: jest.fn()
+    },
+    $executeRawUnsafe: jest.fn(),
+    $transaction: jest.fn()
+} as unknown as PrismaClient;
+
+const mockQualityClient: QualityServiceClient = {
+    getValidationStatus: jest.fn()
+};
+
+const mockInventoryClient: InventoryServiceClient = {
+    getReservation: jest.fn(),
+    getLocations: jest.fn(),
+    moveAsset: jest.fn()
+};
+
+jest.spyOn(console, 'log').mockImplementation(() => { });
+
+function assetRecord(overrides: Record<string, unknown> = {}) {
+    return {
+        id: 'donor-1',
+        serialNumber: 'SN-DONOR',
+        assetType: AssetType.SERVER,
+        brand: 'Dell',
+        model: 'R740',
+        chassisRef: null,
+        status: AssetStatus.IN_REFURB,
+        grade: null,
+        parentAssetId: null,
+        componentType: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...overrides
+    };
+}
+
+function donorSpec() {
+    return {
+        id: 'spec-1',
+        assetId: 'donor-1',
+        version: 1,
+        source: HardwareSpecSource.INTAKE,
+        notes: null,
+        createdAt: new Date(),
+        components: [
+            { id: 'c1', specId: 'spec-1', type: HardwareComponentType.RAM, reference: 'DDR4-32G', quantity: 2, capacity: 32, unit: 'GB' },
+            { id: 'c2', specId: 'spec-1', type: HardwareComponentType.STORAGE, reference: 'SSD-960G', quantity: 1, capacity: 960, unit: 'GB' }
+        ]
+    };
+}
+
+// Poste de démontage (emplacement Inventory STORAGE)
+const bench = { warehouseId: 'wh-1', locationId: 'loc-bench' };
+
+const ramPart = (serialNumber: string): HarvestedPartDto => ({
+    serialNumber,
+    componentType: HardwareComponentType.RAM,
+    reference: 'DDR4-32G',
+    grade: AssetGrade.A,
+    capacity: 32,
+    unit: 'GB'
+});
+
+describe('AssetHarvestService', () => {
+    let service: AssetHarvestService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (mockPrisma.$transaction as jest.Mock).mockImplementation(
+            async (callback: (tx: PrismaClient) => Promise<unknown>) => callback(mockPrisma)
+        );
+        (mockPrisma.asset.findUnique as jest.Mock).mockResolvedValue(assetRecord());
+        (mockPrisma.asset.findMany as jest.Mock).mockResolvedValue([]);
+        (mockPrisma.asset.update as jest.Mock).mockImplementation(async ({ where, data }) =>
+            assetRecord({ id: where.id, status: data.status })
+        );
+        (mockPrisma.asset.create as jest.Mock).mockImplementation(async ({ data }) =>
+            assetRecord({ ...data, id: `part-${data.serialNumber}` })
+        );
+        (mockPrisma.assetStateHistory.create as jest.Mock).mockImplementation(async ({ data }) => ({
+            id: 'history-1',
+            reason: null,
+            reasonCode: null,
+            createdAt: new Date(),
+            ...data
+        }));
+        (mockPrisma.assetHardwareSpec.findFirst as jest.Mock).mockResolvedValue(donorSpec());
+        (mockPrisma.assetHardwareSpec.create as jest.Mock).mockImplementation(async ({ data }) => ({
+            id: `spec-${data.assetId}`,
+            assetId: data.assetId,
+            version: data.version,
+            source: data.source,
+            notes: data.notes,
+            createdAt: new Date(),
+            components: data.components.create.map((c: object, i: number) => ({ id: `c${i}`, ...c }))
+        }));
+        (mockInventoryClient.getReservation as jest.Mock).mockResolvedValue(null);
+        (mockInventoryClient.getLocations as jest.Mock).mockResolvedValue([
+            { id: 'loc-bench', warehouseId: 'wh-1', code: 'BENCH-01', type: 'STORAGE' },
+            { id: 'loc-ship', warehouseId: 'wh-1', code: 'DOCK-01', type: 'SHIPPING' }
+        ]);
+        (mockInventoryClient.moveAsset as jest.Mock).mockResolvedValue(undefined);
+        service = new AssetHarvestService(mockPrisma, mockQualityClient, mockInventoryClient);
+    });
+
+    test('should_scrap_donor_and_create_component_parts', async () => {
+        const result = await service.harvest('donor-1', {
+            reasonCode: 'BEYOND_REPAIR',
+            ...bench,
+            parts: [ramPart('SN-RAM-1'), ramPart('SN-RAM-2')]
+        });
+
+        expect(result.donor.status).toBe(AssetStatus.SCRAPPED);
+        expect(result.parts).toHaveLength(2);
+        expect(mockPrisma.asset.create).toHaveBeenCalledWith({
+            data: expect.objectContaining({
+                serialNumber: 'SN-RAM-1',
+                assetType: AssetType.COMPONENT,
+                componentType: HardwareComponentType.RAM,
+                model: 'DDR4-32G',
+                brand: 'Dell',
+                status: AssetStatus.SELLABLE,
+                grade: AssetGrade.A,
+                parentAssetId: 'donor-1'
+            })
+        });
+
+        // Une seule transaction : historique donneur + un historique et une spec par pièce
+        expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+        expect(mockPrisma.assetStateHistory.create).toHaveBeenCalledTimes(3);
+        expect(mockPrisma.assetHardwareSpec.create).toHaveBeenCalledTimes(2);
+        expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
+            expect.stringContaining('INSERT INTO "outbox_events"'),
+            expect.any(String),
+            'AssetStatusChanged',
+            1,
+            'asset-service',
+            'Asset',
+            'donor-1',
+            expect.any(String),
+            expect.any(String),
+            null,
+            expect.stringContaining('"newStatus":"SCRAPPED"')
+        );
+        expect(console.log).toHaveBeenCalledWith(expect.stringContaining('"message":"AssetHarvested"'));
+
+        // Entrée en stock au poste de démontage
+        expect(mockInventoryClient.moveAsset).toHaveBeenCalledWith('part-SN-RAM-1', 'loc-bench', 'INTAKE');
+        expect(mockInventoryClient.moveAsset).toHaveBeenCalledWith('part-SN-RAM-2', 'loc-bench', 'INTAKE');
+        expect(result.unstockedPartIds).toEqual([]);
+    });
+
+    test('should_reject_harvest_location_that_cannot_hold_stock', async () => {
+        await expect(
+            service.harvest('donor-1', {
+                reasonCode: 'BEYOND_REPAIR',
+                warehouseId: 'wh-1',
+                locationId: 'loc-ship',
+                parts: [ramPart('SN-RAM-1')]
+            })
+        ).rejects.toThrow(InvalidHarvestError);
+        await expect(
+            service.harvest('donor-1', {
+                reasonCode: 'BEYOND_REPAIR',
+                warehouseId: 'wh-1',
+                locationId: 'loc-unknown',
+                parts: [ramPart('SN-RAM-1')]
+            })
+        ).rejects.toThrow(InvalidHarvestError);
+        expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    test('should_report_parts_whose_stock_intake_failed', async () => {
+        jest.spyOn(console, 'error').mockImplementationOnce(() => { });
+        (mockInventoryClient.moveAsset as jest.Mock)
+            .mockResolvedValueOnce(undefined)
+            .mockRejectedValueOnce(new Error('Inventory unavailable'));
+
+        const result = await service.harvest('donor-1', {
+            reasonCode: 'BEYOND_REPAIR',
+            ...bench,
+            parts: [ramPart('SN-RAM-1'), ramPart('SN-RAM-2')]
+        });
+
+        // Récupération conservée, pièce à reprendre signalée
+        expect(result.parts).toHaveLength(2);
+        expect(result.unstockedPartIds).toEqual(['part-SN-RAM-2']);
+    });
+
+    test('should_reject_more_parts_than_donor_spec_declares', async () => {
+        await expect(
+            service.harvest('donor-1', {
+                reasonCode: 'BEYOND_REPAIR',
+                ...bench,
+                parts: [ramPart('SN-RAM-1'), ramPart('SN-RAM-2'), ramPart('SN-RAM-3')]
+            })
+        ).rejects.toThrow(InvalidHarvestError);
+        expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    test('should_allow_any_part_when_donor_has_no_spec', async () => {
+        (mockPrisma.assetHardwareSpec.findFirst as jest.Mock).mockResolvedValue(null);
+
+        const result = await service.harvest('donor-1', {
+            reasonCode: 'OBSOLETE',
+            ...bench,
+            parts: [{ serialNumber: 'SN-CPU-1', componentType: HardwareComponentType.CPU, reference: 'XEON-4214', grade: AssetGrade.B }]
+        });
+
+        expect(result.parts).toHaveLength(1);
+    });
+
+    test('should_reject_invalid_parts', async () => {
+        await expect(
+            service.harvest('donor-1', { reasonCode: 'BEYOND_REPAIR', ...bench, parts: [] })
+        ).rejects.toThrow(InvalidHarvestError);
+        await expect(
+            service.harvest('donor-1', { reasonCode: 'BEYOND_REPAIR', ...bench, parts: [ramPart('SN-X'), ramPart('SN-X')] })
+        ).rejects.toThrow(InvalidHarvestError);
+        await expect(
+            service.harvest('donor-1', {
+                reasonCode: 'BEYOND_REPAIR',
+                ...bench,
+                parts: [{ ...ramPart('SN-SCREEN'), componentType: HardwareComponentType.SCREEN }]
+            })
+        ).rejects.toThrow(InvalidHarvestError);
+    });
+
+    test('should_reject_harvesting_a_component', async () => {
+        (mockPrisma.asset.findUnique as jest.Mock).mockResolvedValue(
+            assetRecord({ assetType: AssetType.COMPONENT, status: AssetStatus.SELLABLE })
+        );
+
+        await expect(
+            service.harvest('donor-1', { reasonCode: 'BEYOND_REPAIR', ...bench, parts: [ramPart('SN-RAM-1')] })
+        ).rejects.toThrow(InvalidHarvestError);
+    });
+
+    test('should_reject_existing_part_serial_number', async () => {
+        (mockPrisma.asset.findMany as jest.Mock).mockResolvedValue([assetRecord({ serialNumber: 'SN-RAM-1' })]);
+
+        await expect(
+            service.harvest('donor-1', { reasonCode: 'BEYOND_REPAIR', ...bench, parts: [ramPart('SN-RAM-1')] })
+        ).rejects.toThrow(DuplicateSerialNumberError);
+    });
+
+    test('should_apply_scrap_transition_rules_to_donor', async () => {
+        await expect(
+            service.harvest('donor-1', { reasonCode: 'RMA_REPAIR', ...bench, parts: [ramPart('SN-RAM-1')] })
+        ).rejects.toThrow(ReasonCodeRequiredError);
+
+        (mockInventoryClient.getReservation as jest.Mock).mockResolvedValue({
+            id: 'res-1', assetId: 'donor-1', orderRef: 'ORD-1', createdAt: new Date().toISOString()
+        });
+        await expect(
+            service.harvest('donor-1', { reasonCode: 'BEYOND_REPAIR', ...bench, parts: [ramPart('SN-RAM-1')] })
+        ).rejects.toThrow(TransitionGuardFailedError);
+        expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,183 @@
+/**
+ * Hardware Spec Service Tests
+ * Tests unitaires pour la spec matérielle versionnée
+ */
+
+import { HardwareSpecService } from '../services/hardwareSpec.service';
+import { AssetService } from '../services/asset.service';
+import { AssetNotFoundError } from '../domain/asset.types';
+import {
+    HardwareSpecNotFoundError,
+    InvalidHardwareSpecError
+} from '../domain/hardwareSpec.types';
+import {
+    AssetStatus,
+    AssetType,
+    HardwareComponentType,
+    HardwareSpecSource,
+    PrismaClient
+} from '@prisma/client';
+
+// Mock du PrismaClient ($transaction exécute le callback avec le même mock)
+const mockPrisma = {
+    asset: {
+        create: jest.fn(),
+        findUnique: jest.fn()
+    },
+    assetStateHistory: {
+        create: jest.fn()
+    },
+    assetHardwareSpec: {
+        create: jest.fn(),
+        findFirst: jest.fn(),
+        findMany: jest.fn()
+    },
+    $executeRawUnsafe: jest.fn(),
+    $transaction: jest.fn()
+} as unknown as PrismaClient;
+
+jest.spyOn(console, 'log').mockImplementation(() => { });
+
+function assetRecord(status: AssetStatus = AssetStatus.ACQUIRED) {
+    return {
+        id: 'asset-1',
+        serialNumber: 'SN1',
+        assetType: AssetType.SERVER,
+        brand: 'Dell',
+        model: 'R740',
+        chassisRef: null,
+        status,
+        grade: null,
+        createdAt: new Date(),
+        updatedAt: new Date()
+    };
+}
+
+function specRecord(version: number, source: HardwareSpecSource) {
+    return {
+        id: `spec-${version}`,
+        assetId: 'asset-1',
+        version,
+        source,
+        notes: null,
+        createdAt: new Date(),
+        components: [
+            { id: 'c1', specId: `spec-${version}`, type: HardwareComponentType.CPU, reference: 'XEON-4214', quantity: 2, capacity: null, unit: null },
+            { id: 'c2', specId: `spec-${version}`, type: HardwareComponentType.RAM, reference: 'DDR4-32G', quantity: 4, capacity: 32, unit: 'GB' }
+        ]
+    };
+}
+
+const components = [
+    { type: HardwareComponentType.CPU, reference: 'XEON-4214', quantity: 2 },
+    { type: HardwareComponentType.RAM, reference: 'DDR4-32G', quantity: 8, capacity: 32, unit: 'GB' }
+];
+
+describe('HardwareSpecService', () => {
+    let service: HardwareSpecService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (mockPrisma.$transaction as jest.Mock).mockImplementation(
+            async (callback: (tx: PrismaClient) => Promise<unknown>) => callback(mockPrisma)
+        );
+        (mockPrisma.assetHardwareSpec.create as jest.Mock).mockImplementation(async ({ data }) => ({
+            id: `spec-${data.version}`,
+            assetId: data.assetId,
+            version: data.version,
+            source: data.source,
+            notes: data.notes,
+            createdAt: new Date(),
+            components: data.components.create.map((c: object, i: number) => ({ id: `c${i}`, ...c }))
+        }));
+        service = new HardwareSpecService(mockPrisma);
+    });
+
+    describe('recordSpec', () => {
+        test('should_create_next_version_on_refurb', async () => {
+            (mockPrisma.asset.findUnique as jest.Mock).mockResolvedValue(assetRecord(AssetStatus.IN_REFURB));
+            (mockPrisma.assetHardwareSpec.findFirst as jest.Mock).mockResolvedValue(specRecord(1, HardwareSpecSource.INTAKE));
+
+            const spec = await service.recordSpec('asset-1', { source: HardwareSpecSource.REFURB, components });
+
+            expect(spec.version).toBe(2);
+            expect(spec.components).toHaveLength(2);
+            expect(console.log).toHaveBeenCalledWith(expect.stringContaining('"message":"HardwareSpecRecorded"'));
+        });
+
+        test('should_reject_refurb_spec_outside_workshop', async () => {
+            (mockPrisma.asset.findUnique as jest.Mock).mockResolvedValue(assetRecord(AssetStatus.SELLABLE));
+            (mockPrisma.assetHardwareSpec.findFirst as jest.Mock).mockResolvedValue(specRecord(1, HardwareSpecSource.INTAKE));
+
+            await expect(
+                service.recordSpec('asset-1', { source: HardwareSpecSource.REFURB, components })
+            ).rejects.toThrow(InvalidHardwareSpecError);
+            expect(mockPrisma.assetHardwareSpec.create).not.toHaveBeenCalled();
+        });
+
+        test('should_reject_second_intake_spec', async () => {
+            (mockPrisma.asset.findUnique as jest.Mock).mockResolvedValue(assetRecord());
+            (mockPrisma.assetHardwareSpec.findFirst as jest.Mock).mockResolvedValue(specRecord(1, HardwareSpecSource.INTAKE));
+
+            await expect(
+                service.recordSpec('asset-1', { source: HardwareSpecSource.INTAKE, components })
+            ).rejects.toThrow(InvalidHardwareSpecError);
+        });
+
+        test('should_reject_invalid_components', async () => {
+            (mockPrisma.asset.findUnique as jest.Mock).mockResolvedValue(assetRecord());
+
+            await expect(
+                service.recordSpec('asset-1', { source: HardwareSpecSource.CORRECTION, components: [] })
+            ).rejects.toThrow(InvalidHardwareSpecError);
+            await expect(
+                service.recordSpec('asset-1', {
+                    source: HardwareSpecSource.CORRECTION,
+                    components: [{ type: HardwareComponentType.RAM, reference: 'DDR4-32G', quantity: 0 }]
+                })
+            ).rejects.toThrow(InvalidHardwareSpecError);
+        });
+
+        test('should_throw_when_asset_not_found', async () => {
+            (mockPrisma.asset.findUnique as jest.Mock).mockResolvedValue(null);
+
+            await expect(
+                service.recordSpec('missing', { source: HardwareSpecSource.INTAKE, components })
+            ).rejects.toThrow(AssetNotFoundError);
+        });
+    });
+
+    describe('getCurrentSpec', () => {
+        test('should_throw_when_no_spec_recorded', async () => {
+            (mockPrisma.asset.findUnique as jest.Mock).mockResolvedValue(assetRecord());
+            (mockPrisma.assetHardwareSpec.findFirst as jest.Mock).mockResolvedValue(null);
+
+            await expect(service.getCurrentSpec('asset-1')).rejects.toThrow(HardwareSpecNotFoundError);
+        });
+    });
+
+    describe('AssetService.createAsset with intake spec', () => {
+        test('should_record_intake_spec_as_version_1', async () => {
+            (mockPrisma.asset.findUnique as jest.Mock).mockResolvedValue(null);
+            (mockPrisma.asset.create as jest.Mock).mockResolvedValue(assetRecord());
+            (mockPrisma.assetStateHistory.create as jest.Mock).mockResolvedValue({});
+
+            await new AssetService(mockPrisma).createAsset({
+                serialNumber: 'SN1',
+                assetType: AssetType.SERVER,
+                brand: 'Dell',
+                model: 'R740',
+                components
+            });
+
+            expect(mockPrisma.assetHardwareSpec.create).toHaveBeenCalledWith(expect.objectContaining({
+                data: expect.objectContaining({ assetId: 'asset-1', version: 1, source: HardwareSpecSource.INTAKE })
+            }));
+
+            // AssetCreated puis HardwareSpecRecorded, dans la transaction de création
+            expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+            const published = (mockPrisma.$executeRawUnsafe as jest.Mock).mock.calls.map(call => call[2]);
+            expect(published).toEqual(['AssetCreated', 'HardwareSpecRecorded']);
+        });
+    });
+});
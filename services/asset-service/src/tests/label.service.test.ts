@@ -0,0 +1,234 @@
+/**
+ * Label Service Tests
+ * Tests unitaires pour la génération d'étiquettes et le journal d'impression
+ */
+
+import { LabelService } from '../services/label.service';
+import { renderZplLabel } from '../utils/labelRenderer';
+import { AssetNotFoundError } from '../domain/asset.types';
+import {
+    InvalidLabelRequestError,
+    ReprintReasonRequiredError
+} from '../domain/label.types';
+import { ProcurementServiceClient } from '../integrations/procurement.client';
+import { InventoryServiceClient } from '../integrations/inventory.client';
+import {
+    AssetStatus,
+    AssetType,
+    LabelFormat,
+    LabelTargetType,
+    PrismaClient
+} from '@prisma/client';
+
+// Mock du PrismaClient ($transaction exécute le callback avec le même mock)
+const mockPrisma = {
+    asset: {
+        findUnique: jest.fn(),
+        findMany: jest.fn()
+    },
+    labelPrintLog: {
+        createMany: jest.fn(),
+        findMany: jest.fn()
+    },
+    $executeRawUnsafe: jest.fn(),
+    $transaction: jest.fn()
+} as unknown as PrismaClient;
+
+const mockProcurementClient: ProcurementServiceClient = {
+    getLotItems: jest.fn()
+};
+
+const mockInventoryClient: InventoryServiceClient = {
+    getReservation: jest.fn(),
+    getLocations: jest.fn(),
+    moveAsset: jest.fn()
+};
+
+jest.spyOn(console, 'log').mockImplementation(() => { });
+
+function assetRecord(id: string, serialNumber: string) {
+    return {
+        id,
+        serialNumber,
+        assetType: AssetType.SERVER,
+        brand: 'Dell',
+        model: 'R740',
+        chassisRef: null,
+        status: AssetStatus.ACQUIRED,
+        grade: null,
+        createdAt: new Date(),
+        updatedAt: new Date()
+    };
+}
+
+describe('LabelService', () => {
+    let service: LabelService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (mockPrisma.$transaction as jest.Mock).mockImplementation(
+            async (callback: (tx: PrismaClient) => Promise<unknown>) => callback(mockPrisma)
+        );
+        (mockPrisma.labelPrintLog.findMany as jest.Mock).mockResolvedValue([]);
+        (mockPrisma.labelPrintLog.createMany as jest.Mock).mockResolvedValue({ count: 1 });
+        service = new LabelService(mockPrisma, mockProcurementClient, mockInventoryClient);
+    });
+
+    describe('renderZplLabel', () => {
+        test('should_encode_barcode_and_qr_payloads', () => {
+            const zpl = renderZplLabel({
+                targetType: LabelTargetType.ASSET,
+                targetId: 'asset-1',
+                title: 'Dell R740',
+                lines: ['N° série : SN1'],
+                barcode: 'asset-1',
+                qr: 'PIM:ASSET:asset-1:SN1'
+            });
+
+            expect(zpl.startsWith('^XA')).toBe(true);
+            expect(zpl.endsWith('^XZ')).toBe(true);
+            expect(zpl).toContain('^BCN,100,Y,N,N^FDasset-1^FS');
+            expect(zpl).toContain('^BQN,2,5^FDQA,PIM:ASSET:asset-1:SN1^FS');
+        });
+
+        test('should_strip_zpl_control_characters_from_fields', () => {
+            const zpl = renderZplLabel({
+                targetType: LabelTargetType.ASSET,
+                targetId: 'asset-1',
+                title: 'Evil^XZ~JA',
+                lines: [],
+                barcode: 'asset-1',
+                qr: 'qr'
+            });
+
+            expect(zpl).toContain('^FDEvil XZ JA^FS');
+            expect(zpl.match(/\^XZ/g)).toHaveLength(1);
+        });
+    });
+
+    describe('printAssetLabel', () => {
+        test('should_render_zpl_and_log_first_print', async () => {
+            (mockPrisma.asset.findUnique as jest.Mock).mockResolvedValue(assetRecord('asset-1', 'SN1'));
+
+            const result = await service.printAssetLabel('asset-1', { format: LabelFormat.ZPL, printedBy: 'op-1' });
+
+            expect(result.contentType).toContain('text/plain');
+            expect(result.count).toBe(1);
+            expect(result.content.toString()).toContain('^FDasset-1^FS');
+            expect(mockPrisma.labelPrintLog.createMany).toHaveBeenCalledWith({
+                data: [expect.objectContaining({
+                    targetType: LabelTargetType.ASSET,
+                    targetId: 'asset-1',
+                    code: 'asset-1',
+                    reprint: false,
+                    reason: null,
+                    printedBy: 'op-1'
+                })]
+            });
+        });
+
+        test('should_render_pdf', async () => {
+            (mockPrisma.asset.findUnique as jest.Mock).mockResolvedValue(assetRecord('asset-1', 'SN1'));
+
+            const result = await service.printAssetLabel('asset-1', { format: LabelFormat.PDF });
+
+            expect(result.contentType).toBe('application/pdf');
+            expect(result.content.subarray(0, 5).toString()).toBe('%PDF-');
+        });
+
+        test('should_require_reason_for_reprint', async () => {
+            (mockPrisma.asset.findUnique as jest.Mock).mockResolvedValue(assetRecord('asset-1', 'SN1'));
+            (mockPrisma.labelPrintLog.findMany as jest.Mock).mockResolvedValue([{ targetId: 'asset-1' }]);
+
+            await expect(
+                service.printAssetLabel('asset-1', { format: LabelFormat.ZPL })
+            ).rejects.toThrow(ReprintReasonRequiredError);
+            expect(mockPrisma.labelPrintLog.createMany).not.toHaveBeenCalled();
+        });
+
+        test('should_log_reprint_with_reason', async () => {
+            (mockPrisma.asset.findUnique as jest.Mock).mockResolvedValue(assetRecord('asset-1', 'SN1'));
+            (mockPrisma.labelPrintLog.findMany as jest.Mock).mockResolvedValue([{ targetId: 'asset-1' }]);
+
+            await service.printAssetLabel('asset-1', { format: LabelFormat.ZPL, reason: 'Étiquette abîmée' });
+
+            expect(mockPrisma.labelPrintLog.createMany).toHaveBeenCalledWith({
+                data: [expect.objectContaining({ reprint: true, reason: 'Étiquette abîmée' })]
+            });
+        });
+
+        test('should_reject_unknown_format', async () => {
+            (mockPrisma.asset.findUnique as jest.Mock).mockResolvedValue(assetRecord('asset-1', 'SN1'));
+
+            await expect(
+                service.printAssetLabel('asset-1', { format: 'PNG' as LabelFormat })
+            ).rejects.toThrow(InvalidLabelRequestError);
+        });
+
+        test('should_throw_when_asset_not_found', async () => {
+            (mockPrisma.asset.findUnique as jest.Mock).mockResolvedValue(null);
+
+            await expect(
+                service.printAssetLabel('missing', { format: LabelFormat.ZPL })
+            ).rejects.toThrow(AssetNotFoundError);
+        });
+    });
+
+    describe('printLotLabels', () => {
+        test('should_print_all_lot_assets_in_lot_order', async () => {
+            (mockProcurementClient.getLotItems as jest.Mock).mockResolvedValue([
+                { id: 'i1', lotId: 'lot-1', assetId: 'asset-2', createdAt: '' },
+                { id: 'i2', lotId: 'lot-1', assetId: 'asset-1', createdAt: '' }
+            ]);
+            (mockPrisma.asset.findMany as jest.Mock).mockResolvedValue([
+                assetRecord('asset-1', 'SN1'),
+                assetRecord('asset-2', 'SN2')
+            ]);
+
+            const result = await service.printLotLabels('lot-1', { format: LabelFormat.ZPL });
+            const zpl = result.content.toString();
+
+            expect(result.count).toBe(2);
+            expect(zpl.indexOf('SN2')).toBeLessThan(zpl.indexOf('SN1'));
+            expect(mockPrisma.labelPrintLog.createMany).toHaveBeenCalledWith({
+                data: [
+                    expect.objectContaining({ targetId: 'asset-2', batchRef: 'LOT:lot-1' }),
+                    expect.objectContaining({ targetId: 'asset-1', batchRef: 'LOT:lot-1' })
+                ]
+            });
+        });
+
+        test('should_reject_empty_lot', async () => {
+            (mockProcurementClient.getLotItems as jest.Mock).mockResolvedValue([]);
+
+            await expect(
+                service.printLotLabels('lot-1', { format: LabelFormat.ZPL })
+            ).rejects.toThrow(InvalidLabelRequestError);
+        });
+    });
+
+    describe('printLocationLabels', () => {
+        const locations = [
+            { id: 'loc-1', warehouseId: 'wh-1', code: 'A-01-01', type: 'STORAGE' },
+            { id: 'loc-2', warehouseId: 'wh-1', code: 'A-01-02', type: 'STORAGE' }
+        ];
+
+        test('should_encode_location_code_in_barcode', async () => {
+            (mockInventoryClient.getLocations as jest.Mock).mockResolvedValue(locations);
+
+            const result = await service.printLocationLabels('wh-1', ['loc-2'], { format: LabelFormat.ZPL });
+
+            expect(result.count).toBe(1);
+            expect(result.content.toString()).toContain('^BCN,100,Y,N,N^FDA-01-02^FS');
+            expect(result.content.toString()).toContain('PIM:LOCATION:wh-1:loc-2:A-01-02');
+        });
+
+        test('should_reject_location_outside_warehouse', async () => {
+            (mockInventoryClient.getLocations as jest.Mock).mockResolvedValue(locations);
+
+            await expect(
+                service.printLocationLabels('wh-1', ['loc-9'], { format: LabelFormat.ZPL })
+            ).rejects.toThrow(InvalidLabelRequestError);
+        });
+    });
+});
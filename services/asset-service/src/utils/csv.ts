@@ -0,0 +1,82 @@
+/**
+ * CSV Utility
+ * Parseur CSV minimal (RFC 4180) pour les imports de lots
+ *
+ * - Séparateur détecté sur l'en-tête : ',' ou ';' (exports Excel FR)
+ * - Champs entre guillemets, guillemets doublés ("") échappés
+ * - Lignes vides ignorées
+ */
+
+/**
+ * Découpe le texte en lignes de champs
+ */
+function tokenize(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    row.push(field);
+    rows.push(row);
+
+    return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Parse un CSV avec en-tête en liste d'objets clé/valeur
+ *
+ * @param text - Contenu CSV
+ * @returns Une entrée par ligne de données, clés = colonnes de l'en-tête
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+    const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+    const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+    const [header, ...rows] = tokenize(text.replace(/^\uFEFF/, ''), delimiter);
+    if (!header) {
+        return [];
+    }
+
+    const columns = header.map(column => column.trim());
+
+    return rows.map(values => {
+        const record: Record<string, string> = {};
+        columns.forEach((column, index) => {
+            const value = values[index]?.trim();
+            if (column && value) {
+                record[column] = value;
+            }
+        });
+        return record;
+    });
+}
@@ -0,0 +1,89 @@
+/**
+ * Label Renderer
+ * Rendu des étiquettes 4" x 2" en ZPL (imprimantes thermiques) ou PDF
+ *
+ * - ZPL : 203 dpi (812 x 406 points), Code128 + QR natifs de l'imprimante
+ * - PDF : une page par étiquette, codes générés en PNG (bwip-js)
+ */
+
+import PDFDocument from 'pdfkit';
+import bwipjs from 'bwip-js';
+import { LabelData } from '../domain/label.types';
+
+const ZPL_WIDTH = 812;
+const ZPL_HEIGHT = 406;
+
+// 4" x 2" en points PDF (72 / pouce)
+const PDF_PAGE_SIZE: [number, number] = [288, 144];
+const PDF_MARGIN = 8;
+
+/**
+ * Neutralise les caractères de commande ZPL (^ et ~) dans un champ
+ */
+function zplField(value: string): string {
+    return value.replace(/[\^~]/g, ' ');
+}
+
+/**
+ * Rend une étiquette en ZPL II
+ */
+export function renderZplLabel(label: LabelData): string {
+    const commands = [
+        '^XA',
+        '^CI28',                                    // UTF-8
+        `^PW${ZPL_WIDTH}`,
+        `^LL${ZPL_HEIGHT}`,
+        `^FO30,25^A0N,34,34^FD${zplField(label.title)}^FS`
+    ];
+
+    label.lines.slice(0, 4).forEach((line, index) => {
+        commands.push(`^FO30,${75 + index * 32}^A0N,26,26^FD${zplField(line)}^FS`);
+    });
+
+    commands.push(
+        `^FO30,230^BY1^BCN,100,Y,N,N^FD${zplField(label.barcode)}^FS`,
+        `^FO620,30^BQN,2,5^FDQA,${zplField(label.qr)}^FS`,
+        '^XZ'
+    );
+
+    return commands.join('\n');
+}
+
+/**
+ * Rend un lot d'étiquettes en ZPL (une étiquette ^XA..^XZ par cible)
+ */
+export function renderZpl(labels: LabelData[]): Buffer {
+    return Buffer.from(labels.map(renderZplLabel).join('\n') + '\n', 'utf-8');
+}
+
+/**
+ * Rend un lot d'étiquettes en PDF (une page par étiquette)
+ */
+export async function renderPdf(labels: LabelData[]): Promise<Buffer> {
+    const doc = new PDFDocument({ size: PDF_PAGE_SIZE, margin: PDF_MARGIN, autoFirstPage: false });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+    for (const label of labels) {
+        const [barcode, qr] = await Promise.all([
+            bwipjs.toBuffer({ bcid: 'code128', text: label.barcode, scale: 2, height: 10, includetext: true, textxalign: 'center' }),
+            bwipjs.toBuffer({ bcid: 'qrcode', text: label.qr, scale: 2 })
+        ]);
+
+        doc.addPage();
+        doc.fontSize(10).text(label.title, PDF_MARGIN, PDF_MARGIN, { width: 190 });
+        doc.fontSize(7);
+        for (const line of label.lines.slice(0, 4)) {
+            doc.text(line, { width: 190 });
+        }
+        doc.image(barcode, PDF_MARGIN, 84, { fit: [196, 52] });
+        doc.image(qr, 212, PDF_MARGIN, { fit: [68, 68] });
+    }
+
+    doc.end();
+
+    await new Promise<void>((resolve) => doc.on('end', resolve));
+
+    return Buffer.concat(chunks);
+}
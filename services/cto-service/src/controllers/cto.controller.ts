@@ -21,12 +21,14 @@ import { InventoryServiceError } from '../integrations/inventory.client';
 import { AssetServiceError } from '../integrations/asset.client';
 
 export class CtoController {
+    private readonly prisma: PrismaClient;
     private readonly validationService: CtoValidationService;
     private readonly pricingService: CtoPricingService;
     private readonly leadTimeService: CtoLeadTimeService;
     private readonly configurationRepository: ConfigurationRepository;
 
     constructor(prisma: PrismaClient) {
+        this.prisma = prisma;
         this.validationService = new CtoValidationService(prisma);
         this.pricingService = new CtoPricingService(prisma);
         this.leadTimeService = new CtoLeadTimeService(prisma);
@@ -54,15 +56,21 @@ export class CtoController {
                 res.status(400).json({ error: 'ValidationError', message: 'components array is required' });
                 return;
             }
+            if (dto.delivery !== undefined && !dto.delivery?.country) {
+                res.status(400).json({ error: 'ValidationError', message: 'delivery.country is required' });
+                return;
+            }
 
             // 1-3. Validation (Asset SELLABLE + RuleSet + Rules)
             const validationResult = await this.validationService.validate(dto);
 
             if (!validationResult.valid || !validationResult.ruleSet) {
-                emitCtoRejected(dto.assetId, validationResult.errors);
+                await emitCtoRejected(this.prisma, dto.assetId, validationResult.errors);
                 const result: CtoValidationResult = {
                     valid: false,
-                    errors: validationResult.errors
+                    errors: validationResult.errors,
+                    baselineSpecVersion: validationResult.baseline?.version,
+                    changes: validationResult.changes
                 };
                 res.status(422).json(result);
                 return;
@@ -76,33 +84,41 @@ export class CtoController {
                 dto.components
             );
 
-            // 6. Calculer lead time
-            const leadTimeDays = await this.leadTimeService.calculateLeadTime(
+            // 6. Calculer lead time (assemblage + transport si destination)
+            const leadTime = await this.leadTimeService.estimateLeadTime(
                 ruleSetId,
-                dto.components
-            );
-
-            // 7. Créer CtoConfiguration (validated = true)
-            const configuration = await this.configurationRepository.create(
                 dto.assetId,
                 dto.components,
-                priceSnapshot,
-                leadTimeDays,
-                ruleSetId
+                dto.delivery
             );
+            const leadTimeDays = leadTime.leadTimeDays;
+
+            // 7. Créer CtoConfiguration (validated = true)
+            // 8. Émettre événement (même transaction)
+            const configuration = await this.prisma.$transaction(async (tx) => {
+                const created = await new ConfigurationRepository(tx).create(
+                    dto.assetId,
+                    dto.components,
+                    priceSnapshot,
+                    leadTimeDays,
+                    ruleSetId
+                );
+                await emitCtoValidated(tx, created);
+                return created;
+            });
 
             // Générer l'ordre d'assemblage
             const assemblyOrder = this.validationService.generateAssemblyOrder(dto);
 
-            // 8. Émettre événement
-            emitCtoValidated(configuration);
-
             const result: CtoValidationResult = {
                 valid: true,
                 configurationId: configuration.id,
                 errors: [],
+                baselineSpecVersion: validationResult.baseline?.version,
+                changes: validationResult.changes,
                 priceSnapshot,
                 leadTimeDays,
+                leadTime,
                 assemblyOrder
             };
             res.status(201).json(result);
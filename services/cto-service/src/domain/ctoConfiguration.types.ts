@@ -10,6 +10,8 @@ export interface CtoComponent {
     type: string;
     reference: string;
     quantity: number;
+    sourceAssetIds?: string[];  // Pièces récupérées consommées (assets COMPONENT)
+    attributes?: Record<string, string | number | boolean>;  // Ex: socket, generation, capacityGb, tdpW
 }
 
 /**
@@ -19,6 +21,42 @@ export interface ValidateCtoDto {
     assetId: string;
     productModel: string;
     components: CtoComponent[];
+    delivery?: CtoDeliveryDto;      // Lead time livraison incluse si fourni
+}
+
+/**
+ * Destination de livraison (matrice de transport Inventory)
+ */
+export interface CtoDeliveryDto {
+    country: string;
+    postcode?: string;
+    serviceLevel?: string;          // ECONOMY | STANDARD | EXPRESS
+}
+
+/**
+ * Lead time détaillé : assemblage puis transport
+ */
+export interface CtoLeadTimeEstimate {
+    leadTimeDays: number;           // Jours ouvrés jusqu'à livraison (ou fin d'assemblage sans destination)
+    assemblyDays: number;
+    transitDays?: number;
+    estimatedDeliveryDate?: string;
+}
+
+/**
+ * Nature d'un changement par rapport à la spec matérielle de l'asset
+ */
+export type CtoChangeKind = 'ADDED' | 'REMOVED' | 'QUANTITY_CHANGED';
+
+/**
+ * Changement demandé par rapport à la configuration de base
+ */
+export interface CtoComponentChange {
+    type: string;
+    reference: string;
+    change: CtoChangeKind;
+    baselineQuantity: number;
+    requestedQuantity: number;
 }
 
 /**
@@ -28,8 +66,11 @@ export interface CtoValidationResult {
     valid: boolean;
     configurationId?: string;
     errors: CtoValidationError[];
+    baselineSpecVersion?: number;       // Version de la spec matérielle de base
+    changes?: CtoComponentChange[];
     priceSnapshot?: PriceSnapshot;
     leadTimeDays?: number;
+    leadTime?: CtoLeadTimeEstimate;
     assemblyOrder?: AssemblyOrder;
 }
 
@@ -14,7 +14,8 @@ export type RuleLogicType =
     | 'EXCLUSION'         // Composants mutuellement exclusifs
     | 'QUANTITY'          // Contrainte de quantité
     | 'POWER'             // Contrainte d'alimentation
-    | 'THERMAL';          // Contrainte thermique
+    | 'THERMAL'           // Contrainte thermique
+    | 'EXPRESSION';       // Condition en langage de règles (logic.expression)
 
 /**
  * Logique structurée d'une règle (JSON stocké en BDD)
@@ -24,6 +25,7 @@ export interface RuleLogic {
     conditions: RuleCondition[];
     action: 'BLOCK' | 'WARN';
     message: string;  // Template avec placeholders
+    expression?: string;  // Obligatoire pour EXPRESSION (ex: "sum(RAM.capacityGb) <= 512")
 }
 
 /**
@@ -15,6 +15,7 @@ import { ExplanationSeverity } from './ctoDecision.types';
 export interface SimulationRequestDto {
     baseConfigurationId?: string;   // Config existante (optionnel)
     components: CtoComponent[];     // Composants à simuler
+    productModel?: string;          // Modèle produit (identifiant model des règles EXPRESSION)
 }
 
 /**
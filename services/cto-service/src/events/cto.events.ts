@@ -1,10 +1,19 @@
 /**
  * CTO Events
- * Émission d'événements domaine avec logger structuré
+ * Émission d'événements domaine (outbox transactionnelle + logger structuré)
+ *
+ * RÈGLE : chaque émetteur s'appelle dans la transaction du changement métier
  */
 
+import { Prisma } from '@prisma/client';
 import { CtoConfigurationEntity, CtoValidationError } from '../domain/ctoConfiguration.types';
 import { logger } from '../utils/logger';
+import { createServiceOutbox } from '@proinfo/shared';
+
+/**
+ * Outbox du service : chaque émetteur y écrit dans la transaction métier (tx)
+ */
+export const outbox = createServiceOutbox('cto-service');
 
 /**
  * Événement : CTO validé
@@ -38,23 +47,42 @@ export interface CtoRejectedEvent {
 /**
  * Émet l'événement CtoValidated
  */
-export function emitCtoValidated(config: CtoConfigurationEntity): void {
-    logger.event('CtoValidated', {
+export async function emitCtoValidated(tx: Prisma.TransactionClient, config: CtoConfigurationEntity): Promise<void> {
+    const payload = {
         configurationId: config.id,
         assetId: config.assetId,
         priceTotal: config.priceSnapshot.total,
         leadTimeDays: config.leadTimeDays,
         ruleSetId: config.ruleSetId
+    };
+    await outbox.publish(tx, {
+        type: 'CtoValidated',
+        aggregateType: 'CtoConfiguration',
+        aggregateId: config.id,
+        payload
     });
+    logger.event('CtoValidated', payload);
 }
 
 /**
  * Émet l'événement CtoRejected
+ *
+ * Un rejet n'écrit rien : `db` peut être le client hors transaction
  */
-export function emitCtoRejected(assetId: string, errors: CtoValidationError[]): void {
-    logger.event('CtoRejected', {
+export async function emitCtoRejected(
+    db: Prisma.TransactionClient,
+    assetId: string,
+    errors: CtoValidationError[]
+): Promise<void> {
+    const payload = {
         assetId,
         errors: errors.map(e => ({ rule: e.rule, message: e.message }))
-
+    };
+    await outbox.publish(db, {
+        type: 'CtoRejected',
+        aggregateType: 'Asset',
+        aggregateId: assetId,
+        payload
     });
+    logger.event('CtoRejected', payload);
 }
@@ -15,10 +15,36 @@ export interface AssetServiceResponse {
     chassisRef: string | null;
     status: string;
     grade: string | null;
+    parentAssetId?: string | null;      // Donneur (pièce récupérée)
+    componentType?: string | null;      // Type de pièce (assetType COMPONENT)
     createdAt: string;
     updatedAt: string;
 }
 
+/**
+ * Composant de la spec matérielle d'un asset
+ */
+export interface AssetHardwareComponentResponse {
+    type: string;           // CPU, RAM, STORAGE, GPU, SCREEN
+    reference: string;
+    quantity: number;
+    capacity: number | null;
+    unit: string | null;
+}
+
+/**
+ * Spec matérielle courante d'un asset (configuration de base CTO)
+ */
+export interface AssetHardwareSpecResponse {
+    id: string;
+    assetId: string;
+    version: number;
+    source: string;
+    notes: string | null;
+    createdAt: string;
+    components: AssetHardwareComponentResponse[];
+}
+
 /**
  * Erreur lors de l'appel à l'Asset Service
  */
@@ -37,6 +63,7 @@ export class AssetServiceError extends Error {
  */
 export interface AssetServiceClient {
     getAsset(assetId: string): Promise<AssetServiceResponse>;
+    getHardwareSpec(assetId: string): Promise<AssetHardwareSpecResponse | null>;
 }
 
 /**
@@ -65,4 +92,26 @@ export class HttpAssetServiceClient implements AssetServiceClient {
 
         return response.json() as Promise<AssetServiceResponse>;
     }
+
+    /**
+     * Récupère la spec matérielle courante
+     * null si aucune spec n'est enregistrée (asset antérieur à la saisie)
+     */
+    async getHardwareSpec(assetId: string): Promise<AssetHardwareSpecResponse | null> {
+        const response = await fetch(`${this.baseUrl}/assets/${assetId}/hardware-spec`, {
+            method: 'GET',
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+        if (response.status === 404) {
+            return null;
+        }
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            throw new AssetServiceError(response.status, errorBody);
+        }
+
+        return response.json() as Promise<AssetHardwareSpecResponse>;
+    }
 }
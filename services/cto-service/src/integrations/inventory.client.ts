@@ -14,6 +14,34 @@ export interface AvailabilityResponse {
     reserved: boolean;
 }
 
+/**
+ * Paramètres d'un devis de transport
+ */
+export interface TransitQuoteParams {
+    assetId: string;                // L'entrepôt d'origine est celui de l'asset
+    destinationCountry: string;
+    postcode?: string;
+    serviceLevel?: string;
+    processingDays?: number;        // Assemblage + QA avant départ
+}
+
+/**
+ * Devis de transport (matrice de l'Inventory Service)
+ */
+export interface TransitQuoteResponse {
+    originWarehouseId: string;
+    originCountry: string;
+    destinationCountry: string;
+    serviceLevel: string;
+    source: 'MATRIX' | 'DEFAULT';
+    processingDays: number;
+    transitDays: number;
+    estimatedDelay: number;
+    shipDate: string;
+    estimatedDeliveryDate: string;
+    reasons: string[];
+}
+
 /**
  * Erreur lors de l'appel à l'Inventory Service
  */
@@ -33,6 +61,7 @@ export class InventoryServiceError extends Error {
 export interface InventoryServiceClient {
     checkAvailability(assetId: string): Promise<AvailabilityResponse>;
     reserveAsset(assetId: string, orderRef: string): Promise<void>;
+    quoteTransit(params: TransitQuoteParams): Promise<TransitQuoteResponse>;
 }
 
 /**
@@ -77,4 +106,30 @@ export class HttpInventoryServiceClient implements InventoryServiceClient {
             throw new InventoryServiceError(response.status, errorBody);
         }
     }
+
+    /**
+     * Devis de transport depuis l'entrepôt de l'asset
+     * (même matrice que le routage des commandes)
+     */
+    async quoteTransit(params: TransitQuoteParams): Promise<TransitQuoteResponse> {
+        const query = new URLSearchParams({
+            assetId: params.assetId,
+            destinationCountry: params.destinationCountry
+        });
+        if (params.postcode) query.set('postcode', params.postcode);
+        if (params.serviceLevel) query.set('serviceLevel', params.serviceLevel);
+        if (params.processingDays !== undefined) query.set('processingDays', String(params.processingDays));
+
+        const response = await fetch(`${this.baseUrl}/inventory/transit-times/quote?${query.toString()}`, {
+            method: 'GET',
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            throw new InventoryServiceError(response.status, errorBody);
+        }
+
+        return response.json() as Promise<TransitQuoteResponse>;
+    }
 }
@@ -3,7 +3,7 @@
  * Couche d'accès aux données pour les configurations CTO
  */
 
-import { PrismaClient, CtoConfiguration } from '@prisma/client';
+import { Prisma, PrismaClient, CtoConfiguration } from '@prisma/client';
 import {
     CtoConfigurationEntity,
     CtoComponent,
@@ -11,7 +11,8 @@ import {
 } from '../domain/ctoConfiguration.types';
 
 export class ConfigurationRepository {
-    constructor(private readonly prisma: PrismaClient) { }
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: PrismaClient | Prisma.TransactionClient) { }
 
     /**
      * Crée une configuration validée
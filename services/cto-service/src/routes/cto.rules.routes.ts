@@ -9,6 +9,7 @@ import { Router, Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { CtoRuleEngineService } from '../services/ctoRuleEngine.service';
 import { CreateRuleVersionDto, RuleLogic } from '../domain/ctoRule.types';
+import { RuleExpressionError } from '../rules/rule.types';
 
 export function createCtoRulesRoutes(prisma: PrismaClient): Router {
     const router = Router();
@@ -67,6 +68,14 @@ export function createCtoRulesRoutes(prisma: PrismaClient): Router {
                 message: `Rule version created: ${dto.ruleId}@v${ruleVersion.version}`
             });
         } catch (error: any) {
+            if (error instanceof RuleExpressionError) {
+                res.status(400).json({
+                    success: false,
+                    error: error.message,
+                    position: error.position
+                });
+                return;
+            }
             console.error('[CTO] Error creating rule version:', error);
             res.status(500).json({
                 success: false,
@@ -32,7 +32,8 @@ export function createCtoSimulationRoutes(prisma: PrismaClient): Router {
         try {
             const dto: SimulationRequestDto = {
                 baseConfigurationId: req.body.baseConfigurationId,
-                components: req.body.components || []
+                components: req.body.components || [],
+                productModel: req.body.productModel
             };
 
             const result = await simulationService.simulate(dto);
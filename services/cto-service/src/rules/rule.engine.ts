@@ -3,6 +3,21 @@
  * Moteur d'évaluation des règles CTO
  * 
  * DÉTERMINISTE : Le moteur applique les règles, il ne les invente pas.
+ *
+ * Langage de règles (règles EXPRESSION) :
+ *   model == "R740" implies count(CPU) <= 2
+ *   sum(RAM.capacityGb) <= 24 * max(RAM.capacityGb)
+ *   sum(PSU.wattage) >= sum(*.tdpW)
+ *   all(CPU, socket == "LGA3647") and distinct(RAM.generation) <= 1
+ *   any(SSD, interface in ["NVME"]) implies count(RAID) >= 1
+ *
+ * - count(T) : quantité totale ; sum(T.a) : somme de a × quantité ;
+ *   min / max (0 sans composant), distinct : nombre de valeurs de a ;
+ *   T = type de composant, * = tous (ceux qui portent l'attribut a)
+ * - all(T, condition) / any(T, condition) : condition évaluée par composant,
+ *   sur reference, quantity, type et ses attributs
+ * - and, or, not, implies ; == != < <= > >= (≤ ≥ ≠) ; + - * / (×) ; in [...]
+ * - Types vérifiés à la compilation ; attribut absent sur T.a ou non numérique → règle en échec
  */
 
 import { RuleType } from '@prisma/client';
@@ -13,7 +28,20 @@ import {
     QuantityRulePayload,
     DependencyRulePayload,
     ExclusionRulePayload,
-    RuleEvaluationResult
+    ExpressionRulePayload,
+    RuleEvaluationResult,
+    RuleExpression,
+    CompiledRuleExpression,
+    RuleExpressionContext,
+    ExpressionEvaluation,
+    ExpressionType,
+    ExpressionScalar,
+    ExpressionValue,
+    ComparisonOperator,
+    AggregateFunction,
+    QuantifierFunction,
+    ComponentSelector,
+    RuleExpressionError
 } from './rule.types';
 import { CtoComponent, CtoValidationError } from '../domain/ctoConfiguration.types';
 
@@ -80,9 +108,111 @@ export class RuleEngine {
             }
         }
 
+        // 5. EXPRESSION
+        const expressionRules = ruleSet.rules.filter(r => r.ruleType === RuleType.EXPRESSION);
+        for (const rule of expressionRules) {
+            const result = this.evaluateExpressionRule(rule, productModel, components);
+            if (!result.passed && result.message) {
+                errors.push({
+                    code: 'EXPRESSION_ERROR',
+                    message: result.message,
+                    rule: rule.id
+                });
+            }
+        }
+
         return errors;
     }
 
+    // ========== LANGAGE DE RÈGLES ==========
+
+    /**
+     * Analyse et type une expression de règle (doit être une condition)
+     * Lève RuleExpressionError (syntaxe ou type) avec la position fautive
+     */
+    compileExpression(source: string): CompiledRuleExpression {
+        if (!source?.trim()) {
+            throw new RuleExpressionError('Expression is empty', 0);
+        }
+
+        const ast = new ExpressionParser(source).parse();
+        const type = typeOf(ast, 'model');
+        if (type !== 'boolean') {
+            throw new RuleExpressionError(`Expression must be a condition, got ${type}`, ast.start);
+        }
+
+        return { source, ast };
+    }
+
+    /**
+     * Évalue une expression compilée
+     * En échec, l'explication vient de la sous-expression fautive
+     */
+    evaluateExpression(expression: CompiledRuleExpression, context: RuleExpressionContext): ExpressionEvaluation {
+        const evaluator = new ExpressionEvaluator(expression.source, context);
+        try {
+            if (evaluator.isTrue(expression.ast, null)) {
+                return { passed: true };
+            }
+            const failure = evaluator.explain(expression.ast, null);
+            return { passed: false, failedExpression: failure.expression, explanation: failure.message };
+        } catch (error) {
+            if (error instanceof ExpressionEvaluationError) {
+                const failedExpression = evaluator.text(error.node);
+                return {
+                    passed: false,
+                    failedExpression,
+                    explanation: `Cannot evaluate ${failedExpression}: ${error.message}`
+                };
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Évalue une règle EXPRESSION
+     */
+    private evaluateExpressionRule(
+        rule: CtoRuleEntity,
+        productModel: string,
+        components: CtoComponent[]
+    ): RuleEvaluationResult {
+        const payload = rule.payload as ExpressionRulePayload;
+
+        // La règle ne s'applique pas à ce modèle
+        if (payload.productModel && payload.productModel !== productModel) {
+            return { ruleId: rule.id, ruleType: rule.ruleType, passed: true };
+        }
+
+        let expression: CompiledRuleExpression;
+        try {
+            expression = this.compileExpression(payload.expression);
+        } catch (error) {
+            if (error instanceof RuleExpressionError) {
+                // Règle inexploitable : refus plutôt qu'acceptation silencieuse
+                return {
+                    ruleId: rule.id,
+                    ruleType: rule.ruleType,
+                    passed: false,
+                    message: `Rule ${rule.id} cannot be applied: ${error.message}`
+                };
+            }
+            throw error;
+        }
+
+        const evaluation = this.evaluateExpression(expression, { productModel, components });
+        if (evaluation.passed) {
+            return { ruleId: rule.id, ruleType: rule.ruleType, passed: true };
+        }
+
+        return {
+            ruleId: rule.id,
+            ruleType: rule.ruleType,
+            passed: false,
+            message: payload.message ? `${payload.message}: ${evaluation.explanation}` : evaluation.explanation
+        };
+    }
+
     /**
      * Évalue une règle COMPATIBILITY
      */
@@ -243,3 +373,764 @@ export class RuleEngine {
         return tasks;
     }
 }
+
+// ============================================
+// LANGAGE DE RÈGLES : ANALYSE
+// ============================================
+
+interface Token {
+    kind: 'number' | 'string' | 'identifier' | 'operator' | 'eof';
+    text: string;
+    start: number;
+    end: number;
+}
+
+const KEYWORDS = ['and', 'or', 'not', 'implies', 'in', 'true', 'false'];
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['==', '!=', '<', '<=', '>', '>='];
+const AGGREGATE_FUNCTIONS: AggregateFunction[] = ['count', 'sum', 'min', 'max', 'distinct'];
+const QUANTIFIER_FUNCTIONS: QuantifierFunction[] = ['all', 'any'];
+
+// Plus longs d'abord ; notation mathématique acceptée
+const OPERATORS = ['==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '(', ')', '[', ']', ',', '.'];
+const OPERATOR_ALIASES: Record<string, string> = { '≤': '<=', '≥': '>=', '≠': '!=', '×': '*' };
+
+// Bornes d'analyse : une entrée hostile ne doit pas épuiser la pile
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_NESTING_DEPTH = 32;
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+        const char = source[i] as string;
+
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        const number = /^\d+(\.\d+)?/.exec(source.slice(i));
+        if (number) {
+            tokens.push({ kind: 'number', text: number[0], start: i, end: i + number[0].length });
+            i += number[0].length;
+            continue;
+        }
+
+        const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+        if (identifier) {
+            tokens.push({ kind: 'identifier', text: identifier[0], start: i, end: i + identifier[0].length });
+            i += identifier[0].length;
+            continue;
+        }
+
+        if (char === '"' || char === "'") {
+            const close = source.indexOf(char, i + 1);
+            if (close === -1) {
+                throw new RuleExpressionError('Unterminated string', i);
+            }
+            tokens.push({ kind: 'string', text: source.slice(i + 1, close), start: i, end: close + 1 });
+            i = close + 1;
+            continue;
+        }
+
+        const alias = OPERATOR_ALIASES[char];
+        if (alias) {
+            tokens.push({ kind: 'operator', text: alias, start: i, end: i + 1 });
+            i++;
+            continue;
+        }
+
+        const operator = OPERATORS.find(op => source.startsWith(op, i));
+        if (!operator) {
+            throw new RuleExpressionError(`Unexpected character "${char}"`, i);
+        }
+        tokens.push({ kind: 'operator', text: operator, start: i, end: i + operator.length });
+        i += operator.length;
+    }
+
+    tokens.push({ kind: 'eof', text: '', start: source.length, end: source.length });
+    return tokens;
+}
+
+/**
+ * Analyseur descendant ; priorité croissante :
+ * implies (à droite) < or < and < not < comparaison / in < + - < * / < - unaire
+ */
+class ExpressionParser {
+    private readonly tokens: Token[];
+    private index = 0;
+    private depth = 0;
+
+    constructor(source: string) {
+        if (source.length > MAX_EXPRESSION_LENGTH) {
+            throw new RuleExpressionError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`, MAX_EXPRESSION_LENGTH);
+        }
+        this.tokens = tokenize(source);
+    }
+
+    parse(): RuleExpression {
+        const expression = this.implication();
+        const token = this.peek();
+        if (token.kind !== 'eof') {
+            throw new RuleExpressionError(`Unexpected "${token.text}"`, token.start);
+        }
+        return expression;
+    }
+
+    private implication(): RuleExpression {
+        const left = this.disjunction();
+        if (this.matchKeyword('implies')) {
+            const right = this.nested(() => this.implication());
+            return { kind: 'logical', operator: 'implies', left, right, start: left.start, end: right.end };
+        }
+        return left;
+    }
+
+    private disjunction(): RuleExpression {
+        let left = this.conjunction();
+        while (this.matchKeyword('or')) {
+            const right = this.conjunction();
+            left = { kind: 'logical', operator: 'or', left, right, start: left.start, end: right.end };
+        }
+        return left;
+    }
+
+    private conjunction(): RuleExpression {
+        let left = this.negation();
+        while (this.matchKeyword('and')) {
+            const right = this.negation();
+            left = { kind: 'logical', operator: 'and', left, right, start: left.start, end: right.end };
+        }
+        return left;
+    }
+
+    private negation(): RuleExpression {
+        const token = this.peek();
+        if (this.matchKeyword('not')) {
+            const operand = this.nested(() => this.negation());
+            return { kind: 'not', operand, start: token.start, end: operand.end };
+        }
+        return this.comparison();
+    }
+
+    private comparison(): RuleExpression {
+        const left = this.additive();
+        const token = this.peek();
+
+        if (token.kind === 'operator' && COMPARISON_OPERATORS.includes(token.text as ComparisonOperator)) {
+            this.index++;
+            const right = this.additive();
+            return {
+                kind: 'comparison',
+                operator: token.text as ComparisonOperator,
+                left,
+                right,
+                start: left.start,
+                end: right.end
+            };
+        }
+        if (this.matchKeyword('in')) {
+            const right = this.additive();
+            return { kind: 'in', left, right, start: left.start, end: right.end };
+        }
+        return left;
+    }
+
+    private additive(): RuleExpression {
+        let left = this.multiplicative();
+        for (let token = this.peek(); this.matchOperator('+') || this.matchOperator('-'); token = this.peek()) {
+            const right = this.multiplicative();
+            left = {
+                kind: 'arithmetic',
+                operator: token.text as '+' | '-',
+                left,
+                right,
+                start: left.start,
+                end: right.end
+            };
+        }
+        return left;
+    }
+
+    private multiplicative(): RuleExpression {
+        let left = this.unary();
+        for (let token = this.peek(); this.matchOperator('*') || this.matchOperator('/'); token = this.peek()) {
+            const right = this.unary();
+            left = {
+                kind: 'arithmetic',
+                operator: token.text as '*' | '/',
+                left,
+                right,
+                start: left.start,
+                end: right.end
+            };
+        }
+        return left;
+    }
+
+    private unary(): RuleExpression {
+        const token = this.peek();
+        if (this.matchOperator('-')) {
+            const operand = this.nested(() => this.unary());
+            return { kind: 'negate', operand, start: token.start, end: operand.end };
+        }
+        return this.primary();
+    }
+
+    private primary(): RuleExpression {
+        const token = this.next();
+        const span = { start: token.start, end: token.end };
+
+        if (token.kind === 'number') {
+            return { kind: 'literal', value: Number(token.text), ...span };
+        }
+        if (token.kind === 'string') {
+            return { kind: 'literal', value: token.text, ...span };
+        }
+        if (token.kind === 'identifier') {
+            if (token.text === 'true' || token.text === 'false') {
+                return { kind: 'literal', value: token.text === 'true', ...span };
+            }
+            if (!KEYWORDS.includes(token.text)) {
+                return this.peekOperator('(')
+                    ? this.call(token)
+                    : { kind: 'identifier', name: token.text, ...span };
+            }
+        }
+        if (token.kind === 'operator' && token.text === '(') {
+            const inner = this.nested(() => this.implication());
+            const close = this.expectOperator(')');
+            return { ...inner, start: token.start, end: close.end };
+        }
+        if (token.kind === 'operator' && token.text === '[') {
+            const items: RuleExpression[] = [];
+            if (!this.peekOperator(']')) {
+                do {
+                    items.push(this.nested(() => this.additive()));
+                } while (this.matchOperator(','));
+            }
+            const close = this.expectOperator(']');
+            return { kind: 'list', items, start: token.start, end: close.end };
+        }
+
+        throw new RuleExpressionError(
+            token.kind === 'eof' ? 'Unexpected end of expression' : `Unexpected "${token.text}"`,
+            token.start
+        );
+    }
+
+    /**
+     * count(T) sum(T.a) min(T.a) max(T.a) distinct(T.a) all(T, cond) any(T, cond)
+     */
+    private call(name: Token): RuleExpression {
+        this.expectOperator('(');
+        const selector = this.selector();
+
+        if (AGGREGATE_FUNCTIONS.includes(name.text as AggregateFunction)) {
+            const close = this.expectOperator(')');
+            return {
+                kind: 'aggregate',
+                fn: name.text as AggregateFunction,
+                selector,
+                start: name.start,
+                end: close.end
+            };
+        }
+        if (QUANTIFIER_FUNCTIONS.includes(name.text as QuantifierFunction)) {
+            this.expectOperator(',');
+            const predicate = this.nested(() => this.implication());
+            const close = this.expectOperator(')');
+            return {
+                kind: 'quantifier',
+                fn: name.text as QuantifierFunction,
+                selector,
+                predicate,
+                start: name.start,
+                end: close.end
+            };
+        }
+
+        throw new RuleExpressionError(`Unknown function ${name.text}`, name.start);
+    }
+
+    private selector(): ComponentSelector {
+        const token = this.next();
+        let componentType: string | null;
+
+        if (token.kind === 'operator' && token.text === '*') {
+            componentType = null;
+        } else if (token.kind === 'identifier' && !KEYWORDS.includes(token.text)) {
+            componentType = token.text;
+        } else {
+            throw new RuleExpressionError('Expected a component type or *', token.start);
+        }
+
+        if (!this.matchOperator('.')) {
+            return { componentType, attribute: null };
+        }
+        const attribute = this.next();
+        if (attribute.kind !== 'identifier') {
+            throw new RuleExpressionError('Expected an attribute name', attribute.start);
+        }
+        return { componentType, attribute: attribute.text };
+    }
+
+    /**
+     * Descente récursive bornée (parenthèses, not, -, implies, arguments)
+     */
+    private nested(parse: () => RuleExpression): RuleExpression {
+        if (this.depth >= MAX_NESTING_DEPTH) {
+            throw new RuleExpressionError(`Expression is nested deeper than ${MAX_NESTING_DEPTH} levels`, this.peek().start);
+        }
+        this.depth++;
+        try {
+            return parse();
+        } finally {
+            this.depth--;
+        }
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index] as Token;
+    }
+
+    private next(): Token {
+        const token = this.peek();
+        if (token.kind !== 'eof') {
+            this.index++;
+        }
+        return token;
+    }
+
+    private peekOperator(text: string): boolean {
+        const token = this.peek();
+        return token.kind === 'operator' && token.text === text;
+    }
+
+    private matchOperator(text: string): boolean {
+        if (this.peekOperator(text)) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private matchKeyword(keyword: string): boolean {
+        const token = this.peek();
+        if (token.kind === 'identifier' && token.text === keyword) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private expectOperator(text: string): Token {
+        const token = this.peek();
+        if (!this.matchOperator(text)) {
+            throw new RuleExpressionError(
+                token.kind === 'eof' ? `Expected "${text}" at end of expression` : `Expected "${text}", got "${token.text}"`,
+                token.start
+            );
+        }
+        return token;
+    }
+}
+
+// ============================================
+// LANGAGE DE RÈGLES : TYPAGE
+// ============================================
+
+/**
+ * Champs d'un composant accessibles dans all() / any() ;
+ * tout autre identifiant y désigne un attribut (typé à l'évaluation)
+ */
+const COMPONENT_FIELD_TYPES: Record<string, ExpressionType> = {
+    type: 'string',
+    reference: 'string',
+    quantity: 'number'
+};
+
+type ExpressionScope = 'model' | 'component';
+
+function typeOf(node: RuleExpression, scope: ExpressionScope): ExpressionType {
+    switch (node.kind) {
+        case 'literal':
+            return typeof node.value as ExpressionType;
+
+        case 'list': {
+            const types = new Set<ExpressionType>();
+            for (const item of node.items) {
+                const type = typeOf(item, scope);
+                if (type !== 'string' && type !== 'number') {
+                    throw new RuleExpressionError(`List items must be strings or numbers, got ${type}`, item.start);
+                }
+                types.add(type);
+            }
+            if (types.size > 1) {
+                throw new RuleExpressionError('List items must all have the same type', node.start);
+            }
+            return 'list';
+        }
+
+        case 'identifier':
+            if (scope === 'component') {
+                return COMPONENT_FIELD_TYPES[node.name] ?? 'attribute';
+            }
+            if (node.name === 'model') {
+                return 'string';
+            }
+            throw new RuleExpressionError(
+                `Unknown identifier ${node.name} (component attributes are only available inside all() and any())`,
+                node.start
+            );
+
+        case 'negate':
+            expectType(node.operand, scope, 'number', 'Unary -');
+            return 'number';
+
+        case 'not':
+            expectType(node.operand, scope, 'boolean', 'not');
+            return 'boolean';
+
+        case 'arithmetic':
+            expectType(node.left, scope, 'number', node.operator);
+            expectType(node.right, scope, 'number', node.operator);
+            return 'number';
+
+        case 'comparison': {
+            if (node.operator !== '==' && node.operator !== '!=') {
+                expectType(node.left, scope, 'number', node.operator);
+                expectType(node.right, scope, 'number', node.operator);
+                return 'boolean';
+            }
+            const left = typeOf(node.left, scope);
+            const right = typeOf(node.right, scope);
+            if (left === 'list' || right === 'list') {
+                throw new RuleExpressionError(`${node.operator} cannot compare lists (use in)`, node.start);
+            }
+            if (left !== right && left !== 'attribute' && right !== 'attribute') {
+                throw new RuleExpressionError(`${node.operator} compares ${left} with ${right}`, node.start);
+            }
+            return 'boolean';
+        }
+
+        case 'in': {
+            const left = typeOf(node.left, scope);
+            if (node.right.kind !== 'list') {
+                throw new RuleExpressionError('in expects a list [...]', node.right.start);
+            }
+            typeOf(node.right, scope);
+            const itemType = node.right.items[0] ? typeOf(node.right.items[0], scope) : null;
+            if (left !== 'attribute' && itemType !== null && left !== itemType) {
+                throw new RuleExpressionError(`in looks for a ${left} in a list of ${itemType}s`, node.start);
+            }
+            return 'boolean';
+        }
+
+        case 'logical':
+            expectType(node.left, scope, 'boolean', node.operator);
+            expectType(node.right, scope, 'boolean', node.operator);
+            return 'boolean';
+
+        case 'aggregate':
+            if (node.fn === 'count' && node.selector.attribute !== null) {
+                throw new RuleExpressionError('count() takes a component type, not an attribute', node.start);
+            }
+            if (node.fn !== 'count' && node.selector.attribute === null) {
+                throw new RuleExpressionError(`${node.fn}() takes a component attribute (TYPE.attribute)`, node.start);
+            }
+            return 'number';
+
+        case 'quantifier':
+            if (scope === 'component') {
+                throw new RuleExpressionError(`${node.fn}() cannot be nested`, node.start);
+            }
+            if (node.selector.attribute !== null) {
+                throw new RuleExpressionError(`${node.fn}() takes a component type, not an attribute`, node.start);
+            }
+            expectType(node.predicate, 'component', 'boolean', `${node.fn}()`);
+            return 'boolean';
+    }
+}
+
+function expectType(node: RuleExpression, scope: ExpressionScope, expected: ExpressionType, label: string): void {
+    const type = typeOf(node, scope);
+    if (type !== expected && type !== 'attribute') {
+        throw new RuleExpressionError(`${label} expects a ${expected}, got ${type}`, node.start);
+    }
+}
+
+// ============================================
+// LANGAGE DE RÈGLES : ÉVALUATION
+// ============================================
+
+/**
+ * Erreur d'évaluation (donnée absente ou de mauvais type) sur un nœud
+ */
+class ExpressionEvaluationError extends Error {
+    constructor(public readonly node: RuleExpression, message: string) {
+        super(message);
+        this.name = 'ExpressionEvaluationError';
+    }
+}
+
+/**
+ * Comparaison contraire (formulation des explications)
+ */
+const NEGATED_COMPARISON: Record<ComparisonOperator, ComparisonOperator> = {
+    '==': '!=',
+    '!=': '==',
+    '<': '>=',
+    '<=': '>',
+    '>': '<=',
+    '>=': '<'
+};
+
+class ExpressionEvaluator {
+    constructor(
+        private readonly source: string,
+        private readonly context: RuleExpressionContext
+    ) { }
+
+    /**
+     * Texte source d'une sous-expression
+     */
+    text(node: RuleExpression): string {
+        return this.source.slice(node.start, node.end).trim();
+    }
+
+    isTrue(node: RuleExpression, component: CtoComponent | null): boolean {
+        return this.asBoolean(node, this.evaluate(node, component));
+    }
+
+    evaluate(node: RuleExpression, component: CtoComponent | null): ExpressionValue {
+        switch (node.kind) {
+            case 'literal':
+                return node.value;
+
+            case 'list':
+                return node.items.map(item => this.evaluate(item, component) as ExpressionScalar);
+
+            case 'identifier':
+                return component ? this.fieldOf(node, component, node.name) : this.productModel(node);
+
+            case 'negate':
+                return -this.number(node.operand, component);
+
+            case 'not':
+                return !this.isTrue(node.operand, component);
+
+            case 'arithmetic': {
+                const left = this.number(node.left, component);
+                const right = this.number(node.right, component);
+                switch (node.operator) {
+                    case '+': return left + right;
+                    case '-': return left - right;
+                    case '*': return left * right;
+                    case '/':
+                        if (right === 0) {
+                            throw new ExpressionEvaluationError(node, 'division by zero');
+                        }
+                        return left / right;
+                }
+                break;
+            }
+
+            case 'comparison': {
+                if (node.operator === '==' || node.operator === '!=') {
+                    const equal = this.evaluate(node.left, component) === this.evaluate(node.right, component);
+                    return node.operator === '==' ? equal : !equal;
+                }
+                const left = this.number(node.left, component);
+                const right = this.number(node.right, component);
+                switch (node.operator) {
+                    case '<': return left < right;
+                    case '<=': return left <= right;
+                    case '>': return left > right;
+                    case '>=': return left >= right;
+                }
+                break;
+            }
+
+            case 'in':
+                return (this.evaluate(node.right, component) as ExpressionScalar[])
+                    .includes(this.evaluate(node.left, component) as ExpressionScalar);
+
+            case 'logical': {
+                const left = this.isTrue(node.left, component);
+                switch (node.operator) {
+                    case 'and': return left && this.isTrue(node.right, component);
+                    case 'or': return left || this.isTrue(node.right, component);
+                    case 'implies': return !left || this.isTrue(node.right, component);
+                }
+                break;
+            }
+
+            case 'aggregate':
+                return this.aggregate(node, node.fn, node.selector);
+
+            case 'quantifier': {
+                const selected = this.select(node.selector);
+                return node.fn === 'all'
+                    ? selected.every(c => this.isTrue(node.predicate, c))
+                    : selected.some(c => this.isTrue(node.predicate, c));
+            }
+        }
+        throw new ExpressionEvaluationError(node, 'unsupported expression');
+    }
+
+    /**
+     * Explique une condition évaluée à faux : sous-expression fautive et valeurs observées
+     */
+    explain(node: RuleExpression, component: CtoComponent | null): { expression: string; message: string } {
+        const expression = this.text(node);
+
+        switch (node.kind) {
+            case 'logical':
+                if (node.operator === 'and') {
+                    const failing = this.isTrue(node.left, component) ? node.right : node.left;
+                    return this.explain(failing, component);
+                }
+                if (node.operator === 'implies') {
+                    const consequence = this.explain(node.right, component);
+                    return {
+                        expression: consequence.expression,
+                        message: `${consequence.message} (required by ${this.text(node.left)})`
+                    };
+                }
+                return {
+                    expression,
+                    message: `none of the alternatives holds: ${this.alternatives(node)
+                        .map(alternative => this.explain(alternative, component).message)
+                        .join('; ')}`
+                };
+
+            case 'not':
+                return { expression, message: `expected not ${this.text(node.operand)}` };
+
+            case 'comparison': {
+                const left = this.evaluate(node.left, component);
+                const right = this.evaluate(node.right, component);
+                return {
+                    expression,
+                    message: `expected ${expression}, got ${this.describe(node.left, left)} ${NEGATED_COMPARISON[node.operator]} ${this.describe(node.right, right)}`
+                };
+            }
+
+            case 'in':
+                return {
+                    expression,
+                    message: `expected ${expression}, got ${this.describe(node.left, this.evaluate(node.left, component))}`
+                };
+
+            case 'quantifier': {
+                const label = node.selector.componentType ?? 'component';
+                if (node.fn === 'any') {
+                    return { expression, message: `expected ${expression}, no ${label} matches` };
+                }
+                const failing = this.select(node.selector).filter(c => !this.isTrue(node.predicate, c));
+                const details = failing.map(c => `${c.reference}: ${this.explain(node.predicate, c).message}`);
+                return { expression, message: `${expression} fails for ${label} ${details.join(', ')}` };
+            }
+
+            default:
+                return { expression, message: `expected ${expression}` };
+        }
+    }
+
+    // ========== HELPERS ==========
+
+    private aggregate(node: RuleExpression, fn: AggregateFunction, selector: ComponentSelector): number {
+        // Sélection * : seuls les composants portant l'attribut comptent
+        // (sum(*.tdpW) ignore alimentation, RAM…) ; TYPE.attr reste strict
+        const selected = selector.componentType === null && selector.attribute !== null
+            ? this.select(selector).filter(c => this.hasField(c, selector.attribute as string))
+            : this.select(selector);
+        if (fn === 'count') {
+            return selected.reduce((sum, c) => sum + c.quantity, 0);
+        }
+
+        const attribute = selector.attribute as string;
+        if (fn === 'distinct') {
+            return new Set(selected.map(c => this.fieldOf(node, c, attribute))).size;
+        }
+
+        const values = selected.map(c => {
+            const value = this.fieldOf(node, c, attribute);
+            if (typeof value !== 'number') {
+                throw new ExpressionEvaluationError(
+                    node,
+                    `${c.type} ${c.reference}: ${attribute} is not a number (${JSON.stringify(value)})`
+                );
+            }
+            return { value, quantity: c.quantity };
+        });
+
+        switch (fn) {
+            case 'sum': return values.reduce((sum, v) => sum + v.value * v.quantity, 0);
+            case 'min': return values.length > 0 ? Math.min(...values.map(v => v.value)) : 0;
+            case 'max': return values.length > 0 ? Math.max(...values.map(v => v.value)) : 0;
+        }
+    }
+
+    private select(selector: ComponentSelector): CtoComponent[] {
+        return selector.componentType === null
+            ? this.context.components
+            : this.context.components.filter(c => c.type === selector.componentType);
+    }
+
+    private hasField(component: CtoComponent, name: string): boolean {
+        return name in COMPONENT_FIELD_TYPES || component.attributes?.[name] !== undefined;
+    }
+
+    private fieldOf(node: RuleExpression, component: CtoComponent, name: string): ExpressionScalar {
+        if (name in COMPONENT_FIELD_TYPES) {
+            return component[name as 'type' | 'reference' | 'quantity'];
+        }
+        const value = component.attributes?.[name];
+        if (value === undefined) {
+            throw new ExpressionEvaluationError(node, `${component.type} ${component.reference} has no attribute ${name}`);
+        }
+        return value;
+    }
+
+    private productModel(node: RuleExpression): string {
+        if (this.context.productModel === undefined) {
+            throw new ExpressionEvaluationError(node, 'product model is not known');
+        }
+        return this.context.productModel;
+    }
+
+    private number(node: RuleExpression, component: CtoComponent | null): number {
+        const value = this.evaluate(node, component);
+        if (typeof value !== 'number') {
+            throw new ExpressionEvaluationError(node, `${this.text(node)} is not a number (${JSON.stringify(value)})`);
+        }
+        return value;
+    }
+
+    private asBoolean(node: RuleExpression, value: ExpressionValue): boolean {
+        if (typeof value !== 'boolean') {
+            throw new ExpressionEvaluationError(node, `${this.text(node)} is not a condition (${JSON.stringify(value)})`);
+        }
+        return value;
+    }
+
+    /**
+     * Alternatives d'une chaîne a or b or c
+     */
+    private alternatives(node: RuleExpression): RuleExpression[] {
+        return node.kind === 'logical' && node.operator === 'or'
+            ? [...this.alternatives(node.left), ...this.alternatives(node.right)]
+            : [node];
+    }
+
+    /**
+     * Valeur observée, précédée de la sous-expression si ce n'est pas un littéral
+     */
+    private describe(node: RuleExpression, value: ExpressionValue): string {
+        const formatted = JSON.stringify(value);
+        return node.kind === 'literal' ? formatted : `${this.text(node)} = ${formatted}`;
+    }
+}
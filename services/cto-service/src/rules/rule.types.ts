@@ -4,6 +4,7 @@
  */
 
 import { RuleType } from '@prisma/client';
+import { CtoComponent } from '../domain/ctoConfiguration.types';
 
 /**
  * Règle CTO générique
@@ -87,6 +88,107 @@ export interface LeadTimeRulePayload {
     qaMinutes: number;
 }
 
+/**
+ * Payload règle EXPRESSION (langage de règles, voir rule.engine)
+ * Ex: sum(RAM.capacityGb) <= 24 * max(RAM.capacityGb)
+ * Ex: sum(PSU.wattage) >= sum(*.tdpW)
+ */
+export interface ExpressionRulePayload {
+    productModel?: string;      // Limite la règle à un modèle (sinon tous)
+    expression: string;
+    message?: string;           // Préfixe de l'explication
+}
+
+// ========== LANGAGE DE RÈGLES ==========
+
+/**
+ * Type statique d'une sous-expression
+ * attribute : attribut de composant, typé à l'évaluation
+ */
+export type ExpressionType = 'number' | 'string' | 'boolean' | 'list' | 'attribute';
+
+export type ExpressionScalar = number | string | boolean;
+export type ExpressionValue = ExpressionScalar | ExpressionScalar[];
+
+export type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+export type ArithmeticOperator = '+' | '-' | '*' | '/';
+export type LogicalOperator = 'and' | 'or' | 'implies';
+
+export type AggregateFunction = 'count' | 'sum' | 'min' | 'max' | 'distinct';
+export type QuantifierFunction = 'all' | 'any';
+
+/**
+ * Position dans le source (explications : texte exact de la sous-expression)
+ */
+export interface SourceSpan {
+    start: number;
+    end: number;
+}
+
+/**
+ * Sélection de composants : type exact, ou '*' (componentType null)
+ */
+export interface ComponentSelector {
+    componentType: string | null;
+    attribute: string | null;
+}
+
+/**
+ * Arbre syntaxique d'une expression
+ */
+export type RuleExpression = SourceSpan & (
+    | { kind: 'literal'; value: ExpressionScalar }
+    | { kind: 'list'; items: RuleExpression[] }
+    | { kind: 'identifier'; name: string }
+    | { kind: 'negate'; operand: RuleExpression }
+    | { kind: 'not'; operand: RuleExpression }
+    | { kind: 'arithmetic'; operator: ArithmeticOperator; left: RuleExpression; right: RuleExpression }
+    | { kind: 'comparison'; operator: ComparisonOperator; left: RuleExpression; right: RuleExpression }
+    | { kind: 'in'; left: RuleExpression; right: RuleExpression }
+    | { kind: 'logical'; operator: LogicalOperator; left: RuleExpression; right: RuleExpression }
+    | { kind: 'aggregate'; fn: AggregateFunction; selector: ComponentSelector }
+    | { kind: 'quantifier'; fn: QuantifierFunction; selector: ComponentSelector; predicate: RuleExpression }
+);
+
+/**
+ * Expression analysée et typée (booléenne)
+ */
+export interface CompiledRuleExpression {
+    source: string;
+    ast: RuleExpression;
+}
+
+/**
+ * Données accessibles à une expression
+ */
+export interface RuleExpressionContext {
+    productModel?: string;
+    components: CtoComponent[];
+}
+
+/**
+ * Résultat d'évaluation d'une expression
+ * failedExpression : texte de la sous-expression fautive
+ */
+export interface ExpressionEvaluation {
+    passed: boolean;
+    failedExpression?: string;
+    explanation?: string;
+}
+
+/**
+ * Erreur : Expression de règle invalide (syntaxe ou type)
+ */
+export class RuleExpressionError extends Error {
+    constructor(
+        public readonly reason: string,
+        public readonly position: number
+    ) {
+        super(`Invalid rule expression at ${position}: ${reason}`);
+        this.name = 'RuleExpressionError';
+    }
+}
+
 /**
  * Résultat d'évaluation d'une règle
  */
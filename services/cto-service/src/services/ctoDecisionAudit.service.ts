@@ -80,9 +80,10 @@ export class CtoDecisionAuditService {
      */
     async evaluateAndRecordConfiguration(
         configurationId: string,
-        components: CtoComponent[]
+        components: CtoComponent[],
+        productModel?: string
     ): Promise<{ decisions: CtoDecisionEntity[]; overallResult: 'ACCEPT' | 'REJECT' }> {
-        const evaluation = await this.ruleEngine.evaluateConfiguration(components);
+        const evaluation = await this.ruleEngine.evaluateConfiguration(components, productModel);
         const decisions: CtoDecisionEntity[] = [];
         let overallResult: 'ACCEPT' | 'REJECT' = 'ACCEPT';
 
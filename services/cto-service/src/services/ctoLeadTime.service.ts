@@ -1,12 +1,16 @@
 /**
  * CTO Lead Time Service
  * Logique de calcul du délai de livraison
+ *
+ * Transport : matrice de l'Inventory Service (la même que le routage),
+ * pour que le délai annoncé et l'entrepôt choisi concordent.
  */
 
 import { PrismaClient, RuleType } from '@prisma/client';
 import { RuleRepository } from '../repositories/rule.repository';
-import { CtoComponent } from '../domain/ctoConfiguration.types';
+import { CtoComponent, CtoDeliveryDto, CtoLeadTimeEstimate } from '../domain/ctoConfiguration.types';
 import { LeadTimeRulePayload } from '../rules/rule.types';
+import { InventoryServiceClient, HttpInventoryServiceClient } from '../integrations/inventory.client';
 
 // Constantes de temps (en minutes)
 const DEFAULT_ASSEMBLY_MINUTES = 90;
@@ -16,9 +20,44 @@ const MINUTES_PER_HOUR = 60;
 
 export class CtoLeadTimeService {
     private readonly ruleRepository: RuleRepository;
+    private readonly inventoryClient: InventoryServiceClient;
 
-    constructor(prisma: PrismaClient) {
+    constructor(prisma: PrismaClient, inventoryClient?: InventoryServiceClient) {
         this.ruleRepository = new RuleRepository(prisma);
+        this.inventoryClient = inventoryClient ?? new HttpInventoryServiceClient();
+    }
+
+    /**
+     * Lead time jusqu'à livraison : assemblage (règles) puis transport
+     * depuis l'entrepôt de l'asset (coupure, jours fériés, niveau de service)
+     *
+     * Sans destination, seul l'assemblage est compté.
+     */
+    async estimateLeadTime(
+        ruleSetId: string,
+        assetId: string,
+        components: CtoComponent[],
+        delivery?: CtoDeliveryDto
+    ): Promise<CtoLeadTimeEstimate> {
+        const assemblyDays = await this.calculateLeadTime(ruleSetId, components);
+        if (!delivery) {
+            return { leadTimeDays: assemblyDays, assemblyDays };
+        }
+
+        const quote = await this.inventoryClient.quoteTransit({
+            assetId,
+            destinationCountry: delivery.country,
+            postcode: delivery.postcode,
+            serviceLevel: delivery.serviceLevel,
+            processingDays: assemblyDays
+        });
+
+        return {
+            leadTimeDays: quote.estimatedDelay,
+            assemblyDays,
+            transitDays: quote.transitDays,
+            estimatedDeliveryDate: quote.estimatedDeliveryDate
+        };
     }
 
     /**
@@ -25,12 +25,17 @@ import {
     EvaluatedRule,
     SimulationExplanation
 } from '../domain/ctoSimulation.types';
+import { RuleEngine } from '../rules/rule.engine';
+import { RuleExpressionError } from '../rules/rule.types';
 
 // ============================================
 // SERVICE
 // ============================================
 
 export class CtoRuleEngineService {
+    // Compilation / évaluation des règles EXPRESSION
+    private readonly expressionEngine = new RuleEngine();
+
     constructor(private readonly prisma: PrismaClient) { }
 
     // ============================================
@@ -40,8 +45,17 @@ export class CtoRuleEngineService {
     /**
      * Créer une nouvelle version de règle
      * RÈGLE : Append-only, jamais de modification
+     * @throws RuleExpressionError si l'expression d'une règle EXPRESSION ne compile pas
      */
     async createRuleVersion(dto: CreateRuleVersionDto): Promise<CtoRuleVersionEntity> {
+        // Une expression invalide n'est jamais versionnée
+        if (dto.logic.type === 'EXPRESSION') {
+            if (typeof dto.logic.expression !== 'string') {
+                throw new RuleExpressionError('logic.expression is required for EXPRESSION rules', 0);
+            }
+            this.expressionEngine.compileExpression(dto.logic.expression);
+        }
+
         // Récupérer la dernière version pour cette règle
         const latestVersion = await this.prisma.ctoRuleVersion.findFirst({
             where: { ruleId: dto.ruleId },
@@ -154,9 +168,11 @@ export class CtoRuleEngineService {
     /**
      * Évaluer toutes les règles contre une configuration
      * Retourne les règles évaluées avec résultat
+     * productModel : valeur de l'identifiant model des règles EXPRESSION
      */
     async evaluateConfiguration(
-        components: CtoComponent[]
+        components: CtoComponent[],
+        productModel?: string
     ): Promise<{ rules: EvaluatedRule[]; passed: boolean; explanations: CreateExplanationDto[] }> {
         const allRules = await this.getAllActiveRules();
         const evaluatedRules: EvaluatedRule[] = [];
@@ -164,7 +180,7 @@ export class CtoRuleEngineService {
         let allPassed = true;
 
         for (const ruleVersion of allRules) {
-            const evaluation = this.evaluateRule(ruleVersion, components);
+            const evaluation = this.evaluateRule(ruleVersion, components, productModel);
             evaluatedRules.push(evaluation);
 
             if (!evaluation.passed) {
@@ -186,12 +202,23 @@ export class CtoRuleEngineService {
      */
     private evaluateRule(
         ruleVersion: CtoRuleVersionEntity,
-        components: CtoComponent[]
+        components: CtoComponent[],
+        productModel?: string
     ): EvaluatedRule {
         const logic = ruleVersion.logic;
         let passed = true;
         let explanation: string | undefined;
 
+        if (logic.type === 'EXPRESSION') {
+            return {
+                ruleId: ruleVersion.ruleId,
+                ruleName: ruleVersion.name,
+                ruleVersion: ruleVersion.version,
+                logic: ruleVersion.logic,
+                ...this.evaluateExpressionLogic(logic, components, productModel)
+            };
+        }
+
         // Évaluer chaque condition
         for (const condition of logic.conditions) {
             const conditionResult = this.evaluateCondition(condition, components);
@@ -212,6 +239,33 @@ export class CtoRuleEngineService {
         };
     }
 
+    /**
+     * Évaluer une règle EXPRESSION
+     * Explication : message de la règle suivi de la sous-expression fautive
+     */
+    private evaluateExpressionLogic(
+        logic: RuleLogic,
+        components: CtoComponent[],
+        productModel?: string
+    ): { passed: boolean; explanation?: string } {
+        try {
+            const compiled = this.expressionEngine.compileExpression(logic.expression ?? '');
+            const evaluation = this.expressionEngine.evaluateExpression(compiled, { productModel, components });
+            if (evaluation.passed) {
+                return { passed: true };
+            }
+            return {
+                passed: false,
+                explanation: logic.message ? `${logic.message}: ${evaluation.explanation}` : evaluation.explanation
+            };
+        } catch (error) {
+            if (error instanceof RuleExpressionError) {
+                return { passed: false, explanation: `Rule expression cannot be applied: ${error.message}` };
+            }
+            throw error;
+        }
+    }
+
     /**
      * Évaluer une condition unique
      */
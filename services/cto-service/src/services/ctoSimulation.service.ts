@@ -63,7 +63,7 @@ export class CtoSimulationService {
         const simulatedComponents = this.mergeComponents(baseComponents, dto.components);
 
         // Évaluer avec le moteur de règles
-        const evaluation = await this.ruleEngine.evaluateConfiguration(simulatedComponents);
+        const evaluation = await this.ruleEngine.evaluateConfiguration(simulatedComponents, dto.productModel);
 
         // Construire le résultat éphémère
         const result: SimulationResult = {
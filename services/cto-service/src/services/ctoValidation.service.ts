@@ -10,10 +10,15 @@ import { RuleRepository } from '../repositories/rule.repository';
 import { RuleEngine } from '../rules/rule.engine';
 import {
     AssetServiceClient,
+    AssetServiceError,
+    AssetServiceResponse,
+    AssetHardwareSpecResponse,
     HttpAssetServiceClient
 } from '../integrations/asset.client';
 import {
     ValidateCtoDto,
+    CtoComponent,
+    CtoComponentChange,
     CtoValidationError,
     AssetNotSellableError,
     NoActiveRuleSetError,
@@ -25,6 +30,25 @@ export interface ValidationServiceResult {
     valid: boolean;
     errors: CtoValidationError[];
     ruleSet?: CtoRuleSetEntity;
+    baseline: AssetHardwareSpecResponse | null;
+    changes: CtoComponentChange[];
+}
+
+/**
+ * Types CTO rattachés au type STORAGE de la spec matérielle
+ */
+const STORAGE_COMPONENT_TYPES = ['SSD', 'HDD'];
+
+/**
+ * Familles non modifiables en atelier (soudées / intégrées)
+ */
+const FIXED_COMPONENT_FAMILIES = ['SCREEN'];
+
+/**
+ * Famille de comparaison d'un type de composant
+ */
+function componentFamily(type: string): string {
+    return STORAGE_COMPONENT_TYPES.includes(type) ? 'STORAGE' : type;
 }
 
 export class CtoValidationService {
@@ -46,8 +70,11 @@ export class CtoValidationService {
      * 
      * Étapes :
      * 1. Vérifier Asset = SELLABLE
-     * 2. Charger RuleSet actif
-     * 3. Valider règles (COMPATIBILITY, QUANTITY, DEPENDENCY, EXCLUSION)
+     * 2. Charger la spec matérielle (configuration de base)
+     * 3. Charger RuleSet actif
+     * 4. Valider règles (COMPATIBILITY, QUANTITY, DEPENDENCY, EXCLUSION)
+     *    + changements sur composants non modifiables
+     *    + pièces récupérées consommées (disponibles et conformes)
      */
     async validate(dto: ValidateCtoDto): Promise<ValidationServiceResult> {
         // 1. Vérifier Asset = SELLABLE
@@ -56,24 +83,185 @@ export class CtoValidationService {
             throw new AssetNotSellableError(dto.assetId, asset.status);
         }
 
-        // 2. Charger RuleSet actif
+        // 2. Configuration de base (absente pour les assets antérieurs à la saisie)
+        const baseline = await this.assetClient.getHardwareSpec(dto.assetId);
+        const changes = baseline ? this.diffAgainstBaseline(baseline, dto.components) : [];
+        const configuration = baseline ? this.mergeWithBaseline(baseline, dto.components) : dto.components;
+
+        // 3. Charger RuleSet actif
         const ruleSet = await this.ruleRepository.findActiveRuleSet();
         if (!ruleSet) {
             throw new NoActiveRuleSetError();
         }
 
-        // 3. Valider règles
-        const errors = this.ruleEngine.evaluateValidationRules(
-            ruleSet,
-            dto.productModel,
-            dto.components
-        );
+        // 4. Valider règles (sur la configuration résultante, pas la seule demande)
+        const errors = [
+            ...this.ruleEngine.evaluateValidationRules(
+                ruleSet,
+                dto.productModel,
+                configuration
+            ),
+            ...this.checkFixedComponents(changes),
+            ...await this.checkHarvestedParts(dto.components)
+        ];
 
         if (errors.length > 0) {
-            return { valid: false, errors, ruleSet };
+            return { valid: false, errors, ruleSet, baseline, changes };
+        }
+
+        return { valid: true, errors: [], ruleSet, baseline, changes };
+    }
+
+    /**
+     * Calcule les changements demandés par rapport à la spec de base
+     *
+     * Seules les familles présentes dans la demande sont comparées :
+     * une famille non mentionnée reste telle que dans la spec.
+     */
+    private diffAgainstBaseline(
+        baseline: AssetHardwareSpecResponse,
+        requested: CtoComponent[]
+    ): CtoComponentChange[] {
+        const requestedFamilies = new Set(requested.map(c => componentFamily(c.type)));
+        const lines = new Map<string, CtoComponentChange>();
+
+        const line = (type: string, reference: string): CtoComponentChange => {
+            const key = `${componentFamily(type)}|${reference}`;
+            let current = lines.get(key);
+            if (!current) {
+                current = { type, reference, change: 'QUANTITY_CHANGED', baselineQuantity: 0, requestedQuantity: 0 };
+                lines.set(key, current);
+            }
+            return current;
+        };
+
+        for (const component of baseline.components) {
+            if (requestedFamilies.has(componentFamily(component.type))) {
+                line(component.type, component.reference).baselineQuantity += component.quantity;
+            }
+        }
+        for (const component of requested) {
+            const current = line(component.type, component.reference);
+            current.type = component.type;
+            current.requestedQuantity += component.quantity;
+        }
+
+        return [...lines.values()]
+            .filter(c => c.baselineQuantity !== c.requestedQuantity)
+            .map(c => ({
+                ...c,
+                change: c.baselineQuantity === 0 ? 'ADDED'
+                    : c.requestedQuantity === 0 ? 'REMOVED'
+                        : 'QUANTITY_CHANGED'
+            }));
+    }
+
+    /**
+     * Configuration résultante : spec de base + changements demandés
+     *
+     * Même convention que diffAgainstBaseline : une famille mentionnée dans
+     * la demande remplace celle de la spec, les autres sont conservées.
+     */
+    private mergeWithBaseline(
+        baseline: AssetHardwareSpecResponse,
+        requested: CtoComponent[]
+    ): CtoComponent[] {
+        const requestedFamilies = new Set(requested.map(c => componentFamily(c.type)));
+
+        const kept = baseline.components
+            .filter(c => !requestedFamilies.has(componentFamily(c.type)))
+            .map((c): CtoComponent => ({
+                type: c.type,
+                reference: c.reference,
+                quantity: c.quantity,
+                ...(c.capacity !== null && c.unit === 'GB' && { attributes: { capacityGb: c.capacity } })
+            }));
+
+        return [...kept, ...requested];
+    }
+
+    /**
+     * Refuse tout changement sur un composant non modifiable
+     */
+    private checkFixedComponents(changes: CtoComponentChange[]): CtoValidationError[] {
+        return changes
+            .filter(c => FIXED_COMPONENT_FAMILIES.includes(componentFamily(c.type)))
+            .map(c => ({
+                code: 'NON_UPGRADABLE_COMPONENT',
+                message: `${c.type} ${c.reference} cannot be changed (${c.change})`,
+                component: c.type
+            }));
+    }
+
+    /**
+     * Vérifie les pièces récupérées référencées par sourceAssetIds
+     *
+     * Chaque pièce doit être un asset COMPONENT vendable, de même famille
+     * et même référence que la ligne, et n'être consommée qu'une fois.
+     */
+    private async checkHarvestedParts(components: CtoComponent[]): Promise<CtoValidationError[]> {
+        const errors: CtoValidationError[] = [];
+        const seen = new Set<string>();
+
+        for (const component of components) {
+            const sourceAssetIds = component.sourceAssetIds ?? [];
+            if (sourceAssetIds.length > component.quantity) {
+                errors.push({
+                    code: 'HARVESTED_PART_MISMATCH',
+                    message: `${sourceAssetIds.length} harvested parts given for ${component.quantity}x ${component.reference}`,
+                    component: component.type
+                });
+            }
+
+            for (const partId of sourceAssetIds) {
+                if (seen.has(partId)) {
+                    errors.push({
+                        code: 'HARVESTED_PART_MISMATCH',
+                        message: `Harvested part ${partId} is used more than once`,
+                        component: component.type
+                    });
+                    continue;
+                }
+                seen.add(partId);
+
+                const part = await this.findPart(partId);
+                if (!part || part.assetType !== 'COMPONENT' || part.status !== 'SELLABLE') {
+                    errors.push({
+                        code: 'HARVESTED_PART_UNAVAILABLE',
+                        message: `Harvested part ${partId} is not available (${part ? `${part.assetType} ${part.status}` : 'not found'})`,
+                        component: component.type
+                    });
+                    continue;
+                }
+
+                if (
+                    part.model !== component.reference ||
+                    componentFamily(part.componentType ?? '') !== componentFamily(component.type)
+                ) {
+                    errors.push({
+                        code: 'HARVESTED_PART_MISMATCH',
+                        message: `Harvested part ${partId} is ${part.componentType} ${part.model}, expected ${component.type} ${component.reference}`,
+                        component: component.type
+                    });
+                }
+            }
         }
 
-        return { valid: true, errors: [], ruleSet };
+        return errors;
+    }
+
+    /**
+     * Récupère une pièce (null si inconnue de l'asset-service)
+     */
+    private async findPart(partId: string): Promise<AssetServiceResponse | null> {
+        try {
+            return await this.assetClient.getAsset(partId);
+        } catch (error) {
+            if (error instanceof AssetServiceError && error.statusCode === 404) {
+                return null;
+            }
+            throw error;
+        }
     }
 
     /**
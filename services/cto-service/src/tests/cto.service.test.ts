@@ -5,10 +5,12 @@
 
 import { CtoValidationService } from '../services/ctoValidation.service';
 import { CtoPricingService } from '../services/ctoPricing.service';
+import { CtoLeadTimeService } from '../services/ctoLeadTime.service';
 import { RuleEngine } from '../rules/rule.engine';
-import { AssetServiceClient, AssetServiceResponse } from '../integrations/asset.client';
-import { AssetNotSellableError } from '../domain/ctoConfiguration.types';
-import { CtoRuleSetEntity, CompatibilityRulePayload } from '../rules/rule.types';
+import { AssetServiceClient, AssetServiceError, AssetServiceResponse } from '../integrations/asset.client';
+import { InventoryServiceClient } from '../integrations/inventory.client';
+import { AssetNotSellableError, CtoComponent } from '../domain/ctoConfiguration.types';
+import { CtoRuleSetEntity, CompatibilityRulePayload, RuleExpressionError } from '../rules/rule.types';
 import { PrismaClient, RuleType } from '@prisma/client';
 
 // Mock du PrismaClient
@@ -30,7 +32,15 @@ const mockPrisma = {
 
 // Mock du client Asset
 const mockAssetClient: AssetServiceClient = {
-    getAsset: jest.fn()
+    getAsset: jest.fn(),
+    getHardwareSpec: jest.fn()
+};
+
+// Mock du client Inventory
+const mockInventoryClient: InventoryServiceClient = {
+    checkAvailability: jest.fn(),
+    reserveAsset: jest.fn(),
+    quoteTransit: jest.fn()
 };
 
 // Mock des événements
@@ -100,6 +110,9 @@ describe('CtoService', () => {
         pricingService = new CtoPricingService(mockPrisma);
         ruleEngine = new RuleEngine();
 
+        // Par défaut : aucune spec matérielle enregistrée
+        (mockAssetClient.getHardwareSpec as jest.Mock).mockResolvedValue(null);
+
         // Setup mock par défaut pour RuleSet
         (mockPrisma.ctoRuleSet.findFirst as jest.Mock).mockResolvedValue({
             ...mockRuleSet,
@@ -174,6 +187,186 @@ describe('CtoService', () => {
         });
     });
 
+    describe('Baseline hardware spec', () => {
+        const sellableAsset: AssetServiceResponse = {
+            id: 'asset-uuid-1',
+            serialNumber: 'SN-001',
+            assetType: 'SERVER',
+            brand: 'Dell',
+            model: 'R740',
+            chassisRef: null,
+            status: 'SELLABLE',
+            grade: null,
+            createdAt: '2026-01-01T00:00:00Z',
+            updatedAt: '2026-01-01T00:00:00Z'
+        };
+
+        const baseline = {
+            id: 'spec-2',
+            assetId: 'asset-uuid-1',
+            version: 2,
+            source: 'REFURB',
+            notes: null,
+            createdAt: '2026-01-01T00:00:00Z',
+            components: [
+                { type: 'CPU', reference: 'XEON-SILVER-4210', quantity: 1, capacity: null, unit: null },
+                { type: 'RAM', reference: 'DDR4-32G', quantity: 4, capacity: 32, unit: 'GB' },
+                { type: 'STORAGE', reference: 'SSD-960G', quantity: 2, capacity: 960, unit: 'GB' },
+                { type: 'SCREEN', reference: 'LCD-15', quantity: 1, capacity: null, unit: null }
+            ]
+        };
+
+        test('should_report_changes_against_baseline', async () => {
+            (mockAssetClient.getAsset as jest.Mock).mockResolvedValue(sellableAsset);
+            (mockAssetClient.getHardwareSpec as jest.Mock).mockResolvedValue(baseline);
+
+            const result = await validationService.validate({
+                assetId: 'asset-uuid-1',
+                productModel: 'R740',
+                components: [
+                    { type: 'CPU', reference: 'XEON-SILVER-4210', quantity: 2 },
+                    { type: 'SSD', reference: 'SSD-960G', quantity: 2 }
+                ]
+            });
+
+            // RAM et SCREEN non mentionnés : inchangés
+            expect(result.valid).toBe(true);
+            expect(result.baseline?.version).toBe(2);
+            expect(result.changes).toEqual([
+                { type: 'CPU', reference: 'XEON-SILVER-4210', change: 'QUANTITY_CHANGED', baselineQuantity: 1, requestedQuantity: 2 }
+            ]);
+        });
+
+        test('should_evaluate_rules_on_baseline_merged_with_changes', async () => {
+            (mockAssetClient.getAsset as jest.Mock).mockResolvedValue(sellableAsset);
+            (mockAssetClient.getHardwareSpec as jest.Mock).mockResolvedValue(baseline);
+
+            // Seule la RAM change : le CPU de la spec satisfait la règle QUANTITY (min 1)
+            const upgradeRam = await validationService.validate({
+                assetId: 'asset-uuid-1',
+                productModel: 'R740',
+                components: [{ type: 'RAM', reference: 'DDR4-64G', quantity: 4 }]
+            });
+            expect(upgradeRam.valid).toBe(true);
+
+            // Retirer le CPU de la spec viole la règle QUANTITY
+            const removeCpu = await validationService.validate({
+                assetId: 'asset-uuid-1',
+                productModel: 'R740',
+                components: [{ type: 'CPU', reference: 'XEON-SILVER-4210', quantity: 0 }]
+            });
+            expect(removeCpu.valid).toBe(false);
+            expect(removeCpu.errors.map(e => e.code)).toEqual(['QUANTITY_ERROR']);
+        });
+
+        test('should_reject_change_on_non_upgradable_component', async () => {
+            (mockAssetClient.getAsset as jest.Mock).mockResolvedValue(sellableAsset);
+            (mockAssetClient.getHardwareSpec as jest.Mock).mockResolvedValue(baseline);
+
+            const result = await validationService.validate({
+                assetId: 'asset-uuid-1',
+                productModel: 'R740',
+                components: [
+                    { type: 'CPU', reference: 'XEON-SILVER-4210', quantity: 1 },
+                    { type: 'SCREEN', reference: 'LCD-17', quantity: 1 }
+                ]
+            });
+
+            expect(result.valid).toBe(false);
+            expect(result.errors.map(e => e.code)).toEqual(['NON_UPGRADABLE_COMPONENT', 'NON_UPGRADABLE_COMPONENT']);
+            expect(result.changes.map(c => c.change).sort()).toEqual(['ADDED', 'REMOVED']);
+        });
+    });
+
+    describe('Harvested parts', () => {
+        const sellableAsset: AssetServiceResponse = {
+            id: 'asset-uuid-1',
+            serialNumber: 'SN-001',
+            assetType: 'SERVER',
+            brand: 'Dell',
+            model: 'R740',
+            chassisRef: null,
+            status: 'SELLABLE',
+            grade: null,
+            createdAt: '2026-01-01T00:00:00Z',
+            updatedAt: '2026-01-01T00:00:00Z'
+        };
+
+        const harvestedCpu = (id: string, overrides: Partial<AssetServiceResponse> = {}): AssetServiceResponse => ({
+            ...sellableAsset,
+            id,
+            serialNumber: `SN-${id}`,
+            assetType: 'COMPONENT',
+            model: 'XEON-SILVER-4210',
+            grade: 'A',
+            parentAssetId: 'donor-1',
+            componentType: 'CPU',
+            ...overrides
+        });
+
+        const mockAssets = (assets: AssetServiceResponse[]) => {
+            (mockAssetClient.getAsset as jest.Mock).mockImplementation(async (id: string) => {
+                const asset = assets.find(a => a.id === id);
+                if (!asset) {
+                    throw new AssetServiceError(404, 'Not found');
+                }
+                return asset;
+            });
+        };
+
+        test('should_accept_available_matching_parts', async () => {
+            mockAssets([sellableAsset, harvestedCpu('part-1'), harvestedCpu('part-2')]);
+
+            const result = await validationService.validate({
+                assetId: 'asset-uuid-1',
+                productModel: 'R740',
+                components: [
+                    { type: 'CPU', reference: 'XEON-SILVER-4210', quantity: 2, sourceAssetIds: ['part-1', 'part-2'] }
+                ]
+            });
+
+            expect(result.valid).toBe(true);
+        });
+
+        test('should_reject_unavailable_or_mismatching_parts', async () => {
+            mockAssets([
+                sellableAsset,
+                harvestedCpu('part-sold', { status: 'SOLD' }),
+                harvestedCpu('part-gold', { model: 'XEON-GOLD-6230' })
+            ]);
+
+            const result = await validationService.validate({
+                assetId: 'asset-uuid-1',
+                productModel: 'R740',
+                components: [
+                    { type: 'CPU', reference: 'XEON-SILVER-4210', quantity: 2, sourceAssetIds: ['part-sold', 'part-gold'] }
+                ]
+            });
+
+            expect(result.valid).toBe(false);
+            expect(result.errors.map(e => e.code)).toEqual(['HARVESTED_PART_UNAVAILABLE', 'HARVESTED_PART_MISMATCH']);
+        });
+
+        test('should_reject_unknown_or_reused_parts', async () => {
+            mockAssets([sellableAsset, harvestedCpu('part-1')]);
+
+            const result = await validationService.validate({
+                assetId: 'asset-uuid-1',
+                productModel: 'R740',
+                components: [
+                    { type: 'CPU', reference: 'XEON-SILVER-4210', quantity: 2, sourceAssetIds: ['part-1', 'part-1', 'missing'] }
+                ]
+            });
+
+            expect(result.valid).toBe(false);
+            expect(result.errors.map(e => e.code)).toEqual([
+                'HARVESTED_PART_MISMATCH',      // 3 pièces pour 2 unités
+                'HARVESTED_PART_MISMATCH',      // part-1 réutilisée
+                'HARVESTED_PART_UNAVAILABLE'    // inconnue
+            ]);
+        });
+    });
+
     describe('Pricing', () => {
         test('should_validate_cto_and_freeze_price', async () => {
             // Arrange
@@ -310,5 +503,206 @@ describe('CtoService', () => {
             expect(errors.length).toBeGreaterThan(0);
             expect(errors.some(e => e.code === 'QUANTITY_ERROR')).toBe(true);
         });
+
+        describe('Expression rules', () => {
+            const server: CtoComponent[] = [
+                { type: 'CPU', reference: 'XEON-GOLD-6230', quantity: 2, attributes: { socket: 'LGA3647', tdpW: 125 } },
+                { type: 'MOTHERBOARD', reference: 'MB-R740', quantity: 1, attributes: { socket: 'LGA3647' } },
+                { type: 'RAM', reference: 'DDR4-64GB', quantity: 12, attributes: { capacityGb: 64 } },
+                { type: 'PSU', reference: 'PSU-495W', quantity: 1, attributes: { watts: 495 } }
+            ];
+
+            const expressionRuleSet = (expression: string, message?: string): CtoRuleSetEntity => ({
+                ...mockRuleSet,
+                rules: [{
+                    id: 'rule-expr',
+                    ruleSetId: mockRuleSet.id,
+                    ruleType: RuleType.EXPRESSION,
+                    payload: { productModel: 'R740', expression, message }
+                }]
+            });
+
+            test('should_explain_failing_bound_with_observed_values', () => {
+                // Act - 12 x 64 Go = 768 Go
+                const errors = ruleEngine.evaluateValidationRules(
+                    expressionRuleSet('sum(RAM.capacityGb) <= 512', 'RAM capacity exceeded'),
+                    'R740',
+                    server
+                );
+
+                // Assert
+                expect(errors).toHaveLength(1);
+                expect(errors[0]).toMatchObject({
+                    code: 'EXPRESSION_ERROR',
+                    message: 'RAM capacity exceeded: expected sum(RAM.capacityGb) <= 512, got sum(RAM.capacityGb) = 768 > 512'
+                });
+            });
+
+            test('should_point_to_failing_sub_expression', () => {
+                // Arrange - 495 W < 2 x 125 W x 1.2 + 200 W
+                const expression = ruleEngine.compileExpression(
+                    'count(CPU) >= 1 and sum(PSU.watts) >= sum(CPU.tdpW) * 1.2 + 200'
+                );
+
+                // Act
+                const result = ruleEngine.evaluateExpression(expression, { productModel: 'R740', components: server });
+
+                // Assert
+                expect(result.passed).toBe(false);
+                expect(result.failedExpression).toBe('sum(PSU.watts) >= sum(CPU.tdpW) * 1.2 + 200');
+                expect(result.explanation).toContain('got sum(PSU.watts) = 495 < sum(CPU.tdpW) * 1.2 + 200 = 500');
+            });
+
+            test('should_name_components_failing_quantifier', () => {
+                // Arrange
+                const components = [
+                    ...server,
+                    { type: 'CPU', reference: 'EPYC-7302', quantity: 1, attributes: { socket: 'SP3', tdpW: 155 } }
+                ];
+
+                // Act
+                const errors = ruleEngine.evaluateValidationRules(
+                    expressionRuleSet('any(MOTHERBOARD, true) implies all(CPU, socket == "LGA3647")'),
+                    'R740',
+                    components
+                );
+
+                // Assert
+                expect(errors[0]?.message).toBe(
+                    'all(CPU, socket == "LGA3647") fails for CPU EPYC-7302: expected socket == "LGA3647", got socket = "SP3" != "LGA3647" (required by any(MOTHERBOARD, true))'
+                );
+            });
+
+            test('should_pass_and_skip_other_models', () => {
+                // Act
+                const passing = ruleEngine.evaluateValidationRules(
+                    expressionRuleSet('model == "R740" and count(RAM) in [8, 12, 16]'),
+                    'R740',
+                    server
+                );
+                const otherModel = ruleEngine.evaluateValidationRules(
+                    expressionRuleSet('count(RAM) > 100'),
+                    'R640',
+                    server
+                );
+
+                // Assert
+                expect(passing).toHaveLength(0);
+                expect(otherModel).toHaveLength(0);
+            });
+
+            test('should_reject_ill_typed_expressions', () => {
+                // Assert
+                expect(() => ruleEngine.compileExpression('count(RAM) > "8"')).toThrow(RuleExpressionError);
+                expect(() => ruleEngine.compileExpression('sum(RAM)')).toThrow('sum() takes a component attribute');
+                expect(() => ruleEngine.compileExpression('socket == "SP3"')).toThrow('Unknown identifier socket');
+                expect(() => ruleEngine.compileExpression('count(CPU) + 1')).toThrow('must be a condition');
+            });
+
+            test('should_bound_nesting_and_length', () => {
+                // Arrange
+                const nested = `${'('.repeat(20000)}true${')'.repeat(20000)}`;
+                const chained = `count(CPU) ${'+ 1 '.repeat(490)}> 0`;
+
+                // Assert - erreur d'expression (400), pas de débordement de pile
+                expect(() => ruleEngine.compileExpression(nested)).toThrow(RuleExpressionError);
+                expect(() => ruleEngine.compileExpression(`${'not '.repeat(40)}true`)).toThrow('nested deeper than 32');
+                expect(() => ruleEngine.compileExpression(`${'('.repeat(32)}true${')'.repeat(32)}`)).not.toThrow();
+                expect(ruleEngine.evaluateExpression(
+                    ruleEngine.compileExpression(chained),
+                    { components: server }
+                ).passed).toBe(true);
+            });
+
+            test('should_report_missing_attribute_as_failure', () => {
+                // Act
+                const errors = ruleEngine.evaluateValidationRules(
+                    expressionRuleSet('sum(RAM.speedMhz) >= 2933'),
+                    'R740',
+                    server
+                );
+
+                // Assert
+                expect(errors[0]?.message).toBe(
+                    'Cannot evaluate sum(RAM.speedMhz): RAM DDR4-64GB has no attribute speedMhz'
+                );
+            });
+
+            test('should_sum_wildcard_attribute_over_components_carrying_it', () => {
+                // Arrange - PSU, RAM et carte mère sans tdpW : ignorés par *
+                const rules = expressionRuleSet('sum(PSU.watts) >= sum(*.tdpW)', 'PSU undersized');
+                const withGpu: CtoComponent[] = [
+                    ...server,
+                    { type: 'GPU', reference: 'A100', quantity: 1, attributes: { tdpW: 300 } }
+                ];
+
+                // Act - 2 x 125 W, puis 2 x 125 W + 300 W
+                const passing = ruleEngine.evaluateValidationRules(rules, 'R740', server);
+                const failing = ruleEngine.evaluateValidationRules(rules, 'R740', withGpu);
+
+                // Assert
+                expect(passing).toHaveLength(0);
+                expect(failing[0]?.message).toBe(
+                    'PSU undersized: expected sum(PSU.watts) >= sum(*.tdpW), got sum(PSU.watts) = 495 < sum(*.tdpW) = 550'
+                );
+            });
+        });
+    });
+
+    describe('Lead time', () => {
+        const components = [
+            { type: 'CPU', reference: 'XEON-GOLD-6230', quantity: 2 },
+            { type: 'RAM', reference: 'DDR4-32GB', quantity: 8 }
+        ];
+
+        test('should_add_transit_from_inventory_matrix_after_assembly', async () => {
+            // Arrange - 2 composants × 90 min + QA 30 min → 1 jour d'assemblage
+            const leadTimeService = new CtoLeadTimeService(mockPrisma, mockInventoryClient);
+            (mockInventoryClient.quoteTransit as jest.Mock).mockResolvedValue({
+                originWarehouseId: 'wh-par',
+                originCountry: 'FR',
+                destinationCountry: 'BE',
+                serviceLevel: 'EXPRESS',
+                source: 'MATRIX',
+                processingDays: 1,
+                transitDays: 1,
+                estimatedDelay: 2,
+                shipDate: '2026-10-20T00:00:00.000Z',
+                estimatedDeliveryDate: '2026-10-21T00:00:00.000Z',
+                reasons: []
+            });
+
+            // Act
+            const estimate = await leadTimeService.estimateLeadTime(
+                'ruleset-uuid-1',
+                'asset-uuid-1',
+                components,
+                { country: 'BE', postcode: '1000', serviceLevel: 'EXPRESS' }
+            );
+
+            // Assert - même devis que le routage, assemblage en préparation
+            expect(mockInventoryClient.quoteTransit).toHaveBeenCalledWith({
+                assetId: 'asset-uuid-1',
+                destinationCountry: 'BE',
+                postcode: '1000',
+                serviceLevel: 'EXPRESS',
+                processingDays: 1
+            });
+            expect(estimate).toEqual({
+                leadTimeDays: 2,
+                assemblyDays: 1,
+                transitDays: 1,
+                estimatedDeliveryDate: '2026-10-21T00:00:00.000Z'
+            });
+        });
+
+        test('should_count_assembly_only_without_destination', async () => {
+            const leadTimeService = new CtoLeadTimeService(mockPrisma, mockInventoryClient);
+
+            const estimate = await leadTimeService.estimateLeadTime('ruleset-uuid-1', 'asset-uuid-1', components);
+
+            expect(estimate).toEqual({ leadTimeDays: 1, assemblyDays: 1 });
+            expect(mockInventoryClient.quoteTransit).not.toHaveBeenCalled();
+        });
     });
 });
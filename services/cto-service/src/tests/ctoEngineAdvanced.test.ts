@@ -211,4 +211,59 @@ describe('CTO Engine Advanced - Sprint 22', () => {
             expect(prisma.ctoRuleVersion.create).not.toHaveBeenCalled();
         });
     });
+
+    // ========== LANGAGE DE RÈGLES ==========
+    describe('should_version_and_explain_expression_rules', () => {
+        const ruleLogic: RuleLogic = {
+            type: 'EXPRESSION',
+            conditions: [],
+            expression: 'count(GPU) > 0 implies sum(PSU.watts) >= 300 * count(GPU)',
+            action: 'BLOCK',
+            message: 'Alimentation insuffisante'
+        };
+
+        it('refuses to version an expression that does not type-check', async () => {
+            // Act & Assert
+            await expect(ruleEngine.createRuleVersion({
+                ruleId: 'RULE_PSU',
+                name: 'PSU Rule',
+                description: 'test',
+                logic: { ...ruleLogic, expression: 'sum(PSU.watts) >= "300"' }
+            })).rejects.toThrow('>= expects a number, got string');
+            expect(prisma.ctoRuleVersion.create).not.toHaveBeenCalled();
+        });
+
+        it('explains the failing sub-expression with the rule message', async () => {
+            // Arrange
+            prisma.$queryRaw.mockResolvedValue([
+                { ruleId: 'RULE_PSU', maxVersion: 1 }
+            ]);
+            prisma.ctoRuleVersion.findUnique.mockResolvedValue({
+                id: 'rv-psu-1',
+                ruleId: 'RULE_PSU',
+                version: 1,
+                name: 'PSU Rule',
+                description: 'test',
+                logic: ruleLogic,
+                createdAt: new Date()
+            });
+
+            const components: CtoComponent[] = [
+                { type: 'GPU', reference: 'A100', quantity: 2 },
+                { type: 'PSU', reference: 'PSU-495W', quantity: 1, attributes: { watts: 495 } }
+            ];
+
+            // Act
+            const result = await ruleEngine.evaluateConfiguration(components, 'R750');
+
+            // Assert
+            expect(result.passed).toBe(false);
+            expect(result.explanations[0]).toEqual({
+                code: 'RULE_RULE_PSU_FAILED',
+                message: 'Alimentation insuffisante: expected sum(PSU.watts) >= 300 * count(GPU), '
+                    + 'got sum(PSU.watts) = 495 < 300 * count(GPU) = 600 (required by count(GPU) > 0)',
+                severity: 'ERROR'
+            });
+        });
+    });
 });
@@ -16,6 +16,11 @@ export interface AssetResponse {
     updatedAt: string;
 }
 
+/**
+ * Taille de page demandée à l'Asset Service (maximum accepté : 500)
+ */
+const SELLABLE_PAGE_SIZE = 500;
+
 export class AssetServiceError extends Error {
     constructor(
         public readonly statusCode: number,
@@ -52,17 +57,35 @@ export class HttpAssetServiceClient implements AssetServiceClient {
         return response.json() as Promise<AssetResponse>;
     }
 
+    /**
+     * Tous les assets vendables : pages suivies jusqu'à nextCursor null
+     */
     async getSellableAssets(): Promise<AssetResponse[]> {
-        const response = await fetch(`${this.baseUrl}/assets?status=SELLABLE`, {
-            method: 'GET',
-            headers: { 'Content-Type': 'application/json' }
-        });
+        const assets: AssetResponse[] = [];
+        let cursor: string | null = null;
 
-        if (!response.ok) {
-            const errorBody = await response.text();
-            throw new AssetServiceError(response.status, errorBody);
-        }
+        do {
+            const params = new URLSearchParams({ status: 'SELLABLE', limit: String(SELLABLE_PAGE_SIZE) });
+            if (cursor) {
+                params.set('cursor', cursor);
+            }
+
+            const response = await fetch(`${this.baseUrl}/assets?${params}`, {
+                method: 'GET',
+                headers: { 'Content-Type': 'application/json' }
+            });
+
+            if (!response.ok) {
+                const errorBody = await response.text();
+                throw new AssetServiceError(response.status, errorBody);
+            }
+
+            // Réponse paginée : { data, nextCursor }
+            const page = await response.json() as { data: AssetResponse[]; nextCursor: string | null };
+            assets.push(...page.data);
+            cursor = page.nextCursor;
+        } while (cursor);
 
-        return response.json() as Promise<AssetResponse[]>;
+        return assets;
     }
 }
@@ -80,14 +80,29 @@ export interface Order {
 // API Functions
 
 /**
- * Récupère les Assets vendables
+ * Récupère les Assets vendables (toutes les pages, jusqu'à nextCursor null)
  */
 export async function getSellableAssets(): Promise<Asset[]> {
-    const response = await fetch(`${ASSET_SERVICE_URL}/assets?status=SELLABLE`);
-    if (!response.ok) {
-        throw new Error('Failed to fetch assets');
-    }
-    return response.json();
+    const assets: Asset[] = [];
+    let cursor: string | null = null;
+
+    do {
+        const params = new URLSearchParams({ status: 'SELLABLE', limit: '500' });
+        if (cursor) {
+            params.set('cursor', cursor);
+        }
+
+        const response = await fetch(`${ASSET_SERVICE_URL}/assets?${params}`);
+        if (!response.ok) {
+            throw new Error('Failed to fetch assets');
+        }
+        // Réponse paginée : { data, nextCursor }
+        const page: { data: Asset[]; nextCursor: string | null } = await response.json();
+        assets.push(...page.data);
+        cursor = page.nextCursor;
+    } while (cursor);
+
+    return assets;
 }
 
 /**
@@ -30,6 +30,10 @@ export const PERMISSION_CODES = {
     // Quality
     QUALITY_DEROGATION: 'QUALITY_DEROGATION',
 
+    // WMS
+    RESOLVE_BLOCKED_TASK: 'RESOLVE_BLOCKED_TASK',
+    OVERRIDE_TASK_SCAN: 'OVERRIDE_TASK_SCAN',
+
     // Contracts
     CLOSE_CONTRACT: 'CLOSE_CONTRACT',
     EXECUTE_RENEWAL: 'EXECUTE_RENEWAL',
@@ -49,6 +53,8 @@ export const CRITICAL_PERMISSIONS: PermissionCode[] = [
     'VALIDATE_PROCUREMENT',
     'SCRAP_ASSET',
     'QUALITY_DEROGATION',
+    'RESOLVE_BLOCKED_TASK',
+    'OVERRIDE_TASK_SCAN',
     'CLOSE_CONTRACT',
     'EXECUTE_RENEWAL',
     'MANAGE_ROLES'
@@ -5,10 +5,48 @@
 import { Router, Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { DecisionLogService } from '../services/decisionLog.service';
+import { PermissionService } from '../services/permission.service';
+import { PERMISSION_CODES, PermissionCode } from '../domain/permission.types';
 
 const router = Router();
 const prisma = new PrismaClient();
 const decisionLogService = new DecisionLogService(prisma);
+const permissionService = new PermissionService(prisma, decisionLogService);
+
+/**
+ * POST /decisions
+ * Décision d'un utilisateur pour un autre service : permission vérifiée
+ * (rôle ou délégation active) puis journalisée
+ */
+router.post('/', async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { actorId, actorName, action, entityType, entityId, context } = req.body;
+
+        if (!actorId || !action) {
+            res.status(400).json({ error: 'actorId and action are required' });
+            return;
+        }
+
+        if (!(Object.values(PERMISSION_CODES) as string[]).includes(action)) {
+            res.status(400).json({ error: `Unknown permission: ${action}` });
+            return;
+        }
+
+        const decision = await permissionService.authorizeDecision(actorId, action as PermissionCode, {
+            actorName,
+            entityType,
+            entityId,
+            details: context
+        });
+        res.status(201).json({ data: decision });
+    } catch (error: any) {
+        if (error.name === 'PermissionDeniedError') {
+            res.status(403).json({ error: error.message });
+            return;
+        }
+        res.status(500).json({ error: 'Failed to log decision' });
+    }
+});
 
 /**
  * GET /decisions
@@ -15,6 +15,7 @@ import {
     PermissionDeniedError,
     UnauthorizedOverrideError
 } from '../domain/permission.types';
+import { DecisionLogEntity } from '../domain/decisionLog.types';
 import { DecisionLogService } from './decisionLog.service';
 
 export class PermissionService {
@@ -143,6 +144,55 @@ export class PermissionService {
         throw new PermissionDeniedError(userId, permissionCode);
     }
 
+    /**
+     * Autoriser et journaliser une décision demandée par un autre service
+     * (ex. WMS : déblocage d'une tâche par un superviseur)
+     *
+     * La décision est toujours tracée, critique ou non : l'appelant
+     * conserve l'ID du DecisionLog comme preuve d'approbation.
+     */
+    async authorizeDecision(
+        userId: string,
+        permissionCode: PermissionCode,
+        context: { actorName?: string; entityType?: string; entityId?: string; details?: Record<string, unknown> }
+    ): Promise<DecisionLogEntity> {
+        if (!this.decisionLogService) {
+            throw new Error('DecisionLogService is required to authorize decisions');
+        }
+
+        let delegatedBy: string | undefined;
+
+        const hasDirectPermission = await this.hasPermissionViaRole(userId, permissionCode);
+        if (!hasDirectPermission) {
+            const delegation = await this.prisma.delegation.findFirst({
+                where: {
+                    toUserId: userId,
+                    active: true,
+                    permission: { code: permissionCode },
+                    OR: [
+                        { expiresAt: null },
+                        { expiresAt: { gt: new Date() } }
+                    ]
+                }
+            });
+
+            if (!delegation) {
+                throw new PermissionDeniedError(userId, permissionCode);
+            }
+            delegatedBy = delegation.fromUserId;
+        }
+
+        return this.decisionLogService.logDecision({
+            actorId: userId,
+            actorName: context.actorName,
+            action: permissionCode,
+            entityType: context.entityType,
+            entityId: context.entityId,
+            context: context.details,
+            delegatedBy
+        });
+    }
+
     /**
      * Bloquer toute tentative de bypass
      * RÈGLE ABSOLUE : Pas de super-admin, pas de bypass
@@ -7,6 +7,9 @@ import express, { Application, Request, Response, NextFunction } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { createInventoryRoutes } from './routes/inventory.routes';
 import { createRoutingRouter } from './routes/routing.routes';
+import { createCycleCountRoutes } from './routes/cycleCount.routes';
+import { createTransitTimeRoutes } from './routes/transitTime.routes';
+import { createTransferRoutes } from './routes/transfer.routes';
 
 export function createApp(prisma: PrismaClient): Application {
     const app = express();
@@ -22,6 +25,9 @@ export function createApp(prisma: PrismaClient): Application {
     // Routes
     app.use('/inventory', createInventoryRoutes(prisma));
     app.use('/inventory', createRoutingRouter(prisma));
+    app.use('/inventory/cycle-counts', createCycleCountRoutes(prisma));
+    app.use('/inventory/transit-times', createTransitTimeRoutes(prisma));
+    app.use('/inventory/transfers', createTransferRoutes(prisma));
 
     // 404 handler
     app.use((_req: Request, res: Response) => {
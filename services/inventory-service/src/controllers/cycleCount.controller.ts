@@ -0,0 +1,208 @@
+/**
+ * Cycle Count Controller
+ * Gère les requêtes HTTP pour les inventaires tournants
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { CycleCountService } from '../services/cycleCount.service';
+import { PrismaClient, CycleCountScope, CycleCountStatus } from '@prisma/client';
+import { WarehouseNotFoundError } from '../domain/location.types';
+import {
+    CycleCountNotFoundError,
+    CycleCountStatusError,
+    DuplicateScanError,
+    InvalidCycleCountError,
+    LocationNotInCountScopeError
+} from '../domain/cycleCount.types';
+
+export class CycleCountController {
+    private readonly cycleCountService: CycleCountService;
+
+    constructor(prisma: PrismaClient) {
+        this.cycleCountService = new CycleCountService(prisma);
+    }
+
+    openCycleCount = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const warehouseId = req.body.warehouseId;
+            const scope = req.body.scope as CycleCountScope;
+
+            if (!warehouseId || !scope) {
+                res.status(400).json({ error: 'ValidationError', message: 'warehouseId and scope are required' });
+                return;
+            }
+
+            const cycleCount = await this.cycleCountService.openCycleCount({
+                warehouseId,
+                scope,
+                locationIds: req.body.locationIds,
+                sampleSize: req.body.sampleSize,
+                createdBy: req.body.createdBy
+            });
+            res.status(201).json(cycleCount);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    listCycleCounts = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const warehouseId = req.query.warehouseId as string | undefined;
+            if (!warehouseId) {
+                res.status(400).json({ error: 'ValidationError', message: 'warehouseId query parameter is required' });
+                return;
+            }
+
+            const status = req.query.status as CycleCountStatus | undefined;
+            if (status && !Object.values(CycleCountStatus).includes(status)) {
+                res.status(400).json({ error: 'ValidationError', message: `Invalid status: ${status}` });
+                return;
+            }
+
+            const cycleCounts = await this.cycleCountService.listCycleCounts(warehouseId, status);
+            res.status(200).json(cycleCounts);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    getReport = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const cycleCountId = req.params.cycleCountId;
+            if (!cycleCountId) {
+                res.status(400).json({ error: 'ValidationError', message: 'cycleCountId is required' });
+                return;
+            }
+            const report = await this.cycleCountService.getReport(cycleCountId);
+            res.status(200).json(report);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    recordScans = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const cycleCountId = req.params.cycleCountId;
+            if (!cycleCountId) {
+                res.status(400).json({ error: 'ValidationError', message: 'cycleCountId is required' });
+                return;
+            }
+
+            const locationId = req.body.locationId;
+            const assetIds = req.body.assetIds;
+            if (!locationId || !Array.isArray(assetIds)) {
+                res.status(400).json({ error: 'ValidationError', message: 'locationId and assetIds are required' });
+                return;
+            }
+
+            const scans = await this.cycleCountService.recordScans(cycleCountId, {
+                locationId,
+                assetIds,
+                scannedBy: req.body.scannedBy
+            });
+            res.status(201).json(scans);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    closeCycleCount = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const cycleCountId = req.params.cycleCountId;
+            if (!cycleCountId) {
+                res.status(400).json({ error: 'ValidationError', message: 'cycleCountId is required' });
+                return;
+            }
+            const report = await this.cycleCountService.closeCycleCount(cycleCountId);
+            res.status(200).json(report);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    approveCycleCount = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const cycleCountId = req.params.cycleCountId;
+            if (!cycleCountId) {
+                res.status(400).json({ error: 'ValidationError', message: 'cycleCountId is required' });
+                return;
+            }
+
+            const approvedBy = req.body.approvedBy;
+            if (!approvedBy) {
+                res.status(400).json({ error: 'ValidationError', message: 'approvedBy is required' });
+                return;
+            }
+
+            const discrepancyIds = req.body.discrepancyIds;
+            if (discrepancyIds !== undefined && !Array.isArray(discrepancyIds)) {
+                res.status(400).json({ error: 'ValidationError', message: 'discrepancyIds must be an array' });
+                return;
+            }
+
+            const report = await this.cycleCountService.approveCycleCount(cycleCountId, { approvedBy, discrepancyIds });
+            res.status(200).json(report);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    cancelCycleCount = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const cycleCountId = req.params.cycleCountId;
+            if (!cycleCountId) {
+                res.status(400).json({ error: 'ValidationError', message: 'cycleCountId is required' });
+                return;
+            }
+            const cycleCount = await this.cycleCountService.cancelCycleCount(cycleCountId);
+            res.status(200).json(cycleCount);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    // ========== ERROR HANDLING ==========
+
+    private handleError(error: unknown, res: Response, next: NextFunction): void {
+        if (error instanceof WarehouseNotFoundError) {
+            res.status(404).json({ error: 'WarehouseNotFoundError', message: error.message });
+            return;
+        }
+
+        if (error instanceof CycleCountNotFoundError) {
+            res.status(404).json({ error: 'CycleCountNotFoundError', message: error.message });
+            return;
+        }
+
+        if (error instanceof InvalidCycleCountError) {
+            res.status(400).json({ error: 'InvalidCycleCountError', message: error.message });
+            return;
+        }
+
+        if (error instanceof CycleCountStatusError) {
+            res.status(409).json({
+                error: 'CycleCountStatusError',
+                message: error.message,
+                currentStatus: error.currentStatus
+            });
+            return;
+        }
+
+        if (error instanceof DuplicateScanError) {
+            res.status(409).json({
+                error: 'DuplicateScanError',
+                message: error.message,
+                locationId: error.locationId
+            });
+            return;
+        }
+
+        if (error instanceof LocationNotInCountScopeError) {
+            res.status(422).json({ error: 'LocationNotInCountScopeError', message: error.message });
+            return;
+        }
+
+        console.error('[ERROR]', error);
+        next(error);
+    }
+}
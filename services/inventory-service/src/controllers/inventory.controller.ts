@@ -5,20 +5,33 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { InventoryService } from '../services/inventory.service';
-import { PrismaClient, LocationType, MovementReason } from '@prisma/client';
+import { PrismaClient, LocationType, MovementReason, HoldType } from '@prisma/client';
 import {
     WarehouseNotFoundError,
     LocationNotFoundError,
-    DuplicateLocationError
+    DuplicateLocationError,
+    LocationCapacityExceededError
 } from '../domain/location.types';
-import { MissingToLocationError } from '../domain/movement.types';
+import {
+    MissingToLocationError,
+    InvalidMovementDestinationError,
+    SourceLocationMismatchError,
+    CrossWarehouseMoveError
+} from '../domain/movement.types';
 import {
     AssetAlreadyReservedError,
     AssetNotReservedError,
-    AssetNotSellableError
+    AssetNotSellableError,
+    InvalidHoldError,
+    ReservationExpiredError,
+    AlreadyWaitlistedError,
+    WaitlistEntryNotFoundError
 } from '../domain/reservation.types';
+import { AssetInTransitError } from '../domain/transfer.types';
 import { AssetServiceError } from '../integrations/asset.client';
 
+const DEFAULT_EXPIRING_WINDOW_MINUTES = 60;
+
 export class InventoryController {
     private readonly inventoryService: InventoryService;
 
@@ -77,13 +90,19 @@ export class InventoryController {
 
             const code = req.body.code;
             const type = req.body.type as LocationType;
+            const capacity = req.body.capacity ?? null;
 
             if (!code || !type) {
                 res.status(400).json({ error: 'ValidationError', message: 'code and type are required' });
                 return;
             }
 
-            const location = await this.inventoryService.createLocation(warehouseId, { code, type });
+            if (capacity !== null && (!Number.isInteger(capacity) || capacity <= 0)) {
+                res.status(400).json({ error: 'ValidationError', message: 'capacity must be a positive integer' });
+                return;
+            }
+
+            const location = await this.inventoryService.createLocation(warehouseId, { code, type, capacity });
             res.status(201).json(location);
         } catch (error) {
             this.handleError(error, res, next);
@@ -104,6 +123,20 @@ export class InventoryController {
         }
     };
 
+    getWarehouseOccupancy = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const warehouseId = req.params.warehouseId;
+            if (!warehouseId) {
+                res.status(400).json({ error: 'ValidationError', message: 'warehouseId is required' });
+                return;
+            }
+            const occupancy = await this.inventoryService.getWarehouseOccupancy(warehouseId);
+            res.status(200).json(occupancy);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
     // ========== MOVEMENTS ==========
 
     moveAsset = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -122,6 +155,11 @@ export class InventoryController {
                 return;
             }
 
+            if (!Object.values(MovementReason).includes(reason)) {
+                res.status(400).json({ error: 'ValidationError', message: `Invalid reason: ${reason}` });
+                return;
+            }
+
             const movement = await this.inventoryService.moveAsset(assetId, {
                 fromLocation: req.body.fromLocation,
                 toLocation,
@@ -177,7 +215,17 @@ export class InventoryController {
                 return;
             }
 
-            const reservation = await this.inventoryService.reserveAsset(assetId, { orderRef });
+            const holdType = req.body.holdType as HoldType | undefined;
+            if (holdType && !Object.values(HoldType).includes(holdType)) {
+                res.status(400).json({ error: 'ValidationError', message: `Invalid holdType: ${holdType}` });
+                return;
+            }
+
+            const reservation = await this.inventoryService.reserveAsset(assetId, {
+                orderRef,
+                holdType,
+                ttlMinutes: req.body.ttlMinutes
+            });
             res.status(201).json(reservation);
         } catch (error) {
             this.handleError(error, res, next);
@@ -216,6 +264,90 @@ export class InventoryController {
         }
     };
 
+    confirmReservation = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const assetId = req.params.assetId;
+            if (!assetId) {
+                res.status(400).json({ error: 'ValidationError', message: 'assetId is required' });
+                return;
+            }
+            const reservation = await this.inventoryService.confirmReservation(assetId, req.body.orderRef);
+            res.status(200).json(reservation);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    /**
+     * GET /inventory/reservations/expiring?withinMinutes=60
+     */
+    listExpiringReservations = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const withinMinutes = req.query.withinMinutes !== undefined
+                ? Number(req.query.withinMinutes)
+                : DEFAULT_EXPIRING_WINDOW_MINUTES;
+            if (!Number.isInteger(withinMinutes) || withinMinutes < 0) {
+                res.status(400).json({ error: 'ValidationError', message: 'withinMinutes must be a non-negative integer' });
+                return;
+            }
+            const reservations = await this.inventoryService.listExpiringReservations(withinMinutes);
+            res.status(200).json(reservations);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    // ========== WAITLIST ==========
+
+    joinWaitlist = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const assetId = req.params.assetId;
+            if (!assetId) {
+                res.status(400).json({ error: 'ValidationError', message: 'assetId is required' });
+                return;
+            }
+
+            const orderRef = req.body.orderRef;
+            if (!orderRef) {
+                res.status(400).json({ error: 'ValidationError', message: 'orderRef is required' });
+                return;
+            }
+
+            const entry = await this.inventoryService.joinWaitlist(assetId, orderRef);
+            res.status(201).json(entry);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    getWaitlist = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const assetId = req.params.assetId;
+            if (!assetId) {
+                res.status(400).json({ error: 'ValidationError', message: 'assetId is required' });
+                return;
+            }
+            const waitlist = await this.inventoryService.getWaitlist(assetId);
+            res.status(200).json(waitlist);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    leaveWaitlist = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { assetId, orderRef } = req.params;
+            if (!assetId || !orderRef) {
+                res.status(400).json({ error: 'ValidationError', message: 'assetId and orderRef are required' });
+                return;
+            }
+            await this.inventoryService.leaveWaitlist(assetId, orderRef);
+            res.status(204).send();
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
     // ========== AVAILABILITY ==========
 
     checkAvailability = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -255,6 +387,43 @@ export class InventoryController {
             return;
         }
 
+        if (error instanceof InvalidMovementDestinationError) {
+            res.status(422).json({
+                error: 'InvalidMovementDestinationError',
+                message: error.message,
+                locationType: error.locationType
+            });
+            return;
+        }
+
+        if (error instanceof SourceLocationMismatchError) {
+            res.status(409).json({
+                error: 'SourceLocationMismatchError',
+                message: error.message,
+                currentLocation: error.currentLocation
+            });
+            return;
+        }
+
+        if (error instanceof CrossWarehouseMoveError) {
+            res.status(422).json({ error: 'CrossWarehouseMoveError', message: error.message });
+            return;
+        }
+
+        if (error instanceof AssetInTransitError) {
+            res.status(409).json({ error: 'AssetInTransitError', message: error.message });
+            return;
+        }
+
+        if (error instanceof LocationCapacityExceededError) {
+            res.status(422).json({
+                error: 'LocationCapacityExceededError',
+                message: error.message,
+                capacity: error.capacity
+            });
+            return;
+        }
+
         if (error instanceof AssetAlreadyReservedError) {
             res.status(409).json({
                 error: 'AssetAlreadyReservedError',
@@ -278,6 +447,30 @@ export class InventoryController {
             return;
         }
 
+        if (error instanceof InvalidHoldError) {
+            res.status(400).json({ error: 'InvalidHoldError', message: error.message });
+            return;
+        }
+
+        if (error instanceof ReservationExpiredError) {
+            res.status(410).json({
+                error: 'ReservationExpiredError',
+                message: error.message,
+                expiresAt: error.expiresAt
+            });
+            return;
+        }
+
+        if (error instanceof AlreadyWaitlistedError) {
+            res.status(409).json({ error: 'AlreadyWaitlistedError', message: error.message });
+            return;
+        }
+
+        if (error instanceof WaitlistEntryNotFoundError) {
+            res.status(404).json({ error: 'WaitlistEntryNotFoundError', message: error.message });
+            return;
+        }
+
         if (error instanceof AssetServiceError) {
             res.status(502).json({
                 error: 'AssetServiceError',
@@ -0,0 +1,266 @@
+/**
+ * Transfer Controller
+ * Gère les requêtes HTTP pour les transferts inter-entrepôts
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { TransferService } from '../services/transfer.service';
+import { PrismaClient, TransferDiscrepancyResolution, TransferStatus } from '@prisma/client';
+import {
+    WarehouseNotFoundError,
+    LocationNotFoundError,
+    LocationCapacityExceededError
+} from '../domain/location.types';
+import { InvalidMovementDestinationError } from '../domain/movement.types';
+import { DuplicateScanError } from '../domain/cycleCount.types';
+import {
+    AssetNotInTransferError,
+    AssetNotTransferableError,
+    InvalidTransferError,
+    TransferNotFoundError,
+    TransferStatusError
+} from '../domain/transfer.types';
+import { WmsServiceError } from '../integrations/wms.client';
+
+export class TransferController {
+    private readonly transferService: TransferService;
+
+    constructor(prisma: PrismaClient) {
+        this.transferService = new TransferService(prisma);
+    }
+
+    createTransfer = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { fromWarehouseId, toWarehouseId, assetIds } = req.body;
+
+            if (!fromWarehouseId || !toWarehouseId || !Array.isArray(assetIds)) {
+                res.status(400).json({
+                    error: 'ValidationError',
+                    message: 'fromWarehouseId, toWarehouseId and assetIds are required'
+                });
+                return;
+            }
+
+            const transfer = await this.transferService.createTransfer({
+                fromWarehouseId,
+                toWarehouseId,
+                assetIds,
+                createdBy: req.body.createdBy
+            });
+            res.status(201).json(transfer);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    listTransfers = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const warehouseId = req.query.warehouseId as string | undefined;
+            if (!warehouseId) {
+                res.status(400).json({ error: 'ValidationError', message: 'warehouseId query parameter is required' });
+                return;
+            }
+
+            const status = req.query.status as TransferStatus | undefined;
+            if (status && !Object.values(TransferStatus).includes(status)) {
+                res.status(400).json({ error: 'ValidationError', message: `Invalid status: ${status}` });
+                return;
+            }
+
+            const transfers = await this.transferService.listTransfers(warehouseId, status);
+            res.status(200).json(transfers);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    getReport = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const transferId = req.params.transferId;
+            if (!transferId) {
+                res.status(400).json({ error: 'ValidationError', message: 'transferId is required' });
+                return;
+            }
+            const report = await this.transferService.getReport(transferId);
+            res.status(200).json(report);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    dispatchTransfer = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const transferId = req.params.transferId;
+            if (!transferId) {
+                res.status(400).json({ error: 'ValidationError', message: 'transferId is required' });
+                return;
+            }
+            const transfer = await this.transferService.dispatchTransfer(transferId);
+            res.status(200).json(transfer);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    receiveTransfer = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const transferId = req.params.transferId;
+            if (!transferId) {
+                res.status(400).json({ error: 'ValidationError', message: 'transferId is required' });
+                return;
+            }
+
+            const locationId = req.body.locationId;
+            const assetIds = req.body.assetIds;
+            if (!locationId || !Array.isArray(assetIds)) {
+                res.status(400).json({ error: 'ValidationError', message: 'locationId and assetIds are required' });
+                return;
+            }
+
+            const report = await this.transferService.receiveTransfer(transferId, {
+                locationId,
+                assetIds,
+                scannedBy: req.body.scannedBy
+            });
+            res.status(201).json(report);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    closeReceipt = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const transferId = req.params.transferId;
+            if (!transferId) {
+                res.status(400).json({ error: 'ValidationError', message: 'transferId is required' });
+                return;
+            }
+            const report = await this.transferService.closeReceipt(transferId);
+            res.status(200).json(report);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    resolveDiscrepancy = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { transferId, discrepancyId } = req.params;
+            if (!transferId || !discrepancyId) {
+                res.status(400).json({ error: 'ValidationError', message: 'transferId and discrepancyId are required' });
+                return;
+            }
+
+            const resolution = req.body.resolution as TransferDiscrepancyResolution;
+            const resolvedBy = req.body.resolvedBy;
+            if (!resolution || !resolvedBy) {
+                res.status(400).json({ error: 'ValidationError', message: 'resolution and resolvedBy are required' });
+                return;
+            }
+
+            const report = await this.transferService.resolveDiscrepancy(transferId, discrepancyId, {
+                resolution,
+                locationId: req.body.locationId,
+                resolvedBy
+            });
+            res.status(200).json(report);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    cancelTransfer = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const transferId = req.params.transferId;
+            if (!transferId) {
+                res.status(400).json({ error: 'ValidationError', message: 'transferId is required' });
+                return;
+            }
+            const transfer = await this.transferService.cancelTransfer(transferId);
+            res.status(200).json(transfer);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    // ========== ERROR HANDLING ==========
+
+    private handleError(error: unknown, res: Response, next: NextFunction): void {
+        if (error instanceof WarehouseNotFoundError) {
+            res.status(404).json({ error: 'WarehouseNotFoundError', message: error.message });
+            return;
+        }
+
+        if (error instanceof LocationNotFoundError) {
+            res.status(404).json({ error: 'LocationNotFoundError', message: error.message });
+            return;
+        }
+
+        if (error instanceof TransferNotFoundError) {
+            res.status(404).json({ error: 'TransferNotFoundError', message: error.message });
+            return;
+        }
+
+        if (error instanceof InvalidTransferError) {
+            res.status(400).json({ error: 'InvalidTransferError', message: error.message });
+            return;
+        }
+
+        if (error instanceof TransferStatusError) {
+            res.status(409).json({
+                error: 'TransferStatusError',
+                message: error.message,
+                currentStatus: error.currentStatus
+            });
+            return;
+        }
+
+        if (error instanceof AssetNotTransferableError) {
+            res.status(409).json({ error: 'AssetNotTransferableError', message: error.message });
+            return;
+        }
+
+        if (error instanceof DuplicateScanError) {
+            res.status(409).json({
+                error: 'DuplicateScanError',
+                message: error.message,
+                locationId: error.locationId
+            });
+            return;
+        }
+
+        if (error instanceof AssetNotInTransferError) {
+            res.status(422).json({ error: 'AssetNotInTransferError', message: error.message });
+            return;
+        }
+
+        if (error instanceof InvalidMovementDestinationError) {
+            res.status(422).json({
+                error: 'InvalidMovementDestinationError',
+                message: error.message,
+                locationType: error.locationType
+            });
+            return;
+        }
+
+        if (error instanceof LocationCapacityExceededError) {
+            res.status(422).json({
+                error: 'LocationCapacityExceededError',
+                message: error.message,
+                capacity: error.capacity
+            });
+            return;
+        }
+
+        if (error instanceof WmsServiceError) {
+            res.status(502).json({
+                error: 'WmsServiceError',
+                message: error.message,
+                upstreamStatusCode: error.statusCode
+            });
+            return;
+        }
+
+        console.error('[ERROR]', error);
+        next(error);
+    }
+}
@@ -0,0 +1,189 @@
+/**
+ * Transit Time Controller
+ * Gère les requêtes HTTP pour la matrice des délais de transport
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { PrismaClient, ServiceLevel } from '@prisma/client';
+import { TransitTimeService } from '../services/transitTime.service';
+import { WarehouseNotFoundError } from '../domain/location.types';
+import {
+    TransitQuoteRequest,
+    AssetNotInStockError,
+    InvalidTransitTimeError,
+    TransitTimeNotFoundError
+} from '../domain/transit.types';
+
+const DEFAULT_HOLIDAY_RANGE_DAYS = 365;
+
+export class TransitTimeController {
+    private readonly transitTimeService: TransitTimeService;
+
+    constructor(prisma: PrismaClient) {
+        this.transitTimeService = new TransitTimeService(prisma);
+    }
+
+    createTransitTime = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { originCountry, destinationCountry, transitDays } = req.body;
+
+            if (!originCountry || !destinationCountry || transitDays === undefined) {
+                res.status(400).json({
+                    error: 'ValidationError',
+                    message: 'originCountry, destinationCountry and transitDays are required'
+                });
+                return;
+            }
+
+            const transitTime = await this.transitTimeService.createTransitTime({
+                originCountry,
+                originWarehouseId: req.body.originWarehouseId,
+                destinationCountry,
+                postcodePrefix: req.body.postcodePrefix,
+                serviceLevel: req.body.serviceLevel,
+                transitDays,
+                cutoffTime: req.body.cutoffTime
+            });
+            res.status(201).json(transitTime);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    listTransitTimes = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const transitTimes = await this.transitTimeService.listTransitTimes(
+                req.query.originCountry as string | undefined,
+                req.query.destinationCountry as string | undefined
+            );
+            res.status(200).json(transitTimes);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    deactivateTransitTime = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const transitTimeId = req.params.transitTimeId;
+            if (!transitTimeId) {
+                res.status(400).json({ error: 'ValidationError', message: 'transitTimeId is required' });
+                return;
+            }
+            const transitTime = await this.transitTimeService.deactivateTransitTime(transitTimeId);
+            res.status(200).json(transitTime);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    addHoliday = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { country, date } = req.body;
+            if (!country || !date) {
+                res.status(400).json({ error: 'ValidationError', message: 'country and date are required' });
+                return;
+            }
+            const holiday = await this.transitTimeService.addHoliday({ country, date, label: req.body.label });
+            res.status(201).json(holiday);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    listHolidays = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const country = req.query.country as string | undefined;
+            if (!country) {
+                res.status(400).json({ error: 'ValidationError', message: 'country query parameter is required' });
+                return;
+            }
+
+            const from = req.query.from ? new Date(req.query.from as string) : new Date();
+            const to = req.query.to
+                ? new Date(req.query.to as string)
+                : new Date(from.getTime() + DEFAULT_HOLIDAY_RANGE_DAYS * 24 * 60 * 60 * 1000);
+            if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+                res.status(400).json({ error: 'ValidationError', message: 'from and to must be valid dates' });
+                return;
+            }
+
+            const holidays = await this.transitTimeService.listHolidays(country, from, to);
+            res.status(200).json(holidays);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    /**
+     * GET /inventory/transit-times/quote?warehouseId=|assetId=&destinationCountry=...
+     */
+    quote = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const warehouseId = req.query.warehouseId as string | undefined;
+            const assetId = req.query.assetId as string | undefined;
+            const destinationCountry = req.query.destinationCountry as string | undefined;
+
+            if ((!warehouseId && !assetId) || !destinationCountry) {
+                res.status(400).json({
+                    error: 'ValidationError',
+                    message: 'warehouseId or assetId, and destinationCountry are required'
+                });
+                return;
+            }
+
+            const serviceLevel = req.query.serviceLevel as ServiceLevel | undefined;
+            if (serviceLevel && !Object.values(ServiceLevel).includes(serviceLevel)) {
+                res.status(400).json({ error: 'ValidationError', message: `Invalid serviceLevel: ${serviceLevel}` });
+                return;
+            }
+
+            const processingDays = req.query.processingDays !== undefined
+                ? Number(req.query.processingDays)
+                : undefined;
+            if (processingDays !== undefined && (!Number.isInteger(processingDays) || processingDays < 0)) {
+                res.status(400).json({ error: 'ValidationError', message: 'processingDays must be a non-negative integer' });
+                return;
+            }
+
+            const request: TransitQuoteRequest = {
+                destinationCountry,
+                postcode: req.query.postcode as string | undefined,
+                serviceLevel,
+                processingDays
+            };
+            const quote = assetId
+                ? await this.transitTimeService.quoteForAsset(assetId, request)
+                : await this.transitTimeService.quoteForWarehouse(warehouseId as string, request);
+            res.status(200).json(quote);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    // ========== ERROR HANDLING ==========
+
+    private handleError(error: unknown, res: Response, next: NextFunction): void {
+        if (error instanceof WarehouseNotFoundError) {
+            res.status(404).json({ error: 'WarehouseNotFoundError', message: error.message });
+            return;
+        }
+
+        if (error instanceof AssetNotInStockError) {
+            res.status(404).json({ error: 'AssetNotInStockError', message: error.message });
+            return;
+        }
+
+        if (error instanceof TransitTimeNotFoundError) {
+            res.status(404).json({ error: 'TransitTimeNotFoundError', message: error.message });
+            return;
+        }
+
+        if (error instanceof InvalidTransitTimeError) {
+            res.status(400).json({ error: 'InvalidTransitTimeError', message: error.message });
+            return;
+        }
+
+        console.error('[ERROR]', error);
+        next(error);
+    }
+}
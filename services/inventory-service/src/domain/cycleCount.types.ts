@@ -0,0 +1,187 @@
+/**
+ * Cycle Count Types
+ * Types pour les inventaires tournants et la réconciliation du stock
+ *
+ * Cycle : OPEN (scans) → REVIEW (écarts calculés) → APPROVED (ajustements)
+ *                      ↘ CANCELLED
+ */
+
+import {
+    CycleCountScope,
+    CycleCountStatus,
+    DiscrepancyResolution,
+    DiscrepancyType
+} from '@prisma/client';
+
+// Re-export Prisma types
+export { CycleCountScope, CycleCountStatus, DiscrepancyResolution, DiscrepancyType };
+
+/**
+ * DTO pour ouvrir une campagne de comptage
+ */
+export interface CreateCycleCountDto {
+    warehouseId: string;
+    scope: CycleCountScope;
+    locationIds?: string[];     // Obligatoire pour LOCATION
+    sampleSize?: number;        // Obligatoire pour SAMPLE (nombre d'emplacements tirés)
+    createdBy?: string;
+}
+
+/**
+ * DTO pour enregistrer les assets scannés sur un emplacement
+ */
+export interface RecordScansDto {
+    locationId: string;
+    assetIds: string[];
+    scannedBy?: string;
+}
+
+/**
+ * DTO d'approbation des ajustements
+ * Sans discrepancyIds, tous les écarts sont approuvés ; les autres sont rejetés
+ */
+export interface ApproveCycleCountDto {
+    approvedBy: string;
+    discrepancyIds?: string[];
+}
+
+/**
+ * Entité Campagne de comptage
+ */
+export interface CycleCountEntity {
+    id: string;
+    warehouseId: string;
+    scope: CycleCountScope;
+    status: CycleCountStatus;
+    locationIds: string[];
+    createdBy: string | null;
+    approvedBy: string | null;
+    createdAt: Date;
+    closedAt: Date | null;
+    approvedAt: Date | null;
+}
+
+/**
+ * Entité Scan
+ */
+export interface CycleCountScanEntity {
+    id: string;
+    cycleCountId: string;
+    locationId: string;
+    assetId: string;
+    scannedBy: string | null;
+    createdAt: Date;
+}
+
+/**
+ * Entité Écart
+ */
+export interface DiscrepancyEntity {
+    id: string;
+    cycleCountId: string;
+    assetId: string;
+    type: DiscrepancyType;
+    expectedLocationId: string | null;
+    foundLocationId: string | null;
+    resolution: DiscrepancyResolution;
+    movementId: string | null;
+    createdAt: Date;
+}
+
+/**
+ * Écart calculé (avant persistance)
+ */
+export interface ComputedDiscrepancy {
+    assetId: string;
+    type: DiscrepancyType;
+    expectedLocationId: string | null;
+    foundLocationId: string | null;
+}
+
+/**
+ * Rapport d'audit d'une campagne
+ */
+export interface CycleCountReport {
+    cycleCount: CycleCountEntity;
+    summary: {
+        locations: number;
+        scanned: number;
+        matched: number;
+        missing: number;
+        unexpected: number;
+        misplaced: number;
+        approved: number;
+        rejected: number;
+    };
+    scans: CycleCountScanEntity[];
+    discrepancies: DiscrepancyEntity[];
+}
+
+/**
+ * Erreur : Campagne non trouvée
+ */
+export class CycleCountNotFoundError extends Error {
+    constructor(public readonly cycleCountId: string) {
+        super(`Cycle count ${cycleCountId} not found`);
+        this.name = 'CycleCountNotFoundError';
+    }
+}
+
+/**
+ * Erreur : Demande de comptage invalide
+ */
+export class InvalidCycleCountError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidCycleCountError';
+    }
+}
+
+/**
+ * Erreur : Opération incompatible avec le statut de la campagne
+ */
+export class CycleCountStatusError extends Error {
+    constructor(
+        public readonly cycleCountId: string,
+        public readonly currentStatus: CycleCountStatus,
+        public readonly expectedStatus: CycleCountStatus
+    ) {
+        super(`Cycle count ${cycleCountId} is ${currentStatus} (expected ${expectedStatus})`);
+        this.name = 'CycleCountStatusError';
+    }
+}
+
+/**
+ * Erreur : Emplacement hors du périmètre de la campagne
+ */
+export class LocationNotInCountScopeError extends Error {
+    constructor(
+        public readonly cycleCountId: string,
+        public readonly locationId: string
+    ) {
+        super(`Location ${locationId} is not part of cycle count ${cycleCountId}`);
+        this.name = 'LocationNotInCountScopeError';
+    }
+}
+
+/**
+ * Erreur : Asset déjà scanné dans la campagne
+ */
+export class DuplicateScanError extends Error {
+    constructor(
+        public readonly assetId: string,
+        public readonly locationId: string
+    ) {
+        super(`Asset ${assetId} was already scanned at location ${locationId}`);
+        this.name = 'DuplicateScanError';
+    }
+}
+
+/**
+ * Labels français pour DiscrepancyType
+ */
+export const DISCREPANCY_TYPE_LABELS: Record<DiscrepancyType, string> = {
+    MISSING: 'Manquant',
+    UNEXPECTED: 'Inattendu',
+    MISPLACED: 'Mal rangé'
+};
@@ -20,6 +20,7 @@ export interface CreateWarehouseDto {
 export interface CreateLocationDto {
     code: string;
     type: LocationType;
+    capacity?: number | null;   // Nombre max d'assets (null = illimité)
 }
 
 /**
@@ -43,9 +44,35 @@ export interface LocationEntity {
     warehouseId: string;
     code: string;
     type: LocationType;
+    capacity: number | null;
     createdAt: Date;
 }
 
+/**
+ * Taux de remplissage d'un emplacement
+ */
+export interface LocationOccupancy {
+    locationId: string;
+    code: string;
+    type: LocationType;
+    capacity: number | null;
+    occupied: number;
+    available: number | null;   // null = illimité
+    fillRate: number | null;    // occupied / capacity (0..1), null = illimité
+}
+
+/**
+ * Vue d'occupation d'un entrepôt
+ */
+export interface WarehouseOccupancy {
+    warehouseId: string;
+    capacity: number;           // Somme des capacités des emplacements limités
+    occupied: number;           // Assets rattachés à un emplacement
+    unlocated: number;          // Assets de l'entrepôt sans emplacement
+    fillRate: number | null;    // Sur les emplacements limités uniquement
+    locations: LocationOccupancy[];
+}
+
 /**
  * Erreur : Entrepôt non trouvé
  */
@@ -79,6 +106,19 @@ export class DuplicateLocationError extends Error {
     }
 }
 
+/**
+ * Erreur : Capacité de l'emplacement atteinte
+ */
+export class LocationCapacityExceededError extends Error {
+    constructor(
+        public readonly locationId: string,
+        public readonly capacity: number
+    ) {
+        super(`Location ${locationId} is full (capacity: ${capacity})`);
+        this.name = 'LocationCapacityExceededError';
+    }
+}
+
 /**
  * Labels français pour LocationType
  */
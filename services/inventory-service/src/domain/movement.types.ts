@@ -3,7 +3,7 @@
  * Types pour les mouvements de stock
  */
 
-import { MovementReason } from '@prisma/client';
+import { LocationType, MovementReason } from '@prisma/client';
 
 /**
  * DTO pour déplacer un asset
@@ -56,6 +56,65 @@ export class MissingToLocationError extends Error {
     }
 }
 
+/**
+ * Types d'emplacement autorisés comme destination, par motif
+ * RESERVE / RELEASE sont enregistrés sur place par les réservations,
+ * ADJUSTMENT uniquement par l'approbation d'un inventaire tournant,
+ * TRANSFER uniquement par les ordres de transfert inter-entrepôts
+ */
+export const MOVEMENT_DESTINATION_TYPES: Record<MovementReason, LocationType[]> = {
+    INTAKE: [LocationType.RECEIVING, LocationType.STORAGE],
+    MOVE: [LocationType.STORAGE, LocationType.ASSEMBLY, LocationType.SHIPPING],
+    RESERVE: [],
+    RELEASE: [],
+    SHIP: [LocationType.SHIPPING],
+    RETURN: [LocationType.RECEIVING],
+    ADJUSTMENT: [],
+    TRANSFER: []
+};
+
+/**
+ * Erreur : Type d'emplacement incompatible avec le motif du mouvement
+ */
+export class InvalidMovementDestinationError extends Error {
+    constructor(
+        public readonly locationId: string,
+        public readonly locationType: LocationType,
+        public readonly reason: MovementReason
+    ) {
+        super(`Location ${locationId} (${locationType}) is not a valid destination for a ${reason} movement`);
+        this.name = 'InvalidMovementDestinationError';
+    }
+}
+
+/**
+ * Erreur : Emplacement source différent de la position courante
+ */
+export class SourceLocationMismatchError extends Error {
+    constructor(
+        public readonly assetId: string,
+        public readonly fromLocation: string,
+        public readonly currentLocation: string | null
+    ) {
+        super(`Asset ${assetId} is not at location ${fromLocation} (current: ${currentLocation ?? 'none'})`);
+        this.name = 'SourceLocationMismatchError';
+    }
+}
+
+/**
+ * Erreur : Déplacement vers un autre entrepôt
+ */
+export class CrossWarehouseMoveError extends Error {
+    constructor(
+        public readonly assetId: string,
+        public readonly fromWarehouseId: string,
+        public readonly toWarehouseId: string
+    ) {
+        super(`Asset ${assetId} is stocked in warehouse ${fromWarehouseId} and cannot be moved to warehouse ${toWarehouseId}`);
+        this.name = 'CrossWarehouseMoveError';
+    }
+}
+
 /**
  * Labels français pour MovementReason
  */
@@ -65,5 +124,7 @@ export const MOVEMENT_REASON_LABELS: Record<MovementReason, string> = {
     RESERVE: 'Réservation',
     RELEASE: 'Libération',
     SHIP: 'Expédition',
-    RETURN: 'Retour'
+    RETURN: 'Retour',
+    ADJUSTMENT: 'Ajustement inventaire',
+    TRANSFER: 'Transfert inter-entrepôts'
 };
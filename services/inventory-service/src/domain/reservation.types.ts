@@ -3,11 +3,26 @@
  * Types pour les réservations
  */
 
+import { HoldType, WaitlistStatus } from '@prisma/client';
+
+/**
+ * Durée par défaut d'un blocage SOFT (devis, panier)
+ */
+export const DEFAULT_SOFT_HOLD_TTL_MINUTES = 30;
+
+/**
+ * Durée maximale d'un blocage SOFT (7 jours)
+ */
+export const MAX_SOFT_HOLD_TTL_MINUTES = 7 * 24 * 60;
+
 /**
  * DTO pour réserver un asset
+ * Sans holdType : blocage HARD (commande confirmée), sans expiration
  */
 export interface ReserveAssetDto {
     orderRef: string;
+    holdType?: HoldType;
+    ttlMinutes?: number;            // SOFT uniquement
 }
 
 /**
@@ -17,7 +32,42 @@ export interface ReservationEntity {
     id: string;
     assetId: string;
     orderRef: string;
+    holdType: HoldType;
+    expiresAt: Date | null;
+    confirmedAt: Date | null;
+    createdAt: Date;
+}
+
+/**
+ * Entrée de la file d'attente d'un asset
+ */
+export interface WaitlistEntryEntity {
+    id: string;
+    assetId: string;
+    orderRef: string;
+    status: WaitlistStatus;
     createdAt: Date;
+    claimedAt: Date | null;
+}
+
+/**
+ * Entrée de file d'attente avec son rang (1 = prochaine servie)
+ */
+export interface WaitlistPosition extends WaitlistEntryEntity {
+    position: number;
+}
+
+/**
+ * Intervalle par défaut du sweeper des blocages échus
+ */
+export const DEFAULT_RESERVATION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Résultat d'un passage du sweeper
+ */
+export interface ExpiredReservationsResult {
+    expired: ReservationEntity[];
+    claimed: ReservationEntity[];   // Blocages SOFT repris par la file d'attente
 }
 
 /**
@@ -64,3 +114,52 @@ export class AssetNotSellableError extends Error {
         this.name = 'AssetNotSellableError';
     }
 }
+
+/**
+ * Erreur : Paramètres de blocage invalides
+ */
+export class InvalidHoldError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidHoldError';
+    }
+}
+
+/**
+ * Erreur : Blocage SOFT arrivé à échéance
+ */
+export class ReservationExpiredError extends Error {
+    constructor(
+        public readonly assetId: string,
+        public readonly expiresAt: Date
+    ) {
+        super(`Reservation of asset ${assetId} expired at ${expiresAt.toISOString()}`);
+        this.name = 'ReservationExpiredError';
+    }
+}
+
+/**
+ * Erreur : Commande déjà dans la file d'attente (ou déjà titulaire)
+ */
+export class AlreadyWaitlistedError extends Error {
+    constructor(
+        public readonly assetId: string,
+        public readonly orderRef: string
+    ) {
+        super(`Order ${orderRef} is already waiting for or holding asset ${assetId}`);
+        this.name = 'AlreadyWaitlistedError';
+    }
+}
+
+/**
+ * Erreur : Entrée de file d'attente introuvable
+ */
+export class WaitlistEntryNotFoundError extends Error {
+    constructor(
+        public readonly assetId: string,
+        public readonly orderRef: string
+    ) {
+        super(`Order ${orderRef} is not waiting for asset ${assetId}`);
+        this.name = 'WaitlistEntryNotFoundError';
+    }
+}
@@ -0,0 +1,210 @@
+/**
+ * Transfer Types
+ * Types pour les transferts de stock inter-entrepôts
+ *
+ * Cycle : PLANNED → IN_TRANSIT (expédition) → RECEIVED
+ *                 ↘ CANCELLED      ↘ DISPUTED (manquants) → RECEIVED
+ */
+
+import { LocationType, TransferDiscrepancyResolution, TransferStatus } from '@prisma/client';
+
+// Re-export Prisma types
+export { TransferDiscrepancyResolution, TransferStatus };
+
+/**
+ * Types d'emplacement autorisés pour ranger une unité reçue
+ */
+export const TRANSFER_RECEIPT_LOCATION_TYPES: LocationType[] = [LocationType.RECEIVING, LocationType.STORAGE];
+
+/**
+ * Type de tâche WMS créée à l'origine pour chaque unité expédiée
+ */
+export const TRANSFER_WMS_TASK_TYPE = 'SHIPPING';
+
+/**
+ * Référence des tâches WMS d'un transfert (champ orderId côté WMS)
+ */
+export function transferReference(transferId: string): string {
+    return `TRANSFER-${transferId}`;
+}
+
+/**
+ * Statuts où les assets sont engagés dans un transfert
+ */
+export const OPEN_TRANSFER_STATUSES: TransferStatus[] = [
+    TransferStatus.PLANNED,
+    TransferStatus.IN_TRANSIT,
+    TransferStatus.DISPUTED
+];
+
+/**
+ * DTO pour créer un ordre de transfert
+ */
+export interface CreateTransferDto {
+    fromWarehouseId: string;
+    toWarehouseId: string;
+    assetIds: string[];
+    createdBy?: string;
+}
+
+/**
+ * DTO pour enregistrer les unités reçues sur un emplacement de destination
+ */
+export interface ReceiveTransferDto {
+    locationId: string;
+    assetIds: string[];
+    scannedBy?: string;
+}
+
+/**
+ * DTO de résolution d'un manquant
+ * FOUND : reçu en retard sur locationId ; LOST : retiré du stock
+ */
+export interface ResolveTransferDiscrepancyDto {
+    resolution: TransferDiscrepancyResolution;
+    locationId?: string;        // Obligatoire pour FOUND
+    resolvedBy: string;
+}
+
+/**
+ * Entité Ordre de transfert
+ */
+export interface TransferOrderEntity {
+    id: string;
+    fromWarehouseId: string;
+    toWarehouseId: string;
+    status: TransferStatus;
+    assetIds: string[];
+    createdBy: string | null;
+    createdAt: Date;
+    dispatchedAt: Date | null;
+    expectedArrivalAt: Date | null;
+    receivedAt: Date | null;
+}
+
+/**
+ * Entité Scan de réception
+ */
+export interface TransferScanEntity {
+    id: string;
+    transferId: string;
+    assetId: string;
+    locationId: string;
+    scannedBy: string | null;
+    movementId: string;
+    createdAt: Date;
+}
+
+/**
+ * Entité Manquant
+ */
+export interface TransferDiscrepancyEntity {
+    id: string;
+    transferId: string;
+    assetId: string;
+    resolution: TransferDiscrepancyResolution;
+    locationId: string | null;
+    movementId: string | null;
+    resolvedBy: string | null;
+    createdAt: Date;
+    resolvedAt: Date | null;
+}
+
+/**
+ * Rapport de réception d'un transfert
+ */
+export interface TransferReport {
+    transfer: TransferOrderEntity;
+    summary: {
+        shipped: number;
+        received: number;
+        pending: number;            // En transit, ni reçus ni déclarés manquants
+        missing: number;            // Manquants non résolus
+        found: number;
+        lost: number;
+    };
+    scans: TransferScanEntity[];
+    discrepancies: TransferDiscrepancyEntity[];
+}
+
+/**
+ * Erreur : Transfert non trouvé
+ */
+export class TransferNotFoundError extends Error {
+    constructor(public readonly transferId: string) {
+        super(`Transfer ${transferId} not found`);
+        this.name = 'TransferNotFoundError';
+    }
+}
+
+/**
+ * Erreur : Demande de transfert invalide
+ */
+export class InvalidTransferError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidTransferError';
+    }
+}
+
+/**
+ * Erreur : Opération incompatible avec le statut du transfert
+ */
+export class TransferStatusError extends Error {
+    constructor(
+        public readonly transferId: string,
+        public readonly currentStatus: TransferStatus,
+        public readonly expectedStatus: TransferStatus
+    ) {
+        super(`Transfer ${transferId} is ${currentStatus} (expected ${expectedStatus})`);
+        this.name = 'TransferStatusError';
+    }
+}
+
+/**
+ * Erreur : Asset non transférable (absent de l'entrepôt d'origine, non disponible
+ * ou déjà engagé dans un autre transfert)
+ */
+export class AssetNotTransferableError extends Error {
+    constructor(
+        public readonly assetId: string,
+        public readonly reason: string
+    ) {
+        super(`Asset ${assetId} cannot be transferred: ${reason}`);
+        this.name = 'AssetNotTransferableError';
+    }
+}
+
+/**
+ * Erreur : Asset scanné qui ne fait pas partie du transfert
+ */
+export class AssetNotInTransferError extends Error {
+    constructor(
+        public readonly transferId: string,
+        public readonly assetId: string
+    ) {
+        super(`Asset ${assetId} is not part of transfer ${transferId}`);
+        this.name = 'AssetNotInTransferError';
+    }
+}
+
+/**
+ * Erreur : Asset en transit (pas de déplacement manuel avant réception)
+ */
+export class AssetInTransitError extends Error {
+    constructor(public readonly assetId: string) {
+        super(`Asset ${assetId} is in transit between warehouses`);
+        this.name = 'AssetInTransitError';
+    }
+}
+
+/**
+ * Labels français pour TransferStatus
+ */
+export const TRANSFER_STATUS_LABELS: Record<TransferStatus, string> = {
+    PLANNED: 'Planifié',
+    IN_TRANSIT: 'En transit',
+    DISPUTED: 'Manquants à résoudre',
+    RECEIVED: 'Reçu',
+    CANCELLED: 'Annulé'
+};
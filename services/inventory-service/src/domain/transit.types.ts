@@ -0,0 +1,137 @@
+/**
+ * Transit Types
+ * Types pour la matrice des délais de transport et le calendrier d'expédition
+ *
+ * Délai estimé = préparation + transport, en jours ouvrés (lun–ven),
+ * allongé d'un jour après l'heure de coupure et de chaque jour férié traversé.
+ */
+
+import { ServiceLevel } from '@prisma/client';
+
+// Re-export Prisma types
+export { ServiceLevel };
+
+/**
+ * DTO pour créer une entrée de la matrice
+ */
+export interface CreateTransitTimeDto {
+    originCountry: string;
+    originWarehouseId?: string;     // Surcharge pour un entrepôt précis
+    destinationCountry: string;
+    postcodePrefix?: string;        // Zone de code postal (préfixe)
+    serviceLevel?: ServiceLevel;    // STANDARD par défaut
+    transitDays: number;
+    cutoffTime?: string;            // "HH:MM" UTC
+}
+
+/**
+ * DTO pour déclarer un jour férié
+ */
+export interface CreateHolidayDto {
+    country: string;
+    date: string;                   // "YYYY-MM-DD"
+    label?: string;
+}
+
+/**
+ * Entité Délai de transport
+ */
+export interface TransitTimeEntity {
+    id: string;
+    originCountry: string;
+    originWarehouseId: string | null;
+    destinationCountry: string;
+    postcodePrefix: string | null;
+    serviceLevel: ServiceLevel;
+    transitDays: number;
+    cutoffTime: string | null;
+    active: boolean;
+    createdAt: Date;
+}
+
+/**
+ * Entité Jour férié
+ */
+export interface HolidayEntity {
+    id: string;
+    country: string;
+    date: Date;
+    label: string | null;
+}
+
+/**
+ * Origine d'un envoi
+ */
+export interface TransitOrigin {
+    warehouseId: string;
+    country: string;
+}
+
+/**
+ * Destination et options d'un devis de transport
+ */
+export interface TransitQuoteRequest {
+    destinationCountry: string;
+    postcode?: string;
+    serviceLevel?: ServiceLevel;
+    readyAt?: Date;                 // Maintenant par défaut
+    processingDays?: number;        // Préparation / assemblage avant départ (jours ouvrés)
+}
+
+/**
+ * Devis de transport
+ */
+export interface TransitQuote {
+    originWarehouseId: string;
+    originCountry: string;
+    destinationCountry: string;
+    serviceLevel: ServiceLevel;
+    source: 'MATRIX' | 'DEFAULT';   // DEFAULT = DELIVERY_DELAYS, aucune entrée de matrice
+    transitTimeId: string | null;
+    processingDays: number;
+    transitDays: number;
+    estimatedDelay: number;         // Jours ouvrés jusqu'à la livraison
+    shipDate: Date;
+    estimatedDeliveryDate: Date;
+    reasons: string[];
+}
+
+/**
+ * Format de l'heure de coupure
+ */
+export const CUTOFF_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Horizon de chargement des jours fériés pour un devis
+ */
+export const HOLIDAY_HORIZON_DAYS = 90;
+
+/**
+ * Erreur : Entrée de matrice ou jour férié invalide
+ */
+export class InvalidTransitTimeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidTransitTimeError';
+    }
+}
+
+/**
+ * Erreur : Entrée de matrice non trouvée
+ */
+export class TransitTimeNotFoundError extends Error {
+    constructor(public readonly transitTimeId: string) {
+        super(`Transit time ${transitTimeId} not found`);
+        this.name = 'TransitTimeNotFoundError';
+    }
+}
+
+/**
+ * Erreur : Asset absent du stock (origine inconnue)
+ */
+export class AssetNotInStockError extends Error {
+    constructor(public readonly assetId: string) {
+        super(`Asset ${assetId} is not in stock`);
+        this.name = 'AssetNotInStockError';
+    }
+}
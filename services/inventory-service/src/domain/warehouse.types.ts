@@ -3,7 +3,8 @@
  * Types pour la gestion multi-entrepôts
  */
 
-import { StockStatus } from '@prisma/client';
+import { Prisma, StockStatus, ServiceLevel } from '@prisma/client';
+import { outbox } from '../events/inventory.events';
 
 // Re-export Prisma types
 export { StockStatus };
@@ -22,7 +23,24 @@ export const ROUTING_PRIORITY = {
 } as const;
 
 /**
- * Délais estimés par pays (jours ouvrés)
+ * Coûts du mode split (unités arbitraires, comparables entre elles)
+ * Coût d'un sous-envoi = colis + délai × jours + pénalité transfrontalière
+ */
+export const SPLIT_COST = {
+    PER_PARCEL: 10,
+    PER_DELAY_DAY: 2,
+    CROSS_BORDER: 5
+} as const;
+
+/**
+ * Au-delà, la répartition est calculée par heuristique gloutonne
+ * (recherche exacte en 2^n combinaisons d'entrepôts)
+ */
+export const MAX_EXACT_SPLIT_WAREHOUSES = 12;
+
+/**
+ * Délais par défaut par pays (jours ouvrés)
+ * Repli quand la matrice TransitTime n'a pas d'entrée pour le trajet
  */
 export const DELIVERY_DELAYS: Record<string, number> = {
     FR: 2,
@@ -60,6 +78,7 @@ export interface StockLocationEntity {
     id: string;
     assetId: string;
     warehouseId: string;
+    locationId: string | null;
     status: StockStatus;
     orderId?: string | null;
     createdAt: Date;
@@ -74,6 +93,10 @@ export interface RoutingRequest {
     orderId: string;
     customerCountry: string;
     assetIds: string[];
+    allowSplit?: boolean;       // Répartition sur plusieurs entrepôts
+    allowPartial?: boolean;     // Mode split : servir les assets disponibles, signaler les autres
+    postcode?: string;          // Zone de la matrice de transport
+    serviceLevel?: ServiceLevel; // STANDARD par défaut
 }
 
 export interface WarehouseScore {
@@ -82,6 +105,7 @@ export interface WarehouseScore {
     country: string;
     score: number;
     availableAssets: number;
+    inTransitAssets: number;    // Assets demandés en transfert vers cet entrepôt (non réservables)
     estimatedDelay: number;
     reasons: string[];
 }
@@ -95,6 +119,52 @@ export interface RoutingResult {
     calculatedAt: Date;
 }
 
+/**
+ * Sous-assignation d'une commande répartie (un colis par entrepôt)
+ */
+export interface SplitSubAssignment {
+    warehouseId: string;
+    warehouseCode: string;
+    country: string;
+    assetIds: string[];
+    estimatedDelay: number;
+    cost: number;
+    reasons: string[];          // WarehouseScore.reasons + détail du coût
+}
+
+export interface SplitRoutingResult {
+    orderId: string;
+    assignments: SplitSubAssignment[];
+    assetsReserved: string[];
+    assetsMissing: string[];
+    totalCost: number;
+    estimatedDelay: number;     // Délai du colis le plus lent
+    reasons: string[];          // Pourquoi cette répartition
+    calculatedAt: Date;
+}
+
+/**
+ * Répartition enregistrée pour une commande
+ */
+export interface SplitAssignment {
+    warehouseId: string;
+    assetIds: string[];
+}
+
+/**
+ * Entrée d'historique d'assignation (assignation initiale ou réassignation)
+ */
+export interface AssignmentHistoryEntry {
+    id: string;
+    orderId: string;
+    fromWarehouseIds: string[];
+    toWarehouseIds: string[];
+    reason: string;
+    createdAt: Date;
+}
+
+export const INITIAL_ASSIGNMENT_REASON = 'Initial routing';
+
 export interface RoutingFailure {
     orderId: string;
     reason: string;
@@ -105,7 +175,20 @@ export interface RoutingFailure {
 // EVENTS
 // ============================================
 
-export function emitWarehouseAssigned(orderId: string, warehouseCode: string): void {
+/**
+ * Publiés dans l'outbox : à appeler dans la transaction de l'écriture
+ */
+export async function emitWarehouseAssigned(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    warehouseCode: string
+): Promise<void> {
+    await outbox.publish(tx, {
+        type: 'WarehouseAssigned',
+        aggregateType: 'Order',
+        aggregateId: orderId,
+        payload: { orderId, warehouseCode }
+    });
     console.log('[EVENT]', JSON.stringify({
         type: 'WarehouseAssigned',
         orderId,
@@ -114,7 +197,18 @@ export function emitWarehouseAssigned(orderId: string, warehouseCode: string): v
     }));
 }
 
-export function emitAssetReservedAtWarehouse(assetId: string, warehouseCode: string, orderId: string): void {
+export async function emitAssetReservedAtWarehouse(
+    tx: Prisma.TransactionClient,
+    assetId: string,
+    warehouseCode: string,
+    orderId: string
+): Promise<void> {
+    await outbox.publish(tx, {
+        type: 'AssetReservedAtWarehouse',
+        aggregateType: 'Asset',
+        aggregateId: assetId,
+        payload: { assetId, warehouseCode, orderId }
+    });
     console.log('[EVENT]', JSON.stringify({
         type: 'AssetReservedAtWarehouse',
         assetId,
@@ -124,7 +218,61 @@ export function emitAssetReservedAtWarehouse(assetId: string, warehouseCode: str
     }));
 }
 
-export function emitRoutingFailed(orderId: string, reason: string): void {
+export async function emitOrderSplit(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    assignments: SplitSubAssignment[],
+    assetsMissing: string[]
+): Promise<void> {
+    const warehouses = assignments.map(a => ({ warehouseCode: a.warehouseCode, assets: a.assetIds.length }));
+    await outbox.publish(tx, {
+        type: 'OrderSplit',
+        aggregateType: 'Order',
+        aggregateId: orderId,
+        payload: { orderId, warehouses, assetsMissing }
+    });
+    console.log('[EVENT]', JSON.stringify({
+        type: 'OrderSplit',
+        orderId,
+        warehouses,
+        assetsMissing,
+        timestamp: new Date().toISOString()
+    }));
+}
+
+export async function emitOrderReassigned(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    fromWarehouseIds: string[],
+    toWarehouseIds: string[],
+    reason: string
+): Promise<void> {
+    await outbox.publish(tx, {
+        type: 'OrderReassigned',
+        aggregateType: 'Order',
+        aggregateId: orderId,
+        payload: { orderId, fromWarehouseIds, toWarehouseIds, reason }
+    });
+    console.log('[EVENT]', JSON.stringify({
+        type: 'OrderReassigned',
+        orderId,
+        fromWarehouseIds,
+        toWarehouseIds,
+        reason,
+        timestamp: new Date().toISOString()
+    }));
+}
+
+/**
+ * Aucun changement métier : `db` peut être le client hors transaction
+ */
+export async function emitRoutingFailed(db: Prisma.TransactionClient, orderId: string, reason: string): Promise<void> {
+    await outbox.publish(db, {
+        type: 'RoutingFailed',
+        aggregateType: 'Order',
+        aggregateId: orderId,
+        payload: { orderId, reason }
+    });
     console.log('[EVENT]', JSON.stringify({
         type: 'RoutingFailed',
         orderId,
@@ -157,3 +305,10 @@ export class WmsAlreadyStartedError extends Error {
         this.name = 'WmsAlreadyStartedError';
     }
 }
+
+export class OrderNotAssignedError extends Error {
+    constructor(orderId: string) {
+        super(`Order ${orderId} has no warehouse assigned`);
+        this.name = 'OrderNotAssignedError';
+    }
+}
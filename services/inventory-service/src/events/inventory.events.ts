@@ -1,12 +1,23 @@
 /**
  * Inventory Events
- * Émission d'événements domaine avec logger structuré
+ * Émission d'événements domaine (outbox transactionnelle + logger structuré)
+ *
+ * RÈGLE : chaque émetteur s'appelle dans la transaction du changement métier
  */
 
+import { Prisma } from '@prisma/client';
 import { MovementEntity } from '../domain/movement.types';
-import { ReservationEntity } from '../domain/reservation.types';
+import { ReservationEntity, WaitlistEntryEntity } from '../domain/reservation.types';
+import { CycleCountEntity, DiscrepancyEntity } from '../domain/cycleCount.types';
+import { TransferOrderEntity, TransferDiscrepancyEntity } from '../domain/transfer.types';
+import { createServiceOutbox } from '@proinfo/shared';
 import { logger } from '../utils/logger';
 
+/**
+ * Outbox du service : chaque émetteur y écrit dans la transaction métier (tx)
+ */
+export const outbox = createServiceOutbox('inventory-service');
+
 /**
  * Événement : Asset déplacé
  */
@@ -50,36 +61,321 @@ export interface AssetReservationReleasedEvent {
     };
 }
 
+/**
+ * Événement : Blocage SOFT échu, libéré par le sweeper
+ */
+export interface ReservationExpiredEvent {
+    eventType: 'ReservationExpired';
+    version: '1.0';
+    timestamp: Date;
+    payload: {
+        assetId: string;
+        orderRef: string;
+        expiresAt: Date;
+    };
+}
+
 /**
  * Émet l'événement AssetMoved
  */
-export function emitAssetMoved(movement: MovementEntity): void {
-    logger.event('AssetMoved', {
+export async function emitAssetMoved(tx: Prisma.TransactionClient, movement: MovementEntity): Promise<void> {
+    const payload = {
         assetId: movement.assetId,
         fromLocation: movement.fromLocation,
         toLocation: movement.toLocation,
         reason: movement.reason,
         movementId: movement.id
-    });
+    };
+
+    await outbox.publish(tx, { type: 'AssetMoved', aggregateType: 'Asset', aggregateId: movement.assetId, payload });
+    logger.event('AssetMoved', payload);
 }
 
 /**
  * Émet l'événement AssetReserved
  */
-export function emitAssetReserved(reservation: ReservationEntity): void {
-    logger.event('AssetReserved', {
+export async function emitAssetReserved(
+    tx: Prisma.TransactionClient,
+    reservation: ReservationEntity
+): Promise<void> {
+    const payload = {
+        assetId: reservation.assetId,
+        orderRef: reservation.orderRef,
+        reservationId: reservation.id,
+        holdType: reservation.holdType,
+        expiresAt: reservation.expiresAt
+    };
+
+    await outbox.publish(tx, {
+        type: 'AssetReserved',
+        aggregateType: 'Asset',
+        aggregateId: reservation.assetId,
+        payload
+    });
+    logger.event('AssetReserved', payload);
+}
+
+/**
+ * Émet l'événement ReservationConfirmed (SOFT → HARD)
+ */
+export async function emitReservationConfirmed(
+    tx: Prisma.TransactionClient,
+    reservation: ReservationEntity
+): Promise<void> {
+    const payload = {
         assetId: reservation.assetId,
         orderRef: reservation.orderRef,
         reservationId: reservation.id
+    };
+
+    await outbox.publish(tx, {
+        type: 'ReservationConfirmed',
+        aggregateType: 'Asset',
+        aggregateId: reservation.assetId,
+        payload
     });
+    logger.event('ReservationConfirmed', payload);
+}
+
+/**
+ * Émet l'événement ReservationExpired
+ */
+export async function emitReservationExpired(
+    tx: Prisma.TransactionClient,
+    reservation: ReservationEntity
+): Promise<void> {
+    const payload = {
+        assetId: reservation.assetId,
+        orderRef: reservation.orderRef,
+        expiresAt: reservation.expiresAt
+    };
+
+    await outbox.publish(tx, {
+        type: 'ReservationExpired',
+        aggregateType: 'Asset',
+        aggregateId: reservation.assetId,
+        payload
+    });
+    logger.event('ReservationExpired', payload);
+}
+
+/**
+ * Émet l'événement AssetWaitlisted
+ */
+export async function emitAssetWaitlisted(
+    tx: Prisma.TransactionClient,
+    entry: WaitlistEntryEntity,
+    position: number
+): Promise<void> {
+    const payload = {
+        assetId: entry.assetId,
+        orderRef: entry.orderRef,
+        position
+    };
+
+    await outbox.publish(tx, { type: 'AssetWaitlisted', aggregateType: 'Asset', aggregateId: entry.assetId, payload });
+    logger.event('AssetWaitlisted', payload);
+}
+
+/**
+ * Émet l'événement WaitlistClaimed (asset libéré bloqué pour la commande suivante)
+ */
+export async function emitWaitlistClaimed(
+    tx: Prisma.TransactionClient,
+    entry: WaitlistEntryEntity,
+    reservation: ReservationEntity
+): Promise<void> {
+    const payload = {
+        assetId: entry.assetId,
+        orderRef: entry.orderRef,
+        reservationId: reservation.id,
+        expiresAt: reservation.expiresAt
+    };
+
+    await outbox.publish(tx, { type: 'WaitlistClaimed', aggregateType: 'Asset', aggregateId: entry.assetId, payload });
+    logger.event('WaitlistClaimed', payload);
 }
 
 /**
  * Émet l'événement AssetReservationReleased
  */
-export function emitAssetReservationReleased(
+export async function emitAssetReservationReleased(
+    tx: Prisma.TransactionClient,
     assetId: string,
     orderRef: string
-): void {
-    logger.event('AssetReservationReleased', { assetId, orderRef });
+): Promise<void> {
+    const payload = { assetId, orderRef };
+
+    await outbox.publish(tx, {
+        type: 'AssetReservationReleased',
+        aggregateType: 'Asset',
+        aggregateId: assetId,
+        payload
+    });
+    logger.event('AssetReservationReleased', payload);
+}
+
+/**
+ * Émet l'événement CycleCountOpened
+ */
+export async function emitCycleCountOpened(
+    tx: Prisma.TransactionClient,
+    cycleCount: CycleCountEntity
+): Promise<void> {
+    const payload = {
+        cycleCountId: cycleCount.id,
+        warehouseId: cycleCount.warehouseId,
+        scope: cycleCount.scope,
+        locations: cycleCount.locationIds.length
+    };
+
+    await outbox.publish(tx, {
+        type: 'CycleCountOpened',
+        aggregateType: 'CycleCount',
+        aggregateId: cycleCount.id,
+        payload
+    });
+    logger.event('CycleCountOpened', payload);
+}
+
+/**
+ * Émet l'événement CycleCountClosed (écarts calculés)
+ */
+export async function emitCycleCountClosed(
+    tx: Prisma.TransactionClient,
+    cycleCount: CycleCountEntity,
+    discrepancies: DiscrepancyEntity[]
+): Promise<void> {
+    const payload = {
+        cycleCountId: cycleCount.id,
+        warehouseId: cycleCount.warehouseId,
+        discrepancies: discrepancies.length
+    };
+
+    await outbox.publish(tx, {
+        type: 'CycleCountClosed',
+        aggregateType: 'CycleCount',
+        aggregateId: cycleCount.id,
+        payload
+    });
+    logger.event('CycleCountClosed', payload);
+}
+
+/**
+ * Émet l'événement CycleCountApproved (ajustements appliqués)
+ */
+export async function emitCycleCountApproved(
+    tx: Prisma.TransactionClient,
+    cycleCount: CycleCountEntity,
+    discrepancies: DiscrepancyEntity[]
+): Promise<void> {
+    const payload = {
+        cycleCountId: cycleCount.id,
+        warehouseId: cycleCount.warehouseId,
+        approvedBy: cycleCount.approvedBy,
+        adjustments: discrepancies.filter(d => d.resolution === 'APPROVED').length,
+        rejected: discrepancies.filter(d => d.resolution === 'REJECTED').length
+    };
+
+    await outbox.publish(tx, {
+        type: 'CycleCountApproved',
+        aggregateType: 'CycleCount',
+        aggregateId: cycleCount.id,
+        payload
+    });
+    logger.event('CycleCountApproved', payload);
+}
+
+/**
+ * Émet l'événement TransferCreated
+ */
+export async function emitTransferCreated(
+    tx: Prisma.TransactionClient,
+    transfer: TransferOrderEntity
+): Promise<void> {
+    const payload = {
+        transferId: transfer.id,
+        fromWarehouseId: transfer.fromWarehouseId,
+        toWarehouseId: transfer.toWarehouseId,
+        assets: transfer.assetIds.length
+    };
+
+    await outbox.publish(tx, {
+        type: 'TransferCreated',
+        aggregateType: 'TransferOrder',
+        aggregateId: transfer.id,
+        payload
+    });
+    logger.event('TransferCreated', payload);
+}
+
+/**
+ * Émet l'événement TransferDispatched (stock en transit)
+ */
+export async function emitTransferDispatched(
+    tx: Prisma.TransactionClient,
+    transfer: TransferOrderEntity
+): Promise<void> {
+    const payload = {
+        transferId: transfer.id,
+        fromWarehouseId: transfer.fromWarehouseId,
+        toWarehouseId: transfer.toWarehouseId,
+        assets: transfer.assetIds.length,
+        expectedArrivalAt: transfer.expectedArrivalAt
+    };
+
+    await outbox.publish(tx, {
+        type: 'TransferDispatched',
+        aggregateType: 'TransferOrder',
+        aggregateId: transfer.id,
+        payload
+    });
+    logger.event('TransferDispatched', payload);
+}
+
+/**
+ * Émet l'événement TransferReceived (réception clôturée, manquants éventuels)
+ */
+export async function emitTransferReceived(
+    tx: Prisma.TransactionClient,
+    transfer: TransferOrderEntity,
+    missing: number
+): Promise<void> {
+    const payload = {
+        transferId: transfer.id,
+        toWarehouseId: transfer.toWarehouseId,
+        status: transfer.status,
+        missing
+    };
+
+    await outbox.publish(tx, {
+        type: 'TransferReceived',
+        aggregateType: 'TransferOrder',
+        aggregateId: transfer.id,
+        payload
+    });
+    logger.event('TransferReceived', payload);
+}
+
+/**
+ * Émet l'événement TransferDiscrepancyResolved
+ */
+export async function emitTransferDiscrepancyResolved(
+    tx: Prisma.TransactionClient,
+    discrepancy: TransferDiscrepancyEntity
+): Promise<void> {
+    const payload = {
+        transferId: discrepancy.transferId,
+        assetId: discrepancy.assetId,
+        resolution: discrepancy.resolution,
+        resolvedBy: discrepancy.resolvedBy
+    };
+
+    await outbox.publish(tx, {
+        type: 'TransferDiscrepancyResolved',
+        aggregateType: 'TransferOrder',
+        aggregateId: discrepancy.transferId,
+        payload
+    });
+    logger.event('TransferDiscrepancyResolved', payload);
 }
@@ -0,0 +1,97 @@
+/**
+ * WMS Service Client
+ * Client HTTP pour interroger le WMS Service sur l'avancement des commandes
+ * et lui confier les tâches d'expédition des transferts
+ */
+
+import { WmsStatusProvider } from '../services/routing.service';
+import { WmsTaskGateway } from '../services/transfer.service';
+
+/**
+ * Tâche WMS (champs utiles au routage)
+ */
+export interface WmsTaskSummary {
+    id: string;
+    assetId: string;
+    orderId: string | null;
+    type: string;
+    status: string;
+}
+
+/**
+ * Erreur lors de l'appel au WMS Service
+ */
+export class WmsServiceError extends Error {
+    constructor(
+        public readonly statusCode: number,
+        public readonly details: string
+    ) {
+        super(`WMS Service error (${statusCode}): ${details}`);
+        this.name = 'WmsServiceError';
+    }
+}
+
+/**
+ * Client HTTP par défaut pour WMS Service
+ *
+ * Une commande est considérée démarrée dès qu'une tâche WMS existe pour elle.
+ * Si le WMS ne répond pas, l'erreur est propagée : aucune réassignation
+ * n'est possible sans confirmation du WMS.
+ */
+export class HttpWmsStatusProvider implements WmsStatusProvider, WmsTaskGateway {
+    private readonly baseUrl: string;
+
+    constructor(baseUrl?: string) {
+        this.baseUrl = baseUrl ?? process.env.WMS_SERVICE_URL ?? 'http://localhost:3004';
+    }
+
+    async hasWmsStarted(orderId: string): Promise<boolean> {
+        const tasks = await this.getTasksForOrder(orderId);
+        return tasks.length > 0;
+    }
+
+    /**
+     * Récupère les tâches WMS d'une commande
+     */
+    async getTasksForOrder(orderId: string): Promise<WmsTaskSummary[]> {
+        let response: Response;
+        try {
+            response = await fetch(`${this.baseUrl}/wms/tasks?orderId=${encodeURIComponent(orderId)}`, {
+                method: 'GET',
+                headers: { 'Content-Type': 'application/json' }
+            });
+        } catch (error) {
+            throw new WmsServiceError(503, error instanceof Error ? error.message : String(error));
+        }
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            throw new WmsServiceError(response.status, errorBody);
+        }
+
+        return response.json() as Promise<WmsTaskSummary[]>;
+    }
+
+    /**
+     * Crée une tâche WMS pour un asset
+     */
+    async createTask(assetId: string, type: string, orderId: string): Promise<WmsTaskSummary> {
+        let response: Response;
+        try {
+            response = await fetch(`${this.baseUrl}/wms/tasks`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ assetId, type, orderId })
+            });
+        } catch (error) {
+            throw new WmsServiceError(503, error instanceof Error ? error.message : String(error));
+        }
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            throw new WmsServiceError(response.status, errorBody);
+        }
+
+        return response.json() as Promise<WmsTaskSummary>;
+    }
+}
@@ -0,0 +1,218 @@
+/**
+ * Cycle Count Repository
+ * Couche d'accès aux données pour les inventaires tournants
+ *
+ * Les scans sont append-only ; les écarts ne changent que de résolution.
+ */
+
+import {
+    Prisma,
+    CycleCount,
+    CycleCountScan,
+    CycleCountDiscrepancy,
+    CycleCountScope,
+    CycleCountStatus,
+    DiscrepancyResolution
+} from '@prisma/client';
+import {
+    CycleCountEntity,
+    CycleCountScanEntity,
+    DiscrepancyEntity,
+    ComputedDiscrepancy
+} from '../domain/cycleCount.types';
+
+export class CycleCountRepository {
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
+
+    /**
+     * Ouvre une campagne
+     */
+    async create(
+        warehouseId: string,
+        scope: CycleCountScope,
+        locationIds: string[],
+        createdBy?: string
+    ): Promise<CycleCountEntity> {
+        const cycleCount = await this.prisma.cycleCount.create({
+            data: {
+                warehouseId,
+                scope,
+                locationIds,
+                createdBy: createdBy ?? null
+            }
+        });
+        return this.toEntity(cycleCount);
+    }
+
+    /**
+     * Recherche une campagne par ID
+     */
+    async findById(id: string): Promise<CycleCountEntity | null> {
+        const cycleCount = await this.prisma.cycleCount.findUnique({
+            where: { id }
+        });
+        return cycleCount ? this.toEntity(cycleCount) : null;
+    }
+
+    /**
+     * Liste les campagnes d'un entrepôt (plus récentes d'abord)
+     */
+    async findByWarehouseId(warehouseId: string, status?: CycleCountStatus): Promise<CycleCountEntity[]> {
+        const cycleCounts = await this.prisma.cycleCount.findMany({
+            where: { warehouseId, ...(status ? { status } : {}) },
+            orderBy: { createdAt: 'desc' }
+        });
+        return cycleCounts.map(c => this.toEntity(c));
+    }
+
+    /**
+     * Passe une campagne en REVIEW
+     */
+    async markClosed(id: string): Promise<CycleCountEntity> {
+        const cycleCount = await this.prisma.cycleCount.update({
+            where: { id },
+            data: { status: CycleCountStatus.REVIEW, closedAt: new Date() }
+        });
+        return this.toEntity(cycleCount);
+    }
+
+    /**
+     * Passe une campagne en APPROVED
+     */
+    async markApproved(id: string, approvedBy: string): Promise<CycleCountEntity> {
+        const cycleCount = await this.prisma.cycleCount.update({
+            where: { id },
+            data: { status: CycleCountStatus.APPROVED, approvedBy, approvedAt: new Date() }
+        });
+        return this.toEntity(cycleCount);
+    }
+
+    /**
+     * Annule une campagne
+     */
+    async markCancelled(id: string): Promise<CycleCountEntity> {
+        const cycleCount = await this.prisma.cycleCount.update({
+            where: { id },
+            data: { status: CycleCountStatus.CANCELLED, closedAt: new Date() }
+        });
+        return this.toEntity(cycleCount);
+    }
+
+    // ========== SCANS ==========
+
+    /**
+     * Enregistre les assets scannés sur un emplacement
+     */
+    async createScans(
+        cycleCountId: string,
+        locationId: string,
+        assetIds: string[],
+        scannedBy?: string
+    ): Promise<CycleCountScanEntity[]> {
+        const scans: CycleCountScanEntity[] = [];
+        for (const assetId of assetIds) {
+            const scan = await this.prisma.cycleCountScan.create({
+                data: { cycleCountId, locationId, assetId, scannedBy: scannedBy ?? null }
+            });
+            scans.push(this.toScanEntity(scan));
+        }
+        return scans;
+    }
+
+    /**
+     * Liste les scans d'une campagne, éventuellement restreints à des assets
+     */
+    async findScans(cycleCountId: string, assetIds?: string[]): Promise<CycleCountScanEntity[]> {
+        const scans = await this.prisma.cycleCountScan.findMany({
+            where: { cycleCountId, ...(assetIds ? { assetId: { in: assetIds } } : {}) },
+            orderBy: { createdAt: 'asc' }
+        });
+        return scans.map(s => this.toScanEntity(s));
+    }
+
+    // ========== DISCREPANCIES ==========
+
+    /**
+     * Enregistre les écarts calculés à la clôture
+     */
+    async createDiscrepancies(cycleCountId: string, discrepancies: ComputedDiscrepancy[]): Promise<DiscrepancyEntity[]> {
+        const created: DiscrepancyEntity[] = [];
+        for (const discrepancy of discrepancies) {
+            const record = await this.prisma.cycleCountDiscrepancy.create({
+                data: { cycleCountId, ...discrepancy }
+            });
+            created.push(this.toDiscrepancyEntity(record));
+        }
+        return created;
+    }
+
+    /**
+     * Liste les écarts d'une campagne
+     */
+    async findDiscrepancies(cycleCountId: string): Promise<DiscrepancyEntity[]> {
+        const discrepancies = await this.prisma.cycleCountDiscrepancy.findMany({
+            where: { cycleCountId },
+            orderBy: { createdAt: 'asc' }
+        });
+        return discrepancies.map(d => this.toDiscrepancyEntity(d));
+    }
+
+    /**
+     * Enregistre la résolution d'un écart
+     */
+    async resolveDiscrepancy(
+        id: string,
+        resolution: DiscrepancyResolution,
+        movementId: string | null
+    ): Promise<DiscrepancyEntity> {
+        const discrepancy = await this.prisma.cycleCountDiscrepancy.update({
+            where: { id },
+            data: { resolution, movementId }
+        });
+        return this.toDiscrepancyEntity(discrepancy);
+    }
+
+    /**
+     * Convertit un record Prisma en entité
+     */
+    private toEntity(cycleCount: CycleCount): CycleCountEntity {
+        return {
+            id: cycleCount.id,
+            warehouseId: cycleCount.warehouseId,
+            scope: cycleCount.scope,
+            status: cycleCount.status,
+            locationIds: cycleCount.locationIds,
+            createdBy: cycleCount.createdBy,
+            approvedBy: cycleCount.approvedBy,
+            createdAt: cycleCount.createdAt,
+            closedAt: cycleCount.closedAt,
+            approvedAt: cycleCount.approvedAt
+        };
+    }
+
+    private toScanEntity(scan: CycleCountScan): CycleCountScanEntity {
+        return {
+            id: scan.id,
+            cycleCountId: scan.cycleCountId,
+            locationId: scan.locationId,
+            assetId: scan.assetId,
+            scannedBy: scan.scannedBy,
+            createdAt: scan.createdAt
+        };
+    }
+
+    private toDiscrepancyEntity(discrepancy: CycleCountDiscrepancy): DiscrepancyEntity {
+        return {
+            id: discrepancy.id,
+            cycleCountId: discrepancy.cycleCountId,
+            assetId: discrepancy.assetId,
+            type: discrepancy.type,
+            expectedLocationId: discrepancy.expectedLocationId,
+            foundLocationId: discrepancy.foundLocationId,
+            resolution: discrepancy.resolution,
+            movementId: discrepancy.movementId,
+            createdAt: discrepancy.createdAt
+        };
+    }
+}
@@ -3,11 +3,12 @@
  * Couche d'accès aux données pour les emplacements
  */
 
-import { PrismaClient, Location } from '@prisma/client';
+import { Prisma, Location } from '@prisma/client';
 import { CreateLocationDto, LocationEntity } from '../domain/location.types';
 
 export class LocationRepository {
-    constructor(private readonly prisma: PrismaClient) { }
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
 
     /**
      * Crée un nouvel emplacement
@@ -17,7 +18,8 @@ export class LocationRepository {
             data: {
                 warehouseId,
                 code: dto.code,
-                type: dto.type
+                type: dto.type,
+                capacity: dto.capacity ?? null
             }
         });
         return this.toEntity(location);
@@ -63,6 +65,7 @@ export class LocationRepository {
             warehouseId: location.warehouseId,
             code: location.code,
             type: location.type,
+            capacity: location.capacity,
             createdAt: location.createdAt
         };
     }
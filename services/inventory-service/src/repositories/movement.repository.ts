@@ -5,11 +5,12 @@
  * IMPORTANT : Append-only - pas d'update autorisé
  */
 
-import { PrismaClient, InventoryMovement, MovementReason } from '@prisma/client';
+import { Prisma, InventoryMovement, MovementReason } from '@prisma/client';
 import { MovementEntity, AssetPosition } from '../domain/movement.types';
 
 export class MovementRepository {
-    constructor(private readonly prisma: PrismaClient) { }
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
 
     /**
      * Crée un mouvement
@@ -0,0 +1,124 @@
+/**
+ * Order Assignment Repository
+ * Persistance des assignations commande → entrepôt(s)
+ *
+ * Une seule assignation active par commande ; l'historique est append-only.
+ */
+
+import { PrismaClient, Prisma, OrderAssignmentHistory } from '@prisma/client';
+import { OrderAssignmentStore, TransactionalPublisher } from '../services/routing.service';
+import { AssignmentHistoryEntry, SplitAssignment } from '../domain/warehouse.types';
+
+export class OrderAssignmentRepository implements OrderAssignmentStore {
+    constructor(private readonly prisma: PrismaClient) { }
+
+    /**
+     * Entrepôt assigné (mode un seul site)
+     */
+    async getAssignment(orderId: string): Promise<string | null> {
+        const assignment = await this.prisma.orderAssignment.findFirst({
+            where: { orderId, active: true, split: false }
+        });
+        return assignment?.warehouseId ?? null;
+    }
+
+    async setAssignment(
+        orderId: string,
+        warehouseId: string,
+        reason: string,
+        publish?: TransactionalPublisher
+    ): Promise<void> {
+        await this.replaceActive(orderId, [{ warehouseId, assetIds: [] }], false, reason, publish);
+    }
+
+    /**
+     * Répartition active (mode split)
+     */
+    async getSplitAssignment(orderId: string): Promise<SplitAssignment[] | null> {
+        const assignments = await this.prisma.orderAssignment.findMany({
+            where: { orderId, active: true, split: true },
+            orderBy: { createdAt: 'asc' }
+        });
+        if (assignments.length === 0) {
+            return null;
+        }
+        return assignments.map(a => ({ warehouseId: a.warehouseId, assetIds: a.assetIds }));
+    }
+
+    async setSplitAssignment(
+        orderId: string,
+        assignments: SplitAssignment[],
+        reason: string,
+        publish?: TransactionalPublisher
+    ): Promise<void> {
+        await this.replaceActive(orderId, assignments, true, reason, publish);
+    }
+
+    /**
+     * Historique des assignations (plus anciennes d'abord)
+     */
+    async getHistory(orderId: string): Promise<AssignmentHistoryEntry[]> {
+        const history = await this.prisma.orderAssignmentHistory.findMany({
+            where: { orderId },
+            orderBy: { createdAt: 'asc' }
+        });
+        return history.map(h => this.toHistoryEntry(h));
+    }
+
+    /**
+     * Désactive l'assignation courante, enregistre la nouvelle, historise
+     * et publie les événements associés
+     */
+    private async replaceActive(
+        orderId: string,
+        assignments: SplitAssignment[],
+        split: boolean,
+        reason: string,
+        publish?: TransactionalPublisher
+    ): Promise<void> {
+        await this.prisma.$transaction(async (tx) => {
+            const previous = await tx.orderAssignment.findMany({
+                where: { orderId, active: true },
+                orderBy: { createdAt: 'asc' }
+            });
+
+            await tx.orderAssignment.updateMany({
+                where: { orderId, active: true },
+                data: { active: false, releasedAt: new Date() }
+            });
+
+            await tx.orderAssignment.createMany({
+                data: assignments.map(a => ({
+                    orderId,
+                    warehouseId: a.warehouseId,
+                    assetIds: a.assetIds,
+                    split
+                }))
+            });
+
+            await tx.orderAssignmentHistory.create({
+                data: {
+                    orderId,
+                    fromWarehouseIds: previous.map(p => p.warehouseId),
+                    toWarehouseIds: assignments.map(a => a.warehouseId),
+                    reason
+                }
+            });
+
+            if (publish) {
+                await publish(tx);
+            }
+        }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+    }
+
+    private toHistoryEntry(history: OrderAssignmentHistory): AssignmentHistoryEntry {
+        return {
+            id: history.id,
+            orderId: history.orderId,
+            fromWarehouseIds: history.fromWarehouseIds,
+            toWarehouseIds: history.toWarehouseIds,
+            reason: history.reason,
+            createdAt: history.createdAt
+        };
+    }
+}
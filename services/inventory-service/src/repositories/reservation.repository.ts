@@ -6,7 +6,7 @@
  * Utilise une transaction atomique pour éviter les race conditions
  */
 
-import { PrismaClient, InventoryReservation, Prisma } from '@prisma/client';
+import { PrismaClient, InventoryReservation, Prisma, HoldType } from '@prisma/client';
 import { ReservationEntity, AssetAlreadyReservedError } from '../domain/reservation.types';
 
 export class ReservationRepository {
@@ -22,9 +22,15 @@ export class ReservationRepository {
      * Cela évite la race condition où deux processus tentent
      * de réserver le même asset simultanément.
      */
-    async createAtomic(assetId: string, orderRef: string): Promise<ReservationEntity> {
+    async createAtomic(
+        assetId: string,
+        orderRef: string,
+        holdType: HoldType = HoldType.HARD,
+        expiresAt: Date | null = null,
+        publish?: (tx: Prisma.TransactionClient, reservation: ReservationEntity) => Promise<void>
+    ): Promise<ReservationEntity> {
         try {
-            const reservation = await this.prisma.$transaction(async (tx) => {
+            return await this.prisma.$transaction(async (tx) => {
                 // Vérification atomique dans la transaction
                 const existing = await tx.inventoryReservation.findUnique({
                     where: { assetId }
@@ -35,15 +41,24 @@ export class ReservationRepository {
                 }
 
                 // Création garantie unique grâce à la transaction + contrainte @unique
-                return tx.inventoryReservation.create({
-                    data: { assetId, orderRef }
-                });
+                const reservation = this.toEntity(await tx.inventoryReservation.create({
+                    data: {
+                        assetId,
+                        orderRef,
+                        holdType,
+                        expiresAt,
+                        confirmedAt: holdType === HoldType.HARD ? new Date() : null
+                    }
+                }));
+
+                // Écritures liées (mouvement RESERVE, événement) dans la même transaction
+                await publish?.(tx, reservation);
+
+                return reservation;
             }, {
                 // Niveau d'isolation pour éviter les lectures fantômes
                 isolationLevel: Prisma.TransactionIsolationLevel.Serializable
             });
-
-            return this.toEntity(reservation);
         } catch (error) {
             // Si erreur de contrainte unique (cas rare de race condition)
             if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
@@ -89,13 +104,65 @@ export class ReservationRepository {
 
     /**
      * Supprime une réservation
+     * tx : transaction de l'appelant (suppression + mouvement RELEASE)
      */
-    async delete(assetId: string): Promise<void> {
-        await this.prisma.inventoryReservation.delete({
+    async delete(assetId: string, tx: Prisma.TransactionClient = this.prisma): Promise<void> {
+        await tx.inventoryReservation.delete({
             where: { assetId }
         });
     }
 
+    /**
+     * Supprime un blocage SOFT seulement s'il est arrivé à échéance
+     * (une confirmation concurrente l'emporte : rien n'est supprimé)
+     * tx : transaction de l'appelant (suppression + mouvement RELEASE)
+     */
+    async deleteIfExpired(
+        assetId: string,
+        now: Date,
+        tx: Prisma.TransactionClient = this.prisma
+    ): Promise<boolean> {
+        const result = await tx.inventoryReservation.deleteMany({
+            where: { assetId, holdType: HoldType.SOFT, expiresAt: { lte: now } }
+        });
+        return result.count > 0;
+    }
+
+    /**
+     * Passe un blocage SOFT non échu en HARD (sans échéance)
+     * tx : transaction de l'appelant (confirmation + événement)
+     */
+    async confirm(
+        assetId: string,
+        now: Date,
+        tx: Prisma.TransactionClient = this.prisma
+    ): Promise<ReservationEntity | null> {
+        const result = await tx.inventoryReservation.updateMany({
+            where: {
+                assetId,
+                holdType: HoldType.SOFT,
+                OR: [{ expiresAt: null }, { expiresAt: { gt: now } }]
+            },
+            data: { holdType: HoldType.HARD, expiresAt: null, confirmedAt: now }
+        });
+        if (result.count === 0) {
+            return null;
+        }
+        const confirmed = await tx.inventoryReservation.findUnique({ where: { assetId } });
+        return confirmed ? this.toEntity(confirmed) : null;
+    }
+
+    /**
+     * Blocages SOFT dont l'échéance tombe avant une date (échus inclus)
+     */
+    async findSoftExpiringBefore(date: Date): Promise<ReservationEntity[]> {
+        const reservations = await this.prisma.inventoryReservation.findMany({
+            where: { holdType: HoldType.SOFT, expiresAt: { lte: date } },
+            orderBy: { expiresAt: 'asc' }
+        });
+        return reservations.map(r => this.toEntity(r));
+    }
+
     /**
      * Liste les réservations par orderRef
      */
@@ -115,6 +182,9 @@ export class ReservationRepository {
             id: reservation.id,
             assetId: reservation.assetId,
             orderRef: reservation.orderRef,
+            holdType: reservation.holdType,
+            expiresAt: reservation.expiresAt,
+            confirmedAt: reservation.confirmedAt,
             createdAt: reservation.createdAt
         };
     }
@@ -0,0 +1,133 @@
+/**
+ * Stock Location Repository
+ * Couche d'accès aux données pour le stock courant par emplacement
+ *
+ * Projection de la position des assets, maintenue dans la même
+ * transaction que les mouvements.
+ */
+
+import { Prisma, StockLocation, StockStatus } from '@prisma/client';
+import { StockLocationEntity } from '../domain/warehouse.types';
+
+export class StockLocationRepository {
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
+
+    /**
+     * Recherche le stock d'un asset
+     */
+    async findByAssetId(assetId: string): Promise<StockLocationEntity | null> {
+        const stock = await this.prisma.stockLocation.findUnique({
+            where: { assetId }
+        });
+        return stock ? this.toEntity(stock) : null;
+    }
+
+    /**
+     * Place un asset sur un emplacement (création si absent du stock)
+     */
+    async placeAt(assetId: string, warehouseId: string, locationId: string): Promise<StockLocationEntity> {
+        const stock = await this.prisma.stockLocation.upsert({
+            where: { assetId },
+            create: {
+                assetId,
+                warehouseId,
+                locationId,
+                status: StockStatus.AVAILABLE
+            },
+            update: { warehouseId, locationId }
+        });
+        return this.toEntity(stock);
+    }
+
+    /**
+     * Passe des assets disponibles en transit vers un entrepôt
+     * Conditionnel : retourne le nombre d'assets effectivement passés
+     * (un asset réservé entre-temps n'est pas touché)
+     */
+    async markInTransit(assetIds: string[], toWarehouseId: string): Promise<number> {
+        const result = await this.prisma.stockLocation.updateMany({
+            where: { assetId: { in: assetIds }, status: StockStatus.AVAILABLE },
+            data: { status: StockStatus.IN_TRANSIT, warehouseId: toWarehouseId, locationId: null }
+        });
+        return result.count;
+    }
+
+    /**
+     * Réceptionne un asset en transit sur un emplacement (redevient disponible)
+     */
+    async receiveAt(assetId: string, warehouseId: string, locationId: string): Promise<StockLocationEntity> {
+        const stock = await this.prisma.stockLocation.update({
+            where: { assetId },
+            data: { warehouseId, locationId, status: StockStatus.AVAILABLE }
+        });
+        return this.toEntity(stock);
+    }
+
+    /**
+     * Liste le stock attendu sur un ensemble d'emplacements
+     */
+    async findByLocationIds(locationIds: string[]): Promise<StockLocationEntity[]> {
+        const stocks = await this.prisma.stockLocation.findMany({
+            where: { locationId: { in: locationIds } }
+        });
+        return stocks.map(s => this.toEntity(s));
+    }
+
+    /**
+     * Liste le stock d'un ensemble d'assets
+     */
+    async findByAssetIds(assetIds: string[]): Promise<StockLocationEntity[]> {
+        const stocks = await this.prisma.stockLocation.findMany({
+            where: { assetId: { in: assetIds } }
+        });
+        return stocks.map(s => this.toEntity(s));
+    }
+
+    /**
+     * Retire un asset du stock (constaté absent)
+     */
+    async remove(assetId: string): Promise<void> {
+        await this.prisma.stockLocation.deleteMany({
+            where: { assetId }
+        });
+    }
+
+    /**
+     * Compte les assets présents sur un emplacement
+     */
+    async countByLocationId(locationId: string): Promise<number> {
+        return this.prisma.stockLocation.count({
+            where: { locationId }
+        });
+    }
+
+    /**
+     * Compte les assets d'un entrepôt par emplacement
+     * La clé null regroupe les assets sans emplacement
+     */
+    async countByLocationForWarehouse(warehouseId: string): Promise<Map<string | null, number>> {
+        const groups = await this.prisma.stockLocation.groupBy({
+            by: ['locationId'],
+            where: { warehouseId },
+            _count: { _all: true }
+        });
+        return new Map(groups.map(g => [g.locationId, g._count._all]));
+    }
+
+    /**
+     * Convertit un record Prisma en entité
+     */
+    private toEntity(stock: StockLocation): StockLocationEntity {
+        return {
+            id: stock.id,
+            assetId: stock.assetId,
+            warehouseId: stock.warehouseId,
+            locationId: stock.locationId,
+            status: stock.status,
+            orderId: stock.orderId,
+            createdAt: stock.createdAt,
+            updatedAt: stock.updatedAt
+        };
+    }
+}
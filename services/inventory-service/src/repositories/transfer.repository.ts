@@ -0,0 +1,228 @@
+/**
+ * Transfer Repository
+ * Couche d'accès aux données pour les transferts inter-entrepôts
+ *
+ * Les scans de réception sont append-only ; les manquants ne changent
+ * que de résolution.
+ */
+
+import {
+    Prisma,
+    TransferOrder,
+    TransferScan,
+    TransferDiscrepancy,
+    TransferStatus,
+    TransferDiscrepancyResolution
+} from '@prisma/client';
+import {
+    TransferOrderEntity,
+    TransferScanEntity,
+    TransferDiscrepancyEntity,
+    OPEN_TRANSFER_STATUSES
+} from '../domain/transfer.types';
+
+export class TransferRepository {
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
+
+    /**
+     * Crée un ordre de transfert (PLANNED)
+     */
+    async create(
+        fromWarehouseId: string,
+        toWarehouseId: string,
+        assetIds: string[],
+        createdBy?: string
+    ): Promise<TransferOrderEntity> {
+        const transfer = await this.prisma.transferOrder.create({
+            data: {
+                fromWarehouseId,
+                toWarehouseId,
+                assetIds,
+                createdBy: createdBy ?? null
+            }
+        });
+        return this.toEntity(transfer);
+    }
+
+    /**
+     * Recherche un transfert par ID
+     */
+    async findById(id: string): Promise<TransferOrderEntity | null> {
+        const transfer = await this.prisma.transferOrder.findUnique({
+            where: { id }
+        });
+        return transfer ? this.toEntity(transfer) : null;
+    }
+
+    /**
+     * Liste les transferts au départ ou à destination d'un entrepôt (plus récents d'abord)
+     */
+    async findByWarehouseId(warehouseId: string, status?: TransferStatus): Promise<TransferOrderEntity[]> {
+        const transfers = await this.prisma.transferOrder.findMany({
+            where: {
+                OR: [{ fromWarehouseId: warehouseId }, { toWarehouseId: warehouseId }],
+                ...(status ? { status } : {})
+            },
+            orderBy: { createdAt: 'desc' }
+        });
+        return transfers.map(t => this.toEntity(t));
+    }
+
+    /**
+     * Transferts non clôturés engageant au moins un des assets
+     */
+    async findOpenByAssetIds(assetIds: string[]): Promise<TransferOrderEntity[]> {
+        const transfers = await this.prisma.transferOrder.findMany({
+            where: {
+                assetIds: { hasSome: assetIds },
+                status: { in: OPEN_TRANSFER_STATUSES }
+            }
+        });
+        return transfers.map(t => this.toEntity(t));
+    }
+
+    /**
+     * Passe un transfert en IN_TRANSIT
+     */
+    async markDispatched(id: string, expectedArrivalAt: Date | null): Promise<TransferOrderEntity> {
+        const transfer = await this.prisma.transferOrder.update({
+            where: { id },
+            data: { status: TransferStatus.IN_TRANSIT, dispatchedAt: new Date(), expectedArrivalAt }
+        });
+        return this.toEntity(transfer);
+    }
+
+    /**
+     * Change le statut d'un transfert (receivedAt posé à la réception complète)
+     */
+    async updateStatus(id: string, status: TransferStatus): Promise<TransferOrderEntity> {
+        const transfer = await this.prisma.transferOrder.update({
+            where: { id },
+            data: {
+                status,
+                ...(status === TransferStatus.RECEIVED ? { receivedAt: new Date() } : {})
+            }
+        });
+        return this.toEntity(transfer);
+    }
+
+    /**
+     * Enregistre un scan de réception
+     */
+    async createScan(
+        transferId: string,
+        assetId: string,
+        locationId: string,
+        movementId: string,
+        scannedBy?: string
+    ): Promise<TransferScanEntity> {
+        const scan = await this.prisma.transferScan.create({
+            data: {
+                transferId,
+                assetId,
+                locationId,
+                movementId,
+                scannedBy: scannedBy ?? null
+            }
+        });
+        return this.toScanEntity(scan);
+    }
+
+    /**
+     * Liste les scans d'un transfert
+     */
+    async findScans(transferId: string): Promise<TransferScanEntity[]> {
+        const scans = await this.prisma.transferScan.findMany({
+            where: { transferId },
+            orderBy: { createdAt: 'asc' }
+        });
+        return scans.map(s => this.toScanEntity(s));
+    }
+
+    /**
+     * Déclare les unités manquantes à la clôture de la réception
+     */
+    async createDiscrepancies(transferId: string, assetIds: string[]): Promise<TransferDiscrepancyEntity[]> {
+        const created: TransferDiscrepancyEntity[] = [];
+        for (const assetId of assetIds) {
+            const discrepancy = await this.prisma.transferDiscrepancy.create({
+                data: { transferId, assetId }
+            });
+            created.push(this.toDiscrepancyEntity(discrepancy));
+        }
+        return created;
+    }
+
+    /**
+     * Liste les manquants d'un transfert
+     */
+    async findDiscrepancies(transferId: string): Promise<TransferDiscrepancyEntity[]> {
+        const discrepancies = await this.prisma.transferDiscrepancy.findMany({
+            where: { transferId },
+            orderBy: { createdAt: 'asc' }
+        });
+        return discrepancies.map(d => this.toDiscrepancyEntity(d));
+    }
+
+    /**
+     * Résout un manquant
+     */
+    async resolveDiscrepancy(
+        id: string,
+        resolution: TransferDiscrepancyResolution,
+        locationId: string | null,
+        movementId: string,
+        resolvedBy: string
+    ): Promise<TransferDiscrepancyEntity> {
+        const discrepancy = await this.prisma.transferDiscrepancy.update({
+            where: { id },
+            data: { resolution, locationId, movementId, resolvedBy, resolvedAt: new Date() }
+        });
+        return this.toDiscrepancyEntity(discrepancy);
+    }
+
+    /**
+     * Convertit un record Prisma en entité
+     */
+    private toEntity(transfer: TransferOrder): TransferOrderEntity {
+        return {
+            id: transfer.id,
+            fromWarehouseId: transfer.fromWarehouseId,
+            toWarehouseId: transfer.toWarehouseId,
+            status: transfer.status,
+            assetIds: transfer.assetIds,
+            createdBy: transfer.createdBy,
+            createdAt: transfer.createdAt,
+            dispatchedAt: transfer.dispatchedAt,
+            expectedArrivalAt: transfer.expectedArrivalAt,
+            receivedAt: transfer.receivedAt
+        };
+    }
+
+    private toScanEntity(scan: TransferScan): TransferScanEntity {
+        return {
+            id: scan.id,
+            transferId: scan.transferId,
+            assetId: scan.assetId,
+            locationId: scan.locationId,
+            scannedBy: scan.scannedBy,
+            movementId: scan.movementId,
+            createdAt: scan.createdAt
+        };
+    }
+
+    private toDiscrepancyEntity(discrepancy: TransferDiscrepancy): TransferDiscrepancyEntity {
+        return {
+            id: discrepancy.id,
+            transferId: discrepancy.transferId,
+            assetId: discrepancy.assetId,
+            resolution: discrepancy.resolution,
+            locationId: discrepancy.locationId,
+            movementId: discrepancy.movementId,
+            resolvedBy: discrepancy.resolvedBy,
+            createdAt: discrepancy.createdAt,
+            resolvedAt: discrepancy.resolvedAt
+        };
+    }
+}
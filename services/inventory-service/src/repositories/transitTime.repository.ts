@@ -0,0 +1,139 @@
+/**
+ * Transit Time Repository
+ * Couche d'accès aux données pour la matrice des délais et les jours fériés
+ */
+
+import { Prisma, TransitTime, ShippingHoliday, ServiceLevel } from '@prisma/client';
+import {
+    CreateTransitTimeDto,
+    CreateHolidayDto,
+    TransitTimeEntity,
+    HolidayEntity
+} from '../domain/transit.types';
+
+export class TransitTimeRepository {
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
+
+    /**
+     * Crée une entrée de la matrice
+     */
+    async create(dto: CreateTransitTimeDto): Promise<TransitTimeEntity> {
+        const transitTime = await this.prisma.transitTime.create({
+            data: {
+                originCountry: dto.originCountry,
+                originWarehouseId: dto.originWarehouseId ?? null,
+                destinationCountry: dto.destinationCountry,
+                postcodePrefix: dto.postcodePrefix ?? null,
+                serviceLevel: dto.serviceLevel ?? ServiceLevel.STANDARD,
+                transitDays: dto.transitDays,
+                cutoffTime: dto.cutoffTime ?? null
+            }
+        });
+        return this.toEntity(transitTime);
+    }
+
+    /**
+     * Recherche une entrée par ID
+     */
+    async findById(id: string): Promise<TransitTimeEntity | null> {
+        const transitTime = await this.prisma.transitTime.findUnique({
+            where: { id }
+        });
+        return transitTime ? this.toEntity(transitTime) : null;
+    }
+
+    /**
+     * Liste les entrées actives, filtrables par origine / destination
+     */
+    async findActive(originCountry?: string, destinationCountry?: string): Promise<TransitTimeEntity[]> {
+        const transitTimes = await this.prisma.transitTime.findMany({
+            where: {
+                active: true,
+                ...(originCountry ? { originCountry } : {}),
+                ...(destinationCountry ? { destinationCountry } : {})
+            },
+            orderBy: [{ originCountry: 'asc' }, { destinationCountry: 'asc' }, { createdAt: 'asc' }]
+        });
+        return transitTimes.map(t => this.toEntity(t));
+    }
+
+    /**
+     * Entrées actives applicables à un trajet pays → pays pour un niveau de service
+     * (la plus spécifique est choisie par le service)
+     */
+    async findCandidates(
+        originCountry: string,
+        destinationCountry: string,
+        serviceLevel: ServiceLevel
+    ): Promise<TransitTimeEntity[]> {
+        const transitTimes = await this.prisma.transitTime.findMany({
+            where: { originCountry, destinationCountry, serviceLevel, active: true },
+            orderBy: { createdAt: 'asc' }
+        });
+        return transitTimes.map(t => this.toEntity(t));
+    }
+
+    /**
+     * Désactive une entrée (conservée pour l'historique des devis)
+     */
+    async deactivate(id: string): Promise<TransitTimeEntity> {
+        const transitTime = await this.prisma.transitTime.update({
+            where: { id },
+            data: { active: false }
+        });
+        return this.toEntity(transitTime);
+    }
+
+    // ========== HOLIDAYS ==========
+
+    /**
+     * Déclare un jour férié (idempotent par pays et date)
+     */
+    async upsertHoliday(dto: CreateHolidayDto, date: Date): Promise<HolidayEntity> {
+        const holiday = await this.prisma.shippingHoliday.upsert({
+            where: { country_date: { country: dto.country, date } },
+            create: { country: dto.country, date, label: dto.label ?? null },
+            update: { label: dto.label ?? null }
+        });
+        return this.toHolidayEntity(holiday);
+    }
+
+    /**
+     * Jours fériés de plusieurs pays sur une période
+     */
+    async findHolidays(countries: string[], from: Date, to: Date): Promise<HolidayEntity[]> {
+        const holidays = await this.prisma.shippingHoliday.findMany({
+            where: { country: { in: countries }, date: { gte: from, lte: to } },
+            orderBy: { date: 'asc' }
+        });
+        return holidays.map(h => this.toHolidayEntity(h));
+    }
+
+    /**
+     * Convertit un record Prisma en entité
+     */
+    private toEntity(transitTime: TransitTime): TransitTimeEntity {
+        return {
+            id: transitTime.id,
+            originCountry: transitTime.originCountry,
+            originWarehouseId: transitTime.originWarehouseId,
+            destinationCountry: transitTime.destinationCountry,
+            postcodePrefix: transitTime.postcodePrefix,
+            serviceLevel: transitTime.serviceLevel,
+            transitDays: transitTime.transitDays,
+            cutoffTime: transitTime.cutoffTime,
+            active: transitTime.active,
+            createdAt: transitTime.createdAt
+        };
+    }
+
+    private toHolidayEntity(holiday: ShippingHoliday): HolidayEntity {
+        return {
+            id: holiday.id,
+            country: holiday.country,
+            date: holiday.date,
+            label: holiday.label
+        };
+    }
+}
@@ -0,0 +1,84 @@
+/**
+ * Waitlist Repository
+ * Couche d'accès aux données pour la file d'attente des réservations
+ *
+ * Une entrée par (asset, commande) : une commande qui se réinscrit
+ * après annulation repasse en WAITING, en fin de file.
+ */
+
+import { Prisma, ReservationWaitlistEntry, WaitlistStatus } from '@prisma/client';
+import { WaitlistEntryEntity } from '../domain/reservation.types';
+
+export class WaitlistRepository {
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
+
+    /**
+     * Inscrit (ou réinscrit) une commande dans la file d'un asset
+     */
+    async enqueue(assetId: string, orderRef: string): Promise<WaitlistEntryEntity> {
+        const entry = await this.prisma.reservationWaitlistEntry.upsert({
+            where: { assetId_orderRef: { assetId, orderRef } },
+            create: { assetId, orderRef },
+            update: { status: WaitlistStatus.WAITING, createdAt: new Date(), claimedAt: null }
+        });
+        return this.toEntity(entry);
+    }
+
+    /**
+     * Recherche l'entrée d'une commande pour un asset
+     */
+    async find(assetId: string, orderRef: string): Promise<WaitlistEntryEntity | null> {
+        const entry = await this.prisma.reservationWaitlistEntry.findUnique({
+            where: { assetId_orderRef: { assetId, orderRef } }
+        });
+        return entry ? this.toEntity(entry) : null;
+    }
+
+    /**
+     * Liste les commandes en attente d'un asset (ordre d'arrivée)
+     */
+    async findWaiting(assetId: string): Promise<WaitlistEntryEntity[]> {
+        const entries = await this.prisma.reservationWaitlistEntry.findMany({
+            where: { assetId, status: WaitlistStatus.WAITING },
+            orderBy: { createdAt: 'asc' }
+        });
+        return entries.map(e => this.toEntity(e));
+    }
+
+    /**
+     * Marque une entrée comme servie (l'asset a été bloqué pour la commande)
+     */
+    async markClaimed(id: string): Promise<WaitlistEntryEntity> {
+        const entry = await this.prisma.reservationWaitlistEntry.update({
+            where: { id },
+            data: { status: WaitlistStatus.CLAIMED, claimedAt: new Date() }
+        });
+        return this.toEntity(entry);
+    }
+
+    /**
+     * Retire une commande de la file
+     */
+    async cancel(id: string): Promise<WaitlistEntryEntity> {
+        const entry = await this.prisma.reservationWaitlistEntry.update({
+            where: { id },
+            data: { status: WaitlistStatus.CANCELLED }
+        });
+        return this.toEntity(entry);
+    }
+
+    /**
+     * Convertit un record Prisma en entité
+     */
+    private toEntity(entry: ReservationWaitlistEntry): WaitlistEntryEntity {
+        return {
+            id: entry.id,
+            assetId: entry.assetId,
+            orderRef: entry.orderRef,
+            status: entry.status,
+            createdAt: entry.createdAt,
+            claimedAt: entry.claimedAt
+        };
+    }
+}
@@ -58,6 +58,7 @@ export class WarehouseRepository {
                 warehouseId: loc.warehouseId,
                 code: loc.code,
                 type: loc.type,
+                capacity: loc.capacity,
                 createdAt: loc.createdAt
             }))
         };
@@ -0,0 +1,28 @@
+/**
+ * Cycle Count Routes
+ * Configuration des routes REST pour les inventaires tournants
+ */
+
+import { Router } from 'express';
+import { CycleCountController } from '../controllers/cycleCount.controller';
+import { PrismaClient } from '@prisma/client';
+
+export function createCycleCountRoutes(prisma: PrismaClient): Router {
+    const router = Router();
+    const controller = new CycleCountController(prisma);
+
+    // === Campagnes ===
+    router.post('/', controller.openCycleCount);
+    router.get('/', controller.listCycleCounts);
+    router.get('/:cycleCountId', controller.getReport);
+
+    // === Comptage ===
+    router.post('/:cycleCountId/scans', controller.recordScans);
+    router.post('/:cycleCountId/close', controller.closeCycleCount);
+
+    // === Validation superviseur ===
+    router.post('/:cycleCountId/approve', controller.approveCycleCount);
+    router.post('/:cycleCountId/cancel', controller.cancelCycleCount);
+
+    return router;
+}
@@ -19,6 +19,7 @@ export function createInventoryRoutes(prisma: PrismaClient): Router {
     // === Locations ===
     router.post('/warehouses/:warehouseId/locations', controller.createLocation);
     router.get('/warehouses/:warehouseId/locations', controller.listLocations);
+    router.get('/warehouses/:warehouseId/occupancy', controller.getWarehouseOccupancy);
 
     // === Asset Movements ===
     router.post('/assets/:assetId/move', controller.moveAsset);
@@ -29,6 +30,13 @@ export function createInventoryRoutes(prisma: PrismaClient): Router {
     router.post('/assets/:assetId/reserve', controller.reserveAsset);
     router.post('/assets/:assetId/release', controller.releaseReservation);
     router.get('/assets/:assetId/reservation', controller.getReservation);
+    router.post('/assets/:assetId/reservation/confirm', controller.confirmReservation);
+    router.get('/reservations/expiring', controller.listExpiringReservations);
+
+    // === Waitlist ===
+    router.post('/assets/:assetId/waitlist', controller.joinWaitlist);
+    router.get('/assets/:assetId/waitlist', controller.getWaitlist);
+    router.delete('/assets/:assetId/waitlist/:orderRef', controller.leaveWaitlist);
 
     // === Availability ===
     router.get('/assets/:assetId/availability', controller.checkAvailability);
@@ -6,44 +6,12 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
-import {
-    RoutingService,
-    WmsStatusProvider,
-    OrderAssignmentStore
-} from '../services/routing.service';
+import { PrismaClient, ServiceLevel } from '@prisma/client';
+import { RoutingService } from '../services/routing.service';
+import { OrderAssignmentRepository } from '../repositories/orderAssignment.repository';
+import { HttpWmsStatusProvider } from '../integrations/wms.client';
 import { RoutingRequest } from '../domain/warehouse.types';
 
-// ============================================
-// MOCK PROVIDERS (à remplacer par vraies intégrations)
-// ============================================
-
-class MockWmsStatusProvider implements WmsStatusProvider {
-    private startedOrders = new Set<string>();
-
-    async hasWmsStarted(orderId: string): Promise<boolean> {
-        // Mock - en production, requêter le WMS service
-        return this.startedOrders.has(orderId);
-    }
-
-    // Pour les tests
-    markAsStarted(orderId: string): void {
-        this.startedOrders.add(orderId);
-    }
-}
-
-class InMemoryOrderAssignmentStore implements OrderAssignmentStore {
-    private assignments = new Map<string, string>();
-
-    async getAssignment(orderId: string): Promise<string | null> {
-        return this.assignments.get(orderId) || null;
-    }
-
-    async setAssignment(orderId: string, warehouseId: string): Promise<void> {
-        this.assignments.set(orderId, warehouseId);
-    }
-}
-
 // ============================================
 // ROUTES
 // ============================================
@@ -51,8 +19,8 @@ class InMemoryOrderAssignmentStore implements OrderAssignmentStore {
 export function createRoutingRouter(prisma: PrismaClient): Router {
     const router = Router();
 
-    const wmsProvider = new MockWmsStatusProvider();
-    const assignmentStore = new InMemoryOrderAssignmentStore();
+    const wmsProvider = new HttpWmsStatusProvider();
+    const assignmentStore = new OrderAssignmentRepository(prisma);
     const routingService = new RoutingService(prisma, wmsProvider, assignmentStore);
 
     /**
@@ -112,6 +80,7 @@ export function createRoutingRouter(prisma: PrismaClient): Router {
     /**
      * POST /routing/assign
      * Assignation d'une commande à un entrepôt
+     * (ou à plusieurs avec allowSplit, allowPartial pour servir partiellement)
      * 
      * RÈGLE STRICTE : Le système décide, l'humain exécute
      */
@@ -120,7 +89,11 @@ export function createRoutingRouter(prisma: PrismaClient): Router {
             const request: RoutingRequest = {
                 orderId: req.body.orderId,
                 customerCountry: req.body.customerCountry,
-                assetIds: req.body.assetIds || []
+                assetIds: req.body.assetIds || [],
+                allowSplit: req.body.allowSplit === true,
+                allowPartial: req.body.allowPartial === true,
+                postcode: req.body.postcode,
+                serviceLevel: req.body.serviceLevel
             };
 
             if (!request.orderId || !request.customerCountry || request.assetIds.length === 0) {
@@ -131,6 +104,24 @@ export function createRoutingRouter(prisma: PrismaClient): Router {
                 return;
             }
 
+            if (request.serviceLevel && !Object.values(ServiceLevel).includes(request.serviceLevel)) {
+                res.status(400).json({
+                    success: false,
+                    error: `Invalid serviceLevel: ${request.serviceLevel}`
+                });
+                return;
+            }
+
+            if (request.allowSplit) {
+                const split = await routingService.assignOrderWithSplit(request);
+                res.json({
+                    success: true,
+                    message: `Order assigned to ${split.assignments.length} warehouse(s)`,
+                    data: split
+                });
+                return;
+            }
+
             const result = await routingService.assignOrderToWarehouse(request);
 
             res.json({
@@ -140,15 +131,95 @@ export function createRoutingRouter(prisma: PrismaClient): Router {
             });
         } catch (error: any) {
             console.error('[Routing] Error assigning order:', error);
-            const statusCode = error.name === 'NoWarehouseAvailableError' ? 422 :
-                error.name === 'WmsAlreadyStartedError' ? 409 : 500;
-            res.status(statusCode).json({
+            res.status(routingErrorStatus(error)).json({
                 success: false,
                 error: error.message || 'Failed to assign order'
             });
         }
     });
 
+    /**
+     * POST /routing/reassign
+     * Réassignation d'une commande (raison obligatoire, historisée)
+     * 
+     * RÈGLE STRICTE : impossible dès qu'une tâche WMS existe pour la commande
+     */
+    router.post('/routing/reassign', async (req: Request, res: Response): Promise<void> => {
+        try {
+            const request: RoutingRequest = {
+                orderId: req.body.orderId,
+                customerCountry: req.body.customerCountry,
+                assetIds: req.body.assetIds || [],
+                allowSplit: req.body.allowSplit === true,
+                allowPartial: req.body.allowPartial === true,
+                postcode: req.body.postcode,
+                serviceLevel: req.body.serviceLevel
+            };
+            const reason = req.body.reason;
+
+            if (!request.orderId || !request.customerCountry || request.assetIds.length === 0 || !reason) {
+                res.status(400).json({
+                    success: false,
+                    error: 'orderId, customerCountry, assetIds, and reason are required'
+                });
+                return;
+            }
+
+            if (request.serviceLevel && !Object.values(ServiceLevel).includes(request.serviceLevel)) {
+                res.status(400).json({
+                    success: false,
+                    error: `Invalid serviceLevel: ${request.serviceLevel}`
+                });
+                return;
+            }
+
+            const result = await routingService.reassignOrder(request, reason);
+
+            res.json({
+                success: true,
+                message: 'Order reassigned',
+                data: result
+            });
+        } catch (error: any) {
+            console.error('[Routing] Error reassigning order:', error);
+            res.status(routingErrorStatus(error)).json({
+                success: false,
+                error: error.message || 'Failed to reassign order'
+            });
+        }
+    });
+
+    /**
+     * GET /routing/orders/:orderId/history
+     * Historique des assignations d'une commande
+     */
+    router.get('/routing/orders/:orderId/history', async (req: Request, res: Response): Promise<void> => {
+        try {
+            const orderId = req.params.orderId;
+            if (!orderId) {
+                res.status(400).json({
+                    success: false,
+                    error: 'orderId is required'
+                });
+                return;
+            }
+
+            const history = await routingService.getAssignmentHistory(orderId);
+
+            res.json({
+                success: true,
+                data: history,
+                count: history.length
+            });
+        } catch (error: any) {
+            console.error('[Routing] Error getting assignment history:', error);
+            res.status(500).json({
+                success: false,
+                error: error.message || 'Failed to get assignment history'
+            });
+        }
+    });
+
     /**
      * GET /stock/:assetId
      * Localisation d'un asset
@@ -189,3 +260,22 @@ export function createRoutingRouter(prisma: PrismaClient): Router {
 
     return router;
 }
+
+/**
+ * Code HTTP d'une erreur de routage
+ */
+function routingErrorStatus(error: Error): number {
+    switch (error.name) {
+        case 'NoWarehouseAvailableError':
+            return 422;
+        case 'OrderNotAssignedError':
+            return 404;
+        case 'WmsAlreadyStartedError':
+        case 'RoutingAlreadyAssignedError':
+            return 409;
+        case 'WmsServiceError':
+            return 502;
+        default:
+            return 500;
+    }
+}
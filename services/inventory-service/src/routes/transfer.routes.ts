@@ -0,0 +1,29 @@
+/**
+ * Transfer Routes
+ * Configuration des routes REST pour les transferts inter-entrepôts
+ */
+
+import { Router } from 'express';
+import { TransferController } from '../controllers/transfer.controller';
+import { PrismaClient } from '@prisma/client';
+
+export function createTransferRoutes(prisma: PrismaClient): Router {
+    const router = Router();
+    const controller = new TransferController(prisma);
+
+    // === Ordres de transfert ===
+    router.post('/', controller.createTransfer);
+    router.get('/', controller.listTransfers);
+    router.get('/:transferId', controller.getReport);
+    router.post('/:transferId/cancel', controller.cancelTransfer);
+
+    // === Expédition (origine) ===
+    router.post('/:transferId/dispatch', controller.dispatchTransfer);
+
+    // === Réception (destination) ===
+    router.post('/:transferId/receipts', controller.receiveTransfer);
+    router.post('/:transferId/close', controller.closeReceipt);
+    router.post('/:transferId/discrepancies/:discrepancyId/resolve', controller.resolveDiscrepancy);
+
+    return router;
+}
@@ -0,0 +1,27 @@
+/**
+ * Transit Time Routes
+ * Configuration des routes REST pour la matrice des délais de transport
+ */
+
+import { Router } from 'express';
+import { TransitTimeController } from '../controllers/transitTime.controller';
+import { PrismaClient } from '@prisma/client';
+
+export function createTransitTimeRoutes(prisma: PrismaClient): Router {
+    const router = Router();
+    const controller = new TransitTimeController(prisma);
+
+    // === Devis (routage, lead time CTO) ===
+    router.get('/quote', controller.quote);
+
+    // === Jours fériés ===
+    router.post('/holidays', controller.addHoliday);
+    router.get('/holidays', controller.listHolidays);
+
+    // === Matrice ===
+    router.post('/', controller.createTransitTime);
+    router.get('/', controller.listTransitTimes);
+    router.post('/:transitTimeId/deactivate', controller.deactivateTransitTime);
+
+    return router;
+}
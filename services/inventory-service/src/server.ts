@@ -5,7 +5,11 @@
 
 import { PrismaClient } from '@prisma/client';
 import { createApp } from './app';
+import { InventoryService } from './services/inventory.service';
+import { ReservationSweeper } from './services/reservationSweeper';
+import { DEFAULT_RESERVATION_SWEEP_INTERVAL_MS } from './domain/reservation.types';
 import { logger } from './utils/logger';
+import { outbox } from './events/inventory.events';
 
 const PORT = process.env.PORT ?? 3003;
 
@@ -17,8 +21,12 @@ async function main(): Promise<void> {
     try {
         await prisma.$connect();
         logger.dbConnected();
+        const sweepIntervalMs = Number(
+            process.env.RESERVATION_SWEEP_INTERVAL_MS ?? DEFAULT_RESERVATION_SWEEP_INTERVAL_MS
+        );
         logger.info('CONFIG', 'Service configuration loaded', {
-            ASSET_SERVICE_URL: process.env.ASSET_SERVICE_URL ?? 'http://localhost:3000'
+            ASSET_SERVICE_URL: process.env.ASSET_SERVICE_URL ?? 'http://localhost:3000',
+            RESERVATION_SWEEP_INTERVAL_MS: sweepIntervalMs
         });
 
         const app = createApp(prisma);
@@ -27,14 +35,26 @@ async function main(): Promise<void> {
             logger.serverStart(Number(PORT));
         });
 
+        // Libération des blocages SOFT échus
+        const sweeper = new ReservationSweeper(new InventoryService(prisma), sweepIntervalMs);
+        sweeper.start();
+
+        // Livraison des événements de l'outbox
+        const { dispatcher } = outbox.createDispatcher(prisma);
+        dispatcher.start();
+
         process.on('SIGINT', async () => {
             logger.serverShutdown();
+            sweeper.stop();
+            dispatcher.stop();
             await prisma.$disconnect();
             process.exit(0);
         });
 
         process.on('SIGTERM', async () => {
             logger.serverShutdown();
+            sweeper.stop();
+            dispatcher.stop();
             await prisma.$disconnect();
             process.exit(0);
         });
@@ -0,0 +1,390 @@
+/**
+ * Cycle Count Service
+ * Inventaires tournants : réconciliation du stock système avec l'étagère
+ *
+ * Règles :
+ * 1. Le périmètre (emplacements) est figé à l'ouverture
+ * 2. Les opérateurs scannent ce qui est physiquement présent, emplacement par emplacement
+ * 3. La clôture compare les scans à StockLocation et enregistre les écarts
+ *    (MISSING, UNEXPECTED, MISPLACED)
+ * 4. Un superviseur approuve : chaque écart approuvé génère un mouvement
+ *    ADJUSTMENT et met à jour le stock, dans UNE transaction
+ */
+
+import { PrismaClient, CycleCountScope, CycleCountStatus, DiscrepancyResolution, DiscrepancyType, MovementReason } from '@prisma/client';
+import { CycleCountRepository } from '../repositories/cycleCount.repository';
+import { WarehouseRepository } from '../repositories/warehouse.repository';
+import { LocationRepository } from '../repositories/location.repository';
+import { MovementRepository } from '../repositories/movement.repository';
+import { StockLocationRepository } from '../repositories/stockLocation.repository';
+import {
+    emitAssetMoved,
+    emitCycleCountApproved,
+    emitCycleCountClosed,
+    emitCycleCountOpened
+} from '../events/inventory.events';
+import { WarehouseNotFoundError } from '../domain/location.types';
+import { MovementEntity } from '../domain/movement.types';
+import { StockLocationEntity } from '../domain/warehouse.types';
+import {
+    ApproveCycleCountDto,
+    ComputedDiscrepancy,
+    CreateCycleCountDto,
+    CycleCountEntity,
+    CycleCountNotFoundError,
+    CycleCountReport,
+    CycleCountScanEntity,
+    CycleCountStatusError,
+    DiscrepancyEntity,
+    DuplicateScanError,
+    InvalidCycleCountError,
+    LocationNotInCountScopeError,
+    RecordScansDto
+} from '../domain/cycleCount.types';
+
+export class CycleCountService {
+    private readonly cycleCountRepository: CycleCountRepository;
+    private readonly warehouseRepository: WarehouseRepository;
+    private readonly locationRepository: LocationRepository;
+    private readonly stockLocationRepository: StockLocationRepository;
+
+    constructor(private readonly prisma: PrismaClient) {
+        this.cycleCountRepository = new CycleCountRepository(prisma);
+        this.warehouseRepository = new WarehouseRepository(prisma);
+        this.locationRepository = new LocationRepository(prisma);
+        this.stockLocationRepository = new StockLocationRepository(prisma);
+    }
+
+    /**
+     * Ouvre une campagne de comptage
+     *
+     * @throws WarehouseNotFoundError si l'entrepôt n'existe pas
+     * @throws InvalidCycleCountError si le périmètre est invalide
+     */
+    async openCycleCount(dto: CreateCycleCountDto): Promise<CycleCountEntity> {
+        if (!Object.values(CycleCountScope).includes(dto.scope)) {
+            throw new InvalidCycleCountError(`Invalid scope: ${dto.scope}`);
+        }
+
+        const warehouse = await this.warehouseRepository.findById(dto.warehouseId);
+        if (!warehouse) {
+            throw new WarehouseNotFoundError(dto.warehouseId);
+        }
+
+        const locations = await this.locationRepository.findByWarehouseId(dto.warehouseId);
+        if (locations.length === 0) {
+            throw new InvalidCycleCountError(`Warehouse ${dto.warehouseId} has no locations`);
+        }
+
+        const locationIds = this.resolveScope(dto, locations.map(l => l.id));
+        return this.prisma.$transaction(async (tx) => {
+            const cycleCount = await new CycleCountRepository(tx).create(
+                dto.warehouseId,
+                dto.scope,
+                locationIds,
+                dto.createdBy
+            );
+
+            await emitCycleCountOpened(tx, cycleCount);
+
+            return cycleCount;
+        });
+    }
+
+    /**
+     * Enregistre les assets scannés sur un emplacement
+     *
+     * @throws CycleCountStatusError si la campagne n'est pas OPEN
+     * @throws LocationNotInCountScopeError si l'emplacement n'est pas compté
+     * @throws DuplicateScanError si un asset a déjà été scanné
+     */
+    async recordScans(cycleCountId: string, dto: RecordScansDto): Promise<CycleCountScanEntity[]> {
+        const cycleCount = await this.getWithStatus(cycleCountId, CycleCountStatus.OPEN);
+
+        if (!cycleCount.locationIds.includes(dto.locationId)) {
+            throw new LocationNotInCountScopeError(cycleCountId, dto.locationId);
+        }
+
+        if (!Array.isArray(dto.assetIds) || dto.assetIds.length === 0) {
+            throw new InvalidCycleCountError('assetIds must be a non-empty array');
+        }
+        if (new Set(dto.assetIds).size !== dto.assetIds.length) {
+            throw new InvalidCycleCountError('assetIds contains duplicates');
+        }
+
+        const [alreadyScanned] = await this.cycleCountRepository.findScans(cycleCountId, dto.assetIds);
+        if (alreadyScanned) {
+            throw new DuplicateScanError(alreadyScanned.assetId, alreadyScanned.locationId);
+        }
+
+        return this.cycleCountRepository.createScans(cycleCountId, dto.locationId, dto.assetIds, dto.scannedBy);
+    }
+
+    /**
+     * Clôture les scans et calcule les écarts avec StockLocation
+     *
+     * @throws CycleCountStatusError si la campagne n'est pas OPEN
+     */
+    async closeCycleCount(cycleCountId: string): Promise<CycleCountReport> {
+        const cycleCount = await this.getWithStatus(cycleCountId, CycleCountStatus.OPEN);
+
+        const scans = await this.cycleCountRepository.findScans(cycleCountId);
+        const expected = await this.stockLocationRepository.findByLocationIds(cycleCount.locationIds);
+
+        // Stock connu ailleurs pour les assets scannés hors de leur périmètre attendu
+        const expectedIds = new Set(expected.map(s => s.assetId));
+        const outsideIds = scans.map(s => s.assetId).filter(id => !expectedIds.has(id));
+        const elsewhere = outsideIds.length > 0
+            ? await this.stockLocationRepository.findByAssetIds(outsideIds)
+            : [];
+
+        const computed = this.computeDiscrepancies(expected, elsewhere, scans);
+
+        const { closed, discrepancies } = await this.prisma.$transaction(async (tx) => {
+            const repository = new CycleCountRepository(tx);
+            const created = await repository.createDiscrepancies(cycleCountId, computed);
+            const updated = await repository.markClosed(cycleCountId);
+            await emitCycleCountClosed(tx, updated, created);
+            return { closed: updated, discrepancies: created };
+        });
+
+        return this.buildReport(closed, scans, discrepancies);
+    }
+
+    /**
+     * Approuve les ajustements d'une campagne
+     *
+     * @throws CycleCountStatusError si la campagne n'est pas en REVIEW
+     * @throws InvalidCycleCountError si un écart désigné n'appartient pas à la campagne
+     */
+    async approveCycleCount(cycleCountId: string, dto: ApproveCycleCountDto): Promise<CycleCountReport> {
+        const cycleCount = await this.getWithStatus(cycleCountId, CycleCountStatus.REVIEW);
+        const discrepancies = await this.cycleCountRepository.findDiscrepancies(cycleCountId);
+
+        const knownIds = new Set(discrepancies.map(d => d.id));
+        const unknown = (dto.discrepancyIds ?? []).find(id => !knownIds.has(id));
+        if (unknown) {
+            throw new InvalidCycleCountError(`Discrepancy ${unknown} does not belong to cycle count ${cycleCountId}`);
+        }
+        const approvedIds = new Set(dto.discrepancyIds ?? discrepancies.map(d => d.id));
+
+        const { approved, resolved } = await this.prisma.$transaction(async (tx) => {
+            const repository = new CycleCountRepository(tx);
+            const movementRepository = new MovementRepository(tx);
+            const stockRepository = new StockLocationRepository(tx);
+
+            const resolvedList: DiscrepancyEntity[] = [];
+            const movementList: MovementEntity[] = [];
+            for (const discrepancy of discrepancies) {
+                if (!approvedIds.has(discrepancy.id)) {
+                    resolvedList.push(await repository.resolveDiscrepancy(discrepancy.id, DiscrepancyResolution.REJECTED, null));
+                    continue;
+                }
+
+                const position = await movementRepository.getCurrentPosition(discrepancy.assetId);
+                const movement = await movementRepository.create(
+                    discrepancy.assetId,
+                    position.locationId,
+                    discrepancy.foundLocationId,
+                    MovementReason.ADJUSTMENT
+                );
+                if (discrepancy.foundLocationId) {
+                    await stockRepository.placeAt(discrepancy.assetId, cycleCount.warehouseId, discrepancy.foundLocationId);
+                } else {
+                    await stockRepository.remove(discrepancy.assetId);
+                }
+
+                movementList.push(movement);
+                resolvedList.push(await repository.resolveDiscrepancy(discrepancy.id, DiscrepancyResolution.APPROVED, movement.id));
+            }
+
+            const updated = await repository.markApproved(cycleCountId, dto.approvedBy);
+
+            for (const movement of movementList) {
+                await emitAssetMoved(tx, movement);
+            }
+            await emitCycleCountApproved(tx, updated, resolvedList);
+
+            return { approved: updated, resolved: resolvedList };
+        });
+
+        const scans = await this.cycleCountRepository.findScans(cycleCountId);
+        return this.buildReport(approved, scans, resolved);
+    }
+
+    /**
+     * Annule une campagne non approuvée (aucun ajustement)
+     *
+     * @throws CycleCountStatusError si la campagne est déjà approuvée ou annulée
+     */
+    async cancelCycleCount(cycleCountId: string): Promise<CycleCountEntity> {
+        const cycleCount = await this.getCycleCount(cycleCountId);
+        if (cycleCount.status === CycleCountStatus.APPROVED || cycleCount.status === CycleCountStatus.CANCELLED) {
+            throw new CycleCountStatusError(cycleCountId, cycleCount.status, CycleCountStatus.OPEN);
+        }
+        return this.cycleCountRepository.markCancelled(cycleCountId);
+    }
+
+    /**
+     * Récupère une campagne
+     *
+     * @throws CycleCountNotFoundError si la campagne n'existe pas
+     */
+    async getCycleCount(cycleCountId: string): Promise<CycleCountEntity> {
+        const cycleCount = await this.cycleCountRepository.findById(cycleCountId);
+        if (!cycleCount) {
+            throw new CycleCountNotFoundError(cycleCountId);
+        }
+        return cycleCount;
+    }
+
+    /**
+     * Liste les campagnes d'un entrepôt
+     */
+    async listCycleCounts(warehouseId: string, status?: CycleCountStatus): Promise<CycleCountEntity[]> {
+        return this.cycleCountRepository.findByWarehouseId(warehouseId, status);
+    }
+
+    /**
+     * Rapport d'audit complet (scans, écarts, résolutions, mouvements)
+     */
+    async getReport(cycleCountId: string): Promise<CycleCountReport> {
+        const cycleCount = await this.getCycleCount(cycleCountId);
+        const scans = await this.cycleCountRepository.findScans(cycleCountId);
+        const discrepancies = await this.cycleCountRepository.findDiscrepancies(cycleCountId);
+        return this.buildReport(cycleCount, scans, discrepancies);
+    }
+
+    // ========== HELPERS ==========
+
+    private async getWithStatus(cycleCountId: string, status: CycleCountStatus): Promise<CycleCountEntity> {
+        const cycleCount = await this.getCycleCount(cycleCountId);
+        if (cycleCount.status !== status) {
+            throw new CycleCountStatusError(cycleCountId, cycleCount.status, status);
+        }
+        return cycleCount;
+    }
+
+    /**
+     * Détermine les emplacements comptés selon le périmètre
+     */
+    private resolveScope(dto: CreateCycleCountDto, warehouseLocationIds: string[]): string[] {
+        switch (dto.scope) {
+            case CycleCountScope.WAREHOUSE:
+                return warehouseLocationIds;
+
+            case CycleCountScope.LOCATION: {
+                const locationIds = dto.locationIds ?? [];
+                if (locationIds.length === 0) {
+                    throw new InvalidCycleCountError('locationIds is required for a LOCATION cycle count');
+                }
+                const foreign = locationIds.find(id => !warehouseLocationIds.includes(id));
+                if (foreign) {
+                    throw new InvalidCycleCountError(`Location ${foreign} does not belong to warehouse ${dto.warehouseId}`);
+                }
+                return Array.from(new Set(locationIds));
+            }
+
+            case CycleCountScope.SAMPLE: {
+                const size = dto.sampleSize;
+                if (size === undefined || !Number.isInteger(size) || size <= 0) {
+                    throw new InvalidCycleCountError('sampleSize must be a positive integer for a SAMPLE cycle count');
+                }
+                return this.sample(warehouseLocationIds, size);
+            }
+        }
+    }
+
+    /**
+     * Tirage aléatoire sans remise (Fisher-Yates partiel)
+     */
+    private sample(ids: string[], size: number): string[] {
+        const pool = [...ids];
+        const count = Math.min(size, pool.length);
+        for (let i = 0; i < count; i++) {
+            const j = i + Math.floor(Math.random() * (pool.length - i));
+            [pool[i], pool[j]] = [pool[j] as string, pool[i] as string];
+        }
+        return pool.slice(0, count);
+    }
+
+    /**
+     * Compare le stock attendu aux scans
+     *
+     * - Attendu, non scanné → MISSING
+     * - Attendu, scanné sur un autre emplacement compté → MISPLACED
+     * - Scanné, stocké sur un emplacement hors périmètre → MISPLACED
+     * - Scanné, sans emplacement connu → UNEXPECTED
+     */
+    private computeDiscrepancies(
+        expected: StockLocationEntity[],
+        elsewhere: StockLocationEntity[],
+        scans: CycleCountScanEntity[]
+    ): ComputedDiscrepancy[] {
+        const scanByAsset = new Map(scans.map(s => [s.assetId, s]));
+        const expectedIds = new Set(expected.map(s => s.assetId));
+        const elsewhereByAsset = new Map(elsewhere.map(s => [s.assetId, s]));
+        const discrepancies: ComputedDiscrepancy[] = [];
+
+        for (const stock of expected) {
+            const scan = scanByAsset.get(stock.assetId);
+            if (!scan) {
+                discrepancies.push({
+                    assetId: stock.assetId,
+                    type: DiscrepancyType.MISSING,
+                    expectedLocationId: stock.locationId,
+                    foundLocationId: null
+                });
+            } else if (scan.locationId !== stock.locationId) {
+                discrepancies.push({
+                    assetId: stock.assetId,
+                    type: DiscrepancyType.MISPLACED,
+                    expectedLocationId: stock.locationId,
+                    foundLocationId: scan.locationId
+                });
+            }
+        }
+
+        for (const scan of scans) {
+            if (expectedIds.has(scan.assetId)) {
+                continue;
+            }
+            const stock = elsewhereByAsset.get(scan.assetId);
+            discrepancies.push({
+                assetId: scan.assetId,
+                type: stock?.locationId ? DiscrepancyType.MISPLACED : DiscrepancyType.UNEXPECTED,
+                expectedLocationId: stock?.locationId ?? null,
+                foundLocationId: scan.locationId
+            });
+        }
+
+        return discrepancies;
+    }
+
+    private buildReport(
+        cycleCount: CycleCountEntity,
+        scans: CycleCountScanEntity[],
+        discrepancies: DiscrepancyEntity[]
+    ): CycleCountReport {
+        const countType = (type: DiscrepancyType) => discrepancies.filter(d => d.type === type).length;
+        const countResolution = (resolution: DiscrepancyResolution) =>
+            discrepancies.filter(d => d.resolution === resolution).length;
+
+        return {
+            cycleCount,
+            summary: {
+                locations: cycleCount.locationIds.length,
+                scanned: scans.length,
+                // Tout scan sans écart "trouvé ici" est conforme
+                matched: scans.length - discrepancies.filter(d => d.foundLocationId !== null).length,
+                missing: countType(DiscrepancyType.MISSING),
+                unexpected: countType(DiscrepancyType.UNEXPECTED),
+                misplaced: countType(DiscrepancyType.MISPLACED),
+                approved: countResolution(DiscrepancyResolution.APPROVED),
+                rejected: countResolution(DiscrepancyResolution.REJECTED)
+            },
+            scans,
+            discrepancies
+        };
+    }
+}
@@ -3,39 +3,63 @@
  * Logique métier pour la gestion du stock sérialisé
  */
 
-import { PrismaClient, MovementReason } from '@prisma/client';
+import { PrismaClient, MovementReason, Prisma, HoldType, WaitlistStatus, StockStatus } from '@prisma/client';
 import { WarehouseRepository } from '../repositories/warehouse.repository';
 import { LocationRepository } from '../repositories/location.repository';
 import { MovementRepository } from '../repositories/movement.repository';
 import { ReservationRepository } from '../repositories/reservation.repository';
+import { StockLocationRepository } from '../repositories/stockLocation.repository';
+import { WaitlistRepository } from '../repositories/waitlist.repository';
 import { AssetServiceClient, HttpAssetServiceClient } from '../integrations/asset.client';
 import {
     emitAssetMoved,
     emitAssetReserved,
-    emitAssetReservationReleased
+    emitAssetReservationReleased,
+    emitReservationConfirmed,
+    emitReservationExpired,
+    emitAssetWaitlisted,
+    emitWaitlistClaimed
 } from '../events/inventory.events';
+import { logger } from '../utils/logger';
 import {
     CreateWarehouseDto,
     CreateLocationDto,
     WarehouseEntity,
     LocationEntity,
+    LocationOccupancy,
+    WarehouseOccupancy,
     WarehouseNotFoundError,
     LocationNotFoundError,
-    DuplicateLocationError
+    DuplicateLocationError,
+    LocationCapacityExceededError
 } from '../domain/location.types';
 import {
     MoveAssetDto,
     MovementEntity,
     AssetPosition,
-    MissingToLocationError
+    MissingToLocationError,
+    MOVEMENT_DESTINATION_TYPES,
+    InvalidMovementDestinationError,
+    SourceLocationMismatchError,
+    CrossWarehouseMoveError
 } from '../domain/movement.types';
+import { AssetInTransitError } from '../domain/transfer.types';
 import {
     ReserveAssetDto,
     ReservationEntity,
+    WaitlistEntryEntity,
+    WaitlistPosition,
+    ExpiredReservationsResult,
     AvailabilityResult,
+    DEFAULT_SOFT_HOLD_TTL_MINUTES,
+    MAX_SOFT_HOLD_TTL_MINUTES,
     AssetAlreadyReservedError,
     AssetNotReservedError,
-    AssetNotSellableError
+    AssetNotSellableError,
+    InvalidHoldError,
+    ReservationExpiredError,
+    AlreadyWaitlistedError,
+    WaitlistEntryNotFoundError
 } from '../domain/reservation.types';
 
 export class InventoryService {
@@ -43,13 +67,17 @@ export class InventoryService {
     private readonly locationRepository: LocationRepository;
     private readonly movementRepository: MovementRepository;
     private readonly reservationRepository: ReservationRepository;
+    private readonly stockLocationRepository: StockLocationRepository;
+    private readonly waitlistRepository: WaitlistRepository;
     private readonly assetServiceClient: AssetServiceClient;
 
-    constructor(prisma: PrismaClient, assetServiceClient?: AssetServiceClient) {
+    constructor(private readonly prisma: PrismaClient, assetServiceClient?: AssetServiceClient) {
         this.warehouseRepository = new WarehouseRepository(prisma);
         this.locationRepository = new LocationRepository(prisma);
         this.movementRepository = new MovementRepository(prisma);
         this.reservationRepository = new ReservationRepository(prisma);
+        this.stockLocationRepository = new StockLocationRepository(prisma);
+        this.waitlistRepository = new WaitlistRepository(prisma);
         this.assetServiceClient = assetServiceClient ?? new HttpAssetServiceClient();
     }
 
@@ -106,15 +134,57 @@ export class InventoryService {
         return this.locationRepository.findByWarehouseId(warehouseId);
     }
 
+    /**
+     * Calcule le taux de remplissage de chaque emplacement d'un entrepôt
+     */
+    async getWarehouseOccupancy(warehouseId: string): Promise<WarehouseOccupancy> {
+        const warehouse = await this.warehouseRepository.findById(warehouseId);
+        if (!warehouse) {
+            throw new WarehouseNotFoundError(warehouseId);
+        }
+
+        const locations = await this.locationRepository.findByWarehouseId(warehouseId);
+        const counts = await this.stockLocationRepository.countByLocationForWarehouse(warehouseId);
+
+        const occupancies: LocationOccupancy[] = locations.map(location => {
+            const occupied = counts.get(location.id) ?? 0;
+            return {
+                locationId: location.id,
+                code: location.code,
+                type: location.type,
+                capacity: location.capacity,
+                occupied,
+                available: location.capacity === null ? null : Math.max(location.capacity - occupied, 0),
+                fillRate: location.capacity === null ? null : this.fillRate(occupied, location.capacity)
+            };
+        });
+
+        const limited = occupancies.filter(o => o.capacity !== null);
+        const capacity = limited.reduce((sum, o) => sum + (o.capacity ?? 0), 0);
+        const occupiedInLimited = limited.reduce((sum, o) => sum + o.occupied, 0);
+
+        return {
+            warehouseId,
+            capacity,
+            occupied: occupancies.reduce((sum, o) => sum + o.occupied, 0),
+            unlocated: counts.get(null) ?? 0,
+            fillRate: capacity > 0 ? this.fillRate(occupiedInLimited, capacity) : null,
+            locations: occupancies
+        };
+    }
+
     // ========== MOVEMENTS ==========
 
     /**
      * Déplace un asset vers un emplacement
      * 
      * Règles STRICTES :
-     * - toLocation obligatoire
-     * - Un asset n'a qu'un seul emplacement courant
-     * - Chaque déplacement = 1 mouvement append-only
+     * - toLocation obligatoire, emplacement existant d'un type compatible avec le motif
+     * - fromLocation, si fourni, doit être la position courante
+     * - Un asset n'a qu'un seul emplacement courant, dans un seul entrepôt
+     * - Pas de déplacement d'un asset en transit entre entrepôts
+     * - Capacité de l'emplacement destination respectée
+     * - Chaque déplacement = 1 mouvement append-only + mise à jour du stock (transaction)
      */
     async moveAsset(assetId: string, dto: MoveAssetDto): Promise<MovementEntity> {
         // Vérifier que toLocation est fourni
@@ -128,24 +198,60 @@ export class InventoryService {
             throw new LocationNotFoundError(dto.toLocation);
         }
 
+        // Vérifier que le type d'emplacement convient au motif
+        if (!MOVEMENT_DESTINATION_TYPES[dto.reason].includes(toLocation.type)) {
+            throw new InvalidMovementDestinationError(toLocation.id, toLocation.type, dto.reason);
+        }
+
         // Vérifier l'emplacement source si fourni
+        const position = await this.movementRepository.getCurrentPosition(assetId);
         if (dto.fromLocation) {
             const fromLocation = await this.locationRepository.findById(dto.fromLocation);
             if (!fromLocation) {
                 throw new LocationNotFoundError(dto.fromLocation);
             }
+            if (position.locationId !== dto.fromLocation) {
+                throw new SourceLocationMismatchError(assetId, dto.fromLocation, position.locationId);
+            }
         }
 
-        // Créer le mouvement (append-only)
-        const movement = await this.movementRepository.create(
-            assetId,
-            dto.fromLocation ?? null,
-            dto.toLocation,
-            dto.reason
-        );
+        // Capacité + mouvement + stock de manière ATOMIQUE
+        const movement = await this.prisma.$transaction(async (tx) => {
+            const stockRepository = new StockLocationRepository(tx);
+            const stock = await stockRepository.findByAssetId(assetId);
+
+            // En transit : seule la réception du transfert le replace
+            if (stock?.status === StockStatus.IN_TRANSIT) {
+                throw new AssetInTransitError(assetId);
+            }
+
+            if (stock && stock.warehouseId !== toLocation.warehouseId) {
+                throw new CrossWarehouseMoveError(assetId, stock.warehouseId, toLocation.warehouseId);
+            }
+
+            if (toLocation.capacity !== null && stock?.locationId !== toLocation.id) {
+                const occupied = await stockRepository.countByLocationId(toLocation.id);
+                if (occupied >= toLocation.capacity) {
+                    throw new LocationCapacityExceededError(toLocation.id, toLocation.capacity);
+                }
+            }
+
+            const created = await new MovementRepository(tx).create(
+                assetId,
+                position.locationId,
+                toLocation.id,
+                dto.reason
+            );
+            await stockRepository.placeAt(assetId, toLocation.warehouseId, toLocation.id);
 
-        // Émettre l'événement
-        emitAssetMoved(movement);
+            // Émettre l'événement
+            await emitAssetMoved(tx, created);
+
+            return created;
+        }, {
+            // Deux déplacements concurrents ne peuvent pas dépasser la capacité
+            isolationLevel: Prisma.TransactionIsolationLevel.Serializable
+        });
 
         return movement;
     }
@@ -182,12 +288,18 @@ export class InventoryService {
      * Étapes STRICTES :
      * 1. Vérifier statut Asset = SELLABLE
      * 2. Créer InventoryReservation de manière ATOMIQUE (transaction Serializable)
-     * 3. Créer mouvement RESERVE
-     * 4. Émettre événement AssetReserved
+     * 3. Créer mouvement RESERVE (même transaction)
+     * 4. Émettre événement AssetReserved (même transaction)
+     * 
+     * Blocage HARD (défaut) : commande confirmée, sans échéance.
+     * Blocage SOFT : devis / panier, libéré par le sweeper à échéance.
      * 
      * POINT BLOQUANT AUDIT #2 : Utilise transaction atomique pour éviter race conditions
      */
     async reserveAsset(assetId: string, dto: ReserveAssetDto): Promise<ReservationEntity> {
+        const holdType = dto.holdType ?? HoldType.HARD;
+        const expiresAt = this.holdExpiry(holdType, dto.ttlMinutes);
+
         // 1. Vérifier le statut de l'asset
         const asset = await this.assetServiceClient.getAsset(assetId);
         if (asset.status !== 'SELLABLE') {
@@ -197,23 +309,66 @@ export class InventoryService {
         // 2. Créer la réservation de manière ATOMIQUE
         // La méthode createAtomic utilise une transaction Serializable
         // qui garantit qu'aucun autre processus ne peut réserver le même asset
-        const reservation = await this.reservationRepository.createAtomic(assetId, dto.orderRef);
-
-        // 3. Créer le mouvement RESERVE
-        const position = await this.movementRepository.getCurrentPosition(assetId);
-        await this.movementRepository.create(
+        return this.reservationRepository.createAtomic(
             assetId,
-            position.locationId,
-            position.locationId, // Pas de changement d'emplacement
-            MovementReason.RESERVE
+            dto.orderRef,
+            holdType,
+            expiresAt,
+            async (tx, reservation) => {
+                // 3. Créer le mouvement RESERVE
+                const movementRepository = new MovementRepository(tx);
+                const position = await movementRepository.getCurrentPosition(assetId);
+                await movementRepository.create(
+                    assetId,
+                    position.locationId,
+                    position.locationId, // Pas de changement d'emplacement
+                    MovementReason.RESERVE
+                );
+
+                // 4. Émettre l'événement
+                await emitAssetReserved(tx, reservation);
+            }
         );
+    }
+
+    /**
+     * Confirme un blocage SOFT (commande validée) : il devient HARD, sans échéance
+     * 
+     * Idempotent sur un blocage déjà HARD. Un blocage échu n'est plus
+     * confirmable, même si le sweeper ne l'a pas encore libéré.
+     */
+    async confirmReservation(assetId: string, orderRef?: string, now: Date = new Date()): Promise<ReservationEntity> {
+        const reservation = await this.reservationRepository.findByAssetId(assetId);
+        if (!reservation) {
+            throw new AssetNotReservedError(assetId);
+        }
 
-        // 4. Émettre l'événement
-        emitAssetReserved(reservation);
+        if (orderRef && reservation.orderRef !== orderRef) {
+            throw new AssetAlreadyReservedError(assetId, reservation.orderRef);
+        }
 
-        return reservation;
-    }
+        if (reservation.holdType === HoldType.HARD) {
+            return reservation;
+        }
+
+        if (reservation.expiresAt && reservation.expiresAt <= now) {
+            throw new ReservationExpiredError(assetId, reservation.expiresAt);
+        }
+
+        // Mise à jour conditionnelle : le sweeper peut être passé entre-temps
+        const confirmed = await this.prisma.$transaction(async (tx) => {
+            const updated = await this.reservationRepository.confirm(assetId, now, tx);
+            if (updated) {
+                await emitReservationConfirmed(tx, updated);
+            }
+            return updated;
+        });
+        if (!confirmed) {
+            throw new ReservationExpiredError(assetId, reservation.expiresAt ?? now);
+        }
 
+        return confirmed;
+    }
 
     /**
      * Libère une réservation
@@ -222,6 +377,7 @@ export class InventoryService {
      * - Réservation obligatoire
      * - Suppression réservation
      * - Mouvement RELEASE
+     * - L'asset libéré est proposé à la première commande en attente
      */
     async releaseReservation(assetId: string): Promise<void> {
         // Vérifier qu'une réservation existe
@@ -230,20 +386,86 @@ export class InventoryService {
             throw new AssetNotReservedError(assetId);
         }
 
-        // Créer le mouvement RELEASE
-        const position = await this.movementRepository.getCurrentPosition(assetId);
-        await this.movementRepository.create(
-            assetId,
-            position.locationId,
-            position.locationId, // Pas de changement d'emplacement
-            MovementReason.RELEASE
-        );
+        await this.prisma.$transaction(async (tx) => {
+            // Créer le mouvement RELEASE
+            const movementRepository = new MovementRepository(tx);
+            const position = await movementRepository.getCurrentPosition(assetId);
+            await movementRepository.create(
+                assetId,
+                position.locationId,
+                position.locationId, // Pas de changement d'emplacement
+                MovementReason.RELEASE
+            );
+
+            // Supprimer la réservation
+            await this.reservationRepository.delete(assetId, tx);
+
+            // Émettre l'événement
+            await emitAssetReservationReleased(tx, assetId, reservation.orderRef);
+        });
+
+        await this.offerToWaitlist(assetId);
+    }
 
-        // Supprimer la réservation
-        await this.reservationRepository.delete(assetId);
+    /**
+     * Libère les blocages SOFT échus (appelé par le sweeper)
+     * 
+     * Pour chaque blocage : suppression conditionnelle (une confirmation
+     * concurrente l'emporte), mouvement RELEASE et événement ReservationExpired
+     * dans une même transaction, puis proposition à la file d'attente. Une erreur sur un asset
+     * n'empêche pas le traitement des suivants.
+     */
+    async releaseExpiredReservations(now: Date = new Date()): Promise<ExpiredReservationsResult> {
+        const candidates = await this.reservationRepository.findSoftExpiringBefore(now);
+        const result: ExpiredReservationsResult = { expired: [], claimed: [] };
+
+        for (const reservation of candidates) {
+            try {
+                // Suppression et RELEASE ensemble : pas de blocage disparu hors du journal
+                const deleted = await this.prisma.$transaction(async (tx) => {
+                    if (!await this.reservationRepository.deleteIfExpired(reservation.assetId, now, tx)) {
+                        return false;
+                    }
+
+                    const movementRepository = new MovementRepository(tx);
+                    const position = await movementRepository.getCurrentPosition(reservation.assetId);
+                    await movementRepository.create(
+                        reservation.assetId,
+                        position.locationId,
+                        position.locationId,
+                        MovementReason.RELEASE
+                    );
+                    await emitReservationExpired(tx, reservation);
+                    return true;
+                });
+                if (!deleted) {
+                    continue;
+                }
+
+                result.expired.push(reservation);
+
+                const claimed = await this.offerToWaitlist(reservation.assetId);
+                if (claimed) {
+                    result.claimed.push(claimed);
+                }
+            } catch (error) {
+                logger.error('RESERVATION_SWEEP', 'Failed to release expired reservation', {
+                    assetId: reservation.assetId,
+                    error: String(error)
+                });
+            }
+        }
+
+        return result;
+    }
 
-        // Émettre l'événement
-        emitAssetReservationReleased(assetId, reservation.orderRef);
+    /**
+     * Liste les blocages SOFT qui arrivent à échéance dans la fenêtre donnée
+     * (y compris ceux déjà échus que le sweeper n'a pas encore traités)
+     */
+    async listExpiringReservations(withinMinutes: number, now: Date = new Date()): Promise<ReservationEntity[]> {
+        const horizon = new Date(now.getTime() + withinMinutes * 60 * 1000);
+        return this.reservationRepository.findSoftExpiringBefore(horizon);
     }
 
     /**
@@ -253,6 +475,60 @@ export class InventoryService {
         return this.reservationRepository.findByAssetId(assetId);
     }
 
+    // ========== WAITLIST ==========
+
+    /**
+     * Inscrit une commande dans la file d'attente d'un asset réservé
+     * 
+     * Un asset libre se réserve directement : la file n'a de sens
+     * que tant qu'une autre commande le bloque.
+     */
+    async joinWaitlist(assetId: string, orderRef: string): Promise<WaitlistPosition> {
+        const reservation = await this.reservationRepository.findByAssetId(assetId);
+        if (!reservation) {
+            throw new AssetNotReservedError(assetId);
+        }
+
+        if (reservation.orderRef === orderRef) {
+            throw new AlreadyWaitlistedError(assetId, orderRef);
+        }
+
+        const existing = await this.waitlistRepository.find(assetId, orderRef);
+        if (existing?.status === WaitlistStatus.WAITING) {
+            throw new AlreadyWaitlistedError(assetId, orderRef);
+        }
+
+        return this.prisma.$transaction(async (tx) => {
+            const waitlistRepository = new WaitlistRepository(tx);
+            const entry = await waitlistRepository.enqueue(assetId, orderRef);
+            const waiting = await waitlistRepository.findWaiting(assetId);
+            const position = waiting.findIndex(e => e.id === entry.id) + 1;
+
+            await emitAssetWaitlisted(tx, entry, position);
+
+            return { ...entry, position };
+        });
+    }
+
+    /**
+     * Liste les commandes en attente d'un asset, dans l'ordre de service
+     */
+    async getWaitlist(assetId: string): Promise<WaitlistPosition[]> {
+        const waiting = await this.waitlistRepository.findWaiting(assetId);
+        return waiting.map((entry, index) => ({ ...entry, position: index + 1 }));
+    }
+
+    /**
+     * Retire une commande de la file d'attente
+     */
+    async leaveWaitlist(assetId: string, orderRef: string): Promise<WaitlistEntryEntity> {
+        const entry = await this.waitlistRepository.find(assetId, orderRef);
+        if (!entry || entry.status !== WaitlistStatus.WAITING) {
+            throw new WaitlistEntryNotFoundError(assetId, orderRef);
+        }
+        return this.waitlistRepository.cancel(entry.id);
+    }
+
     // ========== AVAILABILITY ==========
 
     /**
@@ -315,4 +591,64 @@ export class InventoryService {
             location: locationCode
         };
     }
+
+    // ========== HELPERS ==========
+
+    /**
+     * Échéance d'un blocage : aucune pour HARD, TTL borné pour SOFT
+     */
+    private holdExpiry(holdType: HoldType, ttlMinutes: number | undefined): Date | null {
+        if (holdType === HoldType.HARD) {
+            if (ttlMinutes !== undefined) {
+                throw new InvalidHoldError('ttlMinutes only applies to SOFT holds');
+            }
+            return null;
+        }
+
+        const ttl = ttlMinutes ?? DEFAULT_SOFT_HOLD_TTL_MINUTES;
+        if (!Number.isInteger(ttl) || ttl <= 0 || ttl > MAX_SOFT_HOLD_TTL_MINUTES) {
+            throw new InvalidHoldError(
+                `ttlMinutes must be an integer between 1 and ${MAX_SOFT_HOLD_TTL_MINUTES}`
+            );
+        }
+        return new Date(Date.now() + ttl * 60 * 1000);
+    }
+
+    /**
+     * Propose un asset libéré à la première commande en attente
+     * 
+     * La commande obtient un blocage SOFT (TTL par défaut) qu'elle doit
+     * confirmer ; sinon il expire et passe à la suivante. La libération
+     * elle-même ne doit pas échouer si la reprise échoue : l'entrée reste
+     * en attente pour la prochaine libération.
+     */
+    private async offerToWaitlist(assetId: string): Promise<ReservationEntity | null> {
+        const [next] = await this.waitlistRepository.findWaiting(assetId);
+        if (!next) {
+            return null;
+        }
+
+        try {
+            const reservation = await this.reserveAsset(assetId, {
+                orderRef: next.orderRef,
+                holdType: HoldType.SOFT
+            });
+            await this.prisma.$transaction(async (tx) => {
+                const claimed = await new WaitlistRepository(tx).markClaimed(next.id);
+                await emitWaitlistClaimed(tx, claimed, reservation);
+            });
+            return reservation;
+        } catch (error) {
+            logger.warn('WAITLIST', 'Freed asset could not be claimed by the waitlist', {
+                assetId,
+                orderRef: next.orderRef,
+                error: String(error)
+            });
+            return null;
+        }
+    }
+
+    private fillRate(occupied: number, capacity: number): number {
+        return Math.round((occupied / capacity) * 1000) / 1000;
+    }
 }
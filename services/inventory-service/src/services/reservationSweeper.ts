@@ -0,0 +1,76 @@
+/**
+ * Reservation Sweeper
+ * Libération périodique des blocages SOFT échus
+ *
+ * Plusieurs instances peuvent tourner en parallèle : la suppression
+ * conditionnelle garantit qu'un blocage n'est libéré (et son mouvement
+ * RELEASE écrit) qu'une seule fois.
+ */
+
+import { InventoryService } from './inventory.service';
+import {
+    ExpiredReservationsResult,
+    DEFAULT_RESERVATION_SWEEP_INTERVAL_MS
+} from '../domain/reservation.types';
+import { logger } from '../utils/logger';
+
+export class ReservationSweeper {
+    private timer: NodeJS.Timeout | null = null;
+    private running = false;
+
+    constructor(
+        private readonly inventoryService: InventoryService,
+        private readonly intervalMs: number = DEFAULT_RESERVATION_SWEEP_INTERVAL_MS
+    ) { }
+
+    /**
+     * Démarre le passage périodique (sans effet si déjà démarré)
+     */
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+        this.timer = setInterval(() => {
+            void this.sweep();
+        }, this.intervalMs);
+        // Ne retient pas le process à l'arrêt
+        this.timer.unref();
+        logger.info('RESERVATION_SWEEP', 'Reservation sweeper started', { intervalMs: this.intervalMs });
+    }
+
+    /**
+     * Arrête le passage périodique
+     */
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Un passage : ignoré si le précédent n'est pas terminé
+     */
+    async sweep(now: Date = new Date()): Promise<ExpiredReservationsResult | null> {
+        if (this.running) {
+            return null;
+        }
+
+        this.running = true;
+        try {
+            const result = await this.inventoryService.releaseExpiredReservations(now);
+            if (result.expired.length > 0) {
+                logger.info('RESERVATION_SWEEP', 'Expired reservations released', {
+                    expired: result.expired.length,
+                    claimed: result.claimed.length
+                });
+            }
+            return result;
+        } catch (error) {
+            logger.error('RESERVATION_SWEEP', 'Reservation sweep failed', { error: String(error) });
+            return null;
+        } finally {
+            this.running = false;
+        }
+    }
+}
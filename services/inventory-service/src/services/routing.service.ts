@@ -3,24 +3,36 @@
  * Service de routage déterministe des commandes vers entrepôts
  * 
  * RÈGLES STRICTES :
- * - Une commande = un seul site
- * - Pas de réassignation après démarrage WMS
- * - Pas de split multi-sites
+ * - Une commande = un seul site (sauf mode split explicite)
+ * - Pas de réassignation après démarrage WMS (tâche WMS existante)
+ * - Mode split : répartition de coût minimal, un colis par entrepôt
  */
 
-import { PrismaClient, StockStatus } from '@prisma/client';
+import { Prisma, PrismaClient, StockStatus } from '@prisma/client';
 import {
     RoutingRequest,
     RoutingResult,
     WarehouseScore,
+    SplitAssignment,
+    SplitRoutingResult,
+    SplitSubAssignment,
+    AssignmentHistoryEntry,
+    INITIAL_ASSIGNMENT_REASON,
     ROUTING_PRIORITY,
-    DELIVERY_DELAYS,
+    SPLIT_COST,
+    MAX_EXACT_SPLIT_WAREHOUSES,
     emitWarehouseAssigned,
     emitAssetReservedAtWarehouse,
+    emitOrderSplit,
+    emitOrderReassigned,
     emitRoutingFailed,
     NoWarehouseAvailableError,
+    OrderNotAssignedError,
+    RoutingAlreadyAssignedError,
     WmsAlreadyStartedError
 } from '../domain/warehouse.types';
+import { TransitOrigin } from '../domain/transit.types';
+import { TransitTimeService } from './transitTime.service';
 
 // ============================================
 // INTERFACES
@@ -30,9 +42,40 @@ export interface WmsStatusProvider {
     hasWmsStarted(orderId: string): Promise<boolean>;
 }
 
+/**
+ * Publication d'événements (outbox) dans la transaction d'une écriture
+ */
+export type TransactionalPublisher = (tx: Prisma.TransactionClient) => Promise<void>;
+
+/**
+ * Publication de OrderReassigned vers les entrepôts retenus
+ */
+type ReassignmentPublisher = (tx: Prisma.TransactionClient, toWarehouseIds: string[]) => Promise<void>;
+
+/**
+ * Les écritures remplacent l'assignation courante et historisent
+ * le changement avec sa raison ; `publish` s'exécute dans la même transaction
+ */
 export interface OrderAssignmentStore {
     getAssignment(orderId: string): Promise<string | null>;
-    setAssignment(orderId: string, warehouseId: string): Promise<void>;
+    setAssignment(orderId: string, warehouseId: string, reason: string, publish?: TransactionalPublisher): Promise<void>;
+    getSplitAssignment(orderId: string): Promise<SplitAssignment[] | null>;
+    setSplitAssignment(
+        orderId: string,
+        assignments: SplitAssignment[],
+        reason: string,
+        publish?: TransactionalPublisher
+    ): Promise<void>;
+    getHistory(orderId: string): Promise<AssignmentHistoryEntry[]>;
+}
+
+/**
+ * Entrepôt candidat au split (détient au moins un asset demandé)
+ */
+interface SplitCandidate {
+    score: WarehouseScore;
+    assetIds: Set<string>;
+    cost: number;
 }
 
 // ============================================
@@ -40,11 +83,16 @@ export interface OrderAssignmentStore {
 // ============================================
 
 export class RoutingService {
+    private readonly transitTimeService: TransitTimeService;
+
     constructor(
         private readonly prisma: PrismaClient,
         private readonly wmsProvider: WmsStatusProvider,
-        private readonly assignmentStore: OrderAssignmentStore
-    ) { }
+        private readonly assignmentStore: OrderAssignmentStore,
+        transitTimeService?: TransitTimeService
+    ) {
+        this.transitTimeService = transitTimeService ?? new TransitTimeService(prisma);
+    }
 
     // ============================================
     // MAIN ROUTING
@@ -65,6 +113,9 @@ export class RoutingService {
         }
 
         // 2. Vérifier si déjà assigné
+        if (await this.assignmentStore.getSplitAssignment(orderId)) {
+            throw new RoutingAlreadyAssignedError(orderId);
+        }
         const existingAssignment = await this.assignmentStore.getAssignment(orderId);
         if (existingAssignment) {
             // Retourner l'assignation existante
@@ -75,31 +126,52 @@ export class RoutingService {
                 orderId,
                 assignedWarehouseId: existingAssignment,
                 assignedWarehouseCode: warehouse?.code || 'UNKNOWN',
-                estimatedDelay: this.getDeliveryDelay(warehouse?.country || 'DEFAULT', customerCountry),
+                estimatedDelay: await this.getDeliveryDelay(
+                    { warehouseId: existingAssignment, country: warehouse?.country || 'DEFAULT' },
+                    request
+                ),
                 assetsReserved: assetIds,
                 calculatedAt: new Date()
             };
         }
 
+        return this.routeToSingleWarehouse(request, INITIAL_ASSIGNMENT_REASON);
+    }
+
+    /**
+     * Route une commande non assignée vers le meilleur entrepôt
+     */
+    private async routeToSingleWarehouse(
+        request: RoutingRequest,
+        reason: string,
+        publishReassigned?: ReassignmentPublisher
+    ): Promise<RoutingResult> {
+        const { orderId, customerCountry, assetIds } = request;
+
         // 3. Calculer les scores des entrepôts
-        const scores = await this.calculateWarehouseScores(assetIds, customerCountry);
+        const scores = await this.calculateWarehouseScores(assetIds, customerCountry, request);
 
         // 4. Sélectionner le meilleur (UN SEUL)
         const bestWarehouse = this.selectBestWarehouse(scores, assetIds.length);
 
         if (!bestWarehouse) {
-            emitRoutingFailed(orderId, 'No warehouse with sufficient available stock');
+            await emitRoutingFailed(this.prisma, orderId, 'No warehouse with sufficient available stock');
             throw new NoWarehouseAvailableError(orderId, 'No warehouse has all required assets available');
         }
 
         // 5. Réserver les assets
         await this.reserveAssets(assetIds, bestWarehouse.warehouseId, orderId);
 
-        // 6. Enregistrer l'assignation
-        await this.assignmentStore.setAssignment(orderId, bestWarehouse.warehouseId);
-
-        // 7. Émettre événement
-        emitWarehouseAssigned(orderId, bestWarehouse.warehouseCode);
+        // 6. Enregistrer l'assignation et émettre l'événement (même transaction)
+        await this.assignmentStore.setAssignment(
+            orderId,
+            bestWarehouse.warehouseId,
+            reason,
+            async (tx) => {
+                await emitWarehouseAssigned(tx, orderId, bestWarehouse.warehouseCode);
+                await publishReassigned?.(tx, [bestWarehouse.warehouseId]);
+            }
+        );
 
         return {
             orderId,
@@ -111,6 +183,160 @@ export class RoutingService {
         };
     }
 
+    // ============================================
+    // SPLIT ROUTING
+    // ============================================
+
+    /**
+     * Répartit une commande sur plusieurs entrepôts (mode split)
+     *
+     * Choisit l'ensemble d'entrepôts de coût minimal couvrant les assets
+     * disponibles : un colis par entrepôt, délai, pénalité transfrontalière.
+     * Un entrepôt au stock complet donne naturellement un seul colis.
+     */
+    async assignOrderWithSplit(request: RoutingRequest): Promise<SplitRoutingResult> {
+        const { orderId, customerCountry, assetIds } = request;
+
+        // 1. Vérifier si WMS déjà démarré
+        if (await this.wmsProvider.hasWmsStarted(orderId)) {
+            throw new WmsAlreadyStartedError(orderId);
+        }
+
+        // 2. Pas de nouvelle répartition d'une commande déjà assignée
+        const existingSplit = await this.assignmentStore.getSplitAssignment(orderId);
+        if (existingSplit) {
+            return this.rebuildSplitResult(request, existingSplit);
+        }
+        if (await this.assignmentStore.getAssignment(orderId)) {
+            throw new RoutingAlreadyAssignedError(orderId);
+        }
+
+        return this.routeWithSplit(request, INITIAL_ASSIGNMENT_REASON);
+    }
+
+    /**
+     * Répartit une commande non assignée au coût minimal
+     */
+    private async routeWithSplit(
+        request: RoutingRequest,
+        reason: string,
+        publishReassigned?: ReassignmentPublisher
+    ): Promise<SplitRoutingResult> {
+        const { orderId, customerCountry, assetIds } = request;
+
+        // 3. Disponibilité par entrepôt
+        const scores = await this.calculateWarehouseScores(assetIds, customerCountry, request);
+        const candidates = await this.buildSplitCandidates(scores, assetIds, customerCountry);
+
+        const coverable = new Set(candidates.flatMap(c => [...c.assetIds]));
+        const assetsMissing = assetIds.filter(id => !coverable.has(id));
+
+        if (coverable.size === 0 || (assetsMissing.length > 0 && !request.allowPartial)) {
+            const failure = `${assetsMissing.length} asset(s) not available in any warehouse`;
+            await emitRoutingFailed(this.prisma, orderId, failure);
+            throw new NoWarehouseAvailableError(orderId, failure);
+        }
+
+        // 4. Répartition de coût minimal
+        const { chosen, evaluated } = this.selectMinimumCostCover(candidates, coverable);
+        const assignments = this.allocateAssets(
+            chosen,
+            assetIds.filter(id => coverable.has(id)),
+            customerCountry
+        );
+
+        // 5. Réserver les assets, sous-assignation par sous-assignation
+        for (const assignment of assignments) {
+            await this.reserveAssets(assignment.assetIds, assignment.warehouseId, orderId);
+        }
+
+        // 6. Enregistrer la répartition et émettre l'événement (même transaction)
+        await this.assignmentStore.setSplitAssignment(
+            orderId,
+            assignments.map(a => ({ warehouseId: a.warehouseId, assetIds: a.assetIds })),
+            reason,
+            async (tx) => {
+                await emitOrderSplit(tx, orderId, assignments, assetsMissing);
+                await publishReassigned?.(tx, assignments.map(a => a.warehouseId));
+            }
+        );
+
+        const best = scores.find(s => s.availableAssets > 0);
+        const reasons = [
+            assignments.length === 1
+                ? `Single warehouse ${assignments[0]?.warehouseCode} covers all available assets`
+                : `No single warehouse holds all ${coverable.size} assets (best: ${best?.warehouseCode} with ${best?.availableAssets})`,
+            `Minimum cost ${this.sumCost(assignments)} over ${assignments.length} parcel(s), ${evaluated} combination(s) evaluated`
+        ];
+        if (assetsMissing.length > 0) {
+            reasons.push(`Partial fulfilment: ${assetsMissing.length} asset(s) unavailable`);
+        }
+
+        return {
+            orderId,
+            assignments,
+            assetsReserved: assignments.flatMap(a => a.assetIds),
+            assetsMissing,
+            totalCost: this.sumCost(assignments),
+            estimatedDelay: Math.max(...assignments.map(a => a.estimatedDelay)),
+            reasons,
+            calculatedAt: new Date()
+        };
+    }
+
+    // ============================================
+    // REASSIGNMENT
+    // ============================================
+
+    /**
+     * Réassigne une commande tant que le WMS n'a créé aucune tâche
+     *
+     * Les réservations de la commande sont libérées puis le routage est
+     * recalculé (split si demandé). En cas d'échec, elles sont restaurées
+     * et l'assignation précédente reste en vigueur. OrderReassigned est publié
+     * dans la transaction de la nouvelle assignation.
+     */
+    async reassignOrder(request: RoutingRequest, reason: string): Promise<RoutingResult | SplitRoutingResult> {
+        const { orderId } = request;
+
+        // 1. Verrou WMS
+        if (await this.wmsProvider.hasWmsStarted(orderId)) {
+            throw new WmsAlreadyStartedError(orderId);
+        }
+
+        // 2. Assignation courante
+        const previousSplit = await this.assignmentStore.getSplitAssignment(orderId);
+        const previousWarehouseId = await this.assignmentStore.getAssignment(orderId);
+        const fromWarehouseIds = previousSplit
+            ? previousSplit.map(s => s.warehouseId)
+            : previousWarehouseId ? [previousWarehouseId] : [];
+        if (fromWarehouseIds.length === 0) {
+            throw new OrderNotAssignedError(orderId);
+        }
+
+        // 3. Libérer les réservations de la commande
+        const released = await this.releaseOrderReservations(orderId);
+
+        // 4. Recalculer le routage
+        const publishReassigned: ReassignmentPublisher = (tx, toWarehouseIds) =>
+            emitOrderReassigned(tx, orderId, fromWarehouseIds, toWarehouseIds, reason);
+        try {
+            return request.allowSplit
+                ? await this.routeWithSplit(request, reason, publishReassigned)
+                : await this.routeToSingleWarehouse(request, reason, publishReassigned);
+        } catch (error) {
+            await this.restoreOrderReservations(orderId, released);
+            throw error;
+        }
+    }
+
+    /**
+     * Historique des assignations d'une commande
+     */
+    async getAssignmentHistory(orderId: string): Promise<AssignmentHistoryEntry[]> {
+        return this.assignmentStore.getHistory(orderId);
+    }
+
     // ============================================
     // SCORING
     // ============================================
@@ -118,12 +344,19 @@ export class RoutingService {
     /**
      * Calcule un score pour chaque entrepôt basé sur les critères v1
      */
-    async calculateWarehouseScores(assetIds: string[], customerCountry: string): Promise<WarehouseScore[]> {
+    async calculateWarehouseScores(
+        assetIds: string[],
+        customerCountry: string,
+        destination: Pick<RoutingRequest, 'postcode' | 'serviceLevel'> = {}
+    ): Promise<WarehouseScore[]> {
         // Récupérer les entrepôts actifs
         const activeWarehouses = await this.prisma.warehouse.findMany({
             where: { active: true }
         });
 
+        // Stock en transfert, compté à l'entrepôt de destination
+        const inTransit = await this.countInTransitByWarehouse(assetIds);
+
         const scores: WarehouseScore[] = [];
 
         for (const warehouse of activeWarehouses) {
@@ -152,18 +385,30 @@ export class RoutingService {
             }
 
             // Critère 3 : Délai court
-            const delay = this.getDeliveryDelay(warehouse.country, customerCountry);
+            const delay = await this.getDeliveryDelay(
+                { warehouseId: warehouse.id, country: warehouse.country },
+                { customerCountry, ...destination }
+            );
             if (delay <= 2) {
                 score += ROUTING_PRIORITY.SHORT_DELAY;
                 reasons.push(`Short delay (+${ROUTING_PRIORITY.SHORT_DELAY})`);
             }
 
+            // Visibilité seulement : un asset en transit n'est pas réservable
+            const inTransitCount = inTransit.get(warehouse.id) ?? 0;
+            if (inTransitCount > 0) {
+                reasons.push(availableCount < assetIds.length && availableCount + inTransitCount === assetIds.length
+                    ? `${inTransitCount} asset(s) in transit, full stock on receipt`
+                    : `${inTransitCount} asset(s) in transit`);
+            }
+
             scores.push({
                 warehouseId: warehouse.id,
                 warehouseCode: warehouse.code,
                 country: warehouse.country,
                 score,
                 availableAssets: availableCount,
+                inTransitAssets: inTransitCount,
                 estimatedDelay: delay,
                 reasons
             });
@@ -190,6 +435,192 @@ export class RoutingService {
         return withFullStock[0] ?? null;
     }
 
+    /**
+     * Entrepôts détenant au moins un asset demandé, avec leur coût de colis
+     */
+    private async buildSplitCandidates(
+        scores: WarehouseScore[],
+        assetIds: string[],
+        customerCountry: string
+    ): Promise<SplitCandidate[]> {
+        const stocks = await this.prisma.stockLocation.findMany({
+            where: {
+                assetId: { in: assetIds },
+                warehouseId: { in: scores.map(s => s.warehouseId) },
+                status: StockStatus.AVAILABLE
+            },
+            select: { assetId: true, warehouseId: true }
+        });
+
+        return scores
+            .map(score => ({
+                score,
+                assetIds: new Set(stocks.filter(s => s.warehouseId === score.warehouseId).map(s => s.assetId)),
+                cost: this.parcelCost(score.country, score.estimatedDelay, customerCountry)
+            }))
+            .filter(c => c.assetIds.size > 0);
+    }
+
+    /**
+     * Ensemble d'entrepôts de coût minimal couvrant tous les assets
+     *
+     * Recherche exacte jusqu'à MAX_EXACT_SPLIT_WAREHOUSES candidats, sinon gloutonne
+     * (meilleur coût par asset nouvellement couvert). Égalité : moins de colis,
+     * puis délai max le plus court, puis ordre des scores (déterministe).
+     */
+    private selectMinimumCostCover(
+        candidates: SplitCandidate[],
+        assets: Set<string>
+    ): { chosen: SplitCandidate[]; evaluated: number } {
+        if (candidates.length > MAX_EXACT_SPLIT_WAREHOUSES) {
+            return { chosen: this.greedyCover(candidates, assets), evaluated: 1 };
+        }
+
+        let best: SplitCandidate[] | null = null;
+        let evaluated = 0;
+        for (let mask = 1; mask < (1 << candidates.length); mask++) {
+            const subset = candidates.filter((_, i) => (mask & (1 << i)) !== 0);
+            const covered = new Set(subset.flatMap(c => [...c.assetIds]));
+            if (covered.size !== assets.size) {
+                continue;
+            }
+            evaluated++;
+            if (!best || this.compareCovers(subset, best) < 0) {
+                best = subset;
+            }
+        }
+
+        return { chosen: best ?? [], evaluated };
+    }
+
+    private greedyCover(candidates: SplitCandidate[], assets: Set<string>): SplitCandidate[] {
+        const remaining = new Set(assets);
+        const chosen: SplitCandidate[] = [];
+        while (remaining.size > 0) {
+            let pick: SplitCandidate | null = null;
+            let pickRatio = Infinity;
+            for (const candidate of candidates) {
+                const gain = [...candidate.assetIds].filter(id => remaining.has(id)).length;
+                if (gain > 0 && candidate.cost / gain < pickRatio) {
+                    pick = candidate;
+                    pickRatio = candidate.cost / gain;
+                }
+            }
+            if (!pick) {
+                break;
+            }
+            chosen.push(pick);
+            pick.assetIds.forEach(id => remaining.delete(id));
+        }
+        return chosen;
+    }
+
+    private compareCovers(a: SplitCandidate[], b: SplitCandidate[]): number {
+        const cost = (cover: SplitCandidate[]) => cover.reduce((sum, c) => sum + c.cost, 0);
+        const maxDelay = (cover: SplitCandidate[]) => Math.max(...cover.map(c => c.score.estimatedDelay));
+        return (cost(a) - cost(b))
+            || (a.length - b.length)
+            || (maxDelay(a) - maxDelay(b));
+    }
+
+    /**
+     * Affecte chaque asset au moins cher des entrepôts retenus qui le détient
+     */
+    private allocateAssets(
+        chosen: SplitCandidate[],
+        assetIds: string[],
+        customerCountry: string
+    ): SplitSubAssignment[] {
+        const byCost = [...chosen].sort((a, b) => a.cost - b.cost);
+        const allocated = new Map<SplitCandidate, string[]>();
+        for (const assetId of assetIds) {
+            const holder = byCost.find(c => c.assetIds.has(assetId));
+            if (holder) {
+                allocated.set(holder, [...(allocated.get(holder) ?? []), assetId]);
+            }
+        }
+
+        const total = assetIds.length;
+        return chosen
+            .filter(c => allocated.has(c))
+            .map(c => {
+                const assets = allocated.get(c) ?? [];
+                return {
+                    warehouseId: c.score.warehouseId,
+                    warehouseCode: c.score.warehouseCode,
+                    country: c.score.country,
+                    assetIds: assets,
+                    estimatedDelay: c.score.estimatedDelay,
+                    cost: c.cost,
+                    reasons: [
+                        ...c.score.reasons,
+                        `Holds ${assets.length}/${total} assets`,
+                        ...this.parcelCostReasons(c.score, customerCountry)
+                    ]
+                };
+            });
+    }
+
+    private parcelCost(warehouseCountry: string, delay: number, customerCountry: string): number {
+        return SPLIT_COST.PER_PARCEL
+            + SPLIT_COST.PER_DELAY_DAY * delay
+            + (warehouseCountry !== customerCountry ? SPLIT_COST.CROSS_BORDER : 0);
+    }
+
+    private parcelCostReasons(score: WarehouseScore, customerCountry: string): string[] {
+        const reasons = [
+            `Parcel (cost +${SPLIT_COST.PER_PARCEL})`,
+            `Delay ${score.estimatedDelay}d (cost +${SPLIT_COST.PER_DELAY_DAY * score.estimatedDelay})`
+        ];
+        if (score.country !== customerCountry) {
+            reasons.push(`Cross-border (cost +${SPLIT_COST.CROSS_BORDER})`);
+        }
+        return reasons;
+    }
+
+    private sumCost(assignments: SplitSubAssignment[]): number {
+        return assignments.reduce((sum, a) => sum + a.cost, 0);
+    }
+
+    /**
+     * Reconstruit le résultat d'une répartition déjà enregistrée
+     */
+    private async rebuildSplitResult(
+        request: RoutingRequest,
+        existing: SplitAssignment[]
+    ): Promise<SplitRoutingResult> {
+        const { orderId, customerCountry, assetIds } = request;
+        const assignments: SplitSubAssignment[] = [];
+        for (const split of existing) {
+            const warehouse = await this.prisma.warehouse.findUnique({
+                where: { id: split.warehouseId }
+            });
+            const country = warehouse?.country || 'DEFAULT';
+            const delay = await this.getDeliveryDelay({ warehouseId: split.warehouseId, country }, request);
+            assignments.push({
+                warehouseId: split.warehouseId,
+                warehouseCode: warehouse?.code || 'UNKNOWN',
+                country,
+                assetIds: split.assetIds,
+                estimatedDelay: delay,
+                cost: this.parcelCost(country, delay, customerCountry),
+                reasons: ['Existing split assignment']
+            });
+        }
+
+        const reserved = new Set(assignments.flatMap(a => a.assetIds));
+        return {
+            orderId,
+            assignments,
+            assetsReserved: [...reserved],
+            assetsMissing: assetIds.filter(id => !reserved.has(id)),
+            totalCost: this.sumCost(assignments),
+            estimatedDelay: Math.max(...assignments.map(a => a.estimatedDelay)),
+            reasons: ['Order already split, returning existing assignment'],
+            calculatedAt: new Date()
+        };
+    }
+
     // ============================================
     // RESERVATION
     // ============================================
@@ -203,35 +634,81 @@ export class RoutingService {
         });
 
         for (const assetId of assetIds) {
-            await this.prisma.stockLocation.updateMany({
-                where: {
-                    assetId,
-                    warehouseId,
-                    status: StockStatus.AVAILABLE
-                },
-                data: {
-                    status: StockStatus.RESERVED,
-                    orderId
-                }
+            await this.prisma.$transaction(async (tx) => {
+                await tx.stockLocation.updateMany({
+                    where: {
+                        assetId,
+                        warehouseId,
+                        status: StockStatus.AVAILABLE
+                    },
+                    data: {
+                        status: StockStatus.RESERVED,
+                        orderId
+                    }
+                });
+
+                await emitAssetReservedAtWarehouse(tx, assetId, warehouse?.code || warehouseId, orderId);
             });
-
-            emitAssetReservedAtWarehouse(assetId, warehouse?.code || warehouseId, orderId);
         }
     }
 
+    /**
+     * Libère les réservations d'une commande, retourne les assets libérés
+     */
+    private async releaseOrderReservations(orderId: string): Promise<string[]> {
+        const reserved = await this.prisma.stockLocation.findMany({
+            where: { orderId, status: StockStatus.RESERVED },
+            select: { assetId: true }
+        });
+        const assetIds = reserved.map(r => r.assetId);
+
+        await this.prisma.stockLocation.updateMany({
+            where: { orderId, status: StockStatus.RESERVED },
+            data: { status: StockStatus.AVAILABLE, orderId: null }
+        });
+
+        return assetIds;
+    }
+
+    /**
+     * Restaure des réservations libérées (réassignation échouée)
+     */
+    private async restoreOrderReservations(orderId: string, assetIds: string[]): Promise<void> {
+        await this.prisma.stockLocation.updateMany({
+            where: { assetId: { in: assetIds }, status: StockStatus.AVAILABLE },
+            data: { status: StockStatus.RESERVED, orderId }
+        });
+    }
+
     // ============================================
     // HELPERS
     // ============================================
 
-    private getDeliveryDelay(warehouseCountry: string, customerCountry: string): number {
-        const defaultDelay = DELIVERY_DELAYS.DEFAULT ?? 5;
-        if (warehouseCountry === customerCountry) {
-            return DELIVERY_DELAYS[customerCountry] ?? defaultDelay;
-        }
-        // Cross-border = délai max des deux pays + 1
-        const whDelay = DELIVERY_DELAYS[warehouseCountry] ?? defaultDelay;
-        const custDelay = DELIVERY_DELAYS[customerCountry] ?? defaultDelay;
-        return Math.max(whDelay, custDelay) + 1;
+    /**
+     * Assets demandés en transfert, par entrepôt de destination
+     */
+    private async countInTransitByWarehouse(assetIds: string[]): Promise<Map<string, number>> {
+        const groups = await this.prisma.stockLocation.groupBy({
+            by: ['warehouseId'],
+            where: { assetId: { in: assetIds }, status: StockStatus.IN_TRANSIT },
+            _count: { _all: true }
+        });
+        return new Map(groups.map(g => [g.warehouseId, g._count._all]));
+    }
+
+    /**
+     * Délai de livraison (jours ouvrés) depuis la matrice de transport
+     */
+    private async getDeliveryDelay(
+        origin: TransitOrigin,
+        request: Pick<RoutingRequest, 'customerCountry' | 'postcode' | 'serviceLevel'>
+    ): Promise<number> {
+        const quote = await this.transitTimeService.quote(origin, {
+            destinationCountry: request.customerCountry,
+            postcode: request.postcode,
+            serviceLevel: request.serviceLevel
+        });
+        return quote.estimatedDelay;
     }
 
     // ============================================
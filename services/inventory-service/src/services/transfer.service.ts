@@ -0,0 +1,551 @@
+/**
+ * Transfer Service
+ * Transferts de stock entre entrepôts
+ *
+ * Règles :
+ * 1. Un transfert engage des assets AVAILABLE de l'entrepôt d'origine,
+ *    absents de tout autre transfert ouvert
+ * 2. L'expédition crée une tâche WMS SHIPPING par unité à l'origine, puis
+ *    passe le stock IN_TRANSIT vers la destination (mouvement TRANSFER
+ *    vers null), dans UNE transaction
+ * 3. La réception scanne les unités sur un emplacement de destination :
+ *    mouvement TRANSFER + stock de nouveau AVAILABLE
+ * 4. La clôture de la réception déclare les unités non scannées manquantes ;
+ *    chacune est résolue FOUND (reçue en retard) ou LOST (retirée du stock,
+ *    mouvement ADJUSTMENT)
+ */
+
+import { PrismaClient, Prisma, MovementReason, TransferDiscrepancyResolution, TransferStatus, StockStatus } from '@prisma/client';
+import { TransferRepository } from '../repositories/transfer.repository';
+import { LocationRepository } from '../repositories/location.repository';
+import { MovementRepository } from '../repositories/movement.repository';
+import { StockLocationRepository } from '../repositories/stockLocation.repository';
+import { HttpWmsStatusProvider, WmsTaskSummary } from '../integrations/wms.client';
+import { TransitTimeService } from './transitTime.service';
+import {
+    emitAssetMoved,
+    emitTransferCreated,
+    emitTransferDiscrepancyResolved,
+    emitTransferDispatched,
+    emitTransferReceived
+} from '../events/inventory.events';
+import {
+    LocationEntity,
+    LocationNotFoundError,
+    LocationCapacityExceededError,
+    WarehouseNotFoundError
+} from '../domain/location.types';
+import { InvalidMovementDestinationError, MovementEntity } from '../domain/movement.types';
+import { DuplicateScanError } from '../domain/cycleCount.types';
+import {
+    CreateTransferDto,
+    ReceiveTransferDto,
+    ResolveTransferDiscrepancyDto,
+    TransferOrderEntity,
+    TransferScanEntity,
+    TransferDiscrepancyEntity,
+    TransferReport,
+    TRANSFER_RECEIPT_LOCATION_TYPES,
+    TRANSFER_WMS_TASK_TYPE,
+    transferReference,
+    AssetNotInTransferError,
+    AssetNotTransferableError,
+    InvalidTransferError,
+    TransferNotFoundError,
+    TransferStatusError
+} from '../domain/transfer.types';
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/**
+ * Tâches WMS des transferts (injectable pour tests)
+ */
+export interface WmsTaskGateway {
+    getTasksForOrder(orderId: string): Promise<WmsTaskSummary[]>;
+    createTask(assetId: string, type: string, orderId: string): Promise<WmsTaskSummary>;
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class TransferService {
+    private readonly transferRepository: TransferRepository;
+    private readonly locationRepository: LocationRepository;
+    private readonly stockLocationRepository: StockLocationRepository;
+    private readonly wmsGateway: WmsTaskGateway;
+    private readonly transitTimeService: TransitTimeService;
+
+    constructor(
+        private readonly prisma: PrismaClient,
+        wmsGateway?: WmsTaskGateway,
+        transitTimeService?: TransitTimeService
+    ) {
+        this.transferRepository = new TransferRepository(prisma);
+        this.locationRepository = new LocationRepository(prisma);
+        this.stockLocationRepository = new StockLocationRepository(prisma);
+        this.wmsGateway = wmsGateway ?? new HttpWmsStatusProvider();
+        this.transitTimeService = transitTimeService ?? new TransitTimeService(prisma);
+    }
+
+    /**
+     * Crée un ordre de transfert
+     *
+     * @throws WarehouseNotFoundError si un entrepôt n'existe pas
+     * @throws InvalidTransferError si la demande est invalide
+     * @throws AssetNotTransferableError si un asset ne peut pas partir
+     */
+    async createTransfer(dto: CreateTransferDto): Promise<TransferOrderEntity> {
+        if (dto.fromWarehouseId === dto.toWarehouseId) {
+            throw new InvalidTransferError('Origin and destination warehouses must differ');
+        }
+        this.assertAssetList(dto.assetIds);
+
+        await this.getActiveWarehouse(dto.fromWarehouseId);
+        await this.getActiveWarehouse(dto.toWarehouseId);
+
+        await this.assertTransferable(this.stockLocationRepository, dto.assetIds, dto.fromWarehouseId);
+
+        const [engaged] = await this.transferRepository.findOpenByAssetIds(dto.assetIds);
+        if (engaged) {
+            const assetId = engaged.assetIds.find(id => dto.assetIds.includes(id)) as string;
+            throw new AssetNotTransferableError(assetId, `already engaged in transfer ${engaged.id}`);
+        }
+
+        return this.prisma.$transaction(async (tx) => {
+            const transfer = await new TransferRepository(tx).create(
+                dto.fromWarehouseId,
+                dto.toWarehouseId,
+                dto.assetIds,
+                dto.createdBy
+            );
+
+            await emitTransferCreated(tx, transfer);
+
+            return transfer;
+        });
+    }
+
+    /**
+     * Expédie un transfert : stock IN_TRANSIT puis tâches WMS à l'origine
+     *
+     * Les tâches WMS ne sont créées qu'après commit : un échec de la transaction
+     * (réservation concurrente…) ne laisse aucune tâche orpheline. Le WMS est
+     * interrogé avant (injoignable → rien n'est expédié). Si la création des tâches
+     * échoue après commit, rappeler dispatch sur le transfert IN_TRANSIT crée les
+     * tâches manquantes (idempotent : une unité qui a déjà sa tâche n'en reçoit pas
+     * une seconde, une unité déjà reçue non plus).
+     *
+     * @throws TransferStatusError si le transfert n'est ni PLANNED ni IN_TRANSIT
+     * @throws AssetNotTransferableError si un asset a changé d'état depuis la création
+     * @throws WmsServiceError si le WMS est indisponible
+     */
+    async dispatchTransfer(transferId: string): Promise<TransferOrderEntity> {
+        const transfer = await this.getTransfer(transferId);
+
+        // Relance : tâches manquantes seulement
+        if (transfer.status === TransferStatus.IN_TRANSIT) {
+            const received = await this.transferRepository.findScans(transferId);
+            const receivedIds = new Set(received.map(s => s.assetId));
+            await this.createShippingTasks(transfer, transfer.assetIds.filter(id => !receivedIds.has(id)));
+            return transfer;
+        }
+        if (transfer.status !== TransferStatus.PLANNED) {
+            throw new TransferStatusError(transferId, transfer.status, TransferStatus.PLANNED);
+        }
+
+        await this.assertTransferable(this.stockLocationRepository, transfer.assetIds, transfer.fromWarehouseId);
+        await this.findShippingTasks(transfer); // WMS injoignable → rien n'est expédié
+        const expectedArrivalAt = await this.estimateArrival(transfer);
+
+        const dispatched = await this.prisma.$transaction(async (tx) => {
+            const stockRepository = new StockLocationRepository(tx);
+            const movementRepository = new MovementRepository(tx);
+
+            // Relecture dans la transaction : une réservation concurrente l'emporte
+            await this.assertTransferable(stockRepository, transfer.assetIds, transfer.fromWarehouseId);
+
+            const movementList: MovementEntity[] = [];
+            for (const assetId of transfer.assetIds) {
+                const position = await movementRepository.getCurrentPosition(assetId);
+                movementList.push(await movementRepository.create(
+                    assetId,
+                    position.locationId,
+                    null,
+                    MovementReason.TRANSFER
+                ));
+            }
+            await stockRepository.markInTransit(transfer.assetIds, transfer.toWarehouseId);
+
+            const updated = await new TransferRepository(tx).markDispatched(transferId, expectedArrivalAt);
+
+            for (const movement of movementList) {
+                await emitAssetMoved(tx, movement);
+            }
+            await emitTransferDispatched(tx, updated);
+
+            return updated;
+        }, {
+            isolationLevel: Prisma.TransactionIsolationLevel.Serializable
+        });
+
+        await this.createShippingTasks(dispatched, transfer.assetIds);
+
+        return dispatched;
+    }
+
+    /**
+     * Réceptionne des unités scannées sur un emplacement de destination
+     *
+     * La réception est clôturée automatiquement quand toutes les unités sont scannées.
+     *
+     * @throws TransferStatusError si le transfert n'est pas IN_TRANSIT
+     * @throws AssetNotInTransferError si un asset scanné n'a pas été expédié
+     * @throws DuplicateScanError si un asset a déjà été reçu
+     */
+    async receiveTransfer(transferId: string, dto: ReceiveTransferDto): Promise<TransferReport> {
+        const transfer = await this.getWithStatus(transferId, TransferStatus.IN_TRANSIT);
+        this.assertAssetList(dto.assetIds);
+        const location = await this.getReceiptLocation(transfer, dto.locationId);
+
+        const foreign = dto.assetIds.find(id => !transfer.assetIds.includes(id));
+        if (foreign) {
+            throw new AssetNotInTransferError(transferId, foreign);
+        }
+
+        const previous = await this.transferRepository.findScans(transferId);
+        const alreadyReceived = previous.find(s => dto.assetIds.includes(s.assetId));
+        if (alreadyReceived) {
+            throw new DuplicateScanError(alreadyReceived.assetId, alreadyReceived.locationId);
+        }
+
+        const complete = previous.length + dto.assetIds.length === transfer.assetIds.length;
+
+        await this.prisma.$transaction(async (tx) => {
+            const repository = new TransferRepository(tx);
+            const stockRepository = new StockLocationRepository(tx);
+            await this.assertCapacity(stockRepository, location, dto.assetIds.length);
+
+            const movements = await this.receiveUnits(tx, transfer, location, dto.assetIds, dto.scannedBy);
+            for (const movement of movements) {
+                await emitAssetMoved(tx, movement);
+            }
+            if (complete) {
+                const received = await repository.updateStatus(transferId, TransferStatus.RECEIVED);
+                await emitTransferReceived(tx, received, 0);
+            }
+        }, {
+            isolationLevel: Prisma.TransactionIsolationLevel.Serializable
+        });
+
+        return this.getReport(transferId);
+    }
+
+    /**
+     * Clôture la réception : les unités non scannées sont déclarées manquantes
+     *
+     * @throws TransferStatusError si le transfert n'est pas IN_TRANSIT
+     */
+    async closeReceipt(transferId: string): Promise<TransferReport> {
+        const transfer = await this.getWithStatus(transferId, TransferStatus.IN_TRANSIT);
+
+        const scanned = new Set((await this.transferRepository.findScans(transferId)).map(s => s.assetId));
+        const missing = transfer.assetIds.filter(id => !scanned.has(id));
+
+        await this.prisma.$transaction(async (tx) => {
+            const repository = new TransferRepository(tx);
+            await repository.createDiscrepancies(transferId, missing);
+            const closed = await repository.updateStatus(
+                transferId,
+                missing.length > 0 ? TransferStatus.DISPUTED : TransferStatus.RECEIVED
+            );
+            await emitTransferReceived(tx, closed, missing.length);
+        });
+
+        return this.getReport(transferId);
+    }
+
+    /**
+     * Résout une unité manquante
+     *
+     * FOUND : reçue en retard sur un emplacement de destination (mouvement TRANSFER).
+     * LOST : retirée du stock (mouvement ADJUSTMENT).
+     * Le transfert passe RECEIVED quand plus aucun manquant n'est en attente.
+     *
+     * @throws TransferStatusError si le transfert n'est pas DISPUTED
+     * @throws InvalidTransferError si le manquant est inconnu, déjà résolu ou la résolution invalide
+     */
+    async resolveDiscrepancy(
+        transferId: string,
+        discrepancyId: string,
+        dto: ResolveTransferDiscrepancyDto
+    ): Promise<TransferReport> {
+        const transfer = await this.getWithStatus(transferId, TransferStatus.DISPUTED);
+        const discrepancies = await this.transferRepository.findDiscrepancies(transferId);
+
+        const discrepancy = discrepancies.find(d => d.id === discrepancyId);
+        if (!discrepancy) {
+            throw new InvalidTransferError(`Discrepancy ${discrepancyId} does not belong to transfer ${transferId}`);
+        }
+        if (discrepancy.resolution !== TransferDiscrepancyResolution.PENDING) {
+            throw new InvalidTransferError(`Discrepancy ${discrepancyId} is already ${discrepancy.resolution}`);
+        }
+        if (dto.resolution !== TransferDiscrepancyResolution.FOUND && dto.resolution !== TransferDiscrepancyResolution.LOST) {
+            throw new InvalidTransferError(`Invalid resolution: ${dto.resolution}`);
+        }
+
+        let location: LocationEntity | null = null;
+        if (dto.resolution === TransferDiscrepancyResolution.FOUND) {
+            if (!dto.locationId) {
+                throw new InvalidTransferError('locationId is required to receive a found unit');
+            }
+            location = await this.getReceiptLocation(transfer, dto.locationId);
+        }
+
+        const stillPending = discrepancies.filter(
+            d => d.resolution === TransferDiscrepancyResolution.PENDING && d.id !== discrepancyId
+        ).length;
+
+        await this.prisma.$transaction(async (tx) => {
+            const repository = new TransferRepository(tx);
+            const movementRepository = new MovementRepository(tx);
+            const stockRepository = new StockLocationRepository(tx);
+
+            let created: MovementEntity;
+            if (location) {
+                await this.assertCapacity(stockRepository, location, 1);
+                created = await movementRepository.create(discrepancy.assetId, null, location.id, MovementReason.TRANSFER);
+                await stockRepository.receiveAt(discrepancy.assetId, transfer.toWarehouseId, location.id);
+            } else {
+                created = await movementRepository.create(discrepancy.assetId, null, null, MovementReason.ADJUSTMENT);
+                await stockRepository.remove(discrepancy.assetId);
+            }
+
+            const updated = await repository.resolveDiscrepancy(
+                discrepancyId,
+                dto.resolution,
+                location?.id ?? null,
+                created.id,
+                dto.resolvedBy
+            );
+            if (stillPending === 0) {
+                await repository.updateStatus(transferId, TransferStatus.RECEIVED);
+            }
+
+            await emitAssetMoved(tx, created);
+            await emitTransferDiscrepancyResolved(tx, updated);
+        });
+
+        return this.getReport(transferId);
+    }
+
+    /**
+     * Annule un transfert non expédié
+     *
+     * @throws TransferStatusError si le transfert n'est pas PLANNED
+     */
+    async cancelTransfer(transferId: string): Promise<TransferOrderEntity> {
+        await this.getWithStatus(transferId, TransferStatus.PLANNED);
+        return this.transferRepository.updateStatus(transferId, TransferStatus.CANCELLED);
+    }
+
+    /**
+     * Récupère un transfert
+     *
+     * @throws TransferNotFoundError si le transfert n'existe pas
+     */
+    async getTransfer(transferId: string): Promise<TransferOrderEntity> {
+        const transfer = await this.transferRepository.findById(transferId);
+        if (!transfer) {
+            throw new TransferNotFoundError(transferId);
+        }
+        return transfer;
+    }
+
+    /**
+     * Liste les transferts au départ ou à destination d'un entrepôt
+     */
+    async listTransfers(warehouseId: string, status?: TransferStatus): Promise<TransferOrderEntity[]> {
+        return this.transferRepository.findByWarehouseId(warehouseId, status);
+    }
+
+    /**
+     * Rapport de réception (scans, manquants, résolutions)
+     */
+    async getReport(transferId: string): Promise<TransferReport> {
+        const transfer = await this.getTransfer(transferId);
+        const scans = await this.transferRepository.findScans(transferId);
+        const discrepancies = await this.transferRepository.findDiscrepancies(transferId);
+        return this.buildReport(transfer, scans, discrepancies);
+    }
+
+    // ========== HELPERS ==========
+
+    private async getWithStatus(transferId: string, status: TransferStatus): Promise<TransferOrderEntity> {
+        const transfer = await this.getTransfer(transferId);
+        if (transfer.status !== status) {
+            throw new TransferStatusError(transferId, transfer.status, status);
+        }
+        return transfer;
+    }
+
+    private async getActiveWarehouse(warehouseId: string): Promise<{ id: string; country: string }> {
+        const warehouse = await this.prisma.warehouse.findUnique({
+            where: { id: warehouseId }
+        });
+        if (!warehouse) {
+            throw new WarehouseNotFoundError(warehouseId);
+        }
+        if (!warehouse.active) {
+            throw new InvalidTransferError(`Warehouse ${warehouseId} is not active`);
+        }
+        return warehouse;
+    }
+
+    private assertAssetList(assetIds: string[]): void {
+        if (!Array.isArray(assetIds) || assetIds.length === 0) {
+            throw new InvalidTransferError('assetIds must be a non-empty array');
+        }
+        if (new Set(assetIds).size !== assetIds.length) {
+            throw new InvalidTransferError('assetIds contains duplicates');
+        }
+    }
+
+    /**
+     * Chaque asset doit être AVAILABLE dans l'entrepôt d'origine
+     */
+    private async assertTransferable(
+        stockRepository: StockLocationRepository,
+        assetIds: string[],
+        fromWarehouseId: string
+    ): Promise<void> {
+        const stocks = new Map((await stockRepository.findByAssetIds(assetIds)).map(s => [s.assetId, s]));
+        for (const assetId of assetIds) {
+            const stock = stocks.get(assetId);
+            if (!stock || stock.warehouseId !== fromWarehouseId) {
+                throw new AssetNotTransferableError(assetId, `not in stock at warehouse ${fromWarehouseId}`);
+            }
+            if (stock.status !== StockStatus.AVAILABLE) {
+                throw new AssetNotTransferableError(assetId, `stock status is ${stock.status}`);
+            }
+        }
+    }
+
+    /**
+     * Emplacement de destination apte à recevoir des unités transférées
+     */
+    private async getReceiptLocation(transfer: TransferOrderEntity, locationId: string): Promise<LocationEntity> {
+        const location = await this.locationRepository.findById(locationId);
+        if (!location) {
+            throw new LocationNotFoundError(locationId);
+        }
+        if (location.warehouseId !== transfer.toWarehouseId) {
+            throw new InvalidTransferError(
+                `Location ${locationId} does not belong to destination warehouse ${transfer.toWarehouseId}`
+            );
+        }
+        if (!TRANSFER_RECEIPT_LOCATION_TYPES.includes(location.type)) {
+            throw new InvalidMovementDestinationError(location.id, location.type, MovementReason.TRANSFER);
+        }
+        return location;
+    }
+
+    private async assertCapacity(
+        stockRepository: StockLocationRepository,
+        location: LocationEntity,
+        incoming: number
+    ): Promise<void> {
+        if (location.capacity === null) {
+            return;
+        }
+        const occupied = await stockRepository.countByLocationId(location.id);
+        if (occupied + incoming > location.capacity) {
+            throw new LocationCapacityExceededError(location.id, location.capacity);
+        }
+    }
+
+    /**
+     * Mouvement TRANSFER, stock de nouveau disponible et scan, pour chaque unité reçue
+     */
+    private async receiveUnits(
+        tx: Prisma.TransactionClient,
+        transfer: TransferOrderEntity,
+        location: LocationEntity,
+        assetIds: string[],
+        scannedBy?: string
+    ): Promise<MovementEntity[]> {
+        const repository = new TransferRepository(tx);
+        const movementRepository = new MovementRepository(tx);
+        const stockRepository = new StockLocationRepository(tx);
+
+        const movements: MovementEntity[] = [];
+        for (const assetId of assetIds) {
+            const movement = await movementRepository.create(assetId, null, location.id, MovementReason.TRANSFER);
+            await stockRepository.receiveAt(assetId, transfer.toWarehouseId, location.id);
+            await repository.createScan(transfer.id, assetId, location.id, movement.id, scannedBy);
+            movements.push(movement);
+        }
+        return movements;
+    }
+
+    /**
+     * Une tâche SHIPPING par unité à l'origine (les tâches existantes sont conservées)
+     */
+    private async createShippingTasks(transfer: TransferOrderEntity, assetIds: string[]): Promise<void> {
+        const covered = await this.findShippingTasks(transfer);
+        const reference = transferReference(transfer.id);
+
+        for (const assetId of assetIds) {
+            if (!covered.has(assetId)) {
+                await this.wmsGateway.createTask(assetId, TRANSFER_WMS_TASK_TYPE, reference);
+            }
+        }
+    }
+
+    /**
+     * Assets du transfert qui ont déjà leur tâche WMS SHIPPING
+     */
+    private async findShippingTasks(transfer: TransferOrderEntity): Promise<Set<string>> {
+        const existing = await this.wmsGateway.getTasksForOrder(transferReference(transfer.id));
+        return new Set(existing.filter(t => t.type === TRANSFER_WMS_TASK_TYPE).map(t => t.assetId));
+    }
+
+    /**
+     * Arrivée estimée d'après la matrice de transport
+     */
+    private async estimateArrival(transfer: TransferOrderEntity): Promise<Date> {
+        const destination = await this.getActiveWarehouse(transfer.toWarehouseId);
+        const quote = await this.transitTimeService.quoteForWarehouse(transfer.fromWarehouseId, {
+            destinationCountry: destination.country
+        });
+        return quote.estimatedDeliveryDate;
+    }
+
+    private buildReport(
+        transfer: TransferOrderEntity,
+        scans: TransferScanEntity[],
+        discrepancies: TransferDiscrepancyEntity[]
+    ): TransferReport {
+        const countResolution = (resolution: TransferDiscrepancyResolution) =>
+            discrepancies.filter(d => d.resolution === resolution).length;
+        const inTransit = transfer.status === TransferStatus.IN_TRANSIT
+            ? transfer.assetIds.length - scans.length
+            : 0;
+
+        return {
+            transfer,
+            summary: {
+                shipped: transfer.dispatchedAt ? transfer.assetIds.length : 0,
+                received: scans.length + countResolution(TransferDiscrepancyResolution.FOUND),
+                pending: inTransit,
+                missing: countResolution(TransferDiscrepancyResolution.PENDING),
+                found: countResolution(TransferDiscrepancyResolution.FOUND),
+                lost: countResolution(TransferDiscrepancyResolution.LOST)
+            },
+            scans,
+            discrepancies
+        };
+    }
+}
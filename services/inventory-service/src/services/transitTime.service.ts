@@ -0,0 +1,323 @@
+/**
+ * Transit Time Service
+ * Délais de transport : matrice origine × destination × niveau de service
+ *
+ * RÈGLES :
+ * - L'entrée la plus spécifique gagne : entrepôt > pays d'origine,
+ *   préfixe de code postal le plus long > pays de destination
+ * - Sans entrée, repli sur DELIVERY_DELAYS (source DEFAULT)
+ * - Jours ouvrés = lun–ven hors jours fériés (origine au départ, destination à la livraison)
+ * - Au-delà de l'heure de coupure, départ le jour ouvré suivant
+ *
+ * Source unique des délais pour le routage et les lead times CTO.
+ */
+
+import { PrismaClient, ServiceLevel } from '@prisma/client';
+import { TransitTimeRepository } from '../repositories/transitTime.repository';
+import { StockLocationRepository } from '../repositories/stockLocation.repository';
+import { WarehouseNotFoundError } from '../domain/location.types';
+import { DELIVERY_DELAYS } from '../domain/warehouse.types';
+import {
+    CreateTransitTimeDto,
+    CreateHolidayDto,
+    TransitTimeEntity,
+    HolidayEntity,
+    TransitOrigin,
+    TransitQuoteRequest,
+    TransitQuote,
+    CUTOFF_TIME_PATTERN,
+    HOLIDAY_HORIZON_DAYS,
+    AssetNotInStockError,
+    InvalidTransitTimeError,
+    TransitTimeNotFoundError
+} from '../domain/transit.types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// ============================================
+// CALENDRIER (UTC)
+// ============================================
+
+function startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function addDays(date: Date, days: number): Date {
+    return new Date(date.getTime() + days * MS_PER_DAY);
+}
+
+function dayKey(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function isWeekday(date: Date): boolean {
+    const day = date.getUTCDay();
+    return day !== 0 && day !== 6;
+}
+
+/**
+ * Calendrier ouvré d'un pays
+ */
+class BusinessCalendar {
+    constructor(private readonly holidays: Set<string>) { }
+
+    isBusinessDay(date: Date): boolean {
+        return isWeekday(date) && !this.holidays.has(dayKey(date));
+    }
+
+    /**
+     * Premier jour ouvré à partir de date (incluse)
+     * Retourne aussi le nombre de jours fériés en semaine sautés
+     */
+    nextBusinessDay(date: Date): { date: Date; holidaysSkipped: number } {
+        let current = date;
+        let holidaysSkipped = 0;
+        while (!this.isBusinessDay(current)) {
+            if (isWeekday(current)) {
+                holidaysSkipped++;
+            }
+            current = addDays(current, 1);
+        }
+        return { date: current, holidaysSkipped };
+    }
+
+    /**
+     * Avance de n jours ouvrés
+     */
+    addBusinessDays(date: Date, days: number): { date: Date; holidaysSkipped: number } {
+        let current = date;
+        let holidaysSkipped = 0;
+        for (let i = 0; i < days; i++) {
+            const next = this.nextBusinessDay(addDays(current, 1));
+            current = next.date;
+            holidaysSkipped += next.holidaysSkipped;
+        }
+        return { date: current, holidaysSkipped };
+    }
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class TransitTimeService {
+    private readonly transitTimeRepository: TransitTimeRepository;
+    private readonly stockLocationRepository: StockLocationRepository;
+
+    constructor(private readonly prisma: PrismaClient) {
+        this.transitTimeRepository = new TransitTimeRepository(prisma);
+        this.stockLocationRepository = new StockLocationRepository(prisma);
+    }
+
+    // ============================================
+    // MATRICE
+    // ============================================
+
+    /**
+     * Ajoute une entrée à la matrice
+     */
+    async createTransitTime(dto: CreateTransitTimeDto): Promise<TransitTimeEntity> {
+        if (!Number.isInteger(dto.transitDays) || dto.transitDays < 0) {
+            throw new InvalidTransitTimeError('transitDays must be a non-negative integer');
+        }
+        if (dto.cutoffTime !== undefined && !CUTOFF_TIME_PATTERN.test(dto.cutoffTime)) {
+            throw new InvalidTransitTimeError(`Invalid cutoffTime: ${dto.cutoffTime} (expected HH:MM)`);
+        }
+        if (dto.serviceLevel !== undefined && !Object.values(ServiceLevel).includes(dto.serviceLevel)) {
+            throw new InvalidTransitTimeError(`Invalid serviceLevel: ${dto.serviceLevel}`);
+        }
+        if (dto.originWarehouseId) {
+            const warehouse = await this.prisma.warehouse.findUnique({
+                where: { id: dto.originWarehouseId }
+            });
+            if (!warehouse) {
+                throw new WarehouseNotFoundError(dto.originWarehouseId);
+            }
+            if (warehouse.country !== dto.originCountry) {
+                throw new InvalidTransitTimeError(
+                    `Warehouse ${warehouse.code} is in ${warehouse.country}, not ${dto.originCountry}`
+                );
+            }
+        }
+
+        return this.transitTimeRepository.create(dto);
+    }
+
+    async listTransitTimes(originCountry?: string, destinationCountry?: string): Promise<TransitTimeEntity[]> {
+        return this.transitTimeRepository.findActive(originCountry, destinationCountry);
+    }
+
+    async deactivateTransitTime(id: string): Promise<TransitTimeEntity> {
+        const transitTime = await this.transitTimeRepository.findById(id);
+        if (!transitTime) {
+            throw new TransitTimeNotFoundError(id);
+        }
+        return this.transitTimeRepository.deactivate(id);
+    }
+
+    // ============================================
+    // JOURS FÉRIÉS
+    // ============================================
+
+    async addHoliday(dto: CreateHolidayDto): Promise<HolidayEntity> {
+        if (!DATE_PATTERN.test(dto.date) || Number.isNaN(Date.parse(dto.date))) {
+            throw new InvalidTransitTimeError(`Invalid date: ${dto.date} (expected YYYY-MM-DD)`);
+        }
+        return this.transitTimeRepository.upsertHoliday(dto, new Date(`${dto.date}T00:00:00.000Z`));
+    }
+
+    async listHolidays(country: string, from: Date, to: Date): Promise<HolidayEntity[]> {
+        return this.transitTimeRepository.findHolidays([country], startOfDay(from), startOfDay(to));
+    }
+
+    // ============================================
+    // DEVIS
+    // ============================================
+
+    /**
+     * Devis de transport depuis l'entrepôt d'un asset
+     */
+    async quoteForAsset(assetId: string, request: TransitQuoteRequest): Promise<TransitQuote> {
+        const stock = await this.stockLocationRepository.findByAssetId(assetId);
+        if (!stock) {
+            throw new AssetNotInStockError(assetId);
+        }
+        return this.quoteForWarehouse(stock.warehouseId, request);
+    }
+
+    /**
+     * Devis de transport depuis un entrepôt
+     */
+    async quoteForWarehouse(warehouseId: string, request: TransitQuoteRequest): Promise<TransitQuote> {
+        const warehouse = await this.prisma.warehouse.findUnique({
+            where: { id: warehouseId }
+        });
+        if (!warehouse) {
+            throw new WarehouseNotFoundError(warehouseId);
+        }
+        return this.quote({ warehouseId: warehouse.id, country: warehouse.country }, request);
+    }
+
+    /**
+     * Calcule le devis : entrée de matrice applicable puis calendrier ouvré
+     */
+    async quote(origin: TransitOrigin, request: TransitQuoteRequest): Promise<TransitQuote> {
+        const serviceLevel = request.serviceLevel ?? ServiceLevel.STANDARD;
+        const readyAt = request.readyAt ?? new Date();
+        const processingDays = request.processingDays ?? 0;
+        const reasons: string[] = [];
+
+        // 1. Entrée de matrice la plus spécifique (ou repli)
+        const entry = this.selectEntry(
+            await this.transitTimeRepository.findCandidates(origin.country, request.destinationCountry, serviceLevel),
+            origin.warehouseId,
+            request.postcode
+        );
+        const transitDays = entry ? entry.transitDays : this.defaultTransitDays(origin.country, request.destinationCountry);
+        reasons.push(entry
+            ? `Matrix ${origin.country}→${request.destinationCountry}${entry.postcodePrefix ? ` (${entry.postcodePrefix}*)` : ''} ${serviceLevel}: ${transitDays}d`
+            : `Default delay ${origin.country}→${request.destinationCountry}: ${transitDays}d`);
+
+        // 2. Calendriers origine / destination
+        const today = startOfDay(readyAt);
+        const holidays = await this.transitTimeRepository.findHolidays(
+            [origin.country, request.destinationCountry],
+            today,
+            addDays(today, HOLIDAY_HORIZON_DAYS + processingDays + transitDays)
+        );
+        const originCalendar = this.calendarFor(origin.country, holidays);
+        const destinationCalendar = this.calendarFor(request.destinationCountry, holidays);
+
+        // 3. Départ : coupure, préparation, premier jour ouvré
+        let delay = processingDays + transitDays;
+        let departure = today;
+        if (processingDays === 0 && entry?.cutoffTime && originCalendar.isBusinessDay(today)
+            && this.isAfterCutoff(readyAt, entry.cutoffTime)) {
+            departure = addDays(today, 1);
+            delay += 1;
+            reasons.push(`After cut-off ${entry.cutoffTime} UTC (+1d)`);
+        }
+        const firstDay = originCalendar.nextBusinessDay(departure);
+        const shipping = originCalendar.addBusinessDays(firstDay.date, processingDays);
+        const originHolidays = firstDay.holidaysSkipped + shipping.holidaysSkipped;
+
+        // 4. Livraison
+        const delivery = destinationCalendar.addBusinessDays(shipping.date, transitDays);
+
+        delay += originHolidays + delivery.holidaysSkipped;
+        if (originHolidays + delivery.holidaysSkipped > 0) {
+            reasons.push(`Holidays (+${originHolidays + delivery.holidaysSkipped}d)`);
+        }
+        if (processingDays > 0) {
+            reasons.push(`Processing ${processingDays}d`);
+        }
+
+        return {
+            originWarehouseId: origin.warehouseId,
+            originCountry: origin.country,
+            destinationCountry: request.destinationCountry,
+            serviceLevel,
+            source: entry ? 'MATRIX' : 'DEFAULT',
+            transitTimeId: entry?.id ?? null,
+            processingDays,
+            transitDays,
+            estimatedDelay: delay,
+            shipDate: shipping.date,
+            estimatedDeliveryDate: delivery.date,
+            reasons
+        };
+    }
+
+    // ============================================
+    // HELPERS
+    // ============================================
+
+    /**
+     * Entrée la plus spécifique : entrepôt exact, puis préfixe le plus long
+     */
+    private selectEntry(
+        candidates: TransitTimeEntity[],
+        warehouseId: string,
+        postcode?: string
+    ): TransitTimeEntity | null {
+        const applicable = candidates.filter(c =>
+            (c.originWarehouseId === null || c.originWarehouseId === warehouseId) &&
+            (c.postcodePrefix === null || (postcode !== undefined && postcode.startsWith(c.postcodePrefix)))
+        );
+
+        applicable.sort((a, b) => {
+            const byWarehouse = Number(b.originWarehouseId !== null) - Number(a.originWarehouseId !== null);
+            if (byWarehouse !== 0) return byWarehouse;
+            return (b.postcodePrefix?.length ?? 0) - (a.postcodePrefix?.length ?? 0);
+        });
+
+        return applicable[0] ?? null;
+    }
+
+    /**
+     * Repli sans matrice (délais historiques par pays)
+     */
+    private defaultTransitDays(originCountry: string, destinationCountry: string): number {
+        const defaultDelay = DELIVERY_DELAYS.DEFAULT ?? 5;
+        if (originCountry === destinationCountry) {
+            return DELIVERY_DELAYS[destinationCountry] ?? defaultDelay;
+        }
+        // Cross-border = délai max des deux pays + 1
+        const originDelay = DELIVERY_DELAYS[originCountry] ?? defaultDelay;
+        const destinationDelay = DELIVERY_DELAYS[destinationCountry] ?? defaultDelay;
+        return Math.max(originDelay, destinationDelay) + 1;
+    }
+
+    private calendarFor(country: string, holidays: HolidayEntity[]): BusinessCalendar {
+        return new BusinessCalendar(new Set(
+            holidays.filter(h => h.country === country).map(h => dayKey(h.date))
+        ));
+    }
+
+    private isAfterCutoff(readyAt: Date, cutoffTime: string): boolean {
+        const [hours, minutes] = cutoffTime.split(':').map(Number);
+        const cutoffMinutes = (hours ?? 0) * 60 + (minutes ?? 0);
+        return readyAt.getUTCHours() * 60 + readyAt.getUTCMinutes() >= cutoffMinutes;
+    }
+}
@@ -8,11 +8,20 @@ import { AssetServiceClient, AssetServiceResponse } from '../integrations/asset.
 import {
     AssetAlreadyReservedError,
     AssetNotReservedError,
-    AssetNotSellableError
+    AssetNotSellableError,
+    AlreadyWaitlistedError,
+    InvalidHoldError,
+    ReservationExpiredError
 } from '../domain/reservation.types';
-import { MovementReason, LocationType, PrismaClient } from '@prisma/client';
+import { LocationCapacityExceededError } from '../domain/location.types';
+import {
+    CrossWarehouseMoveError,
+    InvalidMovementDestinationError,
+    SourceLocationMismatchError
+} from '../domain/movement.types';
+import { MovementReason, LocationType, PrismaClient, HoldType, WaitlistStatus } from '@prisma/client';
 
-// Mock du PrismaClient
+// Mock du PrismaClient ($transaction exécute le callback avec le même mock)
 const mockPrisma = {
     warehouse: {
         create: jest.fn(),
@@ -36,8 +45,24 @@ const mockPrisma = {
         findUnique: jest.fn(),
         findMany: jest.fn(),
         delete: jest.fn(),
+        deleteMany: jest.fn(),
+        updateMany: jest.fn(),
         count: jest.fn()
-    }
+    },
+    reservationWaitlistEntry: {
+        upsert: jest.fn(),
+        findUnique: jest.fn(),
+        findMany: jest.fn(),
+        update: jest.fn()
+    },
+    stockLocation: {
+        findUnique: jest.fn(),
+        upsert: jest.fn(),
+        count: jest.fn(),
+        groupBy: jest.fn()
+    },
+    $executeRawUnsafe: jest.fn(),
+    $transaction: jest.fn()
 } as unknown as PrismaClient;
 
 // Mock du client Asset Service
@@ -53,6 +78,10 @@ describe('InventoryService', () => {
 
     beforeEach(() => {
         jest.clearAllMocks();
+        (mockPrisma.$transaction as jest.Mock).mockImplementation(
+            async (callback: (tx: PrismaClient) => Promise<unknown>) => callback(mockPrisma)
+        );
+        (mockPrisma.reservationWaitlistEntry.findMany as jest.Mock).mockResolvedValue([]);
         service = new InventoryService(mockPrisma, mockAssetServiceClient);
     });
 
@@ -62,9 +91,27 @@ describe('InventoryService', () => {
             warehouseId: 'wh-uuid-1',
             code: 'A-01-01',
             type: LocationType.STORAGE,
+            capacity: null,
             createdAt: new Date()
         };
 
+        const mockStock = {
+            id: 'stock-uuid-1',
+            assetId: 'asset-uuid-1',
+            warehouseId: 'wh-uuid-1',
+            locationId: 'loc-uuid-0',
+            status: 'AVAILABLE',
+            orderId: null,
+            createdAt: new Date(),
+            updatedAt: new Date()
+        };
+
+        beforeEach(() => {
+            (mockPrisma.inventoryMovement.findFirst as jest.Mock).mockResolvedValue(null);
+            (mockPrisma.stockLocation.findUnique as jest.Mock).mockResolvedValue(null);
+            (mockPrisma.stockLocation.upsert as jest.Mock).mockResolvedValue(mockStock);
+        });
+
         test('should_move_asset_and_record_movement', async () => {
             // Arrange
             (mockPrisma.location.findUnique as jest.Mock).mockResolvedValue(mockLocation);
@@ -94,11 +141,107 @@ describe('InventoryService', () => {
                     reason: MovementReason.INTAKE
                 })
             });
+            expect(mockPrisma.stockLocation.upsert).toHaveBeenCalledWith(expect.objectContaining({
+                where: { assetId: 'asset-uuid-1' },
+                update: { warehouseId: 'wh-uuid-1', locationId: 'loc-uuid-1' }
+            }));
             expect(console.log).toHaveBeenCalledWith(
-                '[EVENT]',
-                expect.stringContaining('AssetMoved')
+                expect.stringContaining('"message":"AssetMoved"')
             );
         });
+
+        test('should_reject_destination_of_wrong_type', async () => {
+            // Arrange - Expédition vers un emplacement de stockage
+            (mockPrisma.location.findUnique as jest.Mock).mockResolvedValue(mockLocation);
+
+            // Act & Assert
+            await expect(
+                service.moveAsset('asset-uuid-1', { toLocation: 'loc-uuid-1', reason: MovementReason.SHIP })
+            ).rejects.toThrow(InvalidMovementDestinationError);
+            expect(mockPrisma.inventoryMovement.create).not.toHaveBeenCalled();
+        });
+
+        test('should_reject_move_to_full_location', async () => {
+            // Arrange - Emplacement de capacité 2 déjà plein
+            (mockPrisma.location.findUnique as jest.Mock).mockResolvedValue({ ...mockLocation, capacity: 2 });
+            (mockPrisma.stockLocation.findUnique as jest.Mock).mockResolvedValue(mockStock);
+            (mockPrisma.stockLocation.count as jest.Mock).mockResolvedValue(2);
+
+            // Act & Assert
+            await expect(
+                service.moveAsset('asset-uuid-1', { toLocation: 'loc-uuid-1', reason: MovementReason.MOVE })
+            ).rejects.toThrow(LocationCapacityExceededError);
+            expect(mockPrisma.inventoryMovement.create).not.toHaveBeenCalled();
+            expect(mockPrisma.stockLocation.upsert).not.toHaveBeenCalled();
+        });
+
+        test('should_reject_source_different_from_current_position', async () => {
+            // Arrange - L'asset est en loc-uuid-0, la requête annonce loc-uuid-1
+            (mockPrisma.location.findUnique as jest.Mock).mockResolvedValue(mockLocation);
+            (mockPrisma.inventoryMovement.findFirst as jest.Mock).mockResolvedValue({
+                id: 'mov-uuid-1',
+                assetId: 'asset-uuid-1',
+                fromLocation: null,
+                toLocation: 'loc-uuid-0',
+                reason: MovementReason.INTAKE,
+                createdAt: new Date()
+            });
+
+            // Act & Assert
+            await expect(
+                service.moveAsset('asset-uuid-1', {
+                    fromLocation: 'loc-uuid-1',
+                    toLocation: 'loc-uuid-1',
+                    reason: MovementReason.MOVE
+                })
+            ).rejects.toThrow(SourceLocationMismatchError);
+        });
+
+        test('should_reject_move_to_another_warehouse', async () => {
+            // Arrange - Asset stocké dans wh-uuid-2
+            (mockPrisma.location.findUnique as jest.Mock).mockResolvedValue(mockLocation);
+            (mockPrisma.stockLocation.findUnique as jest.Mock).mockResolvedValue({ ...mockStock, warehouseId: 'wh-uuid-2' });
+
+            // Act & Assert
+            await expect(
+                service.moveAsset('asset-uuid-1', { toLocation: 'loc-uuid-1', reason: MovementReason.MOVE })
+            ).rejects.toThrow(CrossWarehouseMoveError);
+        });
+    });
+
+    describe('Occupancy', () => {
+        test('should_compute_fill_rate_per_location', async () => {
+            // Arrange - Un emplacement limité à moitié plein, un illimité, un asset sans emplacement
+            (mockPrisma.warehouse.findUnique as jest.Mock).mockResolvedValue({
+                id: 'wh-uuid-1',
+                name: 'Lyon',
+                createdAt: new Date()
+            });
+            (mockPrisma.location.findMany as jest.Mock).mockResolvedValue([
+                { id: 'loc-1', warehouseId: 'wh-uuid-1', code: 'A-01', type: LocationType.STORAGE, capacity: 4, createdAt: new Date() },
+                { id: 'loc-2', warehouseId: 'wh-uuid-1', code: 'R-01', type: LocationType.RECEIVING, capacity: null, createdAt: new Date() }
+            ]);
+            (mockPrisma.stockLocation.groupBy as jest.Mock).mockResolvedValue([
+                { locationId: 'loc-1', _count: { _all: 2 } },
+                { locationId: 'loc-2', _count: { _all: 7 } },
+                { locationId: null, _count: { _all: 3 } }
+            ]);
+
+            // Act
+            const occupancy = await service.getWarehouseOccupancy('wh-uuid-1');
+
+            // Assert
+            expect(occupancy.locations[0]).toEqual(expect.objectContaining({
+                code: 'A-01', occupied: 2, available: 2, fillRate: 0.5
+            }));
+            expect(occupancy.locations[1]).toEqual(expect.objectContaining({
+                code: 'R-01', occupied: 7, available: null, fillRate: null
+            }));
+            expect(occupancy.capacity).toBe(4);
+            expect(occupancy.occupied).toBe(9);
+            expect(occupancy.unlocated).toBe(3);
+            expect(occupancy.fillRate).toBe(0.5);
+        });
     });
 
     describe('Reservations', () => {
@@ -195,8 +338,7 @@ describe('InventoryService', () => {
                 })
             });
             expect(console.log).toHaveBeenCalledWith(
-                '[EVENT]',
-                expect.stringContaining('AssetReservationReleased')
+                expect.stringContaining('"message":"AssetReservationReleased"')
             );
         });
 
@@ -214,6 +356,174 @@ describe('InventoryService', () => {
         });
     });
 
+    describe('Soft holds and waitlist', () => {
+        const NOW = new Date('2026-10-19T10:00:00.000Z');
+
+        const softHold = {
+            id: 'res-uuid-1',
+            assetId: 'asset-uuid-1',
+            orderRef: 'QUOTE-001',
+            holdType: HoldType.SOFT,
+            expiresAt: new Date('2026-10-19T09:30:00.000Z'),
+            confirmedAt: null,
+            createdAt: new Date('2026-10-19T09:00:00.000Z')
+        };
+
+        const waitingEntry = {
+            id: 'wait-uuid-1',
+            assetId: 'asset-uuid-1',
+            orderRef: 'ORDER-002',
+            status: WaitlistStatus.WAITING,
+            createdAt: new Date('2026-10-19T09:10:00.000Z'),
+            claimedAt: null
+        };
+
+        beforeEach(() => {
+            (mockPrisma.inventoryMovement.findFirst as jest.Mock).mockResolvedValue(null);
+            (mockPrisma.inventoryMovement.create as jest.Mock).mockResolvedValue({
+                id: 'mov-uuid-1',
+                assetId: 'asset-uuid-1',
+                fromLocation: null,
+                toLocation: null,
+                reason: MovementReason.RELEASE,
+                createdAt: new Date()
+            });
+        });
+
+        test('should_create_soft_hold_with_expiry', async () => {
+            // Arrange
+            (mockAssetServiceClient.getAsset as jest.Mock).mockResolvedValue({ id: 'asset-uuid-1', status: 'SELLABLE' });
+            (mockPrisma.inventoryReservation.findUnique as jest.Mock).mockResolvedValue(null);
+            (mockPrisma.inventoryReservation.create as jest.Mock).mockImplementation(async ({ data }) => ({
+                id: 'res-uuid-2',
+                createdAt: new Date(),
+                ...data
+            }));
+
+            // Act
+            const reservation = await service.reserveAsset('asset-uuid-1', {
+                orderRef: 'QUOTE-001',
+                holdType: HoldType.SOFT,
+                ttlMinutes: 15
+            });
+
+            // Assert - échéance ≈ maintenant + 15 minutes
+            expect(reservation.holdType).toBe(HoldType.SOFT);
+            const ttlMs = (reservation.expiresAt as Date).getTime() - Date.now();
+            expect(ttlMs).toBeGreaterThan(14 * 60 * 1000);
+            expect(ttlMs).toBeLessThanOrEqual(15 * 60 * 1000);
+        });
+
+        test('should_reject_ttl_on_hard_hold', async () => {
+            await expect(
+                service.reserveAsset('asset-uuid-1', { orderRef: 'ORDER-001', ttlMinutes: 15 })
+            ).rejects.toThrow(InvalidHoldError);
+            expect(mockAssetServiceClient.getAsset).not.toHaveBeenCalled();
+        });
+
+        test('should_release_expired_soft_holds_with_release_movement', async () => {
+            // Arrange
+            (mockPrisma.inventoryReservation.findMany as jest.Mock).mockResolvedValue([softHold]);
+            (mockPrisma.inventoryReservation.deleteMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            // Act
+            const result = await service.releaseExpiredReservations(NOW);
+
+            // Assert
+            expect(result.expired.map(r => r.assetId)).toEqual(['asset-uuid-1']);
+            expect(mockPrisma.inventoryReservation.deleteMany).toHaveBeenCalledWith({
+                where: { assetId: 'asset-uuid-1', holdType: HoldType.SOFT, expiresAt: { lte: NOW } }
+            });
+            expect(mockPrisma.inventoryMovement.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ assetId: 'asset-uuid-1', reason: MovementReason.RELEASE })
+            });
+            expect(console.log).toHaveBeenCalledWith(
+                expect.stringContaining('"message":"ReservationExpired"')
+            );
+        });
+
+        test('should_skip_hold_confirmed_during_sweep', async () => {
+            // Arrange - confirmé entre la lecture et la suppression
+            (mockPrisma.inventoryReservation.findMany as jest.Mock).mockResolvedValue([softHold]);
+            (mockPrisma.inventoryReservation.deleteMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+            // Act
+            const result = await service.releaseExpiredReservations(NOW);
+
+            // Assert
+            expect(result.expired).toHaveLength(0);
+            expect(mockPrisma.inventoryMovement.create).not.toHaveBeenCalled();
+        });
+
+        test('should_release_hold_and_write_movement_in_one_transaction', async () => {
+            // Arrange - l'écriture du RELEASE échoue
+            (mockPrisma.inventoryReservation.findMany as jest.Mock).mockResolvedValue([softHold]);
+            (mockPrisma.inventoryReservation.deleteMany as jest.Mock).mockResolvedValue({ count: 1 });
+            (mockPrisma.inventoryMovement.create as jest.Mock).mockRejectedValueOnce(new Error('db down'));
+
+            // Act
+            const result = await service.releaseExpiredReservations(NOW);
+
+            // Assert - suppression annulée avec la transaction, aucun événement
+            expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+            expect(mockPrisma.inventoryReservation.deleteMany).toHaveBeenCalledTimes(1);
+            expect(result.expired).toHaveLength(0);
+            expect(console.log).not.toHaveBeenCalledWith(
+                expect.stringContaining('"message":"ReservationExpired"')
+            );
+        });
+
+        test('should_offer_expired_asset_to_first_waiting_order', async () => {
+            // Arrange
+            (mockPrisma.inventoryReservation.findMany as jest.Mock).mockResolvedValue([softHold]);
+            (mockPrisma.inventoryReservation.deleteMany as jest.Mock).mockResolvedValue({ count: 1 });
+            (mockPrisma.reservationWaitlistEntry.findMany as jest.Mock).mockResolvedValue([waitingEntry]);
+            (mockPrisma.reservationWaitlistEntry.update as jest.Mock).mockResolvedValue({
+                ...waitingEntry,
+                status: WaitlistStatus.CLAIMED,
+                claimedAt: NOW
+            });
+            (mockAssetServiceClient.getAsset as jest.Mock).mockResolvedValue({ id: 'asset-uuid-1', status: 'SELLABLE' });
+            (mockPrisma.inventoryReservation.findUnique as jest.Mock).mockResolvedValue(null);
+            (mockPrisma.inventoryReservation.create as jest.Mock).mockImplementation(async ({ data }) => ({
+                id: 'res-uuid-2',
+                createdAt: new Date(),
+                ...data
+            }));
+
+            // Act
+            const result = await service.releaseExpiredReservations(NOW);
+
+            // Assert - blocage SOFT pour la commande en attente
+            expect(result.claimed).toHaveLength(1);
+            expect(mockPrisma.inventoryReservation.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ orderRef: 'ORDER-002', holdType: HoldType.SOFT })
+            });
+            expect(mockPrisma.reservationWaitlistEntry.update).toHaveBeenCalledWith({
+                where: { id: 'wait-uuid-1' },
+                data: expect.objectContaining({ status: WaitlistStatus.CLAIMED })
+            });
+        });
+
+        test('should_not_confirm_expired_soft_hold', async () => {
+            (mockPrisma.inventoryReservation.findUnique as jest.Mock).mockResolvedValue(softHold);
+
+            await expect(
+                service.confirmReservation('asset-uuid-1', 'QUOTE-001', NOW)
+            ).rejects.toThrow(ReservationExpiredError);
+            expect(mockPrisma.inventoryReservation.updateMany).not.toHaveBeenCalled();
+        });
+
+        test('should_not_waitlist_the_holding_order', async () => {
+            (mockPrisma.inventoryReservation.findUnique as jest.Mock).mockResolvedValue(softHold);
+
+            await expect(
+                service.joinWaitlist('asset-uuid-1', 'QUOTE-001')
+            ).rejects.toThrow(AlreadyWaitlistedError);
+            expect(mockPrisma.reservationWaitlistEntry.upsert).not.toHaveBeenCalled();
+        });
+    });
+
     describe('Availability', () => {
         test('should_compute_asset_availability_correctly', async () => {
             // Arrange - Asset SELLABLE, pas réservé, avec emplacement
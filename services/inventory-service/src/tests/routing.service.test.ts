@@ -9,15 +9,21 @@ import { StockStatus } from '@prisma/client';
 import {
     RoutingService,
     WmsStatusProvider,
-    OrderAssignmentStore
+    OrderAssignmentStore,
+    TransactionalPublisher
 } from '../services/routing.service';
 import {
     ROUTING_PRIORITY,
+    SplitAssignment,
+    AssignmentHistoryEntry,
+    INITIAL_ASSIGNMENT_REASON,
     NoWarehouseAvailableError,
+    OrderNotAssignedError,
+    RoutingAlreadyAssignedError,
     WmsAlreadyStartedError
 } from '../domain/warehouse.types';
 
-// Mock du PrismaClient
+// Mock du PrismaClient ($transaction exécute le callback avec le même mock)
 const mockPrisma = {
     warehouse: {
         findMany: jest.fn(),
@@ -27,8 +33,18 @@ const mockPrisma = {
     stockLocation: {
         count: jest.fn(),
         updateMany: jest.fn(),
-        findUnique: jest.fn()
-    }
+        findUnique: jest.fn(),
+        findMany: jest.fn(),
+        groupBy: jest.fn()
+    },
+    transitTime: {
+        findMany: jest.fn()
+    },
+    shippingHoliday: {
+        findMany: jest.fn()
+    },
+    $executeRawUnsafe: jest.fn(),
+    $transaction: jest.fn()
 } as any;
 
 // Mock des providers
@@ -38,17 +54,62 @@ const mockWmsProvider: WmsStatusProvider = {
 
 class MockAssignmentStore implements OrderAssignmentStore {
     private assignments = new Map<string, string>();
+    private splitAssignments = new Map<string, SplitAssignment[]>();
+    private history: AssignmentHistoryEntry[] = [];
 
     async getAssignment(orderId: string): Promise<string | null> {
         return this.assignments.get(orderId) || null;
     }
 
-    async setAssignment(orderId: string, warehouseId: string): Promise<void> {
+    async setAssignment(
+        orderId: string,
+        warehouseId: string,
+        reason: string,
+        publish?: TransactionalPublisher
+    ): Promise<void> {
+        this.record(orderId, [warehouseId], reason);
         this.assignments.set(orderId, warehouseId);
+        await publish?.(mockPrisma);
+    }
+
+    async getSplitAssignment(orderId: string): Promise<SplitAssignment[] | null> {
+        return this.splitAssignments.get(orderId) || null;
+    }
+
+    async setSplitAssignment(
+        orderId: string,
+        assignments: SplitAssignment[],
+        reason: string,
+        publish?: TransactionalPublisher
+    ): Promise<void> {
+        this.record(orderId, assignments.map(a => a.warehouseId), reason);
+        this.splitAssignments.set(orderId, assignments);
+        await publish?.(mockPrisma);
+    }
+
+    async getHistory(orderId: string): Promise<AssignmentHistoryEntry[]> {
+        return this.history.filter(h => h.orderId === orderId);
+    }
+
+    private record(orderId: string, toWarehouseIds: string[], reason: string): void {
+        const previous = this.splitAssignments.get(orderId)?.map(a => a.warehouseId)
+            ?? (this.assignments.has(orderId) ? [this.assignments.get(orderId) as string] : []);
+        this.assignments.delete(orderId);
+        this.splitAssignments.delete(orderId);
+        this.history.push({
+            id: `history-${this.history.length + 1}`,
+            orderId,
+            fromWarehouseIds: previous,
+            toWarehouseIds,
+            reason,
+            createdAt: new Date()
+        });
     }
 
     clear(): void {
         this.assignments.clear();
+        this.splitAssignments.clear();
+        this.history = [];
     }
 }
 
@@ -61,6 +122,12 @@ describe('RoutingService', () => {
 
     beforeEach(() => {
         jest.clearAllMocks();
+        mockPrisma.$transaction.mockImplementation(async (callback: (tx: unknown) => Promise<unknown>) => callback(mockPrisma));
+        // Matrice vide : repli sur DELIVERY_DELAYS
+        mockPrisma.transitTime.findMany.mockResolvedValue([]);
+        mockPrisma.shippingHoliday.findMany.mockResolvedValue([]);
+        // Aucun transfert en cours
+        mockPrisma.stockLocation.groupBy.mockResolvedValue([]);
         mockAssignmentStore = new MockAssignmentStore();
         service = new RoutingService(mockPrisma, mockWmsProvider, mockAssignmentStore);
     });
@@ -102,11 +169,24 @@ describe('RoutingService', () => {
         expect(result.assignedWarehouseCode).toBe('FR-PAR-01');
         expect(result.assetsReserved).toEqual(['asset-1', 'asset-2']);
 
-        // Vérifier événement
+        // Vérifier événement (console + outbox)
         expect(console.log).toHaveBeenCalledWith(
             '[EVENT]',
             expect.stringContaining('WarehouseAssigned')
         );
+        expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
+            expect.stringContaining('INSERT INTO "outbox_events"'),
+            expect.any(String),
+            'WarehouseAssigned',
+            1,
+            'inventory-service',
+            'Order',
+            'order-001',
+            expect.any(String),
+            expect.any(String),
+            null,
+            JSON.stringify({ orderId: 'order-001', warehouseCode: 'FR-PAR-01' })
+        );
     });
 
     // ============================================
@@ -237,4 +317,239 @@ describe('RoutingService', () => {
         // Le warehouse FR a reçu +10 points de priorité pays
         // Le warehouse DE n'a pas ce bonus
     });
+
+    // ============================================
+    // MODE SPLIT
+    // ============================================
+
+    describe('Split routing', () => {
+        // Disponibilité : assetId → entrepôt(s) qui le détiennent
+        function mockAvailability(stock: Record<string, string[]>): void {
+            const rows = Object.entries(stock).flatMap(([warehouseId, assetIds]) =>
+                assetIds.map(assetId => ({ assetId, warehouseId }))
+            );
+            mockPrisma.stockLocation.findMany.mockResolvedValue(rows);
+            mockPrisma.stockLocation.count.mockImplementation((args: any) =>
+                Promise.resolve(rows.filter(r => r.warehouseId === args.where.warehouseId).length)
+            );
+        }
+
+        beforeEach(() => {
+            (mockWmsProvider.hasWmsStarted as jest.Mock).mockResolvedValue(false);
+            mockPrisma.warehouse.findMany.mockResolvedValue([
+                { id: 'wh-fr', code: 'FR-PAR-01', name: 'Paris', country: 'FR', active: true },
+                { id: 'wh-be', code: 'BE-BRU-01', name: 'Bruxelles', country: 'BE', active: true },
+                { id: 'wh-de', code: 'DE-BER-01', name: 'Berlin', country: 'DE', active: true }
+            ]);
+            mockPrisma.warehouse.findUnique.mockResolvedValue({ id: 'wh-fr', code: 'FR-PAR-01' });
+            mockPrisma.stockLocation.updateMany.mockResolvedValue({ count: 1 });
+        });
+
+        test('should_split_order_when_stock_is_spread_across_warehouses', async () => {
+            // Arrange - 2 assets à Paris, 1 à Bruxelles
+            mockAvailability({ 'wh-fr': ['asset-1', 'asset-2'], 'wh-be': ['asset-3'] });
+
+            // Act
+            const result = await service.assignOrderWithSplit({
+                orderId: 'order-101',
+                customerCountry: 'FR',
+                assetIds: ['asset-1', 'asset-2', 'asset-3'],
+                allowSplit: true
+            });
+
+            // Assert - Un colis par entrepôt, chaque asset réservé dans son entrepôt
+            expect(result.assignments).toHaveLength(2);
+            expect(result.assignments[0]).toEqual(expect.objectContaining({
+                warehouseId: 'wh-fr',
+                assetIds: ['asset-1', 'asset-2'],
+                cost: 14
+            }));
+            expect(result.assignments[1]).toEqual(expect.objectContaining({
+                warehouseId: 'wh-be',
+                assetIds: ['asset-3'],
+                cost: 23,
+                estimatedDelay: 4
+            }));
+            expect(result.assignments[1]?.reasons).toEqual(expect.arrayContaining([
+                'Holds 1/3 assets',
+                'Cross-border (cost +5)'
+            ]));
+            expect(result.totalCost).toBe(37);
+            expect(result.estimatedDelay).toBe(4);
+            expect(result.reasons[0]).toContain('No single warehouse holds all 3 assets');
+            expect(mockPrisma.stockLocation.updateMany).toHaveBeenCalledWith({
+                where: { assetId: 'asset-3', warehouseId: 'wh-be', status: StockStatus.AVAILABLE },
+                data: { status: StockStatus.RESERVED, orderId: 'order-101' }
+            });
+            expect(await mockAssignmentStore.getSplitAssignment('order-101')).toEqual([
+                { warehouseId: 'wh-fr', assetIds: ['asset-1', 'asset-2'] },
+                { warehouseId: 'wh-be', assetIds: ['asset-3'] }
+            ]);
+            expect(console.log).toHaveBeenCalledWith('[EVENT]', expect.stringContaining('OrderSplit'));
+        });
+
+        test('should_choose_minimum_cost_allocation', async () => {
+            // Arrange - Bruxelles couvre tout (23) ; Paris + Berlin coûteraient 14 + 23
+            mockAvailability({
+                'wh-fr': ['asset-1'],
+                'wh-be': ['asset-1', 'asset-2'],
+                'wh-de': ['asset-2']
+            });
+
+            // Act
+            const result = await service.assignOrderWithSplit({
+                orderId: 'order-102',
+                customerCountry: 'FR',
+                assetIds: ['asset-1', 'asset-2'],
+                allowSplit: true
+            });
+
+            // Assert - Un seul colis depuis Bruxelles
+            expect(result.assignments).toHaveLength(1);
+            expect(result.assignments[0]?.warehouseId).toBe('wh-be');
+            expect(result.totalCost).toBe(23);
+        });
+
+        test('should_require_allow_partial_when_assets_are_missing', async () => {
+            // Arrange - asset-3 indisponible partout
+            mockAvailability({ 'wh-fr': ['asset-1', 'asset-2'] });
+            const request = {
+                orderId: 'order-103',
+                customerCountry: 'FR',
+                assetIds: ['asset-1', 'asset-2', 'asset-3'],
+                allowSplit: true
+            };
+
+            // Act & Assert - Sans allowPartial : échec, aucune réservation
+            await expect(service.assignOrderWithSplit(request)).rejects.toThrow(NoWarehouseAvailableError);
+            expect(mockPrisma.stockLocation.updateMany).not.toHaveBeenCalled();
+
+            // Avec allowPartial : les assets disponibles sont servis
+            const result = await service.assignOrderWithSplit({ ...request, allowPartial: true });
+            expect(result.assetsReserved).toEqual(['asset-1', 'asset-2']);
+            expect(result.assetsMissing).toEqual(['asset-3']);
+        });
+
+        test('should_not_split_an_order_already_assigned_to_one_warehouse', async () => {
+            // Arrange
+            await mockAssignmentStore.setAssignment('order-104', 'wh-fr', INITIAL_ASSIGNMENT_REASON);
+
+            // Act & Assert
+            await expect(service.assignOrderWithSplit({
+                orderId: 'order-104',
+                customerCountry: 'FR',
+                assetIds: ['asset-1'],
+                allowSplit: true
+            })).rejects.toThrow(RoutingAlreadyAssignedError);
+        });
+    });
+
+    // ============================================
+    // RÉASSIGNATION
+    // ============================================
+
+    describe('Reassignment', () => {
+        const request = {
+            orderId: 'order-201',
+            customerCountry: 'FR',
+            assetIds: ['asset-1']
+        };
+
+        beforeEach(() => {
+            (mockWmsProvider.hasWmsStarted as jest.Mock).mockResolvedValue(false);
+            mockPrisma.warehouse.findMany.mockResolvedValue([
+                { id: 'wh-1', code: 'FR-PAR-01', name: 'Paris', country: 'FR', active: true },
+                { id: 'wh-2', code: 'FR-LYO-01', name: 'Lyon', country: 'FR', active: true }
+            ]);
+            mockPrisma.warehouse.findUnique.mockResolvedValue({ id: 'wh-2', code: 'FR-LYO-01', country: 'FR' });
+            mockPrisma.stockLocation.findMany.mockResolvedValue([{ assetId: 'asset-1' }]);
+            mockPrisma.stockLocation.updateMany.mockResolvedValue({ count: 1 });
+        });
+
+        test('should_record_initial_assignment_in_history', async () => {
+            // Arrange
+            mockPrisma.stockLocation.count.mockImplementation((args: any) =>
+                Promise.resolve(args.where.warehouseId === 'wh-1' ? 1 : 0)
+            );
+
+            // Act
+            await service.assignOrderToWarehouse(request);
+
+            // Assert
+            const history = await service.getAssignmentHistory('order-201');
+            expect(history).toHaveLength(1);
+            expect(history[0]).toMatchObject({
+                fromWarehouseIds: [],
+                toWarehouseIds: ['wh-1'],
+                reason: INITIAL_ASSIGNMENT_REASON
+            });
+        });
+
+        test('should_reassign_with_reason_and_release_previous_reservations', async () => {
+            // Arrange - assignée à Paris, le stock est désormais à Lyon
+            await mockAssignmentStore.setAssignment('order-201', 'wh-1', INITIAL_ASSIGNMENT_REASON);
+            mockPrisma.stockLocation.count.mockImplementation((args: any) =>
+                Promise.resolve(args.where.warehouseId === 'wh-2' ? 1 : 0)
+            );
+
+            // Act
+            const result = await service.reassignOrder(request, 'Paris dock closed');
+
+            // Assert
+            expect(result).toMatchObject({ assignedWarehouseId: 'wh-2' });
+            expect(mockPrisma.stockLocation.updateMany).toHaveBeenCalledWith({
+                where: { orderId: 'order-201', status: StockStatus.RESERVED },
+                data: { status: StockStatus.AVAILABLE, orderId: null }
+            });
+            const history = await service.getAssignmentHistory('order-201');
+            expect(history[1]).toMatchObject({
+                fromWarehouseIds: ['wh-1'],
+                toWarehouseIds: ['wh-2'],
+                reason: 'Paris dock closed'
+            });
+            expect(console.log).toHaveBeenCalledWith(
+                '[EVENT]',
+                expect.stringContaining('OrderReassigned')
+            );
+            // Publié avec la nouvelle assignation (même transaction)
+            const published = mockPrisma.$executeRawUnsafe.mock.calls.map((call: unknown[]) => call[2]);
+            expect(published).toEqual(['AssetReservedAtWarehouse', 'WarehouseAssigned', 'OrderReassigned']);
+        });
+
+        test('should_enforce_wms_lock_after_restart', async () => {
+            // Arrange - assignation persistée, nouveau service (redémarrage)
+            await mockAssignmentStore.setAssignment('order-201', 'wh-1', INITIAL_ASSIGNMENT_REASON);
+            const restarted = new RoutingService(mockPrisma, mockWmsProvider, mockAssignmentStore);
+            (mockWmsProvider.hasWmsStarted as jest.Mock).mockResolvedValue(true);
+
+            // Act & Assert
+            await expect(restarted.reassignOrder(request, 'Customer request'))
+                .rejects
+                .toThrow(WmsAlreadyStartedError);
+            expect(mockPrisma.stockLocation.updateMany).not.toHaveBeenCalled();
+            expect(await mockAssignmentStore.getAssignment('order-201')).toBe('wh-1');
+        });
+
+        test('should_restore_reservations_when_reassignment_fails', async () => {
+            // Arrange - plus aucun entrepôt ne couvre la commande
+            await mockAssignmentStore.setAssignment('order-201', 'wh-1', INITIAL_ASSIGNMENT_REASON);
+            mockPrisma.stockLocation.count.mockResolvedValue(0);
+
+            // Act & Assert
+            await expect(service.reassignOrder(request, 'Rebalance'))
+                .rejects
+                .toThrow(NoWarehouseAvailableError);
+            expect(mockPrisma.stockLocation.updateMany).toHaveBeenLastCalledWith({
+                where: { assetId: { in: ['asset-1'] }, status: StockStatus.AVAILABLE },
+                data: { status: StockStatus.RESERVED, orderId: 'order-201' }
+            });
+            expect(await mockAssignmentStore.getAssignment('order-201')).toBe('wh-1');
+        });
+
+        test('should_refuse_to_reassign_an_unassigned_order', async () => {
+            await expect(service.reassignOrder(request, 'Customer request'))
+                .rejects
+                .toThrow(OrderNotAssignedError);
+        });
+    });
 });
@@ -0,0 +1,413 @@
+/**
+ * Transfer Service Tests
+ * Tests unitaires pour les transferts inter-entrepôts
+ */
+
+import { TransferService, WmsTaskGateway } from '../services/transfer.service';
+import { TransitTimeService } from '../services/transitTime.service';
+import {
+    AssetNotInTransferError,
+    AssetNotTransferableError,
+    TransferStatusError
+} from '../domain/transfer.types';
+import { WmsServiceError } from '../integrations/wms.client';
+import {
+    LocationType,
+    MovementReason,
+    PrismaClient,
+    StockStatus,
+    TransferDiscrepancyResolution,
+    TransferStatus
+} from '@prisma/client';
+
+// Mock du PrismaClient ($transaction exécute le callback avec le même mock)
+const mockPrisma = {
+    warehouse: {
+        findUnique: jest.fn()
+    },
+    location: {
+        findUnique: jest.fn()
+    },
+    stockLocation: {
+        findMany: jest.fn(),
+        updateMany: jest.fn(),
+        update: jest.fn(),
+        deleteMany: jest.fn(),
+        count: jest.fn()
+    },
+    inventoryMovement: {
+        create: jest.fn(),
+        findFirst: jest.fn()
+    },
+    transferOrder: {
+        create: jest.fn(),
+        findUnique: jest.fn(),
+        findMany: jest.fn(),
+        update: jest.fn()
+    },
+    transferScan: {
+        create: jest.fn(),
+        findMany: jest.fn()
+    },
+    transferDiscrepancy: {
+        create: jest.fn(),
+        findMany: jest.fn(),
+        update: jest.fn()
+    },
+    $executeRawUnsafe: jest.fn(),
+    $transaction: jest.fn()
+} as unknown as PrismaClient;
+
+const mockWmsGateway: WmsTaskGateway = {
+    getTasksForOrder: jest.fn(),
+    createTask: jest.fn()
+};
+
+const mockTransitTimeService = {
+    quoteForWarehouse: jest.fn()
+} as unknown as TransitTimeService;
+
+jest.spyOn(console, 'log').mockImplementation(() => { });
+
+const ARRIVAL = new Date('2026-10-22T00:00:00.000Z');
+
+function transferRecord(overrides: Record<string, unknown> = {}) {
+    return {
+        id: 'tr-1',
+        fromWarehouseId: 'wh-par',
+        toWarehouseId: 'wh-lyo',
+        status: TransferStatus.PLANNED,
+        assetIds: ['asset-1', 'asset-2'],
+        createdBy: null,
+        createdAt: new Date(),
+        dispatchedAt: null,
+        expectedArrivalAt: null,
+        receivedAt: null,
+        ...overrides
+    };
+}
+
+function stockRecord(assetId: string, warehouseId: string, status: StockStatus = StockStatus.AVAILABLE) {
+    return {
+        id: `stock-${assetId}`,
+        assetId,
+        warehouseId,
+        locationId: status === StockStatus.IN_TRANSIT ? null : 'loc-par-1',
+        status,
+        orderId: null,
+        createdAt: new Date(),
+        updatedAt: new Date()
+    };
+}
+
+function movementRecord(data: Record<string, unknown>) {
+    return { id: `mov-${String(data.assetId)}`, createdAt: new Date(), ...data };
+}
+
+const RECEIVING_LYON = {
+    id: 'loc-lyo-rec',
+    warehouseId: 'wh-lyo',
+    code: 'REC-01',
+    type: LocationType.RECEIVING,
+    capacity: null,
+    createdAt: new Date()
+};
+
+describe('TransferService', () => {
+    let service: TransferService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (mockPrisma.$transaction as jest.Mock).mockImplementation(
+            async (callback: (tx: PrismaClient) => Promise<unknown>) => callback(mockPrisma)
+        );
+        (mockPrisma.warehouse.findUnique as jest.Mock).mockImplementation(async ({ where }) => ({
+            id: where.id,
+            code: where.id.toUpperCase(),
+            name: where.id,
+            country: 'FR',
+            active: true,
+            createdAt: new Date()
+        }));
+        (mockPrisma.inventoryMovement.findFirst as jest.Mock).mockResolvedValue(null);
+        (mockPrisma.inventoryMovement.create as jest.Mock).mockImplementation(async ({ data }) => movementRecord(data));
+        (mockPrisma.transferScan.findMany as jest.Mock).mockResolvedValue([]);
+        (mockPrisma.transferDiscrepancy.findMany as jest.Mock).mockResolvedValue([]);
+        (mockWmsGateway.getTasksForOrder as jest.Mock).mockResolvedValue([]);
+        (mockTransitTimeService.quoteForWarehouse as jest.Mock).mockResolvedValue({ estimatedDeliveryDate: ARRIVAL });
+        service = new TransferService(mockPrisma, mockWmsGateway, mockTransitTimeService);
+    });
+
+    describe('createTransfer', () => {
+        test('should_create_transfer_for_available_stock_at_origin', async () => {
+            // Arrange
+            (mockPrisma.stockLocation.findMany as jest.Mock).mockResolvedValue([
+                stockRecord('asset-1', 'wh-par'),
+                stockRecord('asset-2', 'wh-par')
+            ]);
+            (mockPrisma.transferOrder.findMany as jest.Mock).mockResolvedValue([]);
+            (mockPrisma.transferOrder.create as jest.Mock).mockResolvedValue(transferRecord());
+
+            // Act
+            const transfer = await service.createTransfer({
+                fromWarehouseId: 'wh-par',
+                toWarehouseId: 'wh-lyo',
+                assetIds: ['asset-1', 'asset-2']
+            });
+
+            // Assert
+            expect(transfer.status).toBe(TransferStatus.PLANNED);
+            expect(console.log).toHaveBeenCalledWith(
+                expect.stringContaining('"message":"TransferCreated"')
+            );
+        });
+
+        test('should_reject_asset_not_available_at_origin', async () => {
+            (mockPrisma.stockLocation.findMany as jest.Mock).mockResolvedValue([
+                stockRecord('asset-1', 'wh-par'),
+                stockRecord('asset-2', 'wh-par', StockStatus.RESERVED)
+            ]);
+
+            await expect(service.createTransfer({
+                fromWarehouseId: 'wh-par',
+                toWarehouseId: 'wh-lyo',
+                assetIds: ['asset-1', 'asset-2']
+            })).rejects.toThrow(AssetNotTransferableError);
+            expect(mockPrisma.transferOrder.create).not.toHaveBeenCalled();
+        });
+
+        test('should_reject_asset_engaged_in_open_transfer', async () => {
+            (mockPrisma.stockLocation.findMany as jest.Mock).mockResolvedValue([stockRecord('asset-1', 'wh-par')]);
+            (mockPrisma.transferOrder.findMany as jest.Mock).mockResolvedValue([
+                transferRecord({ id: 'tr-0', assetIds: ['asset-1'] })
+            ]);
+
+            await expect(service.createTransfer({
+                fromWarehouseId: 'wh-par',
+                toWarehouseId: 'wh-lyo',
+                assetIds: ['asset-1']
+            })).rejects.toThrow(AssetNotTransferableError);
+        });
+    });
+
+    describe('dispatchTransfer', () => {
+        beforeEach(() => {
+            (mockPrisma.transferOrder.findUnique as jest.Mock).mockResolvedValue(transferRecord());
+            (mockPrisma.stockLocation.findMany as jest.Mock).mockResolvedValue([
+                stockRecord('asset-1', 'wh-par'),
+                stockRecord('asset-2', 'wh-par')
+            ]);
+        });
+
+        test('should_create_wms_tasks_and_put_stock_in_transit', async () => {
+            // Arrange - asset-1 a déjà sa tâche (relance après échec partiel)
+            (mockWmsGateway.getTasksForOrder as jest.Mock).mockResolvedValue([
+                { id: 'task-1', assetId: 'asset-1', orderId: 'TRANSFER-tr-1', type: 'SHIPPING', status: 'PENDING' }
+            ]);
+            (mockPrisma.stockLocation.updateMany as jest.Mock).mockResolvedValue({ count: 2 });
+            (mockPrisma.transferOrder.update as jest.Mock).mockResolvedValue(transferRecord({
+                status: TransferStatus.IN_TRANSIT,
+                dispatchedAt: new Date(),
+                expectedArrivalAt: ARRIVAL
+            }));
+
+            // Act
+            const transfer = await service.dispatchTransfer('tr-1');
+
+            // Assert
+            expect(mockWmsGateway.getTasksForOrder).toHaveBeenCalledWith('TRANSFER-tr-1');
+            expect(mockWmsGateway.createTask).toHaveBeenCalledTimes(1);
+            expect(mockWmsGateway.createTask).toHaveBeenCalledWith('asset-2', 'SHIPPING', 'TRANSFER-tr-1');
+            expect(mockPrisma.stockLocation.updateMany).toHaveBeenCalledWith({
+                where: { assetId: { in: ['asset-1', 'asset-2'] }, status: StockStatus.AVAILABLE },
+                data: { status: StockStatus.IN_TRANSIT, warehouseId: 'wh-lyo', locationId: null }
+            });
+            expect(mockPrisma.inventoryMovement.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ assetId: 'asset-1', toLocation: null, reason: MovementReason.TRANSFER })
+            });
+            expect(mockPrisma.transferOrder.update).toHaveBeenCalledWith({
+                where: { id: 'tr-1' },
+                data: expect.objectContaining({ status: TransferStatus.IN_TRANSIT, expectedArrivalAt: ARRIVAL })
+            });
+            expect(transfer.status).toBe(TransferStatus.IN_TRANSIT);
+        });
+
+        test('should_not_dispatch_when_wms_is_unavailable', async () => {
+            (mockWmsGateway.getTasksForOrder as jest.Mock).mockRejectedValue(new WmsServiceError(503, 'ECONNREFUSED'));
+
+            await expect(service.dispatchTransfer('tr-1')).rejects.toThrow(WmsServiceError);
+            expect(mockPrisma.stockLocation.updateMany).not.toHaveBeenCalled();
+            expect(mockPrisma.transferOrder.update).not.toHaveBeenCalled();
+        });
+
+        test('should_not_create_wms_tasks_when_transaction_fails', async () => {
+            // Arrange - asset-2 réservé entre la vérification et la transaction
+            (mockPrisma.stockLocation.findMany as jest.Mock)
+                .mockResolvedValueOnce([stockRecord('asset-1', 'wh-par'), stockRecord('asset-2', 'wh-par')])
+                .mockResolvedValueOnce([stockRecord('asset-1', 'wh-par'), stockRecord('asset-2', 'wh-par', StockStatus.RESERVED)]);
+
+            // Act & Assert
+            await expect(service.dispatchTransfer('tr-1')).rejects.toThrow(AssetNotTransferableError);
+            expect(mockWmsGateway.createTask).not.toHaveBeenCalled();
+            expect(mockPrisma.transferOrder.update).not.toHaveBeenCalled();
+        });
+
+        test('should_create_missing_wms_tasks_when_dispatch_is_retried', async () => {
+            // Arrange - expédié, tâche asset-2 non créée (WMS tombé après commit)
+            (mockPrisma.transferOrder.findUnique as jest.Mock).mockResolvedValue(
+                transferRecord({ status: TransferStatus.IN_TRANSIT, dispatchedAt: new Date() })
+            );
+            (mockWmsGateway.getTasksForOrder as jest.Mock).mockResolvedValue([
+                { id: 'task-1', assetId: 'asset-1', orderId: 'TRANSFER-tr-1', type: 'SHIPPING', status: 'PENDING' }
+            ]);
+
+            // Act
+            const transfer = await service.dispatchTransfer('tr-1');
+
+            // Assert - pas de nouvelle mise en transit
+            expect(transfer.status).toBe(TransferStatus.IN_TRANSIT);
+            expect(mockWmsGateway.createTask).toHaveBeenCalledTimes(1);
+            expect(mockWmsGateway.createTask).toHaveBeenCalledWith('asset-2', 'SHIPPING', 'TRANSFER-tr-1');
+            expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+        });
+
+        test('should_require_planned_status', async () => {
+            (mockPrisma.transferOrder.findUnique as jest.Mock).mockResolvedValue(
+                transferRecord({ status: TransferStatus.RECEIVED })
+            );
+
+            await expect(service.dispatchTransfer('tr-1')).rejects.toThrow(TransferStatusError);
+            expect(mockWmsGateway.createTask).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('receipt', () => {
+        beforeEach(() => {
+            (mockPrisma.transferOrder.findUnique as jest.Mock).mockResolvedValue(
+                transferRecord({ status: TransferStatus.IN_TRANSIT, dispatchedAt: new Date() })
+            );
+            (mockPrisma.location.findUnique as jest.Mock).mockResolvedValue(RECEIVING_LYON);
+        });
+
+        test('should_receive_scanned_units_and_complete_transfer', async () => {
+            // Arrange
+            (mockPrisma.transferScan.create as jest.Mock).mockImplementation(async ({ data }) => ({
+                id: `scan-${data.assetId}`,
+                createdAt: new Date(),
+                ...data
+            }));
+            (mockPrisma.stockLocation.update as jest.Mock).mockImplementation(async ({ where, data }) => ({
+                ...stockRecord(where.assetId, 'wh-lyo'),
+                ...data
+            }));
+            (mockPrisma.transferOrder.update as jest.Mock).mockResolvedValue(
+                transferRecord({ status: TransferStatus.RECEIVED })
+            );
+
+            // Act
+            await service.receiveTransfer('tr-1', { locationId: 'loc-lyo-rec', assetIds: ['asset-1', 'asset-2'] });
+
+            // Assert - stock disponible à destination, transfert reçu
+            expect(mockPrisma.stockLocation.update).toHaveBeenCalledWith({
+                where: { assetId: 'asset-2' },
+                data: { warehouseId: 'wh-lyo', locationId: 'loc-lyo-rec', status: StockStatus.AVAILABLE }
+            });
+            expect(mockPrisma.inventoryMovement.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ assetId: 'asset-1', toLocation: 'loc-lyo-rec', reason: MovementReason.TRANSFER })
+            });
+            expect(mockPrisma.transferOrder.update).toHaveBeenCalledWith({
+                where: { id: 'tr-1' },
+                data: expect.objectContaining({ status: TransferStatus.RECEIVED })
+            });
+        });
+
+        test('should_reject_scan_of_asset_not_in_transfer', async () => {
+            await expect(
+                service.receiveTransfer('tr-1', { locationId: 'loc-lyo-rec', assetIds: ['asset-9'] })
+            ).rejects.toThrow(AssetNotInTransferError);
+            expect(mockPrisma.inventoryMovement.create).not.toHaveBeenCalled();
+        });
+
+        test('should_declare_unscanned_units_missing_on_close', async () => {
+            // Arrange - seul asset-1 a été reçu
+            (mockPrisma.transferScan.findMany as jest.Mock).mockResolvedValue([{
+                id: 'scan-1',
+                transferId: 'tr-1',
+                assetId: 'asset-1',
+                locationId: 'loc-lyo-rec',
+                scannedBy: null,
+                movementId: 'mov-asset-1',
+                createdAt: new Date()
+            }]);
+            (mockPrisma.transferDiscrepancy.create as jest.Mock).mockImplementation(async ({ data }) => ({
+                id: 'disc-1',
+                resolution: TransferDiscrepancyResolution.PENDING,
+                locationId: null,
+                movementId: null,
+                resolvedBy: null,
+                createdAt: new Date(),
+                resolvedAt: null,
+                ...data
+            }));
+            (mockPrisma.transferOrder.update as jest.Mock).mockResolvedValue(
+                transferRecord({ status: TransferStatus.DISPUTED })
+            );
+
+            // Act
+            await service.closeReceipt('tr-1');
+
+            // Assert
+            expect(mockPrisma.transferDiscrepancy.create).toHaveBeenCalledTimes(1);
+            expect(mockPrisma.transferDiscrepancy.create).toHaveBeenCalledWith({
+                data: { transferId: 'tr-1', assetId: 'asset-2' }
+            });
+            expect(mockPrisma.transferOrder.update).toHaveBeenCalledWith({
+                where: { id: 'tr-1' },
+                data: { status: TransferStatus.DISPUTED }
+            });
+        });
+
+        test('should_remove_lost_unit_from_stock_and_close_transfer', async () => {
+            // Arrange
+            (mockPrisma.transferOrder.findUnique as jest.Mock).mockResolvedValue(
+                transferRecord({ status: TransferStatus.DISPUTED })
+            );
+            const pending = {
+                id: 'disc-1',
+                transferId: 'tr-1',
+                assetId: 'asset-2',
+                resolution: TransferDiscrepancyResolution.PENDING,
+                locationId: null,
+                movementId: null,
+                resolvedBy: null,
+                createdAt: new Date(),
+                resolvedAt: null
+            };
+            (mockPrisma.transferDiscrepancy.findMany as jest.Mock).mockResolvedValue([pending]);
+            (mockPrisma.transferDiscrepancy.update as jest.Mock).mockResolvedValue({
+                ...pending,
+                resolution: TransferDiscrepancyResolution.LOST,
+                resolvedBy: 'supervisor-1'
+            });
+            (mockPrisma.transferOrder.update as jest.Mock).mockResolvedValue(
+                transferRecord({ status: TransferStatus.RECEIVED })
+            );
+
+            // Act
+            await service.resolveDiscrepancy('tr-1', 'disc-1', {
+                resolution: TransferDiscrepancyResolution.LOST,
+                resolvedBy: 'supervisor-1'
+            });
+
+            // Assert
+            expect(mockPrisma.inventoryMovement.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ assetId: 'asset-2', reason: MovementReason.ADJUSTMENT })
+            });
+            expect(mockPrisma.stockLocation.deleteMany).toHaveBeenCalledWith({ where: { assetId: 'asset-2' } });
+            expect(mockPrisma.transferOrder.update).toHaveBeenCalledWith({
+                where: { id: 'tr-1' },
+                data: expect.objectContaining({ status: TransferStatus.RECEIVED })
+            });
+        });
+    });
+});
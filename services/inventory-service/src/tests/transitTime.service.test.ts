@@ -0,0 +1,162 @@
+/**
+ * Transit Time Service Tests
+ * Tests unitaires pour la matrice des délais et le calendrier ouvré
+ */
+
+import { TransitTimeService } from '../services/transitTime.service';
+import { InvalidTransitTimeError } from '../domain/transit.types';
+import { PrismaClient, ServiceLevel } from '@prisma/client';
+
+const mockPrisma = {
+    warehouse: {
+        findUnique: jest.fn()
+    },
+    stockLocation: {
+        findUnique: jest.fn()
+    },
+    transitTime: {
+        create: jest.fn(),
+        findMany: jest.fn()
+    },
+    shippingHoliday: {
+        findMany: jest.fn()
+    }
+} as unknown as PrismaClient;
+
+// Lundi 19 octobre 2026, 10:00 UTC
+const MONDAY_MORNING = new Date('2026-10-19T10:00:00.000Z');
+const PARIS = { warehouseId: 'wh-par', country: 'FR' };
+
+function transitTimeRecord(overrides: Record<string, unknown> = {}) {
+    return {
+        id: 'tt-country',
+        originCountry: 'FR',
+        originWarehouseId: null,
+        destinationCountry: 'FR',
+        postcodePrefix: null,
+        serviceLevel: ServiceLevel.STANDARD,
+        transitDays: 3,
+        cutoffTime: null,
+        active: true,
+        createdAt: new Date('2026-01-01'),
+        updatedAt: new Date('2026-01-01'),
+        ...overrides
+    };
+}
+
+describe('TransitTimeService', () => {
+    let service: TransitTimeService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (mockPrisma.shippingHoliday.findMany as jest.Mock).mockResolvedValue([]);
+        service = new TransitTimeService(mockPrisma);
+    });
+
+    test('should_prefer_the_most_specific_matrix_entry', async () => {
+        // Arrange - pays, zone 75, entrepôt précis
+        (mockPrisma.transitTime.findMany as jest.Mock).mockResolvedValue([
+            transitTimeRecord(),
+            transitTimeRecord({ id: 'tt-zone', postcodePrefix: '75', transitDays: 1 }),
+            transitTimeRecord({ id: 'tt-warehouse', originWarehouseId: 'wh-par', transitDays: 2 })
+        ]);
+
+        // Act
+        const quote = await service.quote(PARIS, {
+            destinationCountry: 'FR',
+            postcode: '75011',
+            readyAt: MONDAY_MORNING
+        });
+
+        // Assert - l'entrepôt précis l'emporte sur la zone
+        expect(quote.source).toBe('MATRIX');
+        expect(quote.transitTimeId).toBe('tt-warehouse');
+        expect(quote.estimatedDelay).toBe(2);
+        expect(quote.estimatedDeliveryDate.toISOString().slice(0, 10)).toBe('2026-10-21');
+    });
+
+    test('should_use_postcode_zone_when_it_matches', async () => {
+        (mockPrisma.transitTime.findMany as jest.Mock).mockResolvedValue([
+            transitTimeRecord(),
+            transitTimeRecord({ id: 'tt-zone', postcodePrefix: '75', transitDays: 1 })
+        ]);
+
+        const inZone = await service.quote(PARIS, { destinationCountry: 'FR', postcode: '75011', readyAt: MONDAY_MORNING });
+        const outOfZone = await service.quote(PARIS, { destinationCountry: 'FR', postcode: '13001', readyAt: MONDAY_MORNING });
+
+        expect(inZone.transitTimeId).toBe('tt-zone');
+        expect(outOfZone.transitTimeId).toBe('tt-country');
+    });
+
+    test('should_ship_next_business_day_after_cutoff', async () => {
+        // Arrange - coupure 09:00, prêt à 10:00 un vendredi
+        (mockPrisma.transitTime.findMany as jest.Mock).mockResolvedValue([
+            transitTimeRecord({ transitDays: 1, cutoffTime: '09:00' })
+        ]);
+
+        // Act
+        const quote = await service.quote(PARIS, {
+            destinationCountry: 'FR',
+            readyAt: new Date('2026-10-23T10:00:00.000Z')
+        });
+
+        // Assert - départ lundi, livraison mardi
+        expect(quote.shipDate.toISOString().slice(0, 10)).toBe('2026-10-26');
+        expect(quote.estimatedDeliveryDate.toISOString().slice(0, 10)).toBe('2026-10-27');
+        expect(quote.estimatedDelay).toBe(2);
+    });
+
+    test('should_extend_delivery_over_destination_holidays', async () => {
+        // Arrange - mercredi férié en Belgique
+        (mockPrisma.transitTime.findMany as jest.Mock).mockResolvedValue([
+            transitTimeRecord({ destinationCountry: 'BE', transitDays: 2 })
+        ]);
+        (mockPrisma.shippingHoliday.findMany as jest.Mock).mockResolvedValue([
+            { id: 'h-1', country: 'BE', date: new Date('2026-10-21T00:00:00.000Z'), label: 'Test', createdAt: new Date() }
+        ]);
+
+        // Act
+        const quote = await service.quote(PARIS, { destinationCountry: 'BE', readyAt: MONDAY_MORNING });
+
+        // Assert - livraison jeudi au lieu de mercredi
+        expect(quote.estimatedDeliveryDate.toISOString().slice(0, 10)).toBe('2026-10-22');
+        expect(quote.estimatedDelay).toBe(3);
+    });
+
+    test('should_add_processing_days_before_departure', async () => {
+        (mockPrisma.transitTime.findMany as jest.Mock).mockResolvedValue([
+            transitTimeRecord({ transitDays: 2 })
+        ]);
+
+        const quote = await service.quote(PARIS, {
+            destinationCountry: 'FR',
+            readyAt: MONDAY_MORNING,
+            processingDays: 3
+        });
+
+        expect(quote.shipDate.toISOString().slice(0, 10)).toBe('2026-10-22');
+        expect(quote.estimatedDeliveryDate.toISOString().slice(0, 10)).toBe('2026-10-26');
+        expect(quote.estimatedDelay).toBe(5);
+    });
+
+    test('should_fall_back_to_default_delays_without_matrix_entry', async () => {
+        (mockPrisma.transitTime.findMany as jest.Mock).mockResolvedValue([]);
+
+        const quote = await service.quote(PARIS, { destinationCountry: 'DE', readyAt: MONDAY_MORNING });
+
+        // Transfrontalier : max(FR 2, DE 3) + 1
+        expect(quote.source).toBe('DEFAULT');
+        expect(quote.transitDays).toBe(4);
+        expect(quote.estimatedDelay).toBe(4);
+    });
+
+    test('should_reject_invalid_cutoff_time', async () => {
+        await expect(service.createTransitTime({
+            originCountry: 'FR',
+            destinationCountry: 'FR',
+            transitDays: 2,
+            cutoffTime: '25:00'
+        })).rejects.toThrow(InvalidTransitTimeError);
+        expect(mockPrisma.transitTime.create).not.toHaveBeenCalled();
+    });
+});
@@ -24,7 +24,7 @@ import {
 // ============================================
 
 export interface ServiceDataProvider {
-    getWmsStats(): Promise<WmsStats>;
+    getWmsStats(period?: KpiPeriod): Promise<WmsStats>;
     getStockStats(): Promise<StockStats>;
     getQualityStats(): Promise<QualityStats>;
     getCommercialStats(): Promise<CommercialStats>;
@@ -108,11 +108,11 @@ export class RealServiceDataProvider implements ServiceDataProvider {
         this.procurementUrl = process.env.PROCUREMENT_SERVICE_URL || 'http://localhost:3001';
     }
 
-    async getWmsStats(): Promise<WmsStats> {
+    async getWmsStats(period: KpiPeriod = KpiPeriod.DAILY): Promise<WmsStats> {
         try {
-            // Appel vers wms-service pour récupérer les stats
-            const tasksResponse = await axios.get(`${this.wmsUrl}/wms/tasks/stats`);
-            const stats = tasksResponse.data;
+            // Analytique wms-service : temps de travail effectif (hors blocages) sur la fenêtre de la période
+            const kpiResponse = await axios.get(`${this.wmsUrl}/wms/analytics/kpi`, { params: { period } });
+            const stats = kpiResponse.data;
 
             return {
                 avgTaskTime: stats.avgTaskTime || 0,
@@ -226,7 +226,7 @@ export class KpiCalculationService {
         const flags: { key: string; flag: KpiFlag; reason: string }[] = [];
 
         // 1. Calculer WMS KPIs
-        const wmsKpis = await this.calculateWmsKpis();
+        const wmsKpis = await this.calculateWmsKpis(period);
         kpis.push(...wmsKpis);
 
         // 2. Calculer Stock KPIs
@@ -270,8 +270,8 @@ export class KpiCalculationService {
     // WMS KPIs
     // ============================================
 
-    private async calculateWmsKpis(): Promise<CalculatedKpi[]> {
-        const stats = await this.dataProvider.getWmsStats();
+    private async calculateWmsKpis(period: KpiPeriod): Promise<CalculatedKpi[]> {
+        const stats = await this.dataProvider.getWmsStats(period);
 
         return [
             {
@@ -110,6 +110,49 @@ export class ProcurementController {
         }
     };
 
+    /**
+     * POST /procurement/lots/:lotId/intake/bulk
+     * Intake en masse (tableau de machines)
+     */
+    intakeAssets = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const lotId = req.params.lotId;
+            if (!lotId) {
+                res.status(400).json({
+                    error: 'ValidationError',
+                    message: 'Missing required parameter: lotId'
+                });
+                return;
+            }
+
+            if (!Array.isArray(req.body)) {
+                res.status(400).json({
+                    error: 'ValidationError',
+                    message: 'Body must be a JSON array of machines'
+                });
+                return;
+            }
+
+            const dtos = req.body as IntakeAssetDto[];
+            const invalidIndex = dtos.findIndex(dto =>
+                !dto.serialNumber || !dto.assetType || !dto.brand || !dto.model || typeof dto.unitCost !== 'number'
+            );
+            if (invalidIndex >= 0) {
+                res.status(400).json({
+                    error: 'ValidationError',
+                    message: `Row ${invalidIndex + 1}: serialNumber, assetType, brand, model and numeric unitCost are required`
+                });
+                return;
+            }
+
+            const result = await this.procurementService.intakeAssets(lotId, dtos);
+
+            res.status(201).json(result);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
     /**
      * GET /procurement/lots/:lotId
      * Récupère un lot par ID
@@ -70,6 +70,36 @@ export interface AssetServiceResponse {
     updatedAt: string;
 }
 
+/**
+ * Ligne du rapport bulk de l'Asset Service (POST /assets/bulk)
+ */
+export interface AssetBulkRowResponse {
+    row: number;
+    status: 'CREATED' | 'UPDATED' | 'REJECTED';
+    assetId?: string;
+    serialNumber?: string;
+    error?: string;
+    message?: string;
+}
+
+/**
+ * Rapport bulk de l'Asset Service
+ */
+export interface AssetBulkReportResponse {
+    total: number;
+    succeeded: number;
+    failed: number;
+    results: AssetBulkRowResponse[];
+}
+
+/**
+ * Résultat d'un intake en masse
+ */
+export interface BulkIntakeResult {
+    items: ProcurementLotItemEntity[];
+    rejected: AssetBulkRowResponse[];
+}
+
 /**
  * Erreur : Lot non trouvé
  */
@@ -5,7 +5,8 @@
  * RÈGLE : Le système éclaire la décision, l'humain tranche.
  */
 
-import { ProcurementDecision } from '@prisma/client';
+import { Prisma, ProcurementDecision } from '@prisma/client';
+import { outbox } from '../events/procurement.events';
 
 // Re-export Prisma enum
 export { ProcurementDecision };
@@ -102,19 +103,43 @@ export interface LotHistoryFilter {
 // EVENTS
 // ============================================
 
-export function emitSimulationRun(result: SimulationResult): void {
-    console.log('[EVENT]', JSON.stringify({
-        type: 'ProcurementSimulationRun',
+/**
+ * Publiés dans l'outbox. Une simulation n'écrit rien : `db` peut alors être
+ * le client hors transaction (agrégat : le modèle simulé)
+ */
+export async function emitSimulationRun(db: Prisma.TransactionClient, result: SimulationResult): Promise<void> {
+    const payload = {
         supplier: result.request.supplier,
         model: result.request.model,
         quantity: result.request.quantity,
         estimatedMargin: result.estimatedMargin,
-        suggestedDecision: result.suggestedDecision,
+        suggestedDecision: result.suggestedDecision
+    };
+    await outbox.publish(db, {
+        type: 'ProcurementSimulationRun',
+        aggregateType: 'ProcurementModel',
+        aggregateId: result.request.model,
+        payload
+    });
+    console.log('[EVENT]', JSON.stringify({
+        type: 'ProcurementSimulationRun',
+        ...payload,
         timestamp: new Date().toISOString()
     }));
 }
 
-export function emitDecisionProposed(decision: ProcurementDecision, reason: string): void {
+export async function emitDecisionProposed(
+    db: Prisma.TransactionClient,
+    model: string,
+    decision: ProcurementDecision,
+    reason: string
+): Promise<void> {
+    await outbox.publish(db, {
+        type: 'ProcurementDecisionProposed',
+        aggregateType: 'ProcurementModel',
+        aggregateId: model,
+        payload: { model, decision, reason }
+    });
     console.log('[EVENT]', JSON.stringify({
         type: 'ProcurementDecisionProposed',
         decision,
@@ -123,7 +148,17 @@ export function emitDecisionProposed(decision: ProcurementDecision, reason: stri
     }));
 }
 
-export function emitDecisionRecorded(lotId: string, decision: ProcurementDecision): void {
+export async function emitDecisionRecorded(
+    tx: Prisma.TransactionClient,
+    lotId: string,
+    decision: ProcurementDecision
+): Promise<void> {
+    await outbox.publish(tx, {
+        type: 'ProcurementDecisionRecorded',
+        aggregateType: 'ProcurementLot',
+        aggregateId: lotId,
+        payload: { lotId, decision }
+    });
     console.log('[EVENT]', JSON.stringify({
         type: 'ProcurementDecisionRecorded',
         lotId,
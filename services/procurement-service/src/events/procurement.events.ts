@@ -1,9 +1,18 @@
 /**
  * Procurement Events
- * Émission d'événements domaine (simulation console.log)
+ * Émission d'événements domaine (outbox transactionnelle + console.log)
+ *
+ * RÈGLE : chaque émetteur s'appelle dans la transaction du changement métier
  */
 
+import { Prisma } from '@prisma/client';
 import { ProcurementLotEntity, ProcurementLotItemEntity } from '../domain/procurement.types';
+import { createServiceOutbox } from '@proinfo/shared';
+
+/**
+ * Outbox du service : chaque émetteur y écrit dans la transaction métier (tx)
+ */
+export const outbox = createServiceOutbox('procurement-service');
 
 /**
  * Payload de l'événement ProcurementLotCreated
@@ -41,7 +50,7 @@ export interface AssetIntakedEvent {
 /**
  * Émet un événement ProcurementLotCreated
  */
-export function emitProcurementLotCreated(lot: ProcurementLotEntity): void {
+export async function emitProcurementLotCreated(tx: Prisma.TransactionClient, lot: ProcurementLotEntity): Promise<void> {
     const event: ProcurementLotCreatedEvent = {
         eventType: 'ProcurementLotCreated',
         version: '1.0',
@@ -54,20 +63,26 @@ export function emitProcurementLotCreated(lot: ProcurementLotEntity): void {
             totalPurchasePrice: lot.totalPurchasePrice.toString()
         }
     };
+    await outbox.publish(tx, {
+        type: event.eventType,
+        aggregateType: 'ProcurementLot',
+        aggregateId: lot.id,
+        payload: event.payload
+    });
 
-    // Simulation : log console (pas de Kafka dans ce sprint)
     console.log('[EVENT]', JSON.stringify(event, null, 2));
 }
 
 /**
  * Émet un événement AssetIntaked
  */
-export function emitAssetIntaked(
+export async function emitAssetIntaked(
+    tx: Prisma.TransactionClient,
     lot: ProcurementLotEntity,
     item: ProcurementLotItemEntity,
     serialNumber: string,
     intakePosition: number
-): void {
+): Promise<void> {
     const event: AssetIntakedEvent = {
         eventType: 'AssetIntaked',
         version: '1.0',
@@ -81,7 +96,12 @@ export function emitAssetIntaked(
             totalDeclared: lot.totalUnitsDeclared
         }
     };
+    await outbox.publish(tx, {
+        type: event.eventType,
+        aggregateType: 'Asset',
+        aggregateId: item.assetId,
+        payload: event.payload
+    });
 
-    // Simulation : log console (pas de Kafka dans ce sprint)
     console.log('[EVENT]', JSON.stringify(event, null, 2));
 }
@@ -3,12 +3,13 @@
  * Couche d'accès aux données pour les items de lot
  */
 
-import { PrismaClient, ProcurementLotItem } from '@prisma/client';
+import { Prisma, PrismaClient, ProcurementLotItem } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
 import { ProcurementLotItemEntity } from '../domain/procurement.types';
 
 export class ProcurementItemRepository {
-    constructor(private readonly prisma: PrismaClient) { }
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: PrismaClient | Prisma.TransactionClient) { }
 
     /**
      * Crée un item de lot (rattache un asset au lot)
@@ -3,12 +3,13 @@
  * Couche d'accès aux données pour les lots d'achat
  */
 
-import { PrismaClient, ProcurementLot, SupplierType } from '@prisma/client';
+import { Prisma, PrismaClient, ProcurementLot, SupplierType } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
 import { CreateProcurementLotDto, ProcurementLotEntity } from '../domain/procurement.types';
 
 export class ProcurementLotRepository {
-    constructor(private readonly prisma: PrismaClient) { }
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: PrismaClient | Prisma.TransactionClient) { }
 
     /**
      * Crée un nouveau lot d'achat
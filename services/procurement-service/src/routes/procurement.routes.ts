@@ -26,5 +26,8 @@ export function createProcurementRoutes(prisma: PrismaClient): Router {
     // POST /procurement/lots/:lotId/intake - Intake d'une machine
     router.post('/lots/:lotId/intake', controller.intakeAsset);
 
+    // POST /procurement/lots/:lotId/intake/bulk - Intake en masse
+    router.post('/lots/:lotId/intake/bulk', controller.intakeAssets);
+
     return router;
 }
@@ -16,6 +16,8 @@ import {
     IntakeQuotaExceededError,
     AssetServiceError,
     AssetServiceResponse,
+    AssetBulkReportResponse,
+    BulkIntakeResult,
     ValidationError
 } from '../domain/procurement.types';
 
@@ -30,6 +32,13 @@ export interface AssetServiceClient {
         model: string;
         chassisRef?: string;
     }): Promise<AssetServiceResponse>;
+    createAssetsBulk(dtos: {
+        serialNumber: string;
+        assetType: string;
+        brand: string;
+        model: string;
+        chassisRef?: string;
+    }[]): Promise<AssetBulkReportResponse>;
 }
 
 /**
@@ -64,14 +73,39 @@ export class HttpAssetServiceClient implements AssetServiceClient {
 
         return response.json() as Promise<AssetServiceResponse>;
     }
+
+    async createAssetsBulk(dtos: {
+        serialNumber: string;
+        assetType: string;
+        brand: string;
+        model: string;
+        chassisRef?: string;
+    }[]): Promise<AssetBulkReportResponse> {
+        const response = await fetch(`${this.baseUrl}/assets/bulk`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify(dtos)
+        });
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            throw new AssetServiceError(response.status, errorBody);
+        }
+
+        return response.json() as Promise<AssetBulkReportResponse>;
+    }
 }
 
 export class ProcurementService {
+    private readonly prisma: PrismaClient;
     private readonly lotRepository: ProcurementLotRepository;
     private readonly itemRepository: ProcurementItemRepository;
     private readonly assetServiceClient: AssetServiceClient;
 
     constructor(prisma: PrismaClient, assetServiceClient?: AssetServiceClient) {
+        this.prisma = prisma;
         this.lotRepository = new ProcurementLotRepository(prisma);
         this.itemRepository = new ProcurementItemRepository(prisma);
         this.assetServiceClient = assetServiceClient ?? new HttpAssetServiceClient();
@@ -94,13 +128,12 @@ export class ProcurementService {
             throw new ValidationError('totalPurchasePrice must be greater than 0');
         }
 
-        // Créer le lot
-        const lot = await this.lotRepository.create(dto);
-
-        // Émettre l'événement
-        emitProcurementLotCreated(lot);
-
-        return lot;
+        // Créer le lot et émettre l'événement (même transaction)
+        return this.prisma.$transaction(async (tx) => {
+            const lot = await new ProcurementLotRepository(tx).create(dto);
+            await emitProcurementLotCreated(tx, lot);
+            return lot;
+        });
     }
 
     /**
@@ -112,7 +145,7 @@ export class ProcurementService {
      * 3. Appeler Asset Service (POST /assets)
      * 4. Récupérer assetId
      * 5. Créer ProcurementLotItem
-     * 6. Émettre événement AssetIntaked
+     * 6. Émettre événement AssetIntaked (même transaction que 5)
      * 
      * Si l'Asset Service refuse → pas de création d'item
      */
@@ -142,13 +175,65 @@ export class ProcurementService {
         // 4. Récupérer l'assetId
         const assetId = assetResponse.id;
 
-        // 5. Créer le ProcurementLotItem
-        const item = await this.itemRepository.create(lotId, assetId, dto.unitCost);
+        return this.prisma.$transaction(async (tx) => {
+            // 5. Créer le ProcurementLotItem
+            const item = await new ProcurementItemRepository(tx).create(lotId, assetId, dto.unitCost);
 
-        // 6. Émettre l'événement
-        emitAssetIntaked(lot, item, dto.serialNumber, currentItemCount + 1);
+            // 6. Émettre l'événement
+            await emitAssetIntaked(tx, lot, item, dto.serialNumber, currentItemCount + 1);
+
+            return item;
+        });
+    }
+
+    /**
+     * Intake en masse d'un lot (un seul appel à l'Asset Service)
+     *
+     * - Le quota est vérifié pour l'ensemble des machines
+     * - Les lignes rejetées par l'Asset Service sont renvoyées telles quelles
+     * - Un ProcurementLotItem est créé pour chaque asset créé
+     */
+    async intakeAssets(lotId: string, dtos: IntakeAssetDto[]): Promise<BulkIntakeResult> {
+        const lot = await this.lotRepository.findById(lotId);
+        if (!lot) {
+            throw new ProcurementLotNotFoundError(lotId);
+        }
+
+        if (dtos.length === 0) {
+            throw new ValidationError('At least one asset is required');
+        }
+
+        const currentItemCount = await this.itemRepository.countByLotId(lotId);
+        if (currentItemCount + dtos.length > lot.totalUnitsDeclared) {
+            throw new IntakeQuotaExceededError(lotId, lot.totalUnitsDeclared, currentItemCount);
+        }
+
+        const report = await this.assetServiceClient.createAssetsBulk(dtos.map(dto => ({
+            serialNumber: dto.serialNumber,
+            assetType: dto.assetType,
+            brand: dto.brand,
+            model: dto.model,
+            chassisRef: dto.chassisRef
+        })));
+
+        const items: ProcurementLotItemEntity[] = [];
+        const rejected = report.results.filter(r => r.status === 'REJECTED');
+
+        for (const result of report.results) {
+            const dto = dtos[result.row - 1];
+            if (result.status !== 'CREATED' || !result.assetId || !dto) {
+                continue;
+            }
+
+            const item = await this.prisma.$transaction(async (tx) => {
+                const created = await new ProcurementItemRepository(tx).create(lotId, result.assetId as string, dto.unitCost);
+                await emitAssetIntaked(tx, lot, created, dto.serialNumber, currentItemCount + items.length + 1);
+                return created;
+            });
+            items.push(item);
+        }
 
-        return item;
+        return { items, rejected };
     }
 
     /**
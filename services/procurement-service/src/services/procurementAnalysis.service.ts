@@ -113,8 +113,9 @@ export class ProcurementAnalysisService {
             calculatedAt: new Date()
         };
 
-        emitSimulationRun(result);
-        emitDecisionProposed(decision, reason);
+        // Aucune écriture métier : publiés hors transaction
+        await emitSimulationRun(this.prisma, result);
+        await emitDecisionProposed(this.prisma, request.model, decision, reason);
 
         return result;
     }
@@ -193,24 +194,26 @@ export class ProcurementAnalysisService {
      * RÈGLE : Historique traçable, append-only
      */
     async recordDecision(dto: RecordDecisionDto): Promise<{ id: string }> {
-        const lot = await this.prisma.procurementLot.create({
-            data: {
-                supplierName: dto.supplier,
-                supplierType: dto.supplierType as SupplierType,
-                purchaseDate: new Date(),
-                totalUnitsDeclared: dto.quantity,
-                totalPurchasePrice: dto.totalPurchasePrice,
-                model: dto.model,
-                estimatedValue: dto.estimatedValue,
-                estimatedMargin: dto.estimatedMargin,
-                decision: dto.decision,
-                decisionComment: dto.comment
-            }
+        return this.prisma.$transaction(async (tx) => {
+            const lot = await tx.procurementLot.create({
+                data: {
+                    supplierName: dto.supplier,
+                    supplierType: dto.supplierType as SupplierType,
+                    purchaseDate: new Date(),
+                    totalUnitsDeclared: dto.quantity,
+                    totalPurchasePrice: dto.totalPurchasePrice,
+                    model: dto.model,
+                    estimatedValue: dto.estimatedValue,
+                    estimatedMargin: dto.estimatedMargin,
+                    decision: dto.decision,
+                    decisionComment: dto.comment
+                }
+            });
+
+            await emitDecisionRecorded(tx, lot.id, dto.decision);
+
+            return { id: lot.id };
         });
-
-        emitDecisionRecorded(lot.id, dto.decision);
-
-        return { id: lot.id };
     }
 
     // ============================================
@@ -19,7 +19,7 @@ import {
 import { SupplierType, PrismaClient } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
 
-// Mock du PrismaClient
+// Mock du PrismaClient ($transaction exécute le callback avec le même mock)
 const mockPrisma = {
     procurementLot: {
         create: jest.fn(),
@@ -31,12 +31,15 @@ const mockPrisma = {
         findUnique: jest.fn(),
         findMany: jest.fn(),
         count: jest.fn()
-    }
+    },
+    $executeRawUnsafe: jest.fn(),
+    $transaction: jest.fn()
 } as unknown as PrismaClient;
 
 // Mock du client Asset Service
 const mockAssetServiceClient: AssetServiceClient = {
-    createAsset: jest.fn()
+    createAsset: jest.fn(),
+    createAssetsBulk: jest.fn()
 };
 
 // Mock des événements (console.log)
@@ -47,6 +50,9 @@ describe('ProcurementService', () => {
 
     beforeEach(() => {
         jest.clearAllMocks();
+        (mockPrisma.$transaction as jest.Mock).mockImplementation(
+            async (callback: (tx: PrismaClient) => Promise<unknown>) => callback(mockPrisma)
+        );
         service = new ProcurementService(mockPrisma, mockAssetServiceClient);
     });
 
@@ -90,11 +96,24 @@ describe('ProcurementService', () => {
                     totalUnitsDeclared: 50
                 })
             });
-            // Vérifier que l'événement a été émis
+            // Vérifier que l'événement a été émis (console + outbox)
             expect(console.log).toHaveBeenCalledWith(
                 '[EVENT]',
                 expect.stringContaining('ProcurementLotCreated')
             );
+            expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
+                expect.stringContaining('INSERT INTO "outbox_events"'),
+                expect.any(String),
+                'ProcurementLotCreated',
+                1,
+                'procurement-service',
+                'ProcurementLot',
+                result.id,
+                expect.any(String),
+                expect.any(String),
+                null,
+                expect.any(String)
+            );
         });
 
         test('should_reject_invalid_lot_creation', async () => {
@@ -242,6 +261,61 @@ describe('ProcurementService', () => {
         });
     });
 
+    describe('intakeAssets (bulk)', () => {
+        const mockLot = {
+            id: 'lot-uuid-1',
+            supplierName: 'BNP Leasing',
+            supplierType: SupplierType.LEASING,
+            purchaseDate: new Date('2026-01-10'),
+            totalUnitsDeclared: 3,
+            totalPurchasePrice: new Decimal(1500),
+            createdAt: new Date(),
+            _count: { items: 0 }
+        };
+
+        const dtos: IntakeAssetDto[] = [
+            { serialNumber: 'SN-1', assetType: 'LAPTOP', brand: 'HP', model: '840', unitCost: 200 },
+            { serialNumber: 'SN-2', assetType: 'LAPTOP', brand: 'HP', model: '840', unitCost: 250 }
+        ];
+
+        test('should_create_items_only_for_assets_created_in_bulk', async () => {
+            (mockPrisma.procurementLot.findUnique as jest.Mock).mockResolvedValue(mockLot);
+            (mockPrisma.procurementLotItem.count as jest.Mock).mockResolvedValue(0);
+            (mockAssetServiceClient.createAssetsBulk as jest.Mock).mockResolvedValue({
+                total: 2,
+                succeeded: 1,
+                failed: 1,
+                results: [
+                    { row: 1, status: 'REJECTED', serialNumber: 'SN-1', error: 'DuplicateSerialNumberError' },
+                    { row: 2, status: 'CREATED', serialNumber: 'SN-2', assetId: 'asset-2' }
+                ]
+            });
+            (mockPrisma.procurementLotItem.create as jest.Mock).mockImplementation(async ({ data }) => ({
+                id: 'item-2',
+                createdAt: new Date(),
+                ...data
+            }));
+
+            const result = await service.intakeAssets('lot-uuid-1', dtos);
+
+            expect(mockAssetServiceClient.createAssetsBulk).toHaveBeenCalledTimes(1);
+            expect(mockAssetServiceClient.createAsset).not.toHaveBeenCalled();
+            expect(result.items).toHaveLength(1);
+            expect(result.rejected[0]?.serialNumber).toBe('SN-1');
+            expect(mockPrisma.procurementLotItem.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ assetId: 'asset-2' })
+            });
+        });
+
+        test('should_check_quota_for_the_whole_batch', async () => {
+            (mockPrisma.procurementLot.findUnique as jest.Mock).mockResolvedValue(mockLot);
+            (mockPrisma.procurementLotItem.count as jest.Mock).mockResolvedValue(2);
+
+            await expect(service.intakeAssets('lot-uuid-1', dtos)).rejects.toThrow(IntakeQuotaExceededError);
+            expect(mockAssetServiceClient.createAssetsBulk).not.toHaveBeenCalled();
+        });
+    });
+
     describe('edge cases', () => {
         test('should_throw_ProcurementLotNotFoundError_for_unknown_lot', async () => {
             // Arrange
@@ -18,12 +18,14 @@ import {
     DEFAULT_RMA_RATE
 } from '../domain/procurementDecision.types';
 
-// Mock du PrismaClient
+// Mock du PrismaClient ($transaction exécute le callback avec le même mock)
 const mockPrisma = {
     procurementLot: {
         create: jest.fn(),
         findMany: jest.fn()
-    }
+    },
+    $executeRawUnsafe: jest.fn(),
+    $transaction: jest.fn()
 } as any;
 
 // Mock des providers
@@ -44,6 +46,7 @@ describe('ProcurementAnalysisService', () => {
 
     beforeEach(() => {
         jest.clearAllMocks();
+        mockPrisma.$transaction.mockImplementation(async (callback: (tx: unknown) => Promise<unknown>) => callback(mockPrisma));
         service = new ProcurementAnalysisService(mockPrisma, mockSalesProvider, mockQualityProvider);
     });
 
@@ -213,10 +216,24 @@ describe('ProcurementAnalysisService', () => {
             })
         });
 
-        // Vérifier l'événement
+        // Vérifier l'événement (console + outbox, même transaction)
         expect(console.log).toHaveBeenCalledWith(
             '[EVENT]',
             expect.stringContaining('ProcurementDecisionRecorded')
         );
+        expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+        expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
+            expect.stringContaining('INSERT INTO "outbox_events"'),
+            expect.any(String),
+            'ProcurementDecisionRecorded',
+            1,
+            'procurement-service',
+            'ProcurementLot',
+            'lot-uuid-1',
+            expect.any(String),
+            expect.any(String),
+            null,
+            JSON.stringify({ lotId: 'lot-uuid-1', decision: ProcurementDecision.ACCEPT })
+        );
     });
 });
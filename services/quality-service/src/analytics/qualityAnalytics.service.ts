@@ -9,8 +9,9 @@
  * - Le blocage préventif empêche les NOUVEAUX assets de passer SELLABLE
  */
 
-import { PrismaClient, QualityAlertType } from '@prisma/client';
+import { Prisma, PrismaClient, QualityAlertType } from '@prisma/client';
 import { QualityMetricRepository } from '../repositories/qualityMetric.repository';
+import { outbox } from '../events/quality.events';
 import {
     MetricKey,
     RmaRateResult,
@@ -24,10 +25,23 @@ import {
 } from '../domain/qualityAlert.types';
 
 // ============================================
-// EVENTS
+// EVENTS (outbox, dans la transaction de l'écriture)
 // ============================================
 
-function emitQualityMetricCalculated(key: string, scope: string, value: number): void {
+async function emitQualityMetricCalculated(
+    tx: Prisma.TransactionClient,
+    metricId: string,
+    key: string,
+    scope: string,
+    value: number
+): Promise<void> {
+    const payload = { metricId, key, scope, value };
+    await outbox.publish(tx, {
+        type: 'QualityMetricCalculated',
+        aggregateType: 'QualityMetric',
+        aggregateId: metricId,
+        payload
+    });
     console.log('[EVENT]', JSON.stringify({
         type: 'QualityMetricCalculated',
         key,
@@ -37,18 +51,33 @@ function emitQualityMetricCalculated(key: string, scope: string, value: number):
     }));
 }
 
-function emitQualityAlertRaised(alert: QualityAlertEntity): void {
-    console.log('[EVENT]', JSON.stringify({
-        type: 'QualityAlertRaised',
+async function emitQualityAlertRaised(tx: Prisma.TransactionClient, alert: QualityAlertEntity): Promise<void> {
+    const payload = {
         alertId: alert.id,
         alertType: alert.type,
         scope: alert.scope,
-        reason: alert.reason,
+        reason: alert.reason
+    };
+    await outbox.publish(tx, {
+        type: 'QualityAlertRaised',
+        aggregateType: 'QualityAlert',
+        aggregateId: alert.id,
+        payload
+    });
+    console.log('[EVENT]', JSON.stringify({
+        type: 'QualityAlertRaised',
+        ...payload,
         timestamp: new Date().toISOString()
     }));
 }
 
-function emitQualityAlertCleared(alertId: string): void {
+async function emitQualityAlertCleared(tx: Prisma.TransactionClient, alertId: string): Promise<void> {
+    await outbox.publish(tx, {
+        type: 'QualityAlertCleared',
+        aggregateType: 'QualityAlert',
+        aggregateId: alertId,
+        payload: { alertId }
+    });
     console.log('[EVENT]', JSON.stringify({
         type: 'QualityAlertCleared',
         alertId,
@@ -171,6 +200,7 @@ export class HttpRmaDataProvider implements RmaDataProvider {
 // ============================================
 
 export class QualityAnalyticsService {
+    private readonly prisma: PrismaClient;
     private readonly repository: QualityMetricRepository;
     private readonly rmaProvider: RmaDataProvider;
     private readonly assetProvider: AssetDataProvider;
@@ -180,6 +210,7 @@ export class QualityAnalyticsService {
         rmaProvider: RmaDataProvider,
         assetProvider: AssetDataProvider
     ) {
+        this.prisma = prisma;
         this.repository = new QualityMetricRepository(prisma);
         this.rmaProvider = rmaProvider;
         this.assetProvider = assetProvider;
@@ -206,13 +237,7 @@ export class QualityAnalyticsService {
             const rmaRate = (counts.rmaCount / counts.total) * 100;
 
             // Enregistrer la métrique
-            await this.repository.saveMetric({
-                key: MetricKey.RMA_RATE,
-                value: rmaRate,
-                scope: `model:${model}`
-            });
-
-            emitQualityMetricCalculated(MetricKey.RMA_RATE, `model:${model}`, rmaRate);
+            await this.saveMetric(`model:${model}`, rmaRate);
 
             results.push({
                 scope: model,
@@ -240,13 +265,7 @@ export class QualityAnalyticsService {
 
             const rmaRate = (counts.rmaCount / counts.total) * 100;
 
-            await this.repository.saveMetric({
-                key: MetricKey.RMA_RATE,
-                value: rmaRate,
-                scope: `supplier:${supplier}`
-            });
-
-            emitQualityMetricCalculated(MetricKey.RMA_RATE, `supplier:${supplier}`, rmaRate);
+            await this.saveMetric(`supplier:${supplier}`, rmaRate);
 
             results.push({
                 scope: supplier,
@@ -259,6 +278,31 @@ export class QualityAnalyticsService {
         return results;
     }
 
+    /**
+     * Enregistre un RMA_RATE et publie QualityMetricCalculated (même transaction)
+     */
+    private async saveMetric(scope: string, rmaRate: number): Promise<void> {
+        await this.prisma.$transaction(async (tx) => {
+            const metric = await new QualityMetricRepository(tx).saveMetric({
+                key: MetricKey.RMA_RATE,
+                value: rmaRate,
+                scope
+            });
+            await emitQualityMetricCalculated(tx, metric.id, MetricKey.RMA_RATE, scope, rmaRate);
+        });
+    }
+
+    /**
+     * Crée une alerte et publie QualityAlertRaised (même transaction)
+     */
+    private async raiseAlert(type: QualityAlertType, scope: string, reason: string): Promise<QualityAlertEntity> {
+        return this.prisma.$transaction(async (tx) => {
+            const alert = await new QualityMetricRepository(tx).createAlert({ type, scope, reason });
+            await emitQualityAlertRaised(tx, alert);
+            return alert;
+        });
+    }
+
     // ============================================
     // ALERT DETECTION
     // ============================================
@@ -283,12 +327,11 @@ export class QualityAnalyticsService {
                 const hasAlert = await this.repository.hasActiveAlert(QualityAlertType.MODEL, scope);
 
                 if (!hasAlert) {
-                    const alert = await this.repository.createAlert({
-                        type: QualityAlertType.MODEL,
+                    const alert = await this.raiseAlert(
+                        QualityAlertType.MODEL,
                         scope,
-                        reason: `RMA rate ${result.rmaRate.toFixed(2)}% exceeds threshold ${RMA_RATE_THRESHOLD}%`
-                    });
-                    emitQualityAlertRaised(alert);
+                        `RMA rate ${result.rmaRate.toFixed(2)}% exceeds threshold ${RMA_RATE_THRESHOLD}%`
+                    );
                     newAlerts.push(alert);
                 }
             }
@@ -301,12 +344,11 @@ export class QualityAnalyticsService {
                 const hasAlert = await this.repository.hasActiveAlert(QualityAlertType.SUPPLIER, scope);
 
                 if (!hasAlert) {
-                    const alert = await this.repository.createAlert({
-                        type: QualityAlertType.SUPPLIER,
+                    const alert = await this.raiseAlert(
+                        QualityAlertType.SUPPLIER,
                         scope,
-                        reason: `RMA rate ${result.rmaRate.toFixed(2)}% exceeds threshold ${RMA_RATE_THRESHOLD}%`
-                    });
-                    emitQualityAlertRaised(alert);
+                        `RMA rate ${result.rmaRate.toFixed(2)}% exceeds threshold ${RMA_RATE_THRESHOLD}%`
+                    );
                     newAlerts.push(alert);
                 }
             }
@@ -403,9 +445,11 @@ export class QualityAnalyticsService {
      * IMPORTANT : Seule action humaine autorisée
      */
     async clearAlert(alertId: string): Promise<QualityAlertEntity> {
-        const alert = await this.repository.clearAlert(alertId);
-        emitQualityAlertCleared(alertId);
-        return alert;
+        return this.prisma.$transaction(async (tx) => {
+            const alert = await new QualityMetricRepository(tx).clearAlert(alertId);
+            await emitQualityAlertCleared(tx, alertId);
+            return alert;
+        });
     }
 
     /**
@@ -5,6 +5,7 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { QualityService } from '../services/quality.service';
+import { GradingService } from '../services/grading.service';
 import { PrismaClient, AssetType } from '@prisma/client';
 import {
     CreateChecklistDto,
@@ -18,13 +19,22 @@ import {
     QualityValidationFailedError
 } from '../domain/qualityResult.types';
 import { RecordBatteryHealthDto, InvalidStateOfHealthError } from '../domain/battery.types';
+import {
+    CreateGradingRuleSetDto,
+    DuplicateGradingRuleSetError,
+    GradeDecisionNotFoundError,
+    GradingRuleSetNotFoundError,
+    InvalidGradingRuleSetError
+} from '../domain/grading.types';
 import { AssetServiceError } from '../integrations/asset.client';
 
 export class QualityController {
     private readonly qualityService: QualityService;
+    private readonly gradingService: GradingService;
 
     constructor(prisma: PrismaClient) {
         this.qualityService = new QualityService(prisma);
+        this.gradingService = new GradingService(prisma);
     }
 
     /**
@@ -202,6 +212,83 @@ export class QualityController {
         }
     };
 
+    /**
+     * GET /assets/:assetId/validation
+     * Évalue la validation qualité sans changer le statut
+     */
+    getValidationStatus = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const assetId = req.params.assetId;
+            if (!assetId) {
+                res.status(400).json({ error: 'ValidationError', message: 'Missing assetId' });
+                return;
+            }
+
+            const result = await this.qualityService.getValidationStatus(assetId);
+            res.status(200).json(result);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    /**
+     * POST /quality/grading-rules
+     * Crée une nouvelle version de règles de grading
+     */
+    createGradingRuleSet = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const dto: CreateGradingRuleSetDto = {
+                assetType: req.body.assetType as AssetType,
+                version: req.body.version,
+                rules: req.body.rules ?? []
+            };
+
+            if (!dto.assetType || typeof dto.version !== 'number') {
+                res.status(400).json({
+                    error: 'ValidationError',
+                    message: 'Missing required fields: assetType, version'
+                });
+                return;
+            }
+
+            const ruleSet = await this.gradingService.createRuleSet(dto);
+            res.status(201).json(ruleSet);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    /**
+     * GET /quality/grading-rules
+     */
+    listGradingRuleSets = async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const ruleSets = await this.gradingService.listRuleSets();
+            res.status(200).json(ruleSets);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    /**
+     * GET /quality/assets/:assetId/grade
+     * Dernière décision de grade (version de règles + justification)
+     */
+    getAssetGrade = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const assetId = req.params.assetId;
+            if (!assetId) {
+                res.status(400).json({ error: 'ValidationError', message: 'Missing assetId' });
+                return;
+            }
+
+            const decision = await this.gradingService.getLatestDecision(assetId);
+            res.status(200).json(decision);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
     /**
      * Gère les erreurs métier
      */
@@ -257,6 +344,39 @@ export class QualityController {
             return;
         }
 
+        if (error instanceof DuplicateGradingRuleSetError) {
+            res.status(409).json({
+                error: 'DuplicateGradingRuleSetError',
+                message: error.message
+            });
+            return;
+        }
+
+        if (error instanceof InvalidGradingRuleSetError) {
+            res.status(400).json({
+                error: 'InvalidGradingRuleSetError',
+                message: error.message
+            });
+            return;
+        }
+
+        if (error instanceof GradingRuleSetNotFoundError) {
+            res.status(422).json({
+                error: 'GradingRuleSetNotFoundError',
+                message: error.message,
+                assetType: error.assetType
+            });
+            return;
+        }
+
+        if (error instanceof GradeDecisionNotFoundError) {
+            res.status(404).json({
+                error: 'GradeDecisionNotFoundError',
+                message: error.message
+            });
+            return;
+        }
+
         if (error instanceof AssetServiceError) {
             res.status(502).json({
                 error: 'AssetServiceError',
@@ -0,0 +1,141 @@
+/**
+ * Grading Types
+ * Types pour le calcul du grade esthétique / fonctionnel
+ */
+
+import { AssetGrade, AssetType, GradingOperator } from '@prisma/client';
+
+/**
+ * Ordre d'évaluation : du meilleur grade au plus bas
+ * Le grade le plus bas sert de plancher si aucun autre n'est atteint.
+ */
+export const GRADE_ORDER: AssetGrade[] = [AssetGrade.PREMIUM, AssetGrade.A, AssetGrade.B, AssetGrade.C];
+
+/**
+ * Métriques calculées (les autres métriques sont des codes d'item de
+ * checklist dont la valeur mesurée est numérique, ex. SCRATCHES, DEAD_PIXELS)
+ */
+export const BUILTIN_GRADING_METRICS = {
+    BATTERY_SOH: 'BATTERY_SOH',         // BatteryHealth.stateOfHealth (%)
+    BATTERY_CYCLES: 'BATTERY_CYCLES',   // BatteryHealth.cycles
+    FAILED_ITEMS: 'FAILED_ITEMS'        // Nombre d'items non bloquants en FAIL
+} as const;
+
+/**
+ * DTO pour une règle de grading
+ */
+export interface CreateGradingRuleDto {
+    grade: AssetGrade;
+    metric: string;
+    operator: GradingOperator;
+    threshold: number;
+}
+
+/**
+ * DTO pour créer une version de règles de grading
+ */
+export interface CreateGradingRuleSetDto {
+    assetType: AssetType;
+    version: number;
+    rules: CreateGradingRuleDto[];
+}
+
+/**
+ * Entité Règle de grading
+ */
+export interface GradingRuleEntity {
+    id: string;
+    ruleSetId: string;
+    grade: AssetGrade;
+    metric: string;
+    operator: GradingOperator;
+    threshold: number;
+}
+
+/**
+ * Entité Version de règles de grading
+ */
+export interface GradingRuleSetEntity {
+    id: string;
+    assetType: AssetType;
+    version: number;
+    createdAt: Date;
+    rules: GradingRuleEntity[];
+}
+
+/**
+ * Évaluation d'une règle (justification du grade)
+ */
+export interface GradingRuleEvaluation {
+    grade: AssetGrade;
+    metric: string;
+    operator: GradingOperator;
+    threshold: number;
+    actual: number | null;      // null = métrique non mesurée → règle en échec
+    passed: boolean;
+}
+
+/**
+ * Justification d'une décision de grade
+ */
+export interface GradeRationale {
+    summary: string;
+    metrics: Record<string, number>;
+    evaluations: GradingRuleEvaluation[];
+}
+
+/**
+ * Entité Décision de grade (append-only)
+ */
+export interface GradeDecisionEntity {
+    id: string;
+    assetId: string;
+    grade: AssetGrade;
+    ruleSetId: string;
+    ruleSetVersion: number;
+    rationale: GradeRationale;
+    createdAt: Date;
+}
+
+/**
+ * Erreur : aucune règle de grading pour ce type d'asset
+ */
+export class GradingRuleSetNotFoundError extends Error {
+    constructor(public readonly assetType: AssetType) {
+        super(`No grading rule set found for asset type ${assetType}`);
+        this.name = 'GradingRuleSetNotFoundError';
+    }
+}
+
+/**
+ * Erreur : version de règles déjà existante
+ */
+export class DuplicateGradingRuleSetError extends Error {
+    constructor(
+        public readonly assetType: AssetType,
+        public readonly version: number
+    ) {
+        super(`Grading rule set for ${assetType} v${version} already exists`);
+        this.name = 'DuplicateGradingRuleSetError';
+    }
+}
+
+/**
+ * Erreur : règles de grading invalides
+ */
+export class InvalidGradingRuleSetError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidGradingRuleSetError';
+    }
+}
+
+/**
+ * Erreur : aucun grade calculé pour cet asset
+ */
+export class GradeDecisionNotFoundError extends Error {
+    constructor(public readonly assetId: string) {
+        super(`No grade decision recorded for asset ${assetId}`);
+        this.name = 'GradeDecisionNotFoundError';
+    }
+}
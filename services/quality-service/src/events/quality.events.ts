@@ -1,10 +1,21 @@
 /**
  * Quality Events
- * Émission d'événements domaine (simulation console.log)
+ * Émission d'événements domaine (outbox transactionnelle + console.log)
+ *
+ * RÈGLE : chaque émetteur s'appelle dans la transaction du changement métier
  */
 
+import { Prisma } from '@prisma/client';
+
 import { QualityResultEntity, ValidationResult } from '../domain/qualityResult.types';
 import { BatteryHealthEntity } from '../domain/battery.types';
+import { GradeDecisionEntity } from '../domain/grading.types';
+import { createServiceOutbox } from '@proinfo/shared';
+
+/**
+ * Outbox du service : chaque émetteur y écrit dans la transaction métier (tx)
+ */
+export const outbox = createServiceOutbox('quality-service');
 
 /**
  * Événement : Résultat qualité enregistré
@@ -46,6 +57,7 @@ export interface QualityPassedEvent {
         assetId: string;
         checklistId: string;
         batteryStateOfHealth?: number;
+        grade?: string;
     };
 }
 
@@ -63,10 +75,26 @@ export interface QualityFailedEvent {
     };
 }
 
+/**
+ * Événement : Grade calculé
+ */
+export interface AssetGradedEvent {
+    eventType: 'AssetGraded';
+    version: '1.0';
+    timestamp: Date;
+    payload: {
+        assetId: string;
+        grade: string;
+        ruleSetId: string;
+        ruleSetVersion: number;
+        summary: string;
+    };
+}
+
 /**
  * Émet l'événement QualityResultRecorded
  */
-export function emitQualityResultRecorded(result: QualityResultEntity): void {
+export async function emitQualityResultRecorded(tx: Prisma.TransactionClient, result: QualityResultEntity): Promise<void> {
     const event: QualityResultRecordedEvent = {
         eventType: 'QualityResultRecorded',
         version: '1.0',
@@ -78,13 +106,19 @@ export function emitQualityResultRecorded(result: QualityResultEntity): void {
             measuredValue: result.measuredValue ?? undefined
         }
     };
+    await outbox.publish(tx, {
+        type: event.eventType,
+        aggregateType: 'Asset',
+        aggregateId: result.assetId,
+        payload: event.payload
+    });
     console.log('[EVENT]', JSON.stringify(event, null, 2));
 }
 
 /**
  * Émet l'événement BatteryHealthRecorded
  */
-export function emitBatteryHealthRecorded(battery: BatteryHealthEntity): void {
+export async function emitBatteryHealthRecorded(tx: Prisma.TransactionClient, battery: BatteryHealthEntity): Promise<void> {
     const event: BatteryHealthRecordedEvent = {
         eventType: 'BatteryHealthRecorded',
         version: '1.0',
@@ -95,17 +129,25 @@ export function emitBatteryHealthRecorded(battery: BatteryHealthEntity): void {
             cycles: battery.cycles
         }
     };
+    await outbox.publish(tx, {
+        type: event.eventType,
+        aggregateType: 'Asset',
+        aggregateId: battery.assetId,
+        payload: event.payload
+    });
     console.log('[EVENT]', JSON.stringify(event, null, 2));
 }
 
 /**
  * Émet l'événement QualityPassed
  */
-export function emitQualityPassed(
+export async function emitQualityPassed(
+    tx: Prisma.TransactionClient,
     assetId: string,
     checklistId: string,
-    batteryStateOfHealth?: number
-): void {
+    batteryStateOfHealth?: number,
+    grade?: string
+): Promise<void> {
     const event: QualityPassedEvent = {
         eventType: 'QualityPassed',
         version: '1.0',
@@ -113,20 +155,28 @@ export function emitQualityPassed(
         payload: {
             assetId,
             checklistId,
-            batteryStateOfHealth
+            batteryStateOfHealth,
+            grade
         }
     };
+    await outbox.publish(tx, {
+        type: event.eventType,
+        aggregateType: 'Asset',
+        aggregateId: assetId,
+        payload: event.payload
+    });
     console.log('[EVENT]', JSON.stringify(event, null, 2));
 }
 
 /**
  * Émet l'événement QualityFailed
  */
-export function emitQualityFailed(
+export async function emitQualityFailed(
+    tx: Prisma.TransactionClient,
     assetId: string,
     reason: string,
     details: ValidationResult['details']
-): void {
+): Promise<void> {
     const event: QualityFailedEvent = {
         eventType: 'QualityFailed',
         version: '1.0',
@@ -137,5 +187,36 @@ export function emitQualityFailed(
             details
         }
     };
+    await outbox.publish(tx, {
+        type: event.eventType,
+        aggregateType: 'Asset',
+        aggregateId: assetId,
+        payload: event.payload
+    });
+    console.log('[EVENT]', JSON.stringify(event, null, 2));
+}
+
+/**
+ * Émet l'événement AssetGraded
+ */
+export async function emitAssetGraded(tx: Prisma.TransactionClient, decision: GradeDecisionEntity): Promise<void> {
+    const event: AssetGradedEvent = {
+        eventType: 'AssetGraded',
+        version: '1.0',
+        timestamp: new Date(),
+        payload: {
+            assetId: decision.assetId,
+            grade: decision.grade,
+            ruleSetId: decision.ruleSetId,
+            ruleSetVersion: decision.ruleSetVersion,
+            summary: decision.rationale.summary
+        }
+    };
+    await outbox.publish(tx, {
+        type: event.eventType,
+        aggregateType: 'Asset',
+        aggregateId: decision.assetId,
+        payload: event.payload
+    });
     console.log('[EVENT]', JSON.stringify(event, null, 2));
 }
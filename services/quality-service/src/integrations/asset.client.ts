@@ -38,6 +38,7 @@ export class AssetServiceError extends Error {
 export interface AssetServiceClient {
     getAsset(assetId: string): Promise<AssetServiceResponse>;
     changeStatus(assetId: string, newStatus: string, reason?: string): Promise<AssetServiceResponse>;
+    setGrade(assetId: string, grade: string): Promise<AssetServiceResponse>;
 }
 
 /**
@@ -92,4 +93,24 @@ export class HttpAssetServiceClient implements AssetServiceClient {
 
         return response.json() as Promise<AssetServiceResponse>;
     }
+
+    /**
+     * Attribue le grade d'un asset (avant sa sortie de QUALITY_PENDING)
+     */
+    async setGrade(assetId: string, grade: string): Promise<AssetServiceResponse> {
+        const response = await fetch(`${this.baseUrl}/assets/${assetId}/grade`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ grade })
+        });
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            throw new AssetServiceError(response.status, errorBody);
+        }
+
+        return response.json() as Promise<AssetServiceResponse>;
+    }
 }
@@ -3,11 +3,12 @@
  * Couche d'accès aux données pour la santé batterie
  */
 
-import { PrismaClient, BatteryHealth } from '@prisma/client';
+import { Prisma, BatteryHealth } from '@prisma/client';
 import { BatteryHealthEntity, RecordBatteryHealthDto } from '../domain/battery.types';
 
 export class BatteryRepository {
-    constructor(private readonly prisma: PrismaClient) { }
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
 
     /**
      * Enregistre ou met à jour la santé batterie
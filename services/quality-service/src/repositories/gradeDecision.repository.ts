@@ -0,0 +1,64 @@
+/**
+ * Grade Decision Repository
+ * Couche d'accès aux données pour les décisions de grade
+ *
+ * IMPORTANT : Append-only - pas d'update autorisé
+ */
+
+import { AssetGrade, AssetGradeDecision, Prisma } from '@prisma/client';
+import { GradeDecisionEntity, GradeRationale, GradingRuleSetEntity } from '../domain/grading.types';
+
+export class GradeDecisionRepository {
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
+
+    /**
+     * Enregistre une décision de grade
+     * Seule opération d'écriture autorisée
+     */
+    async create(
+        assetId: string,
+        grade: AssetGrade,
+        ruleSet: GradingRuleSetEntity,
+        rationale: GradeRationale
+    ): Promise<GradeDecisionEntity> {
+        const decision = await this.prisma.assetGradeDecision.create({
+            data: {
+                assetId,
+                grade,
+                ruleSetId: ruleSet.id,
+                ruleSetVersion: ruleSet.version,
+                rationale: rationale as unknown as Prisma.InputJsonValue
+            }
+        });
+
+        return this.toEntity(decision);
+    }
+
+    /**
+     * Récupère la dernière décision pour un asset
+     */
+    async findLatestByAssetId(assetId: string): Promise<GradeDecisionEntity | null> {
+        const decision = await this.prisma.assetGradeDecision.findFirst({
+            where: { assetId },
+            orderBy: { createdAt: 'desc' }
+        });
+
+        return decision ? this.toEntity(decision) : null;
+    }
+
+    /**
+     * Convertit un record Prisma en entité domaine
+     */
+    private toEntity(decision: AssetGradeDecision): GradeDecisionEntity {
+        return {
+            id: decision.id,
+            assetId: decision.assetId,
+            grade: decision.grade,
+            ruleSetId: decision.ruleSetId,
+            ruleSetVersion: decision.ruleSetVersion,
+            rationale: decision.rationale as unknown as GradeRationale,
+            createdAt: decision.createdAt
+        };
+    }
+}
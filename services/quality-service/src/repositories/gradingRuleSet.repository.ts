@@ -0,0 +1,93 @@
+/**
+ * Grading Rule Set Repository
+ * Couche d'accès aux données pour les règles de grading versionnées
+ *
+ * IMPORTANT : une version n'est jamais modifiée, on en crée une nouvelle
+ */
+
+import { PrismaClient, AssetType, GradingRuleSet, GradingRule } from '@prisma/client';
+import { CreateGradingRuleSetDto, GradingRuleSetEntity } from '../domain/grading.types';
+
+type RuleSetWithRules = GradingRuleSet & { rules: GradingRule[] };
+
+export class GradingRuleSetRepository {
+    constructor(private readonly prisma: PrismaClient) { }
+
+    /**
+     * Crée une version de règles
+     */
+    async create(dto: CreateGradingRuleSetDto): Promise<GradingRuleSetEntity> {
+        const ruleSet = await this.prisma.gradingRuleSet.create({
+            data: {
+                assetType: dto.assetType,
+                version: dto.version,
+                rules: {
+                    create: dto.rules.map(rule => ({
+                        grade: rule.grade,
+                        metric: rule.metric,
+                        operator: rule.operator,
+                        threshold: rule.threshold
+                    }))
+                }
+            },
+            include: { rules: true }
+        });
+
+        return this.toEntity(ruleSet);
+    }
+
+    /**
+     * Recherche la dernière version pour un type d'asset
+     */
+    async findLatestByAssetType(assetType: AssetType): Promise<GradingRuleSetEntity | null> {
+        const ruleSet = await this.prisma.gradingRuleSet.findFirst({
+            where: { assetType },
+            orderBy: { version: 'desc' },
+            include: { rules: true }
+        });
+
+        return ruleSet ? this.toEntity(ruleSet) : null;
+    }
+
+    /**
+     * Vérifie si une version existe déjà
+     */
+    async exists(assetType: AssetType, version: number): Promise<boolean> {
+        const count = await this.prisma.gradingRuleSet.count({
+            where: { assetType, version }
+        });
+        return count > 0;
+    }
+
+    /**
+     * Liste toutes les versions
+     */
+    async findAll(): Promise<GradingRuleSetEntity[]> {
+        const ruleSets = await this.prisma.gradingRuleSet.findMany({
+            orderBy: [{ assetType: 'asc' }, { version: 'desc' }],
+            include: { rules: true }
+        });
+
+        return ruleSets.map(r => this.toEntity(r));
+    }
+
+    /**
+     * Convertit un record Prisma en entité domaine
+     */
+    private toEntity(ruleSet: RuleSetWithRules): GradingRuleSetEntity {
+        return {
+            id: ruleSet.id,
+            assetType: ruleSet.assetType,
+            version: ruleSet.version,
+            createdAt: ruleSet.createdAt,
+            rules: ruleSet.rules.map(rule => ({
+                id: rule.id,
+                ruleSetId: rule.ruleSetId,
+                grade: rule.grade,
+                metric: rule.metric,
+                operator: rule.operator,
+                threshold: rule.threshold
+            }))
+        };
+    }
+}
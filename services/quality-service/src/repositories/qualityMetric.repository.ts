@@ -5,7 +5,7 @@
  * RÈGLE : Lecture analytique uniquement - aucune modification directe d'Assets
  */
 
-import { PrismaClient, QualityAlertType } from '@prisma/client';
+import { Prisma, PrismaClient, QualityAlertType } from '@prisma/client';
 import {
     QualityMetricEntity,
     CreateMetricDto,
@@ -20,7 +20,8 @@ import {
 } from '../domain/qualityAlert.types';
 
 export class QualityMetricRepository {
-    constructor(private readonly prisma: PrismaClient) { }
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: PrismaClient | Prisma.TransactionClient) { }
 
     // ============================================
     // METRICS
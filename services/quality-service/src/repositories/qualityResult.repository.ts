@@ -5,11 +5,12 @@
  * IMPORTANT : Append-only - pas d'update autorisé
  */
 
-import { PrismaClient, QualityResult } from '@prisma/client';
+import { Prisma, QualityResult } from '@prisma/client';
 import { QualityResultEntity, RecordQualityResultDto } from '../domain/qualityResult.types';
 
 export class QualityResultRepository {
-    constructor(private readonly prisma: PrismaClient) { }
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
 
     /**
      * Crée un résultat qualité
@@ -26,6 +26,12 @@ export function createQualityRoutes(prisma: PrismaClient): Router {
 
     // === Validation ===
     router.post('/assets/:assetId/validate', controller.validateQuality);
+    router.get('/assets/:assetId/validation', controller.getValidationStatus);
+
+    // === Grading ===
+    router.post('/grading-rules', controller.createGradingRuleSet);
+    router.get('/grading-rules', controller.listGradingRuleSets);
+    router.get('/assets/:assetId/grade', controller.getAssetGrade);
 
     return router;
 }
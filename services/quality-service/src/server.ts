@@ -5,6 +5,7 @@
 
 import { PrismaClient } from '@prisma/client';
 import { createApp } from './app';
+import { outbox } from './events/quality.events';
 
 const PORT = process.env.PORT ?? 3002;
 
@@ -22,14 +23,20 @@ async function main(): Promise<void> {
             console.log(`[SERVER] Quality Service running on port ${PORT}`);
         });
 
+        // Livraison des événements de l'outbox
+        const { dispatcher } = outbox.createDispatcher(prisma);
+        dispatcher.start();
+
         process.on('SIGINT', async () => {
             console.log('[SERVER] Shutting down...');
+            dispatcher.stop();
             await prisma.$disconnect();
             process.exit(0);
         });
 
         process.on('SIGTERM', async () => {
             console.log('[SERVER] Shutting down...');
+            dispatcher.stop();
             await prisma.$disconnect();
             process.exit(0);
         });
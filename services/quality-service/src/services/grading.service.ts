@@ -0,0 +1,211 @@
+/**
+ * Grading Service
+ * Calcul du grade d'un asset à partir des résultats qualité
+ *
+ * DÉTERMINISTE : mêmes mesures + même version de règles = même grade.
+ *
+ * Principe :
+ * - Les règles sont versionnées par AssetType (dernière version appliquée)
+ * - Les grades sont évalués du meilleur au plus bas (PREMIUM → C)
+ * - Un grade est attribué si TOUTES ses règles passent
+ * - Une métrique non mesurée fait échouer la règle
+ * - Le grade le plus bas sert de plancher
+ */
+
+import { PrismaClient, AssetGrade, AssetType, GradingOperator } from '@prisma/client';
+import { GradingRuleSetRepository } from '../repositories/gradingRuleSet.repository';
+import { GradeDecisionRepository } from '../repositories/gradeDecision.repository';
+import { ChecklistRepository } from '../repositories/checklist.repository';
+import { QualityResultRepository } from '../repositories/qualityResult.repository';
+import { BatteryRepository } from '../repositories/battery.repository';
+import { emitAssetGraded } from '../events/quality.events';
+import {
+    BUILTIN_GRADING_METRICS,
+    CreateGradingRuleSetDto,
+    DuplicateGradingRuleSetError,
+    GradeDecisionEntity,
+    GradeDecisionNotFoundError,
+    GradeRationale,
+    GRADE_ORDER,
+    GradingRuleEvaluation,
+    GradingRuleSetEntity,
+    GradingRuleSetNotFoundError,
+    InvalidGradingRuleSetError
+} from '../domain/grading.types';
+
+export class GradingService {
+    private readonly ruleSetRepository: GradingRuleSetRepository;
+    private readonly decisionRepository: GradeDecisionRepository;
+    private readonly checklistRepository: ChecklistRepository;
+    private readonly qualityResultRepository: QualityResultRepository;
+    private readonly batteryRepository: BatteryRepository;
+
+    constructor(private readonly prisma: PrismaClient) {
+        this.ruleSetRepository = new GradingRuleSetRepository(prisma);
+        this.decisionRepository = new GradeDecisionRepository(prisma);
+        this.checklistRepository = new ChecklistRepository(prisma);
+        this.qualityResultRepository = new QualityResultRepository(prisma);
+        this.batteryRepository = new BatteryRepository(prisma);
+    }
+
+    /**
+     * Crée une nouvelle version de règles de grading
+     *
+     * Règles :
+     * - (assetType, version) unique
+     * - au moins une règle, seuils numériques, opérateurs connus
+     */
+    async createRuleSet(dto: CreateGradingRuleSetDto): Promise<GradingRuleSetEntity> {
+        if (!Array.isArray(dto.rules) || dto.rules.length === 0) {
+            throw new InvalidGradingRuleSetError('Grading rule set must have at least one rule');
+        }
+
+        for (const rule of dto.rules) {
+            if (!GRADE_ORDER.includes(rule.grade)) {
+                throw new InvalidGradingRuleSetError(`Invalid grade: ${rule.grade}`);
+            }
+            if (!Object.values(GradingOperator).includes(rule.operator)) {
+                throw new InvalidGradingRuleSetError(`Invalid operator: ${rule.operator}`);
+            }
+            if (!rule.metric || typeof rule.threshold !== 'number' || !Number.isFinite(rule.threshold)) {
+                throw new InvalidGradingRuleSetError(`Invalid rule for grade ${rule.grade}: metric and numeric threshold required`);
+            }
+        }
+
+        const exists = await this.ruleSetRepository.exists(dto.assetType, dto.version);
+        if (exists) {
+            throw new DuplicateGradingRuleSetError(dto.assetType, dto.version);
+        }
+
+        return this.ruleSetRepository.create(dto);
+    }
+
+    /**
+     * Liste toutes les versions de règles
+     */
+    async listRuleSets(): Promise<GradingRuleSetEntity[]> {
+        return this.ruleSetRepository.findAll();
+    }
+
+    /**
+     * Calcule et enregistre le grade d'un asset
+     *
+     * @throws GradingRuleSetNotFoundError si aucune règle n'existe pour ce type
+     */
+    async gradeAsset(assetId: string, assetType: AssetType): Promise<GradeDecisionEntity> {
+        const ruleSet = await this.ruleSetRepository.findLatestByAssetType(assetType);
+        if (!ruleSet) {
+            throw new GradingRuleSetNotFoundError(assetType);
+        }
+
+        const metrics = await this.collectMetrics(assetId, assetType);
+        const { grade, rationale } = this.computeGrade(ruleSet, metrics);
+
+        return this.prisma.$transaction(async (tx) => {
+            const decision = await new GradeDecisionRepository(tx).create(assetId, grade, ruleSet, rationale);
+
+            await emitAssetGraded(tx, decision);
+
+            return decision;
+        });
+    }
+
+    /**
+     * Récupère la dernière décision de grade
+     *
+     * @throws GradeDecisionNotFoundError si l'asset n'a jamais été gradé
+     */
+    async getLatestDecision(assetId: string): Promise<GradeDecisionEntity> {
+        const decision = await this.decisionRepository.findLatestByAssetId(assetId);
+        if (!decision) {
+            throw new GradeDecisionNotFoundError(assetId);
+        }
+        return decision;
+    }
+
+    /**
+     * Applique une version de règles à un jeu de mesures (sans effet de bord)
+     */
+    computeGrade(
+        ruleSet: GradingRuleSetEntity,
+        metrics: Record<string, number>
+    ): { grade: AssetGrade; rationale: GradeRationale } {
+        const evaluations: GradingRuleEvaluation[] = [];
+        let grade: AssetGrade | undefined;
+
+        for (const candidate of GRADE_ORDER) {
+            const rules = ruleSet.rules.filter(r => r.grade === candidate);
+            const results = rules.map(rule => {
+                const actual = metrics[rule.metric] ?? null;
+                const passed = actual !== null && (
+                    rule.operator === GradingOperator.LTE ? actual <= rule.threshold : actual >= rule.threshold
+                );
+                return {
+                    grade: candidate,
+                    metric: rule.metric,
+                    operator: rule.operator,
+                    threshold: rule.threshold,
+                    actual,
+                    passed
+                };
+            });
+            evaluations.push(...results);
+
+            if (results.every(r => r.passed)) {
+                grade = candidate;
+                break;
+            }
+        }
+
+        const floor = GRADE_ORDER[GRADE_ORDER.length - 1] as AssetGrade;
+        const failed = evaluations.filter(e => !e.passed);
+        const summary = grade
+            ? `Grade ${grade} (rule set v${ruleSet.version})` +
+            (failed.length > 0 ? `; higher grades blocked by ${failed.map(e => e.metric).join(', ')}` : '')
+            : `No grade criteria met, floor grade ${floor} applied (rule set v${ruleSet.version})`;
+
+        return {
+            grade: grade ?? floor,
+            rationale: { summary, metrics, evaluations }
+        };
+    }
+
+    /**
+     * Rassemble les mesures d'un asset
+     *
+     * - Items de checklist : valeur mesurée numérique, indexée par code
+     * - FAILED_ITEMS : nombre d'items non bloquants en FAIL
+     * - BATTERY_SOH / BATTERY_CYCLES : dernière mesure batterie
+     */
+    private async collectMetrics(assetId: string, assetType: AssetType): Promise<Record<string, number>> {
+        const metrics: Record<string, number> = {};
+
+        const checklist = await this.checklistRepository.findLatestByAssetType(assetType);
+        const items = new Map((checklist?.items ?? []).map(item => [item.id, item]));
+        const results = await this.qualityResultRepository.findByAssetId(assetId);
+
+        let failedItems = 0;
+        for (const result of results) {
+            const item = items.get(result.checklistItemId);
+            if (!item) {
+                continue;
+            }
+            if (result.result === 'FAIL' && !item.isBlocking) {
+                failedItems++;
+            }
+            const value = result.measuredValue?.trim() ? Number(result.measuredValue) : NaN;
+            if (Number.isFinite(value)) {
+                metrics[item.code] = value;
+            }
+        }
+        metrics[BUILTIN_GRADING_METRICS.FAILED_ITEMS] = failedItems;
+
+        const battery = await this.batteryRepository.findByAssetId(assetId);
+        if (battery) {
+            metrics[BUILTIN_GRADING_METRICS.BATTERY_SOH] = battery.stateOfHealth;
+            metrics[BUILTIN_GRADING_METRICS.BATTERY_CYCLES] = battery.cycles;
+        }
+
+        return metrics;
+    }
+}
@@ -9,6 +9,7 @@ import { ChecklistItemRepository } from '../repositories/checklistItem.repositor
 import { QualityResultRepository } from '../repositories/qualityResult.repository';
 import { BatteryRepository } from '../repositories/battery.repository';
 import { AssetServiceClient, HttpAssetServiceClient } from '../integrations/asset.client';
+import { GradingService } from './grading.service';
 import {
     emitQualityResultRecorded,
     emitBatteryHealthRecorded,
@@ -42,13 +43,15 @@ export class QualityService {
     private readonly qualityResultRepository: QualityResultRepository;
     private readonly batteryRepository: BatteryRepository;
     private readonly assetServiceClient: AssetServiceClient;
+    private readonly gradingService: GradingService;
 
-    constructor(prisma: PrismaClient, assetServiceClient?: AssetServiceClient) {
+    constructor(private readonly prisma: PrismaClient, assetServiceClient?: AssetServiceClient) {
         this.checklistRepository = new ChecklistRepository(prisma);
         this.checklistItemRepository = new ChecklistItemRepository(prisma);
         this.qualityResultRepository = new QualityResultRepository(prisma);
         this.batteryRepository = new BatteryRepository(prisma);
         this.assetServiceClient = assetServiceClient ?? new HttpAssetServiceClient();
+        this.gradingService = new GradingService(prisma);
     }
 
     /**
@@ -97,13 +100,15 @@ export class QualityService {
             throw new QualityResultAlreadyExistsError(assetId, dto.checklistItemId);
         }
 
-        // Créer le résultat
-        const result = await this.qualityResultRepository.create(assetId, dto);
+        return this.prisma.$transaction(async (tx) => {
+            // Créer le résultat
+            const result = await new QualityResultRepository(tx).create(assetId, dto);
 
-        // Émettre l'événement
-        emitQualityResultRecorded(result);
+            // Émettre l'événement (outbox, même transaction)
+            await emitQualityResultRecorded(tx, result);
 
-        return result;
+            return result;
+        });
     }
 
     /**
@@ -122,13 +127,15 @@ export class QualityService {
             throw new InvalidStateOfHealthError(dto.stateOfHealth);
         }
 
-        // Upsert (écrase la précédente mesure)
-        const battery = await this.batteryRepository.upsert(assetId, dto);
+        return this.prisma.$transaction(async (tx) => {
+            // Upsert (écrase la précédente mesure)
+            const battery = await new BatteryRepository(tx).upsert(assetId, dto);
 
-        // Émettre l'événement
-        emitBatteryHealthRecorded(battery);
+            // Émettre l'événement (outbox, même transaction)
+            await emitBatteryHealthRecorded(tx, battery);
 
-        return battery;
+            return battery;
+        });
     }
 
     /**
@@ -139,10 +146,56 @@ export class QualityService {
      * 2. Vérifier que tous les items ont un résultat
      * 3. Vérifier qu'aucun item bloquant n'est en FAIL
      * 4. Vérifier batterie : si SoH < 85 → REFUS
-     * 5. Si tout OK → appeler Asset Service → statut SELLABLE
+     * 5. Si tout OK → calculer le grade, le pousser à l'Asset Service,
+     *    puis statut SELLABLE
      * 6. Sinon → refuser explicitement
+     *
+     * @throws GradingRuleSetNotFoundError si aucune règle de grading (asset reste QUALITY_PENDING)
      */
     async validateQuality(assetId: string): Promise<ValidationResult> {
+        const { validationResult, checklistId, assetType } = await this.evaluateQuality(assetId);
+
+        if (!validationResult.isValid) {
+            // Émettre l'événement d'échec (seule écriture locale)
+            await emitQualityFailed(this.prisma, assetId, validationResult.reason ?? 'Unknown', validationResult.details);
+
+            throw new QualityValidationFailedError(assetId, validationResult);
+        }
+
+        // 5. Tout est OK → grade (enregistré puis poussé) puis statut SELLABLE
+        const decision = await this.gradingService.gradeAsset(assetId, assetType);
+        await this.assetServiceClient.setGrade(assetId, decision.grade);
+        await this.assetServiceClient.changeStatus(assetId, 'SELLABLE', 'Quality validation passed');
+
+        // Émettre l'événement de succès (seule écriture locale après les appels Asset)
+        await emitQualityPassed(
+            this.prisma,
+            assetId,
+            checklistId,
+            validationResult.details.batteryStateOfHealth,
+            decision.grade
+        );
+
+        return validationResult;
+    }
+
+    /**
+     * Évalue la validation qualité SANS effet de bord
+     * (ni événement, ni changement de statut)
+     *
+     * Utilisé par l'Asset Service pour la garde QUALITY_VALIDATED
+     */
+    async getValidationStatus(assetId: string): Promise<ValidationResult> {
+        const { validationResult } = await this.evaluateQuality(assetId);
+        return validationResult;
+    }
+
+    /**
+     * Calcule le résultat de validation (étapes 1 à 4)
+     */
+    private async evaluateQuality(
+        assetId: string
+    ): Promise<{ validationResult: ValidationResult; checklistId: string; assetType: AssetType }> {
         // Récupérer l'asset pour connaître son type
         const asset = await this.assetServiceClient.getAsset(assetId);
         const assetType = asset.assetType as AssetType;
@@ -215,20 +268,9 @@ export class QualityService {
                     ? `Battery SoH ${battery.stateOfHealth}% below threshold ${BATTERY_SOH_THRESHOLD}%`
                     : 'Battery health measurement required';
             }
-
-            // Émettre l'événement d'échec
-            emitQualityFailed(assetId, validationResult.reason ?? 'Unknown', validationResult.details);
-
-            throw new QualityValidationFailedError(assetId, validationResult);
         }
 
-        // 5. Tout est OK → changer le statut vers SELLABLE
-        await this.assetServiceClient.changeStatus(assetId, 'SELLABLE', 'Quality validation passed');
-
-        // Émettre l'événement de succès
-        emitQualityPassed(assetId, checklist.id, batteryStateOfHealth);
-
-        return validationResult;
+        return { validationResult, checklistId: checklist.id, assetType };
     }
 
     /**
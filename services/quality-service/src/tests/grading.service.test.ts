@@ -0,0 +1,149 @@
+/**
+ * Grading Service Tests
+ * Tests unitaires pour le calcul du grade
+ */
+
+import { GradingService } from '../services/grading.service';
+import {
+    DuplicateGradingRuleSetError,
+    GradingRuleSetEntity,
+    GradingRuleSetNotFoundError,
+    InvalidGradingRuleSetError
+} from '../domain/grading.types';
+import { AssetGrade, AssetType, GradingOperator, PrismaClient } from '@prisma/client';
+
+// Mock du PrismaClient ($transaction exécute le callback avec le même mock)
+const mockPrisma = {
+    gradingRuleSet: {
+        create: jest.fn(),
+        findFirst: jest.fn(),
+        count: jest.fn()
+    },
+    assetGradeDecision: {
+        create: jest.fn(),
+        findFirst: jest.fn()
+    },
+    qualityChecklist: {
+        findFirst: jest.fn()
+    },
+    qualityResult: {
+        findMany: jest.fn()
+    },
+    batteryHealth: {
+        findUnique: jest.fn()
+    },
+    $executeRawUnsafe: jest.fn(),
+    $transaction: jest.fn()
+} as unknown as PrismaClient;
+
+jest.spyOn(console, 'log').mockImplementation(() => { });
+
+// Règles LAPTOP v3 : PREMIUM / A / B sous conditions, C plancher
+const laptopRules: GradingRuleSetEntity = {
+    id: 'grading-3',
+    assetType: AssetType.LAPTOP,
+    version: 3,
+    createdAt: new Date(),
+    rules: [
+        { id: 'r1', ruleSetId: 'grading-3', grade: AssetGrade.PREMIUM, metric: 'SCRATCHES', operator: GradingOperator.LTE, threshold: 0 },
+        { id: 'r2', ruleSetId: 'grading-3', grade: AssetGrade.PREMIUM, metric: 'BATTERY_SOH', operator: GradingOperator.GTE, threshold: 95 },
+        { id: 'r3', ruleSetId: 'grading-3', grade: AssetGrade.A, metric: 'SCRATCHES', operator: GradingOperator.LTE, threshold: 2 },
+        { id: 'r4', ruleSetId: 'grading-3', grade: AssetGrade.A, metric: 'BATTERY_CYCLES', operator: GradingOperator.LTE, threshold: 300 },
+        { id: 'r5', ruleSetId: 'grading-3', grade: AssetGrade.B, metric: 'DEAD_PIXELS', operator: GradingOperator.LTE, threshold: 3 }
+    ]
+};
+
+const checklist = {
+    id: 'checklist-1',
+    name: 'Laptop v1',
+    assetType: AssetType.LAPTOP,
+    version: 1,
+    createdAt: new Date(),
+    items: [
+        { id: 'item-1', checklistId: 'checklist-1', code: 'SCRATCHES', description: 'Rayures', isBlocking: false },
+        { id: 'item-2', checklistId: 'checklist-1', code: 'DEAD_PIXELS', description: 'Pixels morts', isBlocking: false }
+    ]
+};
+
+function result(checklistItemId: string, measuredValue: string) {
+    return { id: `res-${checklistItemId}`, assetId: 'asset-1', checklistItemId, result: 'PASS', measuredValue, createdAt: new Date() };
+}
+
+describe('GradingService', () => {
+    let service: GradingService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (mockPrisma.$transaction as jest.Mock).mockImplementation(
+            async (callback: (tx: PrismaClient) => Promise<unknown>) => callback(mockPrisma)
+        );
+        service = new GradingService(mockPrisma);
+    });
+
+    describe('computeGrade', () => {
+        test('should_return_best_grade_whose_rules_all_pass', () => {
+            const { grade, rationale } = service.computeGrade(laptopRules, {
+                SCRATCHES: 1,
+                BATTERY_SOH: 97,
+                BATTERY_CYCLES: 120
+            });
+
+            expect(grade).toBe(AssetGrade.A);
+            expect(rationale.summary).toContain('rule set v3');
+            expect(rationale.evaluations.filter(e => !e.passed).map(e => e.metric)).toEqual(['SCRATCHES']);
+        });
+
+        test('should_fail_rule_when_metric_not_measured_and_apply_floor', () => {
+            const { grade, rationale } = service.computeGrade(laptopRules, { SCRATCHES: 5 });
+
+            expect(grade).toBe(AssetGrade.C);
+            expect(rationale.evaluations.find(e => e.metric === 'DEAD_PIXELS')?.actual).toBeNull();
+        });
+    });
+
+    describe('gradeAsset', () => {
+        test('should_record_decision_with_rule_version_and_rationale', async () => {
+            (mockPrisma.gradingRuleSet.findFirst as jest.Mock).mockResolvedValue(laptopRules);
+            (mockPrisma.qualityChecklist.findFirst as jest.Mock).mockResolvedValue(checklist);
+            (mockPrisma.qualityResult.findMany as jest.Mock).mockResolvedValue([
+                result('item-1', '0'),
+                result('item-2', '0')
+            ]);
+            (mockPrisma.batteryHealth.findUnique as jest.Mock).mockResolvedValue({
+                assetId: 'asset-1', stateOfHealth: 96, cycles: 80, measuredAt: new Date()
+            });
+            (mockPrisma.assetGradeDecision.create as jest.Mock).mockImplementation(async ({ data }) => ({
+                id: 'decision-1', createdAt: new Date(), ...data
+            }));
+
+            const decision = await service.gradeAsset('asset-1', AssetType.LAPTOP);
+
+            expect(decision.grade).toBe(AssetGrade.PREMIUM);
+            expect(mockPrisma.assetGradeDecision.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ ruleSetId: 'grading-3', ruleSetVersion: 3, grade: AssetGrade.PREMIUM })
+            });
+            expect(decision.rationale.metrics).toMatchObject({ SCRATCHES: 0, BATTERY_SOH: 96, FAILED_ITEMS: 0 });
+            expect(console.log).toHaveBeenCalledWith('[EVENT]', expect.stringContaining('AssetGraded'));
+        });
+
+        test('should_throw_when_no_rule_set_for_asset_type', async () => {
+            (mockPrisma.gradingRuleSet.findFirst as jest.Mock).mockResolvedValue(null);
+
+            await expect(service.gradeAsset('asset-1', AssetType.SERVER)).rejects.toThrow(GradingRuleSetNotFoundError);
+        });
+    });
+
+    describe('createRuleSet', () => {
+        test('should_reject_invalid_or_duplicate_rule_sets', async () => {
+            await expect(service.createRuleSet({ assetType: AssetType.LAPTOP, version: 4, rules: [] }))
+                .rejects.toThrow(InvalidGradingRuleSetError);
+
+            (mockPrisma.gradingRuleSet.count as jest.Mock).mockResolvedValue(1);
+            await expect(service.createRuleSet({
+                assetType: AssetType.LAPTOP,
+                version: 3,
+                rules: [{ grade: AssetGrade.A, metric: 'SCRATCHES', operator: GradingOperator.LTE, threshold: 2 }]
+            })).rejects.toThrow(DuplicateGradingRuleSetError);
+        });
+    });
+});
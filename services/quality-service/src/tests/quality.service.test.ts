@@ -15,7 +15,7 @@ import { BATTERY_SOH_THRESHOLD } from '../domain/battery.types';
 import { AssetType, PrismaClient } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
 
-// Mock du PrismaClient
+// Mock du PrismaClient ($transaction exécute le callback avec le même mock)
 const mockPrisma = {
     qualityChecklist: {
         create: jest.fn(),
@@ -38,13 +38,22 @@ const mockPrisma = {
     batteryHealth: {
         upsert: jest.fn(),
         findUnique: jest.fn()
-    }
+    },
+    gradingRuleSet: {
+        findFirst: jest.fn()
+    },
+    assetGradeDecision: {
+        create: jest.fn()
+    },
+    $executeRawUnsafe: jest.fn(),
+    $transaction: jest.fn()
 } as unknown as PrismaClient;
 
 // Mock du client Asset Service
 const mockAssetServiceClient: AssetServiceClient = {
     getAsset: jest.fn(),
-    changeStatus: jest.fn()
+    changeStatus: jest.fn(),
+    setGrade: jest.fn()
 };
 
 // Mock des événements
@@ -55,6 +64,9 @@ describe('QualityService', () => {
 
     beforeEach(() => {
         jest.clearAllMocks();
+        (mockPrisma.$transaction as jest.Mock).mockImplementation(
+            async (callback: (tx: PrismaClient) => Promise<unknown>) => callback(mockPrisma)
+        );
         service = new QualityService(mockPrisma, mockAssetServiceClient);
     });
 
@@ -140,6 +152,19 @@ describe('QualityService', () => {
                 expect(validationError.validationResult.details.blockingFailures).toContain('SCREEN');
                 expect(validationError.validationResult.reason).toContain('Blocking items failed');
             }
+            expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
+                expect.stringContaining('INSERT INTO "outbox_events"'),
+                expect.any(String),
+                'QualityFailed',
+                1,
+                'quality-service',
+                'Asset',
+                'asset-uuid-1',
+                expect.any(String),
+                expect.any(String),
+                null,
+                expect.stringContaining('Blocking items failed')
+            );
         });
 
         test('should_fail_validation_if_battery_below_threshold', async () => {
@@ -186,6 +211,21 @@ describe('QualityService', () => {
                 cycles: 150,
                 measuredAt: new Date()
             });
+            (mockPrisma.gradingRuleSet.findFirst as jest.Mock).mockResolvedValue({
+                id: 'grading-1',
+                assetType: AssetType.LAPTOP,
+                version: 1,
+                createdAt: new Date(),
+                rules: [
+                    { id: 'g1', ruleSetId: 'grading-1', grade: 'PREMIUM', metric: 'BATTERY_SOH', operator: 'GTE', threshold: 95 },
+                    { id: 'g2', ruleSetId: 'grading-1', grade: 'A', metric: 'BATTERY_SOH', operator: 'GTE', threshold: 90 }
+                ]
+            });
+            (mockPrisma.assetGradeDecision.create as jest.Mock).mockImplementation(async ({ data }) => ({
+                id: 'decision-1',
+                createdAt: new Date(),
+                ...data
+            }));
             (mockAssetServiceClient.changeStatus as jest.Mock).mockResolvedValue({
                 ...mockAsset,
                 status: 'SELLABLE'
@@ -194,8 +234,11 @@ describe('QualityService', () => {
             // Act
             const result = await service.validateQuality('asset-uuid-1');
 
-            // Assert
+            // Assert - grade poussé AVANT le passage en SELLABLE
             expect(result.isValid).toBe(true);
+            expect(mockAssetServiceClient.setGrade).toHaveBeenCalledWith('asset-uuid-1', 'A');
+            expect((mockAssetServiceClient.setGrade as jest.Mock).mock.invocationCallOrder[0])
+                .toBeLessThan((mockAssetServiceClient.changeStatus as jest.Mock).mock.invocationCallOrder[0]!);
             expect(mockAssetServiceClient.changeStatus).toHaveBeenCalledWith(
                 'asset-uuid-1',
                 'SELLABLE',
@@ -285,6 +328,20 @@ describe('QualityService', () => {
                 '[EVENT]',
                 expect.stringContaining('BatteryHealthRecorded')
             );
+            expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+            expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
+                expect.stringContaining('INSERT INTO "outbox_events"'),
+                expect.any(String),
+                'BatteryHealthRecorded',
+                1,
+                'quality-service',
+                'Asset',
+                'asset-uuid-1',
+                expect.any(String),
+                expect.any(String),
+                null,
+                JSON.stringify({ assetId: 'asset-uuid-1', stateOfHealth: 92, cycles: 180 })
+            );
         });
 
         test('should_reject_invalid_state_of_health', async () => {
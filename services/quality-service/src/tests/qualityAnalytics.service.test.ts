@@ -9,7 +9,7 @@ import { QualityAnalyticsService, RmaDataProvider, AssetDataProvider } from '../
 import { QualityAlertType } from '@prisma/client';
 import { RMA_RATE_THRESHOLD } from '../domain/qualityMetric.types';
 
-// Mock du PrismaClient
+// Mock du PrismaClient ($transaction exécute le callback avec le même mock)
 const mockPrisma = {
     qualityMetric: {
         create: jest.fn(),
@@ -23,7 +23,9 @@ const mockPrisma = {
         findUnique: jest.fn(),
         update: jest.fn(),
         count: jest.fn()
-    }
+    },
+    $executeRawUnsafe: jest.fn(),
+    $transaction: jest.fn()
 } as any;
 
 // Mock des providers
@@ -45,6 +47,7 @@ describe('QualityAnalyticsService', () => {
 
     beforeEach(() => {
         jest.clearAllMocks();
+        mockPrisma.$transaction.mockImplementation(async (callback: (tx: unknown) => Promise<unknown>) => callback(mockPrisma));
         service = new QualityAnalyticsService(mockPrisma, mockRmaProvider, mockAssetProvider);
     });
 
@@ -130,11 +133,13 @@ describe('QualityAnalyticsService', () => {
         expect(firstAlert.reason).toContain('8.00%');
         expect(firstAlert.reason).toContain(`exceeds threshold ${RMA_RATE_THRESHOLD}%`);
 
-        // Vérifier l'événement
+        // Vérifier l'événement (console + outbox)
         expect(console.log).toHaveBeenCalledWith(
             '[EVENT]',
             expect.stringContaining('QualityAlertRaised')
         );
+        const published = mockPrisma.$executeRawUnsafe.mock.calls.map((call: unknown[]) => call[2]);
+        expect(published).toEqual(['QualityMetricCalculated', 'QualityMetricCalculated', 'QualityAlertRaised']);
     });
 
     // ============================================
@@ -10,7 +10,7 @@ import {
     AssetNotSoldError,
     TicketNotFoundError
 } from '../domain/ticket.types';
-import { RmaNotFoundError, InvalidRmaStatusError } from '../domain/rma.types';
+import { RmaNotFoundError, InvalidRmaStatusError, InvalidRmaResolutionError } from '../domain/rma.types';
 import { RmaNotReceivedError, RmaNotDiagnosedError } from '../domain/diagnosis.types';
 import { AssetServiceError } from '../integrations/asset.client';
 import { InventoryServiceError } from '../integrations/inventory.client';
@@ -150,7 +150,7 @@ export class SavController {
 
     /**
      * POST /sav/rma/:rmaId/resolve
-     * Résolution d'un RMA
+     * Résolution d'un RMA (body : dataWipeCertificateRef?, scrapReasonCode?)
      */
     resolveRma = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
         try {
@@ -160,7 +160,8 @@ export class SavController {
                 return;
             }
 
-            const rma = await this.savService.resolveRma(rmaId);
+            const { dataWipeCertificateRef, scrapReasonCode } = req.body ?? {};
+            const rma = await this.savService.resolveRma(rmaId, { dataWipeCertificateRef, scrapReasonCode });
             res.status(200).json(rma);
         } catch (error) {
             this.handleError(error, res, next);
@@ -229,6 +230,10 @@ export class SavController {
             res.status(422).json({ error: 'RmaNotReceivedError', message: error.message });
             return;
         }
+        if (error instanceof InvalidRmaResolutionError) {
+            res.status(400).json({ error: 'InvalidRmaResolutionError', message: error.message });
+            return;
+        }
         if (error instanceof RmaNotDiagnosedError) {
             res.status(422).json({ error: 'RmaNotDiagnosedError', message: error.message });
             return;
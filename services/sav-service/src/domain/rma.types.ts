@@ -16,6 +16,32 @@ export interface RmaEntity {
     createdAt: Date;
 }
 
+/**
+ * DTO de résolution d'un RMA
+ *
+ * REPAIR : RMA → QUALITY_PENDING exige le certificat d'effacement des données.
+ * SCRAP : RMA → SCRAPPED exige un code motif de mise au rebut.
+ */
+export interface ResolveRmaDto {
+    dataWipeCertificateRef?: string;
+    scrapReasonCode?: string;
+}
+
+/**
+ * Code motif d'une remise en qualité après réparation SAV
+ */
+export const RMA_REPAIR_REASON_CODE = 'RMA_REPAIR';
+
+/**
+ * Motifs de mise au rebut acceptés par l'Asset Service
+ */
+export const SCRAP_REASON_CODES = ['QA_FAILED', 'BEYOND_REPAIR', 'DAMAGED', 'OBSOLETE'];
+
+/**
+ * Motif de mise au rebut par défaut
+ */
+export const DEFAULT_SCRAP_REASON_CODE = 'BEYOND_REPAIR';
+
 /**
  * Erreur : RMA non trouvé
  */
@@ -49,3 +75,13 @@ export class RmaAlreadyResolvedError extends Error {
         this.name = 'RmaAlreadyResolvedError';
     }
 }
+
+/**
+ * Erreur : données de résolution invalides
+ */
+export class InvalidRmaResolutionError extends Error {
+    constructor(public readonly rmaId: string, message: string) {
+        super(`RMA ${rmaId}: ${message}`);
+        this.name = 'InvalidRmaResolutionError';
+    }
+}
@@ -1,11 +1,20 @@
 /**
  * SAV Events
- * Émission d'événements domaine (simulation console.log)
+ * Émission d'événements domaine (outbox transactionnelle + console.log)
+ *
+ * RÈGLE : chaque émetteur s'appelle dans la transaction du changement métier
  */
 
+import { Prisma } from '@prisma/client';
 import { TicketEntity } from '../domain/ticket.types';
 import { RmaEntity } from '../domain/rma.types';
 import { DiagnosisEntity } from '../domain/diagnosis.types';
+import { createServiceOutbox } from '@proinfo/shared';
+
+/**
+ * Outbox du service : chaque émetteur y écrit dans la transaction métier (tx)
+ */
+export const outbox = createServiceOutbox('sav-service');
 
 export interface SavTicketCreatedEvent {
     eventType: 'SavTicketCreated';
@@ -62,7 +71,7 @@ export interface RmaResolvedEvent {
     };
 }
 
-export function emitSavTicketCreated(ticket: TicketEntity): void {
+export async function emitSavTicketCreated(tx: Prisma.TransactionClient, ticket: TicketEntity): Promise<void> {
     const event: SavTicketCreatedEvent = {
         eventType: 'SavTicketCreated',
         version: '1.0',
@@ -74,10 +83,16 @@ export function emitSavTicketCreated(ticket: TicketEntity): void {
             issue: ticket.issue
         }
     };
+    await outbox.publish(tx, {
+        type: event.eventType,
+        aggregateType: 'SavTicket',
+        aggregateId: ticket.id,
+        payload: event.payload
+    });
     console.log('[EVENT]', JSON.stringify(event, null, 2));
 }
 
-export function emitRmaCreated(rma: RmaEntity): void {
+export async function emitRmaCreated(tx: Prisma.TransactionClient, rma: RmaEntity): Promise<void> {
     const event: RmaCreatedEvent = {
         eventType: 'RmaCreated',
         version: '1.0',
@@ -88,10 +103,16 @@ export function emitRmaCreated(rma: RmaEntity): void {
             ticketId: rma.ticketId
         }
     };
+    await outbox.publish(tx, {
+        type: event.eventType,
+        aggregateType: 'Rma',
+        aggregateId: rma.id,
+        payload: event.payload
+    });
     console.log('[EVENT]', JSON.stringify(event, null, 2));
 }
 
-export function emitRmaReceived(rma: RmaEntity): void {
+export async function emitRmaReceived(tx: Prisma.TransactionClient, rma: RmaEntity): Promise<void> {
     const event: RmaReceivedEvent = {
         eventType: 'RmaReceived',
         version: '1.0',
@@ -101,10 +122,16 @@ export function emitRmaReceived(rma: RmaEntity): void {
             assetId: rma.assetId
         }
     };
+    await outbox.publish(tx, {
+        type: event.eventType,
+        aggregateType: 'Rma',
+        aggregateId: rma.id,
+        payload: event.payload
+    });
     console.log('[EVENT]', JSON.stringify(event, null, 2));
 }
 
-export function emitRmaDiagnosed(rma: RmaEntity, diagnosis: DiagnosisEntity): void {
+export async function emitRmaDiagnosed(tx: Prisma.TransactionClient, rma: RmaEntity, diagnosis: DiagnosisEntity): Promise<void> {
     const event: RmaDiagnosedEvent = {
         eventType: 'RmaDiagnosed',
         version: '1.0',
@@ -115,10 +142,16 @@ export function emitRmaDiagnosed(rma: RmaEntity, diagnosis: DiagnosisEntity): vo
             resolution: diagnosis.resolution
         }
     };
+    await outbox.publish(tx, {
+        type: event.eventType,
+        aggregateType: 'Rma',
+        aggregateId: rma.id,
+        payload: event.payload
+    });
     console.log('[EVENT]', JSON.stringify(event, null, 2));
 }
 
-export function emitRmaResolved(rma: RmaEntity, resolution: string): void {
+export async function emitRmaResolved(tx: Prisma.TransactionClient, rma: RmaEntity, resolution: string): Promise<void> {
     const event: RmaResolvedEvent = {
         eventType: 'RmaResolved',
         version: '1.0',
@@ -129,5 +162,11 @@ export function emitRmaResolved(rma: RmaEntity, resolution: string): void {
             assetId: rma.assetId
         }
     };
+    await outbox.publish(tx, {
+        type: event.eventType,
+        aggregateType: 'Rma',
+        aggregateId: rma.id,
+        payload: event.payload
+    });
     console.log('[EVENT]', JSON.stringify(event, null, 2));
 }
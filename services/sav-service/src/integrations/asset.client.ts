@@ -28,7 +28,16 @@ export class AssetServiceError extends Error {
 
 export interface AssetServiceClient {
     getAsset(assetId: string): Promise<AssetResponse>;
-    updateStatus(assetId: string, status: string): Promise<AssetResponse>;
+    /**
+     * Transition du cycle de vie (gardes et codes motif vérifiés par l'Asset Service)
+     */
+    updateStatus(
+        assetId: string,
+        status: string,
+        reason?: string,
+        reasonCode?: string,
+        dataWipeCertificateRef?: string
+    ): Promise<AssetResponse>;
 }
 
 export class HttpAssetServiceClient implements AssetServiceClient {
@@ -52,11 +61,17 @@ export class HttpAssetServiceClient implements AssetServiceClient {
         return response.json() as Promise<AssetResponse>;
     }
 
-    async updateStatus(assetId: string, status: string): Promise<AssetResponse> {
+    async updateStatus(
+        assetId: string,
+        status: string,
+        reason?: string,
+        reasonCode?: string,
+        dataWipeCertificateRef?: string
+    ): Promise<AssetResponse> {
         const response = await fetch(`${this.baseUrl}/assets/${assetId}/status`, {
-            method: 'PATCH',
+            method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ status })
+            body: JSON.stringify({ newStatus: status, reason, reasonCode, dataWipeCertificateRef })
         });
 
         if (!response.ok) {
@@ -3,11 +3,12 @@
  * Couche d'accès aux données pour les diagnostics RMA
  */
 
-import { PrismaClient, RmaDiagnosis, ResolutionType } from '@prisma/client';
+import { Prisma, RmaDiagnosis, ResolutionType } from '@prisma/client';
 import { DiagnosisEntity } from '../domain/diagnosis.types';
 
 export class DiagnosisRepository {
-    constructor(private readonly prisma: PrismaClient) { }
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
 
     /**
      * Crée un diagnostic (append-only)
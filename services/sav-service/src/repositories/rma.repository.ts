@@ -3,11 +3,12 @@
  * Couche d'accès aux données pour les RMA
  */
 
-import { PrismaClient, Rma, RmaStatus } from '@prisma/client';
+import { Prisma, Rma, RmaStatus } from '@prisma/client';
 import { RmaEntity } from '../domain/rma.types';
 
 export class RmaRepository {
-    constructor(private readonly prisma: PrismaClient) { }
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
 
     /**
      * Crée un RMA
@@ -3,11 +3,12 @@
  * Couche d'accès aux données pour les tickets SAV
  */
 
-import { PrismaClient, SavTicket, TicketStatus } from '@prisma/client';
+import { Prisma, SavTicket, TicketStatus } from '@prisma/client';
 import { TicketEntity } from '../domain/ticket.types';
 
 export class TicketRepository {
-    constructor(private readonly prisma: PrismaClient) { }
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
 
     /**
      * Crée un ticket SAV
@@ -6,6 +6,7 @@
 import { PrismaClient } from '@prisma/client';
 import { createApp } from './app';
 import { logger } from './utils/logger';
+import { outbox } from './events/sav.events';
 
 const PORT = process.env.PORT ?? 3008;
 
@@ -29,14 +30,20 @@ async function main(): Promise<void> {
             logger.serverStart(Number(PORT));
         });
 
+        // Livraison des événements de l'outbox
+        const { dispatcher } = outbox.createDispatcher(prisma);
+        dispatcher.start();
+
         process.on('SIGINT', async () => {
             logger.serverShutdown();
+            dispatcher.stop();
             await prisma.$disconnect();
             process.exit(0);
         });
 
         process.on('SIGTERM', async () => {
             logger.serverShutdown();
+            dispatcher.stop();
             await prisma.$disconnect();
             process.exit(0);
         });
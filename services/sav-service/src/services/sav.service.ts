@@ -27,7 +27,16 @@ import {
     AssetNotSoldError,
     TicketNotFoundError
 } from '../domain/ticket.types';
-import { RmaEntity, RmaNotFoundError, InvalidRmaStatusError } from '../domain/rma.types';
+import {
+    RmaEntity,
+    ResolveRmaDto,
+    RMA_REPAIR_REASON_CODE,
+    SCRAP_REASON_CODES,
+    DEFAULT_SCRAP_REASON_CODE,
+    RmaNotFoundError,
+    InvalidRmaStatusError,
+    InvalidRmaResolutionError
+} from '../domain/rma.types';
 import { CreateDiagnosisDto, DiagnosisEntity, RmaNotReceivedError, RmaNotDiagnosedError } from '../domain/diagnosis.types';
 import {
     emitSavTicketCreated,
@@ -46,7 +55,7 @@ export class SavService {
     private readonly qualityClient: QualityServiceClient;
 
     constructor(
-        prisma: PrismaClient,
+        private readonly prisma: PrismaClient,
         assetClient?: AssetServiceClient,
         inventoryClient?: InventoryServiceClient,
         qualityClient?: QualityServiceClient
@@ -75,14 +84,16 @@ export class SavService {
         }
 
         // Créer le ticket en OPEN
-        const ticket = await this.ticketRepository.create(
-            dto.assetId,
-            dto.customerRef,
-            dto.issue
-        );
-
-        emitSavTicketCreated(ticket);
-        return ticket;
+        return this.prisma.$transaction(async (tx) => {
+            const ticket = await new TicketRepository(tx).create(
+                dto.assetId,
+                dto.customerRef,
+                dto.issue
+            );
+
+            await emitSavTicketCreated(tx, ticket);
+            return ticket;
+        });
     }
 
     /**
@@ -118,14 +129,16 @@ export class SavService {
         // Mettre l'Asset en RMA
         await this.assetClient.updateStatus(ticket.assetId, 'RMA');
 
-        // Créer le RMA
-        const rma = await this.rmaRepository.create(ticket.assetId, ticketId);
+        return this.prisma.$transaction(async (tx) => {
+            // Créer le RMA
+            const rma = await new RmaRepository(tx).create(ticket.assetId, ticketId);
 
-        // Mettre le ticket en IN_PROGRESS
-        await this.ticketRepository.updateStatus(ticketId, TicketStatus.IN_PROGRESS);
+            // Mettre le ticket en IN_PROGRESS
+            await new TicketRepository(tx).updateStatus(ticketId, TicketStatus.IN_PROGRESS);
 
-        emitRmaCreated(rma);
-        return rma;
+            await emitRmaCreated(tx, rma);
+            return rma;
+        });
     }
 
     /**
@@ -143,10 +156,12 @@ export class SavService {
         await this.inventoryClient.moveAsset(rma.assetId, 'RETURN', 'SAV_ZONE');
 
         // Mettre RMA en RECEIVED
-        const updatedRma = await this.rmaRepository.updateStatus(rmaId, RmaStatus.RECEIVED);
+        return this.prisma.$transaction(async (tx) => {
+            const updatedRma = await new RmaRepository(tx).updateStatus(rmaId, RmaStatus.RECEIVED);
 
-        emitRmaReceived(updatedRma);
-        return updatedRma;
+            await emitRmaReceived(tx, updatedRma);
+            return updatedRma;
+        });
     }
 
     /**
@@ -160,25 +175,32 @@ export class SavService {
             throw new RmaNotReceivedError(rmaId);
         }
 
-        // Créer le diagnostic (append-only)
-        const diagnosis = await this.diagnosisRepository.create(
-            rmaId,
-            dto.diagnosis,
-            dto.resolution
-        );
+        return this.prisma.$transaction(async (tx) => {
+            // Créer le diagnostic (append-only)
+            const diagnosis = await new DiagnosisRepository(tx).create(
+                rmaId,
+                dto.diagnosis,
+                dto.resolution
+            );
 
-        // Mettre RMA en DIAGNOSED
-        const updatedRma = await this.rmaRepository.updateStatus(rmaId, RmaStatus.DIAGNOSED);
+            // Mettre RMA en DIAGNOSED
+            const updatedRma = await new RmaRepository(tx).updateStatus(rmaId, RmaStatus.DIAGNOSED);
 
-        emitRmaDiagnosed(updatedRma, diagnosis);
-        return diagnosis;
+            await emitRmaDiagnosed(tx, updatedRma, diagnosis);
+            return diagnosis;
+        });
     }
 
     /**
      * Résolution d'un RMA
      * Étapes selon resolution : REPAIR, REPLACE, REFUND, SCRAP
+     *
+     * Les gardes de l'Asset Service s'appliquent :
+     * - REPAIR : RMA → QUALITY_PENDING, code RMA_REPAIR + certificat d'effacement
+     * - SCRAP : RMA → SCRAPPED, code motif de mise au rebut (défaut BEYOND_REPAIR)
+     * Un refus de l'Asset Service laisse le RMA DIAGNOSED.
      */
-    async resolveRma(rmaId: string): Promise<RmaEntity> {
+    async resolveRma(rmaId: string, dto: ResolveRmaDto = {}): Promise<RmaEntity> {
         const rma = await this.getRma(rmaId);
 
         if (rma.status !== RmaStatus.DIAGNOSED) {
@@ -192,18 +214,35 @@ export class SavService {
         }
 
         // Appliquer la résolution
+        const reason = `RMA ${rmaId} ${diagnosis.resolution}: ${diagnosis.diagnosis}`;
         switch (diagnosis.resolution) {
-            case ResolutionType.REPAIR:
+            case ResolutionType.REPAIR: {
+                const certificateRef = dto.dataWipeCertificateRef?.trim();
+                if (!certificateRef) {
+                    throw new InvalidRmaResolutionError(rmaId, 'dataWipeCertificateRef is required to repair');
+                }
+                // Asset → QUALITY_PENDING (avant le contrôle : un refus ne lance rien)
+                await this.assetClient.updateStatus(
+                    rma.assetId,
+                    'QUALITY_PENDING',
+                    reason,
+                    RMA_REPAIR_REASON_CODE,
+                    certificateRef
+                );
                 // Relancer cycle qualité
                 await this.qualityClient.initiateQualityCheck(rma.assetId, 'FULL');
-                // Asset → QUALITY_PENDING
-                await this.assetClient.updateStatus(rma.assetId, 'QUALITY_PENDING');
                 break;
+            }
 
-            case ResolutionType.SCRAP:
+            case ResolutionType.SCRAP: {
+                const reasonCode = dto.scrapReasonCode ?? DEFAULT_SCRAP_REASON_CODE;
+                if (!SCRAP_REASON_CODES.includes(reasonCode)) {
+                    throw new InvalidRmaResolutionError(rmaId, `Invalid scrap reason code: ${reasonCode}`);
+                }
                 // Asset → SCRAPPED
-                await this.assetClient.updateStatus(rma.assetId, 'SCRAPPED');
+                await this.assetClient.updateStatus(rma.assetId, 'SCRAPPED', reason, reasonCode);
                 break;
+            }
 
             case ResolutionType.REPLACE:
             case ResolutionType.REFUND:
@@ -211,17 +250,22 @@ export class SavService {
                 break;
         }
 
-        // RMA → RESOLVED
-        const updatedRma = await this.rmaRepository.updateStatus(rmaId, RmaStatus.RESOLVED);
+        return this.prisma.$transaction(async (tx) => {
+            const rmaRepository = new RmaRepository(tx);
+            const ticketRepository = new TicketRepository(tx);
 
-        // Fermer le ticket
-        const ticket = await this.ticketRepository.findById(rma.ticketId);
-        if (ticket) {
-            await this.ticketRepository.updateStatus(ticket.id, TicketStatus.CLOSED);
-        }
+            // RMA → RESOLVED
+            const updatedRma = await rmaRepository.updateStatus(rmaId, RmaStatus.RESOLVED);
+
+            // Fermer le ticket
+            const ticket = await ticketRepository.findById(rma.ticketId);
+            if (ticket) {
+                await ticketRepository.updateStatus(ticket.id, TicketStatus.CLOSED);
+            }
 
-        emitRmaResolved(updatedRma, diagnosis.resolution);
-        return updatedRma;
+            await emitRmaResolved(tx, updatedRma, diagnosis.resolution);
+            return updatedRma;
+        });
     }
 
     /**
@@ -9,10 +9,11 @@ import {
     AssetNotSoldError,
     TicketNotFoundError
 } from '../domain/ticket.types';
-import { AssetServiceClient, AssetResponse } from '../integrations/asset.client';
+import { AssetServiceClient, AssetResponse, AssetServiceError } from '../integrations/asset.client';
 import { InventoryServiceClient, MovementResponse } from '../integrations/inventory.client';
 import { QualityServiceClient, QualityCheckResponse } from '../integrations/quality.client';
 import { RmaNotReceivedError } from '../domain/diagnosis.types';
+import { InvalidRmaResolutionError } from '../domain/rma.types';
 
 // Mock PrismaClient
 const mockPrisma = {
@@ -32,7 +33,9 @@ const mockPrisma = {
         create: jest.fn(),
         findFirst: jest.fn(),
         findMany: jest.fn()
-    }
+    },
+    $executeRawUnsafe: jest.fn(),
+    $transaction: jest.fn()
 } as unknown as PrismaClient;
 
 // Mock des clients
@@ -76,6 +79,9 @@ describe('SavService', () => {
 
     beforeEach(() => {
         jest.clearAllMocks();
+        (mockPrisma.$transaction as jest.Mock).mockImplementation(
+            async (callback: (tx: PrismaClient) => Promise<unknown>) => callback(mockPrisma)
+        );
         service = new SavService(
             mockPrisma,
             mockAssetClient,
@@ -158,6 +164,52 @@ describe('SavService', () => {
             expect(mockPrisma.rma.create).toHaveBeenCalled();
             expect(console.log).toHaveBeenCalledWith('[EVENT]', expect.stringContaining('RmaCreated'));
         });
+
+        test('should_publish_rma_created_to_outbox_in_transaction', async () => {
+            // Arrange
+            (mockPrisma.savTicket.findUnique as jest.Mock).mockResolvedValue({
+                id: 'ticket-uuid-1',
+                assetId: 'asset-uuid-1',
+                customerRef: 'CLIENT-ACME',
+                issue: 'Server not booting',
+                status: TicketStatus.OPEN,
+                createdAt: new Date()
+            });
+            (mockPrisma.rma.create as jest.Mock).mockResolvedValue({
+                id: 'rma-uuid-1',
+                assetId: 'asset-uuid-1',
+                ticketId: 'ticket-uuid-1',
+                status: RmaStatus.CREATED,
+                createdAt: new Date()
+            });
+            (mockPrisma.savTicket.update as jest.Mock).mockResolvedValue({
+                id: 'ticket-uuid-1',
+                assetId: 'asset-uuid-1',
+                customerRef: 'CLIENT-ACME',
+                issue: 'Server not booting',
+                status: TicketStatus.IN_PROGRESS,
+                createdAt: new Date()
+            });
+
+            // Act
+            await service.createRma('ticket-uuid-1');
+
+            // Assert
+            expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+            expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
+                expect.stringContaining('INSERT INTO "outbox_events"'),
+                expect.any(String),
+                'RmaCreated',
+                1,
+                'sav-service',
+                'Rma',
+                'rma-uuid-1',
+                expect.any(String),
+                expect.any(String),
+                null,
+                JSON.stringify({ rmaId: 'rma-uuid-1', assetId: 'asset-uuid-1', ticketId: 'ticket-uuid-1' })
+            );
+        });
     });
 
     describe('RMA Reception', () => {
@@ -251,8 +303,13 @@ describe('SavService', () => {
     });
 
     describe('RMA Resolution', () => {
-        test('should_resolve_rma_with_repair_and_restart_quality', async () => {
-            // Arrange
+        // Gardes de l'Asset Service pour les transitions depuis RMA (assetTransitions.ts)
+        const RMA_TRANSITION_GUARDS: Record<string, { reasonCodes: string[]; dataWipeCertified: boolean }> = {
+            QUALITY_PENDING: { reasonCodes: ['RMA_REPAIR'], dataWipeCertified: true },
+            SCRAPPED: { reasonCodes: ['QA_FAILED', 'BEYOND_REPAIR', 'DAMAGED', 'OBSOLETE'], dataWipeCertified: false }
+        };
+
+        const arrangeDiagnosedRma = (resolution: ResolutionType): void => {
             (mockPrisma.rma.findUnique as jest.Mock).mockResolvedValue({
                 id: 'rma-uuid-1',
                 assetId: 'asset-uuid-1',
@@ -264,9 +321,28 @@ describe('SavService', () => {
                 id: 'diag-uuid-1',
                 rmaId: 'rma-uuid-1',
                 diagnosis: 'Faulty power supply',
-                resolution: ResolutionType.REPAIR,
+                resolution,
                 createdAt: new Date()
             });
+            (mockAssetClient.updateStatus as jest.Mock).mockImplementation(async (
+                assetId: string,
+                status: string,
+                _reason?: string,
+                reasonCode?: string,
+                dataWipeCertificateRef?: string
+            ) => {
+                const guard = RMA_TRANSITION_GUARDS[status];
+                if (!guard) {
+                    throw new AssetServiceError(422, `Transition RMA → ${status} not declared`);
+                }
+                if (!reasonCode || !guard.reasonCodes.includes(reasonCode)) {
+                    throw new AssetServiceError(400, `Reason code required: ${guard.reasonCodes.join(', ')}`);
+                }
+                if (guard.dataWipeCertified && !dataWipeCertificateRef) {
+                    throw new AssetServiceError(422, 'Guard DATA_WIPE_CERTIFIED failed');
+                }
+                return { ...soldAsset, id: assetId, status };
+            });
             (mockQualityClient.initiateQualityCheck as jest.Mock).mockResolvedValue({
                 id: 'check-uuid-1',
                 assetId: 'asset-uuid-1',
@@ -274,10 +350,6 @@ describe('SavService', () => {
                 status: 'PENDING',
                 createdAt: '2026-02-05T00:00:00Z'
             } as QualityCheckResponse);
-            (mockAssetClient.updateStatus as jest.Mock).mockResolvedValue({
-                ...soldAsset,
-                status: 'QUALITY_PENDING'
-            });
             (mockPrisma.rma.update as jest.Mock).mockResolvedValue({
                 id: 'rma-uuid-1',
                 status: RmaStatus.RESOLVED
@@ -290,57 +362,66 @@ describe('SavService', () => {
                 id: 'ticket-uuid-1',
                 status: TicketStatus.CLOSED
             });
+        };
+
+        test('should_resolve_rma_with_repair_and_restart_quality', async () => {
+            // Arrange
+            arrangeDiagnosedRma(ResolutionType.REPAIR);
 
             // Act
-            const rma = await service.resolveRma('rma-uuid-1');
+            const rma = await service.resolveRma('rma-uuid-1', { dataWipeCertificateRef: ' WIPE-2026-0042 ' });
 
-            // Assert
+            // Assert - RMA → QUALITY_PENDING accepté par les gardes
             expect(rma.status).toBe(RmaStatus.RESOLVED);
+            expect(mockAssetClient.updateStatus).toHaveBeenCalledWith(
+                'asset-uuid-1',
+                'QUALITY_PENDING',
+                'RMA rma-uuid-1 REPAIR: Faulty power supply',
+                'RMA_REPAIR',
+                'WIPE-2026-0042'
+            );
             expect(mockQualityClient.initiateQualityCheck).toHaveBeenCalledWith('asset-uuid-1', 'FULL');
-            expect(mockAssetClient.updateStatus).toHaveBeenCalledWith('asset-uuid-1', 'QUALITY_PENDING');
             expect(console.log).toHaveBeenCalledWith('[EVENT]', expect.stringContaining('RmaResolved'));
         });
 
+        test('should_require_data_wipe_certificate_to_repair', async () => {
+            // Arrange
+            arrangeDiagnosedRma(ResolutionType.REPAIR);
+
+            // Act & Assert - rien n'est appelé, le RMA reste DIAGNOSED
+            await expect(service.resolveRma('rma-uuid-1')).rejects.toThrow(InvalidRmaResolutionError);
+            expect(mockAssetClient.updateStatus).not.toHaveBeenCalled();
+            expect(mockQualityClient.initiateQualityCheck).not.toHaveBeenCalled();
+            expect(mockPrisma.rma.update).not.toHaveBeenCalled();
+        });
+
         test('should_scrap_asset_on_scrap_resolution', async () => {
             // Arrange
-            (mockPrisma.rma.findUnique as jest.Mock).mockResolvedValue({
-                id: 'rma-uuid-1',
-                assetId: 'asset-uuid-1',
-                ticketId: 'ticket-uuid-1',
-                status: RmaStatus.DIAGNOSED,
-                createdAt: new Date()
-            });
-            (mockPrisma.rmaDiagnosis.findFirst as jest.Mock).mockResolvedValue({
-                id: 'diag-uuid-1',
-                rmaId: 'rma-uuid-1',
-                diagnosis: 'Irreparable damage',
-                resolution: ResolutionType.SCRAP,
-                createdAt: new Date()
-            });
-            (mockAssetClient.updateStatus as jest.Mock).mockResolvedValue({
-                ...soldAsset,
-                status: 'SCRAPPED'
-            });
-            (mockPrisma.rma.update as jest.Mock).mockResolvedValue({
-                id: 'rma-uuid-1',
-                status: RmaStatus.RESOLVED
-            });
-            (mockPrisma.savTicket.findUnique as jest.Mock).mockResolvedValue({
-                id: 'ticket-uuid-1',
-                status: TicketStatus.IN_PROGRESS
-            });
-            (mockPrisma.savTicket.update as jest.Mock).mockResolvedValue({
-                id: 'ticket-uuid-1',
-                status: TicketStatus.CLOSED
-            });
+            arrangeDiagnosedRma(ResolutionType.SCRAP);
 
             // Act
             const rma = await service.resolveRma('rma-uuid-1');
 
-            // Assert
+            // Assert - code motif par défaut accepté par les gardes
             expect(rma.status).toBe(RmaStatus.RESOLVED);
-            expect(mockAssetClient.updateStatus).toHaveBeenCalledWith('asset-uuid-1', 'SCRAPPED');
+            expect(mockAssetClient.updateStatus).toHaveBeenCalledWith(
+                'asset-uuid-1',
+                'SCRAPPED',
+                'RMA rma-uuid-1 SCRAP: Faulty power supply',
+                'BEYOND_REPAIR'
+            );
             expect(mockQualityClient.initiateQualityCheck).not.toHaveBeenCalled();
         });
+
+        test('should_reject_unknown_scrap_reason_code', async () => {
+            // Arrange
+            arrangeDiagnosedRma(ResolutionType.SCRAP);
+
+            // Act & Assert
+            await expect(service.resolveRma('rma-uuid-1', { scrapReasonCode: 'CUSTOMER_REQUEST' }))
+                .rejects.toThrow(InvalidRmaResolutionError);
+            expect(mockAssetClient.updateStatus).not.toHaveBeenCalled();
+            expect(mockPrisma.rma.update).not.toHaveBeenCalled();
+        });
     });
 });
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "WmsTask" ADD COLUMN "orderId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "WmsTask_orderId_idx" ON "WmsTask"("orderId");
@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "TaskPriority" AS ENUM ('LOW', 'NORMAL', 'HIGH', 'URGENT');
+
+-- AlterTable
+ALTER TABLE "Operator" ADD COLUMN "skills" "TaskType"[] DEFAULT ARRAY[]::"TaskType"[],
+ADD COLUMN "certifications" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "homeZone" TEXT;
+
+-- AlterTable
+ALTER TABLE "WmsTask" ADD COLUMN "priority" "TaskPriority" NOT NULL DEFAULT 'NORMAL',
+ADD COLUMN "dueBy" TIMESTAMP(3),
+ADD COLUMN "zone" TEXT,
+ADD COLUMN "requiredCertification" TEXT;
+
+-- CreateIndex
+CREATE INDEX "WmsTask_status_priority_dueBy_idx" ON "WmsTask"("status", "priority", "dueBy");
+
+-- Les opérateurs existants restent polyvalents
+UPDATE "Operator" SET "skills" = ARRAY['PICKING', 'ASSEMBLY', 'QA', 'SHIPPING']::"TaskType"[];
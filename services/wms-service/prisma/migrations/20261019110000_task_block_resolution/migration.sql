@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "TaskBlockCause" AS ENUM ('INVALID_START_SCAN', 'INVALID_STEP_SCAN', 'UNKNOWN');
+
+-- CreateEnum
+CREATE TYPE "BlockResolutionCode" AS ENUM ('LABEL_REPRINTED', 'WRONG_ASSET_PRESENTED', 'ASSET_LOCATED', 'OPERATOR_ERROR', 'SYSTEM_ERROR', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "TaskBlock" (
+    "id" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "cause" "TaskBlockCause" NOT NULL,
+    "detail" TEXT,
+    "stepId" TEXT,
+    "previousStatus" "TaskStatus" NOT NULL,
+    "operatorId" TEXT,
+    "blockedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolutionCode" "BlockResolutionCode",
+    "resolutionNote" TEXT,
+    "resolvedBy" TEXT,
+    "decisionId" TEXT,
+    "resumedStatus" "TaskStatus",
+    "resumedOperatorId" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "TaskBlock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskBlock_taskId_idx" ON "TaskBlock"("taskId");
+
+-- CreateIndex
+CREATE INDEX "TaskBlock_resolvedAt_idx" ON "TaskBlock"("resolvedAt");
+
+-- AddForeignKey
+ALTER TABLE "TaskBlock" ADD CONSTRAINT "TaskBlock_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "WmsTask"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Les tâches déjà BLOCKED reçoivent un blocage ouvert de cause inconnue
+INSERT INTO "TaskBlock" ("id", "taskId", "cause", "previousStatus", "operatorId", "blockedAt")
+SELECT gen_random_uuid()::text,
+       "id",
+       'UNKNOWN',
+       CASE WHEN "startedAt" IS NULL THEN 'PENDING'::"TaskStatus" ELSE 'IN_PROGRESS'::"TaskStatus" END,
+       "operatorId",
+       COALESCE("startedAt", "createdAt")
+FROM "WmsTask"
+WHERE "status" = 'BLOCKED';
@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "PickBatchStatus" AS ENUM ('PLANNED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "WmsTask" ADD COLUMN "batchId" TEXT,
+ADD COLUMN "pickSequence" INTEGER,
+ADD COLUMN "locationCode" TEXT;
+
+-- CreateTable
+CREATE TABLE "PickWave" (
+    "id" TEXT NOT NULL,
+    "cutoffAt" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PickWave_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PickBatch" (
+    "id" TEXT NOT NULL,
+    "waveId" TEXT NOT NULL,
+    "zone" TEXT NOT NULL,
+    "status" "PickBatchStatus" NOT NULL DEFAULT 'PLANNED',
+    "operatorId" TEXT,
+    "blockedCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PickBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WmsTask_batchId_idx" ON "WmsTask"("batchId");
+
+-- CreateIndex
+CREATE INDEX "PickWave_cutoffAt_idx" ON "PickWave"("cutoffAt");
+
+-- CreateIndex
+CREATE INDEX "PickBatch_waveId_idx" ON "PickBatch"("waveId");
+
+-- CreateIndex
+CREATE INDEX "PickBatch_status_idx" ON "PickBatch"("status");
+
+-- CreateIndex
+CREATE INDEX "PickBatch_operatorId_idx" ON "PickBatch"("operatorId");
+
+-- AddForeignKey
+ALTER TABLE "WmsTask" ADD CONSTRAINT "WmsTask_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "PickBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PickBatch" ADD CONSTRAINT "PickBatch_waveId_fkey" FOREIGN KEY ("waveId") REFERENCES "PickWave"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
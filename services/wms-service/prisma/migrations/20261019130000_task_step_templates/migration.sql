@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "StepInputType" AS ENUM ('NONE', 'NUMBER', 'TEXT', 'BOOLEAN');
+
+-- AlterTable
+ALTER TABLE "TaskStep" ADD COLUMN "templateId" TEXT,
+ADD COLUMN "inputType" "StepInputType" NOT NULL DEFAULT 'NONE',
+ADD COLUMN "unit" TEXT,
+ADD COLUMN "minValue" DOUBLE PRECISION,
+ADD COLUMN "maxValue" DOUBLE PRECISION,
+ADD COLUMN "measuredValue" TEXT;
+
+-- CreateTable
+CREATE TABLE "TaskStepTemplate" (
+    "id" TEXT NOT NULL,
+    "taskType" "TaskType" NOT NULL,
+    "assetType" TEXT,
+    "customerId" TEXT,
+    "option" TEXT,
+    "scopeKey" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaskStepTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TaskStepTemplateStep" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "stepOrder" INTEGER NOT NULL,
+    "description" TEXT NOT NULL,
+    "scanRequired" BOOLEAN NOT NULL DEFAULT true,
+    "expectAssetScan" BOOLEAN NOT NULL DEFAULT false,
+    "expectedCode" TEXT,
+    "inputType" "StepInputType" NOT NULL DEFAULT 'NONE',
+    "unit" TEXT,
+    "minValue" DOUBLE PRECISION,
+    "maxValue" DOUBLE PRECISION,
+    "onlyIfOption" TEXT,
+    "unlessOption" TEXT,
+
+    CONSTRAINT "TaskStepTemplateStep_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskStepTemplate_taskType_scopeKey_idx" ON "TaskStepTemplate"("taskType", "scopeKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskStepTemplate_taskType_scopeKey_version_key" ON "TaskStepTemplate"("taskType", "scopeKey", "version");
+
+-- CreateIndex
+CREATE INDEX "TaskStepTemplateStep_templateId_idx" ON "TaskStepTemplateStep"("templateId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskStepTemplateStep_templateId_stepOrder_key" ON "TaskStepTemplateStep"("templateId", "stepOrder");
+
+-- AddForeignKey
+ALTER TABLE "TaskStepTemplateStep" ADD CONSTRAINT "TaskStepTemplateStep_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "TaskStepTemplate"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
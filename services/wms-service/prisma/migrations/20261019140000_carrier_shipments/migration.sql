@@ -0,0 +1,62 @@
+-- CreateEnum
+CREATE TYPE "PackageType" AS ENUM ('PARCEL', 'PALLET');
+
+-- CreateEnum
+CREATE TYPE "TrackingStatus" AS ENUM ('BOOKED', 'PICKED_UP', 'IN_TRANSIT', 'OUT_FOR_DELIVERY', 'DELIVERED', 'EXCEPTION');
+
+-- AlterTable
+ALTER TABLE "Shipment" ADD COLUMN "shipTo" JSONB,
+ADD COLUMN "labelPdf" BYTEA,
+ADD COLUMN "bookedAt" TIMESTAMP(3),
+ADD COLUMN "deliveredAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ShipmentParcel" (
+    "id" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "type" "PackageType" NOT NULL DEFAULT 'PARCEL',
+    "weightKg" DOUBLE PRECISION NOT NULL,
+    "lengthCm" INTEGER,
+    "widthCm" INTEGER,
+    "heightCm" INTEGER,
+    "trackingNumber" TEXT,
+
+    CONSTRAINT "ShipmentParcel_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShipmentTrackingEvent" (
+    "id" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "parcelId" TEXT,
+    "trackingNumber" TEXT NOT NULL,
+    "status" "TrackingStatus" NOT NULL,
+    "description" TEXT,
+    "location" TEXT,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShipmentTrackingEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Shipment_trackingRef_idx" ON "Shipment"("trackingRef");
+
+-- CreateIndex
+CREATE INDEX "ShipmentParcel_trackingNumber_idx" ON "ShipmentParcel"("trackingNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShipmentParcel_shipmentId_sequence_key" ON "ShipmentParcel"("shipmentId", "sequence");
+
+-- CreateIndex
+CREATE INDEX "ShipmentTrackingEvent_shipmentId_idx" ON "ShipmentTrackingEvent"("shipmentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShipmentTrackingEvent_dedup_key" ON "ShipmentTrackingEvent"("shipmentId", "trackingNumber", "status", "occurredAt");
+
+-- AddForeignKey
+ALTER TABLE "ShipmentParcel" ADD CONSTRAINT "ShipmentParcel_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShipmentTrackingEvent" ADD CONSTRAINT "ShipmentTrackingEvent_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
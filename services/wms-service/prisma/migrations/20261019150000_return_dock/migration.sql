@@ -0,0 +1,26 @@
+-- AlterEnum
+ALTER TYPE "ReturnStatus" ADD VALUE 'DISPOSED';
+
+-- CreateEnum
+CREATE TYPE "ReturnCondition" AS ENUM ('LIKE_NEW', 'USED', 'DAMAGED', 'INCOMPLETE');
+
+-- CreateEnum
+CREATE TYPE "ReturnDisposition" AS ENUM ('RESTOCK', 'REFURB', 'SCRAP', 'RETURN_TO_SUPPLIER');
+
+-- AlterTable
+ALTER TABLE "Return" ADD COLUMN "rmaId" TEXT,
+ADD COLUMN "serialNumber" TEXT,
+ADD COLUMN "condition" "ReturnCondition",
+ADD COLUMN "conditionNotes" TEXT,
+ADD COLUMN "photoUrls" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "receivedBy" TEXT,
+ADD COLUMN "receivedAt" TIMESTAMP(3),
+ADD COLUMN "qaTaskId" TEXT,
+ADD COLUMN "disposition" "ReturnDisposition",
+ADD COLUMN "dispositionNote" TEXT,
+ADD COLUMN "supplierRef" TEXT,
+ADD COLUMN "disposedBy" TEXT,
+ADD COLUMN "disposedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Return_rmaId_key" ON "Return"("rmaId");
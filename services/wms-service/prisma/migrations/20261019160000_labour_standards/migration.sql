@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "LabourStandard" (
+    "id" TEXT NOT NULL,
+    "taskType" "TaskType" NOT NULL,
+    "stepOrder" INTEGER NOT NULL,
+    "standardSeconds" INTEGER NOT NULL,
+    "updatedBy" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LabourStandard_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LabourStandard_taskType_stepOrder_key" ON "LabourStandard"("taskType", "stepOrder");
+
+-- CreateIndex
+CREATE INDEX "WmsTask_status_endedAt_idx" ON "WmsTask"("status", "endedAt");
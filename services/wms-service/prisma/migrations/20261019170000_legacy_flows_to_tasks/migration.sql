@@ -0,0 +1,101 @@
+-- AlterTable
+ALTER TABLE "Shipment" ADD COLUMN "taskId" TEXT;
+
+-- Ordres de picking v0 → tâches PICKING (même id)
+-- IN_PROGRESS repasse PENDING : aucun opérateur ni scan n'a été enregistré en v0
+INSERT INTO "WmsTask" ("id", "assetId", "type", "status", "createdAt", "endedAt")
+SELECT "id",
+       "assetId",
+       'PICKING',
+       CASE "status"
+           WHEN 'COMPLETED' THEN 'COMPLETED'::"TaskStatus"
+           WHEN 'FAILED' THEN 'BLOCKED'::"TaskStatus"
+           ELSE 'PENDING'::"TaskStatus"
+       END,
+       "createdAt",
+       CASE WHEN "status" = 'COMPLETED' THEN "createdAt" END
+FROM "PickingOrder"
+WHERE "id" NOT IN (SELECT "id" FROM "WmsTask");
+
+-- Étapes intégrées PICKING : l'étape « Scanner asset » attend l'assetId ; l'emplacement
+-- source n'était pas connu en v0 (aucun code attendu) ; ordres terminés : étapes closes sans scan
+INSERT INTO "TaskStep" ("id", "taskId", "stepOrder", "description", "scanRequired", "expectedCode", "completed")
+SELECT gen_random_uuid()::text,
+       p."id",
+       s."stepOrder",
+       s."description",
+       s."scanRequired",
+       CASE WHEN s."stepOrder" = 2 THEN p."assetId" END,
+       p."status" = 'COMPLETED'
+FROM "PickingOrder" p
+CROSS JOIN (VALUES
+    (1, 'Scanner emplacement source', true),
+    (2, 'Scanner asset', true),
+    (3, 'Confirmation visuelle', false)
+) AS s ("stepOrder", "description", "scanRequired")
+WHERE NOT EXISTS (SELECT 1 FROM "TaskStep" t WHERE t."taskId" = p."id");
+
+-- Ordres d'assemblage v0 → tâches ASSEMBLY (même id)
+INSERT INTO "WmsTask" ("id", "assetId", "type", "status", "createdAt", "endedAt")
+SELECT "id",
+       "assetId",
+       'ASSEMBLY',
+       CASE "status"
+           WHEN 'COMPLETED' THEN 'COMPLETED'::"TaskStatus"
+           WHEN 'FAILED' THEN 'BLOCKED'::"TaskStatus"
+           ELSE 'PENDING'::"TaskStatus"
+       END,
+       "createdAt",
+       CASE WHEN "status" = 'COMPLETED' THEN "createdAt" END
+FROM "AssemblyOrder"
+WHERE "id" NOT IN (SELECT "id" FROM "WmsTask");
+
+-- Étape 1 : scan de l'asset principal ; puis une étape scannée par tâche CTO
+INSERT INTO "TaskStep" ("id", "taskId", "stepOrder", "description", "scanRequired", "expectedCode", "completed")
+SELECT gen_random_uuid()::text, a."id", 1, 'Scanner asset principal', true, a."assetId", a."status" = 'COMPLETED'
+FROM "AssemblyOrder" a
+WHERE NOT EXISTS (SELECT 1 FROM "TaskStep" t WHERE t."taskId" = a."id");
+
+-- tasks contient le tableau sérialisé (chaîne JSON) ou le tableau lui-même
+INSERT INTO "TaskStep" ("id", "taskId", "stepOrder", "description", "scanRequired", "completed")
+SELECT gen_random_uuid()::text, a."id", (e."ordinality" + 1)::int, e."value", true, a."status" = 'COMPLETED'
+FROM "AssemblyOrder" a
+CROSS JOIN LATERAL jsonb_array_elements_text(
+    CASE jsonb_typeof(a."tasks"::jsonb)
+        WHEN 'string' THEN (a."tasks"::jsonb #>> '{}')::jsonb
+        ELSE a."tasks"::jsonb
+    END
+) WITH ORDINALITY AS e ("value", "ordinality")
+WHERE NOT EXISTS (SELECT 1 FROM "TaskStep" t WHERE t."taskId" = a."id" AND t."stepOrder" > 1);
+
+-- Ordres v0 FAILED : blocage ouvert de cause inconnue (résolution superviseur)
+INSERT INTO "TaskBlock" ("id", "taskId", "cause", "detail", "previousStatus", "blockedAt")
+SELECT gen_random_uuid()::text, "id", 'UNKNOWN', 'Legacy v0 order FAILED', 'PENDING', "createdAt"
+FROM "WmsTask"
+WHERE "status" = 'BLOCKED'
+  AND "id" IN (SELECT "id" FROM "PickingOrder" WHERE "status" = 'FAILED'
+               UNION SELECT "id" FROM "AssemblyOrder" WHERE "status" = 'FAILED')
+  AND NOT EXISTS (SELECT 1 FROM "TaskBlock" b WHERE b."taskId" = "WmsTask"."id" AND b."resolvedAt" IS NULL);
+
+-- Expéditions READY : tâche SHIPPING à exécuter avant l'envoi
+UPDATE "Shipment" SET "taskId" = gen_random_uuid()::text WHERE "status" = 'READY' AND "taskId" IS NULL;
+
+INSERT INTO "WmsTask" ("id", "assetId", "type", "status", "createdAt")
+SELECT "taskId", "assetId", 'SHIPPING', 'PENDING', "createdAt"
+FROM "Shipment"
+WHERE "status" = 'READY';
+
+INSERT INTO "TaskStep" ("id", "taskId", "stepOrder", "description", "scanRequired", "expectedCode")
+SELECT gen_random_uuid()::text,
+       sh."taskId",
+       s."stepOrder",
+       s."description",
+       s."scanRequired",
+       CASE s."stepOrder" WHEN 1 THEN sh."assetId" WHEN 2 THEN sh."trackingRef" END
+FROM "Shipment" sh
+CROSS JOIN (VALUES
+    (1, 'Scanner asset', true),
+    (2, 'Scanner étiquette colis', true),
+    (3, 'Confirmation expédition', false)
+) AS s ("stepOrder", "description", "scanRequired")
+WHERE sh."status" = 'READY';
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "HandheldEventType" AS ENUM ('START', 'STEP', 'COMPLETE');
+
+-- CreateEnum
+CREATE TYPE "SyncOutcome" AS ENUM ('APPLIED', 'CONFLICT', 'REJECTED', 'SKIPPED');
+
+-- CreateTable
+CREATE TABLE "HandheldSyncEvent" (
+    "id" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "operatorId" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "stepId" TEXT,
+    "type" "HandheldEventType" NOT NULL,
+    "capturedAt" TIMESTAMP(3) NOT NULL,
+    "outcome" "SyncOutcome" NOT NULL,
+    "reason" TEXT,
+    "syncedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "HandheldSyncEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "HandheldSyncEvent_deviceId_eventId_key" ON "HandheldSyncEvent"("deviceId", "eventId");
+
+-- CreateIndex
+CREATE INDEX "HandheldSyncEvent_taskId_idx" ON "HandheldSyncEvent"("taskId");
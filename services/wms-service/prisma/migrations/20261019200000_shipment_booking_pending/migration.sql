@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "ShipmentStatus" ADD VALUE 'PENDING' BEFORE 'READY';
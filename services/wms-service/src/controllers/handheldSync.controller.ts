@@ -0,0 +1,42 @@
+/**
+ * Handheld Sync Controller
+ * API de synchronisation des terminaux portables hors ligne
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { HandheldSyncService } from '../services/handheldSync.service';
+import { InvalidSyncRequestError } from '../domain/handheldSync.types';
+import { InventoryServiceError } from '../integrations/inventory.client';
+
+export class HandheldSyncController {
+    constructor(private readonly handheldSyncService: HandheldSyncService) { }
+
+    /**
+     * POST /wms/handhelds/sync
+     * Rejoue la file hors ligne d'un terminal, résultat par événement
+     */
+    sync = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { deviceId, operatorId, events } = req.body;
+
+            if (!Array.isArray(events)) {
+                res.status(400).json({ error: 'events must be an array' });
+                return;
+            }
+
+            const result = await this.handheldSyncService.sync({ deviceId, operatorId, events });
+            res.json(result);
+        } catch (error) {
+            if (error instanceof InvalidSyncRequestError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            if (error instanceof InventoryServiceError) {
+                // Détection des déplacements impossible : rien n'a été rejoué, le terminal réessaie
+                res.status(502).json({ error: error.message });
+                return;
+            }
+            next(error);
+        }
+    };
+}
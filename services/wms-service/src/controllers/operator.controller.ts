@@ -0,0 +1,115 @@
+/**
+ * Operator Controller
+ * API pour les opérateurs WMS et leur profil de dispatch
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { OperatorService } from '../services/operator.service';
+import { OperatorNotFoundError } from '../domain/task.types';
+import { DuplicateBadgeError, InvalidSkillError } from '../domain/operator.types';
+
+// Request with id param
+interface IdRequest extends Request {
+    params: { id: string };
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+export class OperatorController {
+    constructor(private readonly operatorService: OperatorService) { }
+
+    /**
+     * POST /wms/operators
+     * Crée un opérateur
+     */
+    createOperator = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { name, badge, skills, certifications, homeZone } = req.body;
+
+            if (!name || !badge) {
+                res.status(400).json({ error: 'name and badge are required' });
+                return;
+            }
+
+            if ((skills !== undefined && !isStringArray(skills))
+                || (certifications !== undefined && !isStringArray(certifications))) {
+                res.status(400).json({ error: 'skills and certifications must be arrays of strings' });
+                return;
+            }
+
+            if (homeZone !== undefined && typeof homeZone !== 'string') {
+                res.status(400).json({ error: 'homeZone must be a string' });
+                return;
+            }
+
+            const operator = await this.operatorService.createOperator({
+                name,
+                badge,
+                skills,
+                certifications,
+                homeZone
+            });
+            res.status(201).json(operator);
+        } catch (error) {
+            if (error instanceof InvalidSkillError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            if (error instanceof DuplicateBadgeError) {
+                res.status(409).json({ error: error.message });
+                return;
+            }
+            next(error);
+        }
+    };
+
+    /**
+     * GET /wms/operators
+     * Liste les opérateurs
+     */
+    listOperators = async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const operators = await this.operatorService.listOperators();
+            res.json(operators);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * PATCH /wms/operators/:id/profile
+     * Met à jour compétences, certifications et zone d'affectation
+     */
+    updateProfile = async (req: IdRequest, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { id } = req.params;
+            const { skills, certifications, homeZone } = req.body;
+
+            if ((skills !== undefined && !isStringArray(skills))
+                || (certifications !== undefined && !isStringArray(certifications))) {
+                res.status(400).json({ error: 'skills and certifications must be arrays of strings' });
+                return;
+            }
+
+            if (homeZone !== undefined && homeZone !== null && typeof homeZone !== 'string') {
+                res.status(400).json({ error: 'homeZone must be a string or null' });
+                return;
+            }
+
+            const operator = await this.operatorService.updateProfile(id, { skills, certifications, homeZone });
+            res.json(operator);
+        } catch (error) {
+            if (error instanceof OperatorNotFoundError) {
+                res.status(404).json({ error: error.message });
+                return;
+            }
+            if (error instanceof InvalidSkillError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            next(error);
+        }
+    };
+}
@@ -0,0 +1,145 @@
+/**
+ * Productivity Controller
+ * API d'analyse de productivité et standards de temps
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { TaskType } from '@prisma/client';
+import { ProductivityService } from '../services/productivity.service';
+import { Granularity, InvalidAnalyticsQueryError } from '../domain/productivity.types';
+
+const DEFAULT_RANGE_DAYS = 7;
+
+export class ProductivityController {
+    constructor(private readonly productivityService: ProductivityService) { }
+
+    /**
+     * GET /wms/analytics/productivity?from=&to=&granularity=DAY|WEEK&operatorId=&taskType=
+     * Agrégats par période, opérateur et type de tâche (défaut : 7 derniers jours, par jour)
+     */
+    getProductivity = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { operatorId, taskType } = req.query;
+            const granularity = (req.query.granularity ?? 'DAY') as Granularity;
+
+            if (granularity !== 'DAY' && granularity !== 'WEEK') {
+                res.status(400).json({ error: 'granularity must be DAY or WEEK' });
+                return;
+            }
+            if (taskType !== undefined && !Object.values(TaskType).includes(taskType as TaskType)) {
+                res.status(400).json({ error: `Invalid task type: ${String(taskType)}` });
+                return;
+            }
+
+            const { from, to } = this.parseRange(req);
+            const rows = await this.productivityService.getProductivity({
+                from,
+                to,
+                granularity,
+                operatorId: typeof operatorId === 'string' ? operatorId : undefined,
+                taskType: taskType as TaskType | undefined
+            });
+            res.json({ from, to, granularity, rows });
+        } catch (error) {
+            if (error instanceof InvalidAnalyticsQueryError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            next(error);
+        }
+    };
+
+    /**
+     * GET /wms/analytics/steps?from=&to=&taskType=
+     * Temps moyen par étape vs standard
+     */
+    getStepPerformance = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { taskType } = req.query;
+
+            if (taskType !== undefined && !Object.values(TaskType).includes(taskType as TaskType)) {
+                res.status(400).json({ error: `Invalid task type: ${String(taskType)}` });
+                return;
+            }
+
+            const { from, to } = this.parseRange(req);
+            const steps = await this.productivityService.getStepPerformance(from, to, taskType as TaskType | undefined);
+            res.json({ from, to, steps });
+        } catch (error) {
+            if (error instanceof InvalidAnalyticsQueryError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            next(error);
+        }
+    };
+
+    /**
+     * GET /wms/analytics/standards?taskType=
+     */
+    listStandards = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { taskType } = req.query;
+
+            if (taskType !== undefined && !Object.values(TaskType).includes(taskType as TaskType)) {
+                res.status(400).json({ error: `Invalid task type: ${String(taskType)}` });
+                return;
+            }
+
+            const standards = await this.productivityService.listStandards(taskType as TaskType | undefined);
+            res.json(standards);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * PUT /wms/analytics/standards
+     * Crée ou remplace des standards d'étapes
+     */
+    setStandards = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { standards, updatedBy } = req.body;
+
+            if (!Array.isArray(standards)) {
+                res.status(400).json({ error: 'standards must be an array of { taskType, stepOrder, standardSeconds }' });
+                return;
+            }
+
+            const saved = await this.productivityService.setStandards(standards, updatedBy);
+            res.json(saved);
+        } catch (error) {
+            if (error instanceof InvalidAnalyticsQueryError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            next(error);
+        }
+    };
+
+    /**
+     * GET /wms/analytics/kpi?period=DAILY|WEEKLY|MONTHLY
+     * KPIs pour observability-service
+     */
+    getKpi = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const period = typeof req.query.period === 'string' ? req.query.period : 'DAILY';
+            const snapshot = await this.productivityService.getKpiSnapshot(period);
+            res.json({ success: true, ...snapshot });
+        } catch (error) {
+            if (error instanceof InvalidAnalyticsQueryError) {
+                res.status(400).json({ success: false, error: error.message });
+                return;
+            }
+            next(error);
+        }
+    };
+
+    private parseRange(req: Request): { from: Date; to: Date } {
+        const to = req.query.to ? new Date(String(req.query.to)) : new Date();
+        const from = req.query.from
+            ? new Date(String(req.query.from))
+            : new Date(to.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+        return { from, to };
+    }
+}
@@ -0,0 +1,152 @@
+/**
+ * Return Dock Controller
+ * API du quai retours : réception contre RMA et destination
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ReturnDockService } from '../services/returnDock.service';
+import {
+    ReturnNotFoundError,
+    RmaNotFoundError,
+    RmaAlreadyReceivedError,
+    ReturnSerialMismatchError,
+    InvalidReturnRequestError,
+    ReturnDispositionError
+} from '../domain/return.types';
+import { InventoryServiceError } from '../integrations/inventory.client';
+import { AssetServiceError } from '../integrations/asset.client';
+import { SavServiceError } from '../integrations/sav.client';
+
+// Request with id param
+interface IdRequest extends Request {
+    params: { id: string };
+}
+
+interface RmaRequest extends Request {
+    params: { rmaId: string };
+}
+
+export class ReturnDockController {
+    constructor(private readonly returnDockService: ReturnDockService) { }
+
+    /**
+     * POST /wms/returns/receive
+     * Réception d'un retour contre un RMA
+     */
+    receiveReturn = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { rmaId, scannedSerial, condition, conditionNotes, photoUrls, reason, receivedBy } = req.body;
+
+            if (!rmaId || !scannedSerial || !condition || !receivedBy) {
+                res.status(400).json({ error: 'rmaId, scannedSerial, condition and receivedBy are required' });
+                return;
+            }
+            if (photoUrls !== undefined && !Array.isArray(photoUrls)) {
+                res.status(400).json({ error: 'photoUrls must be an array' });
+                return;
+            }
+
+            const ret = await this.returnDockService.receive({
+                rmaId,
+                scannedSerial: String(scannedSerial),
+                condition,
+                conditionNotes,
+                photoUrls,
+                reason,
+                receivedBy
+            });
+            res.status(201).json(ret);
+        } catch (error) {
+            if (error instanceof InvalidReturnRequestError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            if (error instanceof RmaNotFoundError) {
+                res.status(404).json({ error: error.message });
+                return;
+            }
+            if (error instanceof RmaAlreadyReceivedError) {
+                res.status(409).json({ error: error.message });
+                return;
+            }
+            if (error instanceof ReturnSerialMismatchError) {
+                res.status(422).json({ error: error.message, expected: error.expected, scanned: error.scanned });
+                return;
+            }
+            if (error instanceof SavServiceError || error instanceof AssetServiceError) {
+                res.status(502).json({ error: error.message, upstreamStatusCode: error.statusCode });
+                return;
+            }
+            next(error);
+        }
+    };
+
+    /**
+     * GET /wms/returns/rma/:rmaId
+     * Retour reçu pour un RMA
+     */
+    getReturnByRma = async (req: RmaRequest, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const ret = await this.returnDockService.getByRmaId(req.params.rmaId);
+            res.json(ret);
+        } catch (error) {
+            if (error instanceof RmaNotFoundError) {
+                res.status(404).json({ error: `No return received for RMA ${req.params.rmaId}` });
+                return;
+            }
+            next(error);
+        }
+    };
+
+    /**
+     * POST /wms/returns/:id/disposition
+     * Destination du retour après QA
+     */
+    disposeReturn = async (req: IdRequest, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const {
+                disposition,
+                decidedBy,
+                note,
+                toLocation,
+                supplierRef,
+                scrapReasonCode,
+                dataWipeCertificateRef
+            } = req.body;
+
+            if (!disposition || !decidedBy || !toLocation) {
+                res.status(400).json({ error: 'disposition, decidedBy and toLocation are required' });
+                return;
+            }
+
+            const ret = await this.returnDockService.dispose(req.params.id, {
+                disposition,
+                decidedBy,
+                note,
+                toLocation,
+                supplierRef,
+                scrapReasonCode,
+                dataWipeCertificateRef
+            });
+            res.json(ret);
+        } catch (error) {
+            if (error instanceof InvalidReturnRequestError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            if (error instanceof ReturnNotFoundError) {
+                res.status(404).json({ error: error.message });
+                return;
+            }
+            if (error instanceof ReturnDispositionError) {
+                res.status(409).json({ error: error.message });
+                return;
+            }
+            if (error instanceof AssetServiceError || error instanceof InventoryServiceError) {
+                res.status(502).json({ error: error.message, upstreamStatusCode: error.statusCode });
+                return;
+            }
+            next(error);
+        }
+    };
+}
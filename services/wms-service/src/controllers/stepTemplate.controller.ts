@@ -0,0 +1,128 @@
+/**
+ * Step Template Controller
+ * API pour les templates d'étapes versionnés
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { TaskType } from '@prisma/client';
+import { StepTemplateService } from '../services/stepTemplate.service';
+import {
+    StepTemplateNotFoundError,
+    InvalidStepTemplateError,
+    StepTemplateVersionConflictError
+} from '../domain/stepTemplate.types';
+
+// Request with id param
+interface IdRequest extends Request {
+    params: { id: string };
+}
+
+export class StepTemplateController {
+    constructor(private readonly stepTemplateService: StepTemplateService) { }
+
+    /**
+     * POST /wms/step-templates
+     * Crée la version suivante d'un template
+     */
+    createTemplate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { taskType, assetType, customerId, option, createdBy, steps } = req.body;
+
+            if (!taskType || !Array.isArray(steps)) {
+                res.status(400).json({ error: 'taskType and steps are required' });
+                return;
+            }
+
+            if (!steps.every((step: unknown) => typeof step === 'object' && step !== null
+                && Number.isInteger((step as { stepOrder?: unknown }).stepOrder))) {
+                res.status(400).json({ error: 'each step needs an integer stepOrder' });
+                return;
+            }
+
+            const template = await this.stepTemplateService.createVersion({
+                taskType,
+                assetType,
+                customerId,
+                option,
+                createdBy,
+                steps
+            });
+            res.status(201).json(template);
+        } catch (error) {
+            if (error instanceof InvalidStepTemplateError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            if (error instanceof StepTemplateVersionConflictError) {
+                res.status(409).json({ error: error.message });
+                return;
+            }
+            next(error);
+        }
+    };
+
+    /**
+     * GET /wms/step-templates?taskType=
+     * Liste les versions
+     */
+    listTemplates = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { taskType } = req.query;
+
+            if (taskType !== undefined && !Object.values(TaskType).includes(taskType as TaskType)) {
+                res.status(400).json({ error: `Invalid task type: ${String(taskType)}` });
+                return;
+            }
+
+            const templates = await this.stepTemplateService.listTemplates(taskType as TaskType | undefined);
+            res.json(templates);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * GET /wms/step-templates/preview?taskType=&assetId=&assetType=&customerId=&options=A,B
+     * Étapes qu'instancierait la création d'une tâche
+     */
+    previewSteps = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { taskType, assetId, assetType, customerId, options } = req.query;
+
+            if (typeof taskType !== 'string' || !Object.values(TaskType).includes(taskType as TaskType)) {
+                res.status(400).json({ error: 'taskType query parameter is required' });
+                return;
+            }
+
+            const preview = await this.stepTemplateService.preview(
+                taskType as TaskType,
+                typeof assetId === 'string' ? assetId : '',
+                {
+                    assetType: typeof assetType === 'string' ? assetType : undefined,
+                    customerId: typeof customerId === 'string' ? customerId : undefined,
+                    options: typeof options === 'string' && options ? options.split(',') : undefined
+                }
+            );
+            res.json(preview);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * GET /wms/step-templates/:id
+     * Récupère une version
+     */
+    getTemplate = async (req: IdRequest, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const template = await this.stepTemplateService.getTemplate(req.params.id);
+            res.json(template);
+        } catch (error) {
+            if (error instanceof StepTemplateNotFoundError) {
+                res.status(404).json({ error: error.message });
+                return;
+            }
+            next(error);
+        }
+    };
+}
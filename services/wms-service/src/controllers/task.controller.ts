@@ -5,7 +5,7 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { TaskService } from '../services/task.service';
-import { TaskType } from '@prisma/client';
+import { TaskType, TaskPriority, TaskStatus, BlockResolutionCode } from '@prisma/client';
 import {
     InvalidScanError,
     TaskNotPendingError,
@@ -14,8 +14,17 @@ import {
     StepNotFoundError,
     IncompleteStepsError,
     TaskNotInProgressError,
-    OperatorNotFoundError
+    OperatorNotFoundError,
+    OperatorNotQualifiedError,
+    InvalidStepInputError
 } from '../domain/task.types';
+import {
+    TaskNotBlockedError,
+    InvalidBlockResolutionError,
+    ResolutionNotAuthorizedError
+} from '../domain/taskBlock.types';
+import { TaskInBatchError } from '../domain/wave.types';
+import { GovernanceServiceError } from '../integrations/governance.client';
 
 // Request with id param
 interface IdRequest extends Request {
@@ -29,11 +38,14 @@ export class TaskController {
 
     /**
      * POST /wms/tasks
-     * Crée une nouvelle tâche
+     * Crée une nouvelle tâche (échéance et priorité dérivées de promisedDate)
      */
     createTask = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
         try {
-            const { assetId, type } = req.body;
+            const {
+                assetId, type, orderId, promisedDate, priority, zone, requiredCertification,
+                assetType, customerId, options
+            } = req.body;
 
             if (!assetId || !type) {
                 res.status(400).json({ error: 'assetId and type are required' });
@@ -45,13 +57,80 @@ export class TaskController {
                 return;
             }
 
-            const task = await this.taskService.createTask(assetId, type as TaskType);
+            if (orderId !== undefined && typeof orderId !== 'string') {
+                res.status(400).json({ error: 'orderId must be a string' });
+                return;
+            }
+
+            const promised = promisedDate !== undefined ? new Date(promisedDate) : undefined;
+            if (promised && isNaN(promised.getTime())) {
+                res.status(400).json({ error: 'promisedDate must be an ISO date' });
+                return;
+            }
+
+            if (priority !== undefined && !Object.values(TaskPriority).includes(priority)) {
+                res.status(400).json({ error: `Invalid priority: ${priority}` });
+                return;
+            }
+
+            if ((zone !== undefined && typeof zone !== 'string')
+                || (requiredCertification !== undefined && typeof requiredCertification !== 'string')) {
+                res.status(400).json({ error: 'zone and requiredCertification must be strings' });
+                return;
+            }
+
+            if ((assetType !== undefined && typeof assetType !== 'string')
+                || (customerId !== undefined && typeof customerId !== 'string')) {
+                res.status(400).json({ error: 'assetType and customerId must be strings' });
+                return;
+            }
+
+            if (options !== undefined
+                && !(Array.isArray(options) && options.every((o: unknown) => typeof o === 'string'))) {
+                res.status(400).json({ error: 'options must be an array of strings' });
+                return;
+            }
+
+            const task = await this.taskService.createTask(assetId, type as TaskType, orderId, {
+                promisedDate: promised,
+                priority: priority as TaskPriority | undefined,
+                zone,
+                requiredCertification,
+                assetType,
+                customerId,
+                options
+            });
             res.status(201).json(task);
         } catch (error) {
             next(error);
         }
     };
 
+    // ========== LIST TASKS ==========
+
+    /**
+     * GET /wms/tasks?orderId=xxx&assetId=yyy
+     * Liste les tâches d'une commande et/ou d'un asset
+     */
+    listTasks = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { orderId, assetId } = req.query;
+
+            if (typeof orderId !== 'string' && typeof assetId !== 'string') {
+                res.status(400).json({ error: 'orderId or assetId query parameter is required' });
+                return;
+            }
+
+            const tasks = await this.taskService.listTasks({
+                orderId: typeof orderId === 'string' ? orderId : undefined,
+                assetId: typeof assetId === 'string' ? assetId : undefined
+            });
+            res.json(tasks);
+        } catch (error) {
+            next(error);
+        }
+    };
+
     // ========== GET NEXT TASK ==========
 
     /**
@@ -88,6 +167,38 @@ export class TaskController {
         }
     };
 
+    // ========== QUEUE ==========
+
+    /**
+     * GET /wms/tasks/queue?operatorId=xxx&limit=50
+     * File classée (d'un opérateur, ou globale sans operatorId)
+     */
+    getQueue = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { operatorId, limit } = req.query;
+
+            if (operatorId !== undefined && typeof operatorId !== 'string') {
+                res.status(400).json({ error: 'operatorId must be a string' });
+                return;
+            }
+
+            const parsedLimit = limit !== undefined ? Number(limit) : 50;
+            if (!Number.isInteger(parsedLimit) || parsedLimit <= 0) {
+                res.status(400).json({ error: 'limit must be a positive integer' });
+                return;
+            }
+
+            const queue = await this.taskService.getQueue(operatorId, parsedLimit);
+            res.json(queue);
+        } catch (error) {
+            if (error instanceof OperatorNotFoundError) {
+                res.status(404).json({ error: error.message });
+                return;
+            }
+            next(error);
+        }
+    };
+
     // ========== START TASK ==========
 
     /**
@@ -115,6 +226,10 @@ export class TaskController {
                 res.status(409).json({ error: error.message });
                 return;
             }
+            if (error instanceof TaskInBatchError) {
+                res.status(409).json({ error: error.message, batchId: error.batchId });
+                return;
+            }
             if (error instanceof OperatorNotFoundError) {
                 res.status(404).json({ error: error.message });
                 return;
@@ -123,6 +238,10 @@ export class TaskController {
                 res.status(409).json({ error: error.message });
                 return;
             }
+            if (error instanceof OperatorNotQualifiedError) {
+                res.status(403).json({ error: error.message, missing: error.missing });
+                return;
+            }
             if (error instanceof InvalidScanError) {
                 res.status(422).json({
                     error: error.message,
@@ -145,14 +264,23 @@ export class TaskController {
     executeStep = async (req: IdRequest, res: Response, next: NextFunction): Promise<void> => {
         try {
             const { id } = req.params;
-            const { stepId, scanCode } = req.body;
+            const { stepId, scanCode, measuredValue } = req.body;
+
+            if (!stepId || (!scanCode && measuredValue === undefined)) {
+                res.status(400).json({ error: 'stepId and scanCode or measuredValue are required' });
+                return;
+            }
 
-            if (!stepId || !scanCode) {
-                res.status(400).json({ error: 'stepId and scanCode are required' });
+            if (measuredValue !== undefined && !['string', 'number', 'boolean'].includes(typeof measuredValue)) {
+                res.status(400).json({ error: 'measuredValue must be a string, number or boolean' });
                 return;
             }
 
-            const step = await this.taskService.executeStep(id, { stepId, scanCode });
+            const step = await this.taskService.executeStep(id, {
+                stepId,
+                scanCode,
+                measuredValue: measuredValue !== undefined ? String(measuredValue) : undefined
+            });
             res.json(step);
         } catch (error) {
             if (error instanceof TaskNotFoundError) {
@@ -167,6 +295,10 @@ export class TaskController {
                 res.status(404).json({ error: error.message });
                 return;
             }
+            if (error instanceof InvalidStepInputError) {
+                res.status(422).json({ error: error.message, reason: error.reason, blocked: false });
+                return;
+            }
             if (error instanceof InvalidScanError) {
                 res.status(422).json({
                     error: error.message,
@@ -212,6 +344,92 @@ export class TaskController {
         }
     };
 
+    // ========== BLOCKED TASKS ==========
+
+    /**
+     * GET /wms/tasks/blocked
+     * Tableau de bord des tâches bloquées (âge, cause)
+     */
+    getBlockedTasks = async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const dashboard = await this.taskService.getBlockedTasksDashboard();
+            res.json(dashboard);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * POST /wms/tasks/:id/resolve-block
+     * Débloque une tâche (décision superviseur tracée en gouvernance)
+     */
+    resolveBlock = async (req: IdRequest, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { id } = req.params;
+            const { supervisorId, reasonCode, note, resumeStatus, reassignToOperatorId } = req.body;
+
+            if (!supervisorId || !reasonCode || !resumeStatus) {
+                res.status(400).json({ error: 'supervisorId, reasonCode and resumeStatus are required' });
+                return;
+            }
+
+            if (!Object.values(BlockResolutionCode).includes(reasonCode)) {
+                res.status(400).json({ error: `Invalid reasonCode: ${reasonCode}` });
+                return;
+            }
+
+            if (resumeStatus !== TaskStatus.PENDING && resumeStatus !== TaskStatus.IN_PROGRESS) {
+                res.status(400).json({ error: 'resumeStatus must be PENDING or IN_PROGRESS' });
+                return;
+            }
+
+            if ((note !== undefined && typeof note !== 'string')
+                || (reassignToOperatorId !== undefined && typeof reassignToOperatorId !== 'string')) {
+                res.status(400).json({ error: 'note and reassignToOperatorId must be strings' });
+                return;
+            }
+
+            const result = await this.taskService.resolveBlock(id, {
+                supervisorId,
+                reasonCode,
+                note,
+                resumeStatus,
+                reassignToOperatorId
+            });
+            res.json(result);
+        } catch (error) {
+            if (error instanceof TaskNotFoundError || error instanceof OperatorNotFoundError) {
+                res.status(404).json({ error: error.message });
+                return;
+            }
+            if (error instanceof InvalidBlockResolutionError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            if (error instanceof TaskNotBlockedError) {
+                res.status(409).json({ error: error.message, currentStatus: error.currentStatus });
+                return;
+            }
+            if (error instanceof OperatorBusyError) {
+                res.status(409).json({ error: error.message, currentTaskId: error.currentTaskId });
+                return;
+            }
+            if (error instanceof OperatorNotQualifiedError) {
+                res.status(403).json({ error: error.message, missing: error.missing });
+                return;
+            }
+            if (error instanceof ResolutionNotAuthorizedError) {
+                res.status(403).json({ error: error.message });
+                return;
+            }
+            if (error instanceof GovernanceServiceError) {
+                res.status(502).json({ error: error.message, upstreamStatusCode: error.statusCode });
+                return;
+            }
+            next(error);
+        }
+    };
+
     // ========== GET TASK DETAILS ==========
 
     /**
@@ -0,0 +1,212 @@
+/**
+ * Wave Controller
+ * API pour les vagues de préparation et le picking groupé
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { WaveService } from '../services/wave.service';
+import {
+    InvalidScanError,
+    OperatorBusyError,
+    OperatorNotFoundError,
+    OperatorNotQualifiedError
+} from '../domain/task.types';
+import {
+    WaveNotFoundError,
+    PickBatchNotFoundError,
+    EmptyWaveError,
+    PickBatchStatusError,
+    BatchOperatorMismatchError
+} from '../domain/wave.types';
+import { InventoryServiceError } from '../integrations/inventory.client';
+
+// Request with id param
+interface IdRequest extends Request {
+    params: { id: string };
+}
+
+// Request with batchId param
+interface BatchRequest extends Request {
+    params: { batchId: string };
+}
+
+function isPositiveInteger(value: unknown): boolean {
+    return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+export class WaveController {
+    constructor(private readonly waveService: WaveService) { }
+
+    /**
+     * POST /wms/waves/plan
+     * Planifie une vague pour une coupure transporteur
+     */
+    planWave = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { cutoffAt, maxTasksPerBatch, maxOrdersPerBatch, createdBy } = req.body;
+
+            if (!cutoffAt) {
+                res.status(400).json({ error: 'cutoffAt is required' });
+                return;
+            }
+
+            const cutoff = new Date(cutoffAt);
+            if (isNaN(cutoff.getTime())) {
+                res.status(400).json({ error: 'cutoffAt must be an ISO date' });
+                return;
+            }
+
+            if ((maxTasksPerBatch !== undefined && !isPositiveInteger(maxTasksPerBatch))
+                || (maxOrdersPerBatch !== undefined && !isPositiveInteger(maxOrdersPerBatch))) {
+                res.status(400).json({ error: 'maxTasksPerBatch and maxOrdersPerBatch must be positive integers' });
+                return;
+            }
+
+            const wave = await this.waveService.planWave({
+                cutoffAt: cutoff,
+                maxTasksPerBatch,
+                maxOrdersPerBatch,
+                createdBy
+            });
+            res.status(201).json(wave);
+        } catch (error) {
+            if (error instanceof EmptyWaveError) {
+                res.status(422).json({ error: error.message });
+                return;
+            }
+            if (error instanceof InventoryServiceError) {
+                res.status(502).json({ error: error.message });
+                return;
+            }
+            next(error);
+        }
+    };
+
+    /**
+     * GET /wms/waves/:id
+     * Vague avec ses lots et leur progression
+     */
+    getWave = async (req: IdRequest, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const wave = await this.waveService.getWave(req.params.id);
+            res.json(wave);
+        } catch (error) {
+            if (error instanceof WaveNotFoundError) {
+                res.status(404).json({ error: error.message });
+                return;
+            }
+            next(error);
+        }
+    };
+
+    /**
+     * GET /wms/waves/batches/:batchId
+     * Lot avec sa liste de prélèvement (ordre du chemin)
+     */
+    getBatch = async (req: BatchRequest, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const batch = await this.waveService.getBatch(req.params.batchId);
+            res.json(batch);
+        } catch (error) {
+            if (error instanceof PickBatchNotFoundError) {
+                res.status(404).json({ error: error.message });
+                return;
+            }
+            next(error);
+        }
+    };
+
+    /**
+     * POST /wms/waves/batches/:batchId/start
+     * Attribue le lot à un opérateur et démarre ses tâches
+     */
+    startBatch = async (req: BatchRequest, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { operatorId } = req.body;
+
+            if (!operatorId) {
+                res.status(400).json({ error: 'operatorId is required' });
+                return;
+            }
+
+            const batch = await this.waveService.startBatch(req.params.batchId, operatorId);
+            res.json(batch);
+        } catch (error) {
+            if (error instanceof PickBatchNotFoundError || error instanceof OperatorNotFoundError) {
+                res.status(404).json({ error: error.message });
+                return;
+            }
+            if (error instanceof PickBatchStatusError || error instanceof OperatorBusyError) {
+                res.status(409).json({ error: error.message });
+                return;
+            }
+            if (error instanceof OperatorNotQualifiedError) {
+                res.status(403).json({ error: error.message, missing: error.missing });
+                return;
+            }
+            next(error);
+        }
+    };
+
+    /**
+     * POST /wms/waves/batches/:batchId/picks
+     * Prélève le prochain asset du chemin (scan obligatoire)
+     */
+    recordPick = async (req: BatchRequest, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { operatorId, scanCode, locationCode } = req.body;
+
+            if (!operatorId || !scanCode) {
+                res.status(400).json({ error: 'operatorId and scanCode are required' });
+                return;
+            }
+
+            const batch = await this.waveService.recordPick(req.params.batchId, {
+                operatorId,
+                scanCode,
+                locationCode
+            });
+            res.json(batch);
+        } catch (error) {
+            if (error instanceof PickBatchNotFoundError) {
+                res.status(404).json({ error: error.message });
+                return;
+            }
+            if (error instanceof PickBatchStatusError || error instanceof BatchOperatorMismatchError) {
+                res.status(409).json({ error: error.message });
+                return;
+            }
+            if (error instanceof InvalidScanError) {
+                res.status(422).json({
+                    error: error.message,
+                    expected: error.expected,
+                    received: error.received,
+                    blocked: true
+                });
+                return;
+            }
+            next(error);
+        }
+    };
+
+    /**
+     * POST /wms/waves/batches/:batchId/cancel
+     * Annule un lot non démarré (tâches rendues au dispatch individuel)
+     */
+    cancelBatch = async (req: BatchRequest, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const batch = await this.waveService.cancelBatch(req.params.batchId);
+            res.json(batch);
+        } catch (error) {
+            if (error instanceof PickBatchNotFoundError) {
+                res.status(404).json({ error: error.message });
+                return;
+            }
+            if (error instanceof PickBatchStatusError) {
+                res.status(409).json({ error: error.message });
+                return;
+            }
+            next(error);
+        }
+    };
+}
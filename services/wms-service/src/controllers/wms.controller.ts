@@ -5,7 +5,7 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { WmsService } from '../services/wms.service';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, TrackingStatus } from '@prisma/client';
 import {
     AssetNotReservedForPickingError,
     PickingOrderNotFoundError,
@@ -18,11 +18,31 @@ import {
     InvalidAssemblyStatusError
 } from '../domain/assembly.types';
 import {
+    CreateShipmentDto,
+    ShipmentNotFoundError,
+    ShipmentAlreadyExistsError,
     PickingNotCompletedError,
-    AssemblyNotCompletedError
+    AssemblyNotCompletedError,
+    InvalidShipmentRequestError,
+    UnknownCarrierError,
+    ShipmentLabelNotFoundError,
+    ShippingTaskNotCompletedError
 } from '../domain/shipment.types';
+import {
+    ScanOverrideDto,
+    InvalidScanError,
+    IncompleteStepsError,
+    OperatorNotFoundError,
+    OperatorBusyError,
+    OperatorNotQualifiedError,
+    InvalidScanOverrideError,
+    ScanOverrideNotAuthorizedError
+} from '../domain/task.types';
+import { TaskInBatchError } from '../domain/wave.types';
 import { InventoryServiceError } from '../integrations/inventory.client';
 import { AssetServiceError } from '../integrations/asset.client';
+import { GovernanceServiceError } from '../integrations/governance.client';
+import { CarrierError } from '../integrations/carrier.adapter';
 
 export class WmsController {
     private readonly wmsService: WmsService;
@@ -35,13 +55,19 @@ export class WmsController {
 
     createPickingOrder = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
         try {
-            const assetId = req.body.assetId;
+            const { assetId, promisedDate } = req.body;
             if (!assetId) {
                 res.status(400).json({ error: 'ValidationError', message: 'assetId is required' });
                 return;
             }
 
-            const picking = await this.wmsService.createPickingOrder({ assetId });
+            const promised = promisedDate !== undefined ? new Date(promisedDate) : undefined;
+            if (promised && isNaN(promised.getTime())) {
+                res.status(400).json({ error: 'ValidationError', message: 'promisedDate must be an ISO date' });
+                return;
+            }
+
+            const picking = await this.wmsService.createPickingOrder({ assetId, promisedDate: promised });
             res.status(201).json(picking);
         } catch (error) {
             this.handleError(error, res, next);
@@ -71,7 +97,14 @@ export class WmsController {
                 return;
             }
 
-            const picking = await this.wmsService.startPicking(pickingId);
+            // Sans scan : démarrage v0
+            const { operatorId, scanCode } = req.body ?? {};
+            if (!operatorId !== !scanCode) {
+                res.status(400).json({ error: 'ValidationError', message: 'operatorId and scanCode go together' });
+                return;
+            }
+
+            const picking = await this.wmsService.startPicking(pickingId, operatorId ? { operatorId, scanCode } : undefined);
             res.status(200).json(picking);
         } catch (error) {
             this.handleError(error, res, next);
@@ -86,7 +119,13 @@ export class WmsController {
                 return;
             }
 
-            const picking = await this.wmsService.completePicking(pickingId);
+            // Sans opérateur : dérogation superviseur { supervisorId, reason }
+            const override = this.readScanOverride(req, res, false);
+            if (override === null) {
+                return;
+            }
+
+            const picking = await this.wmsService.completePicking(pickingId, override);
             res.status(200).json(picking);
         } catch (error) {
             this.handleError(error, res, next);
@@ -137,7 +176,14 @@ export class WmsController {
                 return;
             }
 
-            const assembly = await this.wmsService.startAssembly(assemblyId);
+            // Sans scan : démarrage v0
+            const { operatorId, scanCode } = req.body ?? {};
+            if (!operatorId !== !scanCode) {
+                res.status(400).json({ error: 'ValidationError', message: 'operatorId and scanCode go together' });
+                return;
+            }
+
+            const assembly = await this.wmsService.startAssembly(assemblyId, operatorId ? { operatorId, scanCode } : undefined);
             res.status(200).json(assembly);
         } catch (error) {
             this.handleError(error, res, next);
@@ -152,7 +198,13 @@ export class WmsController {
                 return;
             }
 
-            const assembly = await this.wmsService.completeAssembly(assemblyId);
+            // Sans opérateur : dérogation superviseur { supervisorId, reason }
+            const override = this.readScanOverride(req, res, false);
+            if (override === null) {
+                return;
+            }
+
+            const assembly = await this.wmsService.completeAssembly(assemblyId, override);
             res.status(200).json(assembly);
         } catch (error) {
             this.handleError(error, res, next);
@@ -163,17 +215,32 @@ export class WmsController {
 
     createShipment = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
         try {
-            const { assetId, carrier } = req.body;
-            if (!assetId) {
-                res.status(400).json({ error: 'ValidationError', message: 'assetId is required' });
+            const dto = this.readShipmentDto(req, res);
+            if (!dto) {
                 return;
             }
-            if (!carrier) {
-                res.status(400).json({ error: 'ValidationError', message: 'carrier is required' });
+
+            // Tâche SHIPPING close sans scan : dérogation superviseur obligatoire
+            const override = this.readScanOverride(req, res, true);
+            if (!override) {
                 return;
             }
 
-            const shipment = await this.wmsService.createShipment({ assetId, carrier });
+            const shipment = await this.wmsService.createShipment(dto, override);
+            res.status(201).json(shipment);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    prepareShipment = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const dto = this.readShipmentDto(req, res);
+            if (!dto) {
+                return;
+            }
+
+            const shipment = await this.wmsService.prepareShipment(dto);
             res.status(201).json(shipment);
         } catch (error) {
             this.handleError(error, res, next);
@@ -199,6 +266,100 @@ export class WmsController {
         }
     };
 
+    dispatchShipment = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const shipmentId = req.params.id;
+            if (!shipmentId) {
+                res.status(400).json({ error: 'ValidationError', message: 'id is required' });
+                return;
+            }
+
+            const shipment = await this.wmsService.dispatchShipment(shipmentId);
+            res.status(200).json(shipment);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    getShipmentLabel = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const shipmentId = req.params.id;
+            if (!shipmentId) {
+                res.status(400).json({ error: 'ValidationError', message: 'id is required' });
+                return;
+            }
+
+            const label = await this.wmsService.getShipmentLabel(shipmentId);
+            res.status(200)
+                .type('application/pdf')
+                .setHeader('Content-Disposition', `inline; filename="shipment-${shipmentId}.pdf"`);
+            res.send(label);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    getShipmentTracking = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const shipmentId = req.params.id;
+            if (!shipmentId) {
+                res.status(400).json({ error: 'ValidationError', message: 'id is required' });
+                return;
+            }
+
+            const events = await this.wmsService.getTrackingEvents(shipmentId);
+            res.status(200).json(events);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    addTrackingEvent = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const shipmentId = req.params.id;
+            const { trackingNumber, status, occurredAt, description, location } = req.body;
+            if (!shipmentId) {
+                res.status(400).json({ error: 'ValidationError', message: 'id is required' });
+                return;
+            }
+            if (!Object.values(TrackingStatus).includes(status)) {
+                res.status(400).json({ error: 'ValidationError', message: `Invalid tracking status: ${String(status)}` });
+                return;
+            }
+            const occurred = occurredAt ? new Date(occurredAt) : new Date();
+            if (isNaN(occurred.getTime())) {
+                res.status(400).json({ error: 'ValidationError', message: 'occurredAt must be a valid date' });
+                return;
+            }
+
+            const result = await this.wmsService.addTrackingEvent(shipmentId, {
+                trackingNumber,
+                status,
+                occurredAt: occurred,
+                description,
+                location
+            });
+            res.status(201).json(result);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
+    receiveCarrierTracking = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const carrier = req.params.carrier;
+            if (!carrier) {
+                res.status(400).json({ error: 'ValidationError', message: 'carrier is required' });
+                return;
+            }
+
+            const result = await this.wmsService.ingestCarrierTracking(carrier, req.body);
+            res.status(200).json(result);
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    };
+
     // ========== RETURNS ==========
 
     createReturn = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -239,6 +400,45 @@ export class WmsController {
         }
     };
 
+    /**
+     * Corps d'une expédition (null : 400 déjà envoyé)
+     */
+    private readShipmentDto(req: Request, res: Response): CreateShipmentDto | null {
+        const { assetId, carrier, trackingRef, shipTo, parcels } = req.body;
+        if (!assetId) {
+            res.status(400).json({ error: 'ValidationError', message: 'assetId is required' });
+            return null;
+        }
+        if (!carrier) {
+            res.status(400).json({ error: 'ValidationError', message: 'carrier is required' });
+            return null;
+        }
+        if (parcels !== undefined && !Array.isArray(parcels)) {
+            res.status(400).json({ error: 'ValidationError', message: 'parcels must be an array' });
+            return null;
+        }
+        return { assetId, carrier, trackingRef, shipTo, parcels };
+    }
+
+    /**
+     * Dérogation de scan (body.override) ; null si invalide (réponse 400 envoyée)
+     */
+    private readScanOverride(req: Request, res: Response, required: boolean): ScanOverrideDto | undefined | null {
+        const override = req.body?.override;
+        if (override === undefined && !required) {
+            return undefined;
+        }
+        if (!override?.supervisorId || !override?.reason) {
+            res.status(400).json({
+                error: 'ValidationError',
+                message: 'override.supervisorId and override.reason are required'
+                    + (required ? ' (or prepare the shipment and scan its SHIPPING task)' : '')
+            });
+            return null;
+        }
+        return { supervisorId: override.supervisorId, reason: override.reason };
+    }
+
     // ========== ERROR HANDLING ==========
 
     private handleError(error: unknown, res: Response, next: NextFunction): void {
@@ -283,6 +483,93 @@ export class WmsController {
             res.status(422).json({ error: 'AssemblyNotCompletedError', message: error.message });
             return;
         }
+        if (error instanceof ShipmentNotFoundError) {
+            res.status(404).json({ error: 'ShipmentNotFoundError', message: error.message });
+            return;
+        }
+        if (error instanceof ShipmentAlreadyExistsError) {
+            res.status(409).json({
+                error: 'ShipmentAlreadyExistsError',
+                message: error.message,
+                shipmentId: error.shipmentId,
+                status: error.status
+            });
+            return;
+        }
+        if (error instanceof ShipmentLabelNotFoundError) {
+            res.status(404).json({ error: 'ShipmentLabelNotFoundError', message: error.message });
+            return;
+        }
+        if (error instanceof UnknownCarrierError) {
+            res.status(404).json({ error: 'UnknownCarrierError', message: error.message });
+            return;
+        }
+        if (error instanceof InvalidShipmentRequestError) {
+            res.status(400).json({ error: 'InvalidShipmentRequestError', message: error.message });
+            return;
+        }
+        if (error instanceof ShippingTaskNotCompletedError) {
+            res.status(422).json({ error: 'ShippingTaskNotCompletedError', message: error.message, taskId: error.taskId });
+            return;
+        }
+
+        // Task engine errors (façade v0 : scans obligatoires)
+        if (error instanceof InvalidScanError) {
+            res.status(422).json({
+                error: 'InvalidScanError',
+                message: error.message,
+                expected: error.expected,
+                received: error.received,
+                blocked: true
+            });
+            return;
+        }
+        if (error instanceof IncompleteStepsError) {
+            res.status(422).json({
+                error: 'IncompleteStepsError',
+                message: error.message,
+                remainingSteps: error.remainingSteps
+            });
+            return;
+        }
+        if (error instanceof OperatorNotFoundError) {
+            res.status(404).json({ error: 'OperatorNotFoundError', message: error.message });
+            return;
+        }
+        if (error instanceof OperatorBusyError) {
+            res.status(409).json({ error: 'OperatorBusyError', message: error.message, currentTaskId: error.currentTaskId });
+            return;
+        }
+        if (error instanceof OperatorNotQualifiedError) {
+            res.status(403).json({ error: 'OperatorNotQualifiedError', message: error.message, missing: error.missing });
+            return;
+        }
+        if (error instanceof InvalidScanOverrideError) {
+            res.status(400).json({ error: 'InvalidScanOverrideError', message: error.message });
+            return;
+        }
+        if (error instanceof ScanOverrideNotAuthorizedError) {
+            res.status(403).json({ error: 'ScanOverrideNotAuthorizedError', message: error.message });
+            return;
+        }
+        if (error instanceof TaskInBatchError) {
+            res.status(409).json({ error: 'TaskInBatchError', message: error.message, batchId: error.batchId });
+            return;
+        }
+
+        // Carrier errors (webhook invalide → 400, réservation refusée → 502)
+        if (error instanceof CarrierError) {
+            if (error.statusCode === 400) {
+                res.status(400).json({ error: 'CarrierError', message: error.message });
+                return;
+            }
+            res.status(502).json({
+                error: 'CarrierError',
+                message: error.message,
+                upstreamStatusCode: error.statusCode
+            });
+            return;
+        }
 
         // Service errors
         if (error instanceof InventoryServiceError) {
@@ -301,6 +588,14 @@ export class WmsController {
             });
             return;
         }
+        if (error instanceof GovernanceServiceError) {
+            res.status(502).json({
+                error: 'GovernanceServiceError',
+                message: error.message,
+                upstreamStatusCode: error.statusCode
+            });
+            return;
+        }
 
         console.error('[ERROR]', error);
         next(error);
@@ -1,9 +1,12 @@
 /**
  * Assembly Types
  * Types pour les ordres d'assemblage CTO
+ *
+ * Façade v0 : un ordre d'assemblage est une tâche WmsTask ASSEMBLY (même id)
  */
 
-import { AssemblyStatus } from '@prisma/client';
+import { AssemblyStatus, TaskStatus } from '@prisma/client';
+import { CreateTaskStepDto, TaskStepEntity } from './task.types';
 
 /**
  * Tâche d'assemblage
@@ -29,6 +32,42 @@ export interface AssemblyOrderEntity {
     createdAt: Date;
 }
 
+/**
+ * Étape 1 : scan de l'asset principal ; les tâches CTO suivent, une étape scannée chacune
+ */
+const ASSET_SCAN_STEP_ORDER = 1;
+
+/**
+ * Étapes de la tâche ASSEMBLY d'un ordre (les tâches CTO ne sont pas modifiées)
+ */
+export function assemblyTaskSteps(assetId: string, tasks: AssemblyTask[]): CreateTaskStepDto[] {
+    return [
+        { stepOrder: ASSET_SCAN_STEP_ORDER, description: 'Scanner asset principal', scanRequired: true, expectedCode: assetId },
+        ...tasks.map((task, index) => ({
+            stepOrder: ASSET_SCAN_STEP_ORDER + index + 1,
+            description: task,
+            scanRequired: true
+        }))
+    ];
+}
+
+/**
+ * Tâches CTO d'un ordre, relues depuis les étapes
+ */
+export function assemblyTasksOf(steps: TaskStepEntity[]): AssemblyTask[] {
+    return steps
+        .filter(step => step.stepOrder > ASSET_SCAN_STEP_ORDER)
+        .sort((a, b) => a.stepOrder - b.stepOrder)
+        .map(step => step.description);
+}
+
+/**
+ * Statut v0 d'une tâche (BLOCKED → FAILED jusqu'à résolution du blocage)
+ */
+export function assemblyStatusOf(status: TaskStatus): AssemblyStatus {
+    return status === TaskStatus.BLOCKED ? AssemblyStatus.FAILED : status;
+}
+
 /**
  * Erreur : Assemblage non trouvé
  */
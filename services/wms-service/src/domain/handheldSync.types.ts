@@ -0,0 +1,199 @@
+/**
+ * Handheld Sync Domain Types
+ * Synchronisation des terminaux portables hors ligne
+ *
+ * Sans réseau, le terminal met en file les actions de l'opérateur (démarrage,
+ * étapes, fin de tâche) avec leur horodatage appareil. À la reconnexion, la file
+ * est rejouée dans l'ordre chronologique via le moteur de tâches, avec les mêmes
+ * règles qu'en ligne ; chaque événement reçoit un résultat de réconciliation.
+ */
+
+import { HandheldEventType, SyncOutcome, TaskStatus } from '@prisma/client';
+
+// ========== CONSTANTS ==========
+
+/**
+ * Nombre max d'événements par synchronisation
+ */
+export const MAX_SYNC_EVENTS = 500;
+
+/**
+ * Avance tolérée de l'horloge du terminal sur celle du serveur
+ */
+export const MAX_CLOCK_SKEW_MINUTES = 5;
+
+/**
+ * Motifs de réconciliation
+ * - CONFLICT : l'état serveur a changé pendant la période hors ligne
+ * - REJECTED : l'action enfreint les règles du moteur de tâches (comme en ligne)
+ * - SKIPPED : rien à rejouer (déjà appliqué) ou événement précédent de la tâche en échec
+ */
+export type SyncReason =
+    | 'TASK_REASSIGNED'
+    | 'TASK_STATE_CHANGED'
+    | 'ASSET_MOVED'
+    | 'STEP_ALREADY_COMPLETED'
+    | 'OPERATOR_BUSY'
+    | 'TASK_IN_BATCH'
+    | 'INVALID_SCAN'
+    | 'INVALID_INPUT'
+    | 'INCOMPLETE_STEPS'
+    | 'TASK_NOT_FOUND'
+    | 'STEP_NOT_FOUND'
+    | 'OPERATOR_NOT_FOUND'
+    | 'OPERATOR_NOT_QUALIFIED'
+    | 'ALREADY_APPLIED'
+    | 'PREVIOUS_EVENT_FAILED';
+
+// ========== DTOs ==========
+
+/**
+ * Action capturée hors ligne
+ */
+export interface HandheldEventDto {
+    eventId: string;                // Identifiant unique généré par le terminal
+    type: HandheldEventType;
+    taskId: string;
+    stepId?: string;                // Obligatoire pour STEP
+    scanCode?: string;              // Obligatoire pour START
+    measuredValue?: string;
+    capturedAt: string;             // ISO 8601, horloge du terminal
+}
+
+export interface HandheldSyncDto {
+    deviceId: string;
+    operatorId: string;             // Opérateur connecté sur le terminal
+    events: HandheldEventDto[];
+}
+
+/**
+ * Événement validé, prêt au rejeu
+ */
+export interface HandheldEvent extends Omit<HandheldEventDto, 'capturedAt'> {
+    capturedAt: Date;
+}
+
+export interface RecordSyncEventDto {
+    deviceId: string;
+    eventId: string;
+    operatorId: string;
+    taskId: string;
+    stepId: string | null;
+    type: HandheldEventType;
+    capturedAt: Date;
+    outcome: SyncOutcome;
+    reason: SyncReason | null;
+}
+
+// ========== ENTITIES ==========
+
+export interface HandheldSyncEventEntity extends RecordSyncEventDto {
+    id: string;
+    syncedAt: Date;
+}
+
+// ========== RESULTS ==========
+
+/**
+ * Résultat de réconciliation d'un événement
+ * duplicate : événement déjà synchronisé, résultat d'origine renvoyé sans rejeu
+ */
+export interface SyncEventResult {
+    eventId: string;
+    taskId: string;
+    type: HandheldEventType;
+    capturedAt: Date;
+    outcome: SyncOutcome;
+    reason: SyncReason | null;
+    duplicate: boolean;
+    taskStatus: TaskStatus | null;  // Statut de la tâche après l'événement
+}
+
+export interface HandheldSyncResult {
+    deviceId: string;
+    operatorId: string;
+    syncedAt: Date;
+    results: SyncEventResult[];     // Dans l'ordre de rejeu (horodatage appareil)
+    summary: Record<SyncOutcome, number>;
+}
+
+// ========== RULES ==========
+
+/**
+ * Un événement en échec sur une tâche interrompt le rejeu des suivants de cette tâche
+ */
+export function haltsTask(outcome: SyncOutcome, reason: SyncReason | null): boolean {
+    return outcome !== SyncOutcome.APPLIED && reason !== 'ALREADY_APPLIED';
+}
+
+/**
+ * Valide une file d'événements et la trie par horodatage appareil
+ * (tri stable : ordre d'envoi conservé à horodatage égal)
+ */
+export function normalizeSyncEvents(dto: HandheldSyncDto, now: Date): HandheldEvent[] {
+    if (!dto.deviceId?.trim()) {
+        throw new InvalidSyncRequestError('deviceId is required');
+    }
+    if (!dto.operatorId?.trim()) {
+        throw new InvalidSyncRequestError('operatorId is required');
+    }
+    if (!Array.isArray(dto.events) || dto.events.length === 0) {
+        throw new InvalidSyncRequestError('events must be a non-empty array');
+    }
+    if (dto.events.length > MAX_SYNC_EVENTS) {
+        throw new InvalidSyncRequestError(`At most ${MAX_SYNC_EVENTS} events per sync`);
+    }
+
+    const latest = now.getTime() + MAX_CLOCK_SKEW_MINUTES * 60000;
+    const seen = new Set<string>();
+
+    const events = dto.events.map(event => {
+        if (!event.eventId?.trim()) {
+            throw new InvalidSyncRequestError('eventId is required on every event');
+        }
+        if (seen.has(event.eventId)) {
+            throw new InvalidSyncRequestError(`Duplicate eventId ${event.eventId}`);
+        }
+        seen.add(event.eventId);
+
+        if (!Object.values(HandheldEventType).includes(event.type)) {
+            throw new InvalidSyncRequestError(`Event ${event.eventId}: invalid type ${String(event.type)}`);
+        }
+        if (!event.taskId?.trim()) {
+            throw new InvalidSyncRequestError(`Event ${event.eventId}: taskId is required`);
+        }
+        if (event.type === HandheldEventType.START && !event.scanCode) {
+            throw new InvalidSyncRequestError(`Event ${event.eventId}: scanCode is required for START`);
+        }
+        if (event.type === HandheldEventType.STEP && !event.stepId) {
+            throw new InvalidSyncRequestError(`Event ${event.eventId}: stepId is required for STEP`);
+        }
+
+        const capturedAt = new Date(event.capturedAt);
+        if (isNaN(capturedAt.getTime())) {
+            throw new InvalidSyncRequestError(`Event ${event.eventId}: invalid capturedAt`);
+        }
+        if (capturedAt.getTime() > latest) {
+            throw new InvalidSyncRequestError(`Event ${event.eventId}: capturedAt is in the future (device clock?)`);
+        }
+
+        return { ...event, capturedAt };
+    });
+
+    return events.sort((a, b) => a.capturedAt.getTime() - b.capturedAt.getTime());
+}
+
+// ========== ERRORS ==========
+
+/**
+ * Erreur : File d'événements incomplète ou invalide (rien n'est rejoué)
+ */
+export class InvalidSyncRequestError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidSyncRequestError';
+    }
+}
+
+// Re-export enums
+export { HandheldEventType, SyncOutcome };
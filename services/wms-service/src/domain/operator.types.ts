@@ -3,12 +3,17 @@
  * Types pour les opérateurs WMS Sprint 17
  */
 
+import { TaskType } from '@prisma/client';
+
 // ========== ENTITIES ==========
 
 export interface OperatorEntity {
     id: string;
     name: string;
     badge: string;
+    skills: TaskType[];             // Types de tâches que l'opérateur peut exécuter
+    certifications: string[];
+    homeZone: string | null;
     createdAt: Date;
 }
 
@@ -17,6 +22,18 @@ export interface OperatorEntity {
 export interface CreateOperatorDto {
     name: string;
     badge: string;
+    skills?: TaskType[];
+    certifications?: string[];
+    homeZone?: string;
+}
+
+/**
+ * Mise à jour du profil de dispatch (champs absents inchangés, homeZone null = aucune)
+ */
+export interface UpdateOperatorProfileDto {
+    skills?: TaskType[];
+    certifications?: string[];
+    homeZone?: string | null;
 }
 
 // ========== ERRORS ==========
@@ -30,3 +47,13 @@ export class DuplicateBadgeError extends Error {
         this.name = 'DuplicateBadgeError';
     }
 }
+
+/**
+ * Erreur : Compétence inconnue
+ */
+export class InvalidSkillError extends Error {
+    constructor(public readonly skill: string) {
+        super(`Invalid skill: ${skill}`);
+        this.name = 'InvalidSkillError';
+    }
+}
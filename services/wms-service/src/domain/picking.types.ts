@@ -1,15 +1,18 @@
 /**
  * Picking Types
  * Types pour les ordres de picking
+ *
+ * Façade v0 : un ordre de picking est une tâche WmsTask PICKING (même id)
  */
 
-import { PickingStatus } from '@prisma/client';
+import { PickingStatus, TaskStatus } from '@prisma/client';
 
 /**
  * DTO pour créer un ordre de picking
  */
 export interface CreatePickingOrderDto {
     assetId: string;
+    promisedDate?: Date;            // Date d'expédition promise (échéance et priorité de la tâche)
 }
 
 /**
@@ -22,6 +25,13 @@ export interface PickingOrderEntity {
     createdAt: Date;
 }
 
+/**
+ * Statut v0 d'une tâche (BLOCKED → FAILED jusqu'à résolution du blocage)
+ */
+export function pickingStatusOf(status: TaskStatus): PickingStatus {
+    return status === TaskStatus.BLOCKED ? PickingStatus.FAILED : status;
+}
+
 /**
  * Erreur : Asset non réservé
  */
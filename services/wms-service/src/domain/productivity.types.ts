@@ -0,0 +1,381 @@
+/**
+ * Productivity Domain Types
+ * Productivité opérateurs et standards de temps (labour standards)
+ *
+ * Temps de travail = endedAt - startedAt, moins le temps passé bloqué.
+ * Temps d'une étape = écart avec l'étape précédente (ou le démarrage),
+ * moins le temps bloqué sur l'intervalle.
+ * Performance = temps standard / temps réel (100 % = au standard).
+ */
+
+import { TaskType } from '@prisma/client';
+
+// ========== CONSTANTS ==========
+
+export type Granularity = 'DAY' | 'WEEK';
+
+/**
+ * Écart entre deux tâches d'un opérateur compté comme inactivité :
+ * en deçà, simple enchaînement ; au-delà, pause ou fin de poste
+ */
+export const IDLE_GAP_MIN_MINUTES = 5;
+export const IDLE_GAP_MAX_MINUTES = 240;
+
+/**
+ * Plage maximale d'une requête d'analyse
+ */
+export const MAX_ANALYTICS_RANGE_DAYS = 92;
+
+/**
+ * Fenêtre glissante des KPIs consommés par l'observabilité
+ */
+export const KPI_WINDOW_DAYS: Record<string, number> = {
+    DAILY: 1,
+    WEEKLY: 7,
+    MONTHLY: 30
+};
+
+// ========== INPUTS ==========
+
+/**
+ * Tâche terminée et son activité (étapes, scans, blocages)
+ */
+export interface TaskActivity {
+    id: string;
+    type: TaskType;
+    operatorId: string | null;
+    startedAt: Date;
+    endedAt: Date;
+    steps: Array<{ stepOrder: number; completedAt: Date | null }>;
+    scans: Array<{ valid: boolean }>;
+    blocks: Array<{ blockedAt: Date; resolvedAt: Date | null }>;
+}
+
+export interface ProductivityQuery {
+    from: Date;
+    to: Date;
+    granularity: Granularity;
+    operatorId?: string;
+    taskType?: TaskType;
+}
+
+export interface LabourStandardDto {
+    taskType: TaskType;
+    stepOrder: number;
+    standardSeconds: number;
+}
+
+// ========== OUTPUTS ==========
+
+export interface LabourStandardEntity {
+    id: string;
+    taskType: TaskType;
+    stepOrder: number;
+    standardSeconds: number;
+    updatedBy: string | null;
+    updatedAt: Date;
+}
+
+/**
+ * Agrégat par période, opérateur et type de tâche
+ */
+export interface ProductivityRow {
+    periodStart: Date;
+    operatorId: string | null;
+    taskType: TaskType;
+    tasksCompleted: number;
+    workingMinutes: number;
+    avgTaskMinutes: number;
+    tasksPerHour: number;
+    standardMinutes: number | null;     // Tâches dont toutes les étapes ont un standard
+    performancePct: number | null;
+    scans: number;
+    invalidScans: number;
+    scanErrorRate: number;              // %
+    idleGaps: number;
+    idleMinutes: number;
+    reworkTasks: number;                // Tâches bloquées puis reprises
+    reworkRate: number;                 // %
+}
+
+export interface StepPerformanceRow {
+    taskType: TaskType;
+    stepOrder: number;
+    samples: number;
+    avgSeconds: number;
+    standardSeconds: number | null;
+    performancePct: number | null;
+}
+
+/**
+ * KPIs WMS pour l'observabilité (fenêtre glissante)
+ */
+export interface WmsKpiSnapshot {
+    period: string;
+    from: Date;
+    to: Date;
+    tasksCompleted: number;
+    avgTaskTime: number;                // Minutes de travail effectif par tâche
+    blockedTasks: number;
+    qaReworkRate: number;               // %
+    performancePct: number | null;
+    scanErrorRate: number;              // %
+}
+
+// ========== COMPUTATION ==========
+
+const MINUTE_MS = 60_000;
+
+function round1(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+function percent(part: number, total: number): number {
+    return total > 0 ? round1((part / total) * 100) : 0;
+}
+
+export function standardKey(taskType: TaskType, stepOrder: number): string {
+    return `${taskType}:${stepOrder}`;
+}
+
+/**
+ * Début de période (UTC) : jour, ou lundi de la semaine ISO
+ */
+export function periodStartOf(date: Date, granularity: Granularity): Date {
+    const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    if (granularity === 'DAY') {
+        return day;
+    }
+    const offset = (day.getUTCDay() + 6) % 7;   // lundi = 0
+    return new Date(day.getTime() - offset * 24 * 60 * MINUTE_MS);
+}
+
+/**
+ * Temps bloqué (ms) recouvrant l'intervalle [from, to]
+ * Un blocage non résolu court jusqu'à la fin de l'intervalle
+ */
+export function blockedMs(blocks: TaskActivity['blocks'], from: Date, to: Date): number {
+    return blocks.reduce((sum, block) => {
+        const start = Math.max(block.blockedAt.getTime(), from.getTime());
+        const end = Math.min((block.resolvedAt ?? to).getTime(), to.getTime());
+        return sum + Math.max(0, end - start);
+    }, 0);
+}
+
+/**
+ * Temps de travail effectif d'une tâche (ms)
+ */
+export function workingMs(task: TaskActivity): number {
+    const elapsed = task.endedAt.getTime() - task.startedAt.getTime();
+    return Math.max(0, elapsed - blockedMs(task.blocks, task.startedAt, task.endedAt));
+}
+
+/**
+ * Durée de chaque étape terminée (ms), dans l'ordre d'exécution
+ */
+export function stepDurations(task: TaskActivity): Array<{ stepOrder: number; ms: number }> {
+    const completed = task.steps
+        .filter((step): step is { stepOrder: number; completedAt: Date } => step.completedAt !== null)
+        .sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime());
+
+    let previous = task.startedAt;
+    return completed.map(step => {
+        const elapsed = step.completedAt.getTime() - previous.getTime();
+        const ms = Math.max(0, elapsed - blockedMs(task.blocks, previous, step.completedAt));
+        previous = step.completedAt;
+        return { stepOrder: step.stepOrder, ms };
+    });
+}
+
+/**
+ * Temps standard d'une tâche (ms), null si une étape n'a pas de standard
+ */
+export function taskStandardMs(task: TaskActivity, standards: Map<string, number>): number | null {
+    const orders = task.steps.filter(step => step.completedAt !== null).map(step => step.stepOrder);
+    if (orders.length === 0) {
+        return null;
+    }
+    let total = 0;
+    for (const order of orders) {
+        const seconds = standards.get(standardKey(task.type, order));
+        if (seconds === undefined) {
+            return null;
+        }
+        total += seconds * 1000;
+    }
+    return total;
+}
+
+/**
+ * Inactivité entre tâches d'un même opérateur, attribuée à la tâche qui suit
+ * (taskId → ms ; écarts hors [IDLE_GAP_MIN_MINUTES, IDLE_GAP_MAX_MINUTES] ignorés)
+ */
+export function idleGapsByTask(tasks: TaskActivity[]): Map<string, number> {
+    const gaps = new Map<string, number>();
+    const byOperator = new Map<string, TaskActivity[]>();
+
+    for (const task of tasks) {
+        if (!task.operatorId) continue;
+        const list = byOperator.get(task.operatorId) ?? [];
+        list.push(task);
+        byOperator.set(task.operatorId, list);
+    }
+
+    for (const list of byOperator.values()) {
+        list.sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+        for (let i = 1; i < list.length; i++) {
+            const previous = list[i - 1] as TaskActivity;
+            const current = list[i] as TaskActivity;
+            const gap = current.startedAt.getTime() - previous.endedAt.getTime();
+            if (gap >= IDLE_GAP_MIN_MINUTES * MINUTE_MS && gap <= IDLE_GAP_MAX_MINUTES * MINUTE_MS) {
+                gaps.set(current.id, gap);
+            }
+        }
+    }
+
+    return gaps;
+}
+
+interface RowAccumulator {
+    periodStart: Date;
+    operatorId: string | null;
+    taskType: TaskType;
+    tasks: number;
+    workingMs: number;
+    standardMs: number;
+    standardWorkingMs: number;
+    standardTasks: number;
+    scans: number;
+    invalidScans: number;
+    idleGaps: number;
+    idleMs: number;
+    rework: number;
+}
+
+/**
+ * Agrège les tâches par période, opérateur et type de tâche
+ */
+export function aggregateProductivity(
+    tasks: TaskActivity[],
+    standards: Map<string, number>,
+    granularity: Granularity,
+    idleGaps: Map<string, number> = idleGapsByTask(tasks)
+): ProductivityRow[] {
+    const rows = new Map<string, RowAccumulator>();
+
+    for (const task of tasks) {
+        const periodStart = periodStartOf(task.endedAt, granularity);
+        const key = `${periodStart.toISOString()}|${task.operatorId ?? ''}|${task.type}`;
+        const row = rows.get(key) ?? {
+            periodStart,
+            operatorId: task.operatorId,
+            taskType: task.type,
+            tasks: 0,
+            workingMs: 0,
+            standardMs: 0,
+            standardWorkingMs: 0,
+            standardTasks: 0,
+            scans: 0,
+            invalidScans: 0,
+            idleGaps: 0,
+            idleMs: 0,
+            rework: 0
+        };
+
+        const working = workingMs(task);
+        row.tasks++;
+        row.workingMs += working;
+
+        const standard = taskStandardMs(task, standards);
+        if (standard !== null) {
+            row.standardMs += standard;
+            row.standardWorkingMs += working;
+            row.standardTasks++;
+        }
+
+        row.scans += task.scans.length;
+        row.invalidScans += task.scans.filter(scan => !scan.valid).length;
+
+        const idle = idleGaps.get(task.id);
+        if (idle !== undefined) {
+            row.idleGaps++;
+            row.idleMs += idle;
+        }
+
+        if (task.blocks.length > 0) {
+            row.rework++;
+        }
+
+        rows.set(key, row);
+    }
+
+    return Array.from(rows.values())
+        .sort((a, b) => a.periodStart.getTime() - b.periodStart.getTime()
+            || (a.operatorId ?? '').localeCompare(b.operatorId ?? '')
+            || a.taskType.localeCompare(b.taskType))
+        .map(row => ({
+            periodStart: row.periodStart,
+            operatorId: row.operatorId,
+            taskType: row.taskType,
+            tasksCompleted: row.tasks,
+            workingMinutes: round1(row.workingMs / MINUTE_MS),
+            avgTaskMinutes: round1(row.workingMs / row.tasks / MINUTE_MS),
+            tasksPerHour: row.workingMs > 0 ? round1(row.tasks / (row.workingMs / (60 * MINUTE_MS))) : 0,
+            standardMinutes: row.standardTasks > 0 ? round1(row.standardMs / MINUTE_MS) : null,
+            performancePct: row.standardWorkingMs > 0 ? percent(row.standardMs, row.standardWorkingMs) : null,
+            scans: row.scans,
+            invalidScans: row.invalidScans,
+            scanErrorRate: percent(row.invalidScans, row.scans),
+            idleGaps: row.idleGaps,
+            idleMinutes: round1(row.idleMs / MINUTE_MS),
+            reworkTasks: row.rework,
+            reworkRate: percent(row.rework, row.tasks)
+        }));
+}
+
+/**
+ * Temps moyen par étape, comparé au standard
+ */
+export function aggregateStepPerformance(
+    tasks: TaskActivity[],
+    standards: Map<string, number>
+): StepPerformanceRow[] {
+    const steps = new Map<string, { taskType: TaskType; stepOrder: number; samples: number; totalMs: number }>();
+
+    for (const task of tasks) {
+        for (const step of stepDurations(task)) {
+            const key = standardKey(task.type, step.stepOrder);
+            const entry = steps.get(key) ?? { taskType: task.type, stepOrder: step.stepOrder, samples: 0, totalMs: 0 };
+            entry.samples++;
+            entry.totalMs += step.ms;
+            steps.set(key, entry);
+        }
+    }
+
+    return Array.from(steps.entries())
+        .sort(([, a], [, b]) => a.taskType.localeCompare(b.taskType) || a.stepOrder - b.stepOrder)
+        .map(([key, entry]) => {
+            const avgMs = entry.totalMs / entry.samples;
+            const standardSeconds = standards.get(key) ?? null;
+            return {
+                taskType: entry.taskType,
+                stepOrder: entry.stepOrder,
+                samples: entry.samples,
+                avgSeconds: round1(avgMs / 1000),
+                standardSeconds,
+                performancePct: standardSeconds !== null && avgMs > 0 ? percent(standardSeconds * 1000, avgMs) : null
+            };
+        });
+}
+
+// ========== ERRORS ==========
+
+/**
+ * Erreur : Paramètres d'analyse invalides (plage, granularité, standard)
+ */
+export class InvalidAnalyticsQueryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidAnalyticsQueryError';
+    }
+}
@@ -3,7 +3,7 @@
  * Types pour les retours (RMA logistique)
  */
 
-import { ReturnStatus } from '@prisma/client';
+import { ReturnStatus, ReturnCondition, ReturnDisposition } from '@prisma/client';
 
 /**
  * DTO pour créer un retour
@@ -13,6 +13,32 @@ export interface CreateReturnDto {
     reason: string;
 }
 
+/**
+ * DTO de réception au quai retours, contre un RMA du SAV
+ */
+export interface ReceiveReturnDto {
+    rmaId: string;
+    scannedSerial: string;          // Numéro de série scanné sur l'asset reçu
+    condition: ReturnCondition;
+    conditionNotes?: string;
+    photoUrls?: string[];
+    reason?: string;                // Par défaut : "RMA <rmaId>"
+    receivedBy: string;             // Opérateur du quai
+}
+
+/**
+ * DTO de décision de destination
+ */
+export interface DisposeReturnDto {
+    disposition: ReturnDisposition;
+    decidedBy: string;
+    note?: string;
+    toLocation: string;             // Id de l'emplacement Inventory de destination (type compatible avec le mouvement)
+    supplierRef?: string;           // Obligatoire pour RETURN_TO_SUPPLIER
+    dataWipeCertificateRef?: string; // Obligatoire pour RESTOCK (RMA → SELLABLE, garde Asset Service)
+    scrapReasonCode?: string;       // Mise au rebut : QA_FAILED, BEYOND_REPAIR, DAMAGED, OBSOLETE
+}
+
 /**
  * Entité Retour
  */
@@ -21,9 +47,68 @@ export interface ReturnEntity {
     assetId: string;
     reason: string;
     status: ReturnStatus;
+    rmaId: string | null;
+    serialNumber: string | null;
+    condition: ReturnCondition | null;
+    conditionNotes: string | null;
+    photoUrls: string[];
+    receivedBy: string | null;
+    receivedAt: Date | null;
+    qaTaskId: string | null;
+    disposition: ReturnDisposition | null;
+    dispositionNote: string | null;
+    supplierRef: string | null;
+    disposedBy: string | null;
+    disposedAt: Date | null;
     createdAt: Date;
 }
 
+// ========== DISPOSITION ==========
+
+/**
+ * Effets d'une destination : statut Asset cible et motif du mouvement Inventory
+ * assetStatus null = statut inchangé (l'asset reste RMA jusqu'au retour fournisseur)
+ * L'emplacement vient de la décision (toLocation) ; Inventory vérifie son type :
+ * MOVE → STORAGE / ASSEMBLY / SHIPPING, SHIP → SHIPPING
+ */
+export interface DispositionRoute {
+    assetStatus: string | null;
+    reasonCode?: string;
+    movementReason: string;
+}
+
+export const DISPOSITION_ROUTES: Record<ReturnDisposition, DispositionRoute> = {
+    RESTOCK: { assetStatus: 'SELLABLE', movementReason: 'MOVE' },
+    REFURB: { assetStatus: 'IN_REFURB', reasonCode: 'RMA_REPAIR', movementReason: 'MOVE' },
+    SCRAP: { assetStatus: 'SCRAPPED', reasonCode: 'BEYOND_REPAIR', movementReason: 'MOVE' },
+    RETURN_TO_SUPPLIER: { assetStatus: null, movementReason: 'SHIP' }
+};
+
+/**
+ * Motifs de mise au rebut acceptés par l'Asset Service
+ */
+export const SCRAP_REASON_CODES = ['QA_FAILED', 'BEYOND_REPAIR', 'DAMAGED', 'OBSOLETE'];
+
+/**
+ * Option de template d'étapes des tâches QA de retour (étapes spécifiques retours)
+ */
+export const RETURN_QA_OPTION = 'RETURN';
+
+/**
+ * Zone du quai retours (dispatch des tâches QA)
+ */
+export const RETURNS_ZONE = 'RETURNS';
+
+/**
+ * Statut RMA attendu côté SAV pour une réception
+ */
+export const RECEIVABLE_RMA_STATUS = 'CREATED';
+
+/**
+ * Statut RMA après réception côté SAV (reprise d'une réception interrompue)
+ */
+export const RECEIVED_RMA_STATUS = 'RECEIVED';
+
 /**
  * Erreur : Retour non trouvé
  */
@@ -33,3 +118,58 @@ export class ReturnNotFoundError extends Error {
         this.name = 'ReturnNotFoundError';
     }
 }
+
+/**
+ * Erreur : RMA inconnu du SAV
+ */
+export class RmaNotFoundError extends Error {
+    constructor(public readonly rmaId: string) {
+        super(`RMA ${rmaId} not found`);
+        this.name = 'RmaNotFoundError';
+    }
+}
+
+/**
+ * Erreur : RMA déjà reçu (au quai ou côté SAV)
+ */
+export class RmaAlreadyReceivedError extends Error {
+    constructor(public readonly rmaId: string, public readonly rmaStatus: string) {
+        super(`RMA ${rmaId} cannot be received (status ${rmaStatus})`);
+        this.name = 'RmaAlreadyReceivedError';
+    }
+}
+
+/**
+ * Erreur : Le numéro de série scanné ne correspond pas à l'asset du RMA
+ */
+export class ReturnSerialMismatchError extends Error {
+    constructor(
+        public readonly rmaId: string,
+        public readonly expected: string,
+        public readonly scanned: string
+    ) {
+        super(`Scanned serial ${scanned} does not match RMA ${rmaId} (expected ${expected})`);
+        this.name = 'ReturnSerialMismatchError';
+    }
+}
+
+/**
+ * Erreur : Réception ou destination incomplète / invalide
+ */
+export class InvalidReturnRequestError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidReturnRequestError';
+    }
+}
+
+/**
+ * Erreur : Destination impossible dans l'état du retour
+ * (déjà décidée, tâche QA non terminée)
+ */
+export class ReturnDispositionError extends Error {
+    constructor(public readonly returnId: string, message: string) {
+        super(`Return ${returnId}: ${message}`);
+        this.name = 'ReturnDispositionError';
+    }
+}
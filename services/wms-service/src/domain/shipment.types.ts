@@ -3,14 +3,45 @@
  * Types pour les expéditions
  */
 
-import { ShipmentStatus } from '@prisma/client';
+import { ShipmentStatus, PackageType, TrackingStatus, TaskStatus } from '@prisma/client';
+import { CarrierAddress, CarrierTrackingUpdate } from '../integrations/carrier.adapter';
+import { CreateTaskStepDto } from './task.types';
+
+/**
+ * Colis ou palette à expédier
+ */
+export interface ShipmentParcelDto {
+    type?: PackageType;             // PARCEL par défaut
+    weightKg: number;
+    lengthCm?: number;
+    widthCm?: number;
+    heightCm?: number;
+}
 
 /**
  * DTO pour créer une expédition
+ *
+ * Transporteur intégré : shipTo et au moins un colis obligatoires,
+ * réservation et étiquette auprès du transporteur.
+ * Transporteur manuel : trackingRef saisi, colis facultatifs.
  */
 export interface CreateShipmentDto {
     assetId: string;
     carrier: string;
+    trackingRef?: string;
+    shipTo?: CarrierAddress;
+    parcels?: ShipmentParcelDto[];
+}
+
+export interface ShipmentParcelEntity {
+    id: string;
+    sequence: number;
+    type: PackageType;
+    weightKg: number;
+    lengthCm: number | null;
+    widthCm: number | null;
+    heightCm: number | null;
+    trackingNumber: string | null;
 }
 
 /**
@@ -22,9 +53,57 @@ export interface ShipmentEntity {
     carrier: string;
     trackingRef: string | null;
     status: ShipmentStatus;
+    shipTo: CarrierAddress | null;
+    hasLabel: boolean;
+    bookedAt: Date | null;          // null = transporteur manuel
+    deliveredAt: Date | null;
+    taskId: string | null;          // Tâche SHIPPING à terminer avant l'envoi
+    parcels: ShipmentParcelEntity[];
     createdAt: Date;
 }
 
+export interface ShipmentTrackingEventEntity {
+    id: string;
+    shipmentId: string;
+    parcelId: string | null;
+    trackingNumber: string;
+    status: TrackingStatus;
+    description: string | null;
+    location: string | null;
+    occurredAt: Date;
+    receivedAt: Date;
+}
+
+/**
+ * Résultat de l'ingestion d'un lot de statuts de suivi
+ */
+export interface TrackingIngestionResult {
+    recorded: number;               // Nouveaux événements (doublons ignorés)
+    delivered: string[];            // Expéditions passées DELIVERED
+    unmatched: CarrierTrackingUpdate[];
+}
+
+/**
+ * Étapes de la tâche SHIPPING : scan de l'asset, de chaque étiquette colis
+ * (numéro transporteur attendu), puis confirmation
+ */
+export function shippingTaskSteps(shipment: ShipmentEntity): CreateTaskStepDto[] {
+    const labels = shipment.parcels.filter(parcel => parcel.trackingNumber !== null);
+    const labelSteps = labels.length > 0
+        ? labels.map(parcel => ({
+            description: `Scanner colis ${parcel.sequence}`,
+            scanRequired: true,
+            expectedCode: parcel.trackingNumber ?? undefined
+        }))
+        : [{ description: 'Scanner étiquette colis', scanRequired: true, expectedCode: shipment.trackingRef ?? undefined }];
+
+    return [
+        { description: 'Scanner asset', scanRequired: true, expectedCode: shipment.assetId },
+        ...labelSteps,
+        { description: 'Confirmation expédition', scanRequired: false }
+    ].map((step, index) => ({ ...step, stepOrder: index + 1 }));
+}
+
 /**
  * Erreur : Expédition non trouvée
  */
@@ -54,3 +133,62 @@ export class AssemblyNotCompletedError extends Error {
         this.name = 'AssemblyNotCompletedError';
     }
 }
+
+/**
+ * Erreur : Expédition déjà en cours pour l'asset (READY, ou réservation
+ * PENDING chez un autre transporteur)
+ */
+export class ShipmentAlreadyExistsError extends Error {
+    constructor(
+        public readonly assetId: string,
+        public readonly shipmentId: string,
+        public readonly status: ShipmentStatus
+    ) {
+        super(`Asset ${assetId} already has shipment ${shipmentId} (${status})`);
+        this.name = 'ShipmentAlreadyExistsError';
+    }
+}
+
+/**
+ * Erreur : Demande d'expédition incomplète pour le transporteur
+ */
+export class InvalidShipmentRequestError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidShipmentRequestError';
+    }
+}
+
+/**
+ * Erreur : Transporteur sans intégration (webhook de suivi)
+ */
+export class UnknownCarrierError extends Error {
+    constructor(public readonly carrier: string) {
+        super(`Carrier ${carrier} has no integration`);
+        this.name = 'UnknownCarrierError';
+    }
+}
+
+/**
+ * Erreur : Aucune étiquette pour l'expédition (transporteur manuel)
+ */
+export class ShipmentLabelNotFoundError extends Error {
+    constructor(public readonly shipmentId: string) {
+        super(`No carrier label for shipment ${shipmentId}`);
+        this.name = 'ShipmentLabelNotFoundError';
+    }
+}
+
+/**
+ * Erreur : Tâche SHIPPING non terminée (scans de chargement manquants)
+ */
+export class ShippingTaskNotCompletedError extends Error {
+    constructor(
+        public readonly shipmentId: string,
+        public readonly taskId: string | null,
+        public readonly taskStatus: TaskStatus | null
+    ) {
+        super(`Shipping task ${taskId ?? '(none)'} of shipment ${shipmentId} is ${taskStatus ?? 'missing'}, expected COMPLETED`);
+        this.name = 'ShippingTaskNotCompletedError';
+    }
+}
@@ -0,0 +1,261 @@
+/**
+ * Step Template Domain Types
+ * Templates d'étapes versionnés par type de tâche, type d'asset, client et option
+ *
+ * - Template de base (option = null) : le plus spécifique l'emporte
+ *   (client + type d'asset > client > type d'asset > générique)
+ * - Template d'option (ex. LABELING) : ses étapes s'ajoutent après la base
+ *   quand l'option est demandée
+ * - Une version n'est jamais modifiée : éditer = créer la version suivante,
+ *   les tâches existantes gardent les étapes de la version instanciée
+ */
+
+import { TaskType, StepInputType } from '@prisma/client';
+import { CreateTaskStepDto } from './task.types';
+
+// ========== ENTITIES ==========
+
+export interface StepTemplateStepEntity {
+    id: string;
+    templateId: string;
+    stepOrder: number;
+    description: string;
+    scanRequired: boolean;
+    expectAssetScan: boolean;
+    expectedCode: string | null;
+    inputType: StepInputType;
+    unit: string | null;
+    minValue: number | null;
+    maxValue: number | null;
+    onlyIfOption: string | null;
+    unlessOption: string | null;
+}
+
+export interface StepTemplateEntity {
+    id: string;
+    taskType: TaskType;
+    assetType: string | null;
+    customerId: string | null;
+    option: string | null;
+    scopeKey: string;
+    version: number;
+    createdBy: string | null;
+    createdAt: Date;
+    steps: StepTemplateStepEntity[];
+}
+
+// ========== DTOs ==========
+
+export interface CreateStepTemplateStepDto {
+    stepOrder: number;
+    description: string;
+    scanRequired?: boolean;
+    expectAssetScan?: boolean;
+    expectedCode?: string;
+    inputType?: StepInputType;
+    unit?: string;
+    minValue?: number;
+    maxValue?: number;
+    onlyIfOption?: string;
+    unlessOption?: string;
+}
+
+/**
+ * Nouvelle version d'un template (la version est attribuée par le service)
+ */
+export interface CreateStepTemplateDto {
+    taskType: TaskType;
+    assetType?: string;
+    customerId?: string;
+    option?: string;
+    createdBy?: string;
+    steps: CreateStepTemplateStepDto[];
+}
+
+/**
+ * Contexte de sélection du template à la création d'une tâche
+ */
+export interface StepTemplateContext {
+    assetType?: string;
+    customerId?: string;
+    options?: string[];
+}
+
+/**
+ * Étapes à instancier et templates retenus (traçabilité)
+ */
+export interface ResolvedTaskSteps {
+    steps: CreateTaskStepDto[];
+    templates: Array<{ id: string; version: number; option: string | null }>;
+    builtIn: boolean;               // true = étapes intégrées (aucun template de base)
+}
+
+// ========== SCOPE ==========
+
+/**
+ * Valeur de clé signifiant "tous" (type d'asset, client) ou "base" (option)
+ */
+export const ANY_SCOPE = '*';
+
+/**
+ * Normalise un code (type d'asset, option) : majuscules sans espaces autour
+ */
+export function normalizeCode(value: string): string {
+    return value.trim().toUpperCase();
+}
+
+/**
+ * Contexte normalisé (type d'asset et options en majuscules)
+ */
+export function normalizeTemplateContext(context: StepTemplateContext): StepTemplateContext {
+    return {
+        assetType: context.assetType ? normalizeCode(context.assetType) : undefined,
+        customerId: context.customerId,
+        options: context.options?.map(normalizeCode)
+    };
+}
+
+/**
+ * Clé d'unicité des versions : assetType|customerId|option
+ */
+export function templateScopeKey(assetType: string | null, customerId: string | null, option: string | null): string {
+    return [assetType ?? ANY_SCOPE, customerId ?? ANY_SCOPE, option ?? ANY_SCOPE].join('|');
+}
+
+/**
+ * Toutes les clés pouvant s'appliquer à un contexte (base et options demandées)
+ */
+export function candidateScopeKeys(context: StepTemplateContext): string[] {
+    const assetTypes = [null, context.assetType ?? null].filter((v, i, all) => all.indexOf(v) === i);
+    const customers = [null, context.customerId ?? null].filter((v, i, all) => all.indexOf(v) === i);
+    const options = [null, ...(context.options ?? [])];
+
+    const keys: string[] = [];
+    for (const assetType of assetTypes) {
+        for (const customerId of customers) {
+            for (const option of options) {
+                keys.push(templateScopeKey(assetType, customerId, option));
+            }
+        }
+    }
+    return keys;
+}
+
+/**
+ * Spécificité d'un template : client (2) puis type d'asset (1)
+ */
+function specificity(template: StepTemplateEntity): number {
+    return (template.customerId ? 2 : 0) + (template.assetType ? 1 : 0);
+}
+
+function mostSpecific(templates: StepTemplateEntity[]): StepTemplateEntity | null {
+    return templates.reduce<StepTemplateEntity | null>(
+        (best, t) => (!best || specificity(t) > specificity(best) ? t : best),
+        null
+    );
+}
+
+/**
+ * Étape retenue selon ses conditions sur les options demandées
+ */
+function isStepApplicable(step: StepTemplateStepEntity, options: string[]): boolean {
+    if (step.onlyIfOption && !options.includes(step.onlyIfOption)) {
+        return false;
+    }
+    if (step.unlessOption && options.includes(step.unlessOption)) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Construit les étapes d'une tâche à partir des dernières versions applicables
+ *
+ * @param latest dernière version de chaque clé candidate
+ * @param builtIn étapes intégrées si aucun template de base ne correspond
+ */
+export function resolveTaskSteps(
+    assetId: string,
+    latest: StepTemplateEntity[],
+    context: StepTemplateContext,
+    builtIn: CreateTaskStepDto[]
+): ResolvedTaskSteps {
+    const options = context.options ?? [];
+    const base = mostSpecific(latest.filter(t => t.option === null));
+
+    // Un template par option demandée, dans l'ordre de la demande
+    const addOns = options
+        .map(option => mostSpecific(latest.filter(t => t.option === option)))
+        .filter((t): t is StepTemplateEntity => t !== null);
+
+    const fromTemplates = (templates: StepTemplateEntity[]): CreateTaskStepDto[] =>
+        templates.flatMap(template => template.steps
+            .filter(step => isStepApplicable(step, options))
+            .map(step => ({
+                stepOrder: step.stepOrder,
+                description: step.description,
+                scanRequired: step.scanRequired,
+                expectedCode: step.expectAssetScan ? assetId : step.expectedCode ?? undefined,
+                templateId: template.id,
+                inputType: step.inputType,
+                unit: step.unit ?? undefined,
+                minValue: step.minValue ?? undefined,
+                maxValue: step.maxValue ?? undefined
+            })));
+
+    // Étapes intégrées : le premier scan attend l'assetId
+    const baseSteps = base
+        ? fromTemplates([base])
+        : builtIn.map((step, index) => ({
+            ...step,
+            expectedCode: step.scanRequired && index === 0 ? assetId : step.expectedCode
+        }));
+
+    const steps = [...baseSteps, ...fromTemplates(addOns)]
+        .map((step, index) => ({ ...step, stepOrder: index + 1 }));
+
+    return {
+        steps,
+        templates: (base ? [base, ...addOns] : addOns).map(t => ({ id: t.id, version: t.version, option: t.option })),
+        builtIn: !base
+    };
+}
+
+// ========== ERRORS ==========
+
+/**
+ * Erreur : Template d'étapes non trouvé
+ */
+export class StepTemplateNotFoundError extends Error {
+    constructor(public readonly templateId: string) {
+        super(`Step template ${templateId} not found`);
+        this.name = 'StepTemplateNotFoundError';
+    }
+}
+
+/**
+ * Erreur : Template d'étapes incohérent (ordre, saisie, conditions)
+ */
+export class InvalidStepTemplateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidStepTemplateError';
+    }
+}
+
+/**
+ * Erreur : Version créée en parallèle pour la même clé
+ */
+export class StepTemplateVersionConflictError extends Error {
+    constructor(
+        public readonly taskType: TaskType,
+        public readonly scopeKey: string,
+        public readonly version: number
+    ) {
+        super(`Step template ${taskType} ${scopeKey} v${version} already exists`);
+        this.name = 'StepTemplateVersionConflictError';
+    }
+}
+
+// Re-export enums
+export { StepInputType };
@@ -5,15 +5,23 @@
  * RÈGLE ABSOLUE : Le WMS commande, l'opérateur exécute
  */
 
-import { TaskType, TaskStatus } from '@prisma/client';
+import { TaskType, TaskStatus, TaskPriority, StepInputType } from '@prisma/client';
 
 // ========== ENTITIES ==========
 
 export interface WmsTaskEntity {
     id: string;
     assetId: string;
+    orderId: string | null;
     type: TaskType;
     status: TaskStatus;
+    priority: TaskPriority;
+    dueBy: Date | null;
+    zone: string | null;
+    requiredCertification: string | null;
+    batchId: string | null;         // Lot de picking groupé (exécution par lot uniquement)
+    pickSequence: number | null;    // Rang dans le chemin de prélèvement du lot
+    locationCode: string | null;    // Emplacement de prélèvement figé à la planification
     operatorId: string | null;
     createdAt: Date;
     startedAt: Date | null;
@@ -28,6 +36,12 @@ export interface TaskStepEntity {
     scanRequired: boolean;
     expectedCode: string | null;
     scannedCode: string | null;
+    templateId: string | null;
+    inputType: StepInputType;
+    unit: string | null;
+    minValue: number | null;
+    maxValue: number | null;
+    measuredValue: string | null;
     completed: boolean;
     completedAt: Date | null;
 }
@@ -45,32 +59,87 @@ export interface ScanLogEntity {
 
 export interface CreateTaskDto {
     assetId: string;
+    orderId?: string;
     type: TaskType;
+    priority?: TaskPriority;
+    dueBy?: Date;
+    zone?: string;
+    requiredCertification?: string;
     steps: CreateTaskStepDto[];
 }
 
+/**
+ * Ordonnancement d'une tâche à la création
+ * Sans priority explicite, la priorité est dérivée de la date promise ;
+ * assetType, customerId et options sélectionnent le template d'étapes
+ */
+export interface TaskSchedulingDto {
+    promisedDate?: Date;            // Date d'expédition promise au client
+    priority?: TaskPriority;
+    zone?: string;                  // Zone de l'entrepôt où se trouve l'asset
+    requiredCertification?: string; // Ex. 'ESD', 'FORKLIFT'
+    assetType?: string;             // Ex. 'SERVER', 'LAPTOP'
+    customerId?: string;
+    options?: string[];             // Options premium, ex. 'LABELING', 'SOFTWARE_PREINSTALL'
+}
+
+/**
+ * Filtres de recherche des tâches (au moins un critère)
+ */
+export interface TaskFilter {
+    orderId?: string;
+    assetId?: string;
+}
+
 export interface CreateTaskStepDto {
     stepOrder: number;
     description: string;
     scanRequired?: boolean;
     expectedCode?: string;
+    templateId?: string;
+    inputType?: StepInputType;
+    unit?: string;
+    minValue?: number;
+    maxValue?: number;
+}
+
+/**
+ * Tâche classée dans la file d'un opérateur (ou la file globale)
+ */
+export interface RankedTaskEntity {
+    position: number;               // 1 = prochaine tâche attribuée
+    task: WmsTaskEntity;
+    effectivePriority: TaskPriority;
+    overdue: boolean;
+    inHomeZone: boolean;
 }
 
 export interface StartTaskDto {
     operatorId: string;
     scanCode: string;
+    scannedAt?: Date;               // Horodatage appareil (scan hors ligne), défaut : maintenant
 }
 
 export interface ExecuteStepDto {
     stepId: string;
-    scanCode: string;
+    scanCode?: string;              // Obligatoire si l'étape exige un scan
+    measuredValue?: string;         // Obligatoire si l'étape attend une saisie
+    scannedAt?: Date;               // Horodatage appareil (scan hors ligne), défaut : maintenant
+}
+
+/**
+ * Dérogation superviseur : clôture sans scan d'une tâche de la façade v0
+ */
+export interface ScanOverrideDto {
+    supervisorId: string;
+    reason: string;                 // Motif tracé dans le DecisionLog
 }
 
 // ========== TASK TEMPLATES ==========
 
 /**
- * Templates d'étapes par type de tâche
- * Chaque type a ses étapes obligatoires avec scan
+ * Étapes intégrées par type de tâche
+ * Appliquées quand aucun template de base ne correspond (voir stepTemplate.types)
  */
 export const TASK_STEP_TEMPLATES: Record<TaskType, CreateTaskStepDto[]> = {
     PICKING: [
@@ -96,6 +165,83 @@ export const TASK_STEP_TEMPLATES: Record<TaskType, CreateTaskStepDto[]> = {
     ]
 };
 
+/**
+ * Statuts d'une tâche non terminée
+ */
+export const OPEN_TASK_STATUSES: TaskStatus[] = [TaskStatus.PENDING, TaskStatus.IN_PROGRESS, TaskStatus.BLOCKED];
+
+/**
+ * Action gouvernance tracée dans le DecisionLog à chaque clôture sans scan
+ */
+export const OVERRIDE_TASK_SCAN_ACTION = 'OVERRIDE_TASK_SCAN';
+
+// ========== DISPATCH ==========
+
+/**
+ * Heures à réserver, après la fin de la tâche, aux étapes suivantes de la commande
+ * (dueBy = date promise - délai aval)
+ */
+export const TASK_DOWNSTREAM_LEAD_HOURS: Record<TaskType, number> = {
+    PICKING: 24,
+    ASSEMBLY: 16,
+    QA: 8,
+    SHIPPING: 2
+};
+
+/**
+ * Échéance en deçà de laquelle une tâche passe URGENT / HIGH
+ */
+export const URGENT_WITHIN_HOURS = 4;
+export const HIGH_WITHIN_HOURS = 24;
+
+/**
+ * Nombre max de tâches candidates chargées pour le classement d'un opérateur
+ */
+export const DISPATCH_CANDIDATE_LIMIT = 200;
+
+/**
+ * Rang numérique des priorités (plus grand = plus prioritaire)
+ */
+export const TASK_PRIORITY_RANK: Record<TaskPriority, number> = {
+    LOW: 0,
+    NORMAL: 1,
+    HIGH: 2,
+    URGENT: 3
+};
+
+/**
+ * Échéance d'une tâche à partir de la date promise de la commande
+ */
+export function computeDueBy(type: TaskType, promisedDate: Date): Date {
+    return new Date(promisedDate.getTime() - TASK_DOWNSTREAM_LEAD_HOURS[type] * 3600000);
+}
+
+/**
+ * Priorité induite par l'échéance (NORMAL sans échéance)
+ */
+export function priorityForDueBy(dueBy: Date | null, now: Date): TaskPriority {
+    if (!dueBy) {
+        return TaskPriority.NORMAL;
+    }
+    const hoursLeft = (dueBy.getTime() - now.getTime()) / 3600000;
+    if (hoursLeft <= URGENT_WITHIN_HOURS) {
+        return TaskPriority.URGENT;
+    }
+    if (hoursLeft <= HIGH_WITHIN_HOURS) {
+        return TaskPriority.HIGH;
+    }
+    return TaskPriority.NORMAL;
+}
+
+/**
+ * Priorité effective au moment du dispatch : la priorité enregistrée,
+ * relevée si l'échéance s'est rapprochée depuis la création
+ */
+export function effectivePriority(task: WmsTaskEntity, now: Date): TaskPriority {
+    const fromDueBy = priorityForDueBy(task.dueBy, now);
+    return TASK_PRIORITY_RANK[fromDueBy] > TASK_PRIORITY_RANK[task.priority] ? fromDueBy : task.priority;
+}
+
 // ========== ERRORS ==========
 
 /**
@@ -160,6 +306,20 @@ export class StepNotFoundError extends Error {
     }
 }
 
+/**
+ * Erreur : Scan manquant ou valeur mesurée absente / hors tolérance
+ * (l'étape reste à faire, la tâche n'est pas bloquée)
+ */
+export class InvalidStepInputError extends Error {
+    constructor(
+        public readonly stepId: string,
+        public readonly reason: string
+    ) {
+        super(`Invalid input for step ${stepId}: ${reason}`);
+        this.name = 'InvalidStepInputError';
+    }
+}
+
 /**
  * Erreur : Étapes incomplètes
  */
@@ -196,5 +356,39 @@ export class OperatorNotFoundError extends Error {
     }
 }
 
+/**
+ * Erreur : Opérateur sans la compétence ou la certification requise
+ */
+export class OperatorNotQualifiedError extends Error {
+    constructor(
+        public readonly operatorId: string,
+        public readonly taskId: string,
+        public readonly missing: string
+    ) {
+        super(`Operator ${operatorId} is not qualified for task ${taskId} (missing ${missing})`);
+        this.name = 'OperatorNotQualifiedError';
+    }
+}
+
+/**
+ * Erreur : Dérogation de scan incohérente (motif manquant, tâche démarrée par un opérateur)
+ */
+export class InvalidScanOverrideError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidScanOverrideError';
+    }
+}
+
+/**
+ * Erreur : Superviseur sans la permission de clôturer sans scan (refus gouvernance)
+ */
+export class ScanOverrideNotAuthorizedError extends Error {
+    constructor(public readonly supervisorId: string) {
+        super(`Supervisor ${supervisorId} is not allowed to complete tasks without scans`);
+        this.name = 'ScanOverrideNotAuthorizedError';
+    }
+}
+
 // Re-export enums
-export { TaskType, TaskStatus };
+export { TaskType, TaskStatus, TaskPriority };
@@ -0,0 +1,134 @@
+/**
+ * Task Block Domain Types
+ * Blocages de tâches WMS et leur résolution par un superviseur
+ *
+ * BLOCKED → PENDING     : retour dans la file, étapes remises à zéro
+ * BLOCKED → IN_PROGRESS : reprise là où la tâche s'est arrêtée
+ *                         (même opérateur ou réassignation)
+ */
+
+import { TaskBlockCause, BlockResolutionCode, TaskStatus, TaskType, TaskPriority } from '@prisma/client';
+
+// ========== ENTITIES ==========
+
+export interface TaskBlockEntity {
+    id: string;
+    taskId: string;
+    cause: TaskBlockCause;
+    detail: string | null;
+    stepId: string | null;
+    previousStatus: TaskStatus;
+    operatorId: string | null;
+    blockedAt: Date;
+    resolutionCode: BlockResolutionCode | null;
+    resolutionNote: string | null;
+    resolvedBy: string | null;
+    decisionId: string | null;
+    resumedStatus: TaskStatus | null;
+    resumedOperatorId: string | null;
+    resolvedAt: Date | null;
+}
+
+// ========== DTOs ==========
+
+export interface OpenTaskBlockDto {
+    cause: TaskBlockCause;
+    detail?: string;
+    stepId?: string;
+    previousStatus: TaskStatus;
+    operatorId?: string | null;
+    blockedAt?: Date;                           // Horodatage appareil (scan hors ligne)
+}
+
+/**
+ * Résolution d'un blocage par un superviseur
+ */
+export interface ResolveBlockDto {
+    supervisorId: string;
+    reasonCode: BlockResolutionCode;
+    note?: string;                              // Obligatoire pour OTHER
+    resumeStatus: TaskStatus;                   // PENDING ou IN_PROGRESS
+    reassignToOperatorId?: string;              // IN_PROGRESS uniquement
+}
+
+export interface ResolveBlockResult {
+    block: TaskBlockEntity;
+    taskId: string;
+    status: TaskStatus;
+    operatorId: string | null;
+}
+
+// ========== DASHBOARD ==========
+
+export interface BlockedTaskView {
+    taskId: string;
+    blockId: string;
+    assetId: string;
+    orderId: string | null;
+    type: TaskType;
+    priority: TaskPriority;
+    cause: TaskBlockCause;
+    detail: string | null;
+    previousStatus: TaskStatus;
+    operatorId: string | null;
+    blockedAt: Date;
+    ageMinutes: number;
+}
+
+export interface BlockedTasksDashboard {
+    generatedAt: Date;
+    total: number;
+    oldestAgeMinutes: number | null;
+    byCause: Record<TaskBlockCause, number>;
+    tasks: BlockedTaskView[];               // Plus anciens d'abord
+}
+
+// ========== CONSTANTS ==========
+
+/**
+ * Action gouvernance tracée dans le DecisionLog à chaque résolution
+ */
+export const RESOLVE_BLOCKED_TASK_ACTION = 'RESOLVE_BLOCKED_TASK';
+
+/**
+ * Statuts de reprise possibles après un blocage
+ */
+export const RESUMABLE_STATUSES: TaskStatus[] = [TaskStatus.PENDING, TaskStatus.IN_PROGRESS];
+
+// ========== ERRORS ==========
+
+/**
+ * Erreur : Tâche sans blocage ouvert
+ */
+export class TaskNotBlockedError extends Error {
+    constructor(
+        public readonly taskId: string,
+        public readonly currentStatus: TaskStatus
+    ) {
+        super(`Task ${taskId} is not BLOCKED (current: ${currentStatus})`);
+        this.name = 'TaskNotBlockedError';
+    }
+}
+
+/**
+ * Erreur : Résolution incohérente (motif, statut de reprise, réassignation)
+ */
+export class InvalidBlockResolutionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidBlockResolutionError';
+    }
+}
+
+/**
+ * Erreur : Superviseur sans la permission de débloquer (refus gouvernance)
+ */
+export class ResolutionNotAuthorizedError extends Error {
+    constructor(public readonly supervisorId: string) {
+        super(`Supervisor ${supervisorId} is not allowed to resolve blocked tasks`);
+        this.name = 'ResolutionNotAuthorizedError';
+    }
+}
+
+// Re-export enums
+export { TaskBlockCause, BlockResolutionCode };
@@ -0,0 +1,219 @@
+/**
+ * Wave Domain Types
+ * Vagues de préparation et picking groupé
+ *
+ * Une vague regroupe les tâches PICKING à expédier avant une coupure
+ * transporteur ; elle est découpée en lots (une zone, commandes entières)
+ * exécutés chacun par un seul opérateur le long d'un chemin optimisé.
+ */
+
+import { PickBatchStatus } from '@prisma/client';
+import { WmsTaskEntity } from './task.types';
+
+// ========== ENTITIES ==========
+
+export interface PickWaveEntity {
+    id: string;
+    cutoffAt: Date;
+    createdBy: string | null;
+    createdAt: Date;
+}
+
+export interface PickBatchEntity {
+    id: string;
+    waveId: string;
+    zone: string;
+    status: PickBatchStatus;
+    operatorId: string | null;
+    blockedCount: number;
+    createdAt: Date;
+    startedAt: Date | null;
+    completedAt: Date | null;
+}
+
+// ========== DTOs ==========
+
+export interface PlanWaveDto {
+    cutoffAt: Date;                 // Coupure transporteur : tâches dont dueBy <= cutoffAt
+    maxTasksPerBatch?: number;
+    maxOrdersPerBatch?: number;
+    createdBy?: string;
+}
+
+export interface RecordPickDto {
+    operatorId: string;
+    scanCode: string;               // Code de l'asset prélevé
+    locationCode?: string;          // Scan de l'emplacement (optionnel, vérifié si fourni)
+}
+
+/**
+ * Ligne de lot à persister (résultat de la planification)
+ */
+export interface PlannedBatch {
+    zone: string;
+    tasks: Array<{ taskId: string; locationCode: string }>;   // Dans l'ordre du chemin
+}
+
+// ========== VIEWS ==========
+
+export interface PickListLine {
+    sequence: number | null;
+    taskId: string;
+    assetId: string;
+    orderId: string | null;
+    locationCode: string | null;
+    status: WmsTaskEntity['status'];
+}
+
+export interface PickBatchView extends PickBatchEntity {
+    picked: number;
+    remaining: number;
+    next: PickListLine | null;
+    pickList: PickListLine[];
+}
+
+export interface SkippedWaveTask {
+    taskId: string;
+    reason: 'UNLOCATED' | 'NO_LONGER_PENDING';
+}
+
+export interface PickWaveView extends PickWaveEntity {
+    batches: PickBatchView[];
+    skipped: SkippedWaveTask[];
+}
+
+// ========== CONSTANTS ==========
+
+export const DEFAULT_MAX_TASKS_PER_BATCH = 50;
+export const DEFAULT_MAX_ORDERS_PER_BATCH = 10;
+
+/**
+ * Séparateurs des codes emplacement (ZONE-ALLÉE-TRAVÉE[-NIVEAU])
+ */
+const LOCATION_CODE_SEPARATOR = /[-_.\s/]+/;
+
+// ========== PICK PATH ==========
+
+/**
+ * Zone d'un emplacement : premier segment du code
+ */
+export function zoneOfLocation(locationCode: string): string {
+    return locationCode.split(LOCATION_CODE_SEPARATOR)[0] ?? locationCode;
+}
+
+function compareSegments(a: string, b: string): number {
+    return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+/**
+ * Chemin de prélèvement en S (serpentin) :
+ * zones puis allées dans l'ordre, travées montantes dans une allée sur deux
+ * et descendantes dans l'autre, pour ne jamais revenir en tête d'allée.
+ */
+export function sortByPickPath<T extends { locationCode: string }>(items: T[]): T[] {
+    const parsed = items.map(item => ({ item, segments: item.locationCode.split(LOCATION_CODE_SEPARATOR) }));
+
+    // Rang de chaque allée (zone + allée) dans l'ordre de parcours
+    const aisleKeys = Array.from(new Set(parsed.map(p => `${p.segments[0] ?? ''}|${p.segments[1] ?? ''}`)))
+        .sort((a, b) => {
+            const [zoneA = '', aisleA = ''] = a.split('|');
+            const [zoneB = '', aisleB = ''] = b.split('|');
+            return compareSegments(zoneA, zoneB) || compareSegments(aisleA, aisleB);
+        });
+    const aisleRank = new Map(aisleKeys.map((key, index) => [key, index]));
+
+    return parsed
+        .sort((a, b) => {
+            const rankA = aisleRank.get(`${a.segments[0] ?? ''}|${a.segments[1] ?? ''}`) ?? 0;
+            const rankB = aisleRank.get(`${b.segments[0] ?? ''}|${b.segments[1] ?? ''}`) ?? 0;
+            if (rankA !== rankB) {
+                return rankA - rankB;
+            }
+            const direction = rankA % 2 === 0 ? 1 : -1;
+            const restA = a.segments.slice(2);
+            const restB = b.segments.slice(2);
+            for (let i = 0; i < Math.max(restA.length, restB.length); i++) {
+                const diff = compareSegments(restA[i] ?? '', restB[i] ?? '');
+                if (diff !== 0) {
+                    return diff * direction;
+                }
+            }
+            return 0;
+        })
+        .map(p => p.item);
+}
+
+// ========== ERRORS ==========
+
+/**
+ * Erreur : Vague non trouvée
+ */
+export class WaveNotFoundError extends Error {
+    constructor(public readonly waveId: string) {
+        super(`Wave ${waveId} not found`);
+        this.name = 'WaveNotFoundError';
+    }
+}
+
+/**
+ * Erreur : Lot non trouvé
+ */
+export class PickBatchNotFoundError extends Error {
+    constructor(public readonly batchId: string) {
+        super(`Pick batch ${batchId} not found`);
+        this.name = 'PickBatchNotFoundError';
+    }
+}
+
+/**
+ * Erreur : Aucune tâche PICKING localisée à planifier avant la coupure
+ */
+export class EmptyWaveError extends Error {
+    constructor(public readonly cutoffAt: Date) {
+        super(`No pending PICKING task with a known location is due before ${cutoffAt.toISOString()}`);
+        this.name = 'EmptyWaveError';
+    }
+}
+
+/**
+ * Erreur : Opération incompatible avec le statut du lot
+ */
+export class PickBatchStatusError extends Error {
+    constructor(
+        public readonly batchId: string,
+        public readonly currentStatus: PickBatchStatus,
+        public readonly expectedStatus: PickBatchStatus
+    ) {
+        super(`Pick batch ${batchId} is ${currentStatus} (expected ${expectedStatus})`);
+        this.name = 'PickBatchStatusError';
+    }
+}
+
+/**
+ * Erreur : Scan par un autre opérateur que celui du lot
+ */
+export class BatchOperatorMismatchError extends Error {
+    constructor(
+        public readonly batchId: string,
+        public readonly operatorId: string
+    ) {
+        super(`Operator ${operatorId} is not assigned to pick batch ${batchId}`);
+        this.name = 'BatchOperatorMismatchError';
+    }
+}
+
+/**
+ * Erreur : Tâche rattachée à un lot (exécution par le lot uniquement)
+ */
+export class TaskInBatchError extends Error {
+    constructor(
+        public readonly taskId: string,
+        public readonly batchId: string
+    ) {
+        super(`Task ${taskId} belongs to pick batch ${batchId}`);
+        this.name = 'TaskInBatchError';
+    }
+}
+
+// Re-export enums
+export { PickBatchStatus };
@@ -3,10 +3,26 @@
  * Émission d'événements domaine avec logger structuré
  * 
  * Sprint 17 — Events pour les tâches WMS
+ *
+ * Chaque événement est publié dans l'outbox : l'émetteur s'appelle dans la
+ * transaction du changement métier (tx).
  */
 
+import { Prisma } from '@prisma/client';
 import { WmsTaskEntity } from '../domain/task.types';
+import { TaskBlockEntity } from '../domain/taskBlock.types';
+import { PickWaveEntity, PickBatchEntity } from '../domain/wave.types';
+import { ShipmentEntity } from '../domain/shipment.types';
+import { ReturnEntity } from '../domain/return.types';
+import { CarrierTrackingUpdate } from '../integrations/carrier.adapter';
+import { SyncOutcome } from '../domain/handheldSync.types';
 import { logger } from '../utils/logger';
+import { createServiceOutbox } from '@proinfo/shared';
+
+/**
+ * Outbox du service : chaque émetteur y écrit dans la transaction métier (tx)
+ */
+export const outbox = createServiceOutbox('wms-service');
 
 // ========== LEGACY EVENTS ==========
 
@@ -102,63 +118,318 @@ export interface TaskBlockedEvent {
     };
 }
 
+export interface TaskUnblockedEvent {
+    eventType: 'TaskUnblocked';
+    version: '1.0';
+    timestamp: Date;
+    payload: {
+        taskId: string;
+        blockId: string;
+        cause: string;
+        resolutionCode: string;
+        resolvedBy: string;
+        decisionId: string;
+        status: string;
+        operatorId: string | null;
+    };
+}
+
+export interface WavePlannedEvent {
+    eventType: 'WavePlanned';
+    version: '1.0';
+    timestamp: Date;
+    payload: {
+        waveId: string;
+        cutoffAt: Date;
+        batchCount: number;
+        taskCount: number;
+    };
+}
+
+export interface PickBatchStartedEvent {
+    eventType: 'PickBatchStarted';
+    version: '1.0';
+    timestamp: Date;
+    payload: {
+        batchId: string;
+        waveId: string;
+        operatorId: string;
+        taskCount: number;
+    };
+}
+
+export interface PickBatchCompletedEvent {
+    eventType: 'PickBatchCompleted';
+    version: '1.0';
+    timestamp: Date;
+    payload: {
+        batchId: string;
+        waveId: string;
+        operatorId: string | null;
+        picked: number;
+        blocked: number;
+    };
+}
+
+export interface AssetDeliveredEvent {
+    eventType: 'AssetDelivered';
+    version: '1.0';
+    timestamp: Date;
+    payload: {
+        shipmentId: string;
+        assetId: string;
+        carrier: string;
+        trackingRef: string | null;
+        deliveredAt: Date;
+    };
+}
+
+export interface ShipmentExceptionEvent {
+    eventType: 'ShipmentException';
+    version: '1.0';
+    timestamp: Date;
+    payload: {
+        shipmentId: string;
+        assetId: string;
+        carrier: string;
+        trackingNumber: string;
+        description: string | null;
+    };
+}
+
+export interface ReturnReceivedEvent {
+    eventType: 'ReturnReceived';
+    version: '1.0';
+    timestamp: Date;
+    payload: {
+        returnId: string;
+        rmaId: string | null;
+        assetId: string;
+        condition: string | null;
+        qaTaskId: string | null;
+        receivedBy: string | null;
+    };
+}
+
+export interface ReturnDisposedEvent {
+    eventType: 'ReturnDisposed';
+    version: '1.0';
+    timestamp: Date;
+    payload: {
+        returnId: string;
+        rmaId: string | null;
+        assetId: string;
+        disposition: string | null;
+        disposedBy: string | null;
+    };
+}
+
 // ========== LEGACY EMIT FUNCTIONS ==========
 
-export function emitPickingCreated(picking: { id: string; assetId: string }): void {
-    logger.event('PickingCreated', { pickingId: picking.id, assetId: picking.assetId });
+export async function emitPickingCreated(tx: Prisma.TransactionClient, picking: { id: string; assetId: string }): Promise<void> {
+    const payload = { pickingId: picking.id, assetId: picking.assetId };
+
+    await outbox.publish(tx, { type: 'PickingCreated', aggregateType: 'Picking', aggregateId: picking.id, payload });
+    logger.event('PickingCreated', payload);
 }
 
-export function emitPickingCompleted(picking: { id: string; assetId: string }): void {
-    logger.event('PickingCompleted', { pickingId: picking.id, assetId: picking.assetId });
+export async function emitPickingCompleted(tx: Prisma.TransactionClient, picking: { id: string; assetId: string }): Promise<void> {
+    const payload = { pickingId: picking.id, assetId: picking.assetId };
+
+    await outbox.publish(tx, { type: 'PickingCompleted', aggregateType: 'Picking', aggregateId: picking.id, payload });
+    logger.event('PickingCompleted', payload);
 }
 
-export function emitAssemblyCompleted(assembly: { id: string; assetId: string }): void {
-    logger.event('AssemblyCompleted', { assemblyId: assembly.id, assetId: assembly.assetId });
+export async function emitAssemblyCompleted(tx: Prisma.TransactionClient, assembly: { id: string; assetId: string }): Promise<void> {
+    const payload = { assemblyId: assembly.id, assetId: assembly.assetId };
+
+    await outbox.publish(tx, { type: 'AssemblyCompleted', aggregateType: 'Assembly', aggregateId: assembly.id, payload });
+    logger.event('AssemblyCompleted', payload);
 }
 
-export function emitAssetShipped(shipment: { id: string; assetId: string; carrier: string; trackingRef: string | null }): void {
-    logger.event('AssetShipped', {
+export async function emitAssetShipped(
+    tx: Prisma.TransactionClient,
+    shipment: { id: string; assetId: string; carrier: string; trackingRef: string | null }
+): Promise<void> {
+    const payload = {
         shipmentId: shipment.id,
         assetId: shipment.assetId,
         carrier: shipment.carrier,
         trackingRef: shipment.trackingRef
-    });
+    };
+
+    await outbox.publish(tx, { type: 'AssetShipped', aggregateType: 'Shipment', aggregateId: shipment.id, payload });
+    logger.event('AssetShipped', payload);
 }
 
-export function emitAssetReturned(ret: { id: string; assetId: string; reason: string }): void {
-    logger.event('AssetReturned', { returnId: ret.id, assetId: ret.assetId, reason: ret.reason });
+export async function emitAssetReturned(tx: Prisma.TransactionClient, ret: { id: string; assetId: string; reason: string }): Promise<void> {
+    const payload = { returnId: ret.id, assetId: ret.assetId, reason: ret.reason };
+
+    await outbox.publish(tx, { type: 'AssetReturned', aggregateType: 'Return', aggregateId: ret.id, payload });
+    logger.event('AssetReturned', payload);
 }
 
 // ========== SPRINT 17 EMIT FUNCTIONS ==========
 
-export function emitTaskStarted(task: WmsTaskEntity): void {
-    logger.event('TaskStarted', {
+export async function emitTaskStarted(tx: Prisma.TransactionClient, task: WmsTaskEntity): Promise<void> {
+    const payload = {
         taskId: task.id,
         assetId: task.assetId,
         type: task.type,
         operatorId: task.operatorId
-    });
+    };
+
+    await outbox.publish(tx, { type: 'TaskStarted', aggregateType: 'Task', aggregateId: task.id, payload });
+    logger.event('TaskStarted', payload);
 }
 
-export function emitTaskCompleted(task: WmsTaskEntity): void {
+export async function emitTaskCompleted(tx: Prisma.TransactionClient, task: WmsTaskEntity): Promise<void> {
     const duration = task.startedAt && task.endedAt
         ? task.endedAt.getTime() - task.startedAt.getTime()
         : null;
 
-    logger.event('TaskCompleted', {
+    const payload = {
         taskId: task.id,
         assetId: task.assetId,
         type: task.type,
         operatorId: task.operatorId,
         duration
-    });
+    };
+
+    await outbox.publish(tx, { type: 'TaskCompleted', aggregateType: 'Task', aggregateId: task.id, payload });
+    logger.event('TaskCompleted', payload);
 }
 
-export function emitTaskBlocked(task: WmsTaskEntity, reason: string): void {
-    logger.event('TaskBlocked', {
+export async function emitTaskBlocked(tx: Prisma.TransactionClient, task: WmsTaskEntity, reason: string): Promise<void> {
+    const payload = {
         taskId: task.id,
         assetId: task.assetId,
         type: task.type,
         reason
-    });
+    };
+
+    await outbox.publish(tx, { type: 'TaskBlocked', aggregateType: 'Task', aggregateId: task.id, payload });
+    logger.event('TaskBlocked', payload);
+}
+
+export async function emitTaskUnblocked(tx: Prisma.TransactionClient, task: WmsTaskEntity, block: TaskBlockEntity): Promise<void> {
+    const payload = {
+        taskId: task.id,
+        blockId: block.id,
+        cause: block.cause,
+        resolutionCode: block.resolutionCode,
+        resolvedBy: block.resolvedBy,
+        decisionId: block.decisionId,
+        status: task.status,
+        operatorId: task.operatorId
+    };
+
+    await outbox.publish(tx, { type: 'TaskUnblocked', aggregateType: 'Task', aggregateId: task.id, payload });
+    logger.event('TaskUnblocked', payload);
+}
+
+export async function emitWavePlanned(tx: Prisma.TransactionClient, wave: PickWaveEntity, batchCount: number, taskCount: number): Promise<void> {
+    const payload = {
+        waveId: wave.id,
+        cutoffAt: wave.cutoffAt,
+        batchCount,
+        taskCount
+    };
+
+    await outbox.publish(tx, { type: 'WavePlanned', aggregateType: 'PickWave', aggregateId: wave.id, payload });
+    logger.event('WavePlanned', payload);
+}
+
+export async function emitPickBatchStarted(tx: Prisma.TransactionClient, batch: PickBatchEntity, taskCount: number): Promise<void> {
+    const payload = {
+        batchId: batch.id,
+        waveId: batch.waveId,
+        operatorId: batch.operatorId,
+        taskCount
+    };
+
+    await outbox.publish(tx, { type: 'PickBatchStarted', aggregateType: 'PickBatch', aggregateId: batch.id, payload });
+    logger.event('PickBatchStarted', payload);
+}
+
+export async function emitPickBatchCompleted(tx: Prisma.TransactionClient, batch: PickBatchEntity, picked: number, blocked: number): Promise<void> {
+    const payload = {
+        batchId: batch.id,
+        waveId: batch.waveId,
+        operatorId: batch.operatorId,
+        picked,
+        blocked
+    };
+
+    await outbox.publish(tx, { type: 'PickBatchCompleted', aggregateType: 'PickBatch', aggregateId: batch.id, payload });
+    logger.event('PickBatchCompleted', payload);
+}
+
+export async function emitAssetDelivered(tx: Prisma.TransactionClient, shipment: ShipmentEntity, deliveredAt: Date): Promise<void> {
+    const payload = {
+        shipmentId: shipment.id,
+        assetId: shipment.assetId,
+        carrier: shipment.carrier,
+        trackingRef: shipment.trackingRef,
+        deliveredAt
+    };
+
+    await outbox.publish(tx, { type: 'AssetDelivered', aggregateType: 'Shipment', aggregateId: shipment.id, payload });
+    logger.event('AssetDelivered', payload);
+}
+
+export async function emitShipmentException(tx: Prisma.TransactionClient, shipment: ShipmentEntity, update: CarrierTrackingUpdate): Promise<void> {
+    const payload = {
+        shipmentId: shipment.id,
+        assetId: shipment.assetId,
+        carrier: shipment.carrier,
+        trackingNumber: update.trackingNumber,
+        description: update.description ?? null
+    };
+
+    await outbox.publish(tx, { type: 'ShipmentException', aggregateType: 'Shipment', aggregateId: shipment.id, payload });
+    logger.event('ShipmentException', payload);
+}
+
+export async function emitReturnReceived(tx: Prisma.TransactionClient, ret: ReturnEntity): Promise<void> {
+    const payload = {
+        returnId: ret.id,
+        rmaId: ret.rmaId,
+        assetId: ret.assetId,
+        condition: ret.condition,
+        qaTaskId: ret.qaTaskId,
+        receivedBy: ret.receivedBy
+    };
+
+    await outbox.publish(tx, { type: 'ReturnReceived', aggregateType: 'Return', aggregateId: ret.id, payload });
+    logger.event('ReturnReceived', payload);
+}
+
+export async function emitReturnDisposed(tx: Prisma.TransactionClient, ret: ReturnEntity): Promise<void> {
+    const payload = {
+        returnId: ret.id,
+        rmaId: ret.rmaId,
+        assetId: ret.assetId,
+        disposition: ret.disposition,
+        disposedBy: ret.disposedBy
+    };
+
+    await outbox.publish(tx, { type: 'ReturnDisposed', aggregateType: 'Return', aggregateId: ret.id, payload });
+    logger.event('ReturnDisposed', payload);
+}
+
+export async function emitHandheldSynced(
+    tx: Prisma.TransactionClient,
+    deviceId: string,
+    operatorId: string,
+    summary: Record<SyncOutcome, number>
+): Promise<void> {
+    const payload = {
+        deviceId,
+        operatorId,
+        ...summary
+    };
+
+    await outbox.publish(tx, { type: 'HandheldSynced', aggregateType: 'HandheldDevice', aggregateId: deviceId, payload });
+    logger.event('HandheldSynced', payload);
 }
@@ -37,7 +37,13 @@ export class AssetServiceError extends Error {
  */
 export interface AssetServiceClient {
     getAsset(assetId: string): Promise<AssetServiceResponse>;
-    changeStatus(assetId: string, newStatus: string, reason?: string): Promise<AssetServiceResponse>;
+    changeStatus(
+        assetId: string,
+        newStatus: string,
+        reason?: string,
+        reasonCode?: string,
+        dataWipeCertificateRef?: string
+    ): Promise<AssetServiceResponse>;
 }
 
 /**
@@ -69,16 +75,20 @@ export class HttpAssetServiceClient implements AssetServiceClient {
 
     /**
      * Change le statut d'un asset
+     * reasonCode : motif codifié exigé par certaines transitions (ex. RMA_REPAIR, DAMAGED)
+     * dataWipeCertificateRef : certificat d'effacement exigé par certaines transitions (ex. RMA → SELLABLE)
      */
     async changeStatus(
         assetId: string,
         newStatus: string,
-        reason?: string
+        reason?: string,
+        reasonCode?: string,
+        dataWipeCertificateRef?: string
     ): Promise<AssetServiceResponse> {
         const response = await fetch(`${this.baseUrl}/assets/${assetId}/status`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ newStatus, reason })
+            body: JSON.stringify({ newStatus, reason, reasonCode, dataWipeCertificateRef })
         });
 
         if (!response.ok) {
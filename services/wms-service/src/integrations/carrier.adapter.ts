@@ -0,0 +1,115 @@
+/**
+ * Carrier Adapter
+ * Interface commune des transporteurs : réservation, étiquette, suivi
+ *
+ * Chaque transporteur intégré implémente CarrierAdapter et s'enregistre
+ * dans le CarrierRegistry sous son code (ex. FAKE, DHL_EXPRESS).
+ * Un transporteur absent du registre est traité en mode manuel.
+ */
+
+import { PackageType, TrackingStatus } from '@prisma/client';
+
+/**
+ * Adresse de livraison transmise au transporteur
+ */
+export interface CarrierAddress {
+    name: string;
+    line1: string;
+    line2?: string;
+    postalCode: string;
+    city: string;
+    country: string;            // ISO 3166-1 alpha-2
+}
+
+export interface CarrierPackage {
+    sequence: number;
+    type: PackageType;
+    weightKg: number;
+    lengthCm?: number;
+    widthCm?: number;
+    heightCm?: number;
+}
+
+export interface CarrierBookingRequest {
+    reference: string;          // ID de l'expédition WMS
+    assetId: string;
+    shipTo: CarrierAddress;
+    packages: CarrierPackage[];
+}
+
+export interface CarrierBooking {
+    trackingNumber: string;     // Numéro maître de l'expédition
+    packages: Array<{ sequence: number; trackingNumber: string }>;
+    labelPdf: Buffer;           // Étiquettes de tous les colis
+}
+
+/**
+ * Statut de suivi normalisé (quel que soit le format du transporteur)
+ */
+export interface CarrierTrackingUpdate {
+    trackingNumber: string;     // Maître ou colis
+    status: TrackingStatus;
+    occurredAt: Date;
+    description?: string;
+    location?: string;
+}
+
+/**
+ * Erreur renvoyée par un transporteur (réservation refusée, API indisponible)
+ */
+export class CarrierError extends Error {
+    constructor(
+        public readonly carrier: string,
+        public readonly statusCode: number,
+        public readonly details: string
+    ) {
+        super(`Carrier ${carrier} error (${statusCode}): ${details}`);
+        this.name = 'CarrierError';
+    }
+}
+
+/**
+ * Interface d'un transporteur intégré (injectable pour tests)
+ */
+export interface CarrierAdapter {
+    readonly code: string;
+    readonly supportsPallets: boolean;
+
+    /**
+     * Réserve l'enlèvement et retourne étiquettes et numéros de suivi
+     * La référence est la clé d'idempotence : une reprise après échec la renvoie à l'identique.
+     */
+    bookShipment(request: CarrierBookingRequest): Promise<CarrierBooking>;
+
+    /**
+     * Traduit le webhook de suivi du transporteur en statuts normalisés
+     * (payload invalide → CarrierError 400)
+     */
+    parseTrackingWebhook(payload: unknown): CarrierTrackingUpdate[];
+}
+
+/**
+ * Transporteurs intégrés disponibles, par code
+ */
+export class CarrierRegistry {
+    private readonly adapters = new Map<string, CarrierAdapter>();
+
+    constructor(adapters: CarrierAdapter[] = []) {
+        adapters.forEach(adapter => this.register(adapter));
+    }
+
+    register(adapter: CarrierAdapter): void {
+        this.adapters.set(adapter.code.toUpperCase(), adapter);
+    }
+
+    /**
+     * Adaptateur du transporteur (null = transporteur manuel)
+     */
+    get(code: string): CarrierAdapter | null {
+        return this.adapters.get(code.trim().toUpperCase()) ?? null;
+    }
+
+    codes(): string[] {
+        return Array.from(this.adapters.keys());
+    }
+}
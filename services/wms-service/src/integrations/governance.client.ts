@@ -0,0 +1,80 @@
+/**
+ * Governance Service Client
+ * Trace les décisions humaines (DecisionLog) auprès du Governance Service
+ */
+
+/**
+ * Décision journalisée par le Governance Service
+ */
+export interface DecisionRecord {
+    id: string;
+    actorId: string;
+    action: string;
+    entityType: string | null;
+    entityId: string | null;
+    delegatedBy: string | null;
+    createdAt: string;
+}
+
+export interface RecordDecisionRequest {
+    actorId: string;
+    action: string;
+    entityType: string;
+    entityId: string;
+    context?: Record<string, unknown>;
+}
+
+/**
+ * Erreur lors de l'appel au Governance Service (403 = permission refusée)
+ */
+export class GovernanceServiceError extends Error {
+    constructor(
+        public readonly statusCode: number,
+        public readonly details: string
+    ) {
+        super(`Governance Service error (${statusCode}): ${details}`);
+        this.name = 'GovernanceServiceError';
+    }
+}
+
+/**
+ * Interface pour le client Governance Service (injectable pour tests)
+ */
+export interface GovernanceServiceClient {
+    recordDecision(request: RecordDecisionRequest): Promise<DecisionRecord>;
+}
+
+/**
+ * Client HTTP par défaut pour Governance Service
+ */
+export class HttpGovernanceServiceClient implements GovernanceServiceClient {
+    private readonly baseUrl: string;
+
+    constructor(baseUrl?: string) {
+        this.baseUrl = baseUrl ?? process.env.GOVERNANCE_SERVICE_URL ?? 'http://localhost:3015';
+    }
+
+    /**
+     * Vérifie la permission de l'acteur et journalise la décision
+     */
+    async recordDecision(request: RecordDecisionRequest): Promise<DecisionRecord> {
+        let response: Response;
+        try {
+            response = await fetch(`${this.baseUrl}/governance/decisions`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(request)
+            });
+        } catch (error) {
+            throw new GovernanceServiceError(503, error instanceof Error ? error.message : String(error));
+        }
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            throw new GovernanceServiceError(response.status, errorBody);
+        }
+
+        const body = await response.json() as { data: DecisionRecord };
+        return body.data;
+    }
+}
@@ -25,6 +25,15 @@ export interface MovementResponse {
     createdAt: string;
 }
 
+/**
+ * Position courante d'un asset (Inventory Service)
+ */
+export interface AssetPositionResponse {
+    assetId: string;
+    locationId: string | null;
+    locationCode?: string;
+}
+
 /**
  * Erreur lors de l'appel à l'Inventory Service
  */
@@ -44,6 +53,8 @@ export class InventoryServiceError extends Error {
 export interface InventoryServiceClient {
     getReservation(assetId: string): Promise<ReservationResponse | null>;
     moveAsset(assetId: string, toLocation: string, reason: string): Promise<MovementResponse>;
+    getPosition(assetId: string): Promise<AssetPositionResponse>;
+    getMovements(assetId: string): Promise<MovementResponse[]>;
 }
 
 /**
@@ -98,4 +109,38 @@ export class HttpInventoryServiceClient implements InventoryServiceClient {
 
         return response.json() as Promise<MovementResponse>;
     }
+
+    /**
+     * Récupère l'emplacement courant d'un asset
+     */
+    async getPosition(assetId: string): Promise<AssetPositionResponse> {
+        const response = await fetch(`${this.baseUrl}/inventory/assets/${assetId}/position`, {
+            method: 'GET',
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            throw new InventoryServiceError(response.status, errorBody);
+        }
+
+        return response.json() as Promise<AssetPositionResponse>;
+    }
+
+    /**
+     * Historique des mouvements d'un asset
+     */
+    async getMovements(assetId: string): Promise<MovementResponse[]> {
+        const response = await fetch(`${this.baseUrl}/inventory/assets/${assetId}/movements`, {
+            method: 'GET',
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            throw new InventoryServiceError(response.status, errorBody);
+        }
+
+        return response.json() as Promise<MovementResponse[]>;
+    }
 }
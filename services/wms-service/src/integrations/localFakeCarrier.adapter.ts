@@ -0,0 +1,101 @@
+/**
+ * Local Fake Carrier
+ * Transporteur simulé (dev et tests) : aucune dépendance réseau
+ *
+ * - Numéros de suivi déterministes : FAKE-<référence>-<colis>
+ * - Étiquette : PDF d'une page listant les colis
+ * - Webhook : { trackingNumber, status, occurredAt, description?, location? }
+ *   ou { events: [...] }
+ */
+
+import { TrackingStatus } from '@prisma/client';
+import {
+    CarrierAdapter,
+    CarrierBooking,
+    CarrierBookingRequest,
+    CarrierTrackingUpdate,
+    CarrierError
+} from './carrier.adapter';
+
+export const FAKE_CARRIER_CODE = 'FAKE';
+
+export class LocalFakeCarrier implements CarrierAdapter {
+    readonly code = FAKE_CARRIER_CODE;
+    readonly supportsPallets = true;
+
+    async bookShipment(request: CarrierBookingRequest): Promise<CarrierBooking> {
+        const base = `FAKE-${request.reference.replace(/-/g, '').slice(0, 12).toUpperCase()}`;
+        const packages = request.packages.map(p => ({
+            sequence: p.sequence,
+            trackingNumber: `${base}-${p.sequence}`
+        }));
+
+        const lines = [
+            `FAKE CARRIER - ${base}`,
+            `Ship to: ${request.shipTo.name}, ${request.shipTo.postalCode} ${request.shipTo.city} ${request.shipTo.country}`,
+            ...request.packages.map(p =>
+                `${p.type} ${p.sequence}/${request.packages.length} - ${p.weightKg} kg - ${base}-${p.sequence}`)
+        ];
+
+        return {
+            trackingNumber: base,
+            packages,
+            labelPdf: buildTextPdf(lines)
+        };
+    }
+
+    parseTrackingWebhook(payload: unknown): CarrierTrackingUpdate[] {
+        const body = payload as { events?: unknown[] } | null;
+        const events = Array.isArray(body?.events) ? body.events : [payload];
+        return events.map(event => this.parseEvent(event));
+    }
+
+    private parseEvent(event: unknown): CarrierTrackingUpdate {
+        const e = (event ?? {}) as Record<string, unknown>;
+        const status = e.status as TrackingStatus;
+        const occurredAt = new Date(String(e.occurredAt));
+
+        if (typeof e.trackingNumber !== 'string' || !Object.values(TrackingStatus).includes(status)
+            || isNaN(occurredAt.getTime())) {
+            throw new CarrierError(this.code, 400, 'trackingNumber, status and occurredAt are required');
+        }
+
+        return {
+            trackingNumber: e.trackingNumber,
+            status,
+            occurredAt,
+            description: typeof e.description === 'string' ? e.description : undefined,
+            location: typeof e.location === 'string' ? e.location : undefined
+        };
+    }
+}
+
+/**
+ * PDF minimal (une page, police Helvetica) avec une ligne de texte par entrée
+ */
+function buildTextPdf(lines: string[]): Buffer {
+    const escape = (text: string) => text.replace(/[\\()]/g, c => `\\${c}`).replace(/[^\x20-\x7e]/g, '?');
+    const content = ['BT', '/F1 12 Tf', '14 TL', '40 800 Td', ...lines.map(l => `(${escape(l)}) '`), 'ET'].join('\n');
+
+    const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+        '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+        `<< /Length ${Buffer.byteLength(content)} >>\nstream\n${content}\nendstream`,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+    ];
+
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((object, index) => {
+        offsets.push(Buffer.byteLength(pdf));
+        pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(pdf);
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(pdf, 'latin1');
+}
@@ -0,0 +1,85 @@
+/**
+ * SAV Service Client
+ * Client HTTP pour les RMA du SAV Service (réception au quai retours)
+ */
+
+/**
+ * RMA du SAV Service
+ */
+export interface RmaResponse {
+    id: string;
+    assetId: string;
+    ticketId: string;
+    status: string;             // CREATED | RECEIVED | DIAGNOSED | RESOLVED
+    createdAt: string;
+}
+
+/**
+ * Erreur lors de l'appel au SAV Service
+ */
+export class SavServiceError extends Error {
+    constructor(
+        public readonly statusCode: number,
+        public readonly details: string
+    ) {
+        super(`SAV Service error (${statusCode}): ${details}`);
+        this.name = 'SavServiceError';
+    }
+}
+
+/**
+ * Interface pour le client SAV Service (injectable pour tests)
+ */
+export interface SavServiceClient {
+    getRma(rmaId: string): Promise<RmaResponse | null>;
+    receiveRma(rmaId: string): Promise<RmaResponse>;
+}
+
+/**
+ * Client HTTP par défaut pour SAV Service
+ */
+export class HttpSavServiceClient implements SavServiceClient {
+    private readonly baseUrl: string;
+
+    constructor(baseUrl?: string) {
+        this.baseUrl = baseUrl ?? process.env.SAV_SERVICE_URL ?? 'http://localhost:3008';
+    }
+
+    /**
+     * Récupère un RMA (null si inconnu)
+     */
+    async getRma(rmaId: string): Promise<RmaResponse | null> {
+        const response = await fetch(`${this.baseUrl}/sav/rma/${rmaId}`, {
+            method: 'GET',
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+        if (response.status === 404) {
+            return null;
+        }
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            throw new SavServiceError(response.status, errorBody);
+        }
+
+        return response.json() as Promise<RmaResponse>;
+    }
+
+    /**
+     * Déclare le RMA reçu (RMA → RECEIVED, mouvement RETURN côté SAV)
+     */
+    async receiveRma(rmaId: string): Promise<RmaResponse> {
+        const response = await fetch(`${this.baseUrl}/sav/rma/${rmaId}/receive`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            throw new SavServiceError(response.status, errorBody);
+        }
+
+        return response.json() as Promise<RmaResponse>;
+    }
+}
@@ -0,0 +1,58 @@
+/**
+ * Handheld Sync Repository
+ * Journal des événements terminaux rejoués (un par eventId et terminal)
+ */
+
+import { Prisma, HandheldSyncEvent } from '@prisma/client';
+import { HandheldSyncEventEntity, RecordSyncEventDto, SyncReason } from '../domain/handheldSync.types';
+
+export class HandheldSyncRepository {
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
+
+    /**
+     * Événements d'un terminal déjà synchronisés parmi ces eventIds
+     */
+    async findByEventIds(deviceId: string, eventIds: string[]): Promise<HandheldSyncEventEntity[]> {
+        const events = await this.prisma.handheldSyncEvent.findMany({
+            where: { deviceId, eventId: { in: eventIds } }
+        });
+        return events.map(e => this.toEntity(e));
+    }
+
+    /**
+     * Enregistre le résultat de rejeu d'un événement
+     */
+    async record(dto: RecordSyncEventDto): Promise<HandheldSyncEventEntity> {
+        const event = await this.prisma.handheldSyncEvent.create({
+            data: {
+                deviceId: dto.deviceId,
+                eventId: dto.eventId,
+                operatorId: dto.operatorId,
+                taskId: dto.taskId,
+                stepId: dto.stepId,
+                type: dto.type,
+                capturedAt: dto.capturedAt,
+                outcome: dto.outcome,
+                reason: dto.reason
+            }
+        });
+        return this.toEntity(event);
+    }
+
+    private toEntity(event: HandheldSyncEvent): HandheldSyncEventEntity {
+        return {
+            id: event.id,
+            deviceId: event.deviceId,
+            eventId: event.eventId,
+            operatorId: event.operatorId,
+            taskId: event.taskId,
+            stepId: event.stepId,
+            type: event.type,
+            capturedAt: event.capturedAt,
+            outcome: event.outcome,
+            reason: event.reason as SyncReason | null,
+            syncedAt: event.syncedAt
+        };
+    }
+}
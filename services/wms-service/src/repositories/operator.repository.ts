@@ -4,7 +4,7 @@
  */
 
 import { PrismaClient, Operator } from '@prisma/client';
-import { OperatorEntity, CreateOperatorDto } from '../domain/operator.types';
+import { OperatorEntity, CreateOperatorDto, UpdateOperatorProfileDto } from '../domain/operator.types';
 
 export class OperatorRepository {
     constructor(private readonly prisma: PrismaClient) { }
@@ -16,7 +16,25 @@ export class OperatorRepository {
         const operator = await this.prisma.operator.create({
             data: {
                 name: dto.name,
-                badge: dto.badge
+                badge: dto.badge,
+                skills: dto.skills ?? [],
+                certifications: dto.certifications ?? [],
+                homeZone: dto.homeZone ?? null
+            }
+        });
+        return this.toEntity(operator);
+    }
+
+    /**
+     * Met à jour compétences, certifications et zone d'affectation
+     */
+    async updateProfile(operatorId: string, dto: UpdateOperatorProfileDto): Promise<OperatorEntity> {
+        const operator = await this.prisma.operator.update({
+            where: { id: operatorId },
+            data: {
+                ...(dto.skills !== undefined ? { skills: dto.skills } : {}),
+                ...(dto.certifications !== undefined ? { certifications: dto.certifications } : {}),
+                ...(dto.homeZone !== undefined ? { homeZone: dto.homeZone } : {})
             }
         });
         return this.toEntity(operator);
@@ -67,6 +85,9 @@ export class OperatorRepository {
             id: operator.id,
             name: operator.name,
             badge: operator.badge,
+            skills: operator.skills,
+            certifications: operator.certifications,
+            homeZone: operator.homeZone,
             createdAt: operator.createdAt
         };
     }
@@ -0,0 +1,92 @@
+/**
+ * Productivity Repository
+ * Lecture de l'activité des tâches terminées et standards de temps
+ */
+
+import { Prisma, LabourStandard, TaskStatus, TaskType } from '@prisma/client';
+import { TaskActivity, LabourStandardEntity, LabourStandardDto } from '../domain/productivity.types';
+
+export class ProductivityRepository {
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
+
+    /**
+     * Tâches terminées sur [from, to[ avec étapes, scans et blocages
+     */
+    async findCompletedActivity(from: Date, to: Date, operatorId?: string): Promise<TaskActivity[]> {
+        const tasks = await this.prisma.wmsTask.findMany({
+            where: {
+                status: TaskStatus.COMPLETED,
+                startedAt: { not: null },
+                endedAt: { gte: from, lt: to },
+                ...(operatorId ? { operatorId } : {})
+            },
+            select: {
+                id: true,
+                type: true,
+                operatorId: true,
+                startedAt: true,
+                endedAt: true,
+                steps: { select: { stepOrder: true, completedAt: true } },
+                scans: { select: { valid: true } },
+                blocks: { select: { blockedAt: true, resolvedAt: true } }
+            }
+        });
+
+        return tasks.map(task => ({
+            ...task,
+            startedAt: task.startedAt as Date,
+            endedAt: task.endedAt as Date
+        }));
+    }
+
+    /**
+     * Tâches actuellement bloquées
+     */
+    async countBlocked(): Promise<number> {
+        return this.prisma.wmsTask.count({
+            where: { status: TaskStatus.BLOCKED }
+        });
+    }
+
+    // ========== STANDARDS ==========
+
+    async findStandards(taskType?: TaskType): Promise<LabourStandardEntity[]> {
+        const standards = await this.prisma.labourStandard.findMany({
+            where: taskType ? { taskType } : {},
+            orderBy: [{ taskType: 'asc' }, { stepOrder: 'asc' }]
+        });
+        return standards.map(s => this.toStandardEntity(s));
+    }
+
+    /**
+     * Crée ou remplace le standard d'une étape
+     */
+    async upsertStandard(dto: LabourStandardDto, updatedBy?: string): Promise<LabourStandardEntity> {
+        const standard = await this.prisma.labourStandard.upsert({
+            where: { taskType_stepOrder: { taskType: dto.taskType, stepOrder: dto.stepOrder } },
+            create: {
+                taskType: dto.taskType,
+                stepOrder: dto.stepOrder,
+                standardSeconds: dto.standardSeconds,
+                updatedBy: updatedBy ?? null
+            },
+            update: {
+                standardSeconds: dto.standardSeconds,
+                updatedBy: updatedBy ?? null
+            }
+        });
+        return this.toStandardEntity(standard);
+    }
+
+    private toStandardEntity(standard: LabourStandard): LabourStandardEntity {
+        return {
+            id: standard.id,
+            taskType: standard.taskType,
+            stepOrder: standard.stepOrder,
+            standardSeconds: standard.standardSeconds,
+            updatedBy: standard.updatedBy,
+            updatedAt: standard.updatedAt
+        };
+    }
+}
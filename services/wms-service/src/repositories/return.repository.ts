@@ -3,11 +3,24 @@
  * Couche d'accès aux données pour les retours
  */
 
-import { PrismaClient, Return, ReturnStatus } from '@prisma/client';
+import { Prisma, Return, ReturnStatus, ReturnCondition, ReturnDisposition } from '@prisma/client';
 import { ReturnEntity } from '../domain/return.types';
 
+export interface ReceiveReturnRecord {
+    assetId: string;
+    reason: string;
+    rmaId: string;
+    serialNumber: string;
+    condition: ReturnCondition;
+    conditionNotes?: string;
+    photoUrls: string[];
+    receivedBy: string;
+    qaTaskId: string;
+}
+
 export class ReturnRepository {
-    constructor(private readonly prisma: PrismaClient) { }
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
 
     /**
      * Crée un retour
@@ -23,6 +36,21 @@ export class ReturnRepository {
         return this.toEntity(ret);
     }
 
+    /**
+     * Crée un retour reçu au quai contre un RMA
+     */
+    async createReceived(record: ReceiveReturnRecord): Promise<ReturnEntity> {
+        const ret = await this.prisma.return.create({
+            data: {
+                ...record,
+                conditionNotes: record.conditionNotes ?? null,
+                status: ReturnStatus.RECEIVED,
+                receivedAt: new Date()
+            }
+        });
+        return this.toEntity(ret);
+    }
+
     /**
      * Recherche un retour par ID
      */
@@ -33,6 +61,16 @@ export class ReturnRepository {
         return ret ? this.toEntity(ret) : null;
     }
 
+    /**
+     * Recherche le retour d'un RMA
+     */
+    async findByRmaId(rmaId: string): Promise<ReturnEntity | null> {
+        const ret = await this.prisma.return.findUnique({
+            where: { rmaId }
+        });
+        return ret ? this.toEntity(ret) : null;
+    }
+
     /**
      * Recherche par assetId
      */
@@ -55,6 +93,27 @@ export class ReturnRepository {
         return this.toEntity(ret);
     }
 
+    /**
+     * Enregistre la destination (retour DISPOSED)
+     */
+    async recordDisposition(
+        id: string,
+        data: { disposition: ReturnDisposition; disposedBy: string; dispositionNote?: string; supplierRef?: string }
+    ): Promise<ReturnEntity> {
+        const ret = await this.prisma.return.update({
+            where: { id },
+            data: {
+                status: ReturnStatus.DISPOSED,
+                disposition: data.disposition,
+                disposedBy: data.disposedBy,
+                dispositionNote: data.dispositionNote ?? null,
+                supplierRef: data.supplierRef ?? null,
+                disposedAt: new Date()
+            }
+        });
+        return this.toEntity(ret);
+    }
+
     /**
      * Convertit en entité
      */
@@ -64,6 +123,19 @@ export class ReturnRepository {
             assetId: ret.assetId,
             reason: ret.reason,
             status: ret.status,
+            rmaId: ret.rmaId ?? null,
+            serialNumber: ret.serialNumber ?? null,
+            condition: ret.condition ?? null,
+            conditionNotes: ret.conditionNotes ?? null,
+            photoUrls: ret.photoUrls ?? [],
+            receivedBy: ret.receivedBy ?? null,
+            receivedAt: ret.receivedAt ?? null,
+            qaTaskId: ret.qaTaskId ?? null,
+            disposition: ret.disposition ?? null,
+            dispositionNote: ret.dispositionNote ?? null,
+            supplierRef: ret.supplierRef ?? null,
+            disposedBy: ret.disposedBy ?? null,
+            disposedAt: ret.disposedAt ?? null,
             createdAt: ret.createdAt
         };
     }
@@ -3,22 +3,87 @@
  * Couche d'accès aux données pour les expéditions
  */
 
-import { PrismaClient, Shipment, ShipmentStatus } from '@prisma/client';
-import { ShipmentEntity } from '../domain/shipment.types';
+import {
+    Prisma,
+    Shipment,
+    ShipmentParcel,
+    ShipmentTrackingEvent,
+    ShipmentStatus,
+    PackageType
+} from '@prisma/client';
+import { ShipmentEntity, ShipmentTrackingEventEntity } from '../domain/shipment.types';
+import { CarrierAddress, CarrierTrackingUpdate } from '../integrations/carrier.adapter';
+
+type ShipmentWithParcels = Shipment & { parcels?: ShipmentParcel[] };
+
+const WITH_PARCELS = { parcels: { orderBy: { sequence: 'asc' as const } } };
+
+export interface CreateShipmentRecord {
+    id?: string;
+    assetId: string;
+    carrier: string;
+    status?: ShipmentStatus;        // Défaut READY ; PENDING avant réservation transporteur
+    trackingRef?: string;
+    shipTo?: CarrierAddress;
+    labelPdf?: Buffer;
+    bookedAt?: Date;
+    parcels?: Array<{
+        sequence: number;
+        type: PackageType;
+        weightKg: number;
+        lengthCm?: number;
+        widthCm?: number;
+        heightCm?: number;
+        trackingNumber?: string;
+    }>;
+}
+
+/**
+ * Réservation transporteur à enregistrer sur une expédition PENDING
+ */
+export interface ShipmentBookingRecord {
+    trackingRef: string;
+    labelPdf: Buffer;
+    bookedAt: Date;
+    parcels: Array<{ sequence: number; trackingNumber: string }>;
+}
+
+/**
+ * Statuts d'une expédition non encore envoyée
+ */
+const OPEN_SHIPMENT_STATUSES: ShipmentStatus[] = [ShipmentStatus.PENDING, ShipmentStatus.READY];
 
 export class ShipmentRepository {
-    constructor(private readonly prisma: PrismaClient) { }
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
 
     /**
-     * Crée une expédition
+     * Crée une expédition (avec ses colis)
      */
-    async create(assetId: string, carrier: string): Promise<ShipmentEntity> {
+    async create(record: CreateShipmentRecord): Promise<ShipmentEntity> {
         const shipment = await this.prisma.shipment.create({
             data: {
-                assetId,
-                carrier,
-                status: ShipmentStatus.READY
-            }
+                id: record.id,
+                assetId: record.assetId,
+                carrier: record.carrier,
+                trackingRef: record.trackingRef ?? null,
+                status: record.status ?? ShipmentStatus.READY,
+                shipTo: record.shipTo ? (record.shipTo as unknown as Prisma.InputJsonObject) : Prisma.JsonNull,
+                labelPdf: record.labelPdf ?? null,
+                bookedAt: record.bookedAt ?? null,
+                parcels: record.parcels ? {
+                    create: record.parcels.map(parcel => ({
+                        sequence: parcel.sequence,
+                        type: parcel.type,
+                        weightKg: parcel.weightKg,
+                        lengthCm: parcel.lengthCm ?? null,
+                        widthCm: parcel.widthCm ?? null,
+                        heightCm: parcel.heightCm ?? null,
+                        trackingNumber: parcel.trackingNumber ?? null
+                    }))
+                } : undefined
+            },
+            include: WITH_PARCELS
         });
         return this.toEntity(shipment);
     }
@@ -28,7 +93,8 @@ export class ShipmentRepository {
      */
     async findById(id: string): Promise<ShipmentEntity | null> {
         const shipment = await this.prisma.shipment.findUnique({
-            where: { id }
+            where: { id },
+            include: WITH_PARCELS
         });
         return shipment ? this.toEntity(shipment) : null;
     }
@@ -39,36 +105,164 @@ export class ShipmentRepository {
     async findByAssetId(assetId: string): Promise<ShipmentEntity | null> {
         const shipment = await this.prisma.shipment.findFirst({
             where: { assetId },
-            orderBy: { createdAt: 'desc' }
+            orderBy: { createdAt: 'desc' },
+            include: WITH_PARCELS
+        });
+        return shipment ? this.toEntity(shipment) : null;
+    }
+
+    /**
+     * Expédition non encore envoyée d'un asset (PENDING ou READY)
+     */
+    async findOpenByAssetId(assetId: string): Promise<ShipmentEntity | null> {
+        const shipment = await this.prisma.shipment.findFirst({
+            where: { assetId, status: { in: OPEN_SHIPMENT_STATUSES } },
+            orderBy: { createdAt: 'desc' },
+            include: WITH_PARCELS
         });
         return shipment ? this.toEntity(shipment) : null;
     }
 
     /**
-     * Met à jour le statut et le tracking
+     * Recherche par numéro de suivi (maître ou colis) chez un transporteur
+     */
+    async findByTrackingNumber(carrier: string, trackingNumber: string): Promise<ShipmentEntity | null> {
+        const shipment = await this.prisma.shipment.findFirst({
+            where: {
+                carrier,
+                OR: [
+                    { trackingRef: trackingNumber },
+                    { parcels: { some: { trackingNumber } } }
+                ]
+            },
+            include: WITH_PARCELS
+        });
+        return shipment ? this.toEntity(shipment) : null;
+    }
+
+    /**
+     * Étiquette PDF du transporteur
+     */
+    async findLabel(id: string): Promise<Buffer | null> {
+        const shipment = await this.prisma.shipment.findUnique({
+            where: { id },
+            select: { labelPdf: true }
+        });
+        return shipment?.labelPdf ?? null;
+    }
+
+    /**
+     * Met à jour le statut, le tracking et la tâche SHIPPING
      */
     async update(
         id: string,
-        data: { status?: ShipmentStatus; trackingRef?: string }
+        data: { status?: ShipmentStatus; trackingRef?: string; deliveredAt?: Date; taskId?: string }
     ): Promise<ShipmentEntity> {
         const shipment = await this.prisma.shipment.update({
             where: { id },
-            data
+            data,
+            include: WITH_PARCELS
+        });
+        return this.toEntity(shipment);
+    }
+
+    /**
+     * Enregistre la réservation transporteur : PENDING → READY
+     * (étiquette, numéro maître et numéros de suivi des colis)
+     */
+    async recordBooking(id: string, booking: ShipmentBookingRecord): Promise<ShipmentEntity> {
+        for (const parcel of booking.parcels) {
+            await this.prisma.shipmentParcel.updateMany({
+                where: { shipmentId: id, sequence: parcel.sequence },
+                data: { trackingNumber: parcel.trackingNumber }
+            });
+        }
+
+        const shipment = await this.prisma.shipment.update({
+            where: { id },
+            data: {
+                status: ShipmentStatus.READY,
+                trackingRef: booking.trackingRef,
+                labelPdf: booking.labelPdf,
+                bookedAt: booking.bookedAt
+            },
+            include: WITH_PARCELS
         });
         return this.toEntity(shipment);
     }
 
+    // ========== TRACKING ==========
+
+    /**
+     * Enregistre un statut de suivi (false si déjà reçu)
+     */
+    async addTrackingEvent(shipmentId: string, parcelId: string | null, update: CarrierTrackingUpdate): Promise<boolean> {
+        const result = await this.prisma.shipmentTrackingEvent.createMany({
+            data: [{
+                shipmentId,
+                parcelId,
+                trackingNumber: update.trackingNumber,
+                status: update.status,
+                description: update.description ?? null,
+                location: update.location ?? null,
+                occurredAt: update.occurredAt
+            }],
+            skipDuplicates: true
+        });
+        return result.count > 0;
+    }
+
+    /**
+     * Historique de suivi (chronologique)
+     */
+    async findTrackingEvents(shipmentId: string): Promise<ShipmentTrackingEventEntity[]> {
+        const events = await this.prisma.shipmentTrackingEvent.findMany({
+            where: { shipmentId },
+            orderBy: { occurredAt: 'asc' }
+        });
+        return events.map(e => this.toTrackingEventEntity(e));
+    }
+
     /**
      * Convertit en entité
      */
-    private toEntity(shipment: Shipment): ShipmentEntity {
+    private toEntity(shipment: ShipmentWithParcels): ShipmentEntity {
         return {
             id: shipment.id,
             assetId: shipment.assetId,
             carrier: shipment.carrier,
             trackingRef: shipment.trackingRef,
             status: shipment.status,
+            shipTo: (shipment.shipTo ?? null) as CarrierAddress | null,
+            hasLabel: shipment.labelPdf != null,
+            bookedAt: shipment.bookedAt ?? null,
+            deliveredAt: shipment.deliveredAt ?? null,
+            taskId: shipment.taskId ?? null,
+            parcels: (shipment.parcels ?? []).map(parcel => ({
+                id: parcel.id,
+                sequence: parcel.sequence,
+                type: parcel.type,
+                weightKg: parcel.weightKg,
+                lengthCm: parcel.lengthCm,
+                widthCm: parcel.widthCm,
+                heightCm: parcel.heightCm,
+                trackingNumber: parcel.trackingNumber
+            })),
             createdAt: shipment.createdAt
         };
     }
+
+    private toTrackingEventEntity(event: ShipmentTrackingEvent): ShipmentTrackingEventEntity {
+        return {
+            id: event.id,
+            shipmentId: event.shipmentId,
+            parcelId: event.parcelId,
+            trackingNumber: event.trackingNumber,
+            status: event.status,
+            description: event.description,
+            location: event.location,
+            occurredAt: event.occurredAt,
+            receivedAt: event.receivedAt
+        };
+    }
 }
@@ -0,0 +1,135 @@
+/**
+ * Step Template Repository
+ * Accès données pour les templates d'étapes versionnés
+ *
+ * IMPORTANT : une version n'est jamais modifiée, on en crée une nouvelle
+ */
+
+import { Prisma, TaskType, TaskStepTemplate, TaskStepTemplateStep } from '@prisma/client';
+import { StepTemplateEntity, CreateStepTemplateDto } from '../domain/stepTemplate.types';
+
+type TemplateWithSteps = TaskStepTemplate & { steps: TaskStepTemplateStep[] };
+
+const STEPS_IN_ORDER = { steps: { orderBy: { stepOrder: 'asc' as const } } };
+
+export class StepTemplateRepository {
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
+
+    /**
+     * Crée une version de template
+     */
+    async create(dto: CreateStepTemplateDto, scopeKey: string, version: number): Promise<StepTemplateEntity> {
+        const template = await this.prisma.taskStepTemplate.create({
+            data: {
+                taskType: dto.taskType,
+                assetType: dto.assetType ?? null,
+                customerId: dto.customerId ?? null,
+                option: dto.option ?? null,
+                scopeKey,
+                version,
+                createdBy: dto.createdBy ?? null,
+                steps: {
+                    create: dto.steps.map(step => ({
+                        stepOrder: step.stepOrder,
+                        description: step.description,
+                        scanRequired: step.scanRequired ?? true,
+                        expectAssetScan: step.expectAssetScan ?? false,
+                        expectedCode: step.expectedCode ?? null,
+                        inputType: step.inputType,
+                        unit: step.unit ?? null,
+                        minValue: step.minValue ?? null,
+                        maxValue: step.maxValue ?? null,
+                        onlyIfOption: step.onlyIfOption ?? null,
+                        unlessOption: step.unlessOption ?? null
+                    }))
+                }
+            },
+            include: STEPS_IN_ORDER
+        });
+        return this.toEntity(template);
+    }
+
+    /**
+     * Récupère une version par ID
+     */
+    async findById(templateId: string): Promise<StepTemplateEntity | null> {
+        const template = await this.prisma.taskStepTemplate.findUnique({
+            where: { id: templateId },
+            include: STEPS_IN_ORDER
+        });
+        return template ? this.toEntity(template) : null;
+    }
+
+    /**
+     * Dernière version d'une clé (0 si aucune)
+     */
+    async findLatestVersion(taskType: TaskType, scopeKey: string): Promise<number> {
+        const latest = await this.prisma.taskStepTemplate.findFirst({
+            where: { taskType, scopeKey },
+            orderBy: { version: 'desc' },
+            select: { version: true }
+        });
+        return latest?.version ?? 0;
+    }
+
+    /**
+     * Dernière version de chacune des clés demandées
+     */
+    async findLatestByScopes(taskType: TaskType, scopeKeys: string[]): Promise<StepTemplateEntity[]> {
+        const templates = await this.prisma.taskStepTemplate.findMany({
+            where: { taskType, scopeKey: { in: scopeKeys } },
+            orderBy: { version: 'desc' },
+            include: STEPS_IN_ORDER
+        });
+
+        const latest = new Map<string, TemplateWithSteps>();
+        for (const template of templates) {
+            if (!latest.has(template.scopeKey)) {
+                latest.set(template.scopeKey, template);
+            }
+        }
+        return Array.from(latest.values()).map(t => this.toEntity(t));
+    }
+
+    /**
+     * Liste les versions (toutes ou d'un type de tâche)
+     */
+    async findAll(taskType?: TaskType): Promise<StepTemplateEntity[]> {
+        const templates = await this.prisma.taskStepTemplate.findMany({
+            where: taskType ? { taskType } : {},
+            orderBy: [{ taskType: 'asc' }, { scopeKey: 'asc' }, { version: 'desc' }],
+            include: STEPS_IN_ORDER
+        });
+        return templates.map(t => this.toEntity(t));
+    }
+
+    private toEntity(template: TemplateWithSteps): StepTemplateEntity {
+        return {
+            id: template.id,
+            taskType: template.taskType,
+            assetType: template.assetType,
+            customerId: template.customerId,
+            option: template.option,
+            scopeKey: template.scopeKey,
+            version: template.version,
+            createdBy: template.createdBy,
+            createdAt: template.createdAt,
+            steps: template.steps.map(step => ({
+                id: step.id,
+                templateId: step.templateId,
+                stepOrder: step.stepOrder,
+                description: step.description,
+                scanRequired: step.scanRequired,
+                expectAssetScan: step.expectAssetScan,
+                expectedCode: step.expectedCode,
+                inputType: step.inputType,
+                unit: step.unit,
+                minValue: step.minValue,
+                maxValue: step.maxValue,
+                onlyIfOption: step.onlyIfOption,
+                unlessOption: step.unlessOption
+            }))
+        };
+    }
+}
@@ -5,17 +5,19 @@
  * RÈGLE : Append-only pour ScanLog
  */
 
-import { PrismaClient, WmsTask, TaskStep, ScanLog, TaskStatus, TaskType } from '@prisma/client';
+import { Prisma, WmsTask, TaskStep, ScanLog, TaskStatus, TaskType, TaskPriority } from '@prisma/client';
 import {
     WmsTaskEntity,
     TaskStepEntity,
     ScanLogEntity,
     CreateTaskDto,
-    CreateTaskStepDto
+    CreateTaskStepDto,
+    TaskFilter
 } from '../domain/task.types';
 
 export class TaskRepository {
-    constructor(private readonly prisma: PrismaClient) { }
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
 
     // ========== TASK CRUD ==========
 
@@ -26,14 +28,24 @@ export class TaskRepository {
         const task = await this.prisma.wmsTask.create({
             data: {
                 assetId: dto.assetId,
+                orderId: dto.orderId ?? null,
                 type: dto.type,
                 status: TaskStatus.PENDING,
+                priority: dto.priority ?? TaskPriority.NORMAL,
+                dueBy: dto.dueBy ?? null,
+                zone: dto.zone ?? null,
+                requiredCertification: dto.requiredCertification ?? null,
                 steps: {
                     create: dto.steps.map(step => ({
                         stepOrder: step.stepOrder,
                         description: step.description,
                         scanRequired: step.scanRequired ?? true,
-                        expectedCode: step.expectedCode ?? null
+                        expectedCode: step.expectedCode ?? null,
+                        templateId: step.templateId ?? null,
+                        inputType: step.inputType,
+                        unit: step.unit ?? null,
+                        minValue: step.minValue ?? null,
+                        maxValue: step.maxValue ?? null
                     }))
                 }
             }
@@ -52,16 +64,112 @@ export class TaskRepository {
     }
 
     /**
-     * Récupère la prochaine tâche PENDING
+     * Dernière tâche d'un type pour un asset, parmi les statuts donnés
      */
-    async findNextPending(): Promise<WmsTaskEntity | null> {
+    async findLatestByAssetId(assetId: string, type: TaskType, statuses: TaskStatus[]): Promise<WmsTaskEntity | null> {
         const task = await this.prisma.wmsTask.findFirst({
-            where: { status: TaskStatus.PENDING },
-            orderBy: { createdAt: 'asc' }
+            where: { assetId, type, status: { in: statuses } },
+            orderBy: { createdAt: 'desc' }
         });
         return task ? this.toTaskEntity(task) : null;
     }
 
+    /**
+     * Tâches d'un lot dans l'ordre du chemin de prélèvement
+     */
+    async findByBatchId(batchId: string): Promise<WmsTaskEntity[]> {
+        const tasks = await this.prisma.wmsTask.findMany({
+            where: { batchId },
+            orderBy: { pickSequence: 'asc' }
+        });
+        return tasks.map(t => this.toTaskEntity(t));
+    }
+
+    /**
+     * Liste les tâches d'une commande et/ou d'un asset
+     */
+    async findMany(filter: TaskFilter): Promise<WmsTaskEntity[]> {
+        const tasks = await this.prisma.wmsTask.findMany({
+            where: {
+                ...(filter.orderId ? { orderId: filter.orderId } : {}),
+                ...(filter.assetId ? { assetId: filter.assetId } : {})
+            },
+            orderBy: { createdAt: 'asc' }
+        });
+        return tasks.map(t => this.toTaskEntity(t));
+    }
+
+    /**
+     * Tâches PENDING tous types confondus (file globale superviseur)
+     */
+    async findPending(limit: number): Promise<WmsTaskEntity[]> {
+        const tasks = await this.prisma.wmsTask.findMany({
+            where: { status: TaskStatus.PENDING, batchId: null },
+            orderBy: [
+                { priority: 'desc' },
+                { dueBy: { sort: 'asc', nulls: 'last' } },
+                { createdAt: 'asc' }
+            ],
+            take: limit
+        });
+        return tasks.map(t => this.toTaskEntity(t));
+    }
+
+    /**
+     * Tâches PENDING exécutables avec ces compétences et certifications
+     * (pré-tri base : priorité enregistrée, échéance, ancienneté)
+     */
+    async findPendingCandidates(
+        skills: TaskType[],
+        certifications: string[],
+        limit: number
+    ): Promise<WmsTaskEntity[]> {
+        const tasks = await this.prisma.wmsTask.findMany({
+            where: {
+                status: TaskStatus.PENDING,
+                type: { in: skills },
+                batchId: null,
+                OR: [
+                    { requiredCertification: null },
+                    { requiredCertification: { in: certifications } }
+                ]
+            },
+            orderBy: [
+                { priority: 'desc' },
+                { dueBy: { sort: 'asc', nulls: 'last' } },
+                { createdAt: 'asc' }
+            ],
+            take: limit
+        });
+        return tasks.map(t => this.toTaskEntity(t));
+    }
+
+    /**
+     * Tâches PICKING PENDING hors lot, à expédier avant la coupure
+     */
+    async findWaveCandidates(cutoffAt: Date): Promise<WmsTaskEntity[]> {
+        const tasks = await this.prisma.wmsTask.findMany({
+            where: {
+                status: TaskStatus.PENDING,
+                type: TaskType.PICKING,
+                batchId: null,
+                dueBy: { lte: cutoffAt }
+            },
+            orderBy: [{ dueBy: 'asc' }, { createdAt: 'asc' }]
+        });
+        return tasks.map(t => this.toTaskEntity(t));
+    }
+
+    /**
+     * Sort une tâche de son lot (ex. bloquée pendant un picking groupé)
+     */
+    async detachFromBatch(taskId: string): Promise<void> {
+        await this.prisma.wmsTask.update({
+            where: { id: taskId },
+            data: { batchId: null, pickSequence: null }
+        });
+    }
+
     /**
      * Vérifie si un opérateur a une tâche IN_PROGRESS
      */
@@ -77,14 +185,15 @@ export class TaskRepository {
 
     /**
      * Démarre une tâche (PENDING → IN_PROGRESS)
+     * operatorId null : exécution v0 sans opérateur (façade picking/assemblage/expédition)
      */
-    async startTask(taskId: string, operatorId: string): Promise<WmsTaskEntity> {
+    async startTask(taskId: string, operatorId: string | null, startedAt: Date = new Date()): Promise<WmsTaskEntity> {
         const task = await this.prisma.wmsTask.update({
             where: { id: taskId },
             data: {
                 status: TaskStatus.IN_PROGRESS,
                 operatorId,
-                startedAt: new Date()
+                startedAt
             }
         });
         return this.toTaskEntity(task);
@@ -93,12 +202,12 @@ export class TaskRepository {
     /**
      * Termine une tâche (IN_PROGRESS → COMPLETED)
      */
-    async completeTask(taskId: string): Promise<WmsTaskEntity> {
+    async completeTask(taskId: string, endedAt: Date = new Date()): Promise<WmsTaskEntity> {
         const task = await this.prisma.wmsTask.update({
             where: { id: taskId },
             data: {
                 status: TaskStatus.COMPLETED,
-                endedAt: new Date()
+                endedAt
             }
         });
         return this.toTaskEntity(task);
@@ -115,6 +224,21 @@ export class TaskRepository {
         return this.toTaskEntity(task);
     }
 
+    /**
+     * Reprend une tâche bloquée
+     * PENDING : retour en file (opérateur et démarrage effacés) ;
+     * IN_PROGRESS : reprise par l'opérateur indiqué
+     */
+    async resumeTask(taskId: string, status: TaskStatus, operatorId: string | null): Promise<WmsTaskEntity> {
+        const task = await this.prisma.wmsTask.update({
+            where: { id: taskId },
+            data: status === TaskStatus.PENDING
+                ? { status, operatorId: null, startedAt: null }
+                : { status, operatorId }
+        });
+        return this.toTaskEntity(task);
+    }
+
     // ========== STEPS ==========
 
     /**
@@ -141,18 +265,45 @@ export class TaskRepository {
     /**
      * Complète une étape avec le code scanné
      */
-    async completeStep(stepId: string, scannedCode: string): Promise<TaskStepEntity> {
+    async completeStep(
+        stepId: string,
+        scannedCode: string | null,
+        measuredValue?: string,
+        completedAt: Date = new Date()
+    ): Promise<TaskStepEntity> {
         const step = await this.prisma.taskStep.update({
             where: { id: stepId },
             data: {
                 scannedCode,
+                measuredValue: measuredValue ?? null,
                 completed: true,
-                completedAt: new Date()
+                completedAt
             }
         });
         return this.toStepEntity(step);
     }
 
+    /**
+     * Complète toutes les étapes d'une tâche en une fois (picking groupé :
+     * le scan de l'asset vaut exécution de la tâche ; null : exécution v0 sans scan)
+     */
+    async completeAllSteps(taskId: string, scannedCode: string | null): Promise<void> {
+        await this.prisma.taskStep.updateMany({
+            where: { taskId, completed: false },
+            data: { scannedCode, completed: true, completedAt: new Date() }
+        });
+    }
+
+    /**
+     * Remet toutes les étapes d'une tâche à zéro (les ScanLog restent)
+     */
+    async resetSteps(taskId: string): Promise<void> {
+        await this.prisma.taskStep.updateMany({
+            where: { taskId },
+            data: { completed: false, scannedCode: null, measuredValue: null, completedAt: null }
+        });
+    }
+
     /**
      * Compte les étapes incomplètes
      */
@@ -166,10 +317,17 @@ export class TaskRepository {
 
     /**
      * Enregistre un scan (append-only)
+     * scannedAt : horodatage de l'appareil pour un scan capturé hors ligne
      */
-    async logScan(taskId: string, stepId: string | null, code: string, valid: boolean): Promise<ScanLogEntity> {
+    async logScan(
+        taskId: string,
+        stepId: string | null,
+        code: string,
+        valid: boolean,
+        scannedAt?: Date
+    ): Promise<ScanLogEntity> {
         const log = await this.prisma.scanLog.create({
-            data: { taskId, stepId, code, valid }
+            data: { taskId, stepId, code, valid, ...(scannedAt ? { scannedAt } : {}) }
         });
         return this.toScanLogEntity(log);
     }
@@ -191,8 +349,16 @@ export class TaskRepository {
         return {
             id: task.id,
             assetId: task.assetId,
+            orderId: task.orderId,
             type: task.type,
             status: task.status,
+            priority: task.priority,
+            dueBy: task.dueBy,
+            zone: task.zone,
+            requiredCertification: task.requiredCertification,
+            batchId: task.batchId,
+            pickSequence: task.pickSequence,
+            locationCode: task.locationCode,
             operatorId: task.operatorId,
             createdAt: task.createdAt,
             startedAt: task.startedAt,
@@ -209,6 +375,12 @@ export class TaskRepository {
             scanRequired: step.scanRequired,
             expectedCode: step.expectedCode,
             scannedCode: step.scannedCode,
+            templateId: step.templateId,
+            inputType: step.inputType,
+            unit: step.unit,
+            minValue: step.minValue,
+            maxValue: step.maxValue,
+            measuredValue: step.measuredValue,
             completed: step.completed,
             completedAt: step.completedAt
         };
@@ -0,0 +1,138 @@
+/**
+ * Task Block Repository
+ * Accès données pour les blocages de tâches WMS
+ *
+ * RÈGLE : Un blocage n'est jamais supprimé, seule sa résolution est renseignée
+ */
+
+import { Prisma, TaskBlock, WmsTask, BlockResolutionCode, TaskStatus } from '@prisma/client';
+import { TaskBlockEntity, OpenTaskBlockDto } from '../domain/taskBlock.types';
+import { WmsTaskEntity } from '../domain/task.types';
+
+export interface TaskBlockResolution {
+    resolutionCode: BlockResolutionCode;
+    resolutionNote: string | null;
+    resolvedBy: string;
+    decisionId: string;
+    resumedStatus: TaskStatus;
+    resumedOperatorId: string | null;
+}
+
+export class TaskBlockRepository {
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
+
+    /**
+     * Ouvre un blocage sur une tâche
+     */
+    async open(taskId: string, dto: OpenTaskBlockDto): Promise<TaskBlockEntity> {
+        const block = await this.prisma.taskBlock.create({
+            data: {
+                taskId,
+                cause: dto.cause,
+                detail: dto.detail ?? null,
+                stepId: dto.stepId ?? null,
+                previousStatus: dto.previousStatus,
+                operatorId: dto.operatorId ?? null,
+                ...(dto.blockedAt ? { blockedAt: dto.blockedAt } : {})
+            }
+        });
+        return this.toEntity(block);
+    }
+
+    /**
+     * Blocage ouvert (non résolu) d'une tâche
+     */
+    async findOpenByTaskId(taskId: string): Promise<TaskBlockEntity | null> {
+        const block = await this.prisma.taskBlock.findFirst({
+            where: { taskId, resolvedAt: null },
+            orderBy: { blockedAt: 'desc' }
+        });
+        return block ? this.toEntity(block) : null;
+    }
+
+    /**
+     * Tous les blocages ouverts avec leur tâche (plus anciens d'abord)
+     */
+    async findOpenWithTasks(): Promise<Array<{ block: TaskBlockEntity; task: WmsTaskEntity }>> {
+        const blocks = await this.prisma.taskBlock.findMany({
+            where: { resolvedAt: null },
+            include: { task: true },
+            orderBy: { blockedAt: 'asc' }
+        });
+        return blocks.map(b => ({ block: this.toEntity(b), task: this.toTaskEntity(b.task) }));
+    }
+
+    /**
+     * Historique des blocages d'une tâche
+     */
+    async findByTaskId(taskId: string): Promise<TaskBlockEntity[]> {
+        const blocks = await this.prisma.taskBlock.findMany({
+            where: { taskId },
+            orderBy: { blockedAt: 'asc' }
+        });
+        return blocks.map(b => this.toEntity(b));
+    }
+
+    /**
+     * Résout un blocage s'il est encore ouvert (false si déjà résolu entre-temps)
+     */
+    async resolveIfOpen(blockId: string, resolution: TaskBlockResolution): Promise<boolean> {
+        const result = await this.prisma.taskBlock.updateMany({
+            where: { id: blockId, resolvedAt: null },
+            data: { ...resolution, resolvedAt: new Date() }
+        });
+        return result.count > 0;
+    }
+
+    /**
+     * Récupère un blocage par ID
+     */
+    async findById(blockId: string): Promise<TaskBlockEntity | null> {
+        const block = await this.prisma.taskBlock.findUnique({
+            where: { id: blockId }
+        });
+        return block ? this.toEntity(block) : null;
+    }
+
+    private toEntity(block: TaskBlock): TaskBlockEntity {
+        return {
+            id: block.id,
+            taskId: block.taskId,
+            cause: block.cause,
+            detail: block.detail,
+            stepId: block.stepId,
+            previousStatus: block.previousStatus,
+            operatorId: block.operatorId,
+            blockedAt: block.blockedAt,
+            resolutionCode: block.resolutionCode,
+            resolutionNote: block.resolutionNote,
+            resolvedBy: block.resolvedBy,
+            decisionId: block.decisionId,
+            resumedStatus: block.resumedStatus,
+            resumedOperatorId: block.resumedOperatorId,
+            resolvedAt: block.resolvedAt
+        };
+    }
+
+    private toTaskEntity(task: WmsTask): WmsTaskEntity {
+        return {
+            id: task.id,
+            assetId: task.assetId,
+            orderId: task.orderId,
+            type: task.type,
+            status: task.status,
+            priority: task.priority,
+            dueBy: task.dueBy,
+            zone: task.zone,
+            requiredCertification: task.requiredCertification,
+            batchId: task.batchId,
+            pickSequence: task.pickSequence,
+            locationCode: task.locationCode,
+            operatorId: task.operatorId,
+            createdAt: task.createdAt,
+            startedAt: task.startedAt,
+            endedAt: task.endedAt
+        };
+    }
+}
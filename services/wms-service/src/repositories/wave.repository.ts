@@ -0,0 +1,155 @@
+/**
+ * Wave Repository
+ * Accès données pour les vagues et lots de picking groupé
+ */
+
+import { Prisma, PickWave, PickBatch, PickBatchStatus, TaskStatus } from '@prisma/client';
+import { PickWaveEntity, PickBatchEntity } from '../domain/wave.types';
+
+export class WaveRepository {
+    // Accepte aussi un client transactionnel (prisma.$transaction)
+    constructor(private readonly prisma: Prisma.TransactionClient) { }
+
+    // ========== WAVES ==========
+
+    /**
+     * Crée une vague
+     */
+    async createWave(cutoffAt: Date, createdBy?: string): Promise<PickWaveEntity> {
+        const wave = await this.prisma.pickWave.create({
+            data: { cutoffAt, createdBy: createdBy ?? null }
+        });
+        return this.toWaveEntity(wave);
+    }
+
+    /**
+     * Récupère une vague par ID
+     */
+    async findWaveById(waveId: string): Promise<PickWaveEntity | null> {
+        const wave = await this.prisma.pickWave.findUnique({
+            where: { id: waveId }
+        });
+        return wave ? this.toWaveEntity(wave) : null;
+    }
+
+    // ========== BATCHES ==========
+
+    /**
+     * Crée un lot dans une vague
+     */
+    async createBatch(waveId: string, zone: string): Promise<PickBatchEntity> {
+        const batch = await this.prisma.pickBatch.create({
+            data: { waveId, zone }
+        });
+        return this.toBatchEntity(batch);
+    }
+
+    /**
+     * Récupère un lot par ID
+     */
+    async findBatchById(batchId: string): Promise<PickBatchEntity | null> {
+        const batch = await this.prisma.pickBatch.findUnique({
+            where: { id: batchId }
+        });
+        return batch ? this.toBatchEntity(batch) : null;
+    }
+
+    /**
+     * Lots d'une vague
+     */
+    async findBatchesByWaveId(waveId: string): Promise<PickBatchEntity[]> {
+        const batches = await this.prisma.pickBatch.findMany({
+            where: { waveId },
+            orderBy: { createdAt: 'asc' }
+        });
+        return batches.map(b => this.toBatchEntity(b));
+    }
+
+    /**
+     * Rattache une tâche à un lot si elle est toujours PENDING et libre
+     */
+    async assignTask(taskId: string, batchId: string, pickSequence: number, locationCode: string): Promise<boolean> {
+        const result = await this.prisma.wmsTask.updateMany({
+            where: { id: taskId, status: TaskStatus.PENDING, batchId: null },
+            data: { batchId, pickSequence, locationCode }
+        });
+        return result.count > 0;
+    }
+
+    /**
+     * Démarre un lot PLANNED et ses tâches (false si déjà pris)
+     */
+    async start(batchId: string, operatorId: string): Promise<boolean> {
+        const now = new Date();
+        const result = await this.prisma.pickBatch.updateMany({
+            where: { id: batchId, status: PickBatchStatus.PLANNED },
+            data: { status: PickBatchStatus.IN_PROGRESS, operatorId, startedAt: now }
+        });
+        if (result.count === 0) {
+            return false;
+        }
+
+        await this.prisma.wmsTask.updateMany({
+            where: { batchId, status: TaskStatus.PENDING },
+            data: { status: TaskStatus.IN_PROGRESS, operatorId, startedAt: now }
+        });
+        return true;
+    }
+
+    /**
+     * Change le statut d'un lot (completedAt posé à la fin)
+     */
+    async updateStatus(batchId: string, status: PickBatchStatus): Promise<PickBatchEntity> {
+        const batch = await this.prisma.pickBatch.update({
+            where: { id: batchId },
+            data: {
+                status,
+                ...(status === PickBatchStatus.COMPLETED ? { completedAt: new Date() } : {})
+            }
+        });
+        return this.toBatchEntity(batch);
+    }
+
+    /**
+     * Comptabilise une tâche bloquée sortie du lot
+     */
+    async incrementBlocked(batchId: string): Promise<void> {
+        await this.prisma.pickBatch.update({
+            where: { id: batchId },
+            data: { blockedCount: { increment: 1 } }
+        });
+    }
+
+    /**
+     * Libère les tâches PENDING d'un lot (retour au dispatch individuel)
+     */
+    async releaseTasks(batchId: string): Promise<void> {
+        await this.prisma.wmsTask.updateMany({
+            where: { batchId, status: TaskStatus.PENDING },
+            data: { batchId: null, pickSequence: null }
+        });
+    }
+
+    private toWaveEntity(wave: PickWave): PickWaveEntity {
+        return {
+            id: wave.id,
+            cutoffAt: wave.cutoffAt,
+            createdBy: wave.createdBy,
+            createdAt: wave.createdAt
+        };
+    }
+
+    private toBatchEntity(batch: PickBatch): PickBatchEntity {
+        return {
+            id: batch.id,
+            waveId: batch.waveId,
+            zone: batch.zone,
+            status: batch.status,
+            operatorId: batch.operatorId,
+            blockedCount: batch.blockedCount,
+            createdAt: batch.createdAt,
+            startedAt: batch.startedAt,
+            completedAt: batch.completedAt
+        };
+    }
+}
@@ -0,0 +1,22 @@
+/**
+ * Handheld Sync Routes
+ * Routes API des terminaux portables
+ */
+
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { HandheldSyncController } from '../controllers/handheldSync.controller';
+import { HandheldSyncService } from '../services/handheldSync.service';
+
+export function createHandheldSyncRoutes(prisma: PrismaClient): Router {
+    const router = Router();
+    const controller = new HandheldSyncController(new HandheldSyncService(prisma));
+
+    /**
+     * POST /wms/handhelds/sync
+     * Body: { deviceId, operatorId, events: [{ eventId, type: START|STEP|COMPLETE, taskId, stepId?, scanCode?, measuredValue?, capturedAt }] }
+     */
+    router.post('/sync', controller.sync);
+
+    return router;
+}
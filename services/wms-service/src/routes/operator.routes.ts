@@ -0,0 +1,33 @@
+/**
+ * Operator Routes
+ * Routes API pour les opérateurs WMS
+ */
+
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { OperatorController } from '../controllers/operator.controller';
+import { OperatorService } from '../services/operator.service';
+
+export function createOperatorRoutes(prisma: PrismaClient): Router {
+    const router = Router();
+    const controller = new OperatorController(new OperatorService(prisma));
+
+    /**
+     * POST /wms/operators
+     * Body: { name, badge, skills?, certifications?, homeZone? }
+     */
+    router.post('/', controller.createOperator);
+
+    /**
+     * GET /wms/operators
+     */
+    router.get('/', controller.listOperators);
+
+    /**
+     * PATCH /wms/operators/:id/profile
+     * Body: { skills?, certifications?, homeZone? }
+     */
+    router.patch('/:id/profile', controller.updateProfile);
+
+    return router;
+}
@@ -0,0 +1,42 @@
+/**
+ * Productivity Routes
+ * Routes API d'analyse de productivité
+ */
+
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { ProductivityController } from '../controllers/productivity.controller';
+import { ProductivityService } from '../services/productivity.service';
+
+export function createProductivityRoutes(prisma: PrismaClient): Router {
+    const router = Router();
+    const controller = new ProductivityController(new ProductivityService(prisma));
+
+    /**
+     * GET /wms/analytics/productivity?from=&to=&granularity=DAY|WEEK&operatorId=&taskType=
+     */
+    router.get('/productivity', controller.getProductivity);
+
+    /**
+     * GET /wms/analytics/steps?from=&to=&taskType=
+     */
+    router.get('/steps', controller.getStepPerformance);
+
+    /**
+     * GET /wms/analytics/standards?taskType=
+     */
+    router.get('/standards', controller.listStandards);
+
+    /**
+     * PUT /wms/analytics/standards
+     * Body: { updatedBy?, standards: [{ taskType, stepOrder, standardSeconds }] }
+     */
+    router.put('/standards', controller.setStandards);
+
+    /**
+     * GET /wms/analytics/kpi?period=DAILY|WEEKLY|MONTHLY
+     */
+    router.get('/kpi', controller.getKpi);
+
+    return router;
+}
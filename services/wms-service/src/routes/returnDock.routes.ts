@@ -0,0 +1,33 @@
+/**
+ * Return Dock Routes
+ * Routes API du quai retours (RMA)
+ */
+
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { ReturnDockController } from '../controllers/returnDock.controller';
+import { ReturnDockService } from '../services/returnDock.service';
+
+export function createReturnDockRoutes(prisma: PrismaClient): Router {
+    const router = Router();
+    const controller = new ReturnDockController(new ReturnDockService(prisma));
+
+    /**
+     * POST /wms/returns/receive
+     * Body: { rmaId, scannedSerial, condition, conditionNotes?, photoUrls?, reason?, receivedBy }
+     */
+    router.post('/receive', controller.receiveReturn);
+
+    /**
+     * GET /wms/returns/rma/:rmaId
+     */
+    router.get('/rma/:rmaId', controller.getReturnByRma);
+
+    /**
+     * POST /wms/returns/:id/disposition
+     * Body: { disposition, decidedBy, toLocation, note?, supplierRef?, scrapReasonCode?, dataWipeCertificateRef? }
+     */
+    router.post('/:id/disposition', controller.disposeReturn);
+
+    return router;
+}
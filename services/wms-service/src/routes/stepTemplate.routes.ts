@@ -0,0 +1,39 @@
+/**
+ * Step Template Routes
+ * Routes API pour les templates d'étapes versionnés
+ */
+
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { StepTemplateController } from '../controllers/stepTemplate.controller';
+import { StepTemplateService } from '../services/stepTemplate.service';
+
+export function createStepTemplateRoutes(prisma: PrismaClient): Router {
+    const router = Router();
+    const controller = new StepTemplateController(new StepTemplateService(prisma));
+
+    /**
+     * POST /wms/step-templates
+     * Body: { taskType, assetType?, customerId?, option?, createdBy?, steps: [{ stepOrder, description,
+     *         scanRequired?, expectAssetScan?, expectedCode?, inputType?, unit?, minValue?, maxValue?,
+     *         onlyIfOption?, unlessOption? }] }
+     */
+    router.post('/', controller.createTemplate);
+
+    /**
+     * GET /wms/step-templates?taskType=
+     */
+    router.get('/', controller.listTemplates);
+
+    /**
+     * GET /wms/step-templates/preview?taskType=&assetId=&assetType=&customerId=&options=
+     */
+    router.get('/preview', controller.previewSteps);
+
+    /**
+     * GET /wms/step-templates/:id
+     */
+    router.get('/:id', controller.getTemplate);
+
+    return router;
+}
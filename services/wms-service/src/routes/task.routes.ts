@@ -18,15 +18,35 @@ export function createTaskRoutes(prisma: PrismaClient): Router {
     /**
      * POST /wms/tasks
      * Crée une nouvelle tâche (appelé par CTO/Order service)
+     * Body: { assetId, type, orderId?, promisedDate?, priority?, zone?, requiredCertification?,
+     *         assetType?, customerId?, options? }
      */
     router.post('/', controller.createTask);
 
+    /**
+     * GET /wms/tasks?orderId=xxx&assetId=yyy
+     * Liste les tâches d'une commande et/ou d'un asset
+     */
+    router.get('/', controller.listTasks);
+
     /**
      * GET /wms/tasks/next?operatorId=xxx
      * Récupère la prochaine tâche pour un opérateur
      */
     router.get('/next', controller.getNextTask);
 
+    /**
+     * GET /wms/tasks/queue?operatorId=xxx&limit=50
+     * File de tâches classée (vue superviseur)
+     */
+    router.get('/queue', controller.getQueue);
+
+    /**
+     * GET /wms/tasks/blocked
+     * Tâches bloquées : âge et cause (plus anciennes d'abord)
+     */
+    router.get('/blocked', controller.getBlockedTasks);
+
     /**
      * GET /wms/tasks/:id
      * Récupère une tâche avec ses étapes
@@ -42,8 +62,8 @@ export function createTaskRoutes(prisma: PrismaClient): Router {
 
     /**
      * POST /wms/tasks/:id/step
-     * Exécute une étape avec scan obligatoire
-     * Body: { stepId, scanCode }
+     * Exécute une étape (scan et/ou valeur mesurée selon l'étape)
+     * Body: { stepId, scanCode?, measuredValue? }
      */
     router.post('/:id/step', controller.executeStep);
 
@@ -53,6 +73,13 @@ export function createTaskRoutes(prisma: PrismaClient): Router {
      */
     router.post('/:id/complete', controller.completeTask);
 
+    /**
+     * POST /wms/tasks/:id/resolve-block
+     * Débloque une tâche (approbation superviseur via gouvernance)
+     * Body: { supervisorId, reasonCode, resumeStatus, note?, reassignToOperatorId? }
+     */
+    router.post('/:id/resolve-block', controller.resolveBlock);
+
     /**
      * GET /wms/tasks/stats
      * Stats pour observabilité service
@@ -0,0 +1,50 @@
+/**
+ * Wave Routes
+ * Routes API pour les vagues de préparation et le picking groupé
+ */
+
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { WaveController } from '../controllers/wave.controller';
+import { WaveService } from '../services/wave.service';
+
+export function createWaveRoutes(prisma: PrismaClient): Router {
+    const router = Router();
+    const controller = new WaveController(new WaveService(prisma));
+
+    /**
+     * POST /wms/waves/plan
+     * Body: { cutoffAt, maxTasksPerBatch?, maxOrdersPerBatch?, createdBy? }
+     */
+    router.post('/plan', controller.planWave);
+
+    // Routes lots avant /:id
+    /**
+     * GET /wms/waves/batches/:batchId
+     */
+    router.get('/batches/:batchId', controller.getBatch);
+
+    /**
+     * POST /wms/waves/batches/:batchId/start
+     * Body: { operatorId }
+     */
+    router.post('/batches/:batchId/start', controller.startBatch);
+
+    /**
+     * POST /wms/waves/batches/:batchId/picks
+     * Body: { operatorId, scanCode, locationCode? }
+     */
+    router.post('/batches/:batchId/picks', controller.recordPick);
+
+    /**
+     * POST /wms/waves/batches/:batchId/cancel
+     */
+    router.post('/batches/:batchId/cancel', controller.cancelBatch);
+
+    /**
+     * GET /wms/waves/:id
+     */
+    router.get('/:id', controller.getWave);
+
+    return router;
+}
@@ -7,6 +7,12 @@ import { Router } from 'express';
 import { WmsController } from '../controllers/wms.controller';
 import { PrismaClient } from '@prisma/client';
 import { createTaskRoutes } from './task.routes';
+import { createOperatorRoutes } from './operator.routes';
+import { createWaveRoutes } from './wave.routes';
+import { createStepTemplateRoutes } from './stepTemplate.routes';
+import { createReturnDockRoutes } from './returnDock.routes';
+import { createProductivityRoutes } from './productivity.routes';
+import { createHandheldSyncRoutes } from './handheldSync.routes';
 
 export function createWmsRoutes(prisma: PrismaClient): Router {
     const router = Router();
@@ -14,24 +20,36 @@ export function createWmsRoutes(prisma: PrismaClient): Router {
 
     // === Sprint 17: Task Routes ===
     router.use('/tasks', createTaskRoutes(prisma));
+    router.use('/operators', createOperatorRoutes(prisma));
+    router.use('/waves', createWaveRoutes(prisma));
+    router.use('/step-templates', createStepTemplateRoutes(prisma));
+    router.use('/analytics', createProductivityRoutes(prisma));
+    router.use('/handhelds', createHandheldSyncRoutes(prisma));
 
-    // === Picking ===
+    // === Picking (façade v0 sur les tâches PICKING) ===
     router.post('/picking', controller.createPickingOrder);
     router.get('/picking/:id', controller.getPickingOrder);
     router.post('/picking/:id/start', controller.startPicking);
     router.post('/picking/:id/complete', controller.completePicking);
 
-    // === Assembly ===
+    // === Assembly (façade v0 sur les tâches ASSEMBLY) ===
     router.post('/assembly', controller.createAssemblyOrder);
     router.get('/assembly/:id', controller.getAssemblyOrder);
     router.post('/assembly/:id/start', controller.startAssembly);
     router.post('/assembly/:id/complete', controller.completeAssembly);
 
-    // === Shipments ===
+    // === Shipments (v0 : création = envoi sur dérogation ; prepare : envoi après la tâche SHIPPING scannée) ===
     router.post('/shipments', controller.createShipment);
+    router.post('/shipments/prepare', controller.prepareShipment);
+    router.post('/shipments/tracking/:carrier', controller.receiveCarrierTracking);
     router.get('/shipments/:id', controller.getShipment);
+    router.post('/shipments/:id/dispatch', controller.dispatchShipment);
+    router.get('/shipments/:id/label', controller.getShipmentLabel);
+    router.get('/shipments/:id/tracking', controller.getShipmentTracking);
+    router.post('/shipments/:id/tracking', controller.addTrackingEvent);
 
     // === Returns ===
+    router.use('/returns', createReturnDockRoutes(prisma));
     router.post('/returns', controller.createReturn);
     router.get('/returns/:id', controller.getReturn);
 
@@ -0,0 +1,333 @@
+/**
+ * Handheld Sync Service
+ * Rejeu des files d'événements capturées hors ligne par les terminaux
+ *
+ * RÈGLES :
+ * - Rejeu dans l'ordre des horodatages appareil, via le moteur de tâches
+ *   (mêmes contrôles qu'en ligne : scan invalide → tâche BLOQUÉE)
+ * - ScanLog, étapes et tâches horodatés à l'heure de capture
+ * - Conflits détectés avant rejeu : tâche réattribuée ou changée d'état,
+ *   asset déplacé depuis la première capture, étape déjà faite
+ * - Un événement en échec interrompt le rejeu des suivants de sa tâche
+ * - Idempotent : un eventId déjà synchronisé renvoie son résultat d'origine
+ */
+
+import { PrismaClient, HandheldEventType, SyncOutcome, TaskStatus } from '@prisma/client';
+import { TaskService } from './task.service';
+import { TaskRepository } from '../repositories/task.repository';
+import { HandheldSyncRepository } from '../repositories/handheldSync.repository';
+import { InventoryServiceClient, HttpInventoryServiceClient } from '../integrations/inventory.client';
+import { emitHandheldSynced } from '../events/wms.events';
+import {
+    WmsTaskEntity,
+    InvalidScanError,
+    InvalidStepInputError,
+    IncompleteStepsError,
+    StepNotFoundError,
+    TaskNotFoundError,
+    TaskNotPendingError,
+    TaskNotInProgressError,
+    OperatorNotFoundError,
+    OperatorNotQualifiedError,
+    OperatorBusyError
+} from '../domain/task.types';
+import { TaskInBatchError } from '../domain/wave.types';
+import {
+    HandheldSyncDto,
+    HandheldSyncResult,
+    HandheldEvent,
+    SyncEventResult,
+    SyncReason,
+    haltsTask,
+    normalizeSyncEvents
+} from '../domain/handheldSync.types';
+
+// Mouvements d'inventaire sans changement d'emplacement
+const STATIONARY_MOVEMENT_REASONS = ['RESERVE', 'RELEASE'];
+
+interface Reconciliation {
+    outcome: SyncOutcome;
+    reason: SyncReason | null;
+}
+
+export class HandheldSyncService {
+    private readonly taskService: TaskService;
+    private readonly taskRepository: TaskRepository;
+    private readonly syncRepository: HandheldSyncRepository;
+    private readonly inventoryClient: InventoryServiceClient;
+
+    constructor(private readonly prisma: PrismaClient, inventoryClient?: InventoryServiceClient) {
+        this.inventoryClient = inventoryClient ?? new HttpInventoryServiceClient();
+        this.taskService = new TaskService(prisma, this.inventoryClient);
+        this.taskRepository = new TaskRepository(prisma);
+        this.syncRepository = new HandheldSyncRepository(prisma);
+    }
+
+    /**
+     * Rejoue la file d'un terminal et renvoie un résultat par événement
+     * (ordre de rejeu). Inventory Service injoignable → rien n'est rejoué.
+     */
+    async sync(dto: HandheldSyncDto, now: Date = new Date()): Promise<HandheldSyncResult> {
+        const events = normalizeSyncEvents(dto, now);
+
+        const synced = await this.syncRepository.findByEventIds(dto.deviceId, events.map(e => e.eventId));
+        const previous = new Map(synced.map(e => [e.eventId, e]));
+        const fresh = events.filter(e => !previous.has(e.eventId));
+
+        const tasks = await this.loadTasks(events);
+        const movedTaskIds = await this.findMovedAssets(fresh, tasks);
+
+        const haltedTaskIds = new Set<string>();
+        const results: SyncEventResult[] = [];
+
+        for (const event of events) {
+            const known = previous.get(event.eventId);
+            let reconciliation: Reconciliation;
+
+            if (known) {
+                reconciliation = { outcome: known.outcome, reason: known.reason };
+            } else {
+                reconciliation = haltedTaskIds.has(event.taskId)
+                    ? { outcome: SyncOutcome.SKIPPED, reason: 'PREVIOUS_EVENT_FAILED' }
+                    : await this.replay(dto.operatorId, event, tasks.get(event.taskId) ?? null, movedTaskIds);
+
+                await this.syncRepository.record({
+                    deviceId: dto.deviceId,
+                    eventId: event.eventId,
+                    operatorId: dto.operatorId,
+                    taskId: event.taskId,
+                    stepId: event.stepId ?? null,
+                    type: event.type,
+                    capturedAt: event.capturedAt,
+                    ...reconciliation
+                });
+                if (reconciliation.outcome !== SyncOutcome.SKIPPED && tasks.get(event.taskId)) {
+                    tasks.set(event.taskId, await this.taskRepository.findById(event.taskId));
+                }
+            }
+
+            if (haltsTask(reconciliation.outcome, reconciliation.reason)) {
+                haltedTaskIds.add(event.taskId);
+            }
+
+            results.push({
+                eventId: event.eventId,
+                taskId: event.taskId,
+                type: event.type,
+                capturedAt: event.capturedAt,
+                ...reconciliation,
+                duplicate: known !== undefined,
+                taskStatus: tasks.get(event.taskId)?.status ?? null
+            });
+        }
+
+        // Bilan publié après le rejeu (chaque événement a déjà été enregistré)
+        const summary = this.summarize(results);
+        await emitHandheldSynced(this.prisma, dto.deviceId, dto.operatorId, summary);
+
+        return {
+            deviceId: dto.deviceId,
+            operatorId: dto.operatorId,
+            syncedAt: now,
+            results,
+            summary
+        };
+    }
+
+    // ========== RECONCILIATION ==========
+
+    /**
+     * Rejoue un événement après détection des conflits
+     */
+    private async replay(
+        operatorId: string,
+        event: HandheldEvent,
+        task: WmsTaskEntity | null,
+        movedTaskIds: Set<string>
+    ): Promise<Reconciliation> {
+        if (!task) {
+            return { outcome: SyncOutcome.REJECTED, reason: 'TASK_NOT_FOUND' };
+        }
+
+        const reconciled = await this.reconcile(operatorId, event, task);
+        if (reconciled) {
+            return reconciled;
+        }
+        if (movedTaskIds.has(task.id)) {
+            return { outcome: SyncOutcome.CONFLICT, reason: 'ASSET_MOVED' };
+        }
+
+        try {
+            await this.apply(operatorId, event);
+            return { outcome: SyncOutcome.APPLIED, reason: null };
+        } catch (error) {
+            const failure = this.failureOf(error);
+            if (!failure) {
+                throw error;
+            }
+            return failure;
+        }
+    }
+
+    /**
+     * Compare l'intention du terminal à l'état serveur
+     * null = rien ne s'oppose au rejeu
+     */
+    private async reconcile(
+        operatorId: string,
+        event: HandheldEvent,
+        task: WmsTaskEntity
+    ): Promise<Reconciliation | null> {
+        if (task.operatorId !== null && task.operatorId !== operatorId) {
+            return { outcome: SyncOutcome.CONFLICT, reason: 'TASK_REASSIGNED' };
+        }
+
+        const alreadyApplied: Reconciliation = { outcome: SyncOutcome.SKIPPED, reason: 'ALREADY_APPLIED' };
+        const stateChanged: Reconciliation = { outcome: SyncOutcome.CONFLICT, reason: 'TASK_STATE_CHANGED' };
+
+        switch (event.type) {
+            case HandheldEventType.START:
+                if (task.status === TaskStatus.PENDING) {
+                    return null;
+                }
+                return task.status === TaskStatus.BLOCKED ? stateChanged : alreadyApplied;
+
+            case HandheldEventType.STEP: {
+                const step = await this.taskRepository.findStepById(event.stepId as string);
+                if (step && step.taskId === task.id && step.completed) {
+                    return step.scannedCode === (event.scanCode ?? null)
+                        ? alreadyApplied
+                        : { outcome: SyncOutcome.CONFLICT, reason: 'STEP_ALREADY_COMPLETED' };
+                }
+                return task.status === TaskStatus.IN_PROGRESS ? null : stateChanged;
+            }
+
+            case HandheldEventType.COMPLETE:
+                if (task.status === TaskStatus.COMPLETED) {
+                    return alreadyApplied;
+                }
+                return task.status === TaskStatus.IN_PROGRESS ? null : stateChanged;
+        }
+    }
+
+    /**
+     * Exécute l'événement sur le moteur de tâches, à l'heure de capture
+     */
+    private async apply(operatorId: string, event: HandheldEvent): Promise<void> {
+        switch (event.type) {
+            case HandheldEventType.START:
+                await this.taskService.startTask(event.taskId, {
+                    operatorId,
+                    scanCode: event.scanCode as string,
+                    scannedAt: event.capturedAt
+                });
+                return;
+            case HandheldEventType.STEP:
+                await this.taskService.executeStep(event.taskId, {
+                    stepId: event.stepId as string,
+                    scanCode: event.scanCode,
+                    measuredValue: event.measuredValue,
+                    scannedAt: event.capturedAt
+                });
+                return;
+            case HandheldEventType.COMPLETE:
+                await this.taskService.completeTask(event.taskId, event.capturedAt);
+                return;
+        }
+    }
+
+    // ========== HELPERS ==========
+
+    private async loadTasks(events: HandheldEvent[]): Promise<Map<string, WmsTaskEntity | null>> {
+        const tasks = new Map<string, WmsTaskEntity | null>();
+        for (const taskId of new Set(events.map(e => e.taskId))) {
+            tasks.set(taskId, await this.taskRepository.findById(taskId));
+        }
+        return tasks;
+    }
+
+    /**
+     * Tâches dont l'asset a changé d'emplacement dans l'inventaire après la première
+     * capture hors ligne de la tâche (le terminal a scanné un asset qui n'y était plus).
+     * Réservations et libérations (holds, balayage, liste d'attente) ne déplacent rien.
+     */
+    private async findMovedAssets(
+        events: HandheldEvent[],
+        tasks: Map<string, WmsTaskEntity | null>
+    ): Promise<Set<string>> {
+        const firstCapture = new Map<string, Date>();
+        for (const event of events) {
+            if (!firstCapture.has(event.taskId)) {
+                firstCapture.set(event.taskId, event.capturedAt);
+            }
+        }
+
+        const moved = new Set<string>();
+        for (const [taskId, capturedAt] of firstCapture) {
+            const task = tasks.get(taskId);
+            if (!task) {
+                continue;
+            }
+            const movements = (await this.inventoryClient.getMovements(task.assetId))
+                .filter(m => !STATIONARY_MOVEMENT_REASONS.includes(m.reason))
+                .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+            const before = movements.filter(m => new Date(m.createdAt).getTime() <= capturedAt.getTime());
+            const after = movements.filter(m => new Date(m.createdAt).getTime() > capturedAt.getTime());
+
+            // Emplacement de l'asset au moment de la capture
+            const capturedLocation = before[before.length - 1]?.toLocation ?? null;
+            if (after.some(m => m.toLocation !== capturedLocation)) {
+                moved.add(taskId);
+            }
+        }
+        return moved;
+    }
+
+    private summarize(results: SyncEventResult[]): Record<SyncOutcome, number> {
+        const summary = Object.fromEntries(
+            Object.values(SyncOutcome).map(outcome => [outcome, 0])
+        ) as Record<SyncOutcome, number>;
+        for (const result of results) {
+            summary[result.outcome]++;
+        }
+        return summary;
+    }
+
+    /**
+     * Refus du moteur de tâches → résultat de réconciliation
+     * (null : erreur technique, propagée)
+     */
+    private failureOf(error: unknown): Reconciliation | null {
+        if (error instanceof InvalidScanError) {
+            return { outcome: SyncOutcome.REJECTED, reason: 'INVALID_SCAN' };
+        }
+        if (error instanceof InvalidStepInputError) {
+            return { outcome: SyncOutcome.REJECTED, reason: 'INVALID_INPUT' };
+        }
+        if (error instanceof IncompleteStepsError) {
+            return { outcome: SyncOutcome.REJECTED, reason: 'INCOMPLETE_STEPS' };
+        }
+        if (error instanceof StepNotFoundError) {
+            return { outcome: SyncOutcome.REJECTED, reason: 'STEP_NOT_FOUND' };
+        }
+        if (error instanceof TaskNotFoundError) {
+            return { outcome: SyncOutcome.REJECTED, reason: 'TASK_NOT_FOUND' };
+        }
+        if (error instanceof OperatorNotFoundError) {
+            return { outcome: SyncOutcome.REJECTED, reason: 'OPERATOR_NOT_FOUND' };
+        }
+        if (error instanceof OperatorNotQualifiedError) {
+            return { outcome: SyncOutcome.REJECTED, reason: 'OPERATOR_NOT_QUALIFIED' };
+        }
+        if (error instanceof OperatorBusyError) {
+            return { outcome: SyncOutcome.CONFLICT, reason: 'OPERATOR_BUSY' };
+        }
+        if (error instanceof TaskInBatchError) {
+            return { outcome: SyncOutcome.CONFLICT, reason: 'TASK_IN_BATCH' };
+        }
+        if (error instanceof TaskNotPendingError || error instanceof TaskNotInProgressError) {
+            return { outcome: SyncOutcome.CONFLICT, reason: 'TASK_STATE_CHANGED' };
+        }
+        return null;
+    }
+}
@@ -0,0 +1,68 @@
+/**
+ * Operator Service
+ * Gestion des opérateurs WMS et de leur profil de dispatch
+ * (compétences, certifications, zone d'affectation)
+ */
+
+import { PrismaClient, TaskType } from '@prisma/client';
+import { OperatorRepository } from '../repositories/operator.repository';
+import {
+    OperatorEntity,
+    CreateOperatorDto,
+    UpdateOperatorProfileDto,
+    DuplicateBadgeError,
+    InvalidSkillError
+} from '../domain/operator.types';
+import { OperatorNotFoundError } from '../domain/task.types';
+
+export class OperatorService {
+    private readonly operatorRepository: OperatorRepository;
+
+    constructor(prisma: PrismaClient) {
+        this.operatorRepository = new OperatorRepository(prisma);
+    }
+
+    /**
+     * Crée un opérateur (badge unique)
+     */
+    async createOperator(dto: CreateOperatorDto): Promise<OperatorEntity> {
+        this.assertValidSkills(dto.skills ?? []);
+
+        if (await this.operatorRepository.badgeExists(dto.badge)) {
+            throw new DuplicateBadgeError(dto.badge);
+        }
+
+        return this.operatorRepository.create(dto);
+    }
+
+    /**
+     * Liste les opérateurs
+     */
+    async listOperators(): Promise<OperatorEntity[]> {
+        return this.operatorRepository.findAll();
+    }
+
+    /**
+     * Met à jour le profil de dispatch d'un opérateur
+     */
+    async updateProfile(operatorId: string, dto: UpdateOperatorProfileDto): Promise<OperatorEntity> {
+        const operator = await this.operatorRepository.findById(operatorId);
+        if (!operator) {
+            throw new OperatorNotFoundError(operatorId);
+        }
+
+        if (dto.skills) {
+            this.assertValidSkills(dto.skills);
+        }
+
+        return this.operatorRepository.updateProfile(operatorId, dto);
+    }
+
+    private assertValidSkills(skills: string[]): void {
+        for (const skill of skills) {
+            if (!Object.values(TaskType).includes(skill as TaskType)) {
+                throw new InvalidSkillError(skill);
+            }
+        }
+    }
+}
@@ -0,0 +1,170 @@
+/**
+ * Productivity Service
+ * Productivité opérateurs, temps par étape vs standards, KPIs WMS
+ *
+ * RÈGLES :
+ * - Calcul à la demande sur les tâches terminées (aucune donnée recopiée)
+ * - Le temps bloqué n'est pas du temps de travail
+ * - Une tâche bloquée puis reprise compte comme reprise (rework)
+ */
+
+import { PrismaClient, TaskType } from '@prisma/client';
+import { ProductivityRepository } from '../repositories/productivity.repository';
+import {
+    ProductivityQuery,
+    ProductivityRow,
+    StepPerformanceRow,
+    LabourStandardDto,
+    LabourStandardEntity,
+    WmsKpiSnapshot,
+    TaskActivity,
+    MAX_ANALYTICS_RANGE_DAYS,
+    KPI_WINDOW_DAYS,
+    standardKey,
+    workingMs,
+    taskStandardMs,
+    idleGapsByTask,
+    aggregateProductivity,
+    aggregateStepPerformance,
+    InvalidAnalyticsQueryError
+} from '../domain/productivity.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ProductivityService {
+    private readonly productivityRepository: ProductivityRepository;
+
+    constructor(prisma: PrismaClient) {
+        this.productivityRepository = new ProductivityRepository(prisma);
+    }
+
+    /**
+     * Agrégats par période (jour / semaine), opérateur et type de tâche
+     */
+    async getProductivity(query: ProductivityQuery): Promise<ProductivityRow[]> {
+        this.assertRange(query.from, query.to);
+
+        // Inactivité calculée sur toutes les tâches de l'opérateur, avant filtre par type
+        const tasks = await this.productivityRepository.findCompletedActivity(query.from, query.to, query.operatorId);
+        const idleGaps = idleGapsByTask(tasks);
+        const standards = await this.loadStandards();
+
+        return aggregateProductivity(this.filterByType(tasks, query.taskType), standards, query.granularity, idleGaps);
+    }
+
+    /**
+     * Temps moyen par étape comparé aux standards
+     */
+    async getStepPerformance(from: Date, to: Date, taskType?: TaskType): Promise<StepPerformanceRow[]> {
+        this.assertRange(from, to);
+
+        const tasks = await this.productivityRepository.findCompletedActivity(from, to);
+        const standards = await this.loadStandards();
+
+        return aggregateStepPerformance(this.filterByType(tasks, taskType), standards);
+    }
+
+    // ========== STANDARDS ==========
+
+    async listStandards(taskType?: TaskType): Promise<LabourStandardEntity[]> {
+        return this.productivityRepository.findStandards(taskType);
+    }
+
+    /**
+     * Crée ou remplace des standards d'étapes
+     */
+    async setStandards(standards: LabourStandardDto[], updatedBy?: string): Promise<LabourStandardEntity[]> {
+        if (standards.length === 0) {
+            throw new InvalidAnalyticsQueryError('At least one standard is required');
+        }
+        for (const standard of standards) {
+            if (!Object.values(TaskType).includes(standard.taskType)) {
+                throw new InvalidAnalyticsQueryError(`Invalid task type: ${String(standard.taskType)}`);
+            }
+            if (!Number.isInteger(standard.stepOrder) || standard.stepOrder < 1) {
+                throw new InvalidAnalyticsQueryError('stepOrder must be a positive integer');
+            }
+            if (!Number.isInteger(standard.standardSeconds) || standard.standardSeconds < 1) {
+                throw new InvalidAnalyticsQueryError('standardSeconds must be a positive integer');
+            }
+        }
+
+        const saved: LabourStandardEntity[] = [];
+        for (const standard of standards) {
+            saved.push(await this.productivityRepository.upsertStandard(standard, updatedBy));
+        }
+        return saved;
+    }
+
+    // ========== KPI ==========
+
+    /**
+     * KPIs WMS sur une fenêtre glissante (DAILY = 24 h, WEEKLY = 7 j, MONTHLY = 30 j)
+     * Consommé par l'observabilité (WMS_AVG_TASK_TIME, WMS_BLOCKED_TASKS, WMS_QA_REWORK_RATE)
+     */
+    async getKpiSnapshot(period: string, now: Date = new Date()): Promise<WmsKpiSnapshot> {
+        const days = KPI_WINDOW_DAYS[period];
+        if (days === undefined) {
+            throw new InvalidAnalyticsQueryError(`Invalid period: ${period}`);
+        }
+
+        const from = new Date(now.getTime() - days * DAY_MS);
+        const [tasks, blockedTasks, standards] = await Promise.all([
+            this.productivityRepository.findCompletedActivity(from, now),
+            this.productivityRepository.countBlocked(),
+            this.loadStandards()
+        ]);
+
+        let totalWorking = 0;
+        let standardMs = 0;
+        let standardWorking = 0;
+        for (const task of tasks) {
+            const working = workingMs(task);
+            totalWorking += working;
+            const standard = taskStandardMs(task, standards);
+            if (standard !== null) {
+                standardMs += standard;
+                standardWorking += working;
+            }
+        }
+
+        const qaTasks = tasks.filter(task => task.type === TaskType.QA);
+        const scans = tasks.flatMap(task => task.scans);
+
+        return {
+            period,
+            from,
+            to: now,
+            tasksCompleted: tasks.length,
+            avgTaskTime: tasks.length > 0 ? Math.round(totalWorking / tasks.length / 60_000) : 0,
+            blockedTasks,
+            qaReworkRate: this.percent(qaTasks.filter(task => task.blocks.length > 0).length, qaTasks.length),
+            performancePct: standardWorking > 0 ? this.percent(standardMs, standardWorking) : null,
+            scanErrorRate: this.percent(scans.filter(scan => !scan.valid).length, scans.length)
+        };
+    }
+
+    // ========== HELPERS ==========
+
+    private async loadStandards(): Promise<Map<string, number>> {
+        const standards = await this.productivityRepository.findStandards();
+        return new Map(standards.map(s => [standardKey(s.taskType, s.stepOrder), s.standardSeconds]));
+    }
+
+    private filterByType(tasks: TaskActivity[], taskType?: TaskType): TaskActivity[] {
+        return taskType ? tasks.filter(task => task.type === taskType) : tasks;
+    }
+
+    private assertRange(from: Date, to: Date): void {
+        if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+            throw new InvalidAnalyticsQueryError('from must be a valid date before to');
+        }
+        if (to.getTime() - from.getTime() > MAX_ANALYTICS_RANGE_DAYS * DAY_MS) {
+            throw new InvalidAnalyticsQueryError(`Range cannot exceed ${MAX_ANALYTICS_RANGE_DAYS} days`);
+        }
+    }
+
+    private percent(part: number, total: number): number {
+        return total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+    }
+}
@@ -0,0 +1,240 @@
+/**
+ * Return Dock Service
+ * Réception et tri des retours clients (RMA) au quai retours
+ *
+ * RÈGLES :
+ * - Une réception se fait contre un RMA du SAV, jamais à l'aveugle
+ * - Le numéro de série scanné doit être celui de l'asset du RMA
+ * - Chaque retour reçu génère sa tâche QA entrante
+ * - La destination n'est décidée qu'après la QA, une seule fois
+ */
+
+import { PrismaClient, ReturnStatus, ReturnCondition, ReturnDisposition, TaskStatus, TaskType, TaskPriority } from '@prisma/client';
+import { ReturnRepository } from '../repositories/return.repository';
+import { TaskRepository } from '../repositories/task.repository';
+import { TaskService } from './task.service';
+import { InventoryServiceClient, HttpInventoryServiceClient } from '../integrations/inventory.client';
+import { AssetServiceClient, HttpAssetServiceClient } from '../integrations/asset.client';
+import { SavServiceClient, HttpSavServiceClient } from '../integrations/sav.client';
+import { emitReturnReceived, emitReturnDisposed } from '../events/wms.events';
+import {
+    ReceiveReturnDto,
+    DisposeReturnDto,
+    ReturnEntity,
+    DISPOSITION_ROUTES,
+    SCRAP_REASON_CODES,
+    RETURN_QA_OPTION,
+    RETURNS_ZONE,
+    RECEIVABLE_RMA_STATUS,
+    RECEIVED_RMA_STATUS,
+    ReturnNotFoundError,
+    RmaNotFoundError,
+    RmaAlreadyReceivedError,
+    ReturnSerialMismatchError,
+    InvalidReturnRequestError,
+    ReturnDispositionError
+} from '../domain/return.types';
+
+export class ReturnDockService {
+    private readonly returnRepository: ReturnRepository;
+    private readonly taskRepository: TaskRepository;
+    private readonly taskService: TaskService;
+    private readonly inventoryClient: InventoryServiceClient;
+    private readonly assetClient: AssetServiceClient;
+    private readonly savClient: SavServiceClient;
+
+    constructor(
+        private readonly prisma: PrismaClient,
+        inventoryClient?: InventoryServiceClient,
+        assetClient?: AssetServiceClient,
+        savClient?: SavServiceClient
+    ) {
+        this.returnRepository = new ReturnRepository(prisma);
+        this.taskRepository = new TaskRepository(prisma);
+        this.inventoryClient = inventoryClient ?? new HttpInventoryServiceClient();
+        this.assetClient = assetClient ?? new HttpAssetServiceClient();
+        this.savClient = savClient ?? new HttpSavServiceClient();
+        this.taskService = new TaskService(prisma, this.inventoryClient);
+    }
+
+    // ========== RECEIVING ==========
+
+    /**
+     * Réception d'un retour contre un RMA
+     *
+     * Étapes STRICTES :
+     * 1. RMA connu du SAV, en attente de réception (CREATED), pas déjà reçu au quai
+     * 2. Scan du numéro de série = asset du RMA
+     * 3. SAV : RMA → RECEIVED (mouvement Inventory RETURN côté SAV)
+     * 4. Tâche QA entrante (zone RETURNS, template d'option RETURN)
+     * 5. Création Return RECEIVED (état, photos, lien RMA)
+     * 6. Émettre événement ReturnReceived
+     *
+     * 4 à 6 s'exécutent dans une seule transaction. Reprise : si l'appel SAV a
+     * réussi mais la suite a échoué, le RMA est RECEIVED sans Return ; la même
+     * réception peut être rejouée et reprend à l'étape 4.
+     */
+    async receive(dto: ReceiveReturnDto): Promise<ReturnEntity> {
+        if (!Object.values(ReturnCondition).includes(dto.condition)) {
+            throw new InvalidReturnRequestError(`Invalid condition: ${String(dto.condition)}`);
+        }
+        const photoUrls = dto.photoUrls ?? [];
+        if (!photoUrls.every(url => typeof url === 'string' && url.trim() !== '')) {
+            throw new InvalidReturnRequestError('photoUrls must be non-empty strings');
+        }
+        if ((dto.condition === ReturnCondition.DAMAGED || dto.condition === ReturnCondition.INCOMPLETE)
+            && photoUrls.length === 0) {
+            throw new InvalidReturnRequestError(`At least one photo is required for condition ${dto.condition}`);
+        }
+
+        // 1. RMA du SAV
+        const existing = await this.returnRepository.findByRmaId(dto.rmaId);
+        if (existing) {
+            throw new RmaAlreadyReceivedError(dto.rmaId, existing.status);
+        }
+
+        const rma = await this.savClient.getRma(dto.rmaId);
+        if (!rma) {
+            throw new RmaNotFoundError(dto.rmaId);
+        }
+        // RECEIVED sans Return : réception interrompue après l'appel SAV
+        if (rma.status !== RECEIVABLE_RMA_STATUS && rma.status !== RECEIVED_RMA_STATUS) {
+            throw new RmaAlreadyReceivedError(dto.rmaId, rma.status);
+        }
+
+        // 2. Numéro de série scanné
+        const asset = await this.assetClient.getAsset(rma.assetId);
+        if (dto.scannedSerial.trim().toUpperCase() !== asset.serialNumber.trim().toUpperCase()) {
+            throw new ReturnSerialMismatchError(dto.rmaId, asset.serialNumber, dto.scannedSerial);
+        }
+
+        // 3. Réception côté SAV (déjà faite lors d'une tentative précédente → rien à faire)
+        if (rma.status === RECEIVABLE_RMA_STATUS) {
+            await this.savClient.receiveRma(dto.rmaId);
+        }
+
+        // 4. Tâche QA entrante, 5-6. retour et événement dans sa transaction
+        let received: ReturnEntity | undefined;
+        await this.taskService.createTask(rma.assetId, TaskType.QA, undefined, {
+            priority: TaskPriority.HIGH,
+            zone: RETURNS_ZONE,
+            assetType: asset.assetType,
+            options: [RETURN_QA_OPTION]
+        }, new Date(), async (tx, qaTask) => {
+            received = await new ReturnRepository(tx).createReceived({
+                assetId: rma.assetId,
+                reason: dto.reason?.trim() || `RMA ${dto.rmaId}`,
+                rmaId: dto.rmaId,
+                serialNumber: asset.serialNumber,
+                condition: dto.condition,
+                conditionNotes: dto.conditionNotes,
+                photoUrls,
+                receivedBy: dto.receivedBy,
+                qaTaskId: qaTask.id
+            });
+            await emitReturnReceived(tx, received);
+        });
+        return received as ReturnEntity;
+    }
+
+    /**
+     * Retour reçu pour un RMA
+     */
+    async getByRmaId(rmaId: string): Promise<ReturnEntity> {
+        const ret = await this.returnRepository.findByRmaId(rmaId);
+        if (!ret) {
+            throw new RmaNotFoundError(rmaId);
+        }
+        return ret;
+    }
+
+    // ========== DISPOSITION ==========
+
+    /**
+     * Destination d'un retour après QA
+     *
+     * Étapes STRICTES :
+     * 1. Retour non encore décidé, tâche QA existante et terminée
+     * 2. Appel Asset Service → statut cible (refus des gardes → rien n'est déplacé)
+     * 3. Mouvement Inventory vers l'emplacement de destination (toLocation)
+     * 4. Return → DISPOSED
+     * 5. Émettre événement ReturnDisposed
+     *
+     * Reprise : les appels distants ne sont pas atomiques. Après un échec, la même
+     * décision peut être rejouée : un asset déjà au statut cible ou déjà sur
+     * l'emplacement de destination n'est ni retransitionné ni redéplacé.
+     */
+    async dispose(returnId: string, dto: DisposeReturnDto): Promise<ReturnEntity> {
+        if (!Object.values(ReturnDisposition).includes(dto.disposition)) {
+            throw new InvalidReturnRequestError(`Invalid disposition: ${String(dto.disposition)}`);
+        }
+        if (dto.disposition === ReturnDisposition.RETURN_TO_SUPPLIER && !dto.supplierRef?.trim()) {
+            throw new InvalidReturnRequestError('supplierRef is required to return to supplier');
+        }
+        if (!dto.toLocation?.trim()) {
+            throw new InvalidReturnRequestError('toLocation (Inventory location id) is required');
+        }
+        if (dto.disposition === ReturnDisposition.RESTOCK && !dto.dataWipeCertificateRef?.trim()) {
+            throw new InvalidReturnRequestError('dataWipeCertificateRef is required to restock a returned asset');
+        }
+        if (dto.scrapReasonCode !== undefined && !SCRAP_REASON_CODES.includes(dto.scrapReasonCode)) {
+            throw new InvalidReturnRequestError(`Invalid scrap reason code: ${dto.scrapReasonCode}`);
+        }
+
+        // 1. État du retour
+        const ret = await this.returnRepository.findById(returnId);
+        if (!ret) {
+            throw new ReturnNotFoundError(returnId);
+        }
+        if (ret.status === ReturnStatus.DISPOSED) {
+            throw new ReturnDispositionError(returnId, `already disposed (${ret.disposition})`);
+        }
+        if (!ret.qaTaskId) {
+            throw new ReturnDispositionError(returnId, 'no QA task');
+        }
+        const qaTask = await this.taskRepository.findById(ret.qaTaskId);
+        if (!qaTask) {
+            throw new ReturnDispositionError(returnId, `QA task ${ret.qaTaskId} not found`);
+        }
+        if (qaTask.status !== TaskStatus.COMPLETED) {
+            throw new ReturnDispositionError(returnId, `QA task ${qaTask.id} is ${qaTask.status}`);
+        }
+
+        const route = DISPOSITION_ROUTES[dto.disposition];
+        const reason = `Return ${dto.disposition}` + (dto.note ? `: ${dto.note}` : '');
+
+        // 2. Statut Asset (déjà atteint lors d'une tentative précédente → rien à faire)
+        const asset = route.assetStatus ? await this.assetClient.getAsset(ret.assetId) : null;
+        if (route.assetStatus && asset?.status !== route.assetStatus) {
+            const reasonCode = dto.disposition === ReturnDisposition.SCRAP
+                ? dto.scrapReasonCode ?? route.reasonCode
+                : route.reasonCode;
+            await this.assetClient.changeStatus(
+                ret.assetId,
+                route.assetStatus,
+                reason,
+                reasonCode,
+                dto.dataWipeCertificateRef?.trim()
+            );
+        }
+
+        // 3. Mouvement Inventory (déjà sur place lors d'une tentative précédente → rien à faire)
+        const toLocation = dto.toLocation.trim();
+        const position = await this.inventoryClient.getPosition(ret.assetId);
+        if (position.locationId !== toLocation) {
+            await this.inventoryClient.moveAsset(ret.assetId, toLocation, route.movementReason);
+        }
+
+        // 4-5. Décision et événement
+        return this.prisma.$transaction(async (tx) => {
+            const disposed = await new ReturnRepository(tx).recordDisposition(returnId, {
+                disposition: dto.disposition,
+                disposedBy: dto.decidedBy,
+                dispositionNote: dto.note,
+                supplierRef: dto.supplierRef?.trim()
+            });
+            await emitReturnDisposed(tx, disposed);
+            return disposed;
+        });
+    }
+}
@@ -0,0 +1,141 @@
+/**
+ * Step Template Service
+ * Gestion des templates d'étapes versionnés
+ *
+ * RÈGLES :
+ * - Éditer un template = créer la version suivante de la même clé
+ * - Étapes numérotées 1..n sans trou
+ * - Bornes min/max réservées aux saisies NUMBER
+ */
+
+import { Prisma, PrismaClient, TaskType, StepInputType } from '@prisma/client';
+import { StepTemplateRepository } from '../repositories/stepTemplate.repository';
+import { TASK_STEP_TEMPLATES } from '../domain/task.types';
+import {
+    StepTemplateEntity,
+    CreateStepTemplateDto,
+    StepTemplateContext,
+    ResolvedTaskSteps,
+    normalizeCode,
+    normalizeTemplateContext,
+    templateScopeKey,
+    candidateScopeKeys,
+    resolveTaskSteps,
+    StepTemplateNotFoundError,
+    InvalidStepTemplateError,
+    StepTemplateVersionConflictError
+} from '../domain/stepTemplate.types';
+
+export class StepTemplateService {
+    private readonly templateRepository: StepTemplateRepository;
+
+    constructor(prisma: PrismaClient) {
+        this.templateRepository = new StepTemplateRepository(prisma);
+    }
+
+    /**
+     * Crée la version suivante du template de cette clé
+     * (type de tâche + type d'asset + client + option)
+     */
+    async createVersion(dto: CreateStepTemplateDto): Promise<StepTemplateEntity> {
+        const normalized = this.normalize(dto);
+        this.assertValid(normalized);
+
+        const scopeKey = templateScopeKey(
+            normalized.assetType ?? null,
+            normalized.customerId ?? null,
+            normalized.option ?? null
+        );
+        const version = await this.templateRepository.findLatestVersion(normalized.taskType, scopeKey) + 1;
+
+        try {
+            return await this.templateRepository.create(normalized, scopeKey, version);
+        } catch (error) {
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                throw new StepTemplateVersionConflictError(normalized.taskType, scopeKey, version);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Liste les versions (plus récentes d'abord pour chaque clé)
+     */
+    async listTemplates(taskType?: TaskType): Promise<StepTemplateEntity[]> {
+        return this.templateRepository.findAll(taskType);
+    }
+
+    /**
+     * Récupère une version
+     */
+    async getTemplate(templateId: string): Promise<StepTemplateEntity> {
+        const template = await this.templateRepository.findById(templateId);
+        if (!template) {
+            throw new StepTemplateNotFoundError(templateId);
+        }
+        return template;
+    }
+
+    /**
+     * Étapes qu'instancierait createTask pour ce contexte (aperçu)
+     */
+    async preview(taskType: TaskType, assetId: string, context: StepTemplateContext): Promise<ResolvedTaskSteps> {
+        const normalized = normalizeTemplateContext(context);
+        const latest = await this.templateRepository.findLatestByScopes(taskType, candidateScopeKeys(normalized));
+        return resolveTaskSteps(assetId, latest, normalized, TASK_STEP_TEMPLATES[taskType]);
+    }
+
+    private normalize(dto: CreateStepTemplateDto): CreateStepTemplateDto {
+        return {
+            ...dto,
+            assetType: dto.assetType ? normalizeCode(dto.assetType) : undefined,
+            option: dto.option ? normalizeCode(dto.option) : undefined,
+            steps: dto.steps.map(step => ({
+                ...step,
+                inputType: step.inputType ?? StepInputType.NONE,
+                onlyIfOption: step.onlyIfOption ? normalizeCode(step.onlyIfOption) : undefined,
+                unlessOption: step.unlessOption ? normalizeCode(step.unlessOption) : undefined
+            }))
+        };
+    }
+
+    private assertValid(dto: CreateStepTemplateDto): void {
+        if (!Object.values(TaskType).includes(dto.taskType)) {
+            throw new InvalidStepTemplateError(`Invalid task type: ${dto.taskType}`);
+        }
+        if (dto.steps.length === 0) {
+            throw new InvalidStepTemplateError('A step template needs at least one step');
+        }
+
+        const orders = dto.steps.map(step => step.stepOrder).sort((a, b) => a - b);
+        if (orders.some((order, index) => order !== index + 1)) {
+            throw new InvalidStepTemplateError('stepOrder must run from 1 to the number of steps without gaps');
+        }
+
+        for (const step of dto.steps) {
+            const label = `step ${step.stepOrder}`;
+            if (!step.description) {
+                throw new InvalidStepTemplateError(`${label}: description is required`);
+            }
+            if (step.inputType && !Object.values(StepInputType).includes(step.inputType)) {
+                throw new InvalidStepTemplateError(`${label}: invalid inputType ${step.inputType}`);
+            }
+            if (step.scanRequired === false && (step.expectAssetScan || step.expectedCode)) {
+                throw new InvalidStepTemplateError(`${label}: an expected code requires scanRequired`);
+            }
+            if (step.expectAssetScan && step.expectedCode) {
+                throw new InvalidStepTemplateError(`${label}: expectAssetScan and expectedCode are exclusive`);
+            }
+            const hasBounds = step.minValue !== undefined || step.maxValue !== undefined;
+            if (hasBounds && step.inputType !== StepInputType.NUMBER) {
+                throw new InvalidStepTemplateError(`${label}: minValue/maxValue only apply to NUMBER inputs`);
+            }
+            if (step.minValue !== undefined && step.maxValue !== undefined && step.minValue > step.maxValue) {
+                throw new InvalidStepTemplateError(`${label}: minValue is greater than maxValue`);
+            }
+            if (step.onlyIfOption && step.onlyIfOption === step.unlessOption) {
+                throw new InvalidStepTemplateError(`${label}: onlyIfOption and unlessOption cannot be the same`);
+            }
+        }
+    }
+}
@@ -11,15 +11,24 @@
  * Le WMS commande, l'opérateur exécute.
  */
 
-import { PrismaClient, TaskType, TaskStatus } from '@prisma/client';
+import { Prisma, PrismaClient, TaskType, TaskStatus, TaskBlockCause, BlockResolutionCode, StepInputType } from '@prisma/client';
 import { TaskRepository } from '../repositories/task.repository';
 import { OperatorRepository } from '../repositories/operator.repository';
+import { TaskBlockRepository } from '../repositories/taskBlock.repository';
+import { StepTemplateRepository } from '../repositories/stepTemplate.repository';
 import { InventoryServiceClient, HttpInventoryServiceClient } from '../integrations/inventory.client';
 import { CtoServiceClient, HttpCtoServiceClient } from '../integrations/cto.client';
+import {
+    GovernanceServiceClient,
+    HttpGovernanceServiceClient,
+    GovernanceServiceError,
+    DecisionRecord
+} from '../integrations/governance.client';
 import {
     emitTaskStarted,
     emitTaskCompleted,
-    emitTaskBlocked
+    emitTaskBlocked,
+    emitTaskUnblocked
 } from '../events/wms.events';
 import {
     WmsTaskEntity,
@@ -27,7 +36,15 @@ import {
     CreateTaskDto,
     StartTaskDto,
     ExecuteStepDto,
+    TaskFilter,
+    TaskSchedulingDto,
+    RankedTaskEntity,
     TASK_STEP_TEMPLATES,
+    TASK_PRIORITY_RANK,
+    DISPATCH_CANDIDATE_LIMIT,
+    computeDueBy,
+    priorityForDueBy,
+    effectivePriority,
     InvalidScanError,
     TaskNotPendingError,
     TaskNotFoundError,
@@ -35,44 +52,101 @@ import {
     StepNotFoundError,
     IncompleteStepsError,
     TaskNotInProgressError,
-    OperatorNotFoundError
+    OperatorNotFoundError,
+    OperatorNotQualifiedError,
+    InvalidStepInputError,
+    ScanOverrideDto,
+    OVERRIDE_TASK_SCAN_ACTION,
+    InvalidScanOverrideError,
+    ScanOverrideNotAuthorizedError
 } from '../domain/task.types';
+import { OperatorEntity } from '../domain/operator.types';
+import {
+    ResolveBlockDto,
+    ResolveBlockResult,
+    BlockedTasksDashboard,
+    TaskBlockEntity,
+    RESOLVE_BLOCKED_TASK_ACTION,
+    RESUMABLE_STATUSES,
+    TaskNotBlockedError,
+    InvalidBlockResolutionError,
+    ResolutionNotAuthorizedError
+} from '../domain/taskBlock.types';
+import { TaskInBatchError } from '../domain/wave.types';
+import { normalizeTemplateContext, candidateScopeKeys, resolveTaskSteps } from '../domain/stepTemplate.types';
+
+/**
+ * Publication complémentaire dans la transaction qui écrit la tâche
+ * (événements des façades picking/assemblage via l'outbox)
+ */
+export type TaskEventPublisher = (tx: Prisma.TransactionClient, task: WmsTaskEntity) => Promise<void>;
 
 export class TaskService {
     private readonly taskRepository: TaskRepository;
     private readonly operatorRepository: OperatorRepository;
+    private readonly taskBlockRepository: TaskBlockRepository;
+    private readonly stepTemplateRepository: StepTemplateRepository;
     private readonly inventoryClient: InventoryServiceClient;
     private readonly ctoClient: CtoServiceClient;
+    private readonly governanceClient: GovernanceServiceClient;
 
     constructor(
-        prisma: PrismaClient,
+        private readonly prisma: PrismaClient,
         inventoryClient?: InventoryServiceClient,
-        ctoClient?: CtoServiceClient
+        ctoClient?: CtoServiceClient,
+        governanceClient?: GovernanceServiceClient
     ) {
         this.taskRepository = new TaskRepository(prisma);
         this.operatorRepository = new OperatorRepository(prisma);
+        this.taskBlockRepository = new TaskBlockRepository(prisma);
+        this.stepTemplateRepository = new StepTemplateRepository(prisma);
         this.inventoryClient = inventoryClient ?? new HttpInventoryServiceClient();
         this.ctoClient = ctoClient ?? new HttpCtoServiceClient();
+        this.governanceClient = governanceClient ?? new HttpGovernanceServiceClient();
     }
 
     // ========== TASK CREATION ==========
 
     /**
-     * Crée une tâche pour un asset avec les étapes prédéfinies
+     * Crée une tâche pour un asset avec les étapes de son template
+     * (rattachée à la commande client si orderId est fourni)
+     *
+     * Étapes : dernière version du template le plus spécifique (type d'asset,
+     * client), complétée des templates des options demandées ; à défaut,
+     * étapes intégrées du type de tâche.
+     *
+     * L'échéance est dérivée de la date promise de la commande ; la priorité
+     * aussi, sauf si l'appelant la fixe.
+     *
+     * publish : événement publié dans la même transaction que la création
      */
-    async createTask(assetId: string, type: TaskType): Promise<WmsTaskEntity> {
-        const steps = TASK_STEP_TEMPLATES[type];
-
-        // Pour PICKING, l'expectedCode de la première étape est l'assetId
-        const stepsWithExpected = steps.map((step, index) => ({
-            ...step,
-            expectedCode: step.scanRequired && index === 0 ? assetId : step.expectedCode
-        }));
-
-        return this.taskRepository.create({
-            assetId,
-            type,
-            steps: stepsWithExpected
+    async createTask(
+        assetId: string,
+        type: TaskType,
+        orderId?: string,
+        scheduling: TaskSchedulingDto = {},
+        now: Date = new Date(),
+        publish?: TaskEventPublisher
+    ): Promise<WmsTaskEntity> {
+        const context = normalizeTemplateContext(scheduling);
+        const latest = await this.stepTemplateRepository.findLatestByScopes(type, candidateScopeKeys(context));
+        const { steps } = resolveTaskSteps(assetId, latest, context, TASK_STEP_TEMPLATES[type]);
+
+        const dueBy = scheduling.promisedDate ? computeDueBy(type, scheduling.promisedDate) : undefined;
+
+        return this.prisma.$transaction(async (tx) => {
+            const task = await new TaskRepository(tx).create({
+                assetId,
+                orderId,
+                type,
+                priority: scheduling.priority ?? priorityForDueBy(dueBy ?? null, now),
+                dueBy,
+                zone: scheduling.zone,
+                requiredCertification: scheduling.requiredCertification,
+                steps
+            });
+            await publish?.(tx, task);
+            return task;
         });
     }
 
@@ -81,9 +155,11 @@ export class TaskService {
     /**
      * Récupère la prochaine tâche disponible pour un opérateur
      * 
-     * L'opérateur NE CHOISIT PAS sa tâche, le WMS l'attribue
+     * L'opérateur NE CHOISIT PAS sa tâche, le WMS l'attribue :
+     * tâche compatible avec ses compétences et certifications, classée par
+     * priorité effective, zone d'affectation, échéance puis ancienneté
      */
-    async getNextTask(operatorId: string): Promise<WmsTaskEntity | null> {
+    async getNextTask(operatorId: string, now: Date = new Date()): Promise<WmsTaskEntity | null> {
         // Vérifier que l'opérateur existe
         const operator = await this.operatorRepository.findById(operatorId);
         if (!operator) {
@@ -96,8 +172,29 @@ export class TaskService {
             throw new OperatorBusyError(operatorId, activeTask.id);
         }
 
-        // Retourner la prochaine tâche PENDING
-        return this.taskRepository.findNextPending();
+        // Retourner la meilleure tâche PENDING pour cet opérateur
+        const [best] = await this.rankForOperator(operator, now);
+        return best?.task ?? null;
+    }
+
+    /**
+     * File de tâches classée (vue superviseur)
+     *
+     * Avec operatorId : ce que le dispatcher lui attribuerait, dans l'ordre.
+     * Sans : toutes les tâches PENDING par priorité effective et échéance.
+     */
+    async getQueue(operatorId?: string, limit: number = 50, now: Date = new Date()): Promise<RankedTaskEntity[]> {
+        if (operatorId) {
+            const operator = await this.operatorRepository.findById(operatorId);
+            if (!operator) {
+                throw new OperatorNotFoundError(operatorId);
+            }
+            const ranked = await this.rankForOperator(operator, now);
+            return ranked.slice(0, limit);
+        }
+
+        const pending = await this.taskRepository.findPending(DISPATCH_CANDIDATE_LIMIT);
+        return this.rank(pending, null, now).slice(0, limit);
     }
 
     // ========== TASK START (SCAN OBLIGATOIRE) ==========
@@ -125,38 +222,55 @@ export class TaskService {
             throw new TaskNotPendingError(taskId, task.status);
         }
 
+        // Une tâche en lot s'exécute via le picking groupé
+        if (task.batchId) {
+            throw new TaskInBatchError(taskId, task.batchId);
+        }
+
         // 3. Vérifier que l'opérateur existe
         const operator = await this.operatorRepository.findById(dto.operatorId);
         if (!operator) {
             throw new OperatorNotFoundError(dto.operatorId);
         }
 
-        // 4. Vérifier que l'opérateur n'est pas occupé
+        // 4. Vérifier compétence et certification
+        this.assertQualified(operator, task);
+
+        // 5. Vérifier que l'opérateur n'est pas occupé
         const activeTask = await this.taskRepository.findActiveTaskByOperator(dto.operatorId);
         if (activeTask) {
             throw new OperatorBusyError(dto.operatorId, activeTask.id);
         }
 
-        // 5. Vérifier le scan (doit correspondre à l'assetId)
+        // 6. Vérifier le scan (doit correspondre à l'assetId)
         const scanValid = dto.scanCode === task.assetId;
 
         // Logger le scan
-        await this.taskRepository.logScan(taskId, null, dto.scanCode, scanValid);
+        await this.taskRepository.logScan(taskId, null, dto.scanCode, scanValid, dto.scannedAt);
 
         // Si scan invalide → BLOCKED
         if (!scanValid) {
-            const blockedTask = await this.taskRepository.blockTask(taskId);
-            emitTaskBlocked(blockedTask, `Invalid scan: expected ${task.assetId}, received ${dto.scanCode}`);
+            const reason = `Invalid scan: expected ${task.assetId}, received ${dto.scanCode}`;
+            await this.prisma.$transaction(async (tx) => {
+                const blockedTask = await new TaskRepository(tx).blockTask(taskId);
+                await new TaskBlockRepository(tx).open(taskId, {
+                    cause: TaskBlockCause.INVALID_START_SCAN,
+                    detail: reason,
+                    previousStatus: TaskStatus.PENDING,
+                    operatorId: dto.operatorId,
+                    blockedAt: dto.scannedAt
+                });
+                await emitTaskBlocked(tx, blockedTask, reason);
+            });
             throw new InvalidScanError(task.assetId, dto.scanCode);
         }
 
-        // 6. Démarrer la tâche
-        const startedTask = await this.taskRepository.startTask(taskId, dto.operatorId);
-
-        // Émettre événement
-        emitTaskStarted(startedTask);
-
-        return startedTask;
+        // 7. Démarrer la tâche et émettre l'événement
+        return this.prisma.$transaction(async (tx) => {
+            const startedTask = await new TaskRepository(tx).startTask(taskId, dto.operatorId, dto.scannedAt);
+            await emitTaskStarted(tx, startedTask);
+            return startedTask;
+        });
     }
 
     // ========== STEP EXECUTION (SCAN OBLIGATOIRE) ==========
@@ -183,24 +297,40 @@ export class TaskService {
         }
 
         // 3. Si scan requis, valider
-        if (step.scanRequired && step.expectedCode) {
+        if (step.scanRequired && !dto.scanCode) {
+            throw new InvalidStepInputError(step.id, 'scanCode is required');
+        }
+        if (step.scanRequired && dto.scanCode && step.expectedCode) {
             const scanValid = dto.scanCode === step.expectedCode;
 
             // Logger le scan
-            await this.taskRepository.logScan(taskId, dto.stepId, dto.scanCode, scanValid);
+            await this.taskRepository.logScan(taskId, dto.stepId, dto.scanCode, scanValid, dto.scannedAt);
 
             if (!scanValid) {
-                await this.taskRepository.blockTask(taskId);
-                emitTaskBlocked(task, `Invalid scan at step ${step.stepOrder}`);
+                await this.prisma.$transaction(async (tx) => {
+                    const blockedTask = await new TaskRepository(tx).blockTask(taskId);
+                    await new TaskBlockRepository(tx).open(taskId, {
+                        cause: TaskBlockCause.INVALID_STEP_SCAN,
+                        detail: `Invalid scan at step ${step.stepOrder}: expected ${step.expectedCode}, received ${dto.scanCode}`,
+                        stepId: step.id,
+                        previousStatus: TaskStatus.IN_PROGRESS,
+                        operatorId: task.operatorId,
+                        blockedAt: dto.scannedAt
+                    });
+                    await emitTaskBlocked(tx, blockedTask, `Invalid scan at step ${step.stepOrder}`);
+                });
                 throw new InvalidScanError(step.expectedCode, dto.scanCode);
             }
-        } else if (step.scanRequired) {
+        } else if (step.scanRequired && dto.scanCode) {
             // Scan requis mais pas de code attendu → accepter tout code
-            await this.taskRepository.logScan(taskId, dto.stepId, dto.scanCode, true);
+            await this.taskRepository.logScan(taskId, dto.stepId, dto.scanCode, true, dto.scannedAt);
         }
 
-        // 4. Compléter l'étape
-        return this.taskRepository.completeStep(dto.stepId, dto.scanCode);
+        // 4. Valeur mesurée (type et tolérance)
+        const measuredValue = this.validateMeasuredValue(step, dto.measuredValue);
+
+        // 5. Compléter l'étape
+        return this.taskRepository.completeStep(dto.stepId, dto.scanCode ?? null, measuredValue, dto.scannedAt);
     }
 
     // ========== TASK COMPLETION ==========
@@ -211,8 +341,11 @@ export class TaskService {
      * RÈGLES :
      * - Toutes les étapes doivent être complétées
      * - Pas de bypass possible
+     *
+     * completedAt : horodatage appareil (synchronisation hors ligne)
+     * publish : événement publié dans la même transaction que TaskCompleted
      */
-    async completeTask(taskId: string): Promise<WmsTaskEntity> {
+    async completeTask(taskId: string, completedAt?: Date, publish?: TaskEventPublisher): Promise<WmsTaskEntity> {
         // 1. Vérifier que la tâche existe et est IN_PROGRESS
         const task = await this.taskRepository.findById(taskId);
         if (!task) {
@@ -228,17 +361,201 @@ export class TaskService {
             throw new IncompleteStepsError(taskId, incompleteCount);
         }
 
-        // 3. Finaliser la tâche
-        const completedTask = await this.taskRepository.completeTask(taskId);
+        // 3. Finaliser la tâche et émettre l'événement
+        return this.prisma.$transaction(async (tx) => {
+            const completedTask = await new TaskRepository(tx).completeTask(taskId, completedAt);
+            await emitTaskCompleted(tx, completedTask);
+            await publish?.(tx, completedTask);
+            return completedTask;
+        });
+    }
+
+    // ========== SCAN OVERRIDE ==========
+
+    /**
+     * Clôt sans scan les étapes restantes d'une tâche de la façade v0
+     * (dérogation superviseur)
+     *
+     * RÈGLES :
+     * - Motif obligatoire
+     * - Tâche démarrée par un opérateur : scans obligatoires, pas de dérogation
+     * - Approbation tracée dans le DecisionLog gouvernance AVANT toute
+     *   modification ; refus ou gouvernance injoignable → rien ne change
+     */
+    async overrideScans(taskId: string, dto: ScanOverrideDto): Promise<WmsTaskEntity> {
+        const task = await this.taskRepository.findById(taskId);
+        if (!task) {
+            throw new TaskNotFoundError(taskId);
+        }
+
+        if (!dto.reason?.trim()) {
+            throw new InvalidScanOverrideError('A reason is required to complete a task without scans');
+        }
+        if (task.operatorId) {
+            throw new InvalidScanOverrideError(
+                `Task ${taskId} was started by operator ${task.operatorId}: its steps must be scanned`
+            );
+        }
+        if (task.status !== TaskStatus.PENDING && task.status !== TaskStatus.IN_PROGRESS) {
+            throw new TaskNotInProgressError(taskId, task.status);
+        }
+
+        const remainingSteps = await this.taskRepository.countIncompleteSteps(taskId);
+
+        try {
+            await this.governanceClient.recordDecision({
+                actorId: dto.supervisorId,
+                action: OVERRIDE_TASK_SCAN_ACTION,
+                entityType: 'WmsTask',
+                entityId: taskId,
+                context: {
+                    taskType: task.type,
+                    assetId: task.assetId,
+                    reason: dto.reason,
+                    remainingSteps
+                }
+            });
+        } catch (error) {
+            if (error instanceof GovernanceServiceError && error.statusCode === 403) {
+                throw new ScanOverrideNotAuthorizedError(dto.supervisorId);
+            }
+            throw error;
+        }
+
+        return this.prisma.$transaction(async (tx) => {
+            const taskRepository = new TaskRepository(tx);
+            const started = task.status === TaskStatus.PENDING
+                ? await taskRepository.startTask(taskId, null)
+                : task;
+            await taskRepository.completeAllSteps(taskId, null);
+            return started;
+        });
+    }
+
+    // ========== BLOCKED TASK RESOLUTION ==========
+
+    /**
+     * Résout le blocage d'une tâche (décision superviseur)
+     *
+     * RÈGLES :
+     * - Motif obligatoire (note obligatoire pour OTHER)
+     * - PENDING : retour en file, étapes remises à zéro
+     * - IN_PROGRESS : seulement si la tâche avait démarré ; même opérateur
+     *   ou réassignation à un opérateur qualifié et libre
+     * - Approbation tracée dans le DecisionLog gouvernance AVANT toute
+     *   modification ; refus ou gouvernance injoignable → rien ne change
+     */
+    async resolveBlock(taskId: string, dto: ResolveBlockDto): Promise<ResolveBlockResult> {
+        const task = await this.taskRepository.findById(taskId);
+        if (!task) {
+            throw new TaskNotFoundError(taskId);
+        }
+
+        const block = task.status === TaskStatus.BLOCKED
+            ? await this.taskBlockRepository.findOpenByTaskId(taskId)
+            : null;
+        if (!block) {
+            throw new TaskNotBlockedError(taskId, task.status);
+        }
+
+        if (!Object.values(BlockResolutionCode).includes(dto.reasonCode)) {
+            throw new InvalidBlockResolutionError(`Invalid reason code: ${dto.reasonCode}`);
+        }
+        if (dto.reasonCode === BlockResolutionCode.OTHER && !dto.note?.trim()) {
+            throw new InvalidBlockResolutionError('A note is required for reason code OTHER');
+        }
+        if (!RESUMABLE_STATUSES.includes(dto.resumeStatus)) {
+            throw new InvalidBlockResolutionError(`Cannot resume task as ${dto.resumeStatus}`);
+        }
+
+        const resumedOperatorId = await this.resolveResumingOperator(task, block, dto);
+
+        const decision = await this.recordResolutionDecision(task, block, dto, resumedOperatorId);
+
+        const { resumedTask, resolvedBlock } = await this.prisma.$transaction(async (tx) => {
+            const taskRepository = new TaskRepository(tx);
+            const taskBlockRepository = new TaskBlockRepository(tx);
+
+            const resolved = await taskBlockRepository.resolveIfOpen(block.id, {
+                resolutionCode: dto.reasonCode,
+                resolutionNote: dto.note ?? null,
+                resolvedBy: dto.supervisorId,
+                decisionId: decision.id,
+                resumedStatus: dto.resumeStatus,
+                resumedOperatorId
+            });
+            if (!resolved) {
+                // Résolu en parallèle par un autre superviseur
+                throw new TaskNotBlockedError(taskId, TaskStatus.BLOCKED);
+            }
+
+            if (dto.resumeStatus === TaskStatus.PENDING) {
+                await taskRepository.resetSteps(taskId);
+            }
+            const resumed = await taskRepository.resumeTask(taskId, dto.resumeStatus, resumedOperatorId);
+            const resolvedEntity = (await taskBlockRepository.findById(block.id)) ?? block;
+            await emitTaskUnblocked(tx, resumed, resolvedEntity);
+
+            return { resumedTask: resumed, resolvedBlock: resolvedEntity };
+        });
+
+        return {
+            block: resolvedBlock,
+            taskId,
+            status: resumedTask.status,
+            operatorId: resumedTask.operatorId
+        };
+    }
 
-        // Émettre événement
-        emitTaskCompleted(completedTask);
+    /**
+     * Tableau de bord des tâches bloquées : âge et cause
+     */
+    async getBlockedTasksDashboard(now: Date = new Date()): Promise<BlockedTasksDashboard> {
+        const openBlocks = await this.taskBlockRepository.findOpenWithTasks();
+
+        const byCause = Object.fromEntries(
+            Object.values(TaskBlockCause).map(cause => [cause, 0])
+        ) as Record<TaskBlockCause, number>;
+
+        const tasks = openBlocks.map(({ block, task }) => {
+            byCause[block.cause] += 1;
+            return {
+                taskId: task.id,
+                blockId: block.id,
+                assetId: task.assetId,
+                orderId: task.orderId,
+                type: task.type,
+                priority: task.priority,
+                cause: block.cause,
+                detail: block.detail,
+                previousStatus: block.previousStatus,
+                operatorId: block.operatorId,
+                blockedAt: block.blockedAt,
+                ageMinutes: Math.floor((now.getTime() - block.blockedAt.getTime()) / 60000)
+            };
+        });
 
-        return completedTask;
+        return {
+            generatedAt: now,
+            total: tasks.length,
+            oldestAgeMinutes: tasks[0]?.ageMinutes ?? null,
+            byCause,
+            tasks
+        };
     }
 
     // ========== QUERIES ==========
 
+    /**
+     * Liste les tâches d'une commande et/ou d'un asset
+     *
+     * Utilisé par le routage inventaire : une commande ayant au moins
+     * une tâche WMS ne peut plus être réassignée.
+     */
+    async listTasks(filter: TaskFilter): Promise<WmsTaskEntity[]> {
+        return this.taskRepository.findMany(filter);
+    }
+
     /**
      * Récupère une tâche avec ses étapes
      */
@@ -252,4 +569,172 @@ export class TaskService {
 
         return { task, steps };
     }
+
+    // ========== BLOCK RESOLUTION HELPERS ==========
+
+    /**
+     * Opérateur qui reprend la tâche (null pour un retour en file)
+     */
+    private async resolveResumingOperator(
+        task: WmsTaskEntity,
+        block: TaskBlockEntity,
+        dto: ResolveBlockDto
+    ): Promise<string | null> {
+        if (dto.resumeStatus === TaskStatus.PENDING) {
+            if (dto.reassignToOperatorId) {
+                throw new InvalidBlockResolutionError(
+                    'Reassignment requires resumeStatus IN_PROGRESS (PENDING tasks go back to the dispatch queue)'
+                );
+            }
+            return null;
+        }
+
+        if (block.previousStatus !== TaskStatus.IN_PROGRESS) {
+            throw new InvalidBlockResolutionError(
+                `Task ${task.id} was blocked before it started and can only return to PENDING`
+            );
+        }
+
+        const operatorId = dto.reassignToOperatorId ?? block.operatorId ?? task.operatorId;
+        if (!operatorId) {
+            throw new InvalidBlockResolutionError('reassignToOperatorId is required: the task has no operator');
+        }
+
+        const operator = await this.operatorRepository.findById(operatorId);
+        if (!operator) {
+            throw new OperatorNotFoundError(operatorId);
+        }
+        this.assertQualified(operator, task);
+
+        const activeTask = await this.taskRepository.findActiveTaskByOperator(operatorId);
+        if (activeTask) {
+            throw new OperatorBusyError(operatorId, activeTask.id);
+        }
+
+        return operatorId;
+    }
+
+    /**
+     * Fait approuver et tracer la résolution par la gouvernance
+     */
+    private async recordResolutionDecision(
+        task: WmsTaskEntity,
+        block: TaskBlockEntity,
+        dto: ResolveBlockDto,
+        resumedOperatorId: string | null
+    ): Promise<DecisionRecord> {
+        try {
+            return await this.governanceClient.recordDecision({
+                actorId: dto.supervisorId,
+                action: RESOLVE_BLOCKED_TASK_ACTION,
+                entityType: 'WmsTask',
+                entityId: task.id,
+                context: {
+                    blockId: block.id,
+                    cause: block.cause,
+                    reasonCode: dto.reasonCode,
+                    note: dto.note ?? null,
+                    resumeStatus: dto.resumeStatus,
+                    previousOperatorId: block.operatorId,
+                    resumedOperatorId
+                }
+            });
+        } catch (error) {
+            if (error instanceof GovernanceServiceError && error.statusCode === 403) {
+                throw new ResolutionNotAuthorizedError(dto.supervisorId);
+            }
+            throw error;
+        }
+    }
+
+    // ========== DISPATCH ==========
+
+    /**
+     * Tâches PENDING exécutables par l'opérateur, classées
+     */
+    private async rankForOperator(operator: OperatorEntity, now: Date): Promise<RankedTaskEntity[]> {
+        if (operator.skills.length === 0) {
+            return [];
+        }
+        const candidates = await this.taskRepository.findPendingCandidates(
+            operator.skills,
+            operator.certifications,
+            DISPATCH_CANDIDATE_LIMIT
+        );
+        return this.rank(candidates, operator.homeZone, now);
+    }
+
+    /**
+     * Classement : priorité effective, zone d'affectation (si connue),
+     * échéance la plus proche (sans échéance en dernier), ancienneté
+     */
+    private rank(tasks: WmsTaskEntity[], homeZone: string | null, now: Date): RankedTaskEntity[] {
+        const entries = tasks.map(task => ({
+            task,
+            effectivePriority: effectivePriority(task, now),
+            overdue: task.dueBy !== null && task.dueBy.getTime() < now.getTime(),
+            inHomeZone: homeZone !== null && task.zone === homeZone
+        }));
+
+        entries.sort((a, b) =>
+            TASK_PRIORITY_RANK[b.effectivePriority] - TASK_PRIORITY_RANK[a.effectivePriority]
+            || Number(b.inHomeZone) - Number(a.inHomeZone)
+            || (a.task.dueBy?.getTime() ?? Infinity) - (b.task.dueBy?.getTime() ?? Infinity)
+            || a.task.createdAt.getTime() - b.task.createdAt.getTime()
+        );
+
+        return entries.map((entry, index) => ({ position: index + 1, ...entry }));
+    }
+
+    /**
+     * Valeur saisie conforme au type attendu par l'étape (et à ses bornes pour NUMBER)
+     * Retourne la valeur normalisée à stocker
+     */
+    private validateMeasuredValue(step: TaskStepEntity, value: string | undefined): string | undefined {
+        if (step.inputType === StepInputType.NONE) {
+            return undefined;
+        }
+        if (value === undefined || value.trim() === '') {
+            throw new InvalidStepInputError(step.id, `measuredValue is required (${step.inputType})`);
+        }
+
+        const trimmed = value.trim();
+        switch (step.inputType) {
+            case StepInputType.NUMBER: {
+                const numeric = Number(trimmed);
+                if (!Number.isFinite(numeric)) {
+                    throw new InvalidStepInputError(step.id, `"${value}" is not a number`);
+                }
+                const unit = step.unit ? ` ${step.unit}` : '';
+                if (step.minValue !== null && numeric < step.minValue) {
+                    throw new InvalidStepInputError(step.id, `${numeric}${unit} is below minimum ${step.minValue}${unit}`);
+                }
+                if (step.maxValue !== null && numeric > step.maxValue) {
+                    throw new InvalidStepInputError(step.id, `${numeric}${unit} is above maximum ${step.maxValue}${unit}`);
+                }
+                return String(numeric);
+            }
+            case StepInputType.BOOLEAN: {
+                const normalized = trimmed.toLowerCase();
+                if (normalized !== 'true' && normalized !== 'false') {
+                    throw new InvalidStepInputError(step.id, `"${value}" is not true/false`);
+                }
+                return normalized;
+            }
+            default:
+                return trimmed;
+        }
+    }
+
+    /**
+     * L'opérateur doit avoir la compétence du type de tâche et la certification requise
+     */
+    private assertQualified(operator: OperatorEntity, task: WmsTaskEntity): void {
+        if (!operator.skills.includes(task.type)) {
+            throw new OperatorNotQualifiedError(operator.id, task.id, `skill ${task.type}`);
+        }
+        if (task.requiredCertification && !operator.certifications.includes(task.requiredCertification)) {
+            throw new OperatorNotQualifiedError(operator.id, task.id, `certification ${task.requiredCertification}`);
+        }
+    }
 }
@@ -0,0 +1,411 @@
+/**
+ * Wave Service
+ * Planification des vagues et exécution du picking groupé
+ *
+ * RÈGLES :
+ * - Une commande n'est jamais répartie sur plusieurs lots
+ * - Un lot = une zone = un opérateur
+ * - Chaque asset prélevé produit son ScanLog, dans l'ordre du chemin
+ * - Un scan invalide bloque la tâche concernée (sortie du lot), pas le lot
+ */
+
+import { Prisma, PrismaClient, PickBatchStatus, TaskStatus, TaskType, TaskBlockCause } from '@prisma/client';
+import { TaskRepository } from '../repositories/task.repository';
+import { OperatorRepository } from '../repositories/operator.repository';
+import { TaskBlockRepository } from '../repositories/taskBlock.repository';
+import { WaveRepository } from '../repositories/wave.repository';
+import { InventoryServiceClient, HttpInventoryServiceClient } from '../integrations/inventory.client';
+import {
+    emitTaskBlocked,
+    emitTaskCompleted,
+    emitWavePlanned,
+    emitPickBatchStarted,
+    emitPickBatchCompleted
+} from '../events/wms.events';
+import {
+    WmsTaskEntity,
+    InvalidScanError,
+    OperatorNotFoundError,
+    OperatorBusyError,
+    OperatorNotQualifiedError
+} from '../domain/task.types';
+import {
+    PlanWaveDto,
+    RecordPickDto,
+    PlannedBatch,
+    PickBatchEntity,
+    PickBatchView,
+    PickListLine,
+    PickWaveView,
+    SkippedWaveTask,
+    DEFAULT_MAX_TASKS_PER_BATCH,
+    DEFAULT_MAX_ORDERS_PER_BATCH,
+    zoneOfLocation,
+    sortByPickPath,
+    WaveNotFoundError,
+    PickBatchNotFoundError,
+    EmptyWaveError,
+    PickBatchStatusError,
+    BatchOperatorMismatchError
+} from '../domain/wave.types';
+
+interface LocatedTask {
+    task: WmsTaskEntity;
+    locationCode: string;
+}
+
+export class WaveService {
+    private readonly taskRepository: TaskRepository;
+    private readonly operatorRepository: OperatorRepository;
+    private readonly taskBlockRepository: TaskBlockRepository;
+    private readonly waveRepository: WaveRepository;
+    private readonly inventoryClient: InventoryServiceClient;
+
+    constructor(
+        private readonly prisma: PrismaClient,
+        inventoryClient?: InventoryServiceClient
+    ) {
+        this.taskRepository = new TaskRepository(prisma);
+        this.operatorRepository = new OperatorRepository(prisma);
+        this.taskBlockRepository = new TaskBlockRepository(prisma);
+        this.waveRepository = new WaveRepository(prisma);
+        this.inventoryClient = inventoryClient ?? new HttpInventoryServiceClient();
+    }
+
+    // ========== PLANNING ==========
+
+    /**
+     * Planifie une vague pour une coupure transporteur
+     *
+     * 1. Tâches PICKING PENDING hors lot avec dueBy <= cutoffAt
+     * 2. Emplacement courant de chaque asset (Inventory Service) ; non localisé → écarté
+     * 3. Commandes regroupées par zone (zone majoritaire de leurs lignes)
+     * 4. Lots remplis par échéance, sans dépasser les plafonds (une commande
+     *    plus grande que le plafond forme son propre lot)
+     * 5. Chemin de prélèvement en S dans chaque lot
+     */
+    async planWave(dto: PlanWaveDto): Promise<PickWaveView> {
+        const maxTasks = dto.maxTasksPerBatch ?? DEFAULT_MAX_TASKS_PER_BATCH;
+        const maxOrders = dto.maxOrdersPerBatch ?? DEFAULT_MAX_ORDERS_PER_BATCH;
+
+        const candidates = await this.taskRepository.findWaveCandidates(dto.cutoffAt);
+
+        const positions = await Promise.all(
+            candidates.map(task => this.inventoryClient.getPosition(task.assetId))
+        );
+
+        const skipped: SkippedWaveTask[] = [];
+        const located: LocatedTask[] = [];
+        candidates.forEach((task, index) => {
+            const locationCode = positions[index]?.locationCode;
+            if (locationCode) {
+                located.push({ task, locationCode });
+            } else {
+                skipped.push({ taskId: task.id, reason: 'UNLOCATED' });
+            }
+        });
+
+        if (located.length === 0) {
+            throw new EmptyWaveError(dto.cutoffAt);
+        }
+
+        const plannedBatches = this.buildBatches(located, maxTasks, maxOrders);
+
+        const { wave, notAssigned } = await this.prisma.$transaction(async (tx) => {
+            const waveRepository = new WaveRepository(tx);
+            const createdWave = await waveRepository.createWave(dto.cutoffAt, dto.createdBy);
+            const lost: string[] = [];
+
+            for (const planned of plannedBatches) {
+                const batch = await waveRepository.createBatch(createdWave.id, planned.zone);
+                let sequence = 0;
+                for (const line of planned.tasks) {
+                    sequence += 1;
+                    const assigned = await waveRepository.assignTask(line.taskId, batch.id, sequence, line.locationCode);
+                    if (!assigned) {
+                        // Démarrée ou mise en lot entre la lecture et l'écriture
+                        lost.push(line.taskId);
+                    }
+                }
+            }
+
+            await emitWavePlanned(tx, createdWave, plannedBatches.length, located.length - lost.length);
+
+            return { wave: createdWave, notAssigned: lost };
+        });
+
+        for (const taskId of notAssigned) {
+            skipped.push({ taskId, reason: 'NO_LONGER_PENDING' });
+        }
+
+        const view = await this.getWave(wave.id);
+        return { ...view, skipped };
+    }
+
+    // ========== BATCH EXECUTION ==========
+
+    /**
+     * Attribue un lot PLANNED à un opérateur et démarre toutes ses tâches
+     */
+    async startBatch(batchId: string, operatorId: string): Promise<PickBatchView> {
+        const batch = await this.findBatchOrThrow(batchId);
+        if (batch.status !== PickBatchStatus.PLANNED) {
+            throw new PickBatchStatusError(batchId, batch.status, PickBatchStatus.PLANNED);
+        }
+
+        const operator = await this.operatorRepository.findById(operatorId);
+        if (!operator) {
+            throw new OperatorNotFoundError(operatorId);
+        }
+
+        const tasks = await this.taskRepository.findByBatchId(batchId);
+        if (!operator.skills.includes(TaskType.PICKING)) {
+            throw new OperatorNotQualifiedError(operatorId, tasks[0]?.id ?? batchId, `skill ${TaskType.PICKING}`);
+        }
+        for (const task of tasks) {
+            if (task.requiredCertification && !operator.certifications.includes(task.requiredCertification)) {
+                throw new OperatorNotQualifiedError(operatorId, task.id, `certification ${task.requiredCertification}`);
+            }
+        }
+
+        const activeTask = await this.taskRepository.findActiveTaskByOperator(operatorId);
+        if (activeTask) {
+            throw new OperatorBusyError(operatorId, activeTask.id);
+        }
+
+        const started = await this.prisma.$transaction(async (tx) => {
+            const waveRepository = new WaveRepository(tx);
+            if (!(await waveRepository.start(batchId, operatorId))) {
+                return false;
+            }
+            const startedBatch = (await waveRepository.findBatchById(batchId)) ?? batch;
+            await emitPickBatchStarted(tx, startedBatch, tasks.length);
+            return true;
+        });
+        if (!started) {
+            // Pris en parallèle par un autre opérateur
+            const current = await this.findBatchOrThrow(batchId);
+            throw new PickBatchStatusError(batchId, current.status, PickBatchStatus.PLANNED);
+        }
+
+        return this.getBatch(batchId);
+    }
+
+    /**
+     * Enregistre le prélèvement du prochain asset du chemin
+     *
+     * Scan valide → ScanLog, étapes complétées, tâche COMPLETED.
+     * Scan invalide → ScanLog invalide, tâche BLOCKED et sortie du lot ;
+     * le lot continue avec l'asset suivant.
+     */
+    async recordPick(batchId: string, dto: RecordPickDto): Promise<PickBatchView> {
+        const batch = await this.findBatchOrThrow(batchId);
+        if (batch.status !== PickBatchStatus.IN_PROGRESS) {
+            throw new PickBatchStatusError(batchId, batch.status, PickBatchStatus.IN_PROGRESS);
+        }
+        if (batch.operatorId !== dto.operatorId) {
+            throw new BatchOperatorMismatchError(batchId, dto.operatorId);
+        }
+
+        const tasks = await this.taskRepository.findByBatchId(batchId);
+        const next = tasks.find(t => t.status === TaskStatus.IN_PROGRESS);
+        if (!next) {
+            throw new PickBatchStatusError(batchId, PickBatchStatus.COMPLETED, PickBatchStatus.IN_PROGRESS);
+        }
+
+        const assetValid = dto.scanCode === next.assetId;
+        const locationValid = dto.locationCode === undefined || dto.locationCode === next.locationCode;
+
+        if (dto.locationCode !== undefined) {
+            await this.taskRepository.logScan(next.id, null, dto.locationCode, locationValid);
+        }
+        await this.taskRepository.logScan(next.id, null, dto.scanCode, assetValid);
+
+        if (!assetValid || !locationValid) {
+            const detail = !assetValid
+                ? `Batch pick: expected ${next.assetId}, received ${dto.scanCode}`
+                : `Batch pick: expected location ${next.locationCode}, received ${dto.locationCode}`;
+            await this.prisma.$transaction(async (tx) => {
+                const taskRepository = new TaskRepository(tx);
+                const blockedTask = await taskRepository.blockTask(next.id);
+                await new TaskBlockRepository(tx).open(next.id, {
+                    cause: TaskBlockCause.INVALID_STEP_SCAN,
+                    detail,
+                    previousStatus: TaskStatus.IN_PROGRESS,
+                    operatorId: dto.operatorId
+                });
+                await taskRepository.detachFromBatch(next.id);
+                await new WaveRepository(tx).incrementBlocked(batchId);
+                await emitTaskBlocked(tx, blockedTask, detail);
+                await this.completeBatchIfDone(tx, batch);
+            });
+
+            if (!assetValid) {
+                throw new InvalidScanError(next.assetId, dto.scanCode);
+            }
+            throw new InvalidScanError(next.locationCode ?? '', dto.locationCode ?? '');
+        }
+
+        await this.prisma.$transaction(async (tx) => {
+            const taskRepository = new TaskRepository(tx);
+            await taskRepository.completeAllSteps(next.id, dto.scanCode);
+            const completedTask = await taskRepository.completeTask(next.id);
+            await emitTaskCompleted(tx, completedTask);
+            await this.completeBatchIfDone(tx, batch);
+        });
+
+        return this.getBatch(batchId);
+    }
+
+    /**
+     * Annule un lot non démarré : ses tâches retournent au dispatch individuel
+     */
+    async cancelBatch(batchId: string): Promise<PickBatchView> {
+        const batch = await this.findBatchOrThrow(batchId);
+        if (batch.status !== PickBatchStatus.PLANNED) {
+            throw new PickBatchStatusError(batchId, batch.status, PickBatchStatus.PLANNED);
+        }
+
+        await this.prisma.$transaction(async (tx) => {
+            const waveRepository = new WaveRepository(tx);
+            await waveRepository.releaseTasks(batchId);
+            await waveRepository.updateStatus(batchId, PickBatchStatus.CANCELLED);
+        });
+
+        return this.getBatch(batchId);
+    }
+
+    // ========== QUERIES ==========
+
+    /**
+     * Lot avec sa liste de prélèvement et sa progression
+     */
+    async getBatch(batchId: string): Promise<PickBatchView> {
+        const batch = await this.findBatchOrThrow(batchId);
+        const tasks = await this.taskRepository.findByBatchId(batchId);
+        return this.toBatchView(batch, tasks);
+    }
+
+    /**
+     * Vague avec ses lots
+     */
+    async getWave(waveId: string): Promise<PickWaveView> {
+        const wave = await this.waveRepository.findWaveById(waveId);
+        if (!wave) {
+            throw new WaveNotFoundError(waveId);
+        }
+
+        const batches = await this.waveRepository.findBatchesByWaveId(waveId);
+        const views = await Promise.all(
+            batches.map(async batch => this.toBatchView(batch, await this.taskRepository.findByBatchId(batch.id)))
+        );
+
+        return { ...wave, batches: views, skipped: [] };
+    }
+
+    // ========== HELPERS ==========
+
+    /**
+     * Découpe les tâches localisées en lots par zone, commandes entières
+     */
+    private buildBatches(located: LocatedTask[], maxTasks: number, maxOrders: number): PlannedBatch[] {
+        // Lignes par commande (tâche sans commande = commande à elle seule)
+        const orders = new Map<string, LocatedTask[]>();
+        for (const line of located) {
+            const key = line.task.orderId ?? `task:${line.task.id}`;
+            orders.set(key, [...(orders.get(key) ?? []), line]);
+        }
+
+        // Commandes par zone majoritaire, dans l'ordre d'échéance (candidats déjà triés)
+        const ordersByZone = new Map<string, LocatedTask[][]>();
+        for (const lines of orders.values()) {
+            const zone = this.majorityZone(lines);
+            ordersByZone.set(zone, [...(ordersByZone.get(zone) ?? []), lines]);
+        }
+
+        const batches: PlannedBatch[] = [];
+        for (const [zone, zoneOrders] of ordersByZone) {
+            let current: LocatedTask[] = [];
+            let orderCount = 0;
+
+            for (const lines of zoneOrders) {
+                const full = current.length > 0
+                    && (current.length + lines.length > maxTasks || orderCount + 1 > maxOrders);
+                if (full) {
+                    batches.push(this.toPlannedBatch(zone, current));
+                    current = [];
+                    orderCount = 0;
+                }
+                current.push(...lines);
+                orderCount += 1;
+            }
+
+            if (current.length > 0) {
+                batches.push(this.toPlannedBatch(zone, current));
+            }
+        }
+
+        return batches;
+    }
+
+    private majorityZone(lines: LocatedTask[]): string {
+        const counts = new Map<string, number>();
+        for (const line of lines) {
+            const zone = zoneOfLocation(line.locationCode);
+            counts.set(zone, (counts.get(zone) ?? 0) + 1);
+        }
+        return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0]?.[0] ?? '';
+    }
+
+    private toPlannedBatch(zone: string, lines: LocatedTask[]): PlannedBatch {
+        return {
+            zone,
+            tasks: sortByPickPath(lines).map(line => ({ taskId: line.task.id, locationCode: line.locationCode }))
+        };
+    }
+
+    /**
+     * Clôture le lot quand plus aucune tâche n'est à prélever
+     * (dans la transaction du dernier prélèvement)
+     */
+    private async completeBatchIfDone(tx: Prisma.TransactionClient, batch: PickBatchEntity): Promise<void> {
+        const tasks = await new TaskRepository(tx).findByBatchId(batch.id);
+        if (tasks.some(t => t.status === TaskStatus.IN_PROGRESS)) {
+            return;
+        }
+
+        const completed = await new WaveRepository(tx).updateStatus(batch.id, PickBatchStatus.COMPLETED);
+        const picked = tasks.filter(t => t.status === TaskStatus.COMPLETED).length;
+        await emitPickBatchCompleted(tx, completed, picked, completed.blockedCount);
+    }
+
+    private toBatchView(batch: PickBatchEntity, tasks: WmsTaskEntity[]): PickBatchView {
+        const pickList: PickListLine[] = tasks.map(task => ({
+            sequence: task.pickSequence,
+            taskId: task.id,
+            assetId: task.assetId,
+            orderId: task.orderId,
+            locationCode: task.locationCode,
+            status: task.status
+        }));
+
+        const picked = pickList.filter(line => line.status === TaskStatus.COMPLETED).length;
+        const open = pickList.filter(line => line.status === TaskStatus.IN_PROGRESS || line.status === TaskStatus.PENDING);
+
+        return {
+            ...batch,
+            picked,
+            remaining: open.length,
+            next: batch.status === PickBatchStatus.IN_PROGRESS ? open[0] ?? null : null,
+            pickList
+        };
+    }
+
+    private async findBatchOrThrow(batchId: string): Promise<PickBatchEntity> {
+        const batch = await this.waveRepository.findBatchById(batchId);
+        if (!batch) {
+            throw new PickBatchNotFoundError(batchId);
+        }
+        return batch;
+    }
+}
@@ -5,11 +5,11 @@
  * PHILOSOPHIE : Le WMS exécute des ordres, il ne raisonne pas.
  */
 
-import { PrismaClient, PickingStatus, AssemblyStatus, ShipmentStatus } from '@prisma/client';
-import { PickingRepository } from '../repositories/picking.repository';
-import { AssemblyRepository } from '../repositories/assembly.repository';
+import { Prisma, PrismaClient, ShipmentStatus, PackageType, TrackingStatus, TaskType, TaskStatus } from '@prisma/client';
+import { TaskRepository } from '../repositories/task.repository';
 import { ShipmentRepository } from '../repositories/shipment.repository';
 import { ReturnRepository } from '../repositories/return.repository';
+import { TaskService } from './task.service';
 import {
     InventoryServiceClient,
     HttpInventoryServiceClient
@@ -18,16 +18,29 @@ import {
     AssetServiceClient,
     HttpAssetServiceClient
 } from '../integrations/asset.client';
+import { GovernanceServiceClient } from '../integrations/governance.client';
+import { CarrierAddress, CarrierRegistry, CarrierTrackingUpdate } from '../integrations/carrier.adapter';
+import { LocalFakeCarrier } from '../integrations/localFakeCarrier.adapter';
 import {
     emitPickingCreated,
     emitPickingCompleted,
     emitAssemblyCompleted,
     emitAssetShipped,
+    emitAssetDelivered,
+    emitShipmentException,
     emitAssetReturned
 } from '../events/wms.events';
+import {
+    WmsTaskEntity,
+    StartTaskDto,
+    ScanOverrideDto,
+    OPEN_TASK_STATUSES,
+    IncompleteStepsError
+} from '../domain/task.types';
 import {
     CreatePickingOrderDto,
     PickingOrderEntity,
+    pickingStatusOf,
     AssetNotReservedForPickingError,
     PickingOrderNotFoundError,
     PickingAlreadyExistsError,
@@ -36,15 +49,28 @@ import {
 import {
     CreateAssemblyOrderDto,
     AssemblyOrderEntity,
+    assemblyTaskSteps,
+    assemblyTasksOf,
+    assemblyStatusOf,
     AssemblyOrderNotFoundError,
     EmptyAssemblyTasksError,
     InvalidAssemblyStatusError
 } from '../domain/assembly.types';
 import {
     CreateShipmentDto,
+    ShipmentParcelDto,
     ShipmentEntity,
+    ShipmentTrackingEventEntity,
+    TrackingIngestionResult,
+    shippingTaskSteps,
+    ShipmentNotFoundError,
+    ShipmentAlreadyExistsError,
     PickingNotCompletedError,
-    AssemblyNotCompletedError
+    AssemblyNotCompletedError,
+    InvalidShipmentRequestError,
+    UnknownCarrierError,
+    ShipmentLabelNotFoundError,
+    ShippingTaskNotCompletedError
 } from '../domain/shipment.types';
 import {
     CreateReturnDto,
@@ -56,35 +82,44 @@ const SHIPPING_LOCATION = 'SHIPPING_DOCK';
 const RECEIVING_LOCATION = 'RECEIVING_DOCK';
 
 export class WmsService {
-    private readonly pickingRepository: PickingRepository;
-    private readonly assemblyRepository: AssemblyRepository;
+    private readonly taskRepository: TaskRepository;
     private readonly shipmentRepository: ShipmentRepository;
     private readonly returnRepository: ReturnRepository;
+    private readonly taskService: TaskService;
     private readonly inventoryClient: InventoryServiceClient;
     private readonly assetClient: AssetServiceClient;
+    private readonly carrierRegistry: CarrierRegistry;
 
     constructor(
-        prisma: PrismaClient,
+        private readonly prisma: PrismaClient,
         inventoryClient?: InventoryServiceClient,
-        assetClient?: AssetServiceClient
+        assetClient?: AssetServiceClient,
+        carrierRegistry?: CarrierRegistry,
+        governanceClient?: GovernanceServiceClient
     ) {
-        this.pickingRepository = new PickingRepository(prisma);
-        this.assemblyRepository = new AssemblyRepository(prisma);
+        this.taskRepository = new TaskRepository(prisma);
         this.shipmentRepository = new ShipmentRepository(prisma);
         this.returnRepository = new ReturnRepository(prisma);
         this.inventoryClient = inventoryClient ?? new HttpInventoryServiceClient();
         this.assetClient = assetClient ?? new HttpAssetServiceClient();
+        this.taskService = new TaskService(prisma, this.inventoryClient, undefined, governanceClient);
+        // Transporteur simulé hors production (aucun transporteur réel configuré par défaut)
+        this.carrierRegistry = carrierRegistry ?? new CarrierRegistry(
+            process.env.NODE_ENV === 'production' ? [] : [new LocalFakeCarrier()]
+        );
     }
 
     // ========== PICKING ==========
+    // Façade v0 sur les tâches PICKING : scannée si l'opérateur démarre avec un scan,
+    // sinon close sans scan sur dérogation superviseur (voir closeSteps)
 
     /**
      * Crée un ordre de picking
      * 
      * Étapes STRICTES :
      * 1. Vérifier Asset réservé
-     * 2. Créer PickingOrder → PENDING
-     * 3. Émettre événement PickingCreated
+     * 2. Créer la tâche PICKING → PENDING, rattachée à la commande de la réservation
+     * 3. Émettre événement PickingCreated (même transaction que la tâche)
      */
     async createPickingOrder(dto: CreatePickingOrderDto): Promise<PickingOrderEntity> {
         // 1. Vérifier que l'asset est réservé
@@ -93,86 +128,93 @@ export class WmsService {
             throw new AssetNotReservedForPickingError(dto.assetId);
         }
 
-        // Vérifier qu'il n'y a pas déjà un picking actif
-        const existingPicking = await this.pickingRepository.findActiveByAssetId(dto.assetId);
+        // Vérifier qu'il n'y a pas déjà un picking non terminé
+        const existingPicking = await this.taskRepository.findLatestByAssetId(
+            dto.assetId,
+            TaskType.PICKING,
+            OPEN_TASK_STATUSES
+        );
         if (existingPicking) {
             throw new PickingAlreadyExistsError(dto.assetId);
         }
 
-        // 2. Créer l'ordre de picking
-        const picking = await this.pickingRepository.create(dto.assetId);
-
-        // 3. Émettre l'événement
-        emitPickingCreated(picking);
+        // 2-3. Créer la tâche (étapes du template PICKING, échéance dérivée de la date promise)
+        // et émettre l'événement
+        const task = await this.taskService.createTask(
+            dto.assetId,
+            TaskType.PICKING,
+            reservation.orderRef,
+            { promisedDate: dto.promisedDate },
+            new Date(),
+            (tx, created) => emitPickingCreated(tx, this.toPickingOrder(created))
+        );
 
-        return picking;
+        return this.toPickingOrder(task);
     }
 
     /**
      * Démarre un picking
+     * Avec dto : scan de l'asset par l'opérateur ; sans : démarrage v0 sans opérateur
      */
-    async startPicking(pickingId: string): Promise<PickingOrderEntity> {
-        const picking = await this.pickingRepository.findById(pickingId);
-        if (!picking) {
-            throw new PickingOrderNotFoundError(pickingId);
-        }
+    async startPicking(pickingId: string, dto?: StartTaskDto): Promise<PickingOrderEntity> {
+        const task = await this.requireTask(pickingId, TaskType.PICKING);
 
-        if (picking.status !== PickingStatus.PENDING) {
-            throw new InvalidPickingStatusError(pickingId, picking.status, PickingStatus.PENDING);
+        if (task.status !== TaskStatus.PENDING) {
+            throw new InvalidPickingStatusError(pickingId, pickingStatusOf(task.status), 'PENDING');
         }
 
-        return this.pickingRepository.updateStatus(pickingId, PickingStatus.IN_PROGRESS);
+        const started = dto
+            ? await this.taskService.startTask(pickingId, dto)
+            : await this.taskRepository.startTask(pickingId, null);
+        return this.toPickingOrder(started);
     }
 
     /**
      * Complète un picking
      * 
      * Règles :
-     * - passage IN_PROGRESS → COMPLETED
+     * - passage PENDING ou IN_PROGRESS → COMPLETED (FAILED refusé)
+     * - démarré par un opérateur : toutes les étapes scannées
+     * - sinon : dérogation superviseur tracée (override) obligatoire
      * - mouvement Inventory obligatoire
      */
-    async completePicking(pickingId: string): Promise<PickingOrderEntity> {
-        const picking = await this.pickingRepository.findById(pickingId);
-        if (!picking) {
-            throw new PickingOrderNotFoundError(pickingId);
-        }
+    async completePicking(pickingId: string, override?: ScanOverrideDto): Promise<PickingOrderEntity> {
+        const task = await this.requireTask(pickingId, TaskType.PICKING);
 
-        // Permettre de compléter depuis PENDING ou IN_PROGRESS
-        if (picking.status === PickingStatus.COMPLETED) {
-            return picking;
+        if (task.status === TaskStatus.COMPLETED) {
+            return this.toPickingOrder(task);
         }
 
-        if (picking.status === PickingStatus.FAILED) {
-            throw new InvalidPickingStatusError(pickingId, picking.status, PickingStatus.IN_PROGRESS);
+        if (task.status !== TaskStatus.PENDING && task.status !== TaskStatus.IN_PROGRESS) {
+            throw new InvalidPickingStatusError(pickingId, pickingStatusOf(task.status), 'IN_PROGRESS');
         }
 
+        // Étapes vérifiées (ou closes sur dérogation) avant le mouvement
+        await this.closeSteps(task, override);
+
         // Mouvement Inventory vers zone d'expédition (MOVE)
-        await this.inventoryClient.moveAsset(picking.assetId, SHIPPING_LOCATION, 'MOVE');
+        await this.inventoryClient.moveAsset(task.assetId, SHIPPING_LOCATION, 'MOVE');
 
-        // Mettre à jour le statut
-        const completedPicking = await this.pickingRepository.updateStatus(
+        // Clôture et événement dans la même transaction
+        const completedTask = await this.taskService.completeTask(
             pickingId,
-            PickingStatus.COMPLETED
+            undefined,
+            (tx, completed) => emitPickingCompleted(tx, this.toPickingOrder(completed))
         );
 
-        // Émettre l'événement
-        emitPickingCompleted(completedPicking);
-
-        return completedPicking;
+        return this.toPickingOrder(completedTask);
     }
 
     /**
      * Récupère un picking par ID
      */
     async getPickingOrder(pickingId: string): Promise<PickingOrderEntity> {
-        const picking = await this.pickingRepository.findById(pickingId);
-        if (!picking) {
-            throw new PickingOrderNotFoundError(pickingId);
-        }
-        return picking;
+        return this.toPickingOrder(await this.requireTask(pickingId, TaskType.PICKING));
     }
 
     // ========== ASSEMBLY ==========
+    // Façade v0 sur les tâches ASSEMBLY : une étape par tâche CTO, scannée si
+    // l'opérateur démarre avec un scan, sinon close sans scan sur dérogation superviseur
 
     /**
      * Crée un ordre d'assemblage
@@ -186,115 +228,251 @@ export class WmsService {
             throw new EmptyAssemblyTasksError();
         }
 
-        const assembly = await this.assemblyRepository.create(dto.assetId, dto.tasks);
-        return assembly;
+        const task = await this.taskRepository.create({
+            assetId: dto.assetId,
+            type: TaskType.ASSEMBLY,
+            steps: assemblyTaskSteps(dto.assetId, dto.tasks)
+        });
+        return this.toAssemblyOrder(task, dto.tasks);
     }
 
     /**
      * Démarre un assemblage
+     * Avec dto : scan de l'asset principal par l'opérateur ; sans : démarrage v0 sans opérateur
      */
-    async startAssembly(assemblyId: string): Promise<AssemblyOrderEntity> {
-        const assembly = await this.assemblyRepository.findById(assemblyId);
-        if (!assembly) {
-            throw new AssemblyOrderNotFoundError(assemblyId);
-        }
+    async startAssembly(assemblyId: string, dto?: StartTaskDto): Promise<AssemblyOrderEntity> {
+        const task = await this.requireTask(assemblyId, TaskType.ASSEMBLY);
 
-        if (assembly.status !== AssemblyStatus.PENDING) {
-            throw new InvalidAssemblyStatusError(assemblyId, assembly.status, AssemblyStatus.PENDING);
+        if (task.status !== TaskStatus.PENDING) {
+            throw new InvalidAssemblyStatusError(assemblyId, assemblyStatusOf(task.status), 'PENDING');
         }
 
-        return this.assemblyRepository.updateStatus(assemblyId, AssemblyStatus.IN_PROGRESS);
+        const started = dto
+            ? await this.taskService.startTask(assemblyId, dto)
+            : await this.taskRepository.startTask(assemblyId, null);
+        return this.toAssemblyOrder(started, await this.loadAssemblyTasks(assemblyId));
     }
 
     /**
      * Complète un assemblage
      * 
      * Règles :
-     * - toutes les tâches considérées exécutées
-     * - statut COMPLETED
+     * - passage PENDING ou IN_PROGRESS → COMPLETED (FAILED refusé)
+     * - démarré par un opérateur : toutes les tâches CTO scannées
+     * - sinon : dérogation superviseur tracée (override) obligatoire
      */
-    async completeAssembly(assemblyId: string): Promise<AssemblyOrderEntity> {
-        const assembly = await this.assemblyRepository.findById(assemblyId);
-        if (!assembly) {
-            throw new AssemblyOrderNotFoundError(assemblyId);
-        }
+    async completeAssembly(assemblyId: string, override?: ScanOverrideDto): Promise<AssemblyOrderEntity> {
+        const task = await this.requireTask(assemblyId, TaskType.ASSEMBLY);
+        const tasks = await this.loadAssemblyTasks(assemblyId);
 
-        if (assembly.status === AssemblyStatus.COMPLETED) {
-            return assembly;
+        if (task.status === TaskStatus.COMPLETED) {
+            return this.toAssemblyOrder(task, tasks);
         }
 
-        if (assembly.status === AssemblyStatus.FAILED) {
-            throw new InvalidAssemblyStatusError(assemblyId, assembly.status, AssemblyStatus.IN_PROGRESS);
+        if (task.status !== TaskStatus.PENDING && task.status !== TaskStatus.IN_PROGRESS) {
+            throw new InvalidAssemblyStatusError(assemblyId, assemblyStatusOf(task.status), 'IN_PROGRESS');
         }
 
-        // Mettre à jour le statut
-        const completedAssembly = await this.assemblyRepository.updateStatus(
+        await this.closeSteps(task, override);
+
+        // Clôture et événement dans la même transaction
+        const completedTask = await this.taskService.completeTask(
             assemblyId,
-            AssemblyStatus.COMPLETED
+            undefined,
+            (tx, completed) => emitAssemblyCompleted(tx, this.toAssemblyOrder(completed, tasks))
         );
 
-        // Émettre l'événement
-        emitAssemblyCompleted(completedAssembly);
-
-        return completedAssembly;
+        return this.toAssemblyOrder(completedTask, tasks);
     }
 
     /**
      * Récupère un assemblage par ID
      */
     async getAssemblyOrder(assemblyId: string): Promise<AssemblyOrderEntity> {
-        const assembly = await this.assemblyRepository.findById(assemblyId);
-        if (!assembly) {
-            throw new AssemblyOrderNotFoundError(assemblyId);
-        }
-        return assembly;
+        const task = await this.requireTask(assemblyId, TaskType.ASSEMBLY);
+        return this.toAssemblyOrder(task, await this.loadAssemblyTasks(assemblyId));
     }
 
     // ========== SHIPMENT ==========
 
     /**
-     * Crée une expédition
+     * Crée et envoie une expédition (v0)
+     *
+     * Préparation (prepareShipment), tâche SHIPPING close sans scan sur
+     * dérogation superviseur, puis envoi (dispatchShipment) : Shipment SHIPPED, Asset SOLD.
+     * Dérogation refusée : l'expédition reste READY, sa tâche SHIPPING à scanner.
+     */
+    async createShipment(dto: CreateShipmentDto, override: ScanOverrideDto): Promise<ShipmentEntity> {
+        const prepared = await this.prepareShipment(dto);
+        const task = await this.taskRepository.findById(prepared.taskId as string);
+        if (!task) {
+            throw new ShippingTaskNotCompletedError(prepared.id, prepared.taskId, null);
+        }
+
+        await this.closeSteps(task, override);
+        await this.taskService.completeTask(task.id);
+
+        return this.dispatchShipment(prepared.id);
+    }
+
+    /**
+     * Prépare une expédition à exécuter au scan
      * 
      * Étapes STRICTES :
-     * 1. Vérifier picking complété
-     * 2. Vérifier assemblage complété (si existant)
-     * 3. Créer Shipment
-     * 4. Mouvement Inventory SHIP
-     * 5. Appel Asset Service → statut SOLD
-     * 6. Émettre événement AssetShipped
+     * 1. Vérifier tâche PICKING complétée
+     * 2. Vérifier tâche ASSEMBLY complétée (si existante)
+     * 3. Une seule expédition en cours par asset : READY refusée,
+     *    réservation PENDING interrompue reprise
+     * 4. Transporteur intégré : Shipment PENDING persisté AVANT la réservation
+     *    (référence = id : une reprise ne crée pas de seconde expédition),
+     *    puis étiquette et numéros de suivi → READY ;
+     *    transporteur manuel : Shipment READY avec le trackingRef saisi
+     * 5. Créer la tâche SHIPPING (scan asset + étiquettes colis)
+     *
+     * L'envoi (dispatchShipment) attend la fin de la tâche SHIPPING.
      */
-    async createShipment(dto: CreateShipmentDto): Promise<ShipmentEntity> {
+    async prepareShipment(dto: CreateShipmentDto): Promise<ShipmentEntity> {
         // 1. Vérifier picking complété
-        const completedPicking = await this.pickingRepository.findCompletedByAssetId(dto.assetId);
+        const completedPicking = await this.taskRepository.findLatestByAssetId(
+            dto.assetId,
+            TaskType.PICKING,
+            [TaskStatus.COMPLETED]
+        );
         if (!completedPicking) {
             throw new PickingNotCompletedError(dto.assetId);
         }
 
         // 2. Vérifier assemblage complété (si un assemblage existe)
-        const activeAssembly = await this.assemblyRepository.findActiveByAssetId(dto.assetId);
-        if (activeAssembly) {
-            // Il y a un assemblage actif non complété
+        const openAssembly = await this.taskRepository.findLatestByAssetId(
+            dto.assetId,
+            TaskType.ASSEMBLY,
+            OPEN_TASK_STATUSES
+        );
+        if (openAssembly) {
             throw new AssemblyNotCompletedError(dto.assetId);
         }
 
-        // 3. Créer l'expédition
-        const shipment = await this.shipmentRepository.create(dto.assetId, dto.carrier);
+        const parcels = this.normalizeParcels(dto.parcels ?? []);
+        const adapter = this.carrierRegistry.get(dto.carrier);
+        const orderId = completedPicking.orderId ?? undefined;
+
+        if (adapter) {
+            if (!dto.shipTo) {
+                throw new InvalidShipmentRequestError(`shipTo is required for carrier ${adapter.code}`);
+            }
+            if (parcels.length === 0) {
+                throw new InvalidShipmentRequestError(`At least one parcel is required for carrier ${adapter.code}`);
+            }
+            if (!adapter.supportsPallets && parcels.some(p => p.type === PackageType.PALLET)) {
+                throw new InvalidShipmentRequestError(`Carrier ${adapter.code} does not accept pallets`);
+            }
+        }
 
-        // 4. Mouvement Inventory SHIP
-        await this.inventoryClient.moveAsset(dto.assetId, SHIPPING_LOCATION, 'SHIP');
+        // 3-4. Expédition en cours vérifiée et créée dans la même transaction
+        // (Serializable : deux préparations concurrentes ne créent pas deux expéditions)
+        const shipment = await this.prisma.$transaction(async (tx) => {
+            const shipmentRepository = new ShipmentRepository(tx);
+
+            const open = await shipmentRepository.findOpenByAssetId(dto.assetId);
+            if (open && (open.status === ShipmentStatus.READY || open.carrier !== adapter?.code)) {
+                throw new ShipmentAlreadyExistsError(dto.assetId, open.id, open.status);
+            }
+            if (open) {
+                return open;
+            }
+
+            if (!adapter) {
+                // 4-5. Transporteur manuel
+                const created = await shipmentRepository.create({
+                    assetId: dto.assetId,
+                    carrier: dto.carrier,
+                    trackingRef: dto.trackingRef,
+                    shipTo: dto.shipTo,
+                    parcels
+                });
+                return this.openShippingTask(tx, created, orderId);
+            }
+
+            return shipmentRepository.create({
+                assetId: dto.assetId,
+                carrier: adapter.code,
+                status: ShipmentStatus.PENDING,
+                shipTo: dto.shipTo,
+                parcels
+            });
+        }, {
+            isolationLevel: Prisma.TransactionIsolationLevel.Serializable
+        });
 
-        // 5. Changer le statut Asset → SOLD
-        await this.assetClient.changeStatus(dto.assetId, 'SOLD', 'Shipped via WMS');
+        if (!adapter || shipment.status !== ShipmentStatus.PENDING) {
+            return shipment;
+        }
 
-        // 6. Mettre à jour le statut de l'expédition
-        const shippedShipment = await this.shipmentRepository.update(shipment.id, {
-            status: ShipmentStatus.SHIPPED
+        // 4. Réservation transporteur (colis et adresse de l'expédition persistée)
+        const booking = await adapter.bookShipment({
+            reference: shipment.id,
+            assetId: shipment.assetId,
+            shipTo: shipment.shipTo as CarrierAddress,
+            packages: shipment.parcels.map(parcel => ({
+                sequence: parcel.sequence,
+                type: parcel.type,
+                weightKg: parcel.weightKg,
+                lengthCm: parcel.lengthCm ?? undefined,
+                widthCm: parcel.widthCm ?? undefined,
+                heightCm: parcel.heightCm ?? undefined
+            }))
         });
 
-        // Émettre l'événement
-        emitAssetShipped(shippedShipment);
+        // 4-5. Étiquette, numéros de suivi et tâche SHIPPING dans la même transaction
+        return this.prisma.$transaction(async (tx) => {
+            const booked = await new ShipmentRepository(tx).recordBooking(shipment.id, {
+                trackingRef: booking.trackingNumber,
+                labelPdf: booking.labelPdf,
+                bookedAt: new Date(),
+                parcels: booking.packages
+            });
+            return this.openShippingTask(tx, booked, orderId);
+        });
+    }
 
-        return shippedShipment;
+    /**
+     * Envoie une expédition après exécution de sa tâche SHIPPING
+     *
+     * Étapes STRICTES :
+     * 1. Vérifier tâche SHIPPING complétée
+     * 2. Mouvement Inventory SHIP
+     * 3. Appel Asset Service → statut SOLD
+     * 4. Shipment → SHIPPED
+     * 5. Émettre événement AssetShipped
+     *
+     * Idempotent : une expédition déjà envoyée est retournée telle quelle.
+     */
+    async dispatchShipment(shipmentId: string): Promise<ShipmentEntity> {
+        const shipment = await this.requireShipment(shipmentId);
+        if (shipment.status === ShipmentStatus.SHIPPED || shipment.status === ShipmentStatus.DELIVERED) {
+            return shipment;
+        }
+
+        // 1. Vérifier tâche SHIPPING complétée (aucune tant que la réservation est PENDING)
+        const task = shipment.taskId ? await this.taskRepository.findById(shipment.taskId) : null;
+        if (task?.status !== TaskStatus.COMPLETED) {
+            throw new ShippingTaskNotCompletedError(shipmentId, shipment.taskId, task?.status ?? null);
+        }
+
+        // 2. Mouvement Inventory SHIP
+        await this.inventoryClient.moveAsset(shipment.assetId, SHIPPING_LOCATION, 'SHIP');
+
+        // 3. Changer le statut Asset → SOLD
+        await this.assetClient.changeStatus(shipment.assetId, 'SOLD', 'Shipped via WMS');
+
+        // 4-5. Mettre à jour le statut de l'expédition et émettre l'événement
+        return this.prisma.$transaction(async (tx) => {
+            const shippedShipment = await new ShipmentRepository(tx).update(shipmentId, {
+                status: ShipmentStatus.SHIPPED
+            });
+            await emitAssetShipped(tx, shippedShipment);
+            return shippedShipment;
+        });
     }
 
     /**
@@ -304,6 +482,261 @@ export class WmsService {
         return this.shipmentRepository.findById(shipmentId);
     }
 
+    /**
+     * Étiquette PDF du transporteur
+     */
+    async getShipmentLabel(shipmentId: string): Promise<Buffer> {
+        await this.requireShipment(shipmentId);
+
+        const label = await this.shipmentRepository.findLabel(shipmentId);
+        if (!label) {
+            throw new ShipmentLabelNotFoundError(shipmentId);
+        }
+        return label;
+    }
+
+    /**
+     * Historique de suivi d'une expédition
+     */
+    async getTrackingEvents(shipmentId: string): Promise<ShipmentTrackingEventEntity[]> {
+        await this.requireShipment(shipmentId);
+        return this.shipmentRepository.findTrackingEvents(shipmentId);
+    }
+
+    /**
+     * Saisie manuelle d'un statut de suivi (transporteur sans intégration)
+     * Sans numéro de suivi, le statut porte sur le numéro maître
+     */
+    async addTrackingEvent(
+        shipmentId: string,
+        update: Omit<CarrierTrackingUpdate, 'trackingNumber'> & { trackingNumber?: string }
+    ): Promise<TrackingIngestionResult> {
+        const shipment = await this.requireShipment(shipmentId);
+        const normalized: CarrierTrackingUpdate = {
+            ...update,
+            trackingNumber: update.trackingNumber ?? shipment.trackingRef ?? shipment.id
+        };
+
+        const known = normalized.trackingNumber === (shipment.trackingRef ?? shipment.id)
+            || shipment.parcels.some(p => p.trackingNumber === normalized.trackingNumber);
+        if (!known) {
+            throw new InvalidShipmentRequestError(
+                `Tracking number ${normalized.trackingNumber} does not belong to shipment ${shipmentId}`
+            );
+        }
+
+        const result: TrackingIngestionResult = { recorded: 0, delivered: [], unmatched: [] };
+        await this.applyTrackingUpdate(shipment, normalized, result);
+        return result;
+    }
+
+    /**
+     * Webhook de suivi d'un transporteur intégré
+     *
+     * Idempotent : un statut déjà reçu (même numéro, statut et horodatage) est ignoré.
+     * Les numéros inconnus sont retournés dans unmatched sans bloquer le lot.
+     */
+    async ingestCarrierTracking(carrierCode: string, payload: unknown): Promise<TrackingIngestionResult> {
+        const adapter = this.carrierRegistry.get(carrierCode);
+        if (!adapter) {
+            throw new UnknownCarrierError(carrierCode);
+        }
+
+        const updates = adapter.parseTrackingWebhook(payload);
+        const result: TrackingIngestionResult = { recorded: 0, delivered: [], unmatched: [] };
+
+        for (const update of updates) {
+            // Relu à chaque statut : un lot peut livrer puis mentionner la même expédition
+            const shipment = await this.shipmentRepository.findByTrackingNumber(adapter.code, update.trackingNumber);
+            if (!shipment) {
+                result.unmatched.push(update);
+                continue;
+            }
+            await this.applyTrackingUpdate(shipment, update, result);
+        }
+
+        return result;
+    }
+
+    /**
+     * Enregistre un statut et applique ses effets (exception, livraison)
+     *
+     * Livraison : statut DELIVERED sur le numéro maître, ou sur le dernier
+     * colis non encore livré. Seule une expédition SHIPPED passe DELIVERED.
+     *
+     * Statut, livraison et événements sont écrits dans une même transaction,
+     * Serializable : deux colis livrés en parallèle ne peuvent pas conclure
+     * chacun qu'il reste un colis en transit (l'une des deux est rejouée).
+     */
+    private async applyTrackingUpdate(
+        shipment: ShipmentEntity,
+        update: CarrierTrackingUpdate,
+        result: TrackingIngestionResult
+    ): Promise<void> {
+        const parcel = shipment.parcels.find(p => p.trackingNumber === update.trackingNumber);
+
+        const outcome = await this.prisma.$transaction(async (tx): Promise<'IGNORED' | 'RECORDED' | 'DELIVERED'> => {
+            const shipmentRepository = new ShipmentRepository(tx);
+
+            const recorded = await shipmentRepository.addTrackingEvent(shipment.id, parcel?.id ?? null, update);
+            if (!recorded) {
+                return 'IGNORED';
+            }
+
+            if (update.status === TrackingStatus.EXCEPTION) {
+                await emitShipmentException(tx, shipment, update);
+                return 'RECORDED';
+            }
+
+            // Statut relu dans la transaction (livraison concurrente)
+            const current = update.status === TrackingStatus.DELIVERED
+                ? await shipmentRepository.findById(shipment.id)
+                : null;
+            if (current?.status !== ShipmentStatus.SHIPPED) {
+                return 'RECORDED';
+            }
+
+            if (parcel) {
+                const events = await shipmentRepository.findTrackingEvents(shipment.id);
+                const delivered = new Set(events
+                    .filter(e => e.status === TrackingStatus.DELIVERED)
+                    .map(e => e.trackingNumber));
+                const allDelivered = shipment.parcels
+                    .filter(p => p.trackingNumber)
+                    .every(p => delivered.has(p.trackingNumber as string));
+                if (!allDelivered) {
+                    return 'RECORDED';
+                }
+            }
+
+            const deliveredShipment = await shipmentRepository.update(shipment.id, {
+                status: ShipmentStatus.DELIVERED,
+                deliveredAt: update.occurredAt
+            });
+            await emitAssetDelivered(tx, deliveredShipment, update.occurredAt);
+            return 'DELIVERED';
+        }, {
+            isolationLevel: Prisma.TransactionIsolationLevel.Serializable
+        });
+
+        if (outcome !== 'IGNORED') {
+            result.recorded++;
+        }
+        if (outcome === 'DELIVERED') {
+            result.delivered.push(shipment.id);
+        }
+    }
+
+    /**
+     * Crée la tâche SHIPPING d'une expédition READY, rattachée à la commande du picking
+     */
+    private async openShippingTask(
+        tx: Prisma.TransactionClient,
+        shipment: ShipmentEntity,
+        orderId: string | undefined
+    ): Promise<ShipmentEntity> {
+        const shippingTask = await new TaskRepository(tx).create({
+            assetId: shipment.assetId,
+            orderId,
+            type: TaskType.SHIPPING,
+            steps: shippingTaskSteps(shipment)
+        });
+        return new ShipmentRepository(tx).update(shipment.id, { taskId: shippingTask.id });
+    }
+
+    /**
+     * Valide les colis et les numérote dans l'ordre de saisie
+     */
+    private normalizeParcels(parcels: ShipmentParcelDto[]) {
+        return parcels.map((parcel, index) => {
+            const type = parcel.type ?? PackageType.PARCEL;
+            if (!Object.values(PackageType).includes(type)) {
+                throw new InvalidShipmentRequestError(`Invalid package type: ${String(type)}`);
+            }
+            if (!(parcel.weightKg > 0)) {
+                throw new InvalidShipmentRequestError(`Parcel ${index + 1}: weightKg must be positive`);
+            }
+            for (const dimension of [parcel.lengthCm, parcel.widthCm, parcel.heightCm]) {
+                if (dimension !== undefined && !(dimension > 0)) {
+                    throw new InvalidShipmentRequestError(`Parcel ${index + 1}: dimensions must be positive`);
+                }
+            }
+            return {
+                sequence: index + 1,
+                type,
+                weightKg: parcel.weightKg,
+                lengthCm: parcel.lengthCm,
+                widthCm: parcel.widthCm,
+                heightCm: parcel.heightCm
+            };
+        });
+    }
+
+    private async requireShipment(shipmentId: string): Promise<ShipmentEntity> {
+        const shipment = await this.shipmentRepository.findById(shipmentId);
+        if (!shipment) {
+            throw new ShipmentNotFoundError(shipmentId);
+        }
+        return shipment;
+    }
+
+    // ========== FAÇADE v0 ==========
+
+    /**
+     * Tâche derrière un ordre v0 (introuvable si l'id désigne une tâche d'un autre type)
+     */
+    private async requireTask(id: string, type: TaskType): Promise<WmsTaskEntity> {
+        const task = await this.taskRepository.findById(id);
+        if (!task || task.type !== type) {
+            throw type === TaskType.PICKING
+                ? new PickingOrderNotFoundError(id)
+                : new AssemblyOrderNotFoundError(id);
+        }
+        return task;
+    }
+
+    /**
+     * Étapes d'une tâche de la façade avant sa clôture
+     *
+     * Démarrée par un opérateur : toutes les étapes doivent être scannées.
+     * Sinon (exécution v0) : étapes closes sans scan uniquement sur dérogation
+     * d'un superviseur, approuvée et tracée par la gouvernance (voir TaskService.overrideScans).
+     */
+    private async closeSteps(task: WmsTaskEntity, override?: ScanOverrideDto): Promise<void> {
+        if (task.operatorId || !override) {
+            const incompleteCount = await this.taskRepository.countIncompleteSteps(task.id);
+            if (incompleteCount > 0) {
+                throw new IncompleteStepsError(task.id, incompleteCount);
+            }
+            return;
+        }
+
+        await this.taskService.overrideScans(task.id, override);
+    }
+
+    private async loadAssemblyTasks(assemblyId: string): Promise<string[]> {
+        return assemblyTasksOf(await this.taskRepository.findStepsByTaskId(assemblyId));
+    }
+
+    private toPickingOrder(task: WmsTaskEntity): PickingOrderEntity {
+        return {
+            id: task.id,
+            assetId: task.assetId,
+            status: pickingStatusOf(task.status),
+            createdAt: task.createdAt
+        };
+    }
+
+    private toAssemblyOrder(task: WmsTaskEntity, tasks: string[]): AssemblyOrderEntity {
+        return {
+            id: task.id,
+            assetId: task.assetId,
+            tasks,
+            status: assemblyStatusOf(task.status),
+            createdAt: task.createdAt
+        };
+    }
+
     // ========== RETURNS ==========
 
     /**
@@ -322,13 +755,12 @@ export class WmsService {
         // 2. Mouvement Inventory RETURN
         await this.inventoryClient.moveAsset(dto.assetId, RECEIVING_LOCATION, 'RETURN');
 
-        // 3. Créer le retour
-        const ret = await this.returnRepository.create(dto.assetId, dto.reason);
-
-        // 4. Émettre l'événement
-        emitAssetReturned(ret);
-
-        return ret;
+        // 3-4. Créer le retour et émettre l'événement
+        return this.prisma.$transaction(async (tx) => {
+            const ret = await new ReturnRepository(tx).create(dto.assetId, dto.reason);
+            await emitAssetReturned(tx, ret);
+            return ret;
+        });
     }
 
     /**
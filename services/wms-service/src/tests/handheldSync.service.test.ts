@@ -0,0 +1,371 @@
+/**
+ * Handheld Sync Service Tests
+ * Rejeu des files hors ligne et réconciliation
+ */
+
+import { HandheldSyncService } from '../services/handheldSync.service';
+import { InventoryServiceClient } from '../integrations/inventory.client';
+import {
+    PrismaClient,
+    TaskType,
+    TaskStatus,
+    TaskPriority,
+    StepInputType,
+    HandheldEventType,
+    SyncOutcome
+} from '@prisma/client';
+import { WmsTaskEntity } from '../domain/task.types';
+import { InvalidSyncRequestError } from '../domain/handheldSync.types';
+
+// Mock PrismaClient ($transaction exécute le callback avec le même mock)
+const mockPrisma = {
+    wmsTask: {
+        findUnique: jest.fn(),
+        findFirst: jest.fn(),
+        update: jest.fn()
+    },
+    taskStep: {
+        findUnique: jest.fn(),
+        update: jest.fn(),
+        count: jest.fn()
+    },
+    scanLog: {
+        create: jest.fn()
+    },
+    operator: {
+        findUnique: jest.fn()
+    },
+    taskBlock: {
+        create: jest.fn()
+    },
+    handheldSyncEvent: {
+        findMany: jest.fn(),
+        create: jest.fn()
+    },
+    $executeRawUnsafe: jest.fn(),
+    $transaction: jest.fn()
+} as unknown as PrismaClient;
+
+const mockInventoryClient: InventoryServiceClient = {
+    getReservation: jest.fn(),
+    getPosition: jest.fn(),
+    moveAsset: jest.fn(),
+    getMovements: jest.fn()
+};
+
+jest.spyOn(console, 'log').mockImplementation(() => { });
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const OFFLINE_START = '2026-10-19T10:00:00.000Z';
+const STEP_SCANNED = '2026-10-19T10:05:00.000Z';
+
+const operator = {
+    id: 'op-1',
+    name: 'Jane Doe',
+    badge: 'BADGE-001',
+    skills: [TaskType.PICKING],
+    certifications: [],
+    homeZone: null,
+    createdAt: new Date()
+};
+
+const pendingTask: WmsTaskEntity = {
+    id: 'task-1',
+    assetId: 'ASSET-001',
+    orderId: null,
+    type: TaskType.PICKING,
+    status: TaskStatus.PENDING,
+    priority: TaskPriority.NORMAL,
+    dueBy: null,
+    zone: null,
+    requiredCertification: null,
+    batchId: null,
+    pickSequence: null,
+    locationCode: null,
+    operatorId: null,
+    createdAt: new Date('2026-10-19T08:00:00Z'),
+    startedAt: null,
+    endedAt: null
+};
+
+const assetStep = {
+    id: 'step-2',
+    taskId: 'task-1',
+    stepOrder: 2,
+    description: 'Scanner asset',
+    scanRequired: true,
+    expectedCode: 'ASSET-001',
+    scannedCode: null,
+    templateId: null,
+    inputType: StepInputType.NONE,
+    unit: null,
+    minValue: null,
+    maxValue: null,
+    measuredValue: null,
+    completed: false,
+    completedAt: null
+};
+
+describe('HandheldSyncService', () => {
+    let service: HandheldSyncService;
+    let task: WmsTaskEntity;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (mockPrisma.$transaction as jest.Mock).mockImplementation(
+            async (callback: (tx: PrismaClient) => Promise<unknown>) => callback(mockPrisma)
+        );
+        task = { ...pendingTask };
+
+        // Tâche "en base" : les mises à jour du moteur modifient l'état relu
+        (mockPrisma.wmsTask.findUnique as jest.Mock).mockImplementation(async ({ where }) =>
+            where.id === task.id ? { ...task } : null
+        );
+        (mockPrisma.wmsTask.update as jest.Mock).mockImplementation(async ({ data }) => {
+            task = { ...task, ...data };
+            return { ...task };
+        });
+        (mockPrisma.wmsTask.findFirst as jest.Mock).mockResolvedValue(null);
+        (mockPrisma.taskStep.findUnique as jest.Mock).mockResolvedValue(assetStep);
+        (mockPrisma.taskStep.update as jest.Mock).mockImplementation(async ({ data }) => ({ ...assetStep, ...data }));
+        (mockPrisma.operator.findUnique as jest.Mock).mockResolvedValue(operator);
+        (mockPrisma.scanLog.create as jest.Mock).mockImplementation(async ({ data }) => ({
+            id: 'scan-1',
+            scannedAt: new Date(),
+            ...data
+        }));
+        (mockPrisma.taskBlock.create as jest.Mock).mockImplementation(async ({ data }) => ({
+            id: 'block-1',
+            stepId: null,
+            resolutionCode: null,
+            resolutionNote: null,
+            resolvedBy: null,
+            decisionId: null,
+            resumedStatus: null,
+            resumedOperatorId: null,
+            resolvedAt: null,
+            ...data
+        }));
+        (mockPrisma.handheldSyncEvent.findMany as jest.Mock).mockResolvedValue([]);
+        (mockPrisma.handheldSyncEvent.create as jest.Mock).mockImplementation(async ({ data }) => ({
+            id: `sync-${data.eventId}`,
+            syncedAt: NOW,
+            ...data
+        }));
+        (mockInventoryClient.getMovements as jest.Mock).mockResolvedValue([
+            {
+                id: 'mv-1',
+                assetId: 'ASSET-001',
+                fromLocation: null,
+                toLocation: 'loc-A1',
+                reason: 'RECEIVE',
+                createdAt: '2026-10-18T09:00:00Z'
+            }
+        ]);
+        service = new HandheldSyncService(mockPrisma, mockInventoryClient);
+    });
+
+    test('replays events in device time order with the original timestamps', async () => {
+        // Act : file envoyée dans le désordre
+        const result = await service.sync({
+            deviceId: 'hh-7',
+            operatorId: 'op-1',
+            events: [
+                { eventId: 'e2', type: HandheldEventType.STEP, taskId: 'task-1', stepId: 'step-2', scanCode: 'ASSET-001', capturedAt: STEP_SCANNED },
+                { eventId: 'e1', type: HandheldEventType.START, taskId: 'task-1', scanCode: 'ASSET-001', capturedAt: OFFLINE_START }
+            ]
+        }, NOW);
+
+        // Assert
+        expect(result.results.map(r => [r.eventId, r.outcome])).toEqual([
+            ['e1', SyncOutcome.APPLIED],
+            ['e2', SyncOutcome.APPLIED]
+        ]);
+        expect(result.results[1]?.taskStatus).toBe(TaskStatus.IN_PROGRESS);
+        expect(mockPrisma.wmsTask.update).toHaveBeenCalledWith({
+            where: { id: 'task-1' },
+            data: expect.objectContaining({ operatorId: 'op-1', startedAt: new Date(OFFLINE_START) })
+        });
+        expect(mockPrisma.scanLog.create).toHaveBeenCalledWith({
+            data: expect.objectContaining({ stepId: 'step-2', valid: true, scannedAt: new Date(STEP_SCANNED) })
+        });
+        expect(mockPrisma.taskStep.update).toHaveBeenCalledWith({
+            where: { id: 'step-2' },
+            data: expect.objectContaining({ completed: true, completedAt: new Date(STEP_SCANNED) })
+        });
+        expect(mockPrisma.handheldSyncEvent.create).toHaveBeenCalledTimes(2);
+        expect(result.summary).toEqual({ APPLIED: 2, CONFLICT: 0, REJECTED: 0, SKIPPED: 0 });
+        expect(console.log).toHaveBeenCalledWith(expect.stringContaining('"message":"HandheldSynced"'));
+    });
+
+    test('reports a reassigned task as a conflict and skips its later events', async () => {
+        // Arrange : tâche démarrée par un autre opérateur pendant la coupure
+        task = { ...pendingTask, status: TaskStatus.IN_PROGRESS, operatorId: 'op-2' };
+
+        // Act
+        const result = await service.sync({
+            deviceId: 'hh-7',
+            operatorId: 'op-1',
+            events: [
+                { eventId: 'e1', type: HandheldEventType.START, taskId: 'task-1', scanCode: 'ASSET-001', capturedAt: OFFLINE_START },
+                { eventId: 'e2', type: HandheldEventType.STEP, taskId: 'task-1', stepId: 'step-2', scanCode: 'ASSET-001', capturedAt: STEP_SCANNED }
+            ]
+        }, NOW);
+
+        // Assert
+        expect(result.results.map(r => [r.outcome, r.reason])).toEqual([
+            [SyncOutcome.CONFLICT, 'TASK_REASSIGNED'],
+            [SyncOutcome.SKIPPED, 'PREVIOUS_EVENT_FAILED']
+        ]);
+        expect(mockPrisma.wmsTask.update).not.toHaveBeenCalled();
+        expect(mockPrisma.scanLog.create).not.toHaveBeenCalled();
+    });
+
+    test('reports a conflict when the asset moved after the first offline capture', async () => {
+        // Arrange : mouvement d'inventaire pendant la coupure
+        (mockInventoryClient.getMovements as jest.Mock).mockResolvedValue([
+            {
+                id: 'mv-2',
+                assetId: 'ASSET-001',
+                fromLocation: 'loc-A1',
+                toLocation: 'loc-B4',
+                reason: 'TRANSFER',
+                createdAt: '2026-10-19T10:02:00Z'
+            }
+        ]);
+
+        // Act
+        const result = await service.sync({
+            deviceId: 'hh-7',
+            operatorId: 'op-1',
+            events: [
+                { eventId: 'e1', type: HandheldEventType.START, taskId: 'task-1', scanCode: 'ASSET-001', capturedAt: OFFLINE_START }
+            ]
+        }, NOW);
+
+        // Assert
+        expect(mockInventoryClient.getMovements).toHaveBeenCalledWith('ASSET-001');
+        expect(result.results[0]).toMatchObject({
+            outcome: SyncOutcome.CONFLICT,
+            reason: 'ASSET_MOVED',
+            taskStatus: TaskStatus.PENDING
+        });
+        expect(mockPrisma.wmsTask.update).not.toHaveBeenCalled();
+    });
+
+    test('replays offline work when the asset was only reserved or released meanwhile', async () => {
+        // Arrange : hold posé puis libéré pendant la coupure, asset resté en loc-A1
+        (mockInventoryClient.getMovements as jest.Mock).mockResolvedValue([
+            {
+                id: 'mv-1',
+                assetId: 'ASSET-001',
+                fromLocation: null,
+                toLocation: 'loc-A1',
+                reason: 'INTAKE',
+                createdAt: '2026-10-18T09:00:00Z'
+            },
+            {
+                id: 'mv-2',
+                assetId: 'ASSET-001',
+                fromLocation: 'loc-A1',
+                toLocation: 'loc-A1',
+                reason: 'RESERVE',
+                createdAt: '2026-10-19T10:02:00Z'
+            },
+            {
+                id: 'mv-3',
+                assetId: 'ASSET-001',
+                fromLocation: 'loc-A1',
+                toLocation: 'loc-A1',
+                reason: 'RELEASE',
+                createdAt: '2026-10-19T10:20:00Z'
+            }
+        ]);
+
+        // Act
+        const result = await service.sync({
+            deviceId: 'hh-7',
+            operatorId: 'op-1',
+            events: [
+                { eventId: 'e1', type: HandheldEventType.START, taskId: 'task-1', scanCode: 'ASSET-001', capturedAt: OFFLINE_START }
+            ]
+        }, NOW);
+
+        // Assert
+        expect(result.results[0]).toMatchObject({ outcome: SyncOutcome.APPLIED, reason: null });
+        expect(mockPrisma.wmsTask.update).toHaveBeenCalled();
+    });
+
+    test('rejects an invalid offline scan and blocks the task at device time', async () => {
+        // Act
+        const result = await service.sync({
+            deviceId: 'hh-7',
+            operatorId: 'op-1',
+            events: [
+                { eventId: 'e1', type: HandheldEventType.START, taskId: 'task-1', scanCode: 'ASSET-999', capturedAt: OFFLINE_START }
+            ]
+        }, NOW);
+
+        // Assert
+        expect(result.results[0]).toMatchObject({
+            outcome: SyncOutcome.REJECTED,
+            reason: 'INVALID_SCAN',
+            taskStatus: TaskStatus.BLOCKED
+        });
+        expect(mockPrisma.scanLog.create).toHaveBeenCalledWith({
+            data: expect.objectContaining({ code: 'ASSET-999', valid: false, scannedAt: new Date(OFFLINE_START) })
+        });
+        expect(mockPrisma.taskBlock.create).toHaveBeenCalledWith({
+            data: expect.objectContaining({ blockedAt: new Date(OFFLINE_START) })
+        });
+    });
+
+    test('returns the recorded result for an already synced event without replaying it', async () => {
+        // Arrange : e1 déjà reçu lors d'une synchronisation interrompue
+        (mockPrisma.handheldSyncEvent.findMany as jest.Mock).mockResolvedValue([
+            {
+                id: 'sync-e1',
+                deviceId: 'hh-7',
+                eventId: 'e1',
+                operatorId: 'op-1',
+                taskId: 'task-1',
+                stepId: null,
+                type: HandheldEventType.START,
+                capturedAt: new Date(OFFLINE_START),
+                outcome: SyncOutcome.APPLIED,
+                reason: null,
+                syncedAt: new Date('2026-10-19T11:00:00Z')
+            }
+        ]);
+        task = { ...pendingTask, status: TaskStatus.IN_PROGRESS, operatorId: 'op-1' };
+
+        // Act
+        const result = await service.sync({
+            deviceId: 'hh-7',
+            operatorId: 'op-1',
+            events: [
+                { eventId: 'e1', type: HandheldEventType.START, taskId: 'task-1', scanCode: 'ASSET-001', capturedAt: OFFLINE_START },
+                { eventId: 'e2', type: HandheldEventType.STEP, taskId: 'task-1', stepId: 'step-2', scanCode: 'ASSET-001', capturedAt: STEP_SCANNED }
+            ]
+        }, NOW);
+
+        // Assert
+        expect(result.results.map(r => [r.eventId, r.outcome, r.duplicate])).toEqual([
+            ['e1', SyncOutcome.APPLIED, true],
+            ['e2', SyncOutcome.APPLIED, false]
+        ]);
+        expect(mockPrisma.handheldSyncEvent.create).toHaveBeenCalledTimes(1);
+        expect(mockPrisma.scanLog.create).toHaveBeenCalledTimes(1);
+    });
+
+    test('rejects a queue with a timestamp ahead of the server clock', async () => {
+        await expect(service.sync({
+            deviceId: 'hh-7',
+            operatorId: 'op-1',
+            events: [
+                { eventId: 'e1', type: HandheldEventType.START, taskId: 'task-1', scanCode: 'ASSET-001', capturedAt: '2026-10-19T13:00:00Z' }
+            ]
+        }, NOW)).rejects.toThrow(InvalidSyncRequestError);
+        expect(mockPrisma.handheldSyncEvent.create).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,147 @@
+/**
+ * Productivity Service Tests
+ * Temps de travail, standards, inactivité et KPIs
+ */
+
+import { ProductivityService } from '../services/productivity.service';
+import { PrismaClient, TaskType } from '@prisma/client';
+import { InvalidAnalyticsQueryError } from '../domain/productivity.types';
+
+// Mock PrismaClient
+const mockPrisma = {
+    wmsTask: {
+        findMany: jest.fn(),
+        count: jest.fn()
+    },
+    labourStandard: {
+        findMany: jest.fn(),
+        upsert: jest.fn()
+    }
+} as unknown as PrismaClient;
+
+const at = (time: string) => new Date(`2026-10-19T${time}:00Z`);
+
+// op-1 : deux picking (le second bloqué 5 min, 10 min d'inactivité entre les deux), un QA
+const tasks = [
+    {
+        id: 'pick-1',
+        type: TaskType.PICKING,
+        operatorId: 'op-1',
+        startedAt: at('08:00'),
+        endedAt: at('08:06'),
+        steps: [
+            { stepOrder: 1, completedAt: at('08:01') },
+            { stepOrder: 2, completedAt: at('08:04') },
+            { stepOrder: 3, completedAt: at('08:06') }
+        ],
+        scans: [{ valid: true }, { valid: true }],
+        blocks: []
+    },
+    {
+        id: 'pick-2',
+        type: TaskType.PICKING,
+        operatorId: 'op-1',
+        startedAt: at('08:16'),
+        endedAt: at('08:27'),
+        steps: [
+            { stepOrder: 1, completedAt: at('08:17') },
+            { stepOrder: 2, completedAt: at('08:25') },
+            { stepOrder: 3, completedAt: at('08:27') }
+        ],
+        scans: [{ valid: true }, { valid: false }, { valid: true }, { valid: true }],
+        blocks: [{ blockedAt: at('08:18'), resolvedAt: at('08:23') }]
+    },
+    {
+        id: 'qa-1',
+        type: TaskType.QA,
+        operatorId: 'op-1',
+        startedAt: at('08:30'),
+        endedAt: at('08:40'),
+        steps: [{ stepOrder: 1, completedAt: at('08:40') }],
+        scans: [{ valid: true }],
+        blocks: []
+    }
+];
+
+describe('ProductivityService', () => {
+    let service: ProductivityService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (mockPrisma.wmsTask.findMany as jest.Mock).mockResolvedValue(tasks);
+        (mockPrisma.wmsTask.count as jest.Mock).mockResolvedValue(2);
+        // Standards picking : 1 + 3 + 1 min par tâche
+        (mockPrisma.labourStandard.findMany as jest.Mock).mockResolvedValue([
+            { id: 's1', taskType: TaskType.PICKING, stepOrder: 1, standardSeconds: 60, updatedBy: null, updatedAt: new Date() },
+            { id: 's2', taskType: TaskType.PICKING, stepOrder: 2, standardSeconds: 180, updatedBy: null, updatedAt: new Date() },
+            { id: 's3', taskType: TaskType.PICKING, stepOrder: 3, standardSeconds: 60, updatedBy: null, updatedAt: new Date() }
+        ]);
+        service = new ProductivityService(mockPrisma);
+    });
+
+    test('rolls up working time, standards, scan errors, idle gaps and rework per operator and type', async () => {
+        const rows = await service.getProductivity({
+            from: at('00:00'),
+            to: at('23:59'),
+            granularity: 'DAY',
+            taskType: TaskType.PICKING
+        });
+
+        expect(rows).toHaveLength(1);
+        expect(rows[0]).toEqual({
+            periodStart: at('00:00'),
+            operatorId: 'op-1',
+            taskType: TaskType.PICKING,
+            tasksCompleted: 2,
+            workingMinutes: 12,             // 6 + (11 - 5 bloquées)
+            avgTaskMinutes: 6,
+            tasksPerHour: 10,
+            standardMinutes: 10,
+            performancePct: 83.3,
+            scans: 6,
+            invalidScans: 1,
+            scanErrorRate: 16.7,
+            idleGaps: 1,
+            idleMinutes: 10,
+            reworkTasks: 1,
+            reworkRate: 50
+        });
+    });
+
+    test('step time excludes blocked time and is compared to the standard', async () => {
+        const steps = await service.getStepPerformance(at('00:00'), at('23:59'), TaskType.PICKING);
+
+        // Étape 2 : 3 min (pick-1) et 8 - 5 = 3 min (pick-2)
+        expect(steps.find(s => s.stepOrder === 2)).toEqual({
+            taskType: TaskType.PICKING,
+            stepOrder: 2,
+            samples: 2,
+            avgSeconds: 180,
+            standardSeconds: 180,
+            performancePct: 100
+        });
+    });
+
+    test('kpi snapshot reports effective task time over a sliding window', async () => {
+        const snapshot = await service.getKpiSnapshot('DAILY', at('23:00'));
+
+        expect(mockPrisma.wmsTask.findMany).toHaveBeenCalledWith(expect.objectContaining({
+            where: expect.objectContaining({ endedAt: { gte: new Date('2026-10-18T23:00:00Z'), lt: at('23:00') } })
+        }));
+        expect(snapshot.tasksCompleted).toBe(3);
+        expect(snapshot.avgTaskTime).toBe(7);          // (6 + 6 + 10) / 3
+        expect(snapshot.blockedTasks).toBe(2);
+        expect(snapshot.qaReworkRate).toBe(0);
+        expect(snapshot.scanErrorRate).toBe(14.3);
+    });
+
+    test('rejects ranges longer than the analytics limit', async () => {
+        await expect(service.getProductivity({
+            from: new Date('2026-01-01T00:00:00Z'),
+            to: new Date('2026-10-01T00:00:00Z'),
+            granularity: 'WEEK'
+        })).rejects.toThrow(InvalidAnalyticsQueryError);
+
+        expect(mockPrisma.wmsTask.findMany).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,384 @@
+/**
+ * Return Dock Service Tests
+ * Réception contre RMA et destination des retours
+ */
+
+import { ReturnDockService } from '../services/returnDock.service';
+import { InventoryServiceClient, InventoryServiceError } from '../integrations/inventory.client';
+import { AssetServiceClient } from '../integrations/asset.client';
+import { SavServiceClient } from '../integrations/sav.client';
+import {
+    PrismaClient,
+    ReturnStatus,
+    ReturnCondition,
+    ReturnDisposition,
+    TaskStatus,
+    TaskType,
+    TaskPriority
+} from '@prisma/client';
+import {
+    ReturnSerialMismatchError,
+    RmaAlreadyReceivedError,
+    ReturnDispositionError,
+    InvalidReturnRequestError,
+    DisposeReturnDto
+} from '../domain/return.types';
+
+// Mock PrismaClient ($transaction exécute le callback avec le même mock)
+const mockPrisma = {
+    return: {
+        create: jest.fn(),
+        findUnique: jest.fn(),
+        update: jest.fn()
+    },
+    wmsTask: {
+        create: jest.fn(),
+        findUnique: jest.fn()
+    },
+    taskStepTemplate: {
+        findMany: jest.fn()
+    },
+    $executeRawUnsafe: jest.fn(),
+    $transaction: jest.fn()
+} as unknown as PrismaClient;
+
+const mockInventoryClient: InventoryServiceClient = {
+    getReservation: jest.fn(),
+    getPosition: jest.fn(),
+    moveAsset: jest.fn(),
+    getMovements: jest.fn()
+};
+
+const mockAssetClient: AssetServiceClient = {
+    getAsset: jest.fn(),
+    changeStatus: jest.fn()
+};
+
+const mockSavClient: SavServiceClient = {
+    getRma: jest.fn(),
+    receiveRma: jest.fn()
+};
+
+jest.spyOn(console, 'log').mockImplementation(() => { });
+
+const receivedReturn = {
+    id: 'ret-1',
+    assetId: 'asset-1',
+    reason: 'RMA rma-1',
+    status: ReturnStatus.RECEIVED,
+    rmaId: 'rma-1',
+    serialNumber: 'SN-12345',
+    condition: ReturnCondition.USED,
+    conditionNotes: null,
+    photoUrls: [],
+    receivedBy: 'op-1',
+    receivedAt: new Date(),
+    qaTaskId: 'task-qa-1',
+    disposition: null,
+    dispositionNote: null,
+    supplierRef: null,
+    disposedBy: null,
+    disposedAt: null,
+    createdAt: new Date()
+};
+
+describe('ReturnDockService', () => {
+    let service: ReturnDockService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (mockPrisma.$transaction as jest.Mock).mockImplementation(
+            async (callback: (tx: PrismaClient) => Promise<unknown>) => callback(mockPrisma)
+        );
+        (mockPrisma.taskStepTemplate.findMany as jest.Mock).mockResolvedValue([]);
+        (mockPrisma.return.create as jest.Mock).mockImplementation(async ({ data }) => ({
+            id: 'ret-1',
+            createdAt: new Date(),
+            ...data
+        }));
+        (mockPrisma.wmsTask.create as jest.Mock).mockImplementation(async ({ data }) => ({
+            id: 'task-qa-1',
+            ...data,
+            createdAt: new Date()
+        }));
+        (mockSavClient.getRma as jest.Mock).mockResolvedValue({
+            id: 'rma-1',
+            assetId: 'asset-1',
+            ticketId: 'ticket-1',
+            status: 'CREATED',
+            createdAt: '2026-10-01T00:00:00Z'
+        });
+        (mockAssetClient.getAsset as jest.Mock).mockResolvedValue({
+            id: 'asset-1',
+            serialNumber: 'SN-12345',
+            assetType: 'SERVER',
+            status: 'RMA'
+        });
+        service = new ReturnDockService(mockPrisma, mockInventoryClient, mockAssetClient, mockSavClient);
+    });
+
+    describe('receive', () => {
+        test('receives against the RMA and opens an inbound QA task', async () => {
+            // Arrange : RMA pas encore reçu au quai
+            (mockPrisma.return.findUnique as jest.Mock).mockResolvedValue(null);
+
+            // Act
+            const ret = await service.receive({
+                rmaId: 'rma-1',
+                scannedSerial: ' sn-12345 ',
+                condition: ReturnCondition.DAMAGED,
+                photoUrls: ['https://files/rma-1/front.jpg'],
+                receivedBy: 'op-1'
+            });
+
+            // Assert
+            expect(mockSavClient.receiveRma).toHaveBeenCalledWith('rma-1');
+            expect(mockPrisma.wmsTask.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    assetId: 'asset-1',
+                    type: TaskType.QA,
+                    priority: TaskPriority.HIGH,
+                    zone: 'RETURNS'
+                })
+            });
+            expect(ret.rmaId).toBe('rma-1');
+            expect(ret.qaTaskId).toBe('task-qa-1');
+            expect(ret.serialNumber).toBe('SN-12345');
+            expect(console.log).toHaveBeenCalledWith(
+                expect.stringContaining('"message":"ReturnReceived"')
+            );
+        });
+
+        test('rejects a serial that does not match the RMA asset', async () => {
+            (mockPrisma.return.findUnique as jest.Mock).mockResolvedValue(null);
+
+            await expect(service.receive({
+                rmaId: 'rma-1',
+                scannedSerial: 'SN-99999',
+                condition: ReturnCondition.USED,
+                receivedBy: 'op-1'
+            })).rejects.toThrow(ReturnSerialMismatchError);
+
+            expect(mockSavClient.receiveRma).not.toHaveBeenCalled();
+            expect(mockPrisma.wmsTask.create).not.toHaveBeenCalled();
+            expect(mockPrisma.return.create).not.toHaveBeenCalled();
+        });
+
+        test('refuses to receive the same RMA twice', async () => {
+            (mockPrisma.return.findUnique as jest.Mock).mockResolvedValue(receivedReturn);
+
+            await expect(service.receive({
+                rmaId: 'rma-1',
+                scannedSerial: 'SN-12345',
+                condition: ReturnCondition.USED,
+                receivedBy: 'op-1'
+            })).rejects.toThrow(RmaAlreadyReceivedError);
+
+            expect(mockSavClient.getRma).not.toHaveBeenCalled();
+        });
+
+        test('resumes a reception interrupted after the SAV call', async () => {
+            // Arrange - 1re tentative : RMA reçu côté SAV, tâche QA refusée
+            (mockPrisma.return.findUnique as jest.Mock).mockResolvedValue(null);
+            (mockPrisma.wmsTask.create as jest.Mock).mockRejectedValueOnce(new Error('connection lost'));
+            const dto = {
+                rmaId: 'rma-1',
+                scannedSerial: 'SN-12345',
+                condition: ReturnCondition.USED,
+                receivedBy: 'op-1'
+            };
+            await expect(service.receive(dto)).rejects.toThrow('connection lost');
+            expect(mockPrisma.return.create).not.toHaveBeenCalled();
+
+            // Act - reprise : le RMA est RECEIVED, aucun Return au quai
+            (mockSavClient.getRma as jest.Mock).mockResolvedValue({
+                id: 'rma-1',
+                assetId: 'asset-1',
+                ticketId: 'ticket-1',
+                status: 'RECEIVED',
+                createdAt: '2026-10-01T00:00:00Z'
+            });
+            const ret = await service.receive(dto);
+
+            // Assert
+            expect(mockSavClient.receiveRma).toHaveBeenCalledTimes(1);
+            expect(ret.qaTaskId).toBe('task-qa-1');
+            expect(ret.status).toBe(ReturnStatus.RECEIVED);
+        });
+
+        test('refuses an RMA already past reception at the SAV', async () => {
+            (mockPrisma.return.findUnique as jest.Mock).mockResolvedValue(null);
+            (mockSavClient.getRma as jest.Mock).mockResolvedValue({
+                id: 'rma-1',
+                assetId: 'asset-1',
+                ticketId: 'ticket-1',
+                status: 'DIAGNOSED',
+                createdAt: '2026-10-01T00:00:00Z'
+            });
+
+            await expect(service.receive({
+                rmaId: 'rma-1',
+                scannedSerial: 'SN-12345',
+                condition: ReturnCondition.USED,
+                receivedBy: 'op-1'
+            })).rejects.toThrow(RmaAlreadyReceivedError);
+
+            expect(mockPrisma.wmsTask.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('dispose', () => {
+        beforeEach(() => {
+            (mockPrisma.return.findUnique as jest.Mock).mockResolvedValue(receivedReturn);
+            (mockPrisma.return.update as jest.Mock).mockImplementation(async ({ data }) => ({
+                ...receivedReturn,
+                ...data
+            }));
+            (mockPrisma.wmsTask.findUnique as jest.Mock).mockResolvedValue({
+                id: 'task-qa-1',
+                assetId: 'asset-1',
+                type: TaskType.QA,
+                status: TaskStatus.COMPLETED,
+                createdAt: new Date()
+            });
+            (mockInventoryClient.getPosition as jest.Mock).mockResolvedValue({
+                assetId: 'asset-1',
+                locationId: 'loc-returns-dock'
+            });
+        });
+
+        test('refurb moves the asset to the refurb area after QA', async () => {
+            // Act
+            const ret = await service.dispose('ret-1', {
+                disposition: ReturnDisposition.REFURB,
+                decidedBy: 'sup-1',
+                toLocation: 'loc-refurb-1',
+                note: 'écran rayé'
+            });
+
+            // Assert
+            expect(mockAssetClient.changeStatus).toHaveBeenCalledWith(
+                'asset-1', 'IN_REFURB', 'Return REFURB: écran rayé', 'RMA_REPAIR', undefined
+            );
+            expect(mockInventoryClient.moveAsset).toHaveBeenCalledWith('asset-1', 'loc-refurb-1', 'MOVE');
+            expect(ret.status).toBe(ReturnStatus.DISPOSED);
+            expect(ret.disposition).toBe(ReturnDisposition.REFURB);
+            expect(console.log).toHaveBeenCalledWith(
+                expect.stringContaining('"message":"ReturnDisposed"')
+            );
+        });
+
+        test('restock sends the data wipe certificate required by RMA → SELLABLE', async () => {
+            // Act
+            await service.dispose('ret-1', {
+                disposition: ReturnDisposition.RESTOCK,
+                decidedBy: 'sup-1',
+                toLocation: 'loc-stock-1',
+                dataWipeCertificateRef: ' WIPE-2026-0042 '
+            });
+
+            // Assert
+            expect(mockAssetClient.changeStatus).toHaveBeenCalledWith(
+                'asset-1', 'SELLABLE', 'Return RESTOCK', undefined, 'WIPE-2026-0042'
+            );
+        });
+
+        test('refuses to restock without a data wipe certificate', async () => {
+            await expect(service.dispose('ret-1', {
+                disposition: ReturnDisposition.RESTOCK,
+                decidedBy: 'sup-1',
+                toLocation: 'loc-stock-1'
+            })).rejects.toThrow(InvalidReturnRequestError);
+
+            expect(mockAssetClient.changeStatus).not.toHaveBeenCalled();
+            expect(mockInventoryClient.moveAsset).not.toHaveBeenCalled();
+        });
+
+        test('requires a destination location id', async () => {
+            await expect(service.dispose('ret-1', {
+                disposition: ReturnDisposition.SCRAP,
+                decidedBy: 'sup-1'
+            } as DisposeReturnDto)).rejects.toThrow('toLocation (Inventory location id) is required');
+
+            expect(mockAssetClient.changeStatus).not.toHaveBeenCalled();
+        });
+
+        test('resumes a scrap whose inventory move failed without a second transition', async () => {
+            // Arrange - 1re tentative : asset SCRAPPED, mouvement refusé
+            (mockInventoryClient.moveAsset as jest.Mock).mockRejectedValueOnce(
+                new InventoryServiceError(503, 'unavailable')
+            );
+            const decision: DisposeReturnDto = {
+                disposition: ReturnDisposition.SCRAP,
+                decidedBy: 'sup-1',
+                toLocation: 'loc-scrap-cage',
+                scrapReasonCode: 'DAMAGED'
+            };
+            await expect(service.dispose('ret-1', decision)).rejects.toThrow(InventoryServiceError);
+            expect(mockPrisma.return.update).not.toHaveBeenCalled();
+
+            // Act - reprise : l'asset est déjà SCRAPPED
+            (mockAssetClient.getAsset as jest.Mock).mockResolvedValue({ id: 'asset-1', status: 'SCRAPPED' });
+            const ret = await service.dispose('ret-1', decision);
+
+            // Assert
+            expect(mockAssetClient.changeStatus).toHaveBeenCalledTimes(1);
+            expect(mockInventoryClient.moveAsset).toHaveBeenCalledTimes(2);
+            expect(mockInventoryClient.moveAsset).toHaveBeenLastCalledWith('asset-1', 'loc-scrap-cage', 'MOVE');
+            expect(ret.status).toBe(ReturnStatus.DISPOSED);
+        });
+
+        test('does not move again an asset already at its destination', async () => {
+            // Arrange - mouvement fait, enregistrement du retour échoué précédemment
+            (mockInventoryClient.getPosition as jest.Mock).mockResolvedValue({
+                assetId: 'asset-1',
+                locationId: 'loc-ship-1'
+            });
+
+            // Act
+            await service.dispose('ret-1', {
+                disposition: ReturnDisposition.RETURN_TO_SUPPLIER,
+                decidedBy: 'sup-1',
+                toLocation: 'loc-ship-1',
+                supplierRef: 'SUP-RMA-77'
+            });
+
+            // Assert
+            expect(mockInventoryClient.moveAsset).not.toHaveBeenCalled();
+            expect(mockAssetClient.changeStatus).not.toHaveBeenCalled();
+        });
+
+        test('refuses to decide when the QA task record is missing', async () => {
+            (mockPrisma.wmsTask.findUnique as jest.Mock).mockResolvedValue(null);
+
+            await expect(service.dispose('ret-1', {
+                disposition: ReturnDisposition.REFURB,
+                decidedBy: 'sup-1',
+                toLocation: 'loc-refurb-1'
+            })).rejects.toThrow('QA task task-qa-1 not found');
+
+            expect(mockAssetClient.changeStatus).not.toHaveBeenCalled();
+            expect(mockInventoryClient.moveAsset).not.toHaveBeenCalled();
+        });
+
+        test('waits for the QA task before deciding', async () => {
+            (mockPrisma.wmsTask.findUnique as jest.Mock).mockResolvedValue({
+                id: 'task-qa-1',
+                assetId: 'asset-1',
+                type: TaskType.QA,
+                status: TaskStatus.IN_PROGRESS,
+                createdAt: new Date()
+            });
+
+            await expect(service.dispose('ret-1', {
+                disposition: ReturnDisposition.RESTOCK,
+                decidedBy: 'sup-1',
+                toLocation: 'loc-stock-1',
+                dataWipeCertificateRef: 'WIPE-2026-0042'
+            })).rejects.toThrow(ReturnDispositionError);
+
+            expect(mockAssetClient.changeStatus).not.toHaveBeenCalled();
+            expect(mockInventoryClient.moveAsset).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,71 @@
+/**
+ * Step Template Service Tests
+ * Versionnement et validation des templates d'étapes
+ */
+
+import { StepTemplateService } from '../services/stepTemplate.service';
+import { TaskType, StepInputType, PrismaClient } from '@prisma/client';
+import { InvalidStepTemplateError } from '../domain/stepTemplate.types';
+
+// Mock PrismaClient
+const mockPrisma = {
+    taskStepTemplate: {
+        create: jest.fn(),
+        findFirst: jest.fn(),
+        findUnique: jest.fn(),
+        findMany: jest.fn()
+    }
+} as unknown as PrismaClient;
+
+describe('StepTemplateService', () => {
+    let service: StepTemplateService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (mockPrisma.taskStepTemplate.create as jest.Mock).mockImplementation(async ({ data }) => ({
+            id: 'tpl-2',
+            ...data,
+            createdAt: new Date(),
+            steps: data.steps.create.map((step: object, index: number) => ({ id: `s${index}`, templateId: 'tpl-2', ...step }))
+        }));
+        service = new StepTemplateService(mockPrisma);
+    });
+
+    test('editing a template creates the next version of the same scope', async () => {
+        // Arrange : v1 existe pour (QA, SERVER, client acme, LABELING)
+        (mockPrisma.taskStepTemplate.findFirst as jest.Mock).mockResolvedValue({ version: 1 });
+
+        // Act
+        const template = await service.createVersion({
+            taskType: TaskType.QA,
+            assetType: 'server',
+            customerId: 'acme',
+            option: ' labeling ',
+            steps: [{ stepOrder: 1, description: 'Poser étiquette', scanRequired: false }]
+        });
+
+        // Assert
+        expect(mockPrisma.taskStepTemplate.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+            where: { taskType: TaskType.QA, scopeKey: 'SERVER|acme|LABELING' }
+        }));
+        expect(template.version).toBe(2);
+        expect(template.option).toBe('LABELING');
+    });
+
+    test('rejects bounds on a non-numeric input and gaps in step order', async () => {
+        await expect(service.createVersion({
+            taskType: TaskType.QA,
+            steps: [{ stepOrder: 1, description: 'Photo', inputType: StepInputType.TEXT, minValue: 1 }]
+        })).rejects.toThrow(InvalidStepTemplateError);
+
+        await expect(service.createVersion({
+            taskType: TaskType.QA,
+            steps: [
+                { stepOrder: 1, description: 'Scan' },
+                { stepOrder: 3, description: 'Checklist', scanRequired: false }
+            ]
+        })).rejects.toThrow(InvalidStepTemplateError);
+
+        expect(mockPrisma.taskStepTemplate.create).not.toHaveBeenCalled();
+    });
+});
@@ -13,14 +13,26 @@
 import { TaskService } from '../services/task.service';
 import { TaskRepository } from '../repositories/task.repository';
 import { OperatorRepository } from '../repositories/operator.repository';
-import { TaskType, TaskStatus, PrismaClient } from '@prisma/client';
+import {
+    TaskType,
+    TaskStatus,
+    TaskPriority,
+    TaskBlockCause,
+    BlockResolutionCode,
+    StepInputType,
+    PrismaClient
+} from '@prisma/client';
 import {
     InvalidScanError,
     TaskNotPendingError,
     OperatorBusyError,
     IncompleteStepsError,
-    OperatorNotFoundError
+    OperatorNotFoundError,
+    OperatorNotQualifiedError,
+    InvalidStepInputError
 } from '../domain/task.types';
+import { InvalidBlockResolutionError, ResolutionNotAuthorizedError } from '../domain/taskBlock.types';
+import { GovernanceServiceClient, GovernanceServiceError } from '../integrations/governance.client';
 
 // Mock PrismaClient
 const mockPrisma = {
@@ -28,12 +40,14 @@ const mockPrisma = {
         create: jest.fn(),
         findUnique: jest.fn(),
         findFirst: jest.fn(),
+        findMany: jest.fn(),
         update: jest.fn()
     },
     taskStep: {
         findMany: jest.fn(),
         findUnique: jest.fn(),
         update: jest.fn(),
+        updateMany: jest.fn(),
         count: jest.fn()
     },
     scanLog: {
@@ -42,9 +56,25 @@ const mockPrisma = {
     operator: {
         findUnique: jest.fn(),
         count: jest.fn()
-    }
+    },
+    taskStepTemplate: {
+        findMany: jest.fn()
+    },
+    taskBlock: {
+        create: jest.fn(),
+        findFirst: jest.fn(),
+        findUnique: jest.fn(),
+        findMany: jest.fn(),
+        updateMany: jest.fn()
+    },
+    $executeRawUnsafe: jest.fn(),
+    $transaction: jest.fn()
 } as unknown as PrismaClient;
 
+const mockGovernance: GovernanceServiceClient = {
+    recordDecision: jest.fn()
+};
+
 // Mock console.log pour les événements
 jest.spyOn(console, 'log').mockImplementation(() => { });
 
@@ -55,14 +85,22 @@ describe('TaskService', () => {
         id: 'operator-1',
         name: 'John Doe',
         badge: 'BADGE-001',
+        skills: [TaskType.PICKING, TaskType.ASSEMBLY, TaskType.QA, TaskType.SHIPPING],
+        certifications: [],
+        homeZone: null,
         createdAt: new Date()
     };
 
     const mockTask = {
         id: 'task-1',
         assetId: 'ASSET-QR-001',
+        orderId: null,
         type: TaskType.PICKING,
         status: TaskStatus.PENDING,
+        priority: TaskPriority.NORMAL,
+        dueBy: null,
+        zone: null,
+        requiredCertification: null,
         operatorId: null,
         createdAt: new Date(),
         startedAt: null,
@@ -81,9 +119,32 @@ describe('TaskService', () => {
         { id: 'step-2', taskId: 'task-1', stepOrder: 2, description: 'Confirmation', scanRequired: false, expectedCode: null, scannedCode: null, completed: false, completedAt: null }
     ];
 
+    const mockBlock = {
+        id: 'block-1',
+        taskId: 'task-1',
+        cause: TaskBlockCause.INVALID_STEP_SCAN,
+        detail: 'Invalid scan at step 1',
+        stepId: 'step-1',
+        previousStatus: TaskStatus.IN_PROGRESS,
+        operatorId: 'operator-1',
+        blockedAt: new Date(),
+        resolutionCode: null,
+        resolutionNote: null,
+        resolvedBy: null,
+        decisionId: null,
+        resumedStatus: null,
+        resumedOperatorId: null,
+        resolvedAt: null
+    };
+
     beforeEach(() => {
         jest.clearAllMocks();
-        service = new TaskService(mockPrisma);
+        (mockPrisma.taskBlock.create as jest.Mock).mockImplementation(async ({ data }) => ({ ...mockBlock, ...data }));
+        (mockPrisma.taskStepTemplate.findMany as jest.Mock).mockResolvedValue([]);
+        (mockPrisma.$transaction as jest.Mock).mockImplementation(
+            async (callback: (tx: PrismaClient) => Promise<unknown>) => callback(mockPrisma)
+        );
+        service = new TaskService(mockPrisma, undefined, undefined, mockGovernance);
     });
 
     // ========== TEST 1 ==========
@@ -251,6 +312,35 @@ describe('TaskService', () => {
             );
         });
 
+        test('publishes TaskStarted to the outbox in the start transaction', async () => {
+            // Arrange
+            const startedTask = { ...mockTask, status: TaskStatus.IN_PROGRESS, operatorId: 'operator-1', startedAt: new Date() };
+            (mockPrisma.wmsTask.findUnique as jest.Mock).mockResolvedValue(mockTask);
+            (mockPrisma.operator.findUnique as jest.Mock).mockResolvedValue(mockOperator);
+            (mockPrisma.wmsTask.findFirst as jest.Mock).mockResolvedValue(null);
+            (mockPrisma.scanLog.create as jest.Mock).mockResolvedValue({});
+            (mockPrisma.wmsTask.update as jest.Mock).mockResolvedValue(startedTask);
+
+            // Act
+            await service.startTask('task-1', { operatorId: 'operator-1', scanCode: 'ASSET-QR-001' });
+
+            // Assert
+            expect(mockPrisma.$transaction).toHaveBeenCalled();
+            expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
+                expect.stringContaining('INSERT INTO "outbox_events"'),
+                expect.any(String),
+                'TaskStarted',
+                1,
+                'wms-service',
+                'Task',
+                'task-1',
+                expect.any(String),
+                expect.any(String),
+                null,
+                JSON.stringify({ taskId: 'task-1', assetId: 'ASSET-QR-001', type: TaskType.PICKING, operatorId: 'operator-1' })
+            );
+        });
+
         test('emits TaskCompleted event on completion', async () => {
             // Arrange
             const completedTask = { ...mockTaskInProgress, status: TaskStatus.COMPLETED, endedAt: new Date() };
@@ -288,4 +378,369 @@ describe('TaskService', () => {
             );
         });
     });
+
+    // ========== ORDER LINK ==========
+    describe('should_link_tasks_to_order', () => {
+        test('stores orderId on task creation', async () => {
+            // Arrange
+            (mockPrisma.wmsTask.create as jest.Mock).mockResolvedValue({ ...mockTask, orderId: 'order-1' });
+
+            // Act
+            const task = await service.createTask('ASSET-QR-001', TaskType.PICKING, 'order-1');
+
+            // Assert
+            expect(mockPrisma.wmsTask.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({ assetId: 'ASSET-QR-001', orderId: 'order-1' })
+                })
+            );
+            expect(task.orderId).toBe('order-1');
+        });
+
+        test('lists tasks of an order', async () => {
+            // Arrange
+            (mockPrisma.wmsTask.findMany as jest.Mock).mockResolvedValue([{ ...mockTask, orderId: 'order-1' }]);
+
+            // Act
+            const tasks = await service.listTasks({ orderId: 'order-1' });
+
+            // Assert
+            expect(mockPrisma.wmsTask.findMany).toHaveBeenCalledWith({
+                where: { orderId: 'order-1' },
+                orderBy: { createdAt: 'asc' }
+            });
+            expect(tasks).toHaveLength(1);
+            expect(tasks[0]?.orderId).toBe('order-1');
+        });
+    });
+
+    // ========== DISPATCH ==========
+    describe('should_dispatch_by_skill_zone_and_priority', () => {
+        const NOW = new Date('2026-10-19T08:00:00.000Z');
+        const hoursFromNow = (hours: number) => new Date(NOW.getTime() + hours * 3600000);
+
+        const picker = {
+            ...mockOperator,
+            skills: [TaskType.PICKING],
+            certifications: ['ESD'],
+            homeZone: 'A'
+        };
+
+        beforeEach(() => {
+            (mockPrisma.operator.findUnique as jest.Mock).mockResolvedValue(picker);
+            (mockPrisma.wmsTask.findFirst as jest.Mock).mockResolvedValue(null);
+        });
+
+        test('only loads tasks matching operator skills and certifications', async () => {
+            // Arrange
+            (mockPrisma.wmsTask.findMany as jest.Mock).mockResolvedValue([]);
+
+            // Act
+            const task = await service.getNextTask('operator-1', NOW);
+
+            // Assert
+            expect(task).toBeNull();
+            expect(mockPrisma.wmsTask.findMany).toHaveBeenCalledWith(expect.objectContaining({
+                where: {
+                    status: TaskStatus.PENDING,
+                    type: { in: [TaskType.PICKING] },
+                    batchId: null,
+                    OR: [
+                        { requiredCertification: null },
+                        { requiredCertification: { in: ['ESD'] } }
+                    ]
+                }
+            }));
+        });
+
+        test('picks the closest due date over an older task', async () => {
+            // Arrange - la tâche ancienne n'a pas d'échéance, la récente doit partir dans 3h
+            (mockPrisma.wmsTask.findMany as jest.Mock).mockResolvedValue([
+                { ...mockTask, id: 'task-old', createdAt: hoursFromNow(-48) },
+                { ...mockTask, id: 'task-due', dueBy: hoursFromNow(3), createdAt: hoursFromNow(-1) }
+            ]);
+
+            // Act
+            const task = await service.getNextTask('operator-1', NOW);
+
+            // Assert - priorité effective URGENT malgré la priorité enregistrée NORMAL
+            expect(task?.id).toBe('task-due');
+        });
+
+        test('prefers home zone at equal priority', async () => {
+            // Arrange
+            (mockPrisma.wmsTask.findMany as jest.Mock).mockResolvedValue([
+                { ...mockTask, id: 'task-zone-b', zone: 'B', dueBy: hoursFromNow(30), createdAt: hoursFromNow(-5) },
+                { ...mockTask, id: 'task-zone-a', zone: 'A', dueBy: hoursFromNow(40), createdAt: hoursFromNow(-1) }
+            ]);
+
+            // Act
+            const queue = await service.getQueue('operator-1', 50, NOW);
+
+            // Assert
+            expect(queue.map(entry => entry.task.id)).toEqual(['task-zone-a', 'task-zone-b']);
+            expect(queue[0]).toEqual(expect.objectContaining({ position: 1, inHomeZone: true, overdue: false }));
+        });
+
+        test('derives due date and priority from the promised date', async () => {
+            // Arrange
+            (mockPrisma.wmsTask.create as jest.Mock).mockImplementation(async ({ data }) => ({ ...mockTask, ...data }));
+
+            // Act - expédition promise dans 30h, picking = 24h de délai aval
+            const task = await service.createTask('ASSET-QR-001', TaskType.PICKING, 'order-1', {
+                promisedDate: hoursFromNow(30)
+            }, NOW);
+
+            // Assert
+            expect(task.dueBy).toEqual(hoursFromNow(6));
+            expect(task.priority).toBe(TaskPriority.HIGH);
+        });
+
+        test('refuses to start a task without the required skill', async () => {
+            // Arrange
+            (mockPrisma.wmsTask.findUnique as jest.Mock).mockResolvedValue({ ...mockTask, type: TaskType.QA });
+
+            // Act & Assert
+            await expect(
+                service.startTask('task-1', { operatorId: 'operator-1', scanCode: 'ASSET-QR-001' })
+            ).rejects.toThrow(OperatorNotQualifiedError);
+            expect(mockPrisma.wmsTask.update).not.toHaveBeenCalled();
+        });
+    });
+
+    // ========== BLOCKED TASKS ==========
+    describe('should_resolve_blocked_tasks', () => {
+        const mockBlockedTask = { ...mockTaskInProgress, status: TaskStatus.BLOCKED };
+
+        beforeEach(() => {
+            (mockPrisma.wmsTask.findUnique as jest.Mock).mockResolvedValue(mockBlockedTask);
+            (mockPrisma.taskBlock.findFirst as jest.Mock).mockResolvedValue(mockBlock);
+            (mockPrisma.taskBlock.findUnique as jest.Mock).mockResolvedValue(mockBlock);
+            (mockPrisma.taskBlock.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+            (mockPrisma.wmsTask.findFirst as jest.Mock).mockResolvedValue(null);
+            (mockPrisma.wmsTask.update as jest.Mock).mockImplementation(async ({ data }) => ({ ...mockBlockedTask, ...data }));
+            (mockGovernance.recordDecision as jest.Mock).mockResolvedValue({ id: 'decision-1' });
+        });
+
+        test('records the cause when a task is blocked', async () => {
+            // Arrange
+            (mockPrisma.operator.findUnique as jest.Mock).mockResolvedValue(mockOperator);
+            (mockPrisma.wmsTask.findUnique as jest.Mock).mockResolvedValue(mockTask);
+            (mockPrisma.scanLog.create as jest.Mock).mockResolvedValue({});
+
+            // Act
+            await expect(
+                service.startTask('task-1', { operatorId: 'operator-1', scanCode: 'WRONG' })
+            ).rejects.toThrow(InvalidScanError);
+
+            // Assert
+            expect(mockPrisma.taskBlock.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    taskId: 'task-1',
+                    cause: TaskBlockCause.INVALID_START_SCAN,
+                    previousStatus: TaskStatus.PENDING,
+                    operatorId: 'operator-1'
+                })
+            });
+        });
+
+        test('returns task to the queue with steps reset and decision logged', async () => {
+            // Act
+            const result = await service.resolveBlock('task-1', {
+                supervisorId: 'supervisor-1',
+                reasonCode: BlockResolutionCode.LABEL_REPRINTED,
+                resumeStatus: TaskStatus.PENDING
+            });
+
+            // Assert
+            expect(mockGovernance.recordDecision).toHaveBeenCalledWith(expect.objectContaining({
+                actorId: 'supervisor-1',
+                action: 'RESOLVE_BLOCKED_TASK',
+                entityId: 'task-1'
+            }));
+            expect(mockPrisma.taskBlock.updateMany).toHaveBeenCalledWith({
+                where: { id: 'block-1', resolvedAt: null },
+                data: expect.objectContaining({ decisionId: 'decision-1', resolutionCode: BlockResolutionCode.LABEL_REPRINTED })
+            });
+            expect(mockPrisma.taskStep.updateMany).toHaveBeenCalledWith({
+                where: { taskId: 'task-1' },
+                data: { completed: false, scannedCode: null, measuredValue: null, completedAt: null }
+            });
+            expect(result.status).toBe(TaskStatus.PENDING);
+            expect(result.operatorId).toBeNull();
+            expect(console.log).toHaveBeenCalledWith(
+                expect.stringContaining('"message":"TaskUnblocked"')
+            );
+        });
+
+        test('reassigns an in-progress task to another qualified operator', async () => {
+            // Arrange
+            (mockPrisma.operator.findUnique as jest.Mock).mockResolvedValue({ ...mockOperator, id: 'operator-2' });
+
+            // Act
+            const result = await service.resolveBlock('task-1', {
+                supervisorId: 'supervisor-1',
+                reasonCode: BlockResolutionCode.OPERATOR_ERROR,
+                resumeStatus: TaskStatus.IN_PROGRESS,
+                reassignToOperatorId: 'operator-2'
+            });
+
+            // Assert - reprise sans remise à zéro des étapes
+            expect(result.status).toBe(TaskStatus.IN_PROGRESS);
+            expect(result.operatorId).toBe('operator-2');
+            expect(mockPrisma.taskStep.updateMany).not.toHaveBeenCalled();
+        });
+
+        test('changes nothing when governance denies the supervisor', async () => {
+            // Arrange
+            (mockGovernance.recordDecision as jest.Mock).mockRejectedValue(new GovernanceServiceError(403, 'Permission denied'));
+
+            // Act & Assert
+            await expect(service.resolveBlock('task-1', {
+                supervisorId: 'operator-1',
+                reasonCode: BlockResolutionCode.LABEL_REPRINTED,
+                resumeStatus: TaskStatus.PENDING
+            })).rejects.toThrow(ResolutionNotAuthorizedError);
+            expect(mockPrisma.taskBlock.updateMany).not.toHaveBeenCalled();
+            expect(mockPrisma.wmsTask.update).not.toHaveBeenCalled();
+        });
+
+        test('requires a note for reason code OTHER', async () => {
+            await expect(service.resolveBlock('task-1', {
+                supervisorId: 'supervisor-1',
+                reasonCode: BlockResolutionCode.OTHER,
+                resumeStatus: TaskStatus.PENDING
+            })).rejects.toThrow(InvalidBlockResolutionError);
+            expect(mockGovernance.recordDecision).not.toHaveBeenCalled();
+        });
+
+        test('lists blocked tasks with age and cause', async () => {
+            // Arrange
+            const now = new Date('2026-10-19T12:00:00.000Z');
+            (mockPrisma.taskBlock.findMany as jest.Mock).mockResolvedValue([
+                { ...mockBlock, blockedAt: new Date('2026-10-19T10:30:00.000Z'), task: mockBlockedTask }
+            ]);
+
+            // Act
+            const dashboard = await service.getBlockedTasksDashboard(now);
+
+            // Assert
+            expect(dashboard.total).toBe(1);
+            expect(dashboard.oldestAgeMinutes).toBe(90);
+            expect(dashboard.byCause.INVALID_STEP_SCAN).toBe(1);
+            expect(dashboard.tasks[0]).toEqual(expect.objectContaining({ taskId: 'task-1', ageMinutes: 90 }));
+        });
+    });
+
+    // ========== STEP TEMPLATES ==========
+    describe('should_instantiate_step_templates', () => {
+        const templateStep = (templateId: string, stepOrder: number, description: string, extra = {}) => ({
+            id: `${templateId}-s${stepOrder}`,
+            templateId,
+            stepOrder,
+            description,
+            scanRequired: false,
+            expectAssetScan: false,
+            expectedCode: null,
+            inputType: StepInputType.NONE,
+            unit: null,
+            minValue: null,
+            maxValue: null,
+            onlyIfOption: null,
+            unlessOption: null,
+            ...extra
+        });
+        const template = (id: string, scope: { assetType?: string; customerId?: string; option?: string }, steps: unknown[]) => ({
+            id,
+            taskType: TaskType.QA,
+            assetType: scope.assetType ?? null,
+            customerId: scope.customerId ?? null,
+            option: scope.option ?? null,
+            scopeKey: `${scope.assetType ?? '*'}|${scope.customerId ?? '*'}|${scope.option ?? '*'}`,
+            version: 1,
+            createdBy: null,
+            createdAt: new Date(),
+            steps
+        });
+
+        test('uses the most specific base template, its conditional steps and option add-ons', async () => {
+            // Arrange : base SERVER générique, base SERVER du client, add-on LABELING
+            (mockPrisma.taskStepTemplate.findMany as jest.Mock).mockResolvedValue([
+                template('tpl-server', { assetType: 'SERVER' }, [templateStep('tpl-server', 1, 'Generic server check')]),
+                template('tpl-acme', { assetType: 'SERVER', customerId: 'acme' }, [
+                    templateStep('tpl-acme', 1, 'Scanner asset', { scanRequired: true, expectAssetScan: true }),
+                    templateStep('tpl-acme', 2, 'Image standard', { unlessOption: 'SOFTWARE_PREINSTALL' }),
+                    templateStep('tpl-acme', 3, 'Tension PSU', { inputType: StepInputType.NUMBER, unit: 'V', minValue: 11.4, maxValue: 12.6 })
+                ]),
+                template('tpl-label', { option: 'LABELING' }, [templateStep('tpl-label', 1, 'Poser étiquette client')])
+            ]);
+            (mockPrisma.wmsTask.create as jest.Mock).mockImplementation(async ({ data }) => ({ ...mockTask, ...data }));
+
+            // Act
+            await service.createTask('ASSET-QR-001', TaskType.QA, 'order-1', {
+                assetType: 'server',
+                customerId: 'acme',
+                options: ['labeling', 'software_preinstall']
+            });
+
+            // Assert
+            const created = (mockPrisma.wmsTask.create as jest.Mock).mock.calls[0][0].data.steps.create;
+            expect(created).toEqual([
+                expect.objectContaining({ stepOrder: 1, description: 'Scanner asset', expectedCode: 'ASSET-QR-001', templateId: 'tpl-acme' }),
+                expect.objectContaining({ stepOrder: 2, description: 'Tension PSU', inputType: StepInputType.NUMBER, minValue: 11.4 }),
+                expect.objectContaining({ stepOrder: 3, description: 'Poser étiquette client', templateId: 'tpl-label' })
+            ]);
+        });
+
+        test('falls back to built-in steps when no template matches', async () => {
+            // Arrange
+            (mockPrisma.wmsTask.create as jest.Mock).mockImplementation(async ({ data }) => ({ ...mockTask, ...data }));
+
+            // Act
+            await service.createTask('ASSET-QR-001', TaskType.PICKING);
+
+            // Assert
+            const created = (mockPrisma.wmsTask.create as jest.Mock).mock.calls[0][0].data.steps.create;
+            expect(created).toHaveLength(3);
+            expect(created[0]).toEqual(expect.objectContaining({ expectedCode: 'ASSET-QR-001', templateId: null }));
+        });
+
+        test('rejects an out-of-tolerance measured value without blocking the task', async () => {
+            // Arrange
+            (mockPrisma.wmsTask.findUnique as jest.Mock).mockResolvedValue(mockTaskInProgress);
+            (mockPrisma.taskStep.findUnique as jest.Mock).mockResolvedValue({
+                ...mockSteps[1],
+                inputType: StepInputType.NUMBER,
+                unit: 'V',
+                minValue: 11.4,
+                maxValue: 12.6
+            });
+
+            // Act & Assert
+            await expect(
+                service.executeStep('task-1', { stepId: 'step-2', measuredValue: '13.1' })
+            ).rejects.toThrow(InvalidStepInputError);
+            expect(mockPrisma.taskStep.update).not.toHaveBeenCalled();
+            expect(mockPrisma.taskBlock.create).not.toHaveBeenCalled();
+        });
+
+        test('stores an in-range measured value with the step', async () => {
+            // Arrange
+            (mockPrisma.wmsTask.findUnique as jest.Mock).mockResolvedValue(mockTaskInProgress);
+            (mockPrisma.taskStep.findUnique as jest.Mock).mockResolvedValue({
+                ...mockSteps[1],
+                inputType: StepInputType.NUMBER,
+                minValue: 11.4,
+                maxValue: 12.6
+            });
+            (mockPrisma.taskStep.update as jest.Mock).mockImplementation(async ({ data }) => ({ ...mockSteps[1], ...data }));
+
+            // Act
+            const step = await service.executeStep('task-1', { stepId: 'step-2', measuredValue: '12.05' });
+
+            // Assert
+            expect(step.measuredValue).toBe('12.05');
+            expect(step.completed).toBe(true);
+        });
+    });
 });
@@ -0,0 +1,282 @@
+/**
+ * Wave Service Tests
+ * Planification des vagues et picking groupé
+ */
+
+import { WaveService } from '../services/wave.service';
+import { TaskType, TaskStatus, TaskPriority, PickBatchStatus, TaskBlockCause, PrismaClient } from '@prisma/client';
+import { InvalidScanError } from '../domain/task.types';
+import { EmptyWaveError, BatchOperatorMismatchError, sortByPickPath } from '../domain/wave.types';
+import { InventoryServiceClient } from '../integrations/inventory.client';
+
+// Mock PrismaClient
+const mockPrisma = {
+    wmsTask: {
+        findUnique: jest.fn(),
+        findFirst: jest.fn(),
+        findMany: jest.fn(),
+        update: jest.fn(),
+        updateMany: jest.fn()
+    },
+    taskStep: {
+        updateMany: jest.fn()
+    },
+    scanLog: {
+        create: jest.fn()
+    },
+    operator: {
+        findUnique: jest.fn()
+    },
+    taskBlock: {
+        create: jest.fn()
+    },
+    pickWave: {
+        create: jest.fn(),
+        findUnique: jest.fn()
+    },
+    pickBatch: {
+        create: jest.fn(),
+        findUnique: jest.fn(),
+        findMany: jest.fn(),
+        update: jest.fn(),
+        updateMany: jest.fn()
+    },
+    $executeRawUnsafe: jest.fn(),
+    $transaction: jest.fn()
+} as unknown as PrismaClient;
+
+const mockInventory: InventoryServiceClient = {
+    getReservation: jest.fn(),
+    moveAsset: jest.fn(),
+    getPosition: jest.fn(),
+    getMovements: jest.fn()
+};
+
+// Mock console.log pour les événements
+jest.spyOn(console, 'log').mockImplementation(() => { });
+
+describe('WaveService', () => {
+    let service: WaveService;
+
+    const cutoffAt = new Date('2026-10-20T16:00:00Z');
+
+    const baseTask = {
+        orderId: null,
+        type: TaskType.PICKING,
+        status: TaskStatus.PENDING,
+        priority: TaskPriority.NORMAL,
+        dueBy: new Date('2026-10-20T12:00:00Z'),
+        zone: null,
+        requiredCertification: null,
+        batchId: null,
+        pickSequence: null,
+        locationCode: null,
+        operatorId: null,
+        createdAt: new Date(),
+        startedAt: null,
+        endedAt: null
+    };
+
+    const mockBatch = {
+        id: 'batch-1',
+        waveId: 'wave-1',
+        zone: 'A',
+        status: PickBatchStatus.PLANNED,
+        operatorId: null,
+        blockedCount: 0,
+        createdAt: new Date(),
+        startedAt: null,
+        completedAt: null
+    };
+
+    const mockOperator = {
+        id: 'operator-1',
+        name: 'John Doe',
+        badge: 'BADGE-001',
+        skills: [TaskType.PICKING],
+        certifications: [],
+        homeZone: 'A',
+        createdAt: new Date()
+    };
+
+    const positions: Record<string, string | null> = {};
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (mockPrisma.$transaction as jest.Mock).mockImplementation(
+            async (callback: (tx: PrismaClient) => Promise<unknown>) => callback(mockPrisma)
+        );
+        (mockInventory.getPosition as jest.Mock).mockImplementation(async (assetId: string) => ({
+            assetId,
+            locationCode: positions[assetId] ?? null
+        }));
+        (mockPrisma.pickWave.create as jest.Mock).mockImplementation(async ({ data }) => ({
+            id: 'wave-1',
+            createdAt: new Date(),
+            ...data
+        }));
+        (mockPrisma.pickWave.findUnique as jest.Mock).mockResolvedValue({
+            id: 'wave-1',
+            cutoffAt,
+            createdBy: null,
+            createdAt: new Date()
+        });
+        (mockPrisma.pickBatch.create as jest.Mock).mockImplementation(async ({ data }) => ({
+            ...mockBatch,
+            id: `batch-${data.zone}`,
+            zone: data.zone
+        }));
+        (mockPrisma.pickBatch.findMany as jest.Mock).mockResolvedValue([]);
+        (mockPrisma.wmsTask.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+        (mockPrisma.taskBlock.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: 'block-1', ...data }));
+        (mockPrisma.scanLog.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: 'scan-1', scannedAt: new Date(), ...data }));
+        service = new WaveService(mockPrisma, mockInventory);
+    });
+
+    describe('planWave', () => {
+        test('groups whole orders by zone and sequences them along a serpentine path', async () => {
+            // Arrange : commande O1 en zone A (2 lignes), commande O2 en zone B
+            Object.assign(positions, {
+                'ASSET-1': 'A-01-05',
+                'ASSET-2': 'A-02-01',
+                'ASSET-3': 'A-01-02',
+                'ASSET-4': 'B-01-01'
+            });
+            (mockPrisma.wmsTask.findMany as jest.Mock).mockResolvedValueOnce([
+                { ...baseTask, id: 'task-1', assetId: 'ASSET-1', orderId: 'O1' },
+                { ...baseTask, id: 'task-2', assetId: 'ASSET-2', orderId: 'O1' },
+                { ...baseTask, id: 'task-3', assetId: 'ASSET-3', orderId: 'O1' },
+                { ...baseTask, id: 'task-4', assetId: 'ASSET-4', orderId: 'O2' }
+            ]);
+
+            // Act
+            await service.planWave({ cutoffAt });
+
+            // Assert : deux lots (A, B), A ordonné allée 01 montante puis allée 02
+            expect(mockPrisma.pickBatch.create).toHaveBeenCalledTimes(2);
+            const assignments = (mockPrisma.wmsTask.updateMany as jest.Mock).mock.calls
+                .map(([args]) => [args.where.id, args.data.batchId, args.data.pickSequence]);
+            expect(assignments).toEqual([
+                ['task-3', 'batch-A', 1],
+                ['task-1', 'batch-A', 2],
+                ['task-2', 'batch-A', 3],
+                ['task-4', 'batch-B', 1]
+            ]);
+            expect(console.log).toHaveBeenCalledWith(expect.stringContaining('"message":"WavePlanned"'));
+        });
+
+        test('skips unlocated tasks and refuses an empty wave', async () => {
+            // Arrange
+            positions['ASSET-LOST'] = null;
+            (mockPrisma.wmsTask.findMany as jest.Mock).mockResolvedValueOnce([
+                { ...baseTask, id: 'task-lost', assetId: 'ASSET-LOST' }
+            ]);
+
+            // Act & Assert
+            await expect(service.planWave({ cutoffAt })).rejects.toThrow(EmptyWaveError);
+            expect(mockPrisma.pickWave.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('sortByPickPath', () => {
+        test('alternates bay direction between aisles', () => {
+            const sorted = sortByPickPath([
+                { locationCode: 'A-02-01' },
+                { locationCode: 'A-01-10' },
+                { locationCode: 'A-02-09' },
+                { locationCode: 'A-01-02' }
+            ]);
+            expect(sorted.map(s => s.locationCode)).toEqual(['A-01-02', 'A-01-10', 'A-02-09', 'A-02-01']);
+        });
+    });
+
+    describe('batch execution', () => {
+        const inProgressBatch = { ...mockBatch, status: PickBatchStatus.IN_PROGRESS, operatorId: 'operator-1', startedAt: new Date() };
+        const pickTask = (id: string, sequence: number, status: TaskStatus = TaskStatus.IN_PROGRESS) => ({
+            ...baseTask,
+            id,
+            assetId: `ASSET-${id}`,
+            status,
+            batchId: 'batch-1',
+            pickSequence: sequence,
+            locationCode: `A-01-0${sequence}`,
+            operatorId: 'operator-1'
+        });
+
+        test('starts a planned batch for a qualified operator', async () => {
+            // Arrange
+            (mockPrisma.pickBatch.findUnique as jest.Mock)
+                .mockResolvedValueOnce(mockBatch)
+                .mockResolvedValue(inProgressBatch);
+            (mockPrisma.operator.findUnique as jest.Mock).mockResolvedValue(mockOperator);
+            (mockPrisma.wmsTask.findMany as jest.Mock).mockResolvedValue([pickTask('t1', 1)]);
+            (mockPrisma.wmsTask.findFirst as jest.Mock).mockResolvedValue(null);
+            (mockPrisma.pickBatch.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            // Act
+            const view = await service.startBatch('batch-1', 'operator-1');
+
+            // Assert
+            expect(view.status).toBe(PickBatchStatus.IN_PROGRESS);
+            expect(view.next?.taskId).toBe('t1');
+            expect(console.log).toHaveBeenCalledWith(expect.stringContaining('"message":"PickBatchStarted"'));
+        });
+
+        test('logs a scan per asset and completes the batch after the last pick', async () => {
+            // Arrange
+            (mockPrisma.pickBatch.findUnique as jest.Mock).mockResolvedValue(inProgressBatch);
+            (mockPrisma.wmsTask.findMany as jest.Mock)
+                .mockResolvedValueOnce([pickTask('t1', 1)])
+                .mockResolvedValue([pickTask('t1', 1, TaskStatus.COMPLETED)]);
+            (mockPrisma.wmsTask.update as jest.Mock).mockResolvedValue(pickTask('t1', 1, TaskStatus.COMPLETED));
+            (mockPrisma.taskStep.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+            (mockPrisma.pickBatch.update as jest.Mock).mockResolvedValue({ ...inProgressBatch, status: PickBatchStatus.COMPLETED });
+
+            // Act
+            await service.recordPick('batch-1', { operatorId: 'operator-1', scanCode: 'ASSET-t1' });
+
+            // Assert
+            expect(mockPrisma.scanLog.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ taskId: 't1', code: 'ASSET-t1', valid: true })
+            });
+            expect(mockPrisma.pickBatch.update).toHaveBeenCalledWith(expect.objectContaining({
+                data: expect.objectContaining({ status: PickBatchStatus.COMPLETED })
+            }));
+            expect(console.log).toHaveBeenCalledWith(expect.stringContaining('"message":"PickBatchCompleted"'));
+        });
+
+        test('blocks and detaches only the mis-scanned task', async () => {
+            // Arrange
+            (mockPrisma.pickBatch.findUnique as jest.Mock).mockResolvedValue(inProgressBatch);
+            (mockPrisma.wmsTask.findMany as jest.Mock).mockResolvedValue([pickTask('t1', 1), pickTask('t2', 2)]);
+            (mockPrisma.wmsTask.update as jest.Mock).mockResolvedValue(pickTask('t1', 1, TaskStatus.BLOCKED));
+
+            // Act & Assert
+            await expect(
+                service.recordPick('batch-1', { operatorId: 'operator-1', scanCode: 'WRONG' })
+            ).rejects.toThrow(InvalidScanError);
+
+            expect(mockPrisma.taskBlock.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ taskId: 't1', cause: TaskBlockCause.INVALID_STEP_SCAN })
+            });
+            expect(mockPrisma.wmsTask.update).toHaveBeenCalledWith({
+                where: { id: 't1' },
+                data: { batchId: null, pickSequence: null }
+            });
+            expect(mockPrisma.pickBatch.update).toHaveBeenCalledWith({
+                where: { id: 'batch-1' },
+                data: { blockedCount: { increment: 1 } }
+            });
+            // t2 encore à prélever : le lot reste ouvert
+            expect(mockPrisma.pickBatch.update).toHaveBeenCalledTimes(1);
+        });
+
+        test('rejects picks from another operator', async () => {
+            (mockPrisma.pickBatch.findUnique as jest.Mock).mockResolvedValue(inProgressBatch);
+
+            await expect(
+                service.recordPick('batch-1', { operatorId: 'operator-2', scanCode: 'ASSET-t1' })
+            ).rejects.toThrow(BatchOperatorMismatchError);
+        });
+    });
+});
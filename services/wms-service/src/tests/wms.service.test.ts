@@ -10,23 +10,43 @@ import {
     AssetNotReservedForPickingError
 } from '../domain/picking.types';
 import {
-    PickingNotCompletedError
+    PickingNotCompletedError,
+    InvalidShipmentRequestError,
+    ShippingTaskNotCompletedError,
+    ShipmentAlreadyExistsError
 } from '../domain/shipment.types';
-import { PrismaClient, PickingStatus, AssemblyStatus, ShipmentStatus, ReturnStatus } from '@prisma/client';
+import { IncompleteStepsError, ScanOverrideNotAuthorizedError } from '../domain/task.types';
+import { GovernanceServiceClient, GovernanceServiceError } from '../integrations/governance.client';
+import { CarrierError, CarrierRegistry } from '../integrations/carrier.adapter';
+import { LocalFakeCarrier } from '../integrations/localFakeCarrier.adapter';
+import {
+    PrismaClient,
+    PickingStatus,
+    AssemblyStatus,
+    ShipmentStatus,
+    ReturnStatus,
+    PackageType,
+    TrackingStatus,
+    TaskType,
+    TaskStatus,
+    TaskPriority
+} from '@prisma/client';
 
-// Mock du PrismaClient
+// Mock du PrismaClient ($transaction exécute le callback avec le même mock)
 const mockPrisma = {
-    pickingOrder: {
+    wmsTask: {
         create: jest.fn(),
         findUnique: jest.fn(),
         findFirst: jest.fn(),
         update: jest.fn()
     },
-    assemblyOrder: {
-        create: jest.fn(),
-        findUnique: jest.fn(),
-        findFirst: jest.fn(),
-        update: jest.fn()
+    taskStep: {
+        findMany: jest.fn(),
+        count: jest.fn(),
+        updateMany: jest.fn()
+    },
+    taskStepTemplate: {
+        findMany: jest.fn()
     },
     shipment: {
         create: jest.fn(),
@@ -34,18 +54,29 @@ const mockPrisma = {
         findFirst: jest.fn(),
         update: jest.fn()
     },
+    shipmentParcel: {
+        updateMany: jest.fn()
+    },
+    shipmentTrackingEvent: {
+        createMany: jest.fn(),
+        findMany: jest.fn()
+    },
     return: {
         create: jest.fn(),
         findUnique: jest.fn(),
         findMany: jest.fn(),
         update: jest.fn()
-    }
+    },
+    $executeRawUnsafe: jest.fn(),
+    $transaction: jest.fn()
 } as unknown as PrismaClient;
 
 // Mock des clients
 const mockInventoryClient: InventoryServiceClient = {
     getReservation: jest.fn(),
-    moveAsset: jest.fn()
+    getPosition: jest.fn(),
+    moveAsset: jest.fn(),
+    getMovements: jest.fn()
 };
 
 const mockAssetClient: AssetServiceClient = {
@@ -53,15 +84,53 @@ const mockAssetClient: AssetServiceClient = {
     changeStatus: jest.fn()
 };
 
+const mockGovernance: GovernanceServiceClient = {
+    recordDecision: jest.fn()
+};
+
+// Dérogation superviseur de la façade v0
+const override = { supervisorId: 'sup-1', reason: 'Scanner HS, contrôle visuel' };
+
 // Mock des événements
 jest.spyOn(console, 'log').mockImplementation(() => { });
 
+// Ligne WmsTask (les ordres v0 sont des tâches)
+const taskRow = (overrides: Record<string, unknown>) => ({
+    id: 'task-uuid-1',
+    assetId: 'asset-uuid-1',
+    orderId: null,
+    type: TaskType.PICKING,
+    status: TaskStatus.PENDING,
+    priority: TaskPriority.NORMAL,
+    dueBy: null,
+    zone: null,
+    requiredCertification: null,
+    batchId: null,
+    pickSequence: null,
+    locationCode: null,
+    operatorId: null,
+    createdAt: new Date(),
+    startedAt: null,
+    endedAt: null,
+    ...overrides
+});
+
+// Tâche PICKING terminée, aucun assemblage ouvert
+const pickedAsset = (assetId: string) => async ({ where }: { where: { type: TaskType } }) =>
+    where.type === TaskType.PICKING
+        ? taskRow({ id: 'picking-uuid-1', assetId, status: TaskStatus.COMPLETED, orderId: 'order-1' })
+        : null;
+
 describe('WmsService', () => {
     let service: WmsService;
 
     beforeEach(() => {
         jest.clearAllMocks();
-        service = new WmsService(mockPrisma, mockInventoryClient, mockAssetClient);
+        (mockPrisma.$transaction as jest.Mock).mockImplementation(
+            async (callback: (tx: PrismaClient) => Promise<unknown>) => callback(mockPrisma)
+        );
+        (mockGovernance.recordDecision as jest.Mock).mockResolvedValue({ id: 'decision-1' });
+        service = new WmsService(mockPrisma, mockInventoryClient, mockAssetClient, undefined, mockGovernance);
     });
 
     describe('Picking', () => {
@@ -74,26 +143,52 @@ describe('WmsService', () => {
                 createdAt: '2026-01-01T00:00:00Z'
             };
             (mockInventoryClient.getReservation as jest.Mock).mockResolvedValue(mockReservation);
-            (mockPrisma.pickingOrder.findFirst as jest.Mock).mockResolvedValue(null);
-            (mockPrisma.pickingOrder.create as jest.Mock).mockResolvedValue({
-                id: 'picking-uuid-1',
-                assetId: 'asset-uuid-1',
-                status: PickingStatus.PENDING,
-                createdAt: new Date()
-            });
+            (mockPrisma.wmsTask.findFirst as jest.Mock).mockResolvedValue(null);
+            (mockPrisma.taskStepTemplate.findMany as jest.Mock).mockResolvedValue([]);
+            (mockPrisma.wmsTask.create as jest.Mock).mockResolvedValue(taskRow({ id: 'picking-uuid-1' }));
 
             // Act
             const picking = await service.createPickingOrder({ assetId: 'asset-uuid-1' });
 
-            // Assert
-            expect(picking.assetId).toBe('asset-uuid-1');
-            expect(picking.status).toBe(PickingStatus.PENDING);
+            // Assert - L'ordre est la tâche PICKING (étapes scannées du moteur)
+            expect(picking).toEqual(expect.objectContaining({
+                id: 'picking-uuid-1',
+                assetId: 'asset-uuid-1',
+                status: PickingStatus.PENDING
+            }));
+            const { data } = (mockPrisma.wmsTask.create as jest.Mock).mock.calls[0][0];
+            expect(data.type).toBe(TaskType.PICKING);
+            expect(data.steps.create[0].expectedCode).toBe('asset-uuid-1');
             expect(mockInventoryClient.getReservation).toHaveBeenCalledWith('asset-uuid-1');
             expect(console.log).toHaveBeenCalledWith(
                 expect.stringContaining('"message":"PickingCreated"')
             );
         });
 
+        test('should_attach_picking_task_to_reserved_order_with_promised_date', async () => {
+            // Arrange
+            (mockInventoryClient.getReservation as jest.Mock).mockResolvedValue({
+                id: 'res-uuid-1',
+                assetId: 'asset-uuid-1',
+                orderRef: 'ORDER-001',
+                createdAt: '2026-01-01T00:00:00Z'
+            });
+            (mockPrisma.wmsTask.findFirst as jest.Mock).mockResolvedValue(null);
+            (mockPrisma.taskStepTemplate.findMany as jest.Mock).mockResolvedValue([]);
+            (mockPrisma.wmsTask.create as jest.Mock).mockResolvedValue(taskRow({ id: 'picking-uuid-1' }));
+
+            // Act
+            await service.createPickingOrder({
+                assetId: 'asset-uuid-1',
+                promisedDate: new Date('2026-11-02T17:00:00Z')
+            });
+
+            // Assert - Commande de la réservation, échéance dérivée de la date promise
+            const { data } = (mockPrisma.wmsTask.create as jest.Mock).mock.calls[0][0];
+            expect(data.orderId).toBe('ORDER-001');
+            expect(data.dueBy).toBeInstanceOf(Date);
+        });
+
         test('should_reject_picking_if_not_reserved', async () => {
             // Arrange - Asset PAS réservé
             (mockInventoryClient.getReservation as jest.Mock).mockResolvedValue(null);
@@ -104,18 +199,14 @@ describe('WmsService', () => {
             ).rejects.toThrow(AssetNotReservedForPickingError);
 
             // Vérifier que create n'a pas été appelé
-            expect(mockPrisma.pickingOrder.create).not.toHaveBeenCalled();
+            expect(mockPrisma.wmsTask.create).not.toHaveBeenCalled();
         });
 
         test('should_complete_picking_and_move_inventory', async () => {
-            // Arrange
-            const mockPicking = {
-                id: 'picking-uuid-1',
-                assetId: 'asset-uuid-1',
-                status: PickingStatus.IN_PROGRESS,
-                createdAt: new Date()
-            };
-            (mockPrisma.pickingOrder.findUnique as jest.Mock).mockResolvedValue(mockPicking);
+            // Arrange - Toutes les étapes scannées
+            const inProgress = taskRow({ id: 'picking-uuid-1', status: TaskStatus.IN_PROGRESS, operatorId: 'op-1' });
+            (mockPrisma.wmsTask.findUnique as jest.Mock).mockResolvedValue(inProgress);
+            (mockPrisma.taskStep.count as jest.Mock).mockResolvedValue(0);
             (mockInventoryClient.moveAsset as jest.Mock).mockResolvedValue({
                 id: 'mov-uuid-1',
                 assetId: 'asset-uuid-1',
@@ -123,9 +214,10 @@ describe('WmsService', () => {
                 reason: 'MOVE',
                 createdAt: '2026-01-01T00:00:00Z'
             });
-            (mockPrisma.pickingOrder.update as jest.Mock).mockResolvedValue({
-                ...mockPicking,
-                status: PickingStatus.COMPLETED
+            (mockPrisma.wmsTask.update as jest.Mock).mockResolvedValue({
+                ...inProgress,
+                status: TaskStatus.COMPLETED,
+                endedAt: new Date()
             });
 
             // Act
@@ -141,6 +233,113 @@ describe('WmsService', () => {
             expect(console.log).toHaveBeenCalledWith(
                 expect.stringContaining('"message":"PickingCompleted"')
             );
+
+            // TaskCompleted et PickingCompleted écrits dans la transaction de clôture
+            expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+            expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
+                expect.stringContaining('INSERT INTO "outbox_events"'),
+                expect.any(String),
+                'PickingCompleted',
+                1,
+                'wms-service',
+                'Picking',
+                'picking-uuid-1',
+                expect.any(String),
+                expect.any(String),
+                null,
+                JSON.stringify({ pickingId: 'picking-uuid-1', assetId: 'asset-uuid-1' })
+            );
+        });
+
+        test('should_complete_pending_picking_without_scans_on_supervisor_override', async () => {
+            // Arrange - Ordre v0 jamais démarré (aucun opérateur)
+            const pending = taskRow({ id: 'picking-uuid-1' });
+            (mockPrisma.wmsTask.findUnique as jest.Mock)
+                .mockResolvedValueOnce(pending)
+                .mockResolvedValueOnce(pending)
+                .mockResolvedValueOnce({ ...pending, status: TaskStatus.IN_PROGRESS });
+            (mockPrisma.taskStep.count as jest.Mock).mockResolvedValueOnce(3).mockResolvedValue(0);
+            (mockPrisma.wmsTask.update as jest.Mock).mockImplementation(async ({ data }) => ({ ...pending, ...data }));
+
+            // Act
+            const completedPicking = await service.completePicking('picking-uuid-1', override);
+
+            // Assert - Dérogation tracée, puis étapes closes sans code scanné
+            expect(completedPicking.status).toBe(PickingStatus.COMPLETED);
+            expect(mockGovernance.recordDecision).toHaveBeenCalledWith({
+                actorId: 'sup-1',
+                action: 'OVERRIDE_TASK_SCAN',
+                entityType: 'WmsTask',
+                entityId: 'picking-uuid-1',
+                context: {
+                    taskType: TaskType.PICKING,
+                    assetId: 'asset-uuid-1',
+                    reason: 'Scanner HS, contrôle visuel',
+                    remainingSteps: 3
+                }
+            });
+            expect((mockPrisma.wmsTask.update as jest.Mock).mock.calls[0][0].data).toEqual(
+                expect.objectContaining({ status: TaskStatus.IN_PROGRESS, operatorId: null })
+            );
+            expect(mockPrisma.taskStep.updateMany).toHaveBeenCalledWith({
+                where: { taskId: 'picking-uuid-1', completed: false },
+                data: expect.objectContaining({ scannedCode: null, completed: true })
+            });
+            expect(mockInventoryClient.moveAsset).toHaveBeenCalledWith('asset-uuid-1', 'SHIPPING_DOCK', 'MOVE');
+        });
+
+        test('should_refuse_picking_without_scans_or_override', async () => {
+            // Arrange - Ordre v0 jamais démarré, aucune dérogation
+            (mockPrisma.wmsTask.findUnique as jest.Mock).mockResolvedValue(taskRow({ id: 'picking-uuid-1' }));
+            (mockPrisma.taskStep.count as jest.Mock).mockResolvedValue(3);
+
+            // Act & Assert
+            await expect(service.completePicking('picking-uuid-1')).rejects.toThrow(IncompleteStepsError);
+
+            expect(mockPrisma.taskStep.updateMany).not.toHaveBeenCalled();
+            expect(mockInventoryClient.moveAsset).not.toHaveBeenCalled();
+        });
+
+        test('should_change_nothing_when_governance_denies_the_override', async () => {
+            // Arrange
+            (mockPrisma.wmsTask.findUnique as jest.Mock).mockResolvedValue(taskRow({ id: 'picking-uuid-1' }));
+            (mockPrisma.taskStep.count as jest.Mock).mockResolvedValue(3);
+            (mockGovernance.recordDecision as jest.Mock).mockRejectedValue(new GovernanceServiceError(403, 'Permission denied'));
+
+            // Act & Assert
+            await expect(service.completePicking('picking-uuid-1', override)).rejects.toThrow(ScanOverrideNotAuthorizedError);
+
+            expect(mockPrisma.wmsTask.update).not.toHaveBeenCalled();
+            expect(mockPrisma.taskStep.updateMany).not.toHaveBeenCalled();
+            expect(mockInventoryClient.moveAsset).not.toHaveBeenCalled();
+        });
+
+        test('should_start_picking_without_scan_like_v0', async () => {
+            // Arrange
+            const pending = taskRow({ id: 'picking-uuid-1' });
+            (mockPrisma.wmsTask.findUnique as jest.Mock).mockResolvedValue(pending);
+            (mockPrisma.wmsTask.update as jest.Mock).mockImplementation(async ({ data }) => ({ ...pending, ...data }));
+
+            // Act
+            const picking = await service.startPicking('picking-uuid-1');
+
+            // Assert
+            expect(picking.status).toBe(PickingStatus.IN_PROGRESS);
+            expect(mockPrisma.taskStep.updateMany).not.toHaveBeenCalled();
+        });
+
+        test('should_not_move_inventory_before_picking_steps_are_scanned', async () => {
+            // Arrange - Deux étapes non scannées
+            (mockPrisma.wmsTask.findUnique as jest.Mock).mockResolvedValue(
+                taskRow({ id: 'picking-uuid-1', status: TaskStatus.IN_PROGRESS, operatorId: 'op-1' })
+            );
+            (mockPrisma.taskStep.count as jest.Mock).mockResolvedValue(2);
+
+            // Act & Assert
+            await expect(service.completePicking('picking-uuid-1')).rejects.toThrow(IncompleteStepsError);
+
+            expect(mockInventoryClient.moveAsset).not.toHaveBeenCalled();
+            expect(mockPrisma.wmsTask.update).not.toHaveBeenCalled();
         });
     });
 
@@ -148,21 +347,26 @@ describe('WmsService', () => {
         test('should_execute_assembly_tasks', async () => {
             // Arrange
             const tasks = ['INSTALL_CPU', 'INSTALL_RAM', 'INSTALL_SSD', 'RUN_QA'];
-            const mockAssembly = {
+            const steps = ['Scanner asset principal', ...tasks].map((description, index) => ({
+                id: `step-${index + 1}`,
+                taskId: 'assembly-uuid-1',
+                stepOrder: index + 1,
+                description,
+                completed: true
+            }));
+            const inProgress = taskRow({
                 id: 'assembly-uuid-1',
-                assetId: 'asset-uuid-1',
-                tasks: JSON.stringify(tasks),
-                status: AssemblyStatus.IN_PROGRESS,
-                createdAt: new Date()
-            };
-            (mockPrisma.assemblyOrder.create as jest.Mock).mockResolvedValue({
-                ...mockAssembly,
-                status: AssemblyStatus.PENDING
+                type: TaskType.ASSEMBLY,
+                status: TaskStatus.IN_PROGRESS,
+                operatorId: 'op-1'
             });
-            (mockPrisma.assemblyOrder.findUnique as jest.Mock).mockResolvedValue(mockAssembly);
-            (mockPrisma.assemblyOrder.update as jest.Mock).mockResolvedValue({
-                ...mockAssembly,
-                status: AssemblyStatus.COMPLETED
+            (mockPrisma.wmsTask.create as jest.Mock).mockResolvedValue({ ...inProgress, status: TaskStatus.PENDING });
+            (mockPrisma.wmsTask.findUnique as jest.Mock).mockResolvedValue(inProgress);
+            (mockPrisma.taskStep.findMany as jest.Mock).mockResolvedValue(steps);
+            (mockPrisma.taskStep.count as jest.Mock).mockResolvedValue(0);
+            (mockPrisma.wmsTask.update as jest.Mock).mockResolvedValue({
+                ...inProgress,
+                status: TaskStatus.COMPLETED
             });
 
             // Act - Créer l'assemblage
@@ -172,11 +376,19 @@ describe('WmsService', () => {
             });
             expect(assembly.assetId).toBe('asset-uuid-1');
 
+            // Assert - Scan de l'asset principal puis une étape scannée par tâche CTO
+            const { data } = (mockPrisma.wmsTask.create as jest.Mock).mock.calls[0][0];
+            expect(data.type).toBe(TaskType.ASSEMBLY);
+            expect(data.steps.create.map((step: { description: string }) => step.description))
+                .toEqual(['Scanner asset principal', ...tasks]);
+            expect(data.steps.create.every((step: { scanRequired: boolean }) => step.scanRequired)).toBe(true);
+
             // Act - Compléter l'assemblage
             const completedAssembly = await service.completeAssembly('assembly-uuid-1');
 
             // Assert
             expect(completedAssembly.status).toBe(AssemblyStatus.COMPLETED);
+            expect(completedAssembly.tasks).toEqual(tasks);
             expect(console.log).toHaveBeenCalledWith(
                 expect.stringContaining('"message":"AssemblyCompleted"')
             );
@@ -184,30 +396,86 @@ describe('WmsService', () => {
     });
 
     describe('Shipment', () => {
-        test('should_ship_asset_only_after_picking_and_assembly', async () => {
-            // Arrange - Picking complété
-            const mockCompletedPicking = {
-                id: 'picking-uuid-1',
+        const readyRow = {
+            id: 'shipment-uuid-1',
+            assetId: 'asset-uuid-1',
+            carrier: 'DHL',
+            trackingRef: 'DHL-123',
+            status: ShipmentStatus.READY,
+            taskId: 'shipping-task-1',
+            createdAt: new Date()
+        };
+
+        test('should_open_shipping_task_only_after_picking_and_assembly', async () => {
+            // Arrange - Picking terminé, pas d'assemblage ouvert
+            (mockPrisma.wmsTask.findFirst as jest.Mock).mockImplementation(pickedAsset('asset-uuid-1'));
+            (mockPrisma.shipment.create as jest.Mock).mockResolvedValue({ ...readyRow, taskId: null });
+            (mockPrisma.wmsTask.create as jest.Mock).mockResolvedValue(
+                taskRow({ id: 'shipping-task-1', type: TaskType.SHIPPING, orderId: 'order-1' })
+            );
+            (mockPrisma.shipment.update as jest.Mock).mockResolvedValue(readyRow);
+
+            // Act
+            const shipment = await service.prepareShipment({
                 assetId: 'asset-uuid-1',
-                status: PickingStatus.COMPLETED,
-                createdAt: new Date()
-            };
-            // Pas d'assemblage actif (donc OK)
-            (mockPrisma.pickingOrder.findFirst as jest.Mock).mockImplementation(({ where }) => {
-                if (where?.status === PickingStatus.COMPLETED) {
-                    return Promise.resolve(mockCompletedPicking);
-                }
-                return Promise.resolve(null);
+                carrier: 'DHL',
+                trackingRef: 'DHL-123'
             });
-            (mockPrisma.assemblyOrder.findFirst as jest.Mock).mockResolvedValue(null);
-            (mockPrisma.shipment.create as jest.Mock).mockResolvedValue({
-                id: 'shipment-uuid-1',
+
+            // Assert - Envoi différé à la fin de la tâche SHIPPING
+            expect(shipment.status).toBe(ShipmentStatus.READY);
+            expect(shipment.taskId).toBe('shipping-task-1');
+            const { data } = (mockPrisma.wmsTask.create as jest.Mock).mock.calls[0][0];
+            expect(data).toEqual(expect.objectContaining({ type: TaskType.SHIPPING, orderId: 'order-1' }));
+            expect(data.steps.create.map((step: { expectedCode: string | null }) => step.expectedCode))
+                .toEqual(['asset-uuid-1', 'DHL-123', null]);
+            expect(mockInventoryClient.moveAsset).not.toHaveBeenCalled();
+            expect(mockAssetClient.changeStatus).not.toHaveBeenCalled();
+        });
+
+        test('should_create_and_ship_asset_on_supervisor_override', async () => {
+            // Arrange - Picking terminé, tâche SHIPPING close par la façade sur dérogation
+            const shippingTask = taskRow({ id: 'shipping-task-1', type: TaskType.SHIPPING, orderId: 'order-1' });
+            (mockPrisma.wmsTask.findFirst as jest.Mock).mockImplementation(pickedAsset('asset-uuid-1'));
+            (mockPrisma.shipment.create as jest.Mock).mockResolvedValue({ ...readyRow, taskId: null });
+            (mockPrisma.wmsTask.create as jest.Mock).mockResolvedValue(shippingTask);
+            (mockPrisma.wmsTask.findUnique as jest.Mock)
+                .mockResolvedValueOnce(shippingTask)
+                .mockResolvedValueOnce(shippingTask)
+                .mockResolvedValueOnce({ ...shippingTask, status: TaskStatus.IN_PROGRESS })
+                .mockResolvedValueOnce({ ...shippingTask, status: TaskStatus.COMPLETED });
+            (mockPrisma.taskStep.count as jest.Mock).mockResolvedValue(0);
+            (mockPrisma.wmsTask.update as jest.Mock).mockImplementation(async ({ data }) => ({ ...shippingTask, ...data }));
+            (mockPrisma.shipment.findUnique as jest.Mock).mockResolvedValue(readyRow);
+            (mockPrisma.shipment.update as jest.Mock).mockImplementation(async ({ data }) => ({ ...readyRow, ...data }));
+
+            // Act
+            const shipment = await service.createShipment({
                 assetId: 'asset-uuid-1',
                 carrier: 'DHL',
-                trackingRef: null,
-                status: ShipmentStatus.READY,
-                createdAt: new Date()
+                trackingRef: 'DHL-123'
+            }, override);
+
+            // Assert - Expédié dans la même requête, comme en v0, dérogation tracée
+            expect(shipment.status).toBe(ShipmentStatus.SHIPPED);
+            expect(mockGovernance.recordDecision).toHaveBeenCalledWith(expect.objectContaining({
+                action: 'OVERRIDE_TASK_SCAN',
+                entityId: 'shipping-task-1'
+            }));
+            expect(mockPrisma.taskStep.updateMany).toHaveBeenCalledWith({
+                where: { taskId: 'shipping-task-1', completed: false },
+                data: expect.objectContaining({ scannedCode: null })
             });
+            expect(mockInventoryClient.moveAsset).toHaveBeenCalledWith('asset-uuid-1', 'SHIPPING_DOCK', 'SHIP');
+            expect(mockAssetClient.changeStatus).toHaveBeenCalledWith('asset-uuid-1', 'SOLD', 'Shipped via WMS');
+        });
+
+        test('should_ship_asset_only_after_shipping_task_completed', async () => {
+            // Arrange - Tâche SHIPPING scannée et terminée
+            (mockPrisma.shipment.findUnique as jest.Mock).mockResolvedValue(readyRow);
+            (mockPrisma.wmsTask.findUnique as jest.Mock).mockResolvedValue(
+                taskRow({ id: 'shipping-task-1', type: TaskType.SHIPPING, status: TaskStatus.COMPLETED })
+            );
             (mockInventoryClient.moveAsset as jest.Mock).mockResolvedValue({
                 id: 'mov-uuid-1',
                 assetId: 'asset-uuid-1',
@@ -220,22 +488,16 @@ describe('WmsService', () => {
                 status: 'SOLD'
             });
             (mockPrisma.shipment.update as jest.Mock).mockResolvedValue({
-                id: 'shipment-uuid-1',
-                assetId: 'asset-uuid-1',
-                carrier: 'DHL',
-                trackingRef: null,
-                status: ShipmentStatus.SHIPPED,
-                createdAt: new Date()
+                ...readyRow,
+                status: ShipmentStatus.SHIPPED
             });
 
             // Act
-            const shipment = await service.createShipment({
-                assetId: 'asset-uuid-1',
-                carrier: 'DHL'
-            });
+            const shipment = await service.dispatchShipment('shipment-uuid-1');
 
             // Assert
             expect(shipment.status).toBe(ShipmentStatus.SHIPPED);
+            expect(mockInventoryClient.moveAsset).toHaveBeenCalledWith('asset-uuid-1', 'SHIPPING_DOCK', 'SHIP');
             expect(mockAssetClient.changeStatus).toHaveBeenCalledWith(
                 'asset-uuid-1',
                 'SOLD',
@@ -246,13 +508,27 @@ describe('WmsService', () => {
             );
         });
 
+        test('should_not_dispatch_while_shipping_task_is_open', async () => {
+            // Arrange - Étiquette colis pas encore scannée
+            (mockPrisma.shipment.findUnique as jest.Mock).mockResolvedValue(readyRow);
+            (mockPrisma.wmsTask.findUnique as jest.Mock).mockResolvedValue(
+                taskRow({ id: 'shipping-task-1', type: TaskType.SHIPPING, status: TaskStatus.IN_PROGRESS })
+            );
+
+            // Act & Assert
+            await expect(service.dispatchShipment('shipment-uuid-1')).rejects.toThrow(ShippingTaskNotCompletedError);
+
+            expect(mockInventoryClient.moveAsset).not.toHaveBeenCalled();
+            expect(mockPrisma.shipment.update).not.toHaveBeenCalled();
+        });
+
         test('should_reject_shipment_if_picking_not_completed', async () => {
-            // Arrange - Pas de picking complété
-            (mockPrisma.pickingOrder.findFirst as jest.Mock).mockResolvedValue(null);
+            // Arrange - Pas de tâche PICKING terminée
+            (mockPrisma.wmsTask.findFirst as jest.Mock).mockResolvedValue(null);
 
             // Act & Assert
             await expect(
-                service.createShipment({ assetId: 'asset-uuid-1', carrier: 'DHL' })
+                service.createShipment({ assetId: 'asset-uuid-1', carrier: 'DHL' }, override)
             ).rejects.toThrow(PickingNotCompletedError);
 
             // Vérifier que create n'a pas été appelé
@@ -260,6 +536,247 @@ describe('WmsService', () => {
         });
     });
 
+    describe('Carrier shipments', () => {
+        const shipTo = { name: 'Acme DC', line1: '1 rue du Port', postalCode: '69007', city: 'Lyon', country: 'FR' };
+        const parcelRows = [
+            { id: 'parcel-1', shipmentId: 'shipment-uuid-2', sequence: 1, type: PackageType.PARCEL, weightKg: 12, lengthCm: null, widthCm: null, heightCm: null, trackingNumber: 'FAKE-SHIP2-1' },
+            { id: 'parcel-2', shipmentId: 'shipment-uuid-2', sequence: 2, type: PackageType.PALLET, weightKg: 180, lengthCm: null, widthCm: null, heightCm: null, trackingNumber: 'FAKE-SHIP2-2' }
+        ];
+        const shippedRow = {
+            id: 'shipment-uuid-2',
+            assetId: 'asset-uuid-2',
+            carrier: 'FAKE',
+            trackingRef: 'FAKE-SHIP2',
+            status: ShipmentStatus.SHIPPED,
+            shipTo,
+            labelPdf: Buffer.from('%PDF'),
+            bookedAt: new Date(),
+            deliveredAt: null,
+            parcels: parcelRows,
+            createdAt: new Date()
+        };
+
+        const pendingRow = {
+            ...shippedRow,
+            status: ShipmentStatus.PENDING,
+            trackingRef: null,
+            labelPdf: null,
+            bookedAt: null,
+            taskId: null,
+            parcels: parcelRows.map(parcel => ({ ...parcel, trackingNumber: null }))
+        };
+        let carrier: LocalFakeCarrier;
+        // Ligne Shipment écrite par create / shipmentParcel.updateMany (null : shippedRow)
+        let stored: typeof pendingRow | null;
+
+        beforeEach(() => {
+            carrier = new LocalFakeCarrier();
+            stored = null;
+            service = new WmsService(mockPrisma, mockInventoryClient, mockAssetClient,
+                new CarrierRegistry([carrier]));
+            (mockPrisma.wmsTask.findFirst as jest.Mock).mockImplementation(pickedAsset('asset-uuid-2'));
+            (mockPrisma.wmsTask.create as jest.Mock).mockResolvedValue(
+                taskRow({ id: 'shipping-task-2', assetId: 'asset-uuid-2', type: TaskType.SHIPPING })
+            );
+            (mockPrisma.shipment.create as jest.Mock).mockImplementation(async ({ data }) => {
+                stored = {
+                    ...pendingRow,
+                    ...data,
+                    id: data.id ?? pendingRow.id,
+                    parcels: data.parcels.create.map((parcel: object, index: number) => ({ id: `parcel-${index + 1}`, ...parcel }))
+                };
+                return stored;
+            });
+            (mockPrisma.shipmentParcel.updateMany as jest.Mock).mockImplementation(async ({ where, data }) => {
+                stored?.parcels.filter(p => p.sequence === where.sequence).forEach(p => Object.assign(p, data));
+                return { count: 1 };
+            });
+            (mockPrisma.shipment.update as jest.Mock).mockImplementation(async ({ where, data }) => {
+                const updated = { ...(stored ?? shippedRow), id: where.id, ...data };
+                stored = stored && updated;
+                return updated;
+            });
+        });
+
+        test('should_book_integrated_carrier_with_label_and_parcel_tracking', async () => {
+            // Act
+            const shipment = await service.prepareShipment({
+                assetId: 'asset-uuid-2',
+                carrier: 'fake',
+                shipTo,
+                parcels: [{ weightKg: 12 }, { type: PackageType.PALLET, weightKg: 180 }]
+            });
+
+            // Assert - Expédition PENDING persistée avant la réservation
+            const { data } = (mockPrisma.shipment.create as jest.Mock).mock.calls[0][0];
+            expect(data).toEqual(expect.objectContaining({ carrier: 'FAKE', status: ShipmentStatus.PENDING, trackingRef: null }));
+
+            // Assert - Étiquette et numéros enregistrés, expédition READY
+            const trackingRef = shipment.trackingRef as string;
+            expect(trackingRef).toMatch(/^FAKE-/);
+            expect(shipment.status).toBe(ShipmentStatus.READY);
+            expect(shipment.hasLabel).toBe(true);
+            expect(shipment.parcels.map(p => p.trackingNumber)).toEqual([`${trackingRef}-1`, `${trackingRef}-2`]);
+
+            // Assert - Tâche SHIPPING : un scan par étiquette colis
+            const task = (mockPrisma.wmsTask.create as jest.Mock).mock.calls[0][0].data;
+            expect(task.steps.create.map((step: { expectedCode: string | null }) => step.expectedCode))
+                .toEqual(['asset-uuid-2', `${trackingRef}-1`, `${trackingRef}-2`, null]);
+            expect(shipment.taskId).toBe('shipping-task-2');
+            expect(mockInventoryClient.moveAsset).not.toHaveBeenCalled();
+        });
+
+        test('should_keep_shipment_pending_when_booking_fails', async () => {
+            // Arrange
+            jest.spyOn(carrier, 'bookShipment').mockRejectedValue(new CarrierError('FAKE', 503, 'Unavailable'));
+
+            // Act & Assert
+            await expect(service.prepareShipment({
+                assetId: 'asset-uuid-2',
+                carrier: 'FAKE',
+                shipTo,
+                parcels: [{ weightKg: 12 }]
+            })).rejects.toThrow(CarrierError);
+
+            expect(stored?.status).toBe(ShipmentStatus.PENDING);
+            expect(mockPrisma.wmsTask.create).not.toHaveBeenCalled();
+        });
+
+        test('should_resume_pending_booking_without_creating_a_second_shipment', async () => {
+            // Arrange - Réservation interrompue
+            stored = { ...pendingRow, parcels: pendingRow.parcels.map(p => ({ ...p })) };
+            (mockPrisma.shipment.findFirst as jest.Mock).mockResolvedValue(stored);
+            const book = jest.spyOn(carrier, 'bookShipment');
+
+            // Act
+            const shipment = await service.prepareShipment({
+                assetId: 'asset-uuid-2',
+                carrier: 'FAKE',
+                shipTo,
+                parcels: [{ weightKg: 12 }, { type: PackageType.PALLET, weightKg: 180 }]
+            });
+
+            // Assert - Même référence, aucune nouvelle expédition
+            expect(mockPrisma.shipment.create).not.toHaveBeenCalled();
+            expect(book).toHaveBeenCalledWith(expect.objectContaining({ reference: 'shipment-uuid-2' }));
+            expect(shipment.status).toBe(ShipmentStatus.READY);
+            expect(shipment.taskId).toBe('shipping-task-2');
+        });
+
+        test('should_reject_second_shipment_while_one_is_ready', async () => {
+            // Arrange
+            (mockPrisma.shipment.findFirst as jest.Mock).mockResolvedValue({
+                ...shippedRow,
+                status: ShipmentStatus.READY,
+                taskId: 'shipping-task-2'
+            });
+            const book = jest.spyOn(carrier, 'bookShipment');
+
+            // Act & Assert
+            await expect(service.prepareShipment({
+                assetId: 'asset-uuid-2',
+                carrier: 'FAKE',
+                shipTo,
+                parcels: [{ weightKg: 12 }]
+            })).rejects.toThrow(ShipmentAlreadyExistsError);
+
+            expect(book).not.toHaveBeenCalled();
+            expect(mockPrisma.shipment.create).not.toHaveBeenCalled();
+        });
+
+        test('should_reject_integrated_carrier_without_address_or_parcels', async () => {
+            await expect(service.prepareShipment({
+                assetId: 'asset-uuid-2',
+                carrier: 'FAKE',
+                parcels: [{ weightKg: 12 }]
+            })).rejects.toThrow(InvalidShipmentRequestError);
+
+            await expect(service.prepareShipment({
+                assetId: 'asset-uuid-2',
+                carrier: 'FAKE',
+                shipTo,
+                parcels: [{ weightKg: 0 }]
+            })).rejects.toThrow(InvalidShipmentRequestError);
+
+            expect(mockPrisma.shipment.create).not.toHaveBeenCalled();
+            expect(mockInventoryClient.moveAsset).not.toHaveBeenCalled();
+        });
+
+        test('should_mark_delivered_when_last_parcel_is_delivered', async () => {
+            // Arrange - Colis 1 déjà livré, le webhook livre le colis 2
+            const occurredAt = '2026-10-20T09:30:00Z';
+            (mockPrisma.shipment.findFirst as jest.Mock).mockResolvedValue(shippedRow);
+            (mockPrisma.shipment.findUnique as jest.Mock).mockResolvedValue(shippedRow);
+            (mockPrisma.shipmentTrackingEvent.createMany as jest.Mock).mockResolvedValue({ count: 1 });
+            (mockPrisma.shipmentTrackingEvent.findMany as jest.Mock).mockResolvedValue([
+                { trackingNumber: 'FAKE-SHIP2-1', status: TrackingStatus.DELIVERED },
+                { trackingNumber: 'FAKE-SHIP2-2', status: TrackingStatus.DELIVERED }
+            ]);
+
+            // Act
+            const result = await service.ingestCarrierTracking('fake', {
+                trackingNumber: 'FAKE-SHIP2-2',
+                status: 'DELIVERED',
+                occurredAt
+            });
+
+            // Assert
+            expect(result).toEqual({ recorded: 1, delivered: ['shipment-uuid-2'], unmatched: [] });
+            expect(mockPrisma.shipment.update).toHaveBeenCalledWith(expect.objectContaining({
+                where: { id: 'shipment-uuid-2' },
+                data: { status: ShipmentStatus.DELIVERED, deliveredAt: new Date(occurredAt) }
+            }));
+            expect(console.log).toHaveBeenCalledWith(
+                expect.stringContaining('"message":"AssetDelivered"')
+            );
+            expect(mockPrisma.$transaction).toHaveBeenCalledWith(expect.any(Function), {
+                isolationLevel: 'Serializable'
+            });
+        });
+
+        test('should_not_deliver_again_when_delivered_concurrently', async () => {
+            // Arrange - Expédition lue SHIPPED, livrée entre-temps par l'autre colis
+            (mockPrisma.shipment.findFirst as jest.Mock).mockResolvedValue(shippedRow);
+            (mockPrisma.shipment.findUnique as jest.Mock).mockResolvedValue({
+                ...shippedRow,
+                status: ShipmentStatus.DELIVERED
+            });
+            (mockPrisma.shipmentTrackingEvent.createMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            // Act
+            const result = await service.ingestCarrierTracking('FAKE', {
+                trackingNumber: 'FAKE-SHIP2-2',
+                status: 'DELIVERED',
+                occurredAt: '2026-10-20T09:30:00Z'
+            });
+
+            // Assert
+            expect(result).toEqual({ recorded: 1, delivered: [], unmatched: [] });
+            expect(mockPrisma.shipment.update).not.toHaveBeenCalled();
+        });
+
+        test('should_ignore_duplicate_tracking_webhooks', async () => {
+            // Arrange - Statut déjà reçu : skipDuplicates n'insère rien
+            (mockPrisma.shipment.findFirst as jest.Mock).mockImplementation(async ({ where }) =>
+                where.OR[0].trackingRef === 'FAKE-SHIP2' ? shippedRow : null);
+            (mockPrisma.shipmentTrackingEvent.createMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+            // Act
+            const result = await service.ingestCarrierTracking('FAKE', {
+                events: [
+                    { trackingNumber: 'FAKE-SHIP2', status: 'DELIVERED', occurredAt: '2026-10-20T09:30:00Z' },
+                    { trackingNumber: 'FAKE-UNKNOWN', status: 'IN_TRANSIT', occurredAt: '2026-10-20T08:00:00Z' }
+                ]
+            });
+
+            // Assert
+            expect(result.recorded).toBe(0);
+            expect(result.delivered).toEqual([]);
+            expect(result.unmatched.map(u => u.trackingNumber)).toEqual(['FAKE-UNKNOWN']);
+            expect(mockPrisma.shipment.update).not.toHaveBeenCalled();
+        });
+    });
+
     describe('Return', () => {
         test('should_process_asset_return', async () => {
             // Arrange
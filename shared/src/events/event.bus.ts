@@ -0,0 +1,244 @@
+/**
+ * Domain Event Bus
+ * Publication via outbox + livraison at-least-once aux abonnés
+ *
+ * Transport local : les abonnés sont enregistrés dans le process,
+ * l'outbox (mémoire ou PostgreSQL) assure la durabilité.
+ * Aucun broker externe requis : un événement sans abonné reste en attente.
+ */
+
+import { DomainEvent, DomainEventHandler, EventDeliveryError } from './event.types';
+import { OutboxStore, SqlExecutor } from './outbox.store';
+import { StructuredLogger, createLogger } from '../logging/logger';
+
+/**
+ * Abonné au bus
+ */
+interface Subscription {
+    subscriber: string;
+    eventType: string;          // '*' = tous les événements
+    handler: DomainEventHandler;
+}
+
+/**
+ * Bus d'événements domaine
+ */
+export class DomainEventBus {
+    private readonly subscriptions: Subscription[] = [];
+
+    constructor(private readonly store: OutboxStore) { }
+
+    /**
+     * Abonne un handler à un type d'événement ('*' pour tous)
+     *
+     * @returns fonction de désabonnement
+     */
+    subscribe<TPayload = Record<string, unknown>>(
+        subscriber: string,
+        eventType: string,
+        handler: DomainEventHandler<TPayload>
+    ): () => void {
+        const subscription: Subscription = {
+            subscriber,
+            eventType,
+            handler: handler as unknown as DomainEventHandler
+        };
+        this.subscriptions.push(subscription);
+
+        return () => {
+            const index = this.subscriptions.indexOf(subscription);
+            if (index >= 0) {
+                this.subscriptions.splice(index, 1);
+            }
+        };
+    }
+
+    /**
+     * Au moins un abonné pour ce type d'événement (sans type : au moins un abonné)
+     */
+    hasSubscribers(eventType?: string): boolean {
+        return this.subscriptions.some(
+            s => eventType === undefined || s.eventType === '*' || s.eventType === eventType
+        );
+    }
+
+    /**
+     * Publie des événements dans l'outbox
+     *
+     * Passer le client transactionnel pour écrire dans la même
+     * transaction que le changement métier.
+     */
+    async publish(events: DomainEvent<object> | DomainEvent<object>[], tx?: SqlExecutor): Promise<void> {
+        const list = Array.isArray(events) ? events : [events];
+        await this.store.append(list as DomainEvent[], tx);
+    }
+
+    /**
+     * Livre un événement à tous les abonnés concernés
+     *
+     * @returns nombre d'abonnés livrés
+     * @throws EventDeliveryError si au moins un abonné échoue
+     */
+    async deliver(event: DomainEvent): Promise<number> {
+        const targets = this.subscriptions.filter(
+            s => s.eventType === '*' || s.eventType === event.type
+        );
+        const failures: { subscriber: string; message: string }[] = [];
+
+        for (const { subscriber, handler } of targets) {
+            try {
+                await handler(event);
+            } catch (error) {
+                failures.push({
+                    subscriber,
+                    message: error instanceof Error ? error.message : String(error)
+                });
+            }
+        }
+
+        if (failures.length > 0) {
+            throw new EventDeliveryError(event.id, failures);
+        }
+
+        return targets.length;
+    }
+}
+
+/**
+ * Configuration du dispatcher
+ */
+export interface OutboxDispatcherConfig {
+    batchSize?: number;         // défaut 50
+    pollIntervalMs?: number;    // défaut 1000
+    leaseMs?: number;           // défaut 30000
+    maxAttempts?: number;       // défaut 10, puis FAILED
+    retryDelayMs?: number;      // défaut 1000, doublé à chaque tentative
+    idleDelayMs?: number;       // défaut 60000, attente d'un événement sans abonné
+    logger?: StructuredLogger;
+}
+
+/**
+ * Résultat d'un cycle de dispatch
+ */
+export interface DispatchReport {
+    claimed: number;
+    dispatched: number;
+    undelivered: number;        // aucun abonné : remis en attente
+    retried: number;
+    failed: number;
+}
+
+/**
+ * Dispatcher de l'outbox
+ *
+ * Un événement n'est marqué DISPATCHED qu'une fois tous les abonnés
+ * livrés. En cas d'échec, il est relivré à TOUS les abonnés.
+ * Sans abonné, il n'est pas acquitté : il reste PENDING (sans tentative
+ * comptée) jusqu'à ce qu'un abonné s'enregistre.
+ */
+export class OutboxDispatcher {
+    private readonly batchSize: number;
+    private readonly pollIntervalMs: number;
+    private readonly leaseMs: number;
+    private readonly maxAttempts: number;
+    private readonly retryDelayMs: number;
+    private readonly idleDelayMs: number;
+    private readonly logger: StructuredLogger;
+    private timer: NodeJS.Timeout | null = null;
+    private running = false;
+
+    constructor(
+        private readonly bus: DomainEventBus,
+        private readonly store: OutboxStore,
+        config: OutboxDispatcherConfig = {}
+    ) {
+        this.batchSize = config.batchSize ?? 50;
+        this.pollIntervalMs = config.pollIntervalMs ?? 1000;
+        this.leaseMs = config.leaseMs ?? 30000;
+        this.maxAttempts = config.maxAttempts ?? 10;
+        this.retryDelayMs = config.retryDelayMs ?? 1000;
+        this.idleDelayMs = config.idleDelayMs ?? 60000;
+        this.logger = config.logger ?? createLogger('event-bus');
+    }
+
+    /**
+     * Exécute un cycle : réserve, livre, acquitte
+     */
+    async dispatchPending(now: Date = new Date()): Promise<DispatchReport> {
+        const report: DispatchReport = { claimed: 0, dispatched: 0, undelivered: 0, retried: 0, failed: 0 };
+
+        // Aucun abonné : rien n'est réservé, l'outbox garde les événements
+        if (!this.bus.hasSubscribers()) {
+            return report;
+        }
+
+        const records = await this.store.claimPending(this.batchSize, now, this.leaseMs);
+        report.claimed = records.length;
+
+        for (const record of records) {
+            if (!this.bus.hasSubscribers(record.event.type)) {
+                await this.store.release(record.event.id, new Date(now.getTime() + this.idleDelayMs));
+                report.undelivered++;
+                continue;
+            }
+
+            try {
+                await this.bus.deliver(record.event);
+                await this.store.markDispatched(record.event.id, new Date());
+                report.dispatched++;
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                const exhausted = record.attempts >= this.maxAttempts;
+                const retryAt = exhausted
+                    ? null
+                    : new Date(now.getTime() + this.retryDelayMs * 2 ** (record.attempts - 1));
+
+                await this.store.markFailed(record.event.id, message, retryAt);
+
+                if (exhausted) {
+                    report.failed++;
+                    this.logger.error('EVENT_DELIVERY_FAILED', {
+                        data: { eventId: record.event.id, type: record.event.type, attempts: record.attempts, message }
+                    });
+                } else {
+                    report.retried++;
+                    this.logger.warn('EVENT_DELIVERY_RETRY', {
+                        data: { eventId: record.event.id, type: record.event.type, attempts: record.attempts, message }
+                    });
+                }
+            }
+        }
+
+        return report;
+    }
+
+    /**
+     * Démarre le polling (un seul cycle à la fois)
+     */
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+
+        this.timer = setInterval(() => {
+            if (this.running) {
+                return;
+            }
+            this.running = true;
+            this.dispatchPending()
+                .catch(error => this.logger.error('EVENT_DISPATCH_ERROR', { error: error as Error }))
+                .finally(() => { this.running = false; });
+        }, this.pollIntervalMs);
+        this.timer.unref();
+    }
+
+    /**
+     * Arrête le polling
+     */
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+}
@@ -0,0 +1,86 @@
+/**
+ * Domain Event Types
+ * Enveloppe typée commune à tous les événements domaine
+ */
+
+import { randomUUID } from 'crypto';
+
+/**
+ * Enveloppe d'un événement domaine
+ *
+ * - id : identifiant unique (clé d'idempotence côté abonnés)
+ * - type : nom de l'événement (ex. AssetStatusChanged)
+ * - version : version du schéma du payload
+ * - aggregateId : identifiant de l'agrégat concerné
+ * - correlationId : propagé de bout en bout sur une même chaîne métier
+ */
+export interface DomainEvent<TPayload = Record<string, unknown>> {
+    id: string;
+    type: string;
+    version: number;
+    source: string;             // Service émetteur
+    aggregateType: string;      // Asset, Order, Rma, ...
+    aggregateId: string;
+    occurredAt: string;         // ISO 8601
+    correlationId: string;
+    causationId: string | null; // ID de l'événement déclencheur
+    payload: TPayload;
+}
+
+/**
+ * Paramètres de création d'un événement
+ */
+export interface CreateDomainEventInput<TPayload> {
+    type: string;
+    version?: number;
+    source: string;
+    aggregateType: string;
+    aggregateId: string;
+    payload: TPayload;
+    correlationId?: string;
+    causationId?: string;
+    occurredAt?: Date;
+}
+
+/**
+ * Handler d'abonnement
+ *
+ * IMPORTANT : livraison at-least-once → un handler doit être idempotent
+ * (utiliser event.id pour dédoublonner)
+ */
+export type DomainEventHandler<TPayload = Record<string, unknown>> =
+    (event: DomainEvent<TPayload>) => Promise<void> | void;
+
+/**
+ * Construit une enveloppe d'événement
+ * Sans correlationId fourni, l'événement ouvre sa propre chaîne.
+ */
+export function createDomainEvent<TPayload>(input: CreateDomainEventInput<TPayload>): DomainEvent<TPayload> {
+    const id = randomUUID();
+
+    return {
+        id,
+        type: input.type,
+        version: input.version ?? 1,
+        source: input.source,
+        aggregateType: input.aggregateType,
+        aggregateId: input.aggregateId,
+        occurredAt: (input.occurredAt ?? new Date()).toISOString(),
+        correlationId: input.correlationId ?? id,
+        causationId: input.causationId ?? null,
+        payload: input.payload
+    };
+}
+
+/**
+ * Erreur : au moins un abonné a échoué
+ */
+export class EventDeliveryError extends Error {
+    constructor(
+        public readonly eventId: string,
+        public readonly failures: { subscriber: string; message: string }[]
+    ) {
+        super(`Delivery of event ${eventId} failed for: ${failures.map(f => f.subscriber).join(', ')}`);
+        this.name = 'EventDeliveryError';
+    }
+}
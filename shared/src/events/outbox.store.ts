@@ -0,0 +1,325 @@
+/**
+ * Outbox Store
+ * Table outbox transactionnelle (une par service)
+ *
+ * Principe :
+ * 1. L'événement est écrit dans la MÊME transaction que le changement métier
+ * 2. Un dispatcher lit les événements en attente et les livre aux abonnés
+ * 3. Un événement n'est marqué DISPATCHED qu'après livraison réussie
+ */
+
+import { DomainEvent } from './event.types';
+
+/**
+ * Statut d'un événement dans l'outbox
+ */
+export type OutboxStatus = 'PENDING' | 'DISPATCHED' | 'FAILED';
+
+/**
+ * Ligne de l'outbox
+ */
+export interface OutboxRecord {
+    event: DomainEvent;
+    status: OutboxStatus;
+    attempts: number;
+    nextAttemptAt: Date;
+    lastError: string | null;
+    dispatchedAt: Date | null;
+}
+
+/**
+ * Exécuteur SQL minimal
+ * Compatible structurellement avec PrismaClient et Prisma.TransactionClient
+ */
+export interface SqlExecutor {
+    $executeRawUnsafe(query: string, ...values: unknown[]): Promise<number>;
+    $queryRawUnsafe<T = unknown>(query: string, ...values: unknown[]): Promise<T>;
+}
+
+/**
+ * Stockage de l'outbox
+ */
+export interface OutboxStore {
+    /**
+     * Ajoute des événements (dans la transaction fournie le cas échéant)
+     */
+    append(events: DomainEvent[], tx?: SqlExecutor): Promise<void>;
+
+    /**
+     * Réserve jusqu'à `limit` événements à livrer
+     * La réservation expire après `leaseMs` (reprise si le dispatcher tombe)
+     */
+    claimPending(limit: number, now: Date, leaseMs: number): Promise<OutboxRecord[]>;
+
+    markDispatched(eventId: string, at: Date): Promise<void>;
+
+    /**
+     * Rend un événement réservé sans l'avoir livré (aucun abonné) :
+     * la tentative n'est pas comptée, nouvelle réservation à partir de `retryAt`
+     */
+    release(eventId: string, retryAt: Date): Promise<void>;
+
+    /**
+     * Enregistre un échec : nouvelle tentative à `retryAt`, ou FAILED si null
+     */
+    markFailed(eventId: string, error: string, retryAt: Date | null): Promise<void>;
+}
+
+/**
+ * Outbox en mémoire (tests, exécution locale sans base)
+ */
+export class InMemoryOutboxStore implements OutboxStore {
+    private readonly records = new Map<string, OutboxRecord>();
+
+    async append(events: DomainEvent[]): Promise<void> {
+        for (const event of events) {
+            if (this.records.has(event.id)) {
+                continue;
+            }
+            this.records.set(event.id, {
+                event,
+                status: 'PENDING',
+                attempts: 0,
+                nextAttemptAt: new Date(event.occurredAt),
+                lastError: null,
+                dispatchedAt: null
+            });
+        }
+    }
+
+    async claimPending(limit: number, now: Date, leaseMs: number): Promise<OutboxRecord[]> {
+        const claimed = [...this.records.values()]
+            .filter(r => r.status === 'PENDING' && r.nextAttemptAt.getTime() <= now.getTime())
+            .sort((a, b) => a.event.occurredAt.localeCompare(b.event.occurredAt))
+            .slice(0, limit);
+
+        for (const record of claimed) {
+            record.attempts += 1;
+            record.nextAttemptAt = new Date(now.getTime() + leaseMs);
+        }
+
+        return claimed.map(r => ({ ...r }));
+    }
+
+    async markDispatched(eventId: string, at: Date): Promise<void> {
+        const record = this.records.get(eventId);
+        if (record) {
+            record.status = 'DISPATCHED';
+            record.dispatchedAt = at;
+            record.lastError = null;
+        }
+    }
+
+    async release(eventId: string, retryAt: Date): Promise<void> {
+        const record = this.records.get(eventId);
+        if (record && record.status === 'PENDING') {
+            record.attempts = Math.max(record.attempts - 1, 0);
+            record.nextAttemptAt = retryAt;
+        }
+    }
+
+    async markFailed(eventId: string, error: string, retryAt: Date | null): Promise<void> {
+        const record = this.records.get(eventId);
+        if (record) {
+            record.lastError = error;
+            if (retryAt) {
+                record.nextAttemptAt = retryAt;
+            } else {
+                record.status = 'FAILED';
+            }
+        }
+    }
+
+    /**
+     * Lecture de l'outbox (tests / diagnostic)
+     */
+    list(status?: OutboxStatus): OutboxRecord[] {
+        return [...this.records.values()]
+            .filter(r => !status || r.status === status)
+            .map(r => ({ ...r }));
+    }
+}
+
+/**
+ * Nom de table par défaut
+ */
+export const DEFAULT_OUTBOX_TABLE = 'outbox_events';
+
+/**
+ * Vérifie un identifiant SQL (le nom de table n'est pas paramétrable)
+ */
+function assertTableName(table: string): void {
+    if (!/^[a-z_][a-z0-9_]*$/.test(table)) {
+        throw new Error(`Invalid outbox table name: ${table}`);
+    }
+}
+
+/**
+ * DDL de la table outbox (à inclure dans les migrations du service)
+ */
+export function outboxTableDdl(table: string = DEFAULT_OUTBOX_TABLE): string {
+    assertTableName(table);
+
+    return `
+CREATE TABLE IF NOT EXISTS "${table}" (
+    "id"              UUID PRIMARY KEY,
+    "type"            TEXT NOT NULL,
+    "version"         INTEGER NOT NULL,
+    "source"          TEXT NOT NULL,
+    "aggregate_type"  TEXT NOT NULL,
+    "aggregate_id"    TEXT NOT NULL,
+    "occurred_at"     TIMESTAMPTZ NOT NULL,
+    "correlation_id"  TEXT NOT NULL,
+    "causation_id"    TEXT,
+    "payload"         JSONB NOT NULL,
+    "status"          TEXT NOT NULL DEFAULT 'PENDING',
+    "attempts"        INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+    "last_error"      TEXT,
+    "dispatched_at"   TIMESTAMPTZ
+);
+CREATE INDEX IF NOT EXISTS "${table}_pending_idx" ON "${table}" ("status", "next_attempt_at");
+CREATE INDEX IF NOT EXISTS "${table}_aggregate_idx" ON "${table}" ("aggregate_type", "aggregate_id");
+`.trim();
+}
+
+/**
+ * Ligne brute lue depuis PostgreSQL
+ */
+interface OutboxRow {
+    id: string;
+    type: string;
+    version: number;
+    source: string;
+    aggregate_type: string;
+    aggregate_id: string;
+    occurred_at: Date;
+    correlation_id: string;
+    causation_id: string | null;
+    payload: Record<string, unknown>;
+    status: OutboxStatus;
+    attempts: number;
+    next_attempt_at: Date;
+    last_error: string | null;
+    dispatched_at: Date | null;
+}
+
+/**
+ * Outbox PostgreSQL
+ *
+ * Les réservations utilisent FOR UPDATE SKIP LOCKED : plusieurs instances
+ * d'un même service peuvent dispatcher sans livrer deux fois en parallèle.
+ */
+export class PostgresOutboxStore implements OutboxStore {
+    constructor(
+        private readonly db: SqlExecutor,
+        private readonly table: string = DEFAULT_OUTBOX_TABLE
+    ) {
+        assertTableName(table);
+    }
+
+    async append(events: DomainEvent[], tx?: SqlExecutor): Promise<void> {
+        const executor = tx ?? this.db;
+
+        for (const event of events) {
+            await executor.$executeRawUnsafe(
+                `INSERT INTO "${this.table}"
+                    ("id", "type", "version", "source", "aggregate_type", "aggregate_id",
+                     "occurred_at", "correlation_id", "causation_id", "payload", "next_attempt_at")
+                 VALUES ($1::uuid, $2, $3, $4, $5, $6, $7::timestamptz, $8, $9, $10::jsonb, $7::timestamptz)
+                 ON CONFLICT ("id") DO NOTHING`,
+                event.id,
+                event.type,
+                event.version,
+                event.source,
+                event.aggregateType,
+                event.aggregateId,
+                event.occurredAt,
+                event.correlationId,
+                event.causationId,
+                JSON.stringify(event.payload)
+            );
+        }
+    }
+
+    async claimPending(limit: number, now: Date, leaseMs: number): Promise<OutboxRecord[]> {
+        const rows = await this.db.$queryRawUnsafe<OutboxRow[]>(
+            `UPDATE "${this.table}"
+             SET "attempts" = "attempts" + 1,
+                 "next_attempt_at" = $1::timestamptz + ($3 * interval '1 millisecond')
+             WHERE "id" IN (
+                 SELECT "id" FROM "${this.table}"
+                 WHERE "status" = 'PENDING' AND "next_attempt_at" <= $1::timestamptz
+                 ORDER BY "occurred_at"
+                 LIMIT $2
+                 FOR UPDATE SKIP LOCKED
+             )
+             RETURNING *`,
+            now.toISOString(),
+            limit,
+            leaseMs
+        );
+
+        return rows
+            .sort((a, b) => a.occurred_at.getTime() - b.occurred_at.getTime())
+            .map(row => this.toRecord(row));
+    }
+
+    async markDispatched(eventId: string, at: Date): Promise<void> {
+        await this.db.$executeRawUnsafe(
+            `UPDATE "${this.table}"
+             SET "status" = 'DISPATCHED', "dispatched_at" = $2::timestamptz, "last_error" = NULL
+             WHERE "id" = $1::uuid`,
+            eventId,
+            at.toISOString()
+        );
+    }
+
+    async release(eventId: string, retryAt: Date): Promise<void> {
+        await this.db.$executeRawUnsafe(
+            `UPDATE "${this.table}"
+             SET "attempts" = GREATEST("attempts" - 1, 0), "next_attempt_at" = $2::timestamptz
+             WHERE "id" = $1::uuid AND "status" = 'PENDING'`,
+            eventId,
+            retryAt.toISOString()
+        );
+    }
+
+    async markFailed(eventId: string, error: string, retryAt: Date | null): Promise<void> {
+        await this.db.$executeRawUnsafe(
+            `UPDATE "${this.table}"
+             SET "last_error" = $2,
+                 "status" = CASE WHEN $3::timestamptz IS NULL THEN 'FAILED' ELSE "status" END,
+                 "next_attempt_at" = COALESCE($3::timestamptz, "next_attempt_at")
+             WHERE "id" = $1::uuid`,
+            eventId,
+            error,
+            retryAt ? retryAt.toISOString() : null
+        );
+    }
+
+    /**
+     * Convertit une ligne SQL en OutboxRecord
+     */
+    private toRecord(row: OutboxRow): OutboxRecord {
+        return {
+            event: {
+                id: row.id,
+                type: row.type,
+                version: row.version,
+                source: row.source,
+                aggregateType: row.aggregate_type,
+                aggregateId: row.aggregate_id,
+                occurredAt: row.occurred_at.toISOString(),
+                correlationId: row.correlation_id,
+                causationId: row.causation_id,
+                payload: row.payload
+            },
+            status: row.status,
+            attempts: row.attempts,
+            nextAttemptAt: row.next_attempt_at,
+            lastError: row.last_error,
+            dispatchedAt: row.dispatched_at
+        };
+    }
+}
@@ -0,0 +1,70 @@
+/**
+ * Service Outbox
+ * Publication transactionnelle des événements domaine d'un service
+ *
+ * RÈGLE : l'événement est écrit dans la MÊME transaction que le changement
+ * métier, puis livré aux abonnés par l'OutboxDispatcher (at-least-once).
+ */
+
+import { createDomainEvent } from './event.types';
+import { DEFAULT_OUTBOX_TABLE, PostgresOutboxStore, SqlExecutor } from './outbox.store';
+import { DomainEventBus, OutboxDispatcher, OutboxDispatcherConfig } from './event.bus';
+import { createLogger } from '../logging/logger';
+
+/**
+ * Événement à publier
+ */
+export interface OutboxEventInput {
+    type: string;
+    aggregateType: string;
+    aggregateId: string;
+    payload: Record<string, unknown>;
+    correlationId?: string;
+    causationId?: string;
+}
+
+/**
+ * Outbox d'un service émetteur
+ */
+export interface ServiceOutbox {
+    readonly source: string;
+
+    /**
+     * Écrit un événement dans l'outbox
+     *
+     * @param tx - Client de la transaction métier (prisma.$transaction)
+     */
+    publish(tx: SqlExecutor, input: OutboxEventInput): Promise<void>;
+
+    /**
+     * Bus et dispatcher du service
+     * Les abonnés s'enregistrent sur `bus` avant `dispatcher.start()`.
+     */
+    createDispatcher(
+        db: SqlExecutor,
+        config?: Omit<OutboxDispatcherConfig, 'logger'>
+    ): { bus: DomainEventBus; dispatcher: OutboxDispatcher };
+}
+
+/**
+ * Crée l'outbox d'un service
+ *
+ * @param source - Nom du service émetteur (ex. 'asset-service')
+ */
+export function createServiceOutbox(source: string, table: string = DEFAULT_OUTBOX_TABLE): ServiceOutbox {
+    return {
+        source,
+
+        async publish(tx, input) {
+            await new PostgresOutboxStore(tx, table).append([createDomainEvent({ ...input, source })]);
+        },
+
+        createDispatcher(db, config = {}) {
+            const store = new PostgresOutboxStore(db, table);
+            const bus = new DomainEventBus(store);
+            const dispatcher = new OutboxDispatcher(bus, store, { ...config, logger: createLogger(source) });
+
+            return { bus, dispatcher };
+        }
+    };
+}
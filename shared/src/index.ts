@@ -39,3 +39,33 @@ export {
     TimeoutError,
     RobustHttpClient
 } from './http/client';
+
+// Events
+export {
+    DomainEvent,
+    CreateDomainEventInput,
+    DomainEventHandler,
+    EventDeliveryError,
+    createDomainEvent
+} from './events/event.types';
+export {
+    OutboxStatus,
+    OutboxRecord,
+    SqlExecutor,
+    OutboxStore,
+    InMemoryOutboxStore,
+    PostgresOutboxStore,
+    DEFAULT_OUTBOX_TABLE,
+    outboxTableDdl
+} from './events/outbox.store';
+export {
+    DomainEventBus,
+    OutboxDispatcherConfig,
+    DispatchReport,
+    OutboxDispatcher
+} from './events/event.bus';
+export {
+    OutboxEventInput,
+    ServiceOutbox,
+    createServiceOutbox
+} from './events/service.outbox';
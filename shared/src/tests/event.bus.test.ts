@@ -0,0 +1,222 @@
+/**
+ * Event Bus Tests
+ * Tests unitaires du bus et du dispatcher de l'outbox
+ */
+
+import { createDomainEvent, DomainEvent, EventDeliveryError } from '../events/event.types';
+import { InMemoryOutboxStore } from '../events/outbox.store';
+import { DomainEventBus, OutboxDispatcher } from '../events/event.bus';
+import { createLogger } from '../logging/logger';
+
+const assetEvent = (aggregateId: string): DomainEvent => createDomainEvent({
+    type: 'AssetStatusChanged',
+    source: 'asset-service',
+    aggregateType: 'Asset',
+    aggregateId,
+    payload: { aggregateId },
+    occurredAt: new Date('2026-10-19T09:00:00Z')
+});
+
+describe('DomainEventBus', () => {
+    let store: InMemoryOutboxStore;
+    let bus: DomainEventBus;
+
+    beforeEach(() => {
+        store = new InMemoryOutboxStore();
+        bus = new DomainEventBus(store);
+    });
+
+    test('should_publish_to_outbox_without_delivering', async () => {
+        const handler = jest.fn();
+        bus.subscribe('inventory', 'AssetStatusChanged', handler);
+
+        await bus.publish(assetEvent('asset-1'));
+
+        expect(store.list('PENDING')).toHaveLength(1);
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    test('should_deliver_to_matching_and_wildcard_subscribers_only', async () => {
+        const onStatus = jest.fn();
+        const onAll = jest.fn();
+        const onOther = jest.fn();
+        bus.subscribe('inventory', 'AssetStatusChanged', onStatus);
+        bus.subscribe('audit', '*', onAll);
+        bus.subscribe('wms', 'RmaCreated', onOther);
+
+        const event = assetEvent('asset-1');
+        await bus.deliver(event);
+
+        expect(onStatus).toHaveBeenCalledWith(event);
+        expect(onAll).toHaveBeenCalledWith(event);
+        expect(onOther).not.toHaveBeenCalled();
+    });
+
+    test('should_report_failing_subscribers_after_delivering_the_others', async () => {
+        const ok = jest.fn();
+        bus.subscribe('inventory', '*', () => { throw new Error('db down'); });
+        bus.subscribe('audit', '*', ok);
+
+        const error = await bus.deliver(assetEvent('asset-1')).catch(e => e);
+
+        expect(error).toBeInstanceOf(EventDeliveryError);
+        expect(error.failures).toEqual([{ subscriber: 'inventory', message: 'db down' }]);
+        expect(ok).toHaveBeenCalled();
+    });
+
+    test('should_stop_delivering_after_unsubscribe', async () => {
+        const handler = jest.fn();
+        const unsubscribe = bus.subscribe('inventory', '*', handler);
+
+        unsubscribe();
+
+        expect(await bus.deliver(assetEvent('asset-1'))).toBe(0);
+        expect(bus.hasSubscribers()).toBe(false);
+        expect(handler).not.toHaveBeenCalled();
+    });
+});
+
+describe('OutboxDispatcher', () => {
+    const now = new Date('2026-10-19T10:00:00Z');
+    const at = (ms: number) => new Date(now.getTime() + ms);
+    let store: InMemoryOutboxStore;
+    let bus: DomainEventBus;
+
+    beforeEach(() => {
+        store = new InMemoryOutboxStore();
+        bus = new DomainEventBus(store);
+        jest.spyOn(console, 'warn').mockImplementation(() => { });
+        jest.spyOn(console, 'error').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const dispatcher = (maxAttempts = 3) => new OutboxDispatcher(bus, store, {
+        maxAttempts,
+        retryDelayMs: 1000,
+        leaseMs: 30000,
+        logger: createLogger('event-bus-test')
+    });
+
+    test('should_mark_event_dispatched_once_all_subscribers_succeed', async () => {
+        const handler = jest.fn();
+        bus.subscribe('inventory', '*', handler);
+        await bus.publish(assetEvent('asset-1'));
+
+        const report = await dispatcher().dispatchPending(now);
+
+        expect(report).toEqual({ claimed: 1, dispatched: 1, undelivered: 0, retried: 0, failed: 0 });
+        expect(store.list('DISPATCHED')).toHaveLength(1);
+
+        // Acquitté : plus jamais relivré
+        expect((await dispatcher().dispatchPending(at(3600000))).claimed).toBe(0);
+        expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    test('should_keep_events_pending_while_nobody_subscribes', async () => {
+        await bus.publish(assetEvent('asset-1'));
+
+        const report = await dispatcher().dispatchPending(now);
+
+        // Rien n'est réservé ni acquitté
+        expect(report.claimed).toBe(0);
+        expect(store.list('PENDING')[0]?.attempts).toBe(0);
+
+        // Premier abonné : l'événement lui est livré
+        const handler = jest.fn();
+        bus.subscribe('inventory', 'AssetStatusChanged', handler);
+        expect((await dispatcher().dispatchPending(now)).dispatched).toBe(1);
+        expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    test('should_release_events_without_subscriber_for_their_type', async () => {
+        const handler = jest.fn();
+        bus.subscribe('wms', 'RmaCreated', handler);
+        await bus.publish(assetEvent('asset-1'));
+        const outbox = new OutboxDispatcher(bus, store, {
+            idleDelayMs: 60000,
+            logger: createLogger('event-bus-test')
+        });
+
+        const report = await outbox.dispatchPending(now);
+
+        expect(report).toEqual({ claimed: 1, dispatched: 0, undelivered: 1, retried: 0, failed: 0 });
+        const [record] = store.list('PENDING');
+        expect(record?.attempts).toBe(0);
+        expect(record?.nextAttemptAt).toEqual(at(60000));
+        expect(store.list('DISPATCHED')).toHaveLength(0);
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    test('should_retry_with_exponential_backoff', async () => {
+        bus.subscribe('inventory', '*', () => { throw new Error('db down'); });
+        await bus.publish(assetEvent('asset-1'));
+        const outbox = dispatcher(5);
+
+        // Tentative 1 échouée → nouvelle tentative après 1 s
+        expect((await outbox.dispatchPending(now)).retried).toBe(1);
+        expect(store.list()[0]?.nextAttemptAt).toEqual(at(1000));
+        expect((await outbox.dispatchPending(at(999))).claimed).toBe(0);
+
+        // Tentative 2 échouée → 2 s plus tard
+        expect((await outbox.dispatchPending(at(1000))).retried).toBe(1);
+        expect(store.list()[0]?.nextAttemptAt).toEqual(at(3000));
+        expect(store.list()[0]?.lastError).toContain('inventory');
+    });
+
+    test('should_mark_event_failed_after_max_attempts', async () => {
+        bus.subscribe('inventory', '*', () => { throw new Error('db down'); });
+        await bus.publish(assetEvent('asset-1'));
+        const outbox = dispatcher(2);
+
+        await outbox.dispatchPending(now);
+        const report = await outbox.dispatchPending(at(1000));
+
+        expect(report).toEqual({ claimed: 1, dispatched: 0, undelivered: 0, retried: 0, failed: 1 });
+        expect(store.list('FAILED')).toHaveLength(1);
+        expect((await outbox.dispatchPending(at(3600000))).claimed).toBe(0);
+        expect(console.error).toHaveBeenCalledWith(expect.stringContaining('EVENT_DELIVERY_FAILED'));
+    });
+
+    test('should_redeliver_to_every_subscriber_until_all_succeed', async () => {
+        const received: string[] = [];
+        let inventoryDown = true;
+        bus.subscribe('audit', '*', event => { received.push(`audit:${event.id}`); });
+        bus.subscribe('inventory', '*', event => {
+            if (inventoryDown) {
+                throw new Error('db down');
+            }
+            received.push(`inventory:${event.id}`);
+        });
+        const event = assetEvent('asset-1');
+        await bus.publish(event);
+        const outbox = dispatcher();
+
+        await outbox.dispatchPending(now);
+        inventoryDown = false;
+        await outbox.dispatchPending(at(1000));
+
+        // At-least-once : l'abonné déjà livré reçoit le même événement une seconde fois
+        expect(received).toEqual([`audit:${event.id}`, `audit:${event.id}`, `inventory:${event.id}`]);
+        expect(store.list('DISPATCHED')).toHaveLength(1);
+    });
+
+    test('should_redeliver_event_whose_lease_expired_without_ack', async () => {
+        const handler = jest.fn();
+        bus.subscribe('inventory', '*', handler);
+        await bus.publish(assetEvent('asset-1'));
+
+        // Un dispatcher réserve l'événement puis tombe avant de le livrer
+        await store.claimPending(10, now, 30000);
+        expect((await dispatcher().dispatchPending(at(1000))).claimed).toBe(0);
+
+        // Bail expiré : un autre dispatcher le reprend
+        const report = await dispatcher().dispatchPending(at(30000));
+
+        expect(report.dispatched).toBe(1);
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(store.list('DISPATCHED')[0]?.attempts).toBe(2);
+    });
+});
@@ -0,0 +1,118 @@
+/**
+ * Outbox Store Tests
+ * Tests unitaires de l'outbox en mémoire et du DDL
+ */
+
+import { createDomainEvent, DomainEvent } from '../events/event.types';
+import { InMemoryOutboxStore, outboxTableDdl } from '../events/outbox.store';
+
+const event = (aggregateId: string, occurredAt: string): DomainEvent => createDomainEvent({
+    type: 'AssetStatusChanged',
+    source: 'asset-service',
+    aggregateType: 'Asset',
+    aggregateId,
+    payload: { aggregateId },
+    occurredAt: new Date(occurredAt)
+});
+
+describe('InMemoryOutboxStore', () => {
+    const now = new Date('2026-10-19T10:00:00Z');
+    let store: InMemoryOutboxStore;
+
+    beforeEach(() => {
+        store = new InMemoryOutboxStore();
+    });
+
+    test('should_append_events_once_per_id', async () => {
+        const first = event('asset-1', '2026-10-19T09:00:00Z');
+
+        await store.append([first]);
+        await store.append([first]);
+
+        expect(store.list()).toHaveLength(1);
+        expect(store.list('PENDING')[0]).toEqual(expect.objectContaining({ attempts: 0, lastError: null }));
+    });
+
+    test('should_claim_due_events_oldest_first_within_limit', async () => {
+        await store.append([
+            event('asset-2', '2026-10-19T09:30:00Z'),
+            event('asset-1', '2026-10-19T09:00:00Z'),
+            event('asset-3', '2026-10-19T11:00:00Z')
+        ]);
+
+        const claimed = await store.claimPending(1, now, 30000);
+
+        expect(claimed.map(r => r.event.aggregateId)).toEqual(['asset-1']);
+        expect(claimed[0]?.attempts).toBe(1);
+
+        // asset-3 n'est pas encore échu
+        const rest = await store.claimPending(10, now, 30000);
+        expect(rest.map(r => r.event.aggregateId)).toEqual(['asset-2']);
+    });
+
+    test('should_reclaim_event_once_its_lease_expires', async () => {
+        await store.append([event('asset-1', '2026-10-19T09:00:00Z')]);
+
+        await store.claimPending(10, now, 30000);
+
+        // Réservation en cours : non relivrable
+        expect(await store.claimPending(10, new Date(now.getTime() + 29999), 30000)).toHaveLength(0);
+
+        // Dispatcher tombé sans acquitter : reprise après le bail
+        const reclaimed = await store.claimPending(10, new Date(now.getTime() + 30000), 30000);
+        expect(reclaimed).toHaveLength(1);
+        expect(reclaimed[0]?.attempts).toBe(2);
+    });
+
+    test('should_not_claim_dispatched_or_failed_events', async () => {
+        const dispatched = event('asset-1', '2026-10-19T09:00:00Z');
+        const failed = event('asset-2', '2026-10-19T09:00:00Z');
+        await store.append([dispatched, failed]);
+        await store.claimPending(10, now, 0);
+
+        await store.markDispatched(dispatched.id, now);
+        await store.markFailed(failed.id, 'boom', null);
+
+        expect(await store.claimPending(10, new Date(now.getTime() + 60000), 0)).toHaveLength(0);
+        expect(store.list('DISPATCHED')[0]?.dispatchedAt).toEqual(now);
+        expect(store.list('FAILED')[0]?.lastError).toBe('boom');
+    });
+
+    test('should_release_claimed_event_without_counting_the_attempt', async () => {
+        const idle = event('asset-1', '2026-10-19T09:00:00Z');
+        await store.append([idle]);
+        await store.claimPending(10, now, 30000);
+
+        await store.release(idle.id, new Date(now.getTime() + 60000));
+
+        const [record] = store.list('PENDING');
+        expect(record?.attempts).toBe(0);
+        expect(record?.nextAttemptAt).toEqual(new Date(now.getTime() + 60000));
+    });
+
+    test('should_keep_event_pending_until_retry_time', async () => {
+        const retried = event('asset-1', '2026-10-19T09:00:00Z');
+        await store.append([retried]);
+        await store.claimPending(10, now, 30000);
+
+        await store.markFailed(retried.id, 'timeout', new Date(now.getTime() + 5000));
+
+        expect(await store.claimPending(10, new Date(now.getTime() + 4999), 30000)).toHaveLength(0);
+        const [record] = await store.claimPending(10, new Date(now.getTime() + 5000), 30000);
+        expect(record?.status).toBe('PENDING');
+        expect(record?.lastError).toBe('timeout');
+    });
+});
+
+describe('outboxTableDdl', () => {
+    test('should_create_table_and_pending_index', () => {
+        const ddl = outboxTableDdl('wms_outbox');
+
+        expect(ddl).toContain('CREATE TABLE IF NOT EXISTS "wms_outbox"');
+        expect(ddl).toContain('"wms_outbox_pending_idx" ON "wms_outbox" ("status", "next_attempt_at")');
+    });
+
+    test('should_reject_unsafe_table_names', () => {
+        expect(() => outboxTableDdl('outbox"; DROP TABLE x; --')).toThrow('Invalid outbox table name');
+    });
+});
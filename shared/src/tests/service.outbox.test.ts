@@ -0,0 +1,70 @@
+/**
+ * Service Outbox Tests
+ * Tests unitaires de la fabrique d'outbox par service
+ */
+
+import { createServiceOutbox } from '../events/service.outbox';
+import { SqlExecutor } from '../events/outbox.store';
+
+const mockDb = (): jest.Mocked<SqlExecutor> => ({
+    $executeRawUnsafe: jest.fn().mockResolvedValue(1),
+    $queryRawUnsafe: jest.fn().mockResolvedValue([])
+});
+
+describe('createServiceOutbox', () => {
+    test('should_write_event_with_service_source_in_given_transaction', async () => {
+        const tx = mockDb();
+        const outbox = createServiceOutbox('asset-service');
+
+        await outbox.publish(tx, {
+            type: 'AssetCreated',
+            aggregateType: 'Asset',
+            aggregateId: 'asset-1',
+            payload: { assetId: 'asset-1' }
+        });
+
+        expect(tx.$executeRawUnsafe).toHaveBeenCalledWith(
+            expect.stringContaining('INSERT INTO "outbox_events"'),
+            expect.any(String),
+            'AssetCreated',
+            1,
+            'asset-service',
+            'Asset',
+            'asset-1',
+            expect.any(String),
+            expect.any(String),
+            null,
+            JSON.stringify({ assetId: 'asset-1' })
+        );
+    });
+
+    test('should_write_to_custom_table', async () => {
+        const tx = mockDb();
+
+        await createServiceOutbox('wms-service', 'wms_outbox').publish(tx, {
+            type: 'TaskStarted',
+            aggregateType: 'Task',
+            aggregateId: 'task-1',
+            payload: {}
+        });
+
+        expect(tx.$executeRawUnsafe.mock.calls[0]?.[0]).toContain('INSERT INTO "wms_outbox"');
+    });
+
+    test('should_not_claim_before_a_subscriber_registers', async () => {
+        const db = mockDb();
+        const { bus, dispatcher } = createServiceOutbox('sav-service').createDispatcher(db);
+
+        await dispatcher.dispatchPending();
+        expect(db.$queryRawUnsafe).not.toHaveBeenCalled();
+
+        bus.subscribe('wms', 'RmaCreated', jest.fn());
+        await dispatcher.dispatchPending();
+        expect(db.$queryRawUnsafe).toHaveBeenCalledWith(
+            expect.stringContaining('FOR UPDATE SKIP LOCKED'),
+            expect.any(String),
+            50,
+            30000
+        );
+    });
+});